@@ -9,6 +9,8 @@ import './src/env';
 
 const nextConfig: NextConfig = {
     devIndicators: false,
+    // Native binding of the SQLite storage, loaded from node_modules instead of the bundle
+    serverExternalPackages: ['better-sqlite3'],
     eslint: {
         ignoreDuringBuilds: true,
     },
@@ -1,2 +1,3 @@
 export * from './stream';
+export * from './subagent';
 export * from './usage';
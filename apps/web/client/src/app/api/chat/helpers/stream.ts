@@ -1,28 +1,36 @@
 import type { ToolCall } from '@ai-sdk/provider-utils';
-import { getAskModeSystemPrompt, getCreatePageSystemPrompt, getSystemPrompt, initModel } from '@onlook/ai';
+import { env } from '@/env';
+import {
+    getAskModeSystemPrompt,
+    getCreatePageSystemPrompt,
+    getPlanModeSystemPrompt,
+    getSystemPrompt,
+    initModel,
+    initModelChain,
+    parseChatModelPreferences,
+    providerRegistry,
+    resolveChatModels,
+} from '@onlook/ai';
+import { createFileFixtureStore } from '@onlook/ai/src/chat/fixture-store';
+import { localStorage } from '@onlook/db/src/local-storage';
 import { ChatType, LLMProvider, OPENROUTER_MODELS, type ModelConfig } from '@onlook/models';
 import { generateObject, NoSuchToolError, type ToolSet } from 'ai';
 
-export async function getModelFromType(chatType: ChatType) {
-    let model: ModelConfig;
-    switch (chatType) {
-        case ChatType.CREATE:
-        case ChatType.FIX:
-            model = await initModel({
-                provider: LLMProvider.OPENROUTER,
-                model: OPENROUTER_MODELS.OPEN_AI_GPT_5,
-            });
-            break;
-        case ChatType.ASK:
-        case ChatType.EDIT:
-        default:
-            model = await initModel({
-                provider: LLMProvider.OPENROUTER,
-                model: OPENROUTER_MODELS.CLAUDE_4_SONNET,
-            });
-            break;
-    }
-    return model;
+if (env.ONLOOK_LLM_FIXTURES_DIR) {
+    providerRegistry.setFixtureStore(createFileFixtureStore(env.ONLOOK_LLM_FIXTURES_DIR));
+}
+
+/**
+ * Picks the models for a chat type from the project's preferences, then the user's
+ * (`ONLOOK_CHAT_MODELS`), then the defaults, falling back down the chain when a provider errors.
+ */
+export async function getModelFromType(chatType: ChatType, projectId?: string): Promise<ModelConfig> {
+    const project = projectId ? await localStorage.getProject(projectId) : null;
+    const chain = resolveChatModels(chatType, {
+        project: project?.chatModels,
+        user: parseChatModelPreferences(env.ONLOOK_CHAT_MODELS),
+    });
+    return initModelChain(chain);
 }
 
 export function getSystemPromptFromType(chatType: ChatType) {
@@ -35,6 +43,9 @@ export function getSystemPromptFromType(chatType: ChatType) {
         case ChatType.ASK:
             systemPrompt = getAskModeSystemPrompt();
             break;
+        case ChatType.PLAN:
+            systemPrompt = getPlanModeSystemPrompt();
+            break;
         case ChatType.EDIT:
         default:
             systemPrompt = getSystemPrompt();
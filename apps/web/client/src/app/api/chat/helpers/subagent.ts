@@ -0,0 +1,81 @@
+import {
+    convertToStreamMessages,
+    countSubagentSteps,
+    getSubagent,
+    getSubagentSystemPrompt,
+    type SubagentType,
+} from '@onlook/ai';
+import { ChatType, type ChatMessage } from '@onlook/models';
+import { stepCountIs, streamText } from 'ai';
+import { v4 as uuidv4 } from 'uuid';
+import { errorHandler, getModelFromType, repairToolCall } from './stream';
+
+export interface SubagentRequest {
+    type: SubagentType;
+    branchId?: string;
+}
+
+/**
+ * Runs one step of a sub-agent. Its tools run in the browser, so the client sends the
+ * sub-agent's own transcript back after each step until it answers or the budget runs out.
+ */
+export async function streamSubagentResponse({
+    messages,
+    subagent,
+    conversationId,
+    projectId,
+    userId,
+}: {
+    messages: ChatMessage[];
+    subagent: SubagentRequest;
+    conversationId: string;
+    projectId: string;
+    userId: string;
+}) {
+    const definition = getSubagent(subagent.type);
+    const stepsUsed = countSubagentSteps(messages);
+    if (stepsUsed >= definition.maxSteps) {
+        throw new Error(`Sub-agent ${subagent.type} used all ${definition.maxSteps} steps`);
+    }
+    const isLastStep = stepsUsed === definition.maxSteps - 1;
+
+    const { model, providerOptions, headers } = await getModelFromType(ChatType.ASK, projectId);
+    const result = streamText({
+        model,
+        headers,
+        tools: definition.tools,
+        toolChoice: isLastStep ? 'none' : 'auto',
+        stopWhen: stepCountIs(1),
+        messages: [
+            {
+                role: 'system',
+                content: getSubagentSystemPrompt({
+                    maxSteps: definition.maxSteps,
+                    branchId: subagent.branchId,
+                }),
+                providerOptions,
+            },
+            ...convertToStreamMessages(messages),
+        ],
+        experimental_telemetry: {
+            isEnabled: true,
+            metadata: {
+                conversationId,
+                projectId,
+                userId,
+                subagentType: subagent.type,
+                tags: ['chat', 'subagent'],
+                sessionId: conversationId,
+            },
+        },
+        experimental_repairToolCall: repairToolCall,
+        onError: (error) => {
+            console.error('Error in sub-agent stream call', error);
+        },
+    });
+
+    return result.toUIMessageStreamResponse<ChatMessage>({
+        generateMessageId: () => uuidv4(),
+        onError: errorHandler,
+    });
+}
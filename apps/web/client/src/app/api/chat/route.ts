@@ -1,12 +1,12 @@
+import { mcpServerManager } from '@/server/mcp';
 import { api } from '@/trpc/server';
 import { trackEvent } from '@/utils/analytics/server';
-import { convertToStreamMessages, getToolSetFromType } from '@onlook/ai';
-import { toDbMessage } from '@onlook/db';
+import { compactConversation, convertToStreamMessages, getToolSetFromType } from '@onlook/ai';
 import { ChatType, type ChatMessage, type ChatMetadata } from '@onlook/models';
-import { stepCountIs, streamText } from 'ai';
+import { createUIMessageStream, createUIMessageStreamResponse, stepCountIs, streamText } from 'ai';
 import { type NextRequest } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
-import { checkMessageLimit, decrementUsage, errorHandler, getModelFromType, getSystemPromptFromType, incrementUsage, repairToolCall } from './helpers';
+import { checkMessageLimit, decrementUsage, errorHandler, getModelFromType, getSystemPromptFromType, incrementUsage, repairToolCall, streamSubagentResponse, type SubagentRequest } from './helpers';
 import { CursorProvider } from '@onlook/ai/src/cursor/cursor-provider';
 
 const MAX_STEPS = 20;
@@ -41,12 +41,17 @@ export async function POST(req: NextRequest) {
 
 export const streamResponse = async (req: NextRequest, userId: string) => {
     const body = await req.json();
-    const { messages, chatType, conversationId, projectId } = body as {
+    const { messages, chatType, conversationId, projectId, subagent } = body as {
         messages: ChatMessage[],
         chatType: ChatType,
         conversationId: string,
         projectId: string,
+        subagent?: SubagentRequest,
     };
+    if (subagent) {
+        // Sub-agent steps are part of the parent's turn: no usage and nothing to persist
+        return streamSubagentResponse({ messages, subagent, conversationId, projectId, userId });
+    }
     // Updating the usage record and rate limit is done here to avoid
     // abuse in the case where a single user sends many concurrent requests.
     // If the call below fails, the user will not be penalized.
@@ -59,13 +64,17 @@ export const streamResponse = async (req: NextRequest, userId: string) => {
         const lastUserMessage = messages.findLast((message) => message.role === 'user');
         const traceId = lastUserMessage?.id ?? uuidv4();
 
-        if (chatType === ChatType.EDIT) {
+        // Tool-result follow-ups end with an assistant message and are part of the same turn
+        const isNewTurn = messages[messages.length - 1]?.role === 'user';
+        if (chatType === ChatType.EDIT && isNewTurn) {
             usageRecord = await incrementUsage(req, traceId);
         }
-        const modelConfig = await getModelFromType(chatType);
-        const { model, providerOptions, headers } = modelConfig;
+        const modelConfig = await getModelFromType(chatType, projectId);
+        const { model, providerOptions, headers, contextWindow } = modelConfig;
         const systemPrompt = getSystemPromptFromType(chatType);
-        const tools = getToolSetFromType(chatType);
+        const tools = getToolSetFromType(chatType, await mcpServerManager.getServers(projectId));
+        // Older turns are summarized before the conversation outgrows the context window
+        const compaction = await compactConversation({ messages, model, contextWindow });
 
         const result = streamText({
             model,
@@ -78,7 +87,7 @@ export const streamResponse = async (req: NextRequest, userId: string) => {
                     content: systemPrompt,
                     providerOptions,
                 },
-                ...convertToStreamMessages(messages),
+                ...convertToStreamMessages(messages, compaction),
             ],
             experimental_telemetry: {
                 isEnabled: true,
@@ -108,36 +117,54 @@ export const streamResponse = async (req: NextRequest, userId: string) => {
             }
         })
 
-        return result.toUIMessageStreamResponse<ChatMessage>(
-            {
-                originalMessages: messages,
-                generateMessageId: () => uuidv4(),
-                messageMetadata: ({ part }) => {
-                    return {
-                        createdAt: new Date(),
+        const stream = createUIMessageStream<ChatMessage>({
+            originalMessages: messages,
+            generateId: () => uuidv4(),
+            execute: ({ writer }) => {
+                if (compaction) {
+                    // Stored with the reply so later requests start from the summary
+                    writer.write({ type: 'data-compaction', data: compaction });
+                }
+                writer.merge(result.toUIMessageStream<ChatMessage>({
+                    messageMetadata: ({ part }) => {
+                        return {
+                            createdAt: new Date(),
+                            conversationId,
+                            context: [],
+                            checkpoints: [],
+                            finishReason: part.type === 'finish-step' ? part.finishReason : undefined,
+                            usage: part.type === 'finish-step' ? part.usage : undefined,
+                        } satisfies ChatMetadata;
+                    },
+                    onError: errorHandler,
+                }));
+            },
+            onFinish: async ({ messages: finalMessages }) => {
+                const messagesToStore = finalMessages
+                    .filter(msg =>
+                        (msg.role === 'user' || msg.role === 'assistant')
+                    )
+                    .map((msg) => ({
+                        id: msg.id,
                         conversationId,
-                        context: [],
-                        checkpoints: [],
-                        finishReason: part.type === 'finish-step' ? part.finishReason : undefined,
-                        usage: part.type === 'finish-step' ? part.usage : undefined,
-                    } satisfies ChatMetadata;
-                },
-                onFinish: async ({ messages: finalMessages }) => {
-                    const messagesToStore = finalMessages
-                        .filter(msg =>
-                            (msg.role === 'user' || msg.role === 'assistant')
-                        )
-                        .map(msg => toDbMessage(msg, conversationId));
+                        role: msg.role,
+                        content: '',
+                        createdAt: msg.metadata?.createdAt ?? new Date(),
+                        context: msg.metadata?.context ?? [],
+                        parts: msg.parts,
+                        checkpoints: msg.metadata?.checkpoints ?? [],
+                    }));
 
-                    await api.chat.message.replaceConversationMessages({
-                        projectId,
-                        conversationId,
-                        messages: messagesToStore,
-                    });
-                },
-                onError: errorHandler,
-            }
-        );
+                await api.chat.message.replaceConversationMessages({
+                    projectId,
+                    conversationId,
+                    messages: messagesToStore,
+                });
+            },
+            onError: errorHandler,
+        });
+
+        return createUIMessageStreamResponse({ stream });
     } catch (error) {
         console.error('Error in streamResponse setup', error);
         // If there was an error setting up the stream and we incremented usage, revert it
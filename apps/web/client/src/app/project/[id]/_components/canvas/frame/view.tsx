@@ -201,6 +201,7 @@ export const FrameComponent = observer(
                 setFrameId: promisifyMethod(penpalChild?.setFrameId),
                 getElementIndex: promisifyMethod(penpalChild?.getElementIndex),
                 getComputedStyleByDomId: promisifyMethod(penpalChild?.getComputedStyleByDomId),
+                getComputedStyleByOid: promisifyMethod(penpalChild?.getComputedStyleByOid),
                 updateElementInstance: promisifyMethod(penpalChild?.updateElementInstance),
                 getFirstOnlookElement: promisifyMethod(penpalChild?.getFirstOnlookElement),
                 setElementType: promisifyMethod(penpalChild?.setElementType),
@@ -208,10 +209,12 @@ export const FrameComponent = observer(
                 getParentElement: promisifyMethod(penpalChild?.getParentElement),
                 getChildrenCount: promisifyMethod(penpalChild?.getChildrenCount),
                 getOffsetParent: promisifyMethod(penpalChild?.getOffsetParent),
+                getElementCountByOid: promisifyMethod(penpalChild?.getElementCountByOid),
                 getActionLocation: promisifyMethod(penpalChild?.getActionLocation),
                 getActionElement: promisifyMethod(penpalChild?.getActionElement),
                 getInsertLocation: promisifyMethod(penpalChild?.getInsertLocation),
                 getRemoveAction: promisifyMethod(penpalChild?.getRemoveAction),
+                getTemplateIndex: promisifyMethod(penpalChild?.getTemplateIndex),
                 getTheme: promisifyMethod(penpalChild?.getTheme),
                 setTheme: promisifyMethod(penpalChild?.setTheme),
                 startDrag: promisifyMethod(penpalChild?.startDrag),
@@ -224,6 +227,7 @@ export const FrameComponent = observer(
                 editText: promisifyMethod(penpalChild?.editText),
                 stopEditingText: promisifyMethod(penpalChild?.stopEditingText),
                 updateStyle: promisifyMethod(penpalChild?.updateStyle),
+                forceState: promisifyMethod(penpalChild?.forceState),
                 insertElement: promisifyMethod(penpalChild?.insertElement),
                 removeElement: promisifyMethod(penpalChild?.removeElement),
                 moveElement: promisifyMethod(penpalChild?.moveElement),
@@ -235,6 +239,7 @@ export const FrameComponent = observer(
                 handleBodyReady: promisifyMethod(penpalChild?.handleBodyReady),
                 captureScreenshot: promisifyMethod(penpalChild?.captureScreenshot),
                 buildLayerTree: promisifyMethod(penpalChild?.buildLayerTree),
+                getLayerTree: promisifyMethod(penpalChild?.getLayerTree),
             };
         }, [penpalChild]);
 
@@ -0,0 +1,133 @@
+import { useEditorEngine } from '@/components/store/editor';
+import { Button } from '@onlook/ui/button';
+import {
+    DropdownMenu,
+    DropdownMenuCheckboxItem,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@onlook/ui/dropdown-menu';
+import { Icons } from '@onlook/ui/icons';
+import { cn } from '@onlook/ui/utils';
+import { getClassesByBreakpoint } from '@onlook/utility';
+import { observer } from 'mobx-react-lite';
+import { useEffect } from 'react';
+import { useDropdownControl } from '../hooks/use-dropdown-manager';
+
+export const BreakpointDropdown = observer(() => {
+    const editorEngine = useEditorEngine();
+    const selectedEl = editorEngine.elements.selected[0];
+    const breakpoint = selectedEl ? editorEngine.style.getBreakpoint(selectedEl.frameId) : null;
+    const variant = selectedEl ? editorEngine.style.getBreakpointVariant(selectedEl.frameId) : null;
+    // Breakpoints are ordered from the smallest
+    const smallest = editorEngine.theme.breakpoints[0];
+    const responsive = editorEngine.style.responsive;
+    const inherited = getClassesByBreakpoint(
+        editorEngine.style.selectedClasses,
+        editorEngine.theme.breakpoints,
+        breakpoint,
+    ).filter((group) => group.breakpoint.name !== variant);
+    const overrides = variant
+        ? editorEngine.style.selectedClasses.filter((cls) => cls.startsWith(`${variant}:`))
+        : [];
+
+    const { isOpen, onOpenChange } = useDropdownControl({
+        id: 'breakpoint-dropdown',
+    });
+
+    useEffect(() => {
+        void editorEngine.theme.scanBreakpoints();
+    }, [editorEngine.theme]);
+
+    useEffect(() => {
+        if (isOpen) {
+            void editorEngine.style.loadSelectedClasses();
+        }
+    }, [isOpen, editorEngine.style]);
+
+    return (
+        <DropdownMenu open={isOpen} onOpenChange={onOpenChange} modal={false}>
+            <DropdownMenuTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="toolbar"
+                    className={cn(
+                        'flex items-center gap-2 text-muted-foreground border border-border/0 cursor-pointer rounded-lg hover:bg-background-tertiary/20 hover:text-white hover:border hover:border-border data-[state=open]:bg-background-tertiary/20 data-[state=open]:text-white data-[state=open]:border data-[state=open]:border-border focus-visible:ring-0 focus-visible:ring-offset-0 focus:outline-none focus-visible:outline-none active:border-0',
+                        responsive && 'text-white',
+                    )}
+                >
+                    <Icons.Laptop className="h-4 w-4 min-h-4 min-w-4" />
+                    <span className="text-sm">
+                        {responsive ? (variant ?? 'Base') : 'All sizes'}
+                    </span>
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="min-w-[200px] max-w-[280px] mt-1 p-1 rounded-lg">
+                <DropdownMenuCheckboxItem
+                    checked={responsive}
+                    onCheckedChange={(checked) => editorEngine.style.setResponsive(checked)}
+                    onSelect={(e) => e.preventDefault()}
+                    className="text-sm text-muted-foreground data-[highlighted]:text-white"
+                >
+                    {breakpoint
+                        ? `Edit for ${breakpoint.name} (${breakpoint.minWidth}px) and up`
+                        : smallest
+                          ? `Edit below ${smallest.name} (${smallest.minWidth}px) only`
+                          : 'Edit base styles only'}
+                </DropdownMenuCheckboxItem>
+                {(inherited.length > 0 || overrides.length > 0) && <DropdownMenuSeparator />}
+                {inherited.map((group) => (
+                    <div key={group.breakpoint.name}>
+                        <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">
+                            Inherited from {group.breakpoint.name}
+                        </DropdownMenuLabel>
+                        <div className="flex flex-wrap gap-1 px-2 pb-1.5">
+                            {group.classes.map((cls) => (
+                                <span
+                                    key={cls}
+                                    className="rounded-md border border-border px-1.5 py-0.5 text-xs text-foreground-secondary"
+                                >
+                                    {cls}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+                {variant && overrides.length > 0 && (
+                    <>
+                        <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">
+                            Set at {variant}
+                        </DropdownMenuLabel>
+                        <div className="flex flex-wrap gap-1 px-2 pb-1.5">
+                            {overrides.map((cls) => (
+                                <span
+                                    key={cls}
+                                    className="flex items-center gap-1 rounded-md border border-border px-1.5 py-0.5 text-xs text-foreground-secondary"
+                                >
+                                    {cls}
+                                    <button
+                                        aria-label={`Remove ${cls}`}
+                                        className="text-muted-foreground hover:text-white"
+                                        onClick={() => void editorEngine.style.removeClasses([cls])}
+                                    >
+                                        <Icons.CrossS className="h-3 w-3" />
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                            onClick={() => void editorEngine.style.removeClasses(overrides)}
+                            className="flex items-center gap-2 px-2 py-1.5 rounded-md text-muted-foreground text-sm data-[highlighted]:bg-background-tertiary/10 data-[highlighted]:text-white"
+                        >
+                            <Icons.Reset className="h-3.5 w-3.5" />
+                            Clear {variant} overrides
+                        </DropdownMenuItem>
+                    </>
+                )}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+});
@@ -0,0 +1,75 @@
+import { useEditorEngine } from '@/components/store/editor';
+import { ClassSegmentType } from '@onlook/models';
+import { Button } from '@onlook/ui/button';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuLabel,
+    DropdownMenuTrigger,
+} from '@onlook/ui/dropdown-menu';
+import { Icons } from '@onlook/ui/icons';
+import { observer } from 'mobx-react-lite';
+import { useDropdownControl } from '../hooks/use-dropdown-manager';
+
+// Flags classes of the element that come from variants or expressions edits can't be written to
+export const ClassSourceDropdown = observer(() => {
+    const editorEngine = useEditorEngine();
+    const runtimeClasses = editorEngine.elements.selected[0]?.classes ?? [];
+    const { isOpen, onOpenChange } = useDropdownControl({
+        id: 'class-source-dropdown',
+    });
+
+    const sources = editorEngine.style.selectedClassSegments
+        .filter((segment) => !segment.editable)
+        .map((segment) => ({
+            ...segment,
+            classes: segment.classes.filter((cls) => runtimeClasses.includes(cls)),
+        }))
+        .filter((segment) => segment.type === ClassSegmentType.Dynamic || segment.classes.length > 0);
+
+    if (sources.length === 0) {
+        return null;
+    }
+
+    return (
+        <DropdownMenu open={isOpen} onOpenChange={onOpenChange} modal={false}>
+            <DropdownMenuTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="toolbar"
+                    className="flex items-center gap-2 text-amber-300 border border-border/0 cursor-pointer rounded-lg hover:bg-background-tertiary/20 hover:border hover:border-border data-[state=open]:bg-background-tertiary/20 data-[state=open]:border data-[state=open]:border-border focus-visible:ring-0 focus-visible:ring-offset-0 focus:outline-none focus-visible:outline-none active:border-0"
+                >
+                    <Icons.ExclamationTriangle className="h-4 w-4 min-h-4 min-w-4" />
+                    <span className="text-sm">Variants</span>
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="min-w-[200px] max-w-[280px] mt-1 p-1 rounded-lg">
+                <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">
+                    These classes come from variants or expressions and can&apos;t be edited here.
+                    Edits are written to the element&apos;s own classes.
+                </DropdownMenuLabel>
+                {sources.map((source, index) => (
+                    <div key={`${source.expression}-${index}`} className="px-2 pb-1.5">
+                        <p className="text-xs text-foreground-secondary truncate">
+                            {source.type === ClassSegmentType.Variant
+                                ? `Variant ${source.expression}`
+                                : `Expression ${source.expression}`}
+                        </p>
+                        {source.classes.length > 0 && (
+                            <div className="flex flex-wrap gap-1 pt-1">
+                                {source.classes.map((cls) => (
+                                    <span
+                                        key={cls}
+                                        className="rounded-md border border-border px-1.5 py-0.5 text-xs text-muted-foreground"
+                                    >
+                                        {cls}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+});
@@ -0,0 +1,86 @@
+import { useEditorEngine } from '@/components/store/editor';
+import { DynamicType } from '@onlook/models';
+import { Button } from '@onlook/ui/button';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuTrigger,
+} from '@onlook/ui/dropdown-menu';
+import { Icons } from '@onlook/ui/icons';
+import { observer } from 'mobx-react-lite';
+import { useEffect, useState } from 'react';
+import { useDropdownControl } from '../hooks/use-dropdown-manager';
+
+// Tells which elements are rendered by a `.map()`, and previews the other branch of conditions
+export const DynamicElementDropdown = observer(() => {
+    const editorEngine = useEditorEngine();
+    const selectedEl = editorEngine.elements.selected[0];
+    const dynamicType = selectedEl ? editorEngine.dynamic.getDynamicType(selectedEl) : null;
+    const previewedFiles = editorEngine.dynamic.previewedFiles;
+    const [count, setCount] = useState<number | null>(null);
+    const { isOpen, onOpenChange } = useDropdownControl({
+        id: 'dynamic-element-dropdown',
+    });
+
+    useEffect(() => {
+        setCount(null);
+        if (selectedEl && dynamicType === DynamicType.ARRAY) {
+            void editorEngine.dynamic.getRenderedCount(selectedEl).then(setCount);
+        }
+    }, [selectedEl, dynamicType, editorEngine.dynamic]);
+
+    if (dynamicType === DynamicType.ARRAY) {
+        return (
+            <div className="flex items-center gap-2 px-2 text-sm text-muted-foreground whitespace-nowrap">
+                <Icons.ListBullet className="h-4 w-4 min-h-4 min-w-4" />
+                {count && count > 1 ? `Edits apply to all ${count} items` : 'Edits apply to all items'}
+            </div>
+        );
+    }
+
+    if (dynamicType !== DynamicType.CONDITIONAL && previewedFiles.length === 0) {
+        return null;
+    }
+
+    return (
+        <DropdownMenu open={isOpen} onOpenChange={onOpenChange} modal={false}>
+            <DropdownMenuTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="toolbar"
+                    className="flex items-center gap-2 text-muted-foreground border border-border/0 cursor-pointer rounded-lg hover:bg-background-tertiary/20 hover:text-white hover:border hover:border-border data-[state=open]:bg-background-tertiary/20 data-[state=open]:text-white data-[state=open]:border data-[state=open]:border-border focus-visible:ring-0 focus-visible:ring-offset-0 focus:outline-none focus-visible:outline-none active:border-0"
+                >
+                    <Icons.Branch className="h-4 w-4 min-h-4 min-w-4" />
+                    <span className="text-sm">
+                        {previewedFiles.length > 0 ? 'Previewing branch' : 'Conditional'}
+                    </span>
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="min-w-[200px] max-w-[280px] mt-1 p-1 rounded-lg">
+                <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">
+                    Previews change the condition in code until they are restored or undone
+                </DropdownMenuLabel>
+                {selectedEl && dynamicType === DynamicType.CONDITIONAL && (
+                    <DropdownMenuItem
+                        onClick={() => void editorEngine.dynamic.toggleBranch(selectedEl)}
+                        className="flex items-center gap-2 px-2 py-1.5 rounded-md text-muted-foreground text-sm data-[highlighted]:bg-background-tertiary/10 data-[highlighted]:text-white"
+                    >
+                        <Icons.Branch className="h-3.5 w-3.5" />
+                        Show other branch
+                    </DropdownMenuItem>
+                )}
+                {previewedFiles.length > 0 && (
+                    <DropdownMenuItem
+                        onClick={() => void editorEngine.dynamic.restoreBranches()}
+                        className="flex items-center gap-2 px-2 py-1.5 rounded-md text-muted-foreground text-sm data-[highlighted]:bg-background-tertiary/10 data-[highlighted]:text-white"
+                    >
+                        <Icons.Reset className="h-3.5 w-3.5" />
+                        Restore previewed branches
+                    </DropdownMenuItem>
+                )}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+});
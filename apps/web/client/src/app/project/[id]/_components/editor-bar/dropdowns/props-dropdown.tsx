@@ -0,0 +1,261 @@
+'use client';
+
+import { useEditorEngine } from '@/components/store/editor';
+import type { PropValue } from '@/components/store/editor/props';
+import { PropsType, type NodeProps } from '@onlook/models';
+import type { Prop } from '@onlook/types/adapters';
+import { Button } from '@onlook/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuTrigger } from '@onlook/ui/dropdown-menu';
+import { Icons } from '@onlook/ui/icons';
+import { Input } from '@onlook/ui/input';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@onlook/ui/select';
+import { observer } from 'mobx-react-lite';
+import { useEffect, useState } from 'react';
+import { useDropdownControl } from '../hooks/use-dropdown-manager';
+import { HoverOnlyTooltip } from '../hover-tooltip';
+import { InputRadio } from '../inputs/input-radio';
+import { ToolbarButton } from '../toolbar-button';
+
+const MAX_RADIO_OPTIONS = 4;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const isLiteral = (value: NodeProps | undefined) =>
+    !value ||
+    value.type === PropsType.String ||
+    value.type === PropsType.Number ||
+    value.type === PropsType.Boolean;
+
+// Writes text inputs on blur or Enter rather than on every keystroke
+const TextPropInput = ({
+    value,
+    type,
+    isValid,
+    onCommit,
+}: {
+    value: string;
+    type: 'text' | 'number';
+    /** Invalid drafts are dropped and the input shows the current value again */
+    isValid?: (value: string) => boolean;
+    onCommit: (value: string) => void;
+}) => {
+    const [draft, setDraft] = useState(value);
+
+    useEffect(() => {
+        setDraft(value);
+    }, [value]);
+
+    const commit = () => {
+        if (draft === value) {
+            return;
+        }
+        if (isValid && !isValid(draft)) {
+            setDraft(value);
+            return;
+        }
+        onCommit(draft);
+    };
+
+    return (
+        <Input
+            type={type}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+                // Keeps the menu from taking the keys for typeahead
+                e.stopPropagation();
+                if (e.key === 'Enter') {
+                    e.currentTarget.blur();
+                }
+            }}
+            className="h-9 bg-background-tertiary/50 border-none text-sm"
+        />
+    );
+};
+
+const PropInput = ({
+    prop,
+    value,
+    onChange,
+}: {
+    prop: Prop;
+    value: NodeProps | undefined;
+    onChange: (value: PropValue) => void;
+}) => {
+    const current: unknown = value?.value ?? prop.type.default;
+    const text =
+        typeof current === 'string' || typeof current === 'number' || typeof current === 'boolean'
+            ? String(current)
+            : '';
+
+    switch (prop.type.type) {
+        case 'boolean':
+            return (
+                <InputRadio
+                    options={[
+                        { value: 'true', label: 'True' },
+                        { value: 'false', label: 'False' },
+                    ]}
+                    value={String(current === true)}
+                    onChange={(selected) => onChange(selected === 'true')}
+                />
+            );
+        case 'enum':
+            if (prop.type.options.length <= MAX_RADIO_OPTIONS) {
+                return (
+                    <InputRadio
+                        options={prop.type.options.map((option) => ({
+                            value: option,
+                            label: option,
+                        }))}
+                        value={text}
+                        onChange={onChange}
+                    />
+                );
+            }
+            return (
+                <Select value={text} onValueChange={onChange}>
+                    <SelectTrigger className="h-9 w-full bg-background-tertiary/50 border-none text-sm">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {prop.type.options.map((option) => (
+                            <SelectItem key={option} value={option}>
+                                {option}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            );
+        case 'number':
+            return (
+                <TextPropInput
+                    type="number"
+                    value={text}
+                    // An emptied input parses to NaN, which would be written as `{NaN}`
+                    isValid={(text) => Number.isFinite(Number.parseFloat(text))}
+                    onCommit={(text) => onChange(Number.parseFloat(text))}
+                />
+            );
+        case 'color':
+            return (
+                <div className="flex items-center gap-2">
+                    <input
+                        type="color"
+                        aria-label={`${prop.name} color`}
+                        value={HEX_COLOR.test(text) ? text : '#000000'}
+                        onChange={(e) => onChange(e.target.value)}
+                        className="h-7 w-7 flex-none cursor-pointer rounded-sm border-none bg-transparent p-0"
+                    />
+                    <TextPropInput type="text" value={text} onCommit={onChange} />
+                </div>
+            );
+        case 'string':
+            return <TextPropInput type="text" value={text} onCommit={onChange} />;
+    }
+};
+
+// Props of the selected component instance, with inputs for the ones typed in its source
+export const PropsDropdown = observer(() => {
+    const editorEngine = useEditorEngine();
+    const instance = editorEngine.props.instance;
+    const { isOpen, onOpenChange } = useDropdownControl({
+        id: 'props-dropdown',
+    });
+
+    if (!instance) {
+        return null;
+    }
+
+    const { component, values } = instance;
+    const getValue = (name: string) => values.find((value) => value.key === name);
+    const editableProps = component.props.filter((prop) => isLiteral(getValue(prop.name)));
+    // Set in code with expressions, or not typed in a way that can be edited here
+    const readOnlyValues = values.filter(
+        (value) => !editableProps.some((prop) => prop.name === value.key),
+    );
+
+    return (
+        <DropdownMenu open={isOpen} onOpenChange={onOpenChange} modal={false}>
+            <HoverOnlyTooltip
+                content={`${component.name} props`}
+                side="bottom"
+                className="mt-1"
+                hideArrow
+                disabled={isOpen}
+            >
+                <DropdownMenuTrigger asChild>
+                    <ToolbarButton isOpen={isOpen} className="flex items-center gap-2 px-2">
+                        <Icons.ComponentInstance className="h-4 w-4 min-h-4 min-w-4" />
+                        <span className="text-sm">Props</span>
+                    </ToolbarButton>
+                </DropdownMenuTrigger>
+            </HoverOnlyTooltip>
+            <DropdownMenuContent
+                side="bottom"
+                align="start"
+                className="mt-1 w-[320px] rounded-xl p-0 bg-background shadow-lg border border-border"
+            >
+                <div className="flex justify-between items-center pl-4 pr-2.5 py-1.5 border-b border-border">
+                    <h2 className="text-sm font-normal text-foreground truncate">
+                        {component.name}
+                    </h2>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 rounded-md hover:bg-background-secondary"
+                        onClick={() => onOpenChange(false)}
+                    >
+                        <Icons.CrossS className="h-4 w-4" />
+                    </Button>
+                </div>
+                <div className="space-y-3 px-4 py-3 max-h-[400px] overflow-y-auto">
+                    {editableProps.length === 0 && readOnlyValues.length === 0 && (
+                        <p className="text-sm text-muted-foreground">
+                            No props are typed in {component.sourceFilePath}
+                        </p>
+                    )}
+                    {editableProps.map((prop) => (
+                        <div key={prop.name} className="flex items-center gap-3">
+                            <span className="text-sm text-muted-foreground w-24 truncate">
+                                {prop.name}
+                            </span>
+                            <div className="flex-1 min-w-0">
+                                <PropInput
+                                    prop={prop}
+                                    value={getValue(prop.name)}
+                                    onChange={(value) =>
+                                        void editorEngine.props.update(prop.name, value)
+                                    }
+                                />
+                            </div>
+                        </div>
+                    ))}
+                    {readOnlyValues.length > 0 && (
+                        <div className="space-y-2 pt-1">
+                            <p className="text-xs text-muted-foreground">
+                                Set in code, edit them in the code tab
+                            </p>
+                            {readOnlyValues.map((value) => (
+                                <div key={String(value.key)} className="flex items-center gap-3">
+                                    <span className="text-sm text-muted-foreground w-24 truncate">
+                                        {value.key}
+                                    </span>
+                                    <code className="flex-1 min-w-0 truncate rounded-md bg-background-tertiary/50 px-2 py-1.5 text-xs text-foreground-secondary">
+                                        {String(value.value)}
+                                    </code>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+});
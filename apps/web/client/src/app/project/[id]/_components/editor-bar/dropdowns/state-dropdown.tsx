@@ -1,3 +1,5 @@
+import { useEditorEngine } from '@/components/store/editor';
+import { PseudoState } from '@onlook/models';
 import { Button } from '@onlook/ui/button';
 import {
     DropdownMenu,
@@ -6,25 +8,60 @@ import {
     DropdownMenuTrigger,
 } from '@onlook/ui/dropdown-menu';
 import { Icons } from '@onlook/ui/icons';
+import { cn } from '@onlook/ui/utils';
+import { observer } from 'mobx-react-lite';
+import { useDropdownControl } from '../hooks/use-dropdown-manager';
+
+const STATE_LABELS: Record<PseudoState, string> = {
+    [PseudoState.Default]: 'Default',
+    [PseudoState.Hover]: 'Hover',
+    [PseudoState.Focus]: 'Focus',
+    [PseudoState.FocusVisible]: 'Focus visible',
+    [PseudoState.Active]: 'Active',
+    [PseudoState.Disabled]: 'Disabled',
+};
+
+export const StateDropdown = observer(() => {
+    const editorEngine = useEditorEngine();
+    const currentState = editorEngine.style.state;
+    const { isOpen, onOpenChange } = useDropdownControl({
+        id: 'state-dropdown',
+    });
 
-export const StateDropdown = () => {
     return (
-        <DropdownMenu modal={false}>
+        <DropdownMenu open={isOpen} onOpenChange={onOpenChange} modal={false}>
             <DropdownMenuTrigger asChild>
                 <Button
                     variant="ghost"
                     size="toolbar"
-                    className="flex items-center gap-2 text-muted-foreground border border-border/0 cursor-pointer rounded-lg hover:bg-background-tertiary/20 hover:text-white hover:border hover:border-border data-[state=open]:bg-background-tertiary/20 data-[state=open]:text-white data-[state=open]:border data-[state=open]:border-border focus-visible:ring-0 focus-visible:ring-offset-0 focus:outline-none focus-visible:outline-none active:border-0"
+                    className={cn(
+                        'flex items-center gap-2 text-muted-foreground border border-border/0 cursor-pointer rounded-lg hover:bg-background-tertiary/20 hover:text-white hover:border hover:border-border data-[state=open]:bg-background-tertiary/20 data-[state=open]:text-white data-[state=open]:border data-[state=open]:border-border focus-visible:ring-0 focus-visible:ring-offset-0 focus:outline-none focus-visible:outline-none active:border-0',
+                        currentState !== PseudoState.Default && 'text-white',
+                    )}
                 >
                     <Icons.StateCursor className="h-4 w-4 min-h-4 min-w-4" />
-                    <span className="text-sm">State</span>
+                    <span className="text-sm">
+                        {currentState === PseudoState.Default
+                            ? 'State'
+                            : STATE_LABELS[currentState]}
+                    </span>
                 </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="start" className="min-w-[120px] mt-1 p-1 rounded-lg">
-                <DropdownMenuItem className="flex items-center px-2 py-1.5 rounded-md text-muted-foreground text-sm data-[highlighted]:bg-background-tertiary/10 border border-border/0 data-[highlighted]:border-border data-[highlighted]:text-white">
-                    Default
-                </DropdownMenuItem>
+                {Object.values(PseudoState).map((state) => (
+                    <DropdownMenuItem
+                        key={state}
+                        onClick={() => void editorEngine.style.setState(state)}
+                        className={cn(
+                            'flex items-center justify-between gap-2 px-2 py-1.5 rounded-md text-muted-foreground text-sm data-[highlighted]:bg-background-tertiary/10 border border-border/0 data-[highlighted]:border-border data-[highlighted]:text-white',
+                            state === currentState && 'text-white',
+                        )}
+                    >
+                        {STATE_LABELS[state]}
+                        {state === currentState && <Icons.Check className="h-3 w-3" />}
+                    </DropdownMenuItem>
+                ))}
             </DropdownMenuContent>
         </DropdownMenu>
     );
-};
+});
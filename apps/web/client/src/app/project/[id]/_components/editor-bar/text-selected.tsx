@@ -3,13 +3,18 @@
 import React from 'react';
 import { Border } from './dropdowns/border';
 import { BorderColor } from './dropdowns/border-color';
+import { BreakpointDropdown } from './dropdowns/breakpoint-dropdown';
+import { ClassSourceDropdown } from './dropdowns/class-source-dropdown';
 import { ColorBackground } from './dropdowns/color-background';
 import { Display } from './dropdowns/display';
+import { DynamicElementDropdown } from './dropdowns/dynamic-element-dropdown';
 import { Height } from './dropdowns/height';
 import { Margin } from './dropdowns/margin';
 import { Opacity } from './dropdowns/opacity';
 import { Padding } from './dropdowns/padding';
+import { PropsDropdown } from './dropdowns/props-dropdown';
 import { Radius } from './dropdowns/radius';
+import { StateDropdown } from './dropdowns/state-dropdown';
 import { Width } from './dropdowns/width';
 import { useDropdownControl } from './hooks/use-dropdown-manager';
 import { useMeasureGroup } from './hooks/use-measure-group';
@@ -24,6 +29,17 @@ import { TextColor } from './text-inputs/text-color';
 
 // Group definitions for the text-selected toolbar
 export const TEXT_SELECTED_GROUPS = [
+    {
+        key: 'text-state',
+        label: 'Breakpoint & State',
+        components: [
+            <BreakpointDropdown key="breakpoint" />,
+            <StateDropdown key="state" />,
+            <ClassSourceDropdown key="class-source" />,
+            <DynamicElementDropdown key="dynamic-element" />,
+            <PropsDropdown key="props" />,
+        ],
+    },
     {
         key: 'text-base',
         label: 'Base',
@@ -1,6 +1,6 @@
 import { useEditorEngine } from '@/components/store/editor';
 import { MouseAction } from '@onlook/models/editor';
-import type { DomElement, LayerNode } from '@onlook/models/element';
+import { DynamicType, type DomElement, type LayerNode } from '@onlook/models/element';
 import { Icons } from '@onlook/ui/icons';
 import { Tooltip, TooltipContent, TooltipPortal, TooltipTrigger } from '@onlook/ui/tooltip';
 import { cn } from '@onlook/ui/utils';
@@ -336,6 +336,18 @@ export const TreeNode = memo(
                                         tagName={node.data.tagName}
                                     />
                                 )}
+                                {node.data.dynamicType === DynamicType.ARRAY && (
+                                    <Icons.ListBullet
+                                        aria-label="Rendered for each item of a list"
+                                        className="w-3 h-3 mr-1.5 flex-none opacity-60"
+                                    />
+                                )}
+                                {node.data.dynamicType === DynamicType.CONDITIONAL && (
+                                    <Icons.Branch
+                                        aria-label="Rendered under a condition"
+                                        className="w-3 h-3 mr-1.5 flex-none opacity-60"
+                                    />
+                                )}
                                 <span
                                     className={cn(
                                         'truncate space',
@@ -28,11 +28,25 @@ export const ChatModeToggle = observer(({ chatMode, onChatModeChange, disabled =
     }, []);
 
         const getCurrentModeIcon = () => {
-            return chatMode === ChatType.EDIT ? Icons.Build : Icons.Ask;
+            switch (chatMode) {
+                case ChatType.ASK:
+                    return Icons.Ask;
+                case ChatType.PLAN:
+                    return Icons.ListCheck;
+                default:
+                    return Icons.Build;
+            }
         };
 
         const getCurrentModeLabel = () => {
-            return chatMode === ChatType.EDIT ? 'Build' : 'Ask';
+            switch (chatMode) {
+                case ChatType.ASK:
+                    return 'Ask';
+                case ChatType.PLAN:
+                    return 'Plan';
+                default:
+                    return 'Build';
+            }
         };
 
         const Icon = getCurrentModeIcon();
@@ -94,6 +108,16 @@ export const ChatModeToggle = observer(({ chatMode, onChatModeChange, disabled =
                     <Icons.Ask className="w-4 h-4" />
                     <span>Ask</span>
                 </DropdownMenuItem>
+                <DropdownMenuItem
+                    onClick={() => onChatModeChange(ChatType.PLAN)}
+                    className={cn(
+                        'flex items-center gap-2 px-3 py-2',
+                        chatMode === ChatType.PLAN && 'bg-background-onlook'
+                    )}
+                >
+                    <Icons.ListCheck className="w-4 h-4" />
+                    <span>Plan</span>
+                </DropdownMenuItem>
             </DropdownMenuContent>
         </DropdownMenu>
     );
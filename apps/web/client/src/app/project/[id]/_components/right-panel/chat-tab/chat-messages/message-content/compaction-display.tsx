@@ -0,0 +1,48 @@
+import type { ChatCompaction } from '@onlook/models';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@onlook/ui/collapsible';
+import { Icons } from '@onlook/ui/icons';
+import { cn } from '@onlook/ui/utils';
+import { useState } from 'react';
+import { MarkdownRenderer } from '../markdown-renderer';
+
+const formatTokens = (tokens: number) =>
+    tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : `${tokens}`;
+
+export const CompactionDisplay = ({ messageId, compaction }: { messageId: string, compaction: ChatCompaction }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const pinnedPaths = Array.from(new Set(compaction.pinnedContext.map((context) => context.displayName)));
+
+    return (
+        <Collapsible open={isOpen} onOpenChange={setIsOpen} className="border rounded-lg">
+            <CollapsibleTrigger asChild>
+                <div className="flex items-center gap-2 px-3 py-2 cursor-pointer text-small text-foreground-secondary hover:text-foreground">
+                    <Icons.ChevronDown
+                        className={cn('h-4 w-4 shrink-0 transition-transform duration-200', isOpen && 'rotate-180')}
+                    />
+                    <p className="truncate">
+                        Conversation compacted
+                    </p>
+                    <p className="ml-auto shrink-0 text-foreground-tertiary">
+                        {compaction.summarizedMessageCount} messages summarized · {formatTokens(compaction.tokensBefore)} → {formatTokens(compaction.tokensAfter)} tokens
+                    </p>
+                </div>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+                <div className="flex flex-col gap-2 px-3 py-2 border-t max-h-96 overflow-y-auto">
+                    <MarkdownRenderer
+                        messageId={messageId}
+                        type="text"
+                        content={compaction.summary}
+                        applied={false}
+                        isStream={false}
+                    />
+                    {pinnedPaths.length > 0 && (
+                        <p className="text-xs text-foreground-tertiary">
+                            Pinned context kept: {pinnedPaths.join(', ')}
+                        </p>
+                    )}
+                </div>
+            </CollapsibleContent>
+        </Collapsible>
+    );
+};
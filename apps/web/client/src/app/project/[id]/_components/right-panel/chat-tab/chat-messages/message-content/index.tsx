@@ -4,6 +4,7 @@ import { cn } from '@onlook/ui/utils';
 import type { ToolUIPart } from 'ai';
 import { observer } from 'mobx-react-lite';
 import { MarkdownRenderer } from '../markdown-renderer';
+import { CompactionDisplay } from './compaction-display';
 import { ToolCallDisplay } from './tool-call-display';
 
 export const MessageContent = observer(
@@ -43,6 +44,14 @@ export const MessageContent = observer(
                         applied={applied}
                     />
                 );
+            } else if (part.type === 'data-compaction') {
+                return (
+                    <CompactionDisplay
+                        key={`compaction-${part.data.throughMessageId}`}
+                        messageId={messageId}
+                        compaction={part.data}
+                    />
+                );
             } else if (part.type === 'reasoning') {
                 return (
                     <>
@@ -0,0 +1,69 @@
+import { useEditorEngine } from '@/components/store/editor';
+import { type TASK_TOOL_PARAMETERS, type TaskToolOutput } from '@onlook/ai';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@onlook/ui/collapsible';
+import { Icons } from '@onlook/ui/icons';
+import { cn } from '@onlook/ui/utils';
+import type { ToolUIPart } from 'ai';
+import { observer } from 'mobx-react-lite';
+import { useState } from 'react';
+import { type z } from 'zod';
+import { MessageContent } from '.';
+
+export const SubagentDisplay = observer(({ toolPart }: { toolPart: ToolUIPart }) => {
+    const editorEngine = useEditorEngine();
+    const [isOpen, setIsOpen] = useState(false);
+    const args = toolPart.input as Partial<z.infer<typeof TASK_TOOL_PARAMETERS>> | undefined;
+    const output = toolPart.state === 'output-available' ? (toolPart.output as TaskToolOutput | string | null) : null;
+    const finished = output && typeof output === 'object' ? output : null;
+
+    // While running, the transcript only exists in the store; afterwards it is saved in the output
+    const run = editorEngine.chat.subagents.get(toolPart.toolCallId);
+    const transcript = finished?.transcript ?? run?.transcript ?? [];
+    const stepsUsed = finished?.stepsUsed ?? transcript.filter((message) => message.role === 'assistant').length;
+    const maxSteps = finished?.maxSteps ?? run?.maxSteps;
+    const isRunning = !output && run?.status === 'running';
+    const failed = typeof output === 'string' || run?.status === 'error' || toolPart.state === 'output-error';
+
+    return (
+        <Collapsible open={isOpen} onOpenChange={setIsOpen} className="border rounded-lg">
+            <CollapsibleTrigger asChild>
+                <div className="flex items-center gap-2 px-3 py-2 cursor-pointer text-small text-foreground-secondary hover:text-foreground">
+                    <Icons.ChevronDown
+                        className={cn('h-4 w-4 shrink-0 transition-transform duration-200', isOpen && 'rotate-180')}
+                    />
+                    <p className={cn(
+                        'truncate',
+                        isRunning && 'bg-gradient-to-l from-white/20 via-white/90 to-white/20 bg-[length:200%_100%] bg-clip-text text-transparent animate-shimmer',
+                    )}>
+                        {args?.description ?? 'Sub-agent'}
+                    </p>
+                    <p className="ml-auto shrink-0 text-foreground-tertiary">
+                        {failed ? 'Failed' : maxSteps ? `${stepsUsed}/${maxSteps} steps` : args?.subagent_type}
+                    </p>
+                    {isRunning && <Icons.LoadingSpinner className="h-4 w-4 shrink-0 animate-spin" />}
+                </div>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+                <div className="flex flex-col gap-2 px-3 py-2 border-t max-h-96 overflow-y-auto">
+                    {args?.prompt && (
+                        <p className="text-small text-foreground-tertiary whitespace-pre-wrap">{args.prompt}</p>
+                    )}
+                    {transcript
+                        .filter((message) => message.role === 'assistant')
+                        .map((message, index, steps) => (
+                            <MessageContent
+                                key={message.id}
+                                messageId={message.id}
+                                parts={message.parts}
+                                applied={false}
+                                isStream={isRunning && index === steps.length - 1}
+                            />
+                        ))}
+                    {finished?.stoppedEarly && (
+                        <p className="text-small text-foreground-tertiary">Stopped after using all steps.</p>
+                    )}
+                </div>
+            </CollapsibleContent>
+        </Collapsible>
+    );
+});
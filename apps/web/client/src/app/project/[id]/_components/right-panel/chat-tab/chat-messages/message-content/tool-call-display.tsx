@@ -1,10 +1,14 @@
 import {
+    EXIT_PLAN_MODE_TOOL_NAME,
+    type EXIT_PLAN_MODE_TOOL_PARAMETERS,
     FUZZY_EDIT_FILE_TOOL_NAME,
     type FUZZY_EDIT_FILE_TOOL_PARAMETERS,
+    SCREENSHOT_FRAME_TOOL_NAME,
     SEARCH_REPLACE_EDIT_FILE_TOOL_NAME,
     type SEARCH_REPLACE_EDIT_FILE_TOOL_PARAMETERS,
     SEARCH_REPLACE_MULTI_EDIT_FILE_TOOL_NAME,
     type SEARCH_REPLACE_MULTI_EDIT_FILE_TOOL_PARAMETERS,
+    TASK_TOOL_NAME,
     TERMINAL_COMMAND_TOOL_NAME, TERMINAL_COMMAND_TOOL_PARAMETERS, TODO_WRITE_TOOL_NAME,
     type TODO_WRITE_TOOL_PARAMETERS, TYPECHECK_TOOL_NAME,
     WEB_SEARCH_TOOL_NAME,
@@ -12,7 +16,7 @@ import {
     WRITE_FILE_TOOL_NAME,
     type WRITE_FILE_TOOL_PARAMETERS
 } from '@onlook/ai';
-import type { WebSearchResult } from '@onlook/models';
+import type { FrameScreenshotResult, WebSearchResult } from '@onlook/models';
 import { Icons } from '@onlook/ui/icons/index';
 import { cn } from '@onlook/ui/utils';
 import type { ToolUIPart } from 'ai';
@@ -21,6 +25,9 @@ import { type z } from 'zod';
 import { BashCodeDisplay } from '../../code-display/bash-code-display';
 import { CollapsibleCodeBlock } from '../../code-display/collapsible-code-block';
 import { SearchSourcesDisplay } from '../../code-display/search-sources-display';
+import { TodoChecklist } from '../../plan';
+import { MarkdownRenderer } from '../markdown-renderer';
+import { SubagentDisplay } from './subagent-display';
 import { ToolCallSimple } from './tool-call-simple';
 
 export const ToolCallDisplay = ({
@@ -39,6 +46,11 @@ export const ToolCallDisplay = ({
     const toolName = toolPart.type.split('-')[1];
     const loading = isStream && isLastPart;
 
+    // Shown while streaming too so the sub-agent's progress is visible
+    if (toolName === TASK_TOOL_NAME && toolPart.input) {
+        return <SubagentDisplay toolPart={toolPart} key={toolPart.toolCallId} />;
+    }
+
     if (isStream || (toolPart.state !== 'output-available' && toolPart.state !== 'input-available')) {
         return (
             <ToolCallSimple
@@ -212,24 +224,64 @@ export const ToolCallDisplay = ({
                 />
             );
         }
+        return <TodoChecklist todos={todos} />;
+    }
+
+    if (toolName === EXIT_PLAN_MODE_TOOL_NAME) {
+        const args = toolPart.input as z.infer<typeof EXIT_PLAN_MODE_TOOL_PARAMETERS> | null;
+        if (!args?.plan) {
+            return (
+                <ToolCallSimple
+                    toolPart={toolPart}
+                    key={toolPart.toolCallId}
+                    loading={loading}
+                />
+            );
+        }
+        const output: unknown = toolPart.state === 'output-available' ? toolPart.output : null;
+        const result = typeof output === 'string' ? output : '';
+        const approved = result.startsWith('The user approved');
         return (
-            <div>
-                {todos.map((todo) => (
-                    <div className="flex items-center gap-2 text-sm" key={todo.content}>
-                        <div className="flex items-center justify-center w-4 h-4 min-w-4">
-                            {todo.status === 'completed' ? <Icons.SquareCheck className="w-4 h-4" /> : <Icons.Square className="w-4 h-4" />}
-                        </div>
-                        <p className={cn(
-                            todo.status === 'completed' ? 'line-through text-green-500' : '',
-                            todo.status === 'in_progress' ? 'text-yellow-500' : '',
-                            todo.status === 'pending' ? 'text-gray-500' : '',
-                        )}>{todo.content}</p>
-                    </div>
-                ))}
+            <div className="border rounded-lg">
+                <div className="flex items-center gap-2 px-3 py-2 border-b text-small text-foreground-secondary">
+                    <Icons.ListCheck className="w-4 h-4" />
+                    <p>Plan</p>
+                    {result && (
+                        <p className={cn('ml-auto', approved ? 'text-green-500' : 'text-foreground-tertiary')}>
+                            {approved ? 'Approved' : 'Rejected'}
+                        </p>
+                    )}
+                </div>
+                <div className="px-3 py-2">
+                    <MarkdownRenderer
+                        messageId={messageId}
+                        type="text"
+                        content={args.plan}
+                        applied={applied}
+                        isStream={isStream}
+                    />
+                </div>
             </div>
         );
     }
 
+    if (toolName === SCREENSHOT_FRAME_TOOL_NAME && toolPart.state === 'output-available') {
+        const result = toolPart.output as FrameScreenshotResult | null;
+        if (result?.data) {
+            return (
+                <div key={toolPart.toolCallId} className="flex flex-col gap-2">
+                    <ToolCallSimple toolPart={toolPart} loading={loading} />
+                    {/* eslint-disable-next-line @next/next/no-img-element -- an inline data URL has nothing for next/image to optimize */}
+                    <img
+                        src={`data:${result.mimeType};base64,${result.data}`}
+                        alt={`Screenshot of ${result.url}`}
+                        className="w-full rounded-md border border-border"
+                    />
+                </div>
+            );
+        }
+    }
+
     if (toolName === TYPECHECK_TOOL_NAME) {
         const result = toolPart.output as { success: boolean; error?: string } | null;
         const error = stripAnsi(result?.error || '');
@@ -4,26 +4,47 @@ import {
     BASH_READ_TOOL_NAME,
     type BASH_READ_TOOL_PARAMETERS,
     EXIT_PLAN_MODE_TOOL_NAME,
+    FIND_REFERENCES_TOOL_NAME,
+    type FIND_REFERENCES_TOOL_PARAMETERS,
+    FIND_SYMBOL_TOOL_NAME,
+    type FIND_SYMBOL_TOOL_PARAMETERS,
     FUZZY_EDIT_FILE_TOOL_NAME,
     type FUZZY_EDIT_FILE_TOOL_PARAMETERS,
+    GET_COMPONENT_PROPS_TOOL_NAME,
+    type GET_COMPONENT_PROPS_TOOL_PARAMETERS,
+    GET_COMPUTED_STYLES_TOOL_NAME,
+    type GET_COMPUTED_STYLES_TOOL_PARAMETERS,
+    GET_LAYER_TREE_TOOL_NAME,
+    type GET_LAYER_TREE_TOOL_PARAMETERS,
+    GET_MCP_PROMPT_TOOL_NAME,
+    type GET_MCP_PROMPT_TOOL_PARAMETERS,
     GLOB_TOOL_NAME,
     GLOB_TOOL_PARAMETERS,
     GREP_TOOL_NAME,
     type GREP_TOOL_PARAMETERS,
+    isMcpToolName,
     LIST_BRANCHES_TOOL_NAME,
     LIST_FILES_TOOL_NAME,
     type LIST_FILES_TOOL_PARAMETERS,
+    LIST_IMPORTERS_TOOL_NAME,
+    type LIST_IMPORTERS_TOOL_PARAMETERS,
     ONLOOK_INSTRUCTIONS_TOOL_NAME,
     READ_FILE_TOOL_NAME,
     type READ_FILE_TOOL_PARAMETERS,
+    READ_MCP_RESOURCE_TOOL_NAME,
+    type READ_MCP_RESOURCE_TOOL_PARAMETERS,
     READ_STYLE_GUIDE_TOOL_NAME,
     SANDBOX_TOOL_NAME,
     SCRAPE_URL_TOOL_NAME,
     type SCRAPE_URL_TOOL_PARAMETERS,
+    SCREENSHOT_FRAME_TOOL_NAME,
+    type SCREENSHOT_FRAME_TOOL_PARAMETERS,
     SEARCH_REPLACE_EDIT_FILE_TOOL_NAME,
     type SEARCH_REPLACE_EDIT_FILE_TOOL_PARAMETERS,
     SEARCH_REPLACE_MULTI_EDIT_FILE_TOOL_NAME,
     type SEARCH_REPLACE_MULTI_EDIT_FILE_TOOL_PARAMETERS,
+    TASK_TOOL_NAME,
+    type TASK_TOOL_PARAMETERS,
     TERMINAL_COMMAND_TOOL_NAME,
     TODO_WRITE_TOOL_NAME,
     type TODO_WRITE_TOOL_PARAMETERS,
@@ -36,10 +57,11 @@ import {
 import { Icons } from '@onlook/ui/icons';
 import { cn } from '@onlook/ui/utils';
 import type { ToolUIPart } from 'ai';
+import type { ComponentType } from 'react';
 import { type z } from 'zod';
 
 // Map tool names to specific icon components
-const TOOL_ICONS: Record<string, any> = {
+const TOOL_ICONS: Record<string, ComponentType<{ className?: string }>> = {
     [LIST_FILES_TOOL_NAME]: Icons.ListBullet,
     [READ_FILE_TOOL_NAME]: Icons.EyeOpen,
     [READ_STYLE_GUIDE_TOOL_NAME]: Icons.Brand,
@@ -60,6 +82,16 @@ const TOOL_ICONS: Record<string, any> = {
     [TYPECHECK_TOOL_NAME]: Icons.MagnifyingGlass,
     [LIST_BRANCHES_TOOL_NAME]: Icons.Branch,
     [GLOB_TOOL_NAME]: Icons.MagnifyingGlass,
+    [TASK_TOOL_NAME]: Icons.ListBullet,
+    [FIND_SYMBOL_TOOL_NAME]: Icons.MagnifyingGlass,
+    [FIND_REFERENCES_TOOL_NAME]: Icons.MagnifyingGlass,
+    [GET_COMPONENT_PROPS_TOOL_NAME]: Icons.Component,
+    [LIST_IMPORTERS_TOOL_NAME]: Icons.ListBullet,
+    [SCREENSHOT_FRAME_TOOL_NAME]: Icons.Image,
+    [GET_LAYER_TREE_TOOL_NAME]: Icons.Layers,
+    [GET_COMPUTED_STYLES_TOOL_NAME]: Icons.EyeOpen,
+    [READ_MCP_RESOURCE_TOOL_NAME]: Icons.Link,
+    [GET_MCP_PROMPT_TOOL_NAME]: Icons.Link,
 } as const;
 
 function truncateString(str: string, maxLength: number = 30) {
@@ -76,7 +108,7 @@ export function ToolCallSimple({
     loading?: boolean;
 }) {
     const toolName = toolPart.type.split('-')[1] ?? '';
-    const Icon = TOOL_ICONS[toolName] ?? Icons.QuestionMarkCircled;
+    const Icon = TOOL_ICONS[toolName] ?? (isMcpToolName(toolName) ? Icons.Link : Icons.QuestionMarkCircled);
 
     const getLabel = () => {
         try {
@@ -184,6 +216,76 @@ export function ToolCallSimple({
                     } else {
                         return 'Searching';
                     }
+                case TASK_TOOL_NAME:
+                    const params13 = toolPart.input as z.infer<typeof TASK_TOOL_PARAMETERS>;
+                    if (params13?.description) {
+                        return 'Delegating: ' + truncateString(params13.description);
+                    } else {
+                        return 'Delegating to sub-agent';
+                    }
+                case FIND_SYMBOL_TOOL_NAME:
+                    const params14 = toolPart.input as z.infer<typeof FIND_SYMBOL_TOOL_PARAMETERS>;
+                    if (params14?.name) {
+                        return 'Finding ' + truncateString(params14.name);
+                    } else {
+                        return 'Finding symbol';
+                    }
+                case FIND_REFERENCES_TOOL_NAME:
+                    const params15 = toolPart.input as z.infer<typeof FIND_REFERENCES_TOOL_PARAMETERS>;
+                    if (params15?.name) {
+                        return 'Finding references to ' + truncateString(params15.name);
+                    } else {
+                        return 'Finding references';
+                    }
+                case GET_COMPONENT_PROPS_TOOL_NAME:
+                    const params16 = toolPart.input as z.infer<typeof GET_COMPONENT_PROPS_TOOL_PARAMETERS>;
+                    if (params16?.name) {
+                        return 'Reading props of ' + truncateString(params16.name);
+                    } else {
+                        return 'Reading component props';
+                    }
+                case LIST_IMPORTERS_TOOL_NAME:
+                    const params17 = toolPart.input as z.infer<typeof LIST_IMPORTERS_TOOL_PARAMETERS>;
+                    if (params17?.file_path) {
+                        return 'Finding importers of ' + (params17.file_path.split('/').pop() ?? '');
+                    } else {
+                        return 'Finding importers';
+                    }
+                case SCREENSHOT_FRAME_TOOL_NAME:
+                    const params18 = toolPart.input as z.infer<typeof SCREENSHOT_FRAME_TOOL_PARAMETERS>;
+                    if (params18?.route) {
+                        return 'Taking screenshot of ' + truncateString(params18.route);
+                    } else {
+                        return 'Taking screenshot';
+                    }
+                case GET_LAYER_TREE_TOOL_NAME:
+                    const params19 = toolPart.input as z.infer<typeof GET_LAYER_TREE_TOOL_PARAMETERS>;
+                    if (params19?.route) {
+                        return 'Reading layers of ' + truncateString(params19.route);
+                    } else {
+                        return 'Reading layers';
+                    }
+                case GET_COMPUTED_STYLES_TOOL_NAME:
+                    const params20 = toolPart.input as z.infer<typeof GET_COMPUTED_STYLES_TOOL_PARAMETERS>;
+                    if (params20?.oid) {
+                        return 'Reading styles of ' + truncateString(params20.oid);
+                    } else {
+                        return 'Reading styles';
+                    }
+                case READ_MCP_RESOURCE_TOOL_NAME:
+                    const params21 = toolPart.input as z.infer<typeof READ_MCP_RESOURCE_TOOL_PARAMETERS>;
+                    if (params21?.uri) {
+                        return 'Reading ' + truncateString(params21.uri);
+                    } else {
+                        return 'Reading resource';
+                    }
+                case GET_MCP_PROMPT_TOOL_NAME:
+                    const params22 = toolPart.input as z.infer<typeof GET_MCP_PROMPT_TOOL_PARAMETERS>;
+                    if (params22?.name) {
+                        return 'Getting prompt ' + truncateString(params22.name);
+                    } else {
+                        return 'Getting prompt';
+                    }
                 case EXIT_PLAN_MODE_TOOL_NAME:
                     return 'Exiting plan mode';
                 case READ_STYLE_GUIDE_TOOL_NAME:
@@ -193,6 +295,11 @@ export function ToolCallSimple({
                 case TYPECHECK_TOOL_NAME:
                     return 'Checking types';
                 default:
+                    if (isMcpToolName(toolName)) {
+                        // mcp__<server>__<tool>
+                        const [, server, ...rest] = toolName.split('__');
+                        return `${server}: ${rest.join('__').replace(/_/g, ' ')}`;
+                    }
                     return toolName?.replace(/[-_]/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
             }
         } catch (error) {
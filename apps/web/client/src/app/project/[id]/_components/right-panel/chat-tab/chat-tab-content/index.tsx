@@ -1,8 +1,13 @@
+import { useEditorEngine } from '@/components/store/editor';
+import { api } from '@/trpc/react';
 import { type ChatMessage } from '@onlook/models';
+import { useEffect } from 'react';
 import { useChat } from '../../../../_hooks/use-chat';
 import { ChatInput } from '../chat-input';
 import { ChatMessages } from '../chat-messages';
 import { ErrorSection } from '../error';
+import { PermissionSection } from '../permission';
+import { PlanSection } from '../plan';
 
 interface ChatTabContentProps {
     conversationId: string;
@@ -15,12 +20,20 @@ export const ChatTabContent = ({
     projectId,
     initialMessages,
 }: ChatTabContentProps) => {
+    const editorEngine = useEditorEngine();
+    const { data: userSettings } = api.user.settings.get.useQuery();
     const { isStreaming, sendMessage, editMessage, messages, error, stop, suggestions } = useChat({
         conversationId,
         projectId,
         initialMessages,
     });
 
+    // With auto-apply off, agent edits are staged for review in the code tab
+    const autoApplyCode = userSettings?.chat.autoApplyCode ?? true;
+    useEffect(() => {
+        editorEngine.chat.review.setEnabled(!autoApplyCode);
+    }, [autoApplyCode, editorEngine]);
+
     return (
         <div className="flex flex-col h-full justify-end gap-2 pt-2">
             <div className="h-full flex-1 overflow-y-auto">
@@ -32,6 +45,8 @@ export const ChatTabContent = ({
                 />
             </div>
             <ErrorSection isStreaming={isStreaming} onSendMessage={sendMessage} />
+            <PermissionSection />
+            <PlanSection messages={messages} />
             <ChatInput
                 messages={messages}
                 suggestions={suggestions}
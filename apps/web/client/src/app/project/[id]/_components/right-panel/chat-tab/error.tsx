@@ -1,4 +1,6 @@
 import { useEditorEngine } from '@/components/store/editor';
+import { api } from '@/trpc/react';
+import { DefaultSettings } from '@onlook/constants';
 import { ChatType } from '@onlook/models';
 import { Button } from '@onlook/ui/button';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@onlook/ui/collapsible';
@@ -21,6 +23,8 @@ export const ErrorSection = observer(({ isStreaming, onSendMessage }: ErrorSecti
     const [isOpen, setIsOpen] = useState(false);
     const allErrors = editorEngine.branches.getAllErrors();
     const errorCount = editorEngine.branches.getTotalErrorCount();
+    const { data: projectSettings } = api.settings.get.useQuery({ projectId: editorEngine.projectId });
+    const [installingBranchId, setInstallingBranchId] = useState<string | null>(null);
 
     const sendFixError = () => {
         toast.promise(
@@ -31,6 +35,29 @@ export const ErrorSection = observer(({ isStreaming, onSendMessage }: ErrorSecti
         )
     };
 
+    const installDependencies = async (branchId: string) => {
+        const session = editorEngine.branches.getBranchDataById(branchId)?.sandbox.session;
+        if (!session) {
+            return;
+        }
+        const installCommand = projectSettings?.commands?.install ?? DefaultSettings.COMMANDS.install;
+        const install = session.installDependencies(installCommand);
+        toast.promise(install, {
+            loading: `Running ${installCommand}...`,
+            success: 'Dependencies installed, restarting dev server',
+            error: (error) =>
+                error instanceof Error ? error.message : 'Failed to install dependencies',
+        });
+        setInstallingBranchId(branchId);
+        try {
+            await install;
+        } catch (error) {
+            console.error('Failed to install dependencies', error);
+        } finally {
+            setInstallingBranchId(null);
+        }
+    };
+
     return (
         <Collapsible
             open={isOpen}
@@ -106,6 +133,18 @@ export const ErrorSection = observer(({ isStreaming, onSendMessage }: ErrorSecti
                                         <pre className="text-micro text-amber-800/60 dark:text-amber-200/60">
                                             {error.content}
                                         </pre>
+                                        {error.action === 'install-dependencies' && (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                disabled={installingBranchId === error.branchId}
+                                                className="h-7 px-2 mt-1 text-amber-600 dark:text-amber-400 hover:text-amber-900 hover:bg-amber-200 dark:hover:text-amber-100 dark:hover:bg-amber-700 font-sans select-none"
+                                                onClick={() => void installDependencies(error.branchId)}
+                                            >
+                                                <Icons.Download className="h-4 w-4 mr-2" />
+                                                Install dependencies
+                                            </Button>
+                                        )}
                                     </div>
                                 ))}
                             </div>
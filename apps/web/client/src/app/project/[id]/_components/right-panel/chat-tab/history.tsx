@@ -1,4 +1,6 @@
 import { useEditorEngine } from '@/components/store/editor';
+import { api } from '@/trpc/react';
+import type { LocalSearchHit } from '@onlook/db/src/local-storage';
 import {
     AlertDialog,
     AlertDialogContent,
@@ -9,23 +11,71 @@ import {
 } from '@onlook/ui/alert-dialog';
 import { Button } from '@onlook/ui/button';
 import { Icons } from '@onlook/ui/icons';
+import { Input } from '@onlook/ui/input';
 import { Popover, PopoverAnchor, PopoverContent } from '@onlook/ui/popover';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@onlook/ui/tooltip';
 import { cn } from '@onlook/ui/utils';
 
 import { observer } from 'mobx-react-lite';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 
 interface ChatHistoryProps {
     isOpen: boolean;
     onOpenChange: (open: boolean) => void;
 }
 
+const HighlightedSnippet = ({ hit }: { hit: LocalSearchHit }) => {
+    const segments: { text: string; highlighted: boolean }[] = [];
+    let cursor = 0;
+    for (const { start, end } of hit.highlights) {
+        if (start > cursor) {
+            segments.push({ text: hit.snippet.slice(cursor, start), highlighted: false });
+        }
+        segments.push({ text: hit.snippet.slice(start, end), highlighted: true });
+        cursor = end;
+    }
+    segments.push({ text: hit.snippet.slice(cursor), highlighted: false });
+
+    return (
+        <span className="text-xs text-foreground-tertiary line-clamp-2 break-words">
+            {segments.map((segment, index) =>
+                segment.highlighted ? (
+                    <mark key={index} className="bg-transparent text-foreground-primary font-semibold">
+                        {segment.text}
+                    </mark>
+                ) : (
+                    <span key={index}>{segment.text}</span>
+                ),
+            )}
+        </span>
+    );
+};
+
 export const ChatHistory = observer(({ isOpen, onOpenChange }: ChatHistoryProps) => {
     const editorEngine = useEditorEngine();
     const [showDeleteDialog, setShowDeleteDialog] = useState(false);
     const [conversationToDelete, setConversationToDelete] = useState<string | null>(null);
     const [isDeleting, setIsDeleting] = useState(false);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
+
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            setDebouncedSearchQuery(searchQuery.trim());
+        }, 200);
+
+        return () => clearTimeout(timer);
+    }, [searchQuery]);
+
+    const { data: searchResult, isFetching: isSearching } = api.chat.conversation.search.useQuery(
+        { projectId: editorEngine.projectId, query: debouncedSearchQuery, limit: 30 },
+        { enabled: isOpen && !!debouncedSearchQuery },
+    );
+
+    const handleSelectHit = (hit: LocalSearchHit) => {
+        void editorEngine.chat.conversation.selectConversation(hit.conversationId);
+        onOpenChange(false);
+    };
 
     const handlePopoverOpenChange = (open: boolean) => {
         if (!showDeleteDialog) {
@@ -75,61 +125,109 @@ export const ChatHistory = observer(({ isOpen, onOpenChange }: ChatHistoryProps)
                             </Button>
                         </div>
                     </div>
-                    <div className="flex flex-col gap-2 p-2 text-foreground-tertiary">
-                        <div className="flex flex-col">
-                            {groups.map((group) => (
-                                <div className="flex flex-col gap-1" key={group.name}>
-                                    <span className="text-[0.7rem] px-2">{group.name}</span>
-                                    <div className="flex flex-col">
-                                        {sortedConversations.map((conversation) => (
-                                            <div
-                                                className={cn(
-                                                    'flex flex-row w-full py-2 items-center rounded-md hover:bg-background-onlook cursor-pointer select-none group relative',
-                                                    conversation.id ===
-                                                    editorEngine.chat.conversation.current?.id &&
-                                                    'bg-background-onlook text-primary font-semibold',
-                                                )}
-                                                key={conversation.id}
-                                                onClick={() =>
-                                                    editorEngine.chat.conversation.selectConversation(
-                                                        conversation.id,
-                                                    )
-                                                }
-                                            >
-                                                <Icons.ChatBubble className="flex-none mx-2" />
-                                                <span className="text-xs truncate w-80 text-left">
-                                                    {conversation.title ?? 'New Conversation'}
-                                                </span>
-                                                <Tooltip>
-                                                    <TooltipTrigger asChild>
-                                                        <Button
-                                                            variant={'ghost'}
-                                                            size={'icon'}
-                                                            className="absolute right-0 px-2.5 py-2 top-1/2 -translate-y-1/2 w-fit h-fit opacity-0 group-hover:opacity-100 group-hover:bg-background-primary hover:bg-background-tertiary z-10"
-                                                            onClick={(e) => {
-                                                                e.stopPropagation();
-                                                                setConversationToDelete(
-                                                                    conversation.id,
-                                                                );
-                                                                setShowDeleteDialog(true);
-                                                            }}
-                                                        >
-                                                            <Icons.Trash className="w-4 h-4" />
-                                                        </Button>
-                                                    </TooltipTrigger>
-                                                    <TooltipContent side="right">
-                                                        <p className="font-normal">
-                                                            Delete Conversation
-                                                        </p>
-                                                    </TooltipContent>
-                                                </Tooltip>
-                                            </div>
-                                        ))}
-                                    </div>
+                    <div className="relative px-2 pt-2">
+                        <Icons.MagnifyingGlass className="absolute left-4 top-1/2 translate-y-[-25%] h-3.5 w-3.5 text-foreground-tertiary" />
+                        <Input
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.currentTarget.value)}
+                            placeholder="Search chats"
+                            className="h-8 pl-8 pr-7 text-xs"
+                        />
+                        {searchQuery && (
+                            <button
+                                onClick={() => setSearchQuery('')}
+                                className="absolute right-4 top-1/2 translate-y-[-25%] text-foreground-tertiary hover:text-foreground"
+                                aria-label="Clear search"
+                            >
+                                <Icons.CrossS className="h-3.5 w-3.5" />
+                            </button>
+                        )}
+                    </div>
+                    {debouncedSearchQuery ? (
+                        <div className="flex flex-col gap-1 p-2 max-h-96 overflow-y-auto text-foreground-tertiary">
+                            {isSearching && !searchResult ? (
+                                <div className="flex justify-center py-4">
+                                    <Icons.LoadingSpinner className="h-4 w-4 animate-spin" />
                                 </div>
-                            ))}
+                            ) : searchResult?.hits.length ? (
+                                searchResult.hits.map((hit) => (
+                                    <button
+                                        key={`${hit.conversationId}-${hit.messageId ?? 'title'}`}
+                                        className="flex flex-col gap-0.5 w-80 px-2 py-1.5 rounded-md text-left hover:bg-background-onlook"
+                                        onClick={() => handleSelectHit(hit)}
+                                    >
+                                        <span className="flex flex-row items-center gap-2 text-xs text-foreground-secondary">
+                                            <Icons.ChatBubble className="flex-none" />
+                                            <span className="truncate">
+                                                {hit.conversationTitle ?? 'New Conversation'}
+                                            </span>
+                                        </span>
+                                        {hit.field !== 'title' && <HighlightedSnippet hit={hit} />}
+                                    </button>
+                                ))
+                            ) : (
+                                <span className="px-2 py-4 text-xs text-center">
+                                    No chats match &ldquo;{debouncedSearchQuery}&rdquo;
+                                </span>
+                            )}
                         </div>
-                    </div>
+                    ) : (
+                        <div className="flex flex-col gap-2 p-2 text-foreground-tertiary">
+                            <div className="flex flex-col">
+                                {groups.map((group) => (
+                                    <div className="flex flex-col gap-1" key={group.name}>
+                                        <span className="text-[0.7rem] px-2">{group.name}</span>
+                                        <div className="flex flex-col">
+                                            {sortedConversations.map((conversation) => (
+                                                <div
+                                                    className={cn(
+                                                        'flex flex-row w-full py-2 items-center rounded-md hover:bg-background-onlook cursor-pointer select-none group relative',
+                                                        conversation.id ===
+                                                        editorEngine.chat.conversation.current?.id &&
+                                                        'bg-background-onlook text-primary font-semibold',
+                                                    )}
+                                                    key={conversation.id}
+                                                    onClick={() =>
+                                                        void editorEngine.chat.conversation.selectConversation(
+                                                            conversation.id,
+                                                        )
+                                                    }
+                                                >
+                                                    <Icons.ChatBubble className="flex-none mx-2" />
+                                                    <span className="text-xs truncate w-80 text-left">
+                                                        {conversation.title ?? 'New Conversation'}
+                                                    </span>
+                                                    <Tooltip>
+                                                        <TooltipTrigger asChild>
+                                                            <Button
+                                                                variant={'ghost'}
+                                                                size={'icon'}
+                                                                className="absolute right-0 px-2.5 py-2 top-1/2 -translate-y-1/2 w-fit h-fit opacity-0 group-hover:opacity-100 group-hover:bg-background-primary hover:bg-background-tertiary z-10"
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation();
+                                                                    setConversationToDelete(
+                                                                        conversation.id,
+                                                                    );
+                                                                    setShowDeleteDialog(true);
+                                                                }}
+                                                            >
+                                                                <Icons.Trash className="w-4 h-4" />
+                                                            </Button>
+                                                        </TooltipTrigger>
+                                                        <TooltipContent side="right">
+                                                            <p className="font-normal">
+                                                                Delete Conversation
+                                                            </p>
+                                                        </TooltipContent>
+                                                    </Tooltip>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                 </div>
             </PopoverContent>
             <AlertDialog
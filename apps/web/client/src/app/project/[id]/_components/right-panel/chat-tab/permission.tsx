@@ -0,0 +1,58 @@
+import { useEditorEngine } from '@/components/store/editor';
+import { Button } from '@onlook/ui/button';
+import { Icons } from '@onlook/ui/icons';
+import { observer } from 'mobx-react-lite';
+
+export const PermissionSection = observer(() => {
+    const editorEngine = useEditorEngine();
+    const permissions = editorEngine.chat.permissions;
+    const request = permissions.current;
+
+    if (!request) {
+        return null;
+    }
+
+    const waiting = permissions.requests.length - 1;
+    return (
+        <div className="flex flex-col m-2 border rounded-lg bg-background-secondary">
+            <div className="flex items-center gap-2 px-3 py-2 border-b text-small text-foreground-secondary">
+                <Icons.LockClosed className="w-4 h-4" />
+                <p>Allow {request.toolName}?</p>
+                {waiting > 0 && <p className="ml-auto text-foreground-tertiary">{waiting} more waiting</p>}
+            </div>
+            <div className="flex flex-col gap-1 px-3 py-2">
+                <pre className="text-mini font-mono whitespace-pre-wrap break-all max-h-32 overflow-auto">
+                    {request.summary}
+                </pre>
+                <p className="text-mini text-foreground-tertiary">{request.reason}</p>
+            </div>
+            <div className="flex items-center justify-end gap-1 px-2 py-2 border-t">
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2"
+                    onClick={() => permissions.respond(request.toolCallId, 'deny')}
+                >
+                    Deny
+                </Button>
+                {request.canAlwaysAllow && (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 px-2"
+                        onClick={() => permissions.respond(request.toolCallId, 'always')}
+                    >
+                        Always allow for this project
+                    </Button>
+                )}
+                <Button
+                    size="sm"
+                    className="h-7 px-2"
+                    onClick={() => permissions.respond(request.toolCallId, 'once')}
+                >
+                    Allow once
+                </Button>
+            </div>
+        </div>
+    );
+});
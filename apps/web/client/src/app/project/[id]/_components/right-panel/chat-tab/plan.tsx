@@ -0,0 +1,110 @@
+import { useEditorEngine } from '@/components/store/editor';
+import { TODO_WRITE_TOOL_NAME, type TODO_WRITE_TOOL_PARAMETERS } from '@onlook/ai';
+import { ChatType, type ChatMessage } from '@onlook/models';
+import { Button } from '@onlook/ui/button';
+import { Icons } from '@onlook/ui/icons';
+import { cn } from '@onlook/ui/utils';
+import type { ToolUIPart } from 'ai';
+import { observer } from 'mobx-react-lite';
+import { useMemo } from 'react';
+import { type z } from 'zod';
+import { MarkdownRenderer } from './chat-messages/markdown-renderer';
+
+type Todo = z.infer<typeof TODO_WRITE_TOOL_PARAMETERS>['todos'][number];
+
+// The latest todo_write call, including one that is still streaming in
+function getLatestTodos(messages: ChatMessage[]): Todo[] {
+    for (const message of [...messages].reverse()) {
+        for (const part of [...message.parts].reverse()) {
+            if (part.type !== `tool-${TODO_WRITE_TOOL_NAME}`) {
+                continue;
+            }
+            const input = (part as ToolUIPart).input as Partial<z.infer<typeof TODO_WRITE_TOOL_PARAMETERS>> | undefined;
+            if (Array.isArray(input?.todos)) {
+                return input.todos.filter((todo) => !!todo?.content);
+            }
+        }
+    }
+    return [];
+}
+
+export const TodoChecklist = ({ todos }: { todos: Todo[] }) => {
+    return (
+        <div className="flex flex-col gap-1">
+            {todos.map((todo) => (
+                <div className="flex items-center gap-2 text-sm" key={todo.id || todo.content}>
+                    <div className="flex items-center justify-center w-4 h-4 min-w-4">
+                        {todo.status === 'completed' ? <Icons.SquareCheck className="w-4 h-4" /> : <Icons.Square className="w-4 h-4" />}
+                    </div>
+                    <p className={cn(
+                        todo.status === 'completed' ? 'line-through text-green-500' : '',
+                        todo.status === 'in_progress' ? 'text-yellow-500' : '',
+                        todo.status === 'pending' ? 'text-gray-500' : '',
+                    )}>{todo.content}</p>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export const PlanSection = observer(({ messages }: { messages: ChatMessage[] }) => {
+    const editorEngine = useEditorEngine();
+    const pendingPlan = editorEngine.chat.plan.pendingPlan;
+    const todos = useMemo(() => getLatestTodos(messages), [messages]);
+    const completed = todos.filter((todo) => todo.status === 'completed').length;
+
+    if (pendingPlan !== null) {
+        return (
+            <div className="flex flex-col m-2 border rounded-lg bg-background-secondary">
+                <div className="flex items-center gap-2 px-3 py-2 border-b text-small text-foreground-secondary">
+                    <Icons.ListCheck className="w-4 h-4" />
+                    <p>Review the plan before switching to build mode</p>
+                </div>
+                <div className="px-3 py-2 max-h-72 overflow-auto">
+                    <MarkdownRenderer
+                        messageId="pending-plan"
+                        type="text"
+                        content={pendingPlan}
+                        applied={false}
+                        isStream={false}
+                    />
+                </div>
+                <div className="flex items-center justify-end gap-1 px-2 py-2 border-t">
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2"
+                        onClick={() => editorEngine.chat.plan.reject()}
+                    >
+                        Keep planning
+                    </Button>
+                    <Button
+                        size="sm"
+                        className="h-7 px-2"
+                        onClick={() => editorEngine.chat.plan.approve()}
+                    >
+                        <Icons.Build className="h-4 w-4 mr-2" />
+                        Approve and build
+                    </Button>
+                </div>
+            </div>
+        );
+    }
+
+    // Once the plan is done the final state is still visible in the message history
+    const isPlanning = editorEngine.state.chatMode === ChatType.PLAN;
+    if (todos.length === 0 || (!isPlanning && completed === todos.length)) {
+        return null;
+    }
+
+    return (
+        <div className="flex flex-col gap-2 m-2 px-3 py-2 border rounded-lg max-h-48 overflow-auto">
+            <div className="flex items-center gap-2 text-small text-foreground-secondary">
+                <Icons.ListCheck className="w-4 h-4" />
+                <p>Todos</p>
+                <p className="ml-auto text-foreground-tertiary">{completed}/{todos.length}</p>
+            </div>
+            <TodoChecklist todos={todos} />
+        </div>
+    );
+});
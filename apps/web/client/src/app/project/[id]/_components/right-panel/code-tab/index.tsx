@@ -19,6 +19,7 @@ import { useCallback, useEffect, useRef } from 'react';
 import { createSearchHighlight, getBasicSetup, getExtensions, scrollToFirstMatch } from './code-mirror-config';
 import { FileTab } from './file-tab';
 import { FileTree } from './file-tree';
+import { ReviewPanel } from './review-panel';
 
 export const CodeTab = observer(() => {
     const editorEngine = useEditorEngine();
@@ -548,6 +549,8 @@ export const CodeTab = observer(() => {
                             </div>
                         </div>
 
+                        <ReviewPanel />
+
                         {/* Code Editor Area */}
                         <div className="flex-1 relative overflow-hidden">
                             {ide.isLoading && (
@@ -0,0 +1,131 @@
+import { useEditorEngine } from '@/components/store/editor';
+import type { HunkDecision, StagedFile } from '@/components/store/editor/chat/review';
+import { Button } from '@onlook/ui/button';
+import { Icons } from '@onlook/ui/icons';
+import { cn } from '@onlook/ui/utils';
+import type { DiffHunk } from '@onlook/utility';
+import { observer } from 'mobx-react-lite';
+
+const DecisionButtons = ({
+    decision,
+    onDecide,
+}: {
+    decision?: HunkDecision;
+    onDecide: (decision: HunkDecision) => void;
+}) => (
+    <div className="flex items-center gap-0.5">
+        <Button
+            variant="ghost"
+            size="icon"
+            className={cn('h-6 w-6', decision === 'rejected' && 'text-red-500')}
+            onClick={() => onDecide('rejected')}
+        >
+            <Icons.CrossS className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+            variant="ghost"
+            size="icon"
+            className={cn('h-6 w-6', decision === 'accepted' && 'text-green-500')}
+            onClick={() => onDecide('accepted')}
+        >
+            <Icons.Check className="h-3.5 w-3.5" />
+        </Button>
+    </div>
+);
+
+const HunkView = ({
+    hunk,
+    decision,
+    onDecide,
+}: {
+    hunk: DiffHunk;
+    decision: HunkDecision;
+    onDecide: (decision: HunkDecision) => void;
+}) => (
+    <div className={cn('border-t-[0.5px]', decision !== 'pending' && 'opacity-50')}>
+        <div className="flex items-center justify-between pl-3 pr-1 py-0.5 text-mini text-foreground-tertiary">
+            <span>Line {hunk.originalStart + 1}</span>
+            <DecisionButtons decision={decision} onDecide={onDecide} />
+        </div>
+        <pre className="text-mini font-mono overflow-x-auto pb-1">
+            {hunk.originalLines.map((line, index) => (
+                <div key={`-${index}`} className="px-3 bg-red-500/10 text-red-300">
+                    -{line.replace(/\n$/, '')}
+                </div>
+            ))}
+            {hunk.modifiedLines.map((line, index) => (
+                <div key={`+${index}`} className="px-3 bg-green-500/10 text-green-300">
+                    +{line.replace(/\n$/, '')}
+                </div>
+            ))}
+        </pre>
+    </div>
+);
+
+const FileView = observer(({ file }: { file: StagedFile }) => {
+    const editorEngine = useEditorEngine();
+    const review = editorEngine.chat.review;
+    const pending = file.decisions.filter((decision) => decision === 'pending').length;
+
+    return (
+        <div className="border-b-[0.5px]">
+            <div className="flex items-center justify-between pl-3 pr-1 py-1 text-small">
+                <span className="truncate">
+                    {file.path}
+                    {file.original === null && <span className="ml-2 text-foreground-tertiary">new</span>}
+                </span>
+                <div className="flex items-center gap-2">
+                    <span className="text-mini text-foreground-tertiary">
+                        {pending}/{file.hunks.length} to review
+                    </span>
+                    <DecisionButtons onDecide={(decision) => void review.setFileDecision(file.key, decision)} />
+                </div>
+            </div>
+            {file.hunks.map((hunk, index) => (
+                <HunkView
+                    key={index}
+                    hunk={hunk}
+                    decision={file.decisions[index] ?? 'pending'}
+                    onDecide={(decision) => void review.setHunkDecision(file.key, index, decision)}
+                />
+            ))}
+        </div>
+    );
+});
+
+export const ReviewPanel = observer(() => {
+    const editorEngine = useEditorEngine();
+    const review = editorEngine.chat.review;
+
+    if (!review.hasPendingChanges) {
+        return null;
+    }
+
+    return (
+        <div className="flex flex-col max-h-[45%] border-b-[0.5px] flex-shrink-0">
+            <div className="flex items-center justify-between pl-3 pr-1 py-1 border-b-[0.5px] bg-background-secondary">
+                <span className="text-small text-foreground-secondary">
+                    Review changes · {review.pendingHunkCount} left
+                </span>
+                <div className="flex items-center gap-1">
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2"
+                        onClick={() => void review.setAllDecisions('rejected')}
+                    >
+                        Reject all
+                    </Button>
+                    <Button size="sm" className="h-7 px-2" onClick={() => void review.setAllDecisions('accepted')}>
+                        Accept all
+                    </Button>
+                </div>
+            </div>
+            <div className="overflow-auto">
+                {review.stagedFiles.map((file) => (
+                    <FileView key={file.key} file={file} />
+                ))}
+            </div>
+        </div>
+    );
+});
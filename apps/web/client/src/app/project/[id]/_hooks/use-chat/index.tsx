@@ -48,10 +48,13 @@ export function useChat({ conversationId, projectId, initialMessages }: UseChatP
             sendAutomaticallyWhen: lastAssistantMessageIsCompleteWithToolCalls,
             transport: new DefaultChatTransport({
                 api: '/api/chat',
-                body: {
+                // Resolved per request so automatic tool-result follow-ups use the current mode,
+                // e.g. the build toolset once a plan is approved
+                body: () => ({
                     conversationId,
                     projectId,
-                },
+                    chatType: editorEngine.state.chatMode,
+                }),
             }),
             onToolCall: async (toolCall) => {
                 setIsExecutingToolCall(true);
@@ -71,6 +71,16 @@ export const useStartProject = () => {
         void applyConversations();
     }, [editorEngine.chat.conversation, conversations]);
 
+    useEffect(() => {
+        void editorEngine.chat.review.restore();
+    }, [editorEngine.chat.review]);
+
+    useEffect(() => {
+        if (projectReadyState.sandbox) {
+            void editorEngine.dynamic.restoreSavedBranches();
+        }
+    }, [projectReadyState.sandbox, editorEngine.dynamic]);
+
     useEffect(() => {
         const isProjectReady = Object.values(projectReadyState).every((value) => value);
         if (creationRequest && processedRequestIdRef.current !== creationRequest.id && isProjectReady && editorEngine.chat._sendMessageAction) {
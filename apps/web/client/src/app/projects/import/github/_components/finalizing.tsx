@@ -29,7 +29,14 @@ export const FinalizingGithubProject = () => {
                             <p>{repositoryImport.error}</p>
                         </div>
                     ) : (
-                        <ProgressWithInterval isLoading={repositoryImport.isImporting ?? false} />
+                        <div className="flex w-full flex-col gap-2">
+                            <ProgressWithInterval isLoading={repositoryImport.isImporting ?? false} />
+                            {repositoryImport.progress && (
+                                <p className="text-foreground-secondary truncate text-mini">
+                                    {repositoryImport.progress.message}
+                                </p>
+                            )}
+                        </div>
                     )}
                 </motion.div>
             </StepContent>
@@ -5,12 +5,14 @@ import { api } from '@/trpc/react';
 import { Routes } from '@/utils/constants';
 import { useRouter } from 'next/navigation';
 import { useState } from 'react';
+import type { LocalGitImportProgress } from '@onlook/code-provider';
 import type { GitHubRepository } from '@onlook/github';
 
 export const useRepositoryImport = () => {
     const router = useRouter();
     const [isImporting, setIsImporting] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [progress, setProgress] = useState<LocalGitImportProgress | null>(null);
 
     const { data: user } = api.user.get.useQuery();
 
@@ -27,28 +29,30 @@ export const useRepositoryImport = () => {
 
         setIsImporting(true);
         setError(null);
+        setProgress(null);
 
         try {
-            const { sandboxId, previewUrl } = await clientApi.sandbox.createFromGitHub.mutate({
+            const events = await clientApi.sandbox.createFromGitHub.mutate({
                 repoUrl: selectedRepo.clone_url,
                 branch: selectedRepo.default_branch,
+                name: selectedRepo.name ?? 'New project',
+                description: selectedRepo.description ?? 'Imported from GitHub',
             });
 
-            const project = await clientApi.project.create.mutate({
-                project: {
-                    name: selectedRepo.name ?? 'New project',
-                    description: selectedRepo.description || 'Imported from GitHub',
-                },
-                userId: user.id,
-                sandboxId,
-                sandboxUrl: previewUrl,
-            });
+            let projectId: string | null = null;
+            for await (const event of events) {
+                if (event.type === 'progress') {
+                    setProgress(event.progress);
+                } else {
+                    projectId = event.result.projectId;
+                }
+            }
 
-            if (!project) {
+            if (!projectId) {
                 throw new Error('Failed to create project');
             }
 
-            router.push(`${Routes.PROJECT}/${project.id}`);
+            router.push(`${Routes.PROJECT}/${projectId}`);
         } catch (error) {
             const errorMessage =
                 error instanceof Error ? error.message : 'Failed to import repository';
@@ -66,6 +70,7 @@ export const useRepositoryImport = () => {
     return {
         isImporting,
         error,
+        progress,
         importRepository,
         clearError,
     };
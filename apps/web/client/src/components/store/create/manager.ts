@@ -95,20 +95,14 @@ export class CreateManager {
                 return;
             }
 
-            const [{ sandboxId, previewUrl }, projectName] = await Promise.all([
+            // The import registers the project, the generated name replaces the repository name
+            const [{ projectId }, projectName] = await Promise.all([
                 this.createSandboxFromGithub(repoUrl, branch),
                 this.generateProjectName(`Import from GitHub repository: ${repo}`)
             ]);
-            const project = createDefaultProject({
-                overrides: {
-                    name: projectName,
-                },
-            });
-            const newProject = await api.project.create.mutate({
-                project,
-                userId,
-                sandboxId,
-                sandboxUrl: previewUrl,
+            const newProject = await api.project.update.mutate({
+                projectId,
+                name: projectName,
             });
             return newProject;
         }
@@ -119,10 +113,16 @@ export class CreateManager {
     }
 
     async createSandboxFromGithub(repoUrl: string, branch: string) {
-        return await api.sandbox.createFromGitHub.mutate({
+        const events = await api.sandbox.createFromGitHub.mutate({
             repoUrl,
             branch
         });
+        for await (const event of events) {
+            if (event.type === 'complete') {
+                return event.result;
+            }
+        }
+        throw new Error('GitHub import finished without a result');
     }
 }
 
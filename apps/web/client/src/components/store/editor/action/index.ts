@@ -113,7 +113,11 @@ export class ActionManager {
             }
 
             // cloneDeep is used to avoid the issue of observable values can not pass through the webview
-            const domEl = await frameData.view.updateStyle(target.domId, cloneDeep(change));
+            const domEl = await frameData.view.updateStyle(
+                target.domId,
+                cloneDeep(change),
+                target.state,
+            );
             if (!domEl) {
                 console.error('Failed to update style');
                 continue;
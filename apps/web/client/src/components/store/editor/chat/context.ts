@@ -45,6 +45,7 @@ export class ChatContext {
             case ChatType.EDIT:
             case ChatType.CREATE:
             case ChatType.ASK:
+            case ChatType.PLAN:
                 return await this.applyRestriction(await this.getLatestContext());
             case ChatType.FIX:
                 return await this.applyRestriction(this.getErrorContext());
@@ -4,11 +4,21 @@ import { makeAutoObservable } from 'mobx';
 import type { EditorEngine } from '../engine';
 import { ChatContext } from './context';
 import { ConversationManager } from './conversation';
+import { McpManager } from './mcp';
+import { PermissionManager } from './permission';
+import { PlanManager } from './plan';
+import { ReviewManager } from './review';
+import { SubagentManager } from './subagent';
 
 export const FOCUS_CHAT_INPUT_EVENT = 'focus-chat-input';
 export class ChatManager {
     conversation: ConversationManager;
     context: ChatContext;
+    plan: PlanManager;
+    permissions: PermissionManager;
+    mcp: McpManager;
+    review: ReviewManager;
+    subagents: SubagentManager;
 
     // Content sent from useChat hook
     _sendMessageAction: SendMessage | null = null;
@@ -17,6 +27,11 @@ export class ChatManager {
     constructor(private editorEngine: EditorEngine) {
         this.context = new ChatContext(this.editorEngine);
         this.conversation = new ConversationManager(this.editorEngine);
+        this.plan = new PlanManager(this.editorEngine);
+        this.permissions = new PermissionManager(this.editorEngine);
+        this.mcp = new McpManager(this.editorEngine);
+        this.review = new ReviewManager(this.editorEngine);
+        this.subagents = new SubagentManager();
         makeAutoObservable(this);
     }
 
@@ -51,5 +66,10 @@ export class ChatManager {
     clear() {
         this.context.clear();
         this.conversation.clear();
+        this.plan.clear();
+        this.permissions.clear();
+        this.mcp.clear();
+        this.review.clear();
+        this.subagents.clear();
     }
 }
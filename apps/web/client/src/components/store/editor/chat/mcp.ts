@@ -0,0 +1,63 @@
+import { api } from '@/trpc/client';
+import type { McpServerConfig, McpServerState } from '@onlook/models';
+import { makeAutoObservable, runInAction } from 'mobx';
+import type { EditorEngine } from '../engine';
+
+// The project's MCP servers as the server last reported them, for tool calls and settings
+export class McpManager {
+    servers: McpServerState[] = [];
+    private loaded: Promise<McpServerState[]> | null = null;
+
+    constructor(private editorEngine: EditorEngine) {
+        makeAutoObservable(this);
+    }
+
+    /** Lists the servers once, or again when `refresh` is set */
+    getServers(refresh = false): Promise<McpServerState[]> {
+        if (!this.loaded || refresh) {
+            this.loaded = this.load(() =>
+                api.mcp.list.query({ projectId: this.editorEngine.projectId }),
+            );
+        }
+        return this.loaded;
+    }
+
+    /** Saves the project's server configs, throwing when they are invalid */
+    async updateServers(servers: McpServerConfig[]): Promise<McpServerState[]> {
+        const updated = await api.mcp.updateServers.mutate({
+            projectId: this.editorEngine.projectId,
+            servers,
+        });
+        runInAction(() => {
+            this.servers = updated;
+            this.loaded = Promise.resolve(updated);
+        });
+        return updated;
+    }
+
+    reload() {
+        this.loaded = this.load(() =>
+            api.mcp.reload.mutate({ projectId: this.editorEngine.projectId }),
+        );
+        return this.loaded;
+    }
+
+    private async load(fetch: () => Promise<McpServerState[]>): Promise<McpServerState[]> {
+        try {
+            const servers = await fetch();
+            runInAction(() => {
+                this.servers = servers;
+            });
+            return servers;
+        } catch (error) {
+            console.error('Failed to load MCP servers', error);
+            this.loaded = null;
+            return [];
+        }
+    }
+
+    clear() {
+        this.servers = [];
+        this.loaded = null;
+    }
+}
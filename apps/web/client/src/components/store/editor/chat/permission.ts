@@ -0,0 +1,145 @@
+import { api } from '@/trpc/client';
+import { evaluateToolPermission, summarizeToolInput } from '@onlook/ai';
+import type { ToolPermissionPolicy, ToolPermissionRule } from '@onlook/models';
+import { makeAutoObservable, runInAction } from 'mobx';
+import type { EditorEngine } from '../engine';
+
+export type PermissionResponse = 'once' | 'always' | 'deny';
+
+export interface PermissionRequest {
+    toolCallId: string;
+    toolName: string;
+    summary: string;
+    reason: string;
+    /** Whether the call can be allowed for the project from now on */
+    canAlwaysAllow: boolean;
+}
+
+// Checks tool calls against the project's permission rules before they run
+export class PermissionManager {
+    policy: ToolPermissionPolicy | null = null;
+    requests: PermissionRequest[] = [];
+    private resolvers = new Map<string, (response: PermissionResponse) => void>();
+
+    constructor(private editorEngine: EditorEngine) {
+        makeAutoObservable(this);
+    }
+
+    get current(): PermissionRequest | null {
+        return this.requests[0] ?? null;
+    }
+
+    private async getPolicy(): Promise<ToolPermissionPolicy> {
+        if (this.policy) {
+            return this.policy;
+        }
+        const project = await api.project.get.query({ projectId: this.editorEngine.projectId });
+        const policy = project.toolPermissions ?? { rules: [] };
+        runInAction(() => {
+            this.policy = policy;
+        });
+        return policy;
+    }
+
+    /**
+     * Resolves to whether the tool call may run, asking the user first when a rule says so.
+     * Every decision is recorded in the project's audit log.
+     */
+    async authorize(
+        toolName: string,
+        input: unknown,
+        toolCallId: string,
+    ): Promise<{ allowed: boolean; reason: string }> {
+        const branchId = (input as { branchId?: unknown } | null)?.branchId;
+        const branch =
+            typeof branchId === 'string'
+                ? { id: branchId, name: this.editorEngine.branches.getBranchById(branchId)?.name }
+                : undefined;
+        const summary = summarizeToolInput(toolName, input);
+        const evaluation = evaluateToolPermission(
+            { toolName, input, branch },
+            await this.getPolicy(),
+        );
+
+        let allowed = evaluation.action === 'allow';
+        let decidedBy: 'policy' | 'user' = 'policy';
+        if (evaluation.action === 'ask') {
+            const response = await this.requestApproval({
+                toolCallId,
+                toolName,
+                summary,
+                reason: evaluation.reason,
+                canAlwaysAllow: evaluation.alwaysAllowRules !== null,
+            });
+            allowed = response !== 'deny';
+            decidedBy = 'user';
+            if (response === 'always' && evaluation.alwaysAllowRules) {
+                await this.addRules(evaluation.alwaysAllowRules);
+            }
+        }
+
+        void api.project.recordToolAudit
+            .mutate({
+                projectId: this.editorEngine.projectId,
+                conversationId: this.editorEngine.chat.getCurrentConversationId(),
+                toolCallId,
+                toolName,
+                summary,
+                branchId: branch?.id,
+                decision: evaluation.action,
+                reason: evaluation.reason,
+                ruleId: evaluation.ruleId,
+                decidedBy,
+                allowed,
+            })
+            .catch((error) => console.error('Failed to record tool audit entry', error));
+
+        return { allowed, reason: evaluation.reason };
+    }
+
+    requestApproval(request: PermissionRequest): Promise<PermissionResponse> {
+        this.requests.push(request);
+        return new Promise((resolve) => {
+            this.resolvers.set(request.toolCallId, resolve);
+        });
+    }
+
+    respond(toolCallId: string, response: PermissionResponse) {
+        const resolve = this.resolvers.get(toolCallId);
+        this.resolvers.delete(toolCallId);
+        this.requests = this.requests.filter((request) => request.toolCallId !== toolCallId);
+        resolve?.(response);
+    }
+
+    async addRules(rules: Omit<ToolPermissionRule, 'id'>[]) {
+        try {
+            const project = await api.project.addToolPermissionRules.mutate({
+                projectId: this.editorEngine.projectId,
+                rules,
+            });
+            runInAction(() => {
+                this.policy = project.toolPermissions ?? { rules: [] };
+            });
+        } catch (error) {
+            console.error('Failed to save tool permission rules', error);
+        }
+    }
+
+    /** Replaces the project's rules, e.g. from the settings modal */
+    async updateRules(rules: ToolPermissionRule[]) {
+        const project = await api.project.updateToolPermissions.mutate({
+            projectId: this.editorEngine.projectId,
+            rules,
+        });
+        runInAction(() => {
+            this.policy = project.toolPermissions ?? { rules: [] };
+        });
+    }
+
+    clear() {
+        for (const { toolCallId } of this.requests) {
+            this.respond(toolCallId, 'deny');
+        }
+        this.policy = null;
+    }
+}
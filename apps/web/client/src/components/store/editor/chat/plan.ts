@@ -0,0 +1,46 @@
+import { ChatType } from '@onlook/models';
+import { makeAutoObservable } from 'mobx';
+import type { EditorEngine } from '../engine';
+
+export class PlanManager {
+    pendingPlan: string | null = null;
+    private resolveDecision: ((approved: boolean) => void) | null = null;
+
+    constructor(private editorEngine: EditorEngine) {
+        makeAutoObservable(this);
+    }
+
+    get isAwaitingApproval() {
+        return this.pendingPlan !== null;
+    }
+
+    // Resolves once the user approves or rejects the plan from the chat tab
+    requestApproval(plan: string): Promise<boolean> {
+        this.settle(false);
+        this.pendingPlan = plan;
+        return new Promise((resolve) => {
+            this.resolveDecision = resolve;
+        });
+    }
+
+    approve() {
+        // Switch before resolving so the follow-up request is sent with the build toolset
+        this.editorEngine.state.chatMode = ChatType.EDIT;
+        this.settle(true);
+    }
+
+    reject() {
+        this.settle(false);
+    }
+
+    private settle(approved: boolean) {
+        const resolve = this.resolveDecision;
+        this.pendingPlan = null;
+        this.resolveDecision = null;
+        resolve?.(approved);
+    }
+
+    clear() {
+        this.settle(false);
+    }
+}
@@ -0,0 +1,211 @@
+import { LocalForageKeys } from '@/utils/constants';
+import type { WriteCodeAction } from '@onlook/models/actions';
+import { applyHunks, diffLines, type DiffHunk } from '@onlook/utility';
+import localforage from 'localforage';
+import { makeAutoObservable, runInAction, toJS } from 'mobx';
+import type { EditorEngine } from '../engine';
+
+export type HunkDecision = 'pending' | 'accepted' | 'rejected';
+
+export interface StagedFile {
+    key: string;
+    branchId: string;
+    path: string;
+    /** Content before the agent touched the file; null when the agent created it */
+    original: string | null;
+    /** Latest content the agent wrote */
+    staged: string;
+    hunks: DiffHunk[];
+    decisions: HunkDecision[];
+}
+
+/**
+ * Agent edits held for review. Staged files form an overlay over the branch sandboxes: the
+ * staged content is written through so the canvas previews it, while the overlay keeps the
+ * original so rejected hunks can be restored. Once every hunk is decided the accepted changes
+ * are recorded as one write-code action per branch, so a turn is undone in one step.
+ * The overlay is saved in the browser, since the staged content stays on disk across reloads.
+ */
+export class ReviewManager {
+    enabled = false;
+    files = new Map<string, StagedFile>();
+
+    constructor(private editorEngine: EditorEngine) {
+        makeAutoObservable(this);
+    }
+
+    setEnabled(enabled: boolean) {
+        this.enabled = enabled;
+    }
+
+    get stagedFiles(): StagedFile[] {
+        return Array.from(this.files.values());
+    }
+
+    get hasPendingChanges(): boolean {
+        return this.files.size > 0;
+    }
+
+    get pendingHunkCount(): number {
+        return this.stagedFiles.reduce(
+            (count, file) => count + file.decisions.filter((d) => d === 'pending').length,
+            0,
+        );
+    }
+
+    private get storageKey(): string {
+        return `${LocalForageKeys.PENDING_REVIEW}-${this.editorEngine.projectId}`;
+    }
+
+    /** Restores files staged before the page was reloaded or the chat was cleared */
+    async restore() {
+        const saved = await localforage.getItem<StagedFile[]>(this.storageKey);
+        runInAction(() => {
+            for (const file of saved ?? []) {
+                // Edits staged since loading are newer
+                if (!this.files.has(file.key)) {
+                    this.files.set(file.key, file);
+                }
+            }
+        });
+    }
+
+    private persist() {
+        const files = toJS(this.stagedFiles);
+        const saving = files.length
+            ? localforage.setItem(this.storageKey, files)
+            : localforage.removeItem(this.storageKey);
+        saving.catch((error) => console.error('Failed to save pending review', error));
+    }
+
+    private getSandbox(branchId: string) {
+        const sandbox = this.editorEngine.branches.getSandboxById(branchId);
+        if (!sandbox) {
+            throw new Error(`Sandbox not found for branch ID: ${branchId}`);
+        }
+        return sandbox;
+    }
+
+    /** Writes an agent edit, staging it for review when review mode is on */
+    async writeFile(branchId: string, path: string, content: string): Promise<boolean> {
+        const sandbox = this.getSandbox(branchId);
+        if (!this.enabled) {
+            return sandbox.writeFile(path, content);
+        }
+
+        const key = `${branchId}:${path}`;
+        let original = this.files.get(key)?.original;
+        if (original === undefined) {
+            const file = (await sandbox.fileExists(path)) ? await sandbox.readFile(path) : null;
+            if (file && file.type !== 'text') {
+                throw new Error(`Cannot stage binary file ${path}`);
+            }
+            original = file?.content ?? null;
+        }
+
+        if (!(await sandbox.writeFile(path, content))) {
+            return false;
+        }
+        // Diff what the sandbox holds, since writing JSX files adds editor attributes
+        const written = await sandbox.readFile(path);
+        const staged = written?.type === 'text' ? written.content : content;
+        const hunks = diffLines(original ?? '', staged);
+        if (hunks.length === 0) {
+            this.files.delete(key);
+            this.persist();
+            return true;
+        }
+
+        this.files.set(key, {
+            key,
+            branchId,
+            path,
+            original,
+            staged,
+            hunks,
+            decisions: hunks.map(() => 'pending'),
+        });
+        this.persist();
+        return true;
+    }
+
+    async setHunkDecision(key: string, index: number, decision: HunkDecision) {
+        const file = this.files.get(key);
+        if (!file || index >= file.hunks.length) {
+            return;
+        }
+        file.decisions[index] = decision;
+        await this.settle([file]);
+    }
+
+    async setFileDecision(key: string, decision: HunkDecision) {
+        const file = this.files.get(key);
+        if (!file) {
+            return;
+        }
+        file.decisions = file.hunks.map(() => decision);
+        await this.settle([file]);
+    }
+
+    async setAllDecisions(decision: HunkDecision) {
+        const files = this.stagedFiles;
+        for (const file of files) {
+            file.decisions = file.hunks.map(() => decision);
+        }
+        await this.settle(files);
+    }
+
+    /** Content with every hunk that has not been rejected */
+    private resolve(file: StagedFile): string {
+        const kept = file.hunks.filter((_, index) => file.decisions[index] !== 'rejected');
+        return applyHunks(file.original ?? '', kept);
+    }
+
+    private async writeResolved(file: StagedFile) {
+        const sandbox = this.getSandbox(file.branchId);
+        const allRejected = file.decisions.every((decision) => decision === 'rejected');
+        if (file.original === null && allRejected) {
+            await sandbox.delete(file.path);
+            return;
+        }
+        const content = this.resolve(file);
+        if (content !== file.staged) {
+            await sandbox.writeFile(file.path, content);
+        }
+    }
+
+    private async settle(changed: StagedFile[]) {
+        for (const file of changed) {
+            await this.writeResolved(file);
+        }
+        if (this.pendingHunkCount === 0) {
+            this.commit();
+        }
+        this.persist();
+    }
+
+    private commit() {
+        const actions = new Map<string, WriteCodeAction>();
+        for (const file of this.stagedFiles) {
+            if (!file.decisions.includes('accepted')) {
+                continue;
+            }
+            const action = actions.get(file.branchId) ?? { type: 'write-code', diffs: [] };
+            action.diffs.push({
+                path: file.path,
+                original: file.original,
+                generated: this.resolve(file),
+            });
+            actions.set(file.branchId, action);
+        }
+        for (const [branchId, action] of actions) {
+            this.editorEngine.branches.getBranchDataById(branchId)?.history.record(action);
+        }
+        this.files.clear();
+    }
+
+    /** Keeps the saved overlay, so the staged files can still be reviewed after `restore` */
+    clear() {
+        this.files.clear();
+    }
+}
@@ -0,0 +1,65 @@
+import type { SubagentType, TaskToolOutput } from '@onlook/ai';
+import type { ChatMessage } from '@onlook/models';
+import { makeAutoObservable } from 'mobx';
+
+export interface SubagentRun {
+    type: SubagentType;
+    description: string;
+    maxSteps: number;
+    transcript: ChatMessage[];
+    status: 'running' | 'done' | 'error';
+    abortController: AbortController;
+}
+
+// Live state of sub-agents started by task tool calls, keyed by tool call id
+export class SubagentManager {
+    runs = new Map<string, SubagentRun>();
+
+    constructor() {
+        makeAutoObservable(this);
+    }
+
+    get(toolCallId: string): SubagentRun | undefined {
+        return this.runs.get(toolCallId);
+    }
+
+    start(
+        toolCallId: string,
+        {
+            type,
+            description,
+            maxSteps,
+        }: { type: SubagentType; description: string; maxSteps: number },
+    ): SubagentRun {
+        this.runs.set(toolCallId, {
+            type,
+            description,
+            maxSteps,
+            transcript: [],
+            status: 'running',
+            abortController: new AbortController(),
+        });
+        return this.runs.get(toolCallId)!;
+    }
+
+    setTranscript(toolCallId: string, transcript: ChatMessage[]) {
+        const run = this.runs.get(toolCallId);
+        if (run) {
+            run.transcript = transcript;
+        }
+    }
+
+    finish(toolCallId: string, output: TaskToolOutput | null) {
+        const run = this.runs.get(toolCallId);
+        if (run) {
+            run.status = output ? 'done' : 'error';
+        }
+    }
+
+    clear() {
+        for (const run of this.runs.values()) {
+            run.abortController.abort();
+        }
+        this.runs.clear();
+    }
+}
@@ -1,8 +1,11 @@
 import type { EditorEngine } from '@/components/store/editor/engine';
 import {
     type Action,
+    type CodeDiff,
     type CodeDiffRequest,
-    type FileToRequests
+    type FileToRequests,
+    type InsertElementAction,
+    type MoveElementAction,
 } from '@onlook/models';
 import { toast } from '@onlook/ui/sonner';
 import { assertNever } from '@onlook/utility';
@@ -32,10 +35,13 @@ export class CodeManager {
             // TODO: This is a hack to write code, we should refactor this
             if (action.type === 'write-code') {
                 for (const diff of action.diffs) {
-                    const success = await this.editorEngine.activeSandbox.writeFile(
-                        diff.path,
-                        diff.generated,
-                    );
+                    const success =
+                        diff.generated === null
+                            ? await this.editorEngine.activeSandbox.delete(diff.path)
+                            : await this.editorEngine.activeSandbox.writeFile(
+                                  diff.path,
+                                  diff.generated,
+                              );
                     wroteToSandbox = wroteToSandbox || success;
                 }
             } else {
@@ -58,6 +64,16 @@ export class CodeManager {
         }
     }
 
+    /** Diffs the requests make, from the content of the files as they are in the sandbox */
+    async getCodeDiffs(requests: CodeDiffRequest[]): Promise<CodeDiff[]> {
+        const groupedRequests = await this.groupRequestByFile(requests);
+        const codeDiffs = await processGroupedRequests(groupedRequests);
+        return codeDiffs.map((diff) => ({
+            ...diff,
+            original: groupedRequests.get(diff.path)?.content ?? diff.original,
+        }));
+    }
+
     async writeRequest(requests: CodeDiffRequest[]): Promise<boolean> {
         const groupedRequests = await this.groupRequestByFile(requests);
         if (groupedRequests.size === 0) {
@@ -77,9 +93,9 @@ export class CodeManager {
             case 'update-style':
                 return await getStyleRequests(action);
             case 'insert-element':
-                return await getInsertRequests(action);
+                return await getInsertRequests(await this.withTemplateIndex(action));
             case 'move-element':
-                return await getMoveRequests(action);
+                return await getMoveRequests(await this.withTemplateIndex(action));
             case 'remove-element':
                 return await getRemoveRequests(action);
             case 'edit-text':
@@ -99,6 +115,31 @@ export class CodeManager {
         }
     }
 
+    /**
+     * Resolves the index among the children written in code, which differs from the index in
+     * the frame when siblings are rendered by a `.map()`. The frame still shows the elements
+     * as they were before the action.
+     */
+    private async withTemplateIndex<T extends InsertElementAction | MoveElementAction>(
+        action: T,
+    ): Promise<T> {
+        const location = action.location;
+        const target = action.targets[0];
+        const view = target ? this.editorEngine.frames.get(target.frameId)?.view : null;
+        if (location.type !== 'index' || !target || !view) {
+            return action;
+        }
+        const templateIndex = await view.getTemplateIndex(
+            location.targetDomId,
+            location.index,
+            action.type === 'move-element' ? target.domId : null,
+        );
+        if (typeof templateIndex !== 'number') {
+            return action;
+        }
+        return { ...action, location: { ...location, templateIndex } };
+    }
+
     async groupRequestByFile(requests: CodeDiffRequest[]): Promise<FileToRequests> {
         const requestByFile: FileToRequests = new Map();
 
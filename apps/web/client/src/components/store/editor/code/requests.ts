@@ -51,7 +51,12 @@ export async function getStyleRequests({ targets }: UpdateStyleAction): Promise<
         }
 
         const request = await getOrCreateCodeDiffRequest(target.oid, oidToCodeChange);
-        addTailwindToRequest(request, target.change.updated);
+        // Breakpoints go first, as in `md:hover:bg-red-500`
+        const variants = [target.breakpoint, target.state].filter((v): v is string => !!v);
+        addTailwindToRequest(request, target.change.updated, variants);
+        if (target.runtimeClasses) {
+            request.runtimeClasses = target.runtimeClasses;
+        }
     }
 
     return Array.from(oidToCodeChange.values());
@@ -6,12 +6,21 @@ import { twMerge } from 'tailwind-merge';
 export function addTailwindToRequest(
     request: CodeDiffRequest,
     styles: Record<string, StyleChange>,
+    variants: string[] = [],
 ): void {
-    const newClasses = getTailwindClasses(request.oid, styles);
+    const newClasses = getTailwindClasses(request.oid, styles, variants);
     request.attributes['className'] = twMerge(request.attributes['className'] || '', newClasses);
 }
 
-export function getTailwindClasses(oid: string, styles: Record<string, StyleChange>): string[] {
+/**
+ * Tailwind classes for the styles. With variants, e.g. `['hover']`, each class is prefixed
+ * so it only applies in that state: `hover:bg-red-500`.
+ */
+export function getTailwindClasses(
+    oid: string,
+    styles: Record<string, StyleChange>,
+    variants: string[] = [],
+): string[] {
     const customColors = Object.entries(styles).reduce(
         (acc, [key, style]) => {
             if (style.type === StyleChangeType.Custom) {
@@ -45,7 +54,17 @@ export function getTailwindClasses(oid: string, styles: Record<string, StyleChan
         })
         .filter((v) => v !== undefined);
 
-    return [...twClasses, ...customClasses];
+    const classes = [...twClasses, ...customClasses];
+    if (variants.length === 0) {
+        return classes;
+    }
+    const prefix = variants.map((variant) => `${variant}:`).join('');
+    return classes.flatMap((value) =>
+        value
+            .split(/\s+/)
+            .filter(Boolean)
+            .map((cls) => `${prefix}${cls}`),
+    );
 }
 
 export function createCSSRuleString(oid: string, styles: Record<string, StyleChange>) {
@@ -0,0 +1,163 @@
+import { LocalForageKeys } from '@/utils/constants';
+import type { DomElement, DynamicType } from '@onlook/models';
+import {
+    getAstFromContent,
+    getContentFromAst,
+    hasPreviewedBranches,
+    restoreConditionalBranches,
+    toggleConditionalBranch,
+    type t as T,
+} from '@onlook/parser';
+import { toast } from '@onlook/ui/sonner';
+import localforage from 'localforage';
+import { makeAutoObservable, runInAction, toJS } from 'mobx';
+import type { EditorEngine } from '../engine';
+
+interface PreviewedFile {
+    branchId: string;
+    path: string;
+}
+
+/**
+ * Elements rendered by a `.map()` or a condition, and previews of the other branch of conditions.
+ * Previews are written to the code as undoable actions. The previewed files are saved in the
+ * browser so conditions left negated by a closed editor are put back on the next load.
+ */
+export class DynamicElementManager {
+    // Files with conditions negated so the frame renders their other branch
+    previewedFiles: PreviewedFile[] = [];
+
+    constructor(private editorEngine: EditorEngine) {
+        makeAutoObservable(this);
+    }
+
+    getDynamicType(el: DomElement): DynamicType | null {
+        const templateNode = el.oid ? this.editorEngine.templateNodes.getTemplateNode(el.oid) : null;
+        return templateNode?.dynamicType ?? null;
+    }
+
+    /** Number of elements rendered from the element's code, such as the items of a list */
+    async getRenderedCount(el: DomElement): Promise<number> {
+        const view = this.editorEngine.frames.get(el.frameId)?.view;
+        if (!view || !el.oid) {
+            return 1;
+        }
+        return (await view.getElementCountByOid(el.oid)) ?? 1;
+    }
+
+    /**
+     * Negates the condition that renders the element so the frame shows the other branch, or
+     * puts the condition back when it was negated this way.
+     */
+    async toggleBranch(el: DomElement) {
+        const templateNode = el.oid ? this.editorEngine.templateNodes.getTemplateNode(el.oid) : null;
+        if (!el.oid || !templateNode) {
+            toast.error('Failed to find the code of this element');
+            return;
+        }
+        const file = { branchId: templateNode.branchId, path: templateNode.path };
+        const oid = el.oid;
+        let found = true;
+        const wrote = await this.transformFile(file, (ast) => {
+            found = toggleConditionalBranch(ast, oid);
+            return found;
+        });
+        if (!wrote) {
+            if (!found) {
+                toast.error('Failed to find the condition that renders this element');
+            }
+            return;
+        }
+        this.editorEngine.elements.clear();
+        this.editorEngine.frames.reloadAllViews();
+    }
+
+    private get storageKey(): string {
+        return `${LocalForageKeys.PREVIEWED_BRANCHES}-${this.editorEngine.projectId}`;
+    }
+
+    /** Puts back conditions still negated from before the page was reloaded or closed */
+    async restoreSavedBranches() {
+        const saved = await localforage.getItem<PreviewedFile[]>(this.storageKey);
+        runInAction(() => {
+            for (const file of saved ?? []) {
+                if (
+                    !this.previewedFiles.some(
+                        (previewed) =>
+                            previewed.branchId === file.branchId && previewed.path === file.path,
+                    )
+                ) {
+                    this.previewedFiles.push(file);
+                }
+            }
+        });
+        await this.restoreBranches();
+    }
+
+    /** Puts back every condition negated to preview its other branch */
+    async restoreBranches() {
+        let wrote = false;
+        for (const file of [...this.previewedFiles]) {
+            wrote = (await this.transformFile(file, restoreConditionalBranches)) || wrote;
+        }
+        if (wrote) {
+            this.editorEngine.frames.reloadAllViews();
+        }
+    }
+
+    private async transformFile(
+        file: PreviewedFile,
+        transform: (ast: T.File) => boolean,
+    ): Promise<boolean> {
+        try {
+            const sandbox = this.editorEngine.branches.getSandboxById(file.branchId);
+            const content = await sandbox?.readFile(file.path);
+            if (!sandbox || !content || content.type === 'binary') {
+                throw new Error(`Failed to read file: ${file.path}`);
+            }
+            const ast = getAstFromContent(content.content);
+            if (!ast) {
+                return false;
+            }
+            const changed = transform(ast);
+            if (changed) {
+                const generated = await getContentFromAst(ast, content.content);
+                await sandbox.writeFile(file.path, generated);
+                this.editorEngine.branches.getBranchDataById(file.branchId)?.history.record({
+                    type: 'write-code',
+                    diffs: [{ path: file.path, original: content.content, generated }],
+                });
+            }
+            // Also drops files whose preview was undone
+            const previewing = hasPreviewedBranches(ast);
+            runInAction(() => {
+                const others = this.previewedFiles.filter(
+                    (previewed) =>
+                        previewed.branchId !== file.branchId || previewed.path !== file.path,
+                );
+                this.previewedFiles = previewing ? [...others, file] : others;
+            });
+            this.persist();
+            return changed;
+        } catch (error) {
+            console.error('Error previewing branch:', error);
+            toast.error('Failed to preview branch', {
+                description: error instanceof Error ? error.message : 'Unknown error',
+            });
+            return false;
+        }
+    }
+
+    private persist() {
+        const files = toJS(this.previewedFiles);
+        const saving = files.length
+            ? localforage.setItem(this.storageKey, files)
+            : localforage.removeItem(this.storageKey);
+        saving.catch((error) => console.error('Failed to save previewed branches', error));
+    }
+
+    clear() {
+        // Best effort. Files that fail to restore stay saved and are restored on the next load
+        void this.restoreBranches();
+    }
+}
@@ -8,6 +8,7 @@ import { CanvasManager } from './canvas';
 import { ChatManager } from './chat';
 import { CodeManager } from './code';
 import { CopyManager } from './copy';
+import { DynamicElementManager } from './dynamic';
 import { ElementsManager } from './element';
 import { FontManager } from './font';
 import { FrameEventManager } from './frame-events';
@@ -20,6 +21,7 @@ import { MoveManager } from './move';
 import { OverlayManager } from './overlay';
 import { PagesManager } from './pages';
 import { PreloadScriptManager } from './preload';
+import { PropsManager } from './props';
 import { SandboxManager } from './sandbox';
 import { ScreenshotManager } from './screenshot';
 import { SnapManager } from './snap';
@@ -68,6 +70,8 @@ export class EditorEngine {
     readonly preloadScript: PreloadScriptManager = new PreloadScriptManager(this);
     readonly screenshot: ScreenshotManager = new ScreenshotManager(this);
     readonly snap: SnapManager = new SnapManager(this);
+    readonly dynamic: DynamicElementManager = new DynamicElementManager(this);
+    readonly props: PropsManager = new PropsManager(this);
     readonly templateNodes: TemplateNodeManager;
 
     constructor(projectId: string, posthog: PostHog) {
@@ -85,6 +89,7 @@ export class EditorEngine {
         this.chat.init();
         this.templateNodes.init();
         this.style.init();
+        this.props.init();
     }
 
     async initBranches(branches: Branch[]) {
@@ -93,6 +98,8 @@ export class EditorEngine {
     }
 
     clear() {
+        // First, while the sandboxes can still write the restored conditions
+        this.dynamic.clear();
         this.elements.clear();
         this.frames.clear();
         this.action.clear();
@@ -102,6 +109,7 @@ export class EditorEngine {
         this.insert.clear();
         this.move.clear();
         this.style.clear();
+        this.props.clear();
         this.copy.clear();
         this.group.clear();
         this.canvas.clear();
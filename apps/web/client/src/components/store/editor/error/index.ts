@@ -1,3 +1,4 @@
+import type { LocalProcessCrash } from '@onlook/code-provider';
 import type { Action, Branch } from '@onlook/models';
 import { type ParsedError, compareErrors, isErrorMessage, shouldIgnoreMessage, TerminalBuffer } from '@onlook/utility';
 import { makeAutoObservable } from 'mobx';
@@ -65,6 +66,24 @@ export class ErrorManager {
         }
     }
 
+    addProcessCrash(crash: LocalProcessCrash) {
+        const restartNote =
+            crash.restartInMs !== null
+                ? `Restarting automatically (attempt ${crash.attempt}).`
+                : 'The process will stay stopped until the problem is fixed.';
+        const error: ParsedError = {
+            sourceId: crash.process === 'dev' ? 'Dev Server Crash' : `Process Crash (${crash.process})`,
+            type: 'crash',
+            content: [crash.message, crash.evidence, restartNote].filter(Boolean).join('\n'),
+            branchId: this.branch.id,
+            branchName: this.branch.name,
+            action: crash.kind === 'missing-dependencies' ? 'install-dependencies' : undefined,
+        };
+        // Only the latest crash of a process is relevant, replace earlier ones
+        const existingErrors = (this._errors || []).filter((e) => e.sourceId !== error.sourceId);
+        this._errors = [...existingErrors, error];
+    }
+
     handleSuccess(message: string) {
         this.clear();
     }
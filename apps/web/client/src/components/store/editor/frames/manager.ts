@@ -251,6 +251,23 @@ export class FramesManager {
         await this.saveToStorage(frameId, frame);
     }
 
+    /** Points the local previews of a branch at the port its dev server moved to */
+    async updateBranchPort(branchId: string, port: number) {
+        for (const frameData of this.getByBranchId(branchId)) {
+            const url = new URL(frameData.frame.url);
+            if (!['localhost', '127.0.0.1'].includes(url.hostname) || url.port === String(port)) {
+                continue;
+            }
+            url.port = String(port);
+            this._frameIdToData.set(frameData.frame.id, {
+                ...frameData,
+                frame: { ...frameData.frame, url: url.toString() },
+            });
+            // The debounced save would only keep the last of the branch's frames
+            await this.undebouncedSaveToStorage(frameData.frame.id, { url: url.toString() });
+        }
+    }
+
     saveToStorage = debounce(this.undebouncedSaveToStorage.bind(this), 1000);
 
     async undebouncedSaveToStorage(frameId: string, frame: Partial<Frame>) {
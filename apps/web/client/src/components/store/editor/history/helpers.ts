@@ -159,7 +159,12 @@ function handleUpdateStyleAction(
     const mergedTargets = [...existingAction.targets];
 
     for (const newTarget of newAction.targets) {
-        const existingTarget = mergedTargets.find((et) => et.domId === newTarget.domId);
+        const existingTarget = mergedTargets.find(
+            (et) =>
+                et.domId === newTarget.domId &&
+                et.state === newTarget.state &&
+                et.breakpoint === newTarget.breakpoint,
+        );
 
         if (existingTarget) {
             existingTarget.change = {
@@ -104,6 +104,12 @@ export class HistoryManager {
         }
     };
 
+    // Adds an action whose changes were already written, e.g. reviewed agent edits
+    record = (action: Action) => {
+        this.redoStack = [];
+        this.undoStack.push(action);
+    };
+
     undo = (): Action | null => {
         if (this.inTransaction.type === TransactionType.IN_TRANSACTION) {
             this.commitTransaction();
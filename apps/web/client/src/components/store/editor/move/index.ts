@@ -1,5 +1,6 @@
-import type { DomElement, ElementPosition } from '@onlook/models';
+import { DynamicType, type DomElement, type ElementPosition } from '@onlook/models';
 import type { MoveElementAction } from '@onlook/models/actions';
+import { toast } from '@onlook/ui/sonner';
 import { makeAutoObservable } from 'mobx';
 import type React from 'react';
 import type { EditorEngine } from '../engine';
@@ -97,6 +98,13 @@ export class MoveManager {
             return;
         }
 
+        // The items come from data, so their order can't be changed in the template
+        if (this.editorEngine.dynamic.getDynamicType(el) === DynamicType.ARRAY) {
+            toast.error('Items rendered from a list cannot be reordered');
+            this.clear();
+            return;
+        }
+
         if (!frameData.view) {
             console.error('No frame view found');
             this.clear();
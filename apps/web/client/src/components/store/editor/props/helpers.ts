@@ -0,0 +1,101 @@
+import type { ComponentProp } from '@onlook/models';
+import { PropType, type Prop } from '@onlook/types/adapters';
+
+const COLOR_PROP_NAMES = ['bg', 'background', 'fill', 'stroke'];
+const COLOR_VALUE = /^(#[0-9a-f]{3,8}|(rgb|rgba|hsl|hsla|oklch)\(.*\))$/i;
+const STRING_LITERAL = /^(['"])(.*)\1$/;
+
+/** Splits a union type on the `|` outside of parentheses, brackets and generics */
+function splitUnion(type: string): string[] {
+    const members: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of type) {
+        if ('([{<'.includes(char)) {
+            depth++;
+        } else if (')]}>'.includes(char)) {
+            depth--;
+        }
+        if (char === '|' && depth === 0) {
+            members.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    members.push(current.trim());
+    return members.filter((member) => member && member !== 'undefined' && member !== 'null');
+}
+
+function parseLiteral(code: string | null): string | number | boolean | undefined {
+    if (code === null) {
+        return undefined;
+    }
+    const stringMatch = STRING_LITERAL.exec(code.trim());
+    if (stringMatch) {
+        return stringMatch[2];
+    }
+    if (code === 'true' || code === 'false') {
+        return code === 'true';
+    }
+    const number = Number(code);
+    return code.trim() !== '' && !Number.isNaN(number) ? number : undefined;
+}
+
+function isColorProp(name: string, defaultValue: unknown): boolean {
+    return (
+        /colou?r$/i.test(name) ||
+        COLOR_PROP_NAMES.includes(name) ||
+        (typeof defaultValue === 'string' && COLOR_VALUE.test(defaultValue))
+    );
+}
+
+/**
+ * Input type of a component prop, from its type annotation or else its default value. Null for
+ * props that can't be edited with an input, such as callbacks and elements.
+ */
+export function getPropType(prop: ComponentProp): Prop['type'] | null {
+    const defaultValue = parseLiteral(prop.defaultValue);
+    const members = prop.type
+        ? splitUnion(prop.type)
+        : defaultValue !== undefined
+          ? [typeof defaultValue]
+          : [];
+    if (members.length === 0) {
+        return null;
+    }
+
+    const options = members.map((member) => STRING_LITERAL.exec(member)?.[2]);
+    if (options.every((option): option is string => option !== undefined)) {
+        return {
+            type: 'enum',
+            options,
+            default: typeof defaultValue === 'string' ? defaultValue : options[0],
+        };
+    }
+    if (members.every((member) => ['boolean', 'true', 'false'].includes(member))) {
+        return { ...PropType.boolean(), default: defaultValue === true };
+    }
+    if (members.length > 1) {
+        return null;
+    }
+    if (members[0] === 'number') {
+        return {
+            ...PropType.number(),
+            default: typeof defaultValue === 'number' ? defaultValue : 0,
+        };
+    }
+    if (members[0] === 'string') {
+        const type = isColorProp(prop.name, defaultValue) ? PropType.color() : PropType.string();
+        return { ...type, default: typeof defaultValue === 'string' ? defaultValue : '' };
+    }
+    return null;
+}
+
+/** Props of the component that can be edited with an input, in the order they are declared */
+export function getEditableProps(props: ComponentProp[]): Prop[] {
+    return props.flatMap((prop) => {
+        const type = getPropType(prop);
+        return type ? [{ name: prop.name, type }] : [];
+    });
+}
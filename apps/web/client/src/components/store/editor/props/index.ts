@@ -0,0 +1,149 @@
+import {
+    CodeSymbolKind,
+    type CodeDiffRequest,
+    type DomElement,
+    type NodeProps,
+} from '@onlook/models';
+import { getAstFromContent, getContentFromAst, getElementProps, transformAst } from '@onlook/parser';
+import type { ComponentDescriptor } from '@onlook/types/adapters';
+import { toast } from '@onlook/ui/sonner';
+import { makeAutoObservable, reaction, runInAction } from 'mobx';
+import type { EditorEngine } from '../engine';
+import { getEditableProps } from './helpers';
+
+export type PropValue = string | number | boolean;
+
+export interface ComponentInstance {
+    /** Oid of the component's JSX element, as written where the component is used */
+    instanceId: string;
+    branchId: string;
+    /** File the component is used in */
+    path: string;
+    // Instances aren't rendered on their own, so there is no renderer
+    component: Omit<ComponentDescriptor, 'createRenderer'>;
+    /** Props passed in code, expressions included */
+    values: NodeProps[];
+}
+
+// Props of the selected component instance, written back to its JSX attributes
+export class PropsManager {
+    instance: ComponentInstance | null = null;
+    private selectedElementsReactionDisposer?: () => void;
+
+    constructor(private editorEngine: EditorEngine) {
+        makeAutoObservable(this);
+    }
+
+    init() {
+        this.selectedElementsReactionDisposer = reaction(
+            () => this.editorEngine.elements.selected,
+            () => void this.loadInstance(),
+        );
+    }
+
+    async loadInstance() {
+        const selectedEl = this.editorEngine.elements.selected[0];
+        const instance = selectedEl ? await this.getInstance(selectedEl) : null;
+        runInAction(() => {
+            if (this.editorEngine.elements.selected[0] !== selectedEl) {
+                return;
+            }
+            this.instance = instance;
+        });
+    }
+
+    async update(name: string, value: PropValue) {
+        const instance = this.instance;
+        if (!instance) {
+            return;
+        }
+        try {
+            // The instance can be on a branch other than the active one
+            const sandbox = this.editorEngine.branches.getSandboxById(instance.branchId);
+            const file = await sandbox?.readFile(instance.path);
+            if (!sandbox || !file || file.type === 'binary') {
+                throw new Error(`Failed to read file: ${instance.path}`);
+            }
+            const ast = getAstFromContent(file.content);
+            if (!ast) {
+                throw new Error(`Failed to parse file: ${instance.path}`);
+            }
+            const request: CodeDiffRequest = {
+                oid: instance.instanceId,
+                attributes: { [name]: value },
+                textContent: null,
+                overrideClasses: null,
+                structureChanges: [],
+            };
+            transformAst(ast, new Map([[instance.instanceId, request]]));
+            const generated = await getContentFromAst(ast, file.content);
+            await sandbox.writeFile(instance.path, generated);
+            this.editorEngine.branches.getBranchDataById(instance.branchId)?.history.record({
+                type: 'write-code',
+                diffs: [{ path: instance.path, original: file.content, generated }],
+            });
+            this.editorEngine.frames.reloadAllViews();
+            runInAction(() => {
+                if (this.instance !== instance) {
+                    return;
+                }
+                const updated = getElementProps(ast, instance.instanceId);
+                if (updated.type === 'props') {
+                    this.instance = { ...instance, values: updated.props };
+                }
+            });
+        } catch (error) {
+            console.error('Error updating prop:', error);
+            toast.error('Failed to update prop', {
+                description: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    }
+
+    private async getInstance(el: DomElement): Promise<ComponentInstance | null> {
+        if (!el.instanceId || !el.oid) {
+            return null;
+        }
+        // The root element is written in the component, which gives its name and file
+        const instanceNode = this.editorEngine.templateNodes.getTemplateNode(el.instanceId);
+        const rootNode = this.editorEngine.templateNodes.getTemplateNode(el.oid);
+        if (!instanceNode || !rootNode?.component) {
+            return null;
+        }
+        const sandbox = this.editorEngine.branches.getSandboxById(instanceNode.branchId);
+        const file = await sandbox?.readFile(instanceNode.path);
+        if (!sandbox || !file || file.type === 'binary') {
+            return null;
+        }
+        const ast = getAstFromContent(file.content);
+        const result = ast ? getElementProps(ast, el.instanceId) : null;
+        if (result?.type !== 'props') {
+            return null;
+        }
+
+        const symbol = sandbox.symbols
+            .getFile(rootNode.path)
+            ?.symbols.find(
+                (symbol) =>
+                    symbol.kind === CodeSymbolKind.COMPONENT && symbol.name === rootNode.component,
+            );
+        return {
+            instanceId: el.instanceId,
+            branchId: instanceNode.branchId,
+            path: instanceNode.path,
+            component: {
+                framework: 'react',
+                name: symbol?.exportNames[0] ?? rootNode.component,
+                sourceFilePath: rootNode.path,
+                props: getEditableProps(symbol?.props ?? []),
+            },
+            values: result.props,
+        };
+    }
+
+    clear() {
+        this.selectedElementsReactionDisposer?.();
+        this.selectedElementsReactionDisposer = undefined;
+        this.instance = null;
+    }
+}
@@ -1,8 +1,9 @@
-import type {
-    ListFilesOutputFile,
-    Provider,
-    ProviderFileWatcher,
-    WatchEvent,
+import {
+    LocalProvider,
+    type ListFilesOutputFile,
+    type Provider,
+    type ProviderFileWatcher,
+    type WatchEvent,
 } from '@onlook/code-provider';
 import {
     EXCLUDED_SYNC_DIRECTORIES,
@@ -23,16 +24,18 @@ import { env } from 'process';
 import type { EditorEngine } from '../engine';
 import type { ErrorManager } from '../error';
 import { detectRouterTypeInSandbox } from '../pages/helper';
-import { FileEventBus } from './file-event-bus';
+import { FileEventBus, type FileEvent } from './file-event-bus';
 import { FileSyncManager } from './file-sync';
 import { normalizePath } from './helpers';
 import { SessionManager } from './session';
+import { SymbolIndex } from './symbol-index';
 
 const isDev = env.NODE_ENV === 'development';
 
 export class SandboxManager {
     readonly session: SessionManager;
     readonly fileEventBus: FileEventBus = new FileEventBus();
+    readonly symbols: SymbolIndex = new SymbolIndex();
 
     // Add router configuration
     private _routerConfig: { type: RouterType; basePath: string } | null = null;
@@ -42,6 +45,7 @@ export class SandboxManager {
     private _isIndexed = false;
     private _isIndexing = false;
     private providerReactionDisposer?: () => void;
+    private unsubscribePortChanges?: () => void;
     private _discoveredFiles: string[] = [];
 
     constructor(
@@ -54,6 +58,7 @@ export class SandboxManager {
             this.errorManager
         );
         this.fileSync = new FileSyncManager(this.branch.projectId, this.branch.id);
+        this.fileEventBus.subscribe('*', (event) => this.updateSymbols(event));
         makeAutoObservable(this);
     }
 
@@ -62,6 +67,13 @@ export class SandboxManager {
             () => this.session.provider,
             (provider) => {
                 this._isIndexed = false;
+                this.unsubscribePortChanges?.();
+                this.unsubscribePortChanges = undefined;
+                if (provider instanceof LocalProvider) {
+                    this.unsubscribePortChanges = provider.onDevServerPortChange((port) => {
+                        void this.editorEngine.frames.updateBranchPort(this.branch.id, port);
+                    });
+                }
                 if (provider) {
                     this.index();
                 }
@@ -142,11 +154,13 @@ export class SandboxManager {
                 const cachedFile = this.fileSync.readCache(filePath);
                 if (cachedFile && cachedFile.content !== null) {
                     if (this.isJsxFile(filePath)) {
+                        this.indexSymbols(cachedFile);
                         await this.processFileForMapping(cachedFile);
                     }
                 } else {
                     const file = await this.fileSync.readOrFetch(filePath, this.readRemoteFile.bind(this));
                     if (file && this.isJsxFile(filePath)) {
+                        this.indexSymbols(file);
                         await this.processFileForMapping(file);
                     }
                 }
@@ -604,6 +618,35 @@ export class SandboxManager {
         }
     }
 
+    private indexSymbols(file: SandboxFile) {
+        if (file.type === 'text' && this.isJsxFile(file.path)) {
+            this.symbols.update(file.path, file.content);
+        }
+    }
+
+    /**
+     * Keeps the symbol index in sync with file events, reading changed files from the cache
+     */
+    private updateSymbols(event: FileEvent) {
+        if (event.type === 'rename') {
+            const [oldPath, newPath] = event.paths;
+            if (oldPath && newPath) {
+                this.symbols.rename(normalizePath(oldPath), normalizePath(newPath));
+            }
+            return;
+        }
+
+        for (const filePath of event.paths.map(normalizePath)) {
+            if (event.type === 'remove') {
+                this.symbols.remove(filePath);
+                continue;
+            }
+            const file = this.fileSync.readCache(filePath);
+            if (file) {
+                this.indexSymbols(file);
+            }
+        }
+    }
 
     async fileExists(path: string): Promise<boolean> {
         const normalizedPath = normalizePath(path);
@@ -771,9 +814,12 @@ export class SandboxManager {
     clear() {
         this.providerReactionDisposer?.();
         this.providerReactionDisposer = undefined;
+        this.unsubscribePortChanges?.();
+        this.unsubscribePortChanges = undefined;
         void this.fileWatcher?.stop();
         this.fileWatcher = null;
         this.fileSync.clear();
+        this.symbols.clear();
         this.session.clear();
         this._isIndexed = false;
         this._isIndexing = false;
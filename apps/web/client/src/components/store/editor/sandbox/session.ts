@@ -4,6 +4,7 @@ import {
     LocalProvider,
     createCodeProviderClient,
     type LocalCreateSessionOutput,
+    type LocalProcessCrash,
     type LocalSandboxLogEntry,
     type LocalSandboxLogLevel,
     type Provider,
@@ -19,6 +20,7 @@ export class SessionManager {
     terminalSessions = new Map<string, CLISession>();
     activeTerminalSessionId = 'cli';
     private providerType: CodeProvider | null = null;
+    private unsubscribeCrashes: (() => void) | null = null;
 
     constructor(
         private readonly branch: Branch,
@@ -67,6 +69,11 @@ export class SessionManager {
                         },
                     },
                 });
+                if (this.provider instanceof LocalProvider) {
+                    this.unsubscribeCrashes = this.provider.onProcessCrash(
+                        (crash: LocalProcessCrash) => this.errorManager.addProcessCrash(crash),
+                    );
+                }
             } else {
                 let pendingRemoteSession: any = startResult.session;
 
@@ -123,6 +130,16 @@ export class SessionManager {
         return false;
     }
 
+    /** Runs the project's install command and restarts the dev server once it succeeds. */
+    async installDependencies(installCommand: string): Promise<void> {
+        const result = await this.runCommand(installCommand);
+        if (!result.success) {
+            throw new Error(result.error ?? 'Failed to install dependencies');
+        }
+        this.errorManager.clear();
+        await this.restartDevServer();
+    }
+
     async readDevServerLogs(
         level: LocalSandboxLogLevel | 'all' = 'all',
     ): Promise<string | LocalSandboxLogEntry[]> {
@@ -280,6 +297,8 @@ export class SessionManager {
                 }
             }
         });
+        this.unsubscribeCrashes?.();
+        this.unsubscribeCrashes = null;
         if (this.provider) {
             await this.provider.destroy();
         }
@@ -0,0 +1,203 @@
+import { type CodeSymbol, type CodeSymbolKind, type FileSymbols } from '@onlook/models';
+import { getFileSymbols } from '@onlook/parser';
+import path from 'path';
+
+const RESOLVE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mjs', '.cjs'];
+
+// Aliases used by Next.js templates, tried against each root in order
+const PATH_ALIASES: Record<string, string[]> = {
+    '@/': ['src/', ''],
+    '~/': ['src/', ''],
+};
+
+export interface SymbolReference {
+    path: string;
+    line: number;
+}
+
+export interface FileImporter {
+    path: string;
+    line: number;
+    /** Names imported from the file, `default` and `*` included */
+    names: string[];
+    isReexport: boolean;
+}
+
+/**
+ * Exported and top-level symbols of the JS/TS files of a branch, with the imports between them.
+ * Files that fail to parse keep their last indexed symbols.
+ */
+export class SymbolIndex {
+    private files = new Map<string, FileSymbols>();
+
+    get size() {
+        return this.files.size;
+    }
+
+    update(filePath: string, content: string) {
+        const symbols = getFileSymbols(filePath, content);
+        if (symbols) {
+            this.files.set(filePath, symbols);
+        }
+    }
+
+    /** Removes a file, or every file under a directory */
+    remove(filePath: string) {
+        for (const indexedPath of [...this.files.keys()]) {
+            if (isSameOrUnder(indexedPath, filePath)) {
+                this.files.delete(indexedPath);
+            }
+        }
+    }
+
+    rename(oldPath: string, newPath: string) {
+        for (const [indexedPath, fileSymbols] of [...this.files.entries()]) {
+            if (!isSameOrUnder(indexedPath, oldPath)) {
+                continue;
+            }
+            const movedPath = newPath + indexedPath.slice(oldPath.length);
+            this.files.delete(indexedPath);
+            this.files.set(movedPath, {
+                ...fileSymbols,
+                path: movedPath,
+                symbols: fileSymbols.symbols.map((symbol) => ({ ...symbol, path: movedPath })),
+            });
+        }
+    }
+
+    clear() {
+        this.files.clear();
+    }
+
+    getFile(filePath: string): FileSymbols | null {
+        return this.files.get(filePath) ?? null;
+    }
+
+    /** Symbols declared or exported under the name, or containing it when none match exactly */
+    findSymbols(name: string, kind?: CodeSymbolKind): CodeSymbol[] {
+        const all = [...this.files.values()]
+            .flatMap((file) => file.symbols)
+            .filter((symbol) => !kind || symbol.kind === kind);
+
+        let matches = all.filter(
+            (symbol) => symbol.name === name || symbol.exportNames.includes(name),
+        );
+        if (matches.length === 0) {
+            const lowerName = name.toLowerCase();
+            matches = all.filter((symbol) => symbol.name.toLowerCase().includes(lowerName));
+        }
+
+        return matches.sort(
+            (a, b) =>
+                Number(b.exportNames.length > 0) - Number(a.exportNames.length > 0) ||
+                a.path.localeCompare(b.path) ||
+                a.line - b.line,
+        );
+    }
+
+    /** Resolves relative and aliased imports to indexed files, null for packages */
+    resolveImport(fromPath: string, source: string): string | null {
+        const bases: string[] = [];
+        if (source.startsWith('.')) {
+            bases.push(path.posix.join(path.posix.dirname(fromPath), source));
+        } else {
+            for (const [alias, roots] of Object.entries(PATH_ALIASES)) {
+                if (source.startsWith(alias)) {
+                    bases.push(...roots.map((root) => root + source.slice(alias.length)));
+                }
+            }
+        }
+
+        for (const base of bases) {
+            const candidates = [
+                base,
+                ...RESOLVE_EXTENSIONS.map((extension) => base + extension),
+                ...RESOLVE_EXTENSIONS.map((extension) => `${base}/index${extension}`),
+            ];
+            const resolved = candidates.find((candidate) => this.files.has(candidate));
+            if (resolved) {
+                return resolved;
+            }
+        }
+        return null;
+    }
+
+    getImporters(filePath: string): FileImporter[] {
+        const importers: FileImporter[] = [];
+        for (const file of this.files.values()) {
+            for (const fileImport of file.imports) {
+                if (this.resolveImport(file.path, fileImport.source) !== filePath) {
+                    continue;
+                }
+                importers.push({
+                    path: file.path,
+                    line: fileImport.line,
+                    names: fileImport.specifiers.map((specifier) => specifier.imported),
+                    isReexport: fileImport.isReexport,
+                });
+            }
+        }
+        return importers.sort((a, b) => a.path.localeCompare(b.path) || a.line - b.line);
+    }
+
+    /**
+     * Where the symbol is used in its own file and in files importing it, following re-exports
+     * so imports through barrel files are found too.
+     */
+    findReferences(symbol: CodeSymbol): SymbolReference[] {
+        const references = new Map<string, SymbolReference>();
+        const addReference = (filePath: string, line: number) => {
+            references.set(`${filePath}:${line}`, { path: filePath, line });
+        };
+
+        for (const line of this.files.get(symbol.path)?.references[symbol.name] ?? []) {
+            addReference(symbol.path, line);
+        }
+
+        const queue = symbol.exportNames.map((exportName) => ({ path: symbol.path, exportName }));
+        const visited = new Set<string>();
+        while (queue.length > 0) {
+            const { path: exportPath, exportName } = queue.shift()!;
+            const key = `${exportPath}#${exportName}`;
+            if (visited.has(key)) {
+                continue;
+            }
+            visited.add(key);
+
+            for (const file of this.files.values()) {
+                for (const fileImport of file.imports) {
+                    if (this.resolveImport(file.path, fileImport.source) !== exportPath) {
+                        continue;
+                    }
+                    for (const specifier of fileImport.specifiers) {
+                        if (fileImport.isReexport && specifier.imported === '*') {
+                            if (specifier.local === '*') {
+                                queue.push({ path: file.path, exportName });
+                            }
+                            continue;
+                        }
+                        if (specifier.imported !== exportName) {
+                            continue;
+                        }
+                        addReference(file.path, fileImport.line);
+                        if (fileImport.isReexport) {
+                            queue.push({ path: file.path, exportName: specifier.local });
+                            continue;
+                        }
+                        for (const line of file.references[specifier.local] ?? []) {
+                            addReference(file.path, line);
+                        }
+                    }
+                }
+            }
+        }
+
+        return [...references.values()].sort(
+            (a, b) => a.path.localeCompare(b.path) || a.line - b.line,
+        );
+    }
+}
+
+function isSameOrUnder(filePath: string, dirPath: string) {
+    return filePath === dirPath || filePath.startsWith(`${dirPath}/`);
+}
@@ -1,12 +1,25 @@
-import type { DomElement, DomElementStyles, Font } from '@onlook/models';
+import type {
+    ActionTarget,
+    ClassSegment,
+    CodeDiffRequest,
+    DomElement,
+    DomElementStyles,
+    Font,
+} from '@onlook/models';
 import {
     type Change,
     type StyleActionTarget,
     type UpdateStyleAction,
 } from '@onlook/models/actions';
-import { StyleChangeType, type StyleChange } from '@onlook/models/style';
-import { convertFontString } from '@onlook/utility';
-import { makeAutoObservable, reaction } from 'mobx';
+import {
+    PseudoState,
+    StyleChangeType,
+    type Breakpoint,
+    type StyleChange,
+} from '@onlook/models/style';
+import { toast } from '@onlook/ui/sonner';
+import { convertFontString, getBreakpointForWidth, getBreakpointVariant } from '@onlook/utility';
+import { makeAutoObservable, reaction, runInAction } from 'mobx';
 import type { CSSProperties } from 'react';
 import type { EditorEngine } from '../engine';
 
@@ -26,6 +39,15 @@ export class StyleManager {
     domIdToStyle = new Map<string, SelectedStyle>();
     prevSelected = '';
     mode: StyleMode = StyleMode.Root;
+    // Style changes are written for this state, which is forced on the selected elements
+    state: PseudoState = PseudoState.Default;
+    private forcedTargets: Pick<ActionTarget, 'frameId' | 'domId'>[] = [];
+    // Style changes are written for the breakpoint of the frame they are made in
+    responsive = false;
+    // Parts of the className of the first selected element, as written in code
+    selectedClassSegments: ClassSegment[] = [];
+    // Classes of the segments that can be edited
+    selectedClasses: string[] = [];
     private selectedElementsReactionDisposer?: () => void;
 
     constructor(private editorEngine: EditorEngine) {
@@ -56,6 +78,115 @@ export class StyleManager {
         this.updateStyleNoAction(styles);
     }
 
+    async setState(state: PseudoState) {
+        this.state = state;
+        const selected = this.editorEngine.elements.selected;
+        const domEls = await this.forceState(
+            selected,
+            state === PseudoState.Default ? null : state,
+        );
+        if (domEls.length > 0) {
+            // Refreshes the selected styles with the ones of the state
+            this.editorEngine.elements.click(domEls);
+        }
+    }
+
+    setResponsive(responsive: boolean) {
+        this.responsive = responsive;
+    }
+
+    /** Breakpoint the frame's width falls in, null below the smallest breakpoint */
+    getBreakpoint(frameId: string): Breakpoint | null {
+        const frameData = this.editorEngine.frames.get(frameId);
+        if (!frameData) {
+            return null;
+        }
+        return getBreakpointForWidth(
+            frameData.frame.dimension.width,
+            this.editorEngine.theme.breakpoints,
+        );
+    }
+
+    /** Variant style changes in the frame are written with, such as `md` or `max-sm` */
+    getBreakpointVariant(frameId: string): string | null {
+        const frameData = this.editorEngine.frames.get(frameId);
+        if (!frameData) {
+            return null;
+        }
+        return getBreakpointVariant(
+            frameData.frame.dimension.width,
+            this.editorEngine.theme.breakpoints,
+        );
+    }
+
+    async loadSelectedClasses() {
+        const selectedEl = this.editorEngine.elements.selected[0];
+        const oid = selectedEl ? this.getTargetOid(selectedEl) : null;
+        const segments = oid ? await this.editorEngine.templateNodes.getClassSegments(oid) : null;
+        runInAction(() => {
+            if (this.editorEngine.elements.selected[0] !== selectedEl) {
+                return;
+            }
+            this.selectedClassSegments = segments ?? [];
+            this.selectedClasses = this.selectedClassSegments
+                .filter((segment) => segment.editable)
+                .flatMap((segment) => segment.classes);
+        });
+    }
+
+    /** Removes the classes, such as the overrides of a breakpoint, from the selected elements */
+    async removeClasses(classes: string[]) {
+        const requests: CodeDiffRequest[] = this.editorEngine.elements.selected
+            .map((selectedEl) => this.getTargetOid(selectedEl))
+            .filter((oid): oid is string => !!oid)
+            .map((oid) => ({
+                oid,
+                attributes: {},
+                textContent: null,
+                overrideClasses: null,
+                removeClasses: classes,
+                structureChanges: [],
+            }));
+        try {
+            // Written as code so removing them is undone like other style edits
+            const diffs = await this.editorEngine.code.getCodeDiffs(requests);
+            if (diffs.length > 0) {
+                await this.editorEngine.action.run({ type: 'write-code', diffs });
+            }
+        } catch (error) {
+            console.error('Error removing classes:', error);
+            toast.error('Failed to remove classes', {
+                description: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+        await this.loadSelectedClasses();
+    }
+
+    private getTargetOid(selectedEl: DomElement): string | null {
+        return this.mode === StyleMode.Instance ? selectedEl.instanceId : selectedEl.oid;
+    }
+
+    private async forceState(
+        targets: Pick<ActionTarget, 'frameId' | 'domId'>[],
+        state: PseudoState | null,
+    ): Promise<DomElement[]> {
+        this.forcedTargets = state
+            ? targets.map(({ frameId, domId }) => ({ frameId, domId }))
+            : [];
+        const domEls: DomElement[] = [];
+        for (const { frameId, domId } of targets) {
+            const view = this.editorEngine.frames.get(frameId)?.view;
+            if (!view) {
+                continue;
+            }
+            const domEl = await view.forceState(domId, state);
+            if (domEl) {
+                domEls.push(domEl);
+            }
+        }
+        return domEls;
+    }
+
     updateFontFamily(style: string, value: Font) {
         const styleObj = { [style]: value.id };
         const action = this.getUpdateStyleAction(styleObj);
@@ -128,11 +259,17 @@ export class StyleManager {
                     ]),
                 ),
             };
+            const breakpoint = this.responsive
+                ? this.getBreakpointVariant(selectedEl.frameId)
+                : null;
             const target: StyleActionTarget = {
                 frameId: selectedEl.frameId,
                 domId: selectedEl.domId,
-                oid: this.mode === StyleMode.Instance ? selectedEl.instanceId : selectedEl.oid,
+                oid: this.getTargetOid(selectedEl),
                 change: change,
+                ...(this.state !== PseudoState.Default && { state: this.state }),
+                ...(breakpoint && { breakpoint }),
+                ...(selectedEl.classes && { runtimeClasses: selectedEl.classes }),
             };
             return target;
         });
@@ -167,6 +304,15 @@ export class StyleManager {
             .join();
         if (newSelected !== this.prevSelected) {
             this.mode = StyleMode.Root;
+            this.selectedClassSegments = [];
+            this.selectedClasses = [];
+            if (selectedElements.length > 0) {
+                void this.loadSelectedClasses();
+            }
+            if (this.state !== PseudoState.Default) {
+                this.state = PseudoState.Default;
+                void this.forceState(this.forcedTargets, null);
+            }
         }
         this.prevSelected = newSelected;
 
@@ -199,5 +345,10 @@ export class StyleManager {
         this.domIdToStyle = new Map();
         this.prevSelected = '';
         this.mode = StyleMode.Root;
+        this.state = PseudoState.Default;
+        this.forcedTargets = [];
+        this.responsive = false;
+        this.selectedClassSegments = [];
+        this.selectedClasses = [];
     }
 }
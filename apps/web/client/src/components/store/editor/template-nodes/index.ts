@@ -1,12 +1,13 @@
 'use client';
 
-import { RouterType, type TemplateNode } from '@onlook/models';
+import { RouterType, type ClassSegment, type TemplateNode } from '@onlook/models';
 import {
     addOidsToAst,
     createTemplateNodeMap,
     getAstFromContent,
     getContentFromAst,
     getContentFromTemplateNode,
+    getElementClassSegments,
     getTemplateNodeChild,
     injectPreloadScript,
 } from '@onlook/parser';
@@ -175,6 +176,23 @@ export class TemplateNodeManager {
     }
 
     async getCodeBlock(oid: string): Promise<string | null> {
+        const file = await this.readTemplateNodeFile(oid);
+        if (!file) {
+            return null;
+        }
+        return await getContentFromTemplateNode(file.templateNode, file.content);
+    }
+
+    /** Segments of the element's className, with the variants defined in its file */
+    async getClassSegments(oid: string): Promise<ClassSegment[] | null> {
+        const file = await this.readTemplateNodeFile(oid);
+        const ast = file ? getAstFromContent(file.content) : null;
+        return ast ? getElementClassSegments(ast, oid) : null;
+    }
+
+    private async readTemplateNodeFile(
+        oid: string,
+    ): Promise<{ templateNode: TemplateNode; content: string } | null> {
         const templateNode = this.getTemplateNode(oid);
         if (!templateNode) {
             console.error(`No template node found for oid ${oid}`);
@@ -198,7 +216,7 @@ export class TemplateNodeManager {
             return null;
         }
 
-        return await getContentFromTemplateNode(templateNode, file.content);
+        return { templateNode, content: file.content };
     }
 
     getBranchTemplateNodes(branchId: string): Map<string, TemplateNode> {
@@ -10,7 +10,7 @@ import type {
 } from '@onlook/models/assets';
 import { SystemTheme } from '@onlook/models/assets';
 import type { CodeDiffRequest } from '@onlook/models/code';
-import type { TailwindColor } from '@onlook/models/style';
+import type { Breakpoint, TailwindColor } from '@onlook/models/style';
 import {
     generate,
     getAstFromContent,
@@ -21,7 +21,7 @@ import {
     traverse
 } from '@onlook/parser';
 import { getOidFromJsxElement } from '@onlook/parser/src/code-edit/helpers';
-import { Color } from '@onlook/utility';
+import { Color, DEFAULT_BREAKPOINTS, getBreakpointsFromScreens } from '@onlook/utility';
 import { camelCase } from 'lodash';
 import { makeAutoObservable } from 'mobx';
 import type { EditorEngine } from '../engine';
@@ -30,6 +30,8 @@ import {
     addTailwindNestedColor,
     addTailwindRootColor,
     extractColorsFromTailwindConfig,
+    extractScreensFromTailwindConfig,
+    extractTailwindCssBreakpoints,
     extractTailwindCssVariables,
     isValidTailwindConfigProperty,
     modifyTailwindConfig,
@@ -44,6 +46,7 @@ interface ColorValue {
 export class ThemeManager {
     private brandColors: Record<string, TailwindColor[]> = {};
     private defaultColors: Record<string, TailwindColor[]> = {};
+    breakpoints: Breakpoint[] = DEFAULT_BREAKPOINTS;
     private configPath: string | null = null;
     private cssPath: string | null = null;
 
@@ -681,6 +684,33 @@ export class ThemeManager {
         return { configPath, cssPath };
     }
 
+    // Reads the screens from the Tailwind config, or from the `@theme` of the CSS with Tailwind v4
+    async scanBreakpoints() {
+        try {
+            const { configPath, cssPath } = this.getConfigPath();
+            let screens: Record<string, string> = Object.fromEntries(
+                DEFAULT_BREAKPOINTS.map((breakpoint) => [breakpoint.name, `${breakpoint.minWidth}px`]),
+            );
+
+            const configFile = configPath
+                ? await this.editorEngine.activeSandbox.readFile(configPath)
+                : null;
+            if (configFile && configFile.type === 'text') {
+                const config = extractScreensFromTailwindConfig(configFile.content);
+                screens = { ...(config.screens ?? screens), ...config.extend };
+            }
+
+            const cssFile = cssPath ? await this.editorEngine.activeSandbox.readFile(cssPath) : null;
+            if (cssFile && cssFile.type === 'text') {
+                screens = { ...screens, ...extractTailwindCssBreakpoints(cssFile.content) };
+            }
+
+            this.breakpoints = getBreakpointsFromScreens(screens);
+        } catch (error) {
+            console.error('Error scanning Tailwind breakpoints:', error);
+        }
+    }
+
     async scanTailwindConfig() {
         try {
             const { configPath, cssPath } = this.getConfigPath();
@@ -1204,5 +1234,6 @@ export class ThemeManager {
     clear() {
         this.brandColors = {};
         this.defaultColors = {};
+        this.breakpoints = DEFAULT_BREAKPOINTS;
     }
 }
@@ -371,6 +371,62 @@ export function extractColorsFromTailwindConfig(fileContent: string): Record<str
     }
 }
 
+/**
+ * Screens of a Tailwind config. `theme.screens` replaces the default screens while
+ * `theme.extend.screens` adds to them.
+ */
+export function extractScreensFromTailwindConfig(fileContent: string): {
+    screens: Record<string, string> | null;
+    extend: Record<string, string>;
+} {
+    const result: { screens: Record<string, string> | null; extend: Record<string, string> } = {
+        screens: null,
+        extend: {},
+    };
+    try {
+        const ast = getAstFromContent(fileContent);
+        if (!ast) {
+            throw new Error(`Failed to parse file in extractScreensFromTailwindConfig`);
+        }
+
+        traverse(ast, {
+            ObjectProperty(path) {
+                if (!isValidTailwindConfigProperty(path.node, 'screens')) {
+                    return;
+                }
+                const screens: Record<string, string> = {};
+                const entries: Record<string, { value?: unknown }> = extractObject(path.node.value);
+                for (const [name, screen] of Object.entries(entries)) {
+                    if (typeof screen.value === 'string') {
+                        screens[name] = screen.value;
+                    }
+                }
+                // The screens object sits in the `theme` or `extend` object property
+                const owner = path.parentPath.parentPath?.node as T.ObjectProperty | undefined;
+                if (owner && isValidTailwindConfigProperty(owner, 'extend')) {
+                    result.extend = screens;
+                } else if (owner && isValidTailwindConfigProperty(owner, 'theme')) {
+                    result.screens = screens;
+                }
+            },
+        });
+    } catch (error) {
+        console.error('Error parsing Tailwind screens:', error);
+    }
+    return result;
+}
+
+// Tailwind v4 declares screens as `--breakpoint-*` variables in an `@theme` block
+export function extractTailwindCssBreakpoints(content: string): Record<string, string> {
+    const breakpoints: Record<string, string> = {};
+    postcss.parse(content).walkAtRules('theme', (atRule) => {
+        atRule.walkDecls(/^--breakpoint-/, (decl) => {
+            breakpoints[decl.prop.slice('--breakpoint-'.length)] = decl.value;
+        });
+    });
+    return breakpoints;
+}
+
 /**
  * Check if the property is a valid tailwind config property
  * @param prop - The property to check
@@ -4,11 +4,23 @@ import {
     ALLOWED_BASH_READ_COMMANDS,
     BASH_EDIT_TOOL_PARAMETERS,
     BASH_READ_TOOL_PARAMETERS,
+    parseCommand,
     TERMINAL_COMMAND_TOOL_PARAMETERS,
     TYPECHECK_TOOL_PARAMETERS
 } from '@onlook/ai';
 import { z } from 'zod';
 
+// Every command in a pipeline or chain has to be allowed, not just the first one
+function findDisallowedCommand(command: string, allowedCommands: readonly string[]): string | null {
+    for (const { argv } of parseCommand(command).commands) {
+        const name = argv[0]?.split('/').pop() ?? '';
+        if (!allowedCommands.includes(name)) {
+            return name;
+        }
+    }
+    return null;
+}
+
 export async function handleTerminalCommandTool(
     args: z.infer<typeof TERMINAL_COMMAND_TOOL_PARAMETERS>,
     editorEngine: EditorEngine,
@@ -45,14 +57,12 @@ export async function handleBashReadTool(args: z.infer<typeof BASH_READ_TOOL_PAR
 
         // Use allowed commands from parameter or default to all enum values
         const readOnlyCommands = args.allowed_commands || ALLOWED_BASH_READ_COMMANDS.options;
-        const commandParts = args.command.trim().split(/\s+/);
-        const baseCommand = commandParts[0] || '';
-
-        if (!readOnlyCommands.some(cmd => baseCommand.includes(cmd))) {
+        const disallowed = findDisallowedCommand(args.command, readOnlyCommands);
+        if (disallowed !== null) {
             return {
                 output: '',
                 success: false,
-                error: `Command '${baseCommand}' is not allowed in read-only mode. Only ${readOnlyCommands.join(', ')} commands are permitted.`
+                error: `Command '${disallowed}' is not allowed in read-only mode. Only ${readOnlyCommands.join(', ')} commands are permitted.`
             };
         }
 
@@ -88,15 +98,12 @@ export async function handleBashEditTool(args: z.infer<typeof BASH_EDIT_TOOL_PAR
 
         // Use allowed commands from parameter or default to all enum values
         const editCommands = args.allowed_commands || ALLOWED_BASH_EDIT_COMMANDS.options;
-        const commandParts = args.command.trim().split(/\s+/);
-        const baseCommand = commandParts[0] || '';
-
-        const isEditCommand = editCommands.some(cmd => baseCommand.includes(cmd));
-        if (!isEditCommand) {
+        const disallowed = findDisallowedCommand(args.command, editCommands);
+        if (disallowed !== null) {
             return {
                 output: '',
                 success: false,
-                error: `Command '${baseCommand}' is not allowed in edit mode. Only ${editCommands.join(', ')} commands are permitted.`
+                error: `Command '${disallowed}' is not allowed in edit mode. Only ${editCommands.join(', ')} commands are permitted.`
             };
         }
 
@@ -36,7 +36,7 @@ export async function handleSearchReplaceEditFileTool(args: z.infer<typeof SEARC
             newContent = file.content.replace(args.old_string, args.new_string);
         }
 
-        const result = await sandbox.writeFile(args.file_path, newContent);
+        const result = await editorEngine.chat.review.writeFile(args.branchId, args.file_path, newContent);
         if (!result) {
             throw new Error(`Failed to write file ${args.file_path}`);
         }
@@ -97,7 +97,7 @@ export async function handleSearchReplaceMultiEditFileTool(args: z.infer<typeof
             }
         }
 
-        const result = await sandbox.writeFile(args.file_path, content);
+        const result = await editorEngine.chat.review.writeFile(args.branchId, args.file_path, content);
         if (!result) {
             throw new Error(`Failed to write file ${args.file_path}`);
         }
@@ -114,7 +114,7 @@ export async function handleWriteFileTool(args: z.infer<typeof WRITE_FILE_TOOL_P
         if (!sandbox) {
             throw new Error(`Sandbox not found for branch ID: ${args.branchId}`);
         }
-        const result = await sandbox.writeFile(args.file_path, args.content);
+        const result = await editorEngine.chat.review.writeFile(args.branchId, args.file_path, args.content);
         if (!result) {
             throw new Error(`Failed to write file ${args.file_path}`);
         }
@@ -161,9 +161,12 @@ export async function handleFuzzyEditFileTool(
         throw new Error('Error applying code change: ' + updatedContent.error);
     }
 
-    const result = await sandbox.writeFile(args.file_path, updatedContent.result);
+    const result = await editorEngine.chat.review.writeFile(args.branchId, args.file_path, updatedContent.result);
     if (!result) {
         throw new Error('Error editing file');
     }
+    if (updatedContent.provider === 'local' && updatedContent.confidence !== null) {
+        return `File edited! Merged locally with ${Math.round(updatedContent.confidence * 100)}% confidence.`;
+    }
     return 'File edited!';
 }
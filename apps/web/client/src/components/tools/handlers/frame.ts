@@ -0,0 +1,213 @@
+import type { IFrameView } from '@/app/project/[id]/_components/canvas/frame/view';
+import type { EditorEngine } from '@/components/store/editor/engine';
+import type { FrameData } from '@/components/store/editor/frames';
+import {
+    type GET_COMPUTED_STYLES_TOOL_PARAMETERS,
+    type GET_LAYER_TREE_TOOL_PARAMETERS,
+    type SCREENSHOT_FRAME_TOOL_PARAMETERS,
+} from '@onlook/ai';
+import type { Frame, FrameScreenshotResult, LayerNode } from '@onlook/models';
+import { type z } from 'zod';
+
+const FRAME_READY_TIMEOUT_MS = 15000;
+const FRAME_READY_POLL_MS = 250;
+const MAX_LAYER_NODES = 500;
+const MAX_TEXT_LENGTH = 40;
+
+const DEFAULT_STYLE_PROPERTIES = [
+    'display',
+    'position',
+    'top',
+    'right',
+    'bottom',
+    'left',
+    'width',
+    'height',
+    'min-width',
+    'min-height',
+    'max-width',
+    'max-height',
+    'margin',
+    'padding',
+    'box-sizing',
+    'flex-direction',
+    'flex-wrap',
+    'justify-content',
+    'align-items',
+    'gap',
+    'grid-template-columns',
+    'grid-template-rows',
+    'font-family',
+    'font-size',
+    'font-weight',
+    'line-height',
+    'letter-spacing',
+    'text-align',
+    'color',
+    'background-color',
+    'background-image',
+    'border',
+    'border-radius',
+    'box-shadow',
+    'opacity',
+    'overflow',
+    'z-index',
+    'visibility',
+    'transform',
+];
+
+export async function handleScreenshotFrameTool(
+    args: z.infer<typeof SCREENSHOT_FRAME_TOOL_PARAMETERS>,
+    editorEngine: EditorEngine,
+): Promise<FrameScreenshotResult> {
+    const { frame, view } = await getReadyFrame(args, editorEngine);
+    const screenshot = await view.captureScreenshot();
+    if (!screenshot?.data) {
+        throw new Error(`Failed to capture a screenshot of frame ${frame.id}`);
+    }
+
+    return {
+        frameId: frame.id,
+        url: view.src,
+        mimeType: screenshot.mimeType,
+        // The preload returns a data URL, the model only takes the base64 part
+        data: screenshot.data.replace(/^data:[^,]*;base64,/, ''),
+    };
+}
+
+export async function handleGetLayerTreeTool(
+    args: z.infer<typeof GET_LAYER_TREE_TOOL_PARAMETERS>,
+    editorEngine: EditorEngine,
+): Promise<string> {
+    const { view } = await getReadyFrame(args, editorEngine);
+    const result = await view.getLayerTree(args.oid);
+    if (!result) {
+        throw new Error(
+            args.oid ? `No element with OID ${args.oid} is rendered` : 'The page has no layers yet',
+        );
+    }
+
+    const layers = new Map(result.layerMap);
+    const lines: string[] = [];
+    const visit = (domId: string, depth: number) => {
+        const node = layers.get(domId);
+        if (!node || lines.length >= MAX_LAYER_NODES) {
+            return;
+        }
+        lines.push(`${'  '.repeat(depth)}${formatLayer(node)}`);
+        if (args.max_depth !== undefined && depth >= args.max_depth) {
+            return;
+        }
+        for (const childId of node.children ?? []) {
+            visit(childId, depth + 1);
+        }
+    };
+    visit(result.rootDomId, 0);
+
+    if (lines.length >= MAX_LAYER_NODES) {
+        lines.push(`... truncated at ${MAX_LAYER_NODES} elements, pass an oid or max_depth`);
+    }
+    return lines.join('\n');
+}
+
+export async function handleGetComputedStylesTool(
+    args: z.infer<typeof GET_COMPUTED_STYLES_TOOL_PARAMETERS>,
+    editorEngine: EditorEngine,
+): Promise<string> {
+    const { view } = await getReadyFrame(args, editorEngine);
+    const styles = await view.getComputedStyleByOid(args.oid);
+    if (!styles) {
+        throw new Error(`No element with OID ${args.oid} is rendered`);
+    }
+
+    const properties = args.properties?.length ? args.properties : DEFAULT_STYLE_PROPERTIES;
+    return properties
+        .map((property) => `${property}: ${styles[property] ?? '(not set)'}`)
+        .join('\n');
+}
+
+/**
+ * Picks the frame to read from and, when a route is given, navigates it there
+ * and waits for the page to load before the preload is queried.
+ */
+async function getReadyFrame(
+    args: { frame_id?: string; route?: string; branchId: string },
+    editorEngine: EditorEngine,
+): Promise<{ frame: Frame; view: IFrameView }> {
+    const frameData = selectFrame(args, editorEngine);
+    const frameId = frameData.frame.id;
+    if (args.route && getPathname(frameData.view?.src) !== args.route) {
+        await editorEngine.frames.navigateToPath(frameId, args.route);
+    }
+
+    const startTime = Date.now();
+    while (Date.now() - startTime < FRAME_READY_TIMEOUT_MS) {
+        const view = editorEngine.frames.get(frameId)?.view;
+        if (
+            view &&
+            !view.isLoading() &&
+            (!args.route || getPathname(view.src) === args.route) &&
+            (await view.getTheme()) !== null
+        ) {
+            return { frame: frameData.frame, view };
+        }
+        await new Promise((resolve) => setTimeout(resolve, FRAME_READY_POLL_MS));
+    }
+    throw new Error(`Frame ${frameId} did not finish loading ${args.route ?? 'the page'} in time`);
+}
+
+function selectFrame(
+    args: { frame_id?: string; route?: string; branchId: string },
+    editorEngine: EditorEngine,
+): FrameData {
+    const frames = editorEngine.frames.getByBranchId(args.branchId).filter((frameData) => frameData.view);
+    if (args.frame_id) {
+        const frame = frames.find((frameData) => frameData.frame.id === args.frame_id);
+        if (!frame) {
+            throw new Error(`Frame ${args.frame_id} not found on branch ${args.branchId}`);
+        }
+        return frame;
+    }
+
+    const frame =
+        frames.find((frameData) => args.route && getPathname(frameData.view?.src) === args.route) ??
+        frames.find((frameData) => frameData.selected) ??
+        frames[0];
+    if (!frame) {
+        throw new Error(`No loaded frame found for branch ID: ${args.branchId}`);
+    }
+    return frame;
+}
+
+function getPathname(url: string | undefined): string | null {
+    try {
+        return url ? new URL(url).pathname : null;
+    } catch {
+        return null;
+    }
+}
+
+function formatLayer(node: LayerNode): string {
+    const parts = [node.tagName.toLowerCase()];
+    if (node.component) {
+        parts.push(`(${node.component})`);
+    }
+    if (node.oid) {
+        parts.push(`oid=${node.oid}`);
+    }
+    if (node.instanceId) {
+        parts.push(`instance=${node.instanceId}`);
+    }
+    if (!node.isVisible) {
+        parts.push('hidden');
+    }
+    const text = node.textContent.trim().replace(/\s+/g, ' ');
+    if (text) {
+        parts.push(
+            JSON.stringify(
+                text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}...` : text,
+            ),
+        );
+    }
+    return parts.join(' ');
+}
@@ -1,11 +1,15 @@
 export * from './cli';
 export * from './edit';
 export * from './errors';
+export * from './frame';
 export * from './glob';
 export * from './grep';
 export * from './guide';
 export * from './helpers';
+export * from './mcp';
 export * from './plan';
 export * from './read';
 export * from './sandbox';
+export * from './symbols';
+export * from './task';
 export * from './web';
@@ -0,0 +1,43 @@
+import type { EditorEngine } from '@/components/store/editor/engine';
+import { api } from '@/trpc/client';
+import {
+    type GET_MCP_PROMPT_TOOL_PARAMETERS,
+    type READ_MCP_RESOURCE_TOOL_PARAMETERS,
+} from '@onlook/ai';
+import { type z } from 'zod';
+
+/** Runs a tool of one of the project's MCP servers, by its namespaced name */
+export async function handleMcpTool(
+    toolName: string,
+    args: unknown,
+    editorEngine: EditorEngine,
+): Promise<string> {
+    return api.mcp.callTool.mutate({
+        projectId: editorEngine.projectId,
+        name: toolName,
+        arguments: args,
+    });
+}
+
+export async function handleReadMcpResourceTool(
+    args: z.infer<typeof READ_MCP_RESOURCE_TOOL_PARAMETERS>,
+    editorEngine: EditorEngine,
+): Promise<string> {
+    return api.mcp.readResource.mutate({
+        projectId: editorEngine.projectId,
+        server: args.server,
+        uri: args.uri,
+    });
+}
+
+export async function handleGetMcpPromptTool(
+    args: z.infer<typeof GET_MCP_PROMPT_TOOL_PARAMETERS>,
+    editorEngine: EditorEngine,
+): Promise<string> {
+    return api.mcp.getPrompt.mutate({
+        projectId: editorEngine.projectId,
+        server: args.server,
+        name: args.name,
+        arguments: args.arguments,
+    });
+}
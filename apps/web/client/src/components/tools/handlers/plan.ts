@@ -5,18 +5,21 @@ import {
 } from '@onlook/ai';
 import { z } from 'zod';
 
-export async function handleTodoWriteTool(args: z.infer<typeof TODO_WRITE_TOOL_PARAMETERS>, editorEngine: EditorEngine): Promise<string> {
-    console.log('Todo list updated:');
-    args.todos.forEach(todo => {
-        console.log(`[${todo.status.toUpperCase()}] ${todo.content} (${todo.priority})`);
-    });
+export async function handleTodoWriteTool(args: z.infer<typeof TODO_WRITE_TOOL_PARAMETERS>): Promise<string> {
+    const completed = args.todos.filter((todo) => todo.status === 'completed').length;
+    const inProgress = args.todos.find((todo) => todo.status === 'in_progress');
 
-    return `Todo list updated with ${args.todos.length} items`;
+    let result = `Todo list updated: ${completed}/${args.todos.length} completed`;
+    if (inProgress) {
+        result += `, in progress: ${inProgress.content}`;
+    }
+    return result;
 }
 
 export async function handleExitPlanModeTool(args: z.infer<typeof EXIT_PLAN_MODE_TOOL_PARAMETERS>, editorEngine: EditorEngine): Promise<string> {
-    console.log('Exiting plan mode with plan:');
-    console.log(args.plan);
-
-    return 'Exited plan mode, ready to implement';
+    const approved = await editorEngine.chat.plan.requestApproval(args.plan);
+    if (!approved) {
+        return 'The user rejected the plan. Stay in plan mode and ask what they would like to change before proposing a new plan.';
+    }
+    return 'The user approved the plan and editing tools are now available. Implement the plan step by step, keeping the todo list up to date.';
 }
@@ -0,0 +1,133 @@
+import type { EditorEngine } from '@/components/store/editor/engine';
+import { normalizePath } from '@/components/store/editor/sandbox/helpers';
+import type { SymbolIndex } from '@/components/store/editor/sandbox/symbol-index';
+import {
+    type FIND_REFERENCES_TOOL_PARAMETERS,
+    type FIND_SYMBOL_TOOL_PARAMETERS,
+    type GET_COMPONENT_PROPS_TOOL_PARAMETERS,
+    type LIST_IMPORTERS_TOOL_PARAMETERS,
+} from '@onlook/ai';
+import { CodeSymbolKind, type CodeSymbol } from '@onlook/models';
+import { type z } from 'zod';
+
+const MAX_SYMBOL_RESULTS = 50;
+
+export async function handleFindSymbolTool(
+    args: z.infer<typeof FIND_SYMBOL_TOOL_PARAMETERS>,
+    editorEngine: EditorEngine,
+): Promise<string> {
+    const symbols = getSymbolIndex(args.branchId, editorEngine).findSymbols(args.name, args.kind);
+    if (symbols.length === 0) {
+        return `No symbols found matching "${args.name}"`;
+    }
+
+    const lines = symbols.slice(0, MAX_SYMBOL_RESULTS).map(formatSymbol);
+    if (symbols.length > MAX_SYMBOL_RESULTS) {
+        lines.push(`... and ${symbols.length - MAX_SYMBOL_RESULTS} more, use a more specific name`);
+    }
+    return lines.join('\n');
+}
+
+export async function handleFindReferencesTool(
+    args: z.infer<typeof FIND_REFERENCES_TOOL_PARAMETERS>,
+    editorEngine: EditorEngine,
+): Promise<string> {
+    const index = getSymbolIndex(args.branchId, editorEngine);
+    const symbol = selectSymbol(index, args.name, args.file_path);
+    const references = index.findReferences(symbol);
+    if (references.length === 0) {
+        return `No references to ${symbol.name} found (declared at ${symbol.path}:${symbol.line})`;
+    }
+
+    const linesByPath = new Map<string, number[]>();
+    for (const reference of references) {
+        linesByPath.set(reference.path, [...(linesByPath.get(reference.path) ?? []), reference.line]);
+    }
+    return [
+        `References to ${symbol.name} (declared at ${symbol.path}:${symbol.line}):`,
+        ...[...linesByPath.entries()].map(([path, lines]) => `${path}: ${lines.join(', ')}`),
+    ].join('\n');
+}
+
+export async function handleGetComponentPropsTool(
+    args: z.infer<typeof GET_COMPONENT_PROPS_TOOL_PARAMETERS>,
+    editorEngine: EditorEngine,
+): Promise<string> {
+    const index = getSymbolIndex(args.branchId, editorEngine);
+    const component = selectSymbol(index, args.name, args.file_path, CodeSymbolKind.COMPONENT);
+    const header = `${component.name} (${component.path}:${component.line})`;
+    if (!component.props?.length) {
+        return `${header} takes no props, or its props are not declared in the same file`;
+    }
+
+    return [
+        header,
+        ...component.props.map(
+            (prop) =>
+                `- ${prop.name}${prop.required ? '' : '?'}: ${prop.type ?? 'unknown'}${prop.defaultValue ? ` = ${prop.defaultValue}` : ''}`,
+        ),
+    ].join('\n');
+}
+
+export async function handleListImportersTool(
+    args: z.infer<typeof LIST_IMPORTERS_TOOL_PARAMETERS>,
+    editorEngine: EditorEngine,
+): Promise<string> {
+    const filePath = normalizePath(args.file_path);
+    const importers = getSymbolIndex(args.branchId, editorEngine).getImporters(filePath);
+    if (importers.length === 0) {
+        return `No files import ${filePath}`;
+    }
+
+    return importers
+        .map((importer) => {
+            const action = importer.isReexport ? 're-exports' : 'imports';
+            const names = importer.names.length > 0 ? importer.names.join(', ') : 'for side effects';
+            return `${importer.path}:${importer.line} ${action} ${names}`;
+        })
+        .join('\n');
+}
+
+function getSymbolIndex(branchId: string, editorEngine: EditorEngine): SymbolIndex {
+    const sandbox = editorEngine.branches.getSandboxById(branchId);
+    if (!sandbox) {
+        throw new Error(`Sandbox not found for branch ID: ${branchId}`);
+    }
+    if (!sandbox.isIndexed) {
+        throw new Error('The project is still being indexed, use grep or glob until it is done');
+    }
+    return sandbox.symbols;
+}
+
+/** The one symbol with exactly this name, narrowed down by file when several share it */
+function selectSymbol(
+    index: SymbolIndex,
+    name: string,
+    filePath?: string,
+    kind?: CodeSymbolKind,
+): CodeSymbol {
+    const path = filePath ? normalizePath(filePath) : null;
+    const candidates = index
+        .findSymbols(name, kind)
+        .filter((symbol) => symbol.name === name || symbol.exportNames.includes(name))
+        .filter((symbol) => !path || symbol.path === path);
+
+    const description = kind ?? 'symbol';
+    if (candidates.length === 0) {
+        throw new Error(`No ${description} named "${name}" found${path ? ` in ${path}` : ''}`);
+    }
+    if (candidates.length > 1) {
+        throw new Error(
+            `Several ${description}s are named "${name}", pass file_path to pick one:\n${candidates.map(formatSymbol).join('\n')}`,
+        );
+    }
+    return candidates[0]!;
+}
+
+function formatSymbol(symbol: CodeSymbol): string {
+    const exported =
+        symbol.exportNames.length > 0
+            ? `exported as ${symbol.exportNames.join(', ')}`
+            : 'not exported';
+    return `${symbol.path}:${symbol.line} ${symbol.kind} ${symbol.name} (${exported})`;
+}
@@ -0,0 +1,115 @@
+import { getUserChatMessageFromString } from '@/app/project/[id]/_hooks/use-chat/utils';
+import type { EditorEngine } from '@/components/store/editor/engine';
+import {
+    extractTextFromParts,
+    getSubagent,
+    type TASK_TOOL_PARAMETERS,
+    type TaskToolOutput,
+} from '@onlook/ai';
+import type { ChatMessage } from '@onlook/models';
+import { DefaultChatTransport, getToolName, isToolUIPart, readUIMessageStream, type ToolSet } from 'ai';
+import { type z } from 'zod';
+
+export type RunClientTool = (
+    toolName: string,
+    input: unknown,
+    editorEngine: EditorEngine,
+    availableTools: ToolSet,
+    toolCallId?: string,
+) => Promise<unknown>;
+
+/**
+ * Runs a sub-agent to completion. The server runs one model step per request and the
+ * sub-agent's tool calls run here, like the parent's, until it answers or runs out of steps.
+ */
+export async function handleTaskTool(
+    args: z.infer<typeof TASK_TOOL_PARAMETERS>,
+    editorEngine: EditorEngine,
+    toolCallId: string,
+    runClientTool: RunClientTool,
+): Promise<TaskToolOutput> {
+    const subagent = getSubagent(args.subagent_type);
+    const conversationId = editorEngine.chat.getCurrentConversationId() ?? '';
+    const run = editorEngine.chat.subagents.start(toolCallId, {
+        type: subagent.type,
+        description: args.description,
+        maxSteps: subagent.maxSteps,
+    });
+    const transport = new DefaultChatTransport<ChatMessage>({ api: '/api/chat' });
+
+    let transcript: ChatMessage[] = [getUserChatMessageFromString(args.prompt, [], conversationId)];
+    editorEngine.chat.subagents.setTranscript(toolCallId, transcript);
+
+    try {
+        for (let step = 0; step < subagent.maxSteps; step++) {
+            const stream = await transport.sendMessages({
+                chatId: toolCallId,
+                messages: transcript,
+                abortSignal: run.abortController.signal,
+                trigger: 'submit-message',
+                messageId: undefined,
+                body: {
+                    conversationId,
+                    projectId: editorEngine.projectId,
+                    subagent: { type: subagent.type, branchId: args.branchId },
+                },
+            });
+
+            let response: ChatMessage | null = null;
+            for await (const message of readUIMessageStream<ChatMessage>({ stream })) {
+                response = message;
+                editorEngine.chat.subagents.setTranscript(toolCallId, [...transcript, message]);
+            }
+            if (!response) {
+                throw new Error('Sub-agent returned no response');
+            }
+
+            const pendingToolCalls = response.parts.filter(
+                (part) => isToolUIPart(part) && part.state === 'input-available',
+            );
+            const parts: ChatMessage['parts'] = [];
+            for (const part of response.parts) {
+                if (!isToolUIPart(part) || part.state !== 'input-available') {
+                    parts.push(part);
+                    continue;
+                }
+                const input: unknown = args.branchId ? pinBranch(part.input, args.branchId) : part.input;
+                let output: unknown;
+                try {
+                    output = await runClientTool(getToolName(part), input, editorEngine, subagent.tools, part.toolCallId);
+                } catch (error) {
+                    output = 'error handling tool call ' + String(error);
+                }
+                parts.push({ ...part, input, state: 'output-available', output } as ChatMessage['parts'][number]);
+            }
+            transcript = [...transcript, { ...response, parts }];
+            editorEngine.chat.subagents.setTranscript(toolCallId, transcript);
+
+            if (pendingToolCalls.length === 0) {
+                break;
+            }
+        }
+
+        const lastMessage = transcript[transcript.length - 1];
+        const answer = lastMessage?.role === 'assistant' ? extractTextFromParts(lastMessage.parts).trim() : '';
+        const output: TaskToolOutput = {
+            result: answer || 'The sub-agent ran out of steps before it could answer.',
+            stepsUsed: transcript.filter((message) => message.role === 'assistant').length,
+            maxSteps: subagent.maxSteps,
+            stoppedEarly: !answer,
+            transcript,
+        };
+        editorEngine.chat.subagents.finish(toolCallId, output);
+        return output;
+    } catch (error) {
+        editorEngine.chat.subagents.finish(toolCallId, null);
+        throw error;
+    }
+}
+
+function pinBranch(input: unknown, branchId: string): unknown {
+    if (input && typeof input === 'object' && 'branchId' in input) {
+        return { ...input, branchId };
+    }
+    return input;
+}
@@ -7,29 +7,54 @@ import {
     BASH_READ_TOOL_PARAMETERS,
     CHECK_ERRORS_TOOL_NAME,
     CHECK_ERRORS_TOOL_PARAMETERS,
+    EXIT_PLAN_MODE_TOOL_NAME,
+    EXIT_PLAN_MODE_TOOL_PARAMETERS,
+    FIND_REFERENCES_TOOL_NAME,
+    FIND_REFERENCES_TOOL_PARAMETERS,
+    FIND_SYMBOL_TOOL_NAME,
+    FIND_SYMBOL_TOOL_PARAMETERS,
     FUZZY_EDIT_FILE_TOOL_NAME,
-    FUZZY_EDIT_FILE_TOOL_PARAMETERS, getToolSetFromType, GLOB_TOOL_NAME,
+    FUZZY_EDIT_FILE_TOOL_PARAMETERS,
+    GET_COMPONENT_PROPS_TOOL_NAME,
+    GET_COMPONENT_PROPS_TOOL_PARAMETERS,
+    GET_COMPUTED_STYLES_TOOL_NAME,
+    GET_COMPUTED_STYLES_TOOL_PARAMETERS,
+    GET_LAYER_TREE_TOOL_NAME,
+    GET_LAYER_TREE_TOOL_PARAMETERS,
+    GET_MCP_PROMPT_TOOL_NAME,
+    GET_MCP_PROMPT_TOOL_PARAMETERS, getToolSetFromType, GLOB_TOOL_NAME,
     GLOB_TOOL_PARAMETERS,
     GREP_TOOL_NAME,
     GREP_TOOL_PARAMETERS,
+    isMcpToolName,
     LIST_BRANCHES_TOOL_NAME,
     LIST_FILES_TOOL_NAME,
     LIST_FILES_TOOL_PARAMETERS,
+    LIST_IMPORTERS_TOOL_NAME,
+    LIST_IMPORTERS_TOOL_PARAMETERS,
     ONLOOK_INSTRUCTIONS,
     ONLOOK_INSTRUCTIONS_TOOL_NAME,
     READ_FILE_TOOL_NAME,
     READ_FILE_TOOL_PARAMETERS,
+    READ_MCP_RESOURCE_TOOL_NAME,
+    READ_MCP_RESOURCE_TOOL_PARAMETERS,
     READ_STYLE_GUIDE_TOOL_NAME,
     SANDBOX_TOOL_NAME,
     SANDBOX_TOOL_PARAMETERS,
     SCRAPE_URL_TOOL_NAME,
     SCRAPE_URL_TOOL_PARAMETERS,
+    SCREENSHOT_FRAME_TOOL_NAME,
+    SCREENSHOT_FRAME_TOOL_PARAMETERS,
     SEARCH_REPLACE_EDIT_FILE_TOOL_NAME,
     SEARCH_REPLACE_EDIT_FILE_TOOL_PARAMETERS,
     SEARCH_REPLACE_MULTI_EDIT_FILE_TOOL_NAME,
     SEARCH_REPLACE_MULTI_EDIT_FILE_TOOL_PARAMETERS,
+    TASK_TOOL_NAME,
+    TASK_TOOL_PARAMETERS,
     TERMINAL_COMMAND_TOOL_NAME,
     TERMINAL_COMMAND_TOOL_PARAMETERS,
+    TODO_WRITE_TOOL_NAME,
+    TODO_WRITE_TOOL_PARAMETERS,
     TYPECHECK_TOOL_NAME,
     TYPECHECK_TOOL_PARAMETERS,
     WEB_SEARCH_TOOL_NAME,
@@ -37,35 +62,53 @@ import {
     WRITE_FILE_TOOL_NAME,
     WRITE_FILE_TOOL_PARAMETERS
 } from '@onlook/ai';
+import type { ChatType } from '@onlook/models';
 import { toast } from '@onlook/ui/sonner';
+import type { ToolSet } from 'ai';
 import { type z } from 'zod';
 import {
     handleBashEditTool,
     handleBashReadTool,
     handleCheckErrors,
+    handleExitPlanModeTool,
+    handleFindReferencesTool,
+    handleFindSymbolTool,
     handleFuzzyEditFileTool,
+    handleGetComponentPropsTool,
+    handleGetComputedStylesTool,
+    handleGetLayerTreeTool,
+    handleGetMcpPromptTool,
     handleGlobTool,
     handleGrepTool,
     handleListBranchesTool,
     handleListFilesTool,
+    handleListImportersTool,
+    handleMcpTool,
     handleReadFileTool,
+    handleReadMcpResourceTool,
     handleReadStyleGuideTool,
     handleSandboxTool,
     handleScrapeUrlTool,
+    handleScreenshotFrameTool,
     handleSearchReplaceEditFileTool,
     handleSearchReplaceMultiEditFileTool,
+    handleTaskTool,
     handleTerminalCommandTool,
+    handleTodoWriteTool,
     handleTypecheckTool,
     handleWebSearchTool,
     handleWriteFileTool
 } from './handlers';
 import { EMPTY_TOOL_PARAMETERS } from './helpers';
 
-interface ClientToolMap extends Record<string, {
+interface ClientTool {
     name: string;
-    inputSchema: z.ZodObject<any>;
-    handler: (args: any, editorEngine: EditorEngine) => Promise<any>;
-}> { }
+    inputSchema: z.ZodType;
+    // A method, so each tool's handler can declare the input its schema describes
+    handler(args: unknown, editorEngine: EditorEngine, toolCallId: string): Promise<unknown>;
+}
+
+type ClientToolMap = Record<string, ClientTool>;
 
 const TOOL_HANDLERS: ClientToolMap = {
     [ONLOOK_INSTRUCTIONS_TOOL_NAME]: {
@@ -157,6 +200,60 @@ const TOOL_HANDLERS: ClientToolMap = {
         handler: async (args: z.infer<typeof GREP_TOOL_PARAMETERS>, editorEngine: EditorEngine) =>
             handleGrepTool(args, editorEngine),
     },
+    [FIND_SYMBOL_TOOL_NAME]: {
+        name: FIND_SYMBOL_TOOL_NAME,
+        inputSchema: FIND_SYMBOL_TOOL_PARAMETERS,
+        handler: async (args: z.infer<typeof FIND_SYMBOL_TOOL_PARAMETERS>, editorEngine: EditorEngine) =>
+            handleFindSymbolTool(args, editorEngine),
+    },
+    [FIND_REFERENCES_TOOL_NAME]: {
+        name: FIND_REFERENCES_TOOL_NAME,
+        inputSchema: FIND_REFERENCES_TOOL_PARAMETERS,
+        handler: async (args: z.infer<typeof FIND_REFERENCES_TOOL_PARAMETERS>, editorEngine: EditorEngine) =>
+            handleFindReferencesTool(args, editorEngine),
+    },
+    [GET_COMPONENT_PROPS_TOOL_NAME]: {
+        name: GET_COMPONENT_PROPS_TOOL_NAME,
+        inputSchema: GET_COMPONENT_PROPS_TOOL_PARAMETERS,
+        handler: async (args: z.infer<typeof GET_COMPONENT_PROPS_TOOL_PARAMETERS>, editorEngine: EditorEngine) =>
+            handleGetComponentPropsTool(args, editorEngine),
+    },
+    [LIST_IMPORTERS_TOOL_NAME]: {
+        name: LIST_IMPORTERS_TOOL_NAME,
+        inputSchema: LIST_IMPORTERS_TOOL_PARAMETERS,
+        handler: async (args: z.infer<typeof LIST_IMPORTERS_TOOL_PARAMETERS>, editorEngine: EditorEngine) =>
+            handleListImportersTool(args, editorEngine),
+    },
+    [SCREENSHOT_FRAME_TOOL_NAME]: {
+        name: SCREENSHOT_FRAME_TOOL_NAME,
+        inputSchema: SCREENSHOT_FRAME_TOOL_PARAMETERS,
+        handler: async (args: z.infer<typeof SCREENSHOT_FRAME_TOOL_PARAMETERS>, editorEngine: EditorEngine) =>
+            handleScreenshotFrameTool(args, editorEngine),
+    },
+    [GET_LAYER_TREE_TOOL_NAME]: {
+        name: GET_LAYER_TREE_TOOL_NAME,
+        inputSchema: GET_LAYER_TREE_TOOL_PARAMETERS,
+        handler: async (args: z.infer<typeof GET_LAYER_TREE_TOOL_PARAMETERS>, editorEngine: EditorEngine) =>
+            handleGetLayerTreeTool(args, editorEngine),
+    },
+    [GET_COMPUTED_STYLES_TOOL_NAME]: {
+        name: GET_COMPUTED_STYLES_TOOL_NAME,
+        inputSchema: GET_COMPUTED_STYLES_TOOL_PARAMETERS,
+        handler: async (args: z.infer<typeof GET_COMPUTED_STYLES_TOOL_PARAMETERS>, editorEngine: EditorEngine) =>
+            handleGetComputedStylesTool(args, editorEngine),
+    },
+    [READ_MCP_RESOURCE_TOOL_NAME]: {
+        name: READ_MCP_RESOURCE_TOOL_NAME,
+        inputSchema: READ_MCP_RESOURCE_TOOL_PARAMETERS,
+        handler: async (args: z.infer<typeof READ_MCP_RESOURCE_TOOL_PARAMETERS>, editorEngine: EditorEngine) =>
+            handleReadMcpResourceTool(args, editorEngine),
+    },
+    [GET_MCP_PROMPT_TOOL_NAME]: {
+        name: GET_MCP_PROMPT_TOOL_NAME,
+        inputSchema: GET_MCP_PROMPT_TOOL_PARAMETERS,
+        handler: async (args: z.infer<typeof GET_MCP_PROMPT_TOOL_PARAMETERS>, editorEngine: EditorEngine) =>
+            handleGetMcpPromptTool(args, editorEngine),
+    },
     [BASH_EDIT_TOOL_NAME]: {
         name: BASH_EDIT_TOOL_NAME,
         inputSchema: BASH_EDIT_TOOL_PARAMETERS,
@@ -181,17 +278,62 @@ const TOOL_HANDLERS: ClientToolMap = {
         handler: async (args: z.infer<typeof CHECK_ERRORS_TOOL_PARAMETERS>, editorEngine: EditorEngine) =>
             handleCheckErrors(args, editorEngine),
     },
+    [TODO_WRITE_TOOL_NAME]: {
+        name: TODO_WRITE_TOOL_NAME,
+        inputSchema: TODO_WRITE_TOOL_PARAMETERS,
+        handler: async (args: z.infer<typeof TODO_WRITE_TOOL_PARAMETERS>) =>
+            handleTodoWriteTool(args),
+    },
+    [EXIT_PLAN_MODE_TOOL_NAME]: {
+        name: EXIT_PLAN_MODE_TOOL_NAME,
+        inputSchema: EXIT_PLAN_MODE_TOOL_PARAMETERS,
+        handler: async (args: z.infer<typeof EXIT_PLAN_MODE_TOOL_PARAMETERS>, editorEngine: EditorEngine) =>
+            handleExitPlanModeTool(args, editorEngine),
+    },
+    [TASK_TOOL_NAME]: {
+        name: TASK_TOOL_NAME,
+        inputSchema: TASK_TOOL_PARAMETERS,
+        handler: async (args: z.infer<typeof TASK_TOOL_PARAMETERS>, editorEngine: EditorEngine, toolCallId: string) =>
+            handleTaskTool(args, editorEngine, toolCallId, runClientTool),
+    },
 };
 
+async function runClientTool(toolName: string, input: unknown, editorEngine: EditorEngine, availableTools: ToolSet, toolCallId = '') {
+    if (!availableTools[toolName]) {
+        throw new Error(`Tool "${toolName}" is not available`);
+    }
+    const clientTool = TOOL_HANDLERS[toolName];
+    if (!clientTool && !isMcpToolName(toolName)) {
+        throw new Error(`Unknown tool call: ${toolName}`);
+    }
+    const { allowed, reason } = await editorEngine.chat.permissions.authorize(toolName, input, toolCallId);
+    if (!allowed) {
+        throw new Error(`Permission denied: ${reason}`);
+    }
+    if (!clientTool) {
+        return handleMcpTool(toolName, input, editorEngine);
+    }
+    return clientTool.handler(input, editorEngine, toolCallId);
+}
+
+async function getAvailableTools(toolName: string, chatMode: ChatType, editorEngine: EditorEngine): Promise<ToolSet> {
+    const tools = getToolSetFromType(chatMode, await editorEngine.chat.mcp.getServers());
+    if (tools[toolName]) {
+        return tools;
+    }
+    // The chat request may have connected servers since they were last listed here
+    return getToolSetFromType(chatMode, await editorEngine.chat.mcp.getServers(true));
+}
+
 export async function handleToolCall(toolCall: ToolCall<string, unknown>, editorEngine: EditorEngine, addToolResult: (toolResult: { tool: string, toolCallId: string, output: any }) => Promise<void>) {
     const toolName = toolCall.toolName;
     const currentChatMode = editorEngine.state.chatMode;
-    const availableTools = getToolSetFromType(currentChatMode);
-    let output: any = null;
+    let output: unknown = null;
 
     try {
+        const availableTools = await getAvailableTools(toolName, currentChatMode, editorEngine);
         if (!availableTools[toolName]) {
-            toast.error(`Tool "${toolName}" not available in ask mode`, {
+            toast.error(`Tool "${toolName}" not available in ${currentChatMode} mode`, {
                 description: `Switch to build mode to use this tool.`,
                 duration: 2000,
             });
@@ -199,14 +341,9 @@ export async function handleToolCall(toolCall: ToolCall<string, unknown>, editor
             throw new Error(`Tool "${toolName}" is not available in ${currentChatMode} mode`);
         }
 
-        const clientTool = TOOL_HANDLERS[toolName];
-
-        if (!clientTool) {
-            throw new Error(`Unknown tool call: ${toolName}`);
-        }
-        output = await clientTool.handler(toolCall.input, editorEngine);
+        output = await runClientTool(toolName, toolCall.input, editorEngine, availableTools, toolCall.toolCallId);
     } catch (error) {
-        output = 'error handling tool call ' + error;
+        output = 'error handling tool call ' + String(error);
     } finally {
         void addToolResult({
             tool: toolName,
@@ -215,4 +352,4 @@ export async function handleToolCall(toolCall: ToolCall<string, unknown>, editor
         });
     }
 
-}
+}
\ No newline at end of file
@@ -5,6 +5,8 @@ export enum SettingsTabValue {
     VERSIONS = 'versions',
     ADVANCED = 'advanced',
     SITE = 'site',
+    MCP = 'mcp servers',
+    PERMISSIONS = 'permissions',
 }
 
 export interface SettingTab {
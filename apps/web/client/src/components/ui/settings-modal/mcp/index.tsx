@@ -0,0 +1,201 @@
+import { useEditorEngine } from '@/components/store/editor';
+import { api } from '@/trpc/react';
+import type { McpServerConfig, McpServerState } from '@onlook/models';
+import { Badge } from '@onlook/ui/badge';
+import { Button } from '@onlook/ui/button';
+import { Icons } from '@onlook/ui/icons';
+import { Separator } from '@onlook/ui/separator';
+import { toast } from '@onlook/ui/sonner';
+import { Textarea } from '@onlook/ui/textarea';
+import { observer } from 'mobx-react-lite';
+import { useEffect, useMemo, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+
+const EXAMPLE_CONFIG = `[
+  {
+    "name": "design_system",
+    "transport": "stdio",
+    "command": "node",
+    "args": ["./mcp/design-system.js"]
+  },
+  {
+    "name": "api_schema",
+    "transport": "http",
+    "url": "http://localhost:4000/mcp"
+  }
+]`;
+
+const STATUS_VARIANTS: Record<McpServerState['status'], 'secondary' | 'destructive' | 'outline'> = {
+    connected: 'secondary',
+    error: 'destructive',
+    disabled: 'outline',
+};
+
+const ServerRow = ({ server }: { server: McpServerState }) => (
+    <div className="flex flex-col gap-1 py-2">
+        <div className="flex items-center gap-2">
+            <span className="text-foreground">{server.name}</span>
+            <Badge variant={STATUS_VARIANTS[server.status]}>{server.status}</Badge>
+            <span className="ml-auto text-small text-muted-foreground">
+                {server.tools.length} tools, {server.resources.length} resources,{' '}
+                {server.prompts.length} prompts
+            </span>
+        </div>
+        {server.error && <p className="text-small text-red-500 break-words">{server.error}</p>}
+    </div>
+);
+
+export const McpTab = observer(() => {
+    const editorEngine = useEditorEngine();
+    const mcp = editorEngine.chat.mcp;
+    const utils = api.useUtils();
+    const { data: configs } = api.mcp.configs.useQuery({ projectId: editorEngine.projectId });
+
+    const savedConfig = useMemo(
+        // Ids are generated when saving, so they are left out of the editor. Empty shows the example
+        () =>
+            configs?.length
+                ? JSON.stringify(configs.map(({ id: _id, ...config }) => config), null, 2)
+                : '',
+        [configs],
+    );
+    const [draft, setDraft] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [isReloading, setIsReloading] = useState(false);
+
+    useEffect(() => {
+        setDraft(savedConfig);
+    }, [savedConfig]);
+
+    useEffect(() => {
+        void mcp.getServers();
+    }, [mcp]);
+
+    const isDirty = draft !== savedConfig;
+
+    const handleSave = async () => {
+        let servers: unknown;
+        try {
+            servers = draft.trim() ? JSON.parse(draft) : [];
+        } catch (error) {
+            toast.error('MCP servers are not valid JSON', {
+                description: error instanceof Error ? error.message : undefined,
+            });
+            return;
+        }
+        if (!Array.isArray(servers)) {
+            toast.error('MCP servers must be a JSON array');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            // Keeps the ids of servers that are still configured under the same name
+            await mcp.updateServers(
+                (servers as McpServerConfig[]).map((server) => ({
+                    ...server,
+                    id: configs?.find((config) => config.name === server.name)?.id ?? uuidv4(),
+                })),
+            );
+            await utils.mcp.configs.invalidate({ projectId: editorEngine.projectId });
+            toast.success('MCP servers updated.');
+        } catch (error) {
+            console.error('Failed to update MCP servers:', error);
+            toast.error('Failed to update MCP servers', {
+                description: error instanceof Error ? error.message : undefined,
+            });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleReload = async () => {
+        setIsReloading(true);
+        try {
+            await mcp.reload();
+        } finally {
+            setIsReloading(false);
+        }
+    };
+
+    return (
+        <div className="text-sm flex flex-col h-full">
+            <div className="flex flex-col gap-4 p-6 pb-24 overflow-y-auto flex-1">
+                <div className="flex flex-col gap-4">
+                    <div className="flex items-center">
+                        <div className="flex flex-col gap-2">
+                            <h2 className="text-lg">Servers</h2>
+                            <p className="text-small text-foreground-secondary">
+                                Their tools are offered to the AI as mcp__server__tool.
+                            </p>
+                        </div>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            className="ml-auto"
+                            onClick={() => void handleReload()}
+                            disabled={isReloading}
+                        >
+                            <Icons.Reload
+                                className={isReloading ? 'h-4 w-4 animate-spin' : 'h-4 w-4'}
+                            />
+                            <span>Reconnect</span>
+                        </Button>
+                    </div>
+                    {mcp.servers.length === 0 ? (
+                        <p className="text-muted-foreground">No MCP servers configured.</p>
+                    ) : (
+                        <div className="divide-y divide-border">
+                            {mcp.servers.map((server) => (
+                                <ServerRow key={server.id} server={server} />
+                            ))}
+                        </div>
+                    )}
+                </div>
+                <Separator />
+
+                <div className="flex flex-col gap-4">
+                    <div className="flex flex-col gap-2">
+                        <h2 className="text-lg">Configuration</h2>
+                        <p className="text-small text-foreground-secondary">
+                            A JSON array of stdio servers started on this machine and HTTP servers
+                            already running on it.
+                        </p>
+                    </div>
+                    <Textarea
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        placeholder={EXAMPLE_CONFIG}
+                        spellCheck={false}
+                        className="min-h-64 font-mono text-xs"
+                        disabled={isSaving}
+                    />
+                </div>
+            </div>
+
+            <div className="sticky bottom-0 bg-background border-t border-border/50 p-6" style={{ borderTopWidth: '0.5px' }}>
+                <div className="flex justify-end gap-4">
+                    <Button
+                        variant="outline"
+                        className="flex items-center gap-2 px-4 py-2 bg-background border border-border/50"
+                        type="button"
+                        onClick={() => setDraft(savedConfig)}
+                        disabled={!isDirty || isSaving}
+                    >
+                        <span>Discard changes</span>
+                    </Button>
+                    <Button
+                        variant="secondary"
+                        className="flex items-center gap-2 px-4 py-2"
+                        type="button"
+                        onClick={() => void handleSave()}
+                        disabled={!isDirty || isSaving}
+                    >
+                        {isSaving && <Icons.LoadingSpinner className="h-4 w-4 animate-spin" />}
+                        <span>{isSaving ? 'Saving...' : 'Save changes'}</span>
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+});
@@ -0,0 +1,208 @@
+import { useEditorEngine } from '@/components/store/editor';
+import { api } from '@/trpc/react';
+import type { ToolAuditEntry, ToolPermissionRule } from '@onlook/models';
+import { Badge } from '@onlook/ui/badge';
+import { Button } from '@onlook/ui/button';
+import { Icons } from '@onlook/ui/icons';
+import { Separator } from '@onlook/ui/separator';
+import { toast } from '@onlook/ui/sonner';
+import { Textarea } from '@onlook/ui/textarea';
+import { observer } from 'mobx-react-lite';
+import { useEffect, useMemo, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+
+const AUDIT_LIMIT = 50;
+
+const EXAMPLE_RULES = `[
+  {
+    "action": "allow",
+    "tool": "terminal_command",
+    "command": "npm run *"
+  },
+  {
+    "action": "deny",
+    "path": ".env*",
+    "description": "Keep secrets away from the AI"
+  }
+]`;
+
+type EditableRule = Omit<ToolPermissionRule, 'id'>;
+
+function toEditable({ id: _id, ...rule }: ToolPermissionRule): EditableRule {
+    return rule;
+}
+
+const AuditRow = ({ entry }: { entry: ToolAuditEntry }) => (
+    <div className="flex flex-col gap-1 py-2">
+        <div className="flex items-center gap-2">
+            <span className="text-foreground">{entry.toolName}</span>
+            <Badge variant={entry.allowed ? 'secondary' : 'destructive'}>
+                {entry.allowed ? 'allowed' : 'denied'}
+            </Badge>
+            <span className="text-small text-muted-foreground">
+                {entry.decidedBy === 'user' ? 'by you' : 'by policy'}
+            </span>
+            <span className="ml-auto text-small text-muted-foreground">
+                {new Date(entry.createdAt).toLocaleString()}
+            </span>
+        </div>
+        {entry.summary && (
+            <p className="text-small font-mono text-foreground-secondary break-words">
+                {entry.summary}
+            </p>
+        )}
+        <p className="text-small text-muted-foreground">{entry.reason}</p>
+    </div>
+);
+
+export const PermissionsTab = observer(() => {
+    const editorEngine = useEditorEngine();
+    const permissions = editorEngine.chat.permissions;
+    const utils = api.useUtils();
+    const { data: project } = api.project.get.useQuery({ projectId: editorEngine.projectId });
+    const { data: auditEntries, isFetching: isLoadingAudit } = api.project.listToolAudit.useQuery({
+        projectId: editorEngine.projectId,
+        limit: AUDIT_LIMIT,
+    });
+
+    const rules = useMemo(() => project?.toolPermissions?.rules ?? [], [project]);
+    const savedRules = useMemo(
+        // Ids are generated when saving, so they are left out of the editor. Empty shows the example
+        () => (rules.length ? JSON.stringify(rules.map(toEditable), null, 2) : ''),
+        [rules],
+    );
+    const [draft, setDraft] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        setDraft(savedRules);
+    }, [savedRules]);
+
+    const isDirty = draft !== savedRules;
+
+    const handleSave = async () => {
+        let parsed: unknown;
+        try {
+            parsed = draft.trim() ? JSON.parse(draft) : [];
+        } catch (error) {
+            toast.error('Permission rules are not valid JSON', {
+                description: error instanceof Error ? error.message : undefined,
+            });
+            return;
+        }
+        if (!Array.isArray(parsed)) {
+            toast.error('Permission rules must be a JSON array');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            // Unchanged rules keep their ids, which the audit log refers to
+            await permissions.updateRules(
+                (parsed as EditableRule[]).map((rule) => ({
+                    ...rule,
+                    id:
+                        rules.find(
+                            (saved) =>
+                                JSON.stringify(toEditable(saved)) === JSON.stringify(rule),
+                        )?.id ?? uuidv4(),
+                })),
+            );
+            await utils.project.get.invalidate({ projectId: editorEngine.projectId });
+            toast.success('Permission rules updated.');
+        } catch (error) {
+            console.error('Failed to update permission rules:', error);
+            toast.error('Failed to update permission rules', {
+                description: error instanceof Error ? error.message : undefined,
+            });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="text-sm flex flex-col h-full">
+            <div className="flex flex-col gap-4 p-6 pb-24 overflow-y-auto flex-1">
+                <div className="flex flex-col gap-4">
+                    <div className="flex flex-col gap-2">
+                        <h2 className="text-lg">Rules</h2>
+                        <p className="text-small text-foreground-secondary">
+                            A JSON array of rules that allow, deny or ask before the AI runs a
+                            tool. Rules match on tool, command, path and branch, and when several
+                            match the strictest wins.
+                        </p>
+                    </div>
+                    <Textarea
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        placeholder={EXAMPLE_RULES}
+                        spellCheck={false}
+                        className="min-h-64 font-mono text-xs"
+                        disabled={isSaving}
+                    />
+                </div>
+                <Separator />
+
+                <div className="flex flex-col gap-4">
+                    <div className="flex items-center">
+                        <div className="flex flex-col gap-2">
+                            <h2 className="text-lg">Recent tool calls</h2>
+                            <p className="text-small text-foreground-secondary">
+                                The last {AUDIT_LIMIT} decisions, newest first.
+                            </p>
+                        </div>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            className="ml-auto"
+                            onClick={() =>
+                                void utils.project.listToolAudit.invalidate({
+                                    projectId: editorEngine.projectId,
+                                })
+                            }
+                            disabled={isLoadingAudit}
+                        >
+                            <Icons.Reload
+                                className={isLoadingAudit ? 'h-4 w-4 animate-spin' : 'h-4 w-4'}
+                            />
+                            <span>Refresh</span>
+                        </Button>
+                    </div>
+                    {!auditEntries?.length ? (
+                        <p className="text-muted-foreground">No tool calls recorded yet.</p>
+                    ) : (
+                        <div className="divide-y divide-border">
+                            {auditEntries.map((entry) => (
+                                <AuditRow key={entry.id} entry={entry} />
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <div className="sticky bottom-0 bg-background border-t border-border/50 p-6" style={{ borderTopWidth: '0.5px' }}>
+                <div className="flex justify-end gap-4">
+                    <Button
+                        variant="outline"
+                        className="flex items-center gap-2 px-4 py-2 bg-background border border-border/50"
+                        type="button"
+                        onClick={() => setDraft(savedRules)}
+                        disabled={!isDirty || isSaving}
+                    >
+                        <span>Discard changes</span>
+                    </Button>
+                    <Button
+                        variant="secondary"
+                        className="flex items-center gap-2 px-4 py-2"
+                        type="button"
+                        onClick={() => void handleSave()}
+                        disabled={!isDirty || isSaving}
+                    >
+                        {isSaving && <Icons.LoadingSpinner className="h-4 w-4 animate-spin" />}
+                        <span>{isSaving ? 'Saving...' : 'Save changes'}</span>
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+});
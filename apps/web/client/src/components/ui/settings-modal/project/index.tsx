@@ -2,15 +2,26 @@
 import { useEditorEngine } from '@/components/store/editor';
 import { api } from '@/trpc/react';
 import { DefaultSettings } from '@onlook/constants';
-import { toDbProjectSettings } from '@onlook/db';
+import type { ProcessCommand } from '@onlook/models';
 import { Button } from '@onlook/ui/button';
 import { Icons } from '@onlook/ui/icons';
 import { Input } from '@onlook/ui/input';
 import { Separator } from '@onlook/ui/separator';
 import { toast } from '@onlook/ui/sonner';
+import { Textarea } from '@onlook/ui/textarea';
 import { observer } from 'mobx-react-lite';
 import { useEffect, useMemo, useState } from 'react';
 
+const EXAMPLE_PROCESSES = `[
+  {
+    "name": "api",
+    "command": "bun run api",
+    "preferredPort": 4000,
+    "restart": "on-failure",
+    "healthCheck": { "type": "http", "path": "/health" }
+  }
+]`;
+
 export const ProjectTab = observer(() => {
     const editorEngine = useEditorEngine();
     const utils = api.useUtils();
@@ -22,6 +33,8 @@ export const ProjectTab = observer(() => {
     const installCommand = projectSettings?.commands?.install ?? DefaultSettings.COMMANDS.install;
     const runCommand = projectSettings?.commands?.run ?? DefaultSettings.COMMANDS.run;
     const buildCommand = projectSettings?.commands?.build ?? DefaultSettings.COMMANDS.build;
+    const savedProcesses = projectSettings?.commands?.processes;
+    const processes = savedProcesses?.length ? JSON.stringify(savedProcesses, null, 2) : '';
     const name = project?.name ?? '';
 
     // Form state
@@ -29,7 +42,8 @@ export const ProjectTab = observer(() => {
         name: '',
         install: '',
         run: '',
-        build: ''
+        build: '',
+        processes: ''
     });
     const [isSaving, setIsSaving] = useState(false);
 
@@ -39,9 +53,10 @@ export const ProjectTab = observer(() => {
             name,
             install: installCommand,
             run: runCommand,
-            build: buildCommand
+            build: buildCommand,
+            processes
         });
-    }, [name, installCommand, runCommand, buildCommand]);
+    }, [name, installCommand, runCommand, buildCommand, processes]);
 
     // Check if form has changes
     const isDirty = useMemo(() => {
@@ -49,11 +64,26 @@ export const ProjectTab = observer(() => {
             formData.name !== name ||
             formData.install !== installCommand ||
             formData.run !== runCommand ||
-            formData.build !== buildCommand
+            formData.build !== buildCommand ||
+            formData.processes !== processes
         );
-    }, [formData, name, installCommand, runCommand, buildCommand]);
+    }, [formData, name, installCommand, runCommand, buildCommand, processes]);
 
     const handleSave = async () => {
+        let parsedProcesses: unknown;
+        try {
+            parsedProcesses = formData.processes.trim() ? JSON.parse(formData.processes) : [];
+        } catch (error) {
+            toast.error('Processes are not valid JSON', {
+                description: error instanceof Error ? error.message : undefined,
+            });
+            return;
+        }
+        if (!Array.isArray(parsedProcesses)) {
+            toast.error('Processes must be a JSON array');
+            return;
+        }
+
         setIsSaving(true);
         try {
             // Update project name if changed
@@ -70,17 +100,19 @@ export const ProjectTab = observer(() => {
             }
 
             // Update commands if any changed
-            if (formData.install !== installCommand || formData.run !== runCommand || formData.build !== buildCommand) {
+            if (formData.install !== installCommand || formData.run !== runCommand || formData.build !== buildCommand || formData.processes !== processes) {
                 await updateProjectSettings({
                     projectId: editorEngine.projectId,
-                    settings: toDbProjectSettings(editorEngine.projectId, {
+                    settings: {
                         commands: {
                             install: formData.install,
                             run: formData.run,
                             build: formData.build,
+                            processes: parsedProcesses as ProcessCommand[],
                         },
-                    }),
+                    },
                 });
+                await utils.settings.get.invalidate({ projectId: editorEngine.projectId });
             }
 
             toast.success('Project settings updated successfully.');
@@ -97,7 +129,8 @@ export const ProjectTab = observer(() => {
             name,
             install: installCommand,
             run: runCommand,
-            build: buildCommand
+            build: buildCommand,
+            processes
         });
     };
 
@@ -165,6 +198,26 @@ export const ProjectTab = observer(() => {
                         </div>
                     </div>
                 </div>
+                <Separator />
+
+                <div className="flex flex-col gap-4">
+                    <div className="flex flex-col gap-2">
+                        <h2 className="text-lg">Processes</h2>
+                        <p className="text-small text-foreground-secondary">
+                            A JSON array of processes started next to the dev server, such as API
+                            servers or workers. Changes apply the next time the sandbox starts.
+                        </p>
+                    </div>
+                    <Textarea
+                        id="processes"
+                        value={formData.processes}
+                        onChange={(e) => updateField('processes', e.target.value)}
+                        placeholder={EXAMPLE_PROCESSES}
+                        spellCheck={false}
+                        className="min-h-48 font-mono text-xs"
+                        disabled={isSaving}
+                    />
+                </div>
             </div>
 
             {/* Save/Discard buttons matching site tab pattern */}
@@ -10,6 +10,8 @@ import { observer } from 'mobx-react-lite';
 import { useEffect, useMemo, useRef, useState } from 'react';
 import DomainTab from './domain';
 import { SettingsTabValue, type SettingTab } from './helpers';
+import { McpTab } from './mcp';
+import { PermissionsTab } from './permissions';
 import { PreferencesTab } from './preferences-tab';
 import { ProjectTab } from './project';
 import { SiteTab } from './site';
@@ -86,6 +88,16 @@ export const SettingsModalWithProjects = observer(() => {
             icon: <Icons.Gear className="mr-2 h-4 w-4" />,
             component: <ProjectTab />,
         },
+        {
+            label: SettingsTabValue.MCP,
+            icon: <Icons.Component className="mr-2 h-4 w-4" />,
+            component: <McpTab />,
+        },
+        {
+            label: SettingsTabValue.PERMISSIONS,
+            icon: <Icons.LockClosed className="mr-2 h-4 w-4" />,
+            component: <PermissionsTab />,
+        },
         {
             label: SettingsTabValue.VERSIONS,
             icon: <Icons.Code className="mr-2 h-4 w-4" />,
@@ -49,12 +49,32 @@ export const env = createEnv({
             .string()
             .default('./onlook-projects')
             .transform((value) => expandHomePath(value) || './onlook-projects'),
+        ONLOOK_STORAGE_BACKEND: z.enum(['json', 'sqlite']).default('json'),
 
         // AI Model providers
         OPENROUTER_API_KEY: z.string().optional(),
         ANTHROPIC_API_KEY: z.string().optional(),
         GOOGLE_AI_STUDIO_API_KEY: z.string().optional(),
         OPENAI_API_KEY: z.string().optional(),
+        OPENAI_BASE_URL: z.string().url().optional(),
+        AZURE_API_KEY: z.string().optional(),
+        AZURE_BASE_URL: z.string().url().optional(),
+        AZURE_RESOURCE_NAME: z.string().optional(),
+        AZURE_API_VERSION: z.string().optional(),
+
+        // Self-hosted OpenAI-compatible model servers
+        OLLAMA_BASE_URL: z.string().url().optional(),
+        VLLM_BASE_URL: z.string().url().optional(),
+        VLLM_API_KEY: z.string().optional(),
+        LMSTUDIO_BASE_URL: z.string().url().optional(),
+
+        // JSON mapping of chat type to models, e.g. {"edit": ["ollama:qwen2.5-coder:32b"]}
+        ONLOOK_CHAT_MODELS: z.string().optional(),
+
+        // Directory of recorded responses for the mock provider, selected as mock:<fixture name>
+        ONLOOK_LLM_FIXTURES_DIR: z.string().optional(),
+        // Set to a model such as openrouter:anthropic/claude-sonnet-4 to record fixtures with it
+        ONLOOK_LLM_RECORD_MODEL: z.string().optional(),
 
         // Cursor integration
         CURSOR_API_KEY: z.string().optional(),
@@ -108,6 +128,7 @@ export const env = createEnv({
 
         // Local storage
         ONLOOK_PROJECTS_DIR: process.env.ONLOOK_PROJECTS_DIR,
+        ONLOOK_STORAGE_BACKEND: process.env.ONLOOK_STORAGE_BACKEND,
 
         // Posthog
         NEXT_PUBLIC_POSTHOG_KEY: process.env.NEXT_PUBLIC_POSTHOG_KEY,
@@ -139,6 +160,18 @@ export const env = createEnv({
         GOOGLE_AI_STUDIO_API_KEY: process.env.GOOGLE_AI_STUDIO_API_KEY,
         OPENAI_API_KEY: process.env.OPENAI_API_KEY,
         OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY,
+        OPENAI_BASE_URL: process.env.OPENAI_BASE_URL,
+        AZURE_API_KEY: process.env.AZURE_API_KEY,
+        AZURE_BASE_URL: process.env.AZURE_BASE_URL,
+        AZURE_RESOURCE_NAME: process.env.AZURE_RESOURCE_NAME,
+        AZURE_API_VERSION: process.env.AZURE_API_VERSION,
+        OLLAMA_BASE_URL: process.env.OLLAMA_BASE_URL,
+        VLLM_BASE_URL: process.env.VLLM_BASE_URL,
+        VLLM_API_KEY: process.env.VLLM_API_KEY,
+        LMSTUDIO_BASE_URL: process.env.LMSTUDIO_BASE_URL,
+        ONLOOK_CHAT_MODELS: process.env.ONLOOK_CHAT_MODELS,
+        ONLOOK_LLM_FIXTURES_DIR: process.env.ONLOOK_LLM_FIXTURES_DIR,
+        ONLOOK_LLM_RECORD_MODEL: process.env.ONLOOK_LLM_RECORD_MODEL,
 
         // Cursor integration
         CURSOR_API_KEY: process.env.CURSOR_API_KEY,
@@ -5,6 +5,7 @@ import {
     frameRouter,
     githubRouter,
     invitationRouter,
+    mcpRouter,
     memberRouter,
     projectRouter,
     publishRouter,
@@ -28,6 +29,7 @@ export const appRouter = createTRPCRouter({
     invitation: invitationRouter,
     project: projectRouter,
     branch: branchRouter,
+    mcp: mcpRouter,
     settings: settingsRouter,
     chat: chatRouter,
     frame: frameRouter,
@@ -42,6 +42,17 @@ const generateTitleInput = z.object({
     content: z.string(),
 });
 
+const searchConversationsInput = z.object({
+    projectId: z.string(),
+    query: z.string(),
+    branchId: z.string().optional(),
+    role: z.enum(['user', 'assistant', 'system']).optional(),
+    from: z.date().optional(),
+    to: z.date().optional(),
+    limit: z.number().int().min(1).max(100).optional(),
+    offset: z.number().int().min(0).optional(),
+});
+
 const toChatConversation = (conversation: LocalConversation): ChatConversation => ({
     id: conversation.id,
     projectId: conversation.projectId,
@@ -100,6 +111,18 @@ export const conversationRouter = createTRPCRouter({
             await localStorage.deleteConversation(input.projectId, input.conversationId);
         }),
 
+    search: protectedProcedure
+        .input(searchConversationsInput)
+        .query(async ({ input }) => {
+            const { query, from, to, ...filters } = input;
+            return localStorage.searchConversations({
+                ...filters,
+                text: query,
+                from: from?.toISOString(),
+                to: to?.toISOString(),
+            });
+        }),
+
     generateTitle: protectedProcedure
         .input(generateTitleInput)
         .mutation(async ({ ctx, input }) => {
@@ -1,6 +1,6 @@
 import { env } from '@/env';
 import FirecrawlApp from '@mendable/firecrawl-js';
-import { applyCodeChange } from '@onlook/ai';
+import { applyCodeEdit, type ApplyCodeEditResult } from '@onlook/ai';
 import type { WebSearchResult } from '@onlook/models';
 import Exa from 'exa-js';
 import { z } from 'zod';
@@ -17,19 +17,18 @@ export const codeRouter = createTRPCRouter({
                 conversationId: z.string().optional(),
             }).optional(),
         }))
-        .mutation(async ({ input, ctx }): Promise<{ result: string | null, error: string | null }> => {
+        .mutation(async ({ input, ctx }): Promise<{ result: string | null, provider: ApplyCodeEditResult['provider'] | null, confidence: number | null, error: string | null }> => {
             try {
                 const user = ctx.user;
                 const metadata = {
                     ...input.metadata,
                     userId: user.id,
                 };
-                const result = await applyCodeChange(input.originalCode, input.updateSnippet, input.instruction, metadata);
-                if (!result) {
-                    throw new Error('Failed to apply code change. Please try again.');
-                }
+                const { code, provider, confidence } = await applyCodeEdit(input.originalCode, input.updateSnippet, input.instruction, metadata);
                 return {
-                    result,
+                    result: code,
+                    provider,
+                    confidence,
                     error: null,
                 };
             } catch (error) {
@@ -37,6 +36,8 @@ export const codeRouter = createTRPCRouter({
                 return {
                     error: error instanceof Error ? error.message : 'Unknown error',
                     result: null,
+                    provider: null,
+                    confidence: null,
                 };
             }
         }),
@@ -1,4 +1,42 @@
-import { type Frame } from "@onlook/db";
+import { env } from '@/env';
+import { DefaultSettings } from '@onlook/constants';
+import { DefaultDesktopFrame, DefaultMobileFrame, type Frame } from "@onlook/db";
+import { localStorage, type LocalProject } from '@onlook/db/src/local-storage';
+import path from 'node:path';
+
+export const LOCAL_SANDBOX_PREFIX = 'local-';
+export const PROJECTS_ROOT = path.resolve(env.ONLOOK_PROJECTS_DIR);
+
+export function sanitizeSandboxId(sandboxId: string): string {
+    return sandboxId.replace(/[^a-zA-Z0-9-_]/g, '');
+}
+
+/** Directory holding the source tree of a local sandbox */
+export function getLocalSandboxPath(sandboxId: string): string {
+    return path.join(PROJECTS_ROOT, sanitizeSandboxId(sandboxId));
+}
+
+/** Id and preview URL for a new local sandbox, whose directory is created by the caller */
+export function createLocalSandbox(): { sandboxId: string; previewUrl: string } {
+    const sandboxId = `${LOCAL_SANDBOX_PREFIX}${Math.random().toString(36).substring(2)}${Date.now().toString(36)}`;
+    const port = 3000 + Math.floor(Math.random() * 1000);
+    return { sandboxId, previewUrl: `http://localhost:${port}` };
+}
+
+/** The project whose default or other branch runs on the sandbox */
+export async function findProjectBySandboxId(sandboxId: string): Promise<LocalProject | null> {
+    const projects = await localStorage.listProjects();
+    for (const project of projects) {
+        if (project.sandboxId === sandboxId) {
+            return project;
+        }
+        const branches = await localStorage.listBranches(project.id);
+        if (branches.some((branch) => branch.sandboxId === sandboxId)) {
+            return project;
+        }
+    }
+    return null;
+}
 
 export function extractCsbPort(frames: Frame[]): number | null {
     if (!frames || frames.length === 0) return null;
@@ -17,3 +55,83 @@ export function extractCsbPort(frames: Frame[]): number | null {
     }
     return null;
 }
+
+/**
+ * Registers a project in local storage with the default canvas, desktop and mobile frames
+ * and an initial conversation.
+ */
+export async function createLocalProjectWithDefaults(input: {
+    name: string;
+    description?: string;
+    tags: string[];
+    sandboxId?: string;
+    sandboxUrl?: string;
+}): Promise<LocalProject> {
+    const project = await localStorage.createProject(input);
+
+    // Create default canvas
+    const canvas = await localStorage.createCanvas({
+        projectId: project.id,
+        name: 'Main Canvas',
+    });
+
+    const branches = await localStorage.listBranches(project.id);
+    const defaultBranch = branches.find(branch => branch.isDefault) ?? branches[0];
+    const url = input.sandboxUrl ?? DefaultSettings.URL;
+
+    if (defaultBranch) {
+        if (input.sandboxId) {
+            // The default branch runs on the sandbox the project was created with
+            await localStorage.updateBranch(project.id, defaultBranch.id, {
+                sandboxId: input.sandboxId,
+                sandboxUrl: input.sandboxUrl,
+            });
+        }
+
+        const desktopPosition = {
+            x: Number(DefaultDesktopFrame.x),
+            y: Number(DefaultDesktopFrame.y),
+        };
+        const desktopDimension = {
+            width: Number(DefaultDesktopFrame.width),
+            height: Number(DefaultDesktopFrame.height),
+        };
+
+        await localStorage.createFrame({
+            projectId: project.id,
+            canvasId: canvas.id,
+            branchId: defaultBranch.id,
+            name: 'Desktop',
+            position: desktopPosition,
+            dimension: desktopDimension,
+            url,
+        });
+
+        const mobilePosition = {
+            x: Number(DefaultMobileFrame.x),
+            y: Number(DefaultMobileFrame.y),
+        };
+        const mobileDimension = {
+            width: Number(DefaultMobileFrame.width),
+            height: Number(DefaultMobileFrame.height),
+        };
+
+        await localStorage.createFrame({
+            projectId: project.id,
+            canvasId: canvas.id,
+            branchId: defaultBranch.id,
+            name: 'Mobile',
+            position: mobilePosition,
+            dimension: mobileDimension,
+            url,
+        });
+    }
+
+    // Create default conversation
+    await localStorage.createConversation({
+        projectId: project.id,
+        title: 'Main Chat',
+    });
+
+    return project;
+}
@@ -1,5 +1,6 @@
 export * from './frame';
 export * from './invitation';
+export * from './mcp';
 export * from './member';
 export * from './project';
 export * from './sandbox';
@@ -0,0 +1,109 @@
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc';
+import { mcpServerManager } from '@/server/mcp';
+import { localStorage } from '@onlook/db/src/local-storage';
+import type { McpServerConfig } from '@onlook/models';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+
+const serverFields = {
+    id: z.string().optional(),
+    // Kept short and simple since it becomes part of every tool name of the server
+    name: z.string().regex(/^[a-zA-Z0-9_-]{1,32}$/),
+    enabled: z.boolean().default(true),
+};
+
+const mcpServerSchema = z.discriminatedUnion('transport', [
+    z.object({
+        ...serverFields,
+        transport: z.literal('stdio'),
+        command: z.string().min(1),
+        args: z.array(z.string()).optional(),
+        env: z.record(z.string(), z.string()).optional(),
+        cwd: z.string().optional(),
+    }),
+    z.object({
+        ...serverFields,
+        transport: z.literal('http'),
+        url: z.string().url(),
+        headers: z.record(z.string(), z.string()).optional(),
+    }),
+]);
+
+export const mcpRouter = createTRPCRouter({
+    list: protectedProcedure
+        .input(z.object({ projectId: z.string() }))
+        .query(async ({ input }) => {
+            return await mcpServerManager.getServers(input.projectId);
+        }),
+
+    configs: protectedProcedure
+        .input(z.object({ projectId: z.string() }))
+        .query(async ({ input }): Promise<McpServerConfig[]> => {
+            const project = await localStorage.getProject(input.projectId);
+            return project?.mcpServers ?? [];
+        }),
+
+    reload: protectedProcedure
+        .input(z.object({ projectId: z.string() }))
+        .mutation(async ({ input }) => {
+            return await mcpServerManager.reload(input.projectId);
+        }),
+
+    updateServers: protectedProcedure
+        .input(z.object({
+            projectId: z.string(),
+            servers: z.array(mcpServerSchema),
+        }))
+        .mutation(async ({ input }) => {
+            const names = input.servers.map((server) => server.name);
+            if (new Set(names).size !== names.length) {
+                throw new Error('MCP server names must be unique within a project');
+            }
+            const project = await localStorage.updateProject(input.projectId, {
+                mcpServers: input.servers.map((server) => ({
+                    ...server,
+                    id: server.id ?? uuidv4(),
+                })) as McpServerConfig[],
+            });
+            if (!project) {
+                throw new Error('Project not found');
+            }
+            return await mcpServerManager.getServers(input.projectId);
+        }),
+
+    callTool: protectedProcedure
+        .input(z.object({
+            projectId: z.string(),
+            name: z.string(),
+            arguments: z.unknown(),
+        }))
+        .mutation(async ({ input }) => {
+            return await mcpServerManager.callTool(input.projectId, input.name, input.arguments);
+        }),
+
+    readResource: protectedProcedure
+        .input(z.object({
+            projectId: z.string(),
+            server: z.string(),
+            uri: z.string(),
+        }))
+        .mutation(async ({ input }) => {
+            return await mcpServerManager.readResource(input.projectId, input.server, input.uri);
+        }),
+
+    getPrompt: protectedProcedure
+        .input(z.object({
+            projectId: z.string(),
+            server: z.string(),
+            name: z.string(),
+            arguments: z.record(z.string(), z.string()).optional(),
+        }))
+        .mutation(async ({ input }) => {
+            return await mcpServerManager.getPrompt(
+                input.projectId,
+                input.server,
+                input.name,
+                input.arguments,
+            );
+        }),
+});
@@ -1,8 +1,22 @@
 import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc';
-import { DefaultDesktopFrame, DefaultMobileFrame } from '@onlook/db';
+import { providerRegistry } from '@onlook/ai';
+import { PROJECT_ARCHIVE_EXTENSION } from '@onlook/db/src/local/archive';
 import { localStorage } from '@onlook/db/src/local-storage';
-import { DefaultSettings } from '@onlook/constants';
+import { ChatType, LLMProvider, type ChatModelPreferences } from '@onlook/models';
+import { v4 as uuidv4 } from 'uuid';
 import { z } from 'zod';
+import { createLocalProjectWithDefaults, createLocalSandbox, getLocalSandboxPath } from './helper';
+
+const toolPermissionActionSchema = z.enum(['allow', 'deny', 'ask']);
+
+const toolPermissionRuleSchema = z.object({
+    action: toolPermissionActionSchema,
+    tool: z.string().optional(),
+    command: z.string().optional(),
+    path: z.string().optional(),
+    branch: z.string().optional(),
+    description: z.string().optional(),
+});
 
 export const projectRouter = createTRPCRouter({
     list: protectedProcedure
@@ -28,68 +42,11 @@ export const projectRouter = createTRPCRouter({
             tags: z.array(z.string()).default([]),
         }))
         .mutation(async ({ input }) => {
-            const project = await localStorage.createProject({
+            return createLocalProjectWithDefaults({
                 name: input.name,
                 description: input.description,
                 tags: input.tags,
             });
-
-            // Create default canvas
-            const canvas = await localStorage.createCanvas({
-                projectId: project.id,
-                name: 'Main Canvas',
-            });
-
-            const branches = await localStorage.listBranches(project.id);
-            const defaultBranch = branches.find(branch => branch.isDefault) ?? branches[0];
-
-            if (defaultBranch) {
-                const desktopPosition = {
-                    x: Number(DefaultDesktopFrame.x),
-                    y: Number(DefaultDesktopFrame.y),
-                };
-                const desktopDimension = {
-                    width: Number(DefaultDesktopFrame.width),
-                    height: Number(DefaultDesktopFrame.height),
-                };
-
-                await localStorage.createFrame({
-                    projectId: project.id,
-                    canvasId: canvas.id,
-                    branchId: defaultBranch.id,
-                    name: 'Desktop',
-                    position: desktopPosition,
-                    dimension: desktopDimension,
-                    url: DefaultSettings.URL,
-                });
-
-                const mobilePosition = {
-                    x: Number(DefaultMobileFrame.x),
-                    y: Number(DefaultMobileFrame.y),
-                };
-                const mobileDimension = {
-                    width: Number(DefaultMobileFrame.width),
-                    height: Number(DefaultMobileFrame.height),
-                };
-
-                await localStorage.createFrame({
-                    projectId: project.id,
-                    canvasId: canvas.id,
-                    branchId: defaultBranch.id,
-                    name: 'Mobile',
-                    position: mobilePosition,
-                    dimension: mobileDimension,
-                    url: DefaultSettings.URL,
-                });
-            }
-
-            // Create default conversation
-            await localStorage.createConversation({
-                projectId: project.id,
-                title: 'Main Chat',
-            });
-
-            return project;
         }),
 
     update: protectedProcedure
@@ -118,6 +75,106 @@ export const projectRouter = createTRPCRouter({
             return { success: true };
         }),
 
+    // Model settings
+    listModelProviders: protectedProcedure
+        .query(() => {
+            return providerRegistry.list().filter((provider) => !provider.hidden);
+        }),
+
+    updateChatModels: protectedProcedure
+        .input(z.object({
+            projectId: z.string(),
+            chatModels: z.partialRecord(
+                z.nativeEnum(ChatType),
+                z.array(z.object({
+                    provider: z.nativeEnum(LLMProvider),
+                    model: z.string().min(1),
+                })),
+            ),
+        }))
+        .mutation(async ({ input }) => {
+            for (const selections of Object.values(input.chatModels)) {
+                for (const { provider, model } of selections ?? []) {
+                    // Throws for providers and models the registry does not know
+                    providerRegistry.getModelInfo(provider, model);
+                }
+            }
+            const project = await localStorage.updateProject(input.projectId, {
+                chatModels: input.chatModels as ChatModelPreferences,
+            });
+            if (!project) {
+                throw new Error('Project not found');
+            }
+            return project;
+        }),
+
+    // Tool permissions
+    updateToolPermissions: protectedProcedure
+        .input(z.object({
+            projectId: z.string(),
+            rules: z.array(toolPermissionRuleSchema.extend({ id: z.string() })),
+        }))
+        .mutation(async ({ input }) => {
+            const project = await localStorage.updateProject(input.projectId, {
+                toolPermissions: { rules: input.rules },
+            });
+            if (!project) {
+                throw new Error('Project not found');
+            }
+            return project;
+        }),
+
+    addToolPermissionRules: protectedProcedure
+        .input(z.object({
+            projectId: z.string(),
+            rules: z.array(toolPermissionRuleSchema),
+        }))
+        .mutation(async ({ input }) => {
+            const existing = await localStorage.getProject(input.projectId);
+            if (!existing) {
+                throw new Error('Project not found');
+            }
+            const rules = [
+                ...(existing.toolPermissions?.rules ?? []),
+                ...input.rules.map((rule) => ({ ...rule, id: uuidv4() })),
+            ];
+            const project = await localStorage.updateProject(input.projectId, {
+                toolPermissions: { rules },
+            });
+            if (!project) {
+                throw new Error('Project not found');
+            }
+            return project;
+        }),
+
+    recordToolAudit: protectedProcedure
+        .input(z.object({
+            projectId: z.string(),
+            conversationId: z.string().optional(),
+            toolCallId: z.string(),
+            toolName: z.string(),
+            summary: z.string(),
+            branchId: z.string().optional(),
+            decision: toolPermissionActionSchema,
+            reason: z.string(),
+            ruleId: z.string().optional(),
+            decidedBy: z.enum(['policy', 'user']),
+            allowed: z.boolean(),
+        }))
+        .mutation(async ({ input: { projectId, ...entry } }) => {
+            return await localStorage.appendToolAuditEntry(projectId, entry);
+        }),
+
+    listToolAudit: protectedProcedure
+        .input(z.object({
+            projectId: z.string(),
+            limit: z.number().int().positive().max(500).default(100),
+            offset: z.number().int().nonnegative().default(0),
+        }))
+        .query(async ({ input: { projectId, ...query } }) => {
+            return await localStorage.listToolAuditEntries(projectId, query);
+        }),
+
     // Canvas operations
     listCanvases: protectedProcedure
         .input(z.object({ projectId: z.string() }))
@@ -183,4 +240,45 @@ export const projectRouter = createTRPCRouter({
             await localStorage.saveFile(input.projectId, input.filePath, input.content);
             return { success: true };
         }),
+
+    // Archive operations
+    exportArchive: protectedProcedure
+        .input(z.object({
+            projectId: z.string(),
+            includeChatHistory: z.boolean().default(false),
+        }))
+        .mutation(async ({ input }) => {
+            const archive = await localStorage.exportProject(input.projectId, {
+                includeChatHistory: input.includeChatHistory,
+                getSandboxPath: getLocalSandboxPath,
+            });
+            if (!archive) {
+                throw new Error('Project not found');
+            }
+            const project = await localStorage.getProject(input.projectId);
+            return {
+                fileName: `${project?.name ?? input.projectId}${PROJECT_ARCHIVE_EXTENSION}`,
+                data: Buffer.from(archive).toString('base64'),
+            };
+        }),
+
+    importArchive: protectedProcedure
+        .input(z.object({
+            data: z.string().min(1),
+        }))
+        .mutation(async ({ input }) => {
+            return await localStorage.importProject(
+                new Uint8Array(Buffer.from(input.data, 'base64')),
+                {
+                    createSandbox: () => {
+                        const { sandboxId, previewUrl } = createLocalSandbox();
+                        return {
+                            id: sandboxId,
+                            url: previewUrl,
+                            path: getLocalSandboxPath(sandboxId),
+                        };
+                    },
+                },
+            );
+        }),
 });
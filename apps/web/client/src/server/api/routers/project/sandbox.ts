@@ -2,25 +2,27 @@ import {
     CodeProvider,
     createCodeProviderClient,
     getStaticCodeProvider,
+    LocalProvider,
+    type LocalGitImportProgress,
 } from '@onlook/code-provider';
 import { env } from '@/env';
-import { CodeProvider, createCodeProviderClient, getStaticCodeProvider } from '@onlook/code-provider';
 import { getSandboxPreviewUrl } from '@onlook/constants';
+import type { ProcessCommand } from '@onlook/models';
 import { shortenUuid } from '@onlook/utility/src/id';
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
 import { TRPCError } from '@trpc/server';
-import path from 'path';
 import { z } from 'zod';
 import { createTRPCRouter, protectedProcedure } from '../../trpc';
-import { env } from '@/env';
-
-const LOCAL_SANDBOX_PREFIX = 'local-';
-const PROJECTS_ROOT = path.resolve(env.ONLOOK_PROJECTS_DIR);
-
-function sanitizeSandboxId(sandboxId: string): string {
-    return sandboxId.replace(/[^a-zA-Z0-9-_]/g, '');
-}
+import {
+    createLocalProjectWithDefaults,
+    createLocalSandbox,
+    findProjectBySandboxId,
+    getLocalSandboxPath,
+    LOCAL_SANDBOX_PREFIX,
+    PROJECTS_ROOT,
+    sanitizeSandboxId,
+} from './helper';
 
 function resolveProviderType(sandboxId: string, requested?: CodeProvider) {
     if (requested) {
@@ -29,18 +31,48 @@ function resolveProviderType(sandboxId: string, requested?: CodeProvider) {
     return sandboxId.startsWith(LOCAL_SANDBOX_PREFIX) ? CodeProvider.Local : CodeProvider.CodeSandbox;
 }
 
-const LOCAL_SANDBOX_PREFIX = 'local-';
-const PROJECTS_ROOT = path.resolve(env.ONLOOK_PROJECTS_DIR);
-
-function sanitizeSandboxId(sandboxId: string): string {
-    return sandboxId.replace(/[^a-zA-Z0-9-_]/g, '');
+function getRepoName(repoUrl: string): string {
+    const name = path.basename(repoUrl.replace(/\/+$/, '')).replace(/\.git$/, '');
+    return name || 'New project';
 }
 
-function resolveProviderType(sandboxId: string, requested?: CodeProvider) {
-    if (requested) {
-        return requested;
+type ProgressEvent<TProgress, TResult> =
+    | { type: 'progress'; progress: TProgress }
+    | { type: 'complete'; result: TResult };
+
+/**
+ * Turns a callback-based long running task into a stream of progress events followed by
+ * its result, so procedures can yield progress to the client while the task runs.
+ */
+async function* withProgress<TProgress, TResult>(
+    run: (report: (progress: TProgress) => void) => Promise<TResult>,
+): AsyncGenerator<ProgressEvent<TProgress, TResult>> {
+    const pending: TProgress[] = [];
+    let wake: (() => void) | null = null;
+    let done = false;
+
+    const task = run((progress) => {
+        pending.push(progress);
+        wake?.();
+    }).finally(() => {
+        done = true;
+        wake?.();
+    });
+    // The rejection is rethrown below once pending progress has been flushed
+    task.catch(() => undefined);
+
+    while (!done || pending.length > 0) {
+        const next = pending.shift();
+        if (next !== undefined) {
+            yield { type: 'progress', progress: next };
+            continue;
+        }
+        await new Promise<void>((resolve) => {
+            wake = resolve;
+        });
+        wake = null;
     }
-    return sandboxId.startsWith(LOCAL_SANDBOX_PREFIX) ? CodeProvider.Local : CodeProvider.CodeSandbox;
+    yield { type: 'complete', result: await task };
 }
 
 const getProjectsRoot = () => env.ONLOOK_PROJECTS_DIR;
@@ -58,38 +90,25 @@ async function getProvider({
     sandboxId,
     userId,
     provider,
+    processes,
 }: {
     sandboxId: string,
     provider?: CodeProvider,
     userId?: undefined | string,
+    processes?: ProcessCommand[],
 }) {
     const resolvedProvider = resolveProviderType(sandboxId, provider);
+    await ensureProjectsRoot();
 
     if (resolvedProvider === CodeProvider.Local) {
-        const sanitizedId = sanitizeSandboxId(sandboxId);
-        const projectPath = path.join(PROJECTS_ROOT, sanitizedId);
         return createCodeProviderClient(CodeProvider.Local, {
             providerOptions: {
                 local: {
                     sandboxId,
-                    projectPath,
+                    projectPath: getLocalSandboxPath(sandboxId),
                     preferredPort: 3000,
                     projectsRoot: PROJECTS_ROOT,
-        return createCodeProviderClient(CodeProvider.Local, {
-            providerOptions: {
-                local: {
-                    sandboxId,
-                    projectPath,
-                    preferredPort: 3000,
-                    projectsRoot: PROJECTS_ROOT,
-    await ensureProjectsRoot();
-
-    if (provider === CodeProvider.Local) {
-        return createCodeProviderClient(CodeProvider.Local, {
-            providerOptions: {
-                local: {
-                    projectPath: resolveProjectPath(sandboxId),
-                    port: 3000 + Math.floor(Math.random() * 1000), // Random port to avoid conflicts
+                    processes,
                 },
             },
         });
@@ -105,7 +124,9 @@ async function getProvider({
     } else {
         return createCodeProviderClient(CodeProvider.NodeFs, {
             providerOptions: {
-                nodefs: {},
+                nodefs: {
+                    rootPath: resolveProjectPath(sandboxId),
+                },
             },
         });
     }
@@ -121,10 +142,16 @@ export const sandboxRouter = createTRPCRouter({
         .mutation(async ({ input, ctx }) => {
             const userId = ctx.user.id;
             const providerType = resolveProviderType(input.sandboxId);
+            // Companion processes come from the project settings, never from the client
+            const processes =
+                providerType === CodeProvider.Local
+                    ? ((await findProjectBySandboxId(input.sandboxId))?.commands?.processes ?? [])
+                    : undefined;
             const provider = await getProvider({
                 sandboxId: input.sandboxId,
                 userId,
                 provider: providerType,
+                processes,
             });
             const session = await provider.createSession({
                 args: {
@@ -156,11 +183,7 @@ export const sandboxRouter = createTRPCRouter({
         const providerType = resolveProviderType(input.sandboxId);
         const provider = await getProvider({ sandboxId: input.sandboxId, provider: providerType });
         const res = await provider.listProjects({});
-        // TODO future iteration of code provider abstraction will need this code to be refactored
-        if ('projects' in res) {
-            return res.projects;
-        }
-        return [];
+        return res.projects;
     }),
     fork: protectedProcedure
         .input(
@@ -234,41 +257,54 @@ export const sandboxRouter = createTRPCRouter({
             z.object({
                 repoUrl: z.string(),
                 branch: z.string(),
+                name: z.string().optional(),
+                description: z.string().optional(),
             }),
         )
-        .mutation(async ({ input }) => {
-            try {
-                // Create a local sandbox ID
-                const sandboxId = `${LOCAL_SANDBOX_PREFIX}${Math.random().toString(36).substring(2)}${Date.now().toString(36)}`;
-                const sanitizedId = sanitizeSandboxId(sandboxId);
-                const projectPath = path.join(PROJECTS_ROOT, sanitizedId);
-                const sandboxId = Math.random().toString(36).substring(2) + Date.now().toString(36);
-                await ensureProjectsRoot();
-                const projectPath = resolveProjectPath(sandboxId);
-                const port = 3000 + Math.floor(Math.random() * 1000);
+        .mutation(async function* ({ input }) {
+            const { sandboxId, previewUrl } = createLocalSandbox();
 
-                // Clone the repository
-                const { spawn } = await import('child_process');
-                const gitProcess = spawn('git', ['clone', '--branch', input.branch, input.repoUrl, projectPath], {
-                    stdio: 'pipe'
-                });
-
-                await new Promise((resolve, reject) => {
-                    gitProcess.on('close', (code) => {
-                        if (code === 0) {
-                            resolve(undefined);
-                        } else {
-                            reject(new Error(`Git clone failed with code ${code}`));
+            try {
+                const events = withProgress<LocalGitImportProgress, { projectId: string }>(
+                    async (report) => {
+                        await ensureProjectsRoot();
+                        const { projectPath } = await LocalProvider.createProjectFromGit({
+                            repoUrl: input.repoUrl,
+                            branch: input.branch,
+                            id: sanitizeSandboxId(sandboxId),
+                            projectsRoot: PROJECTS_ROOT,
+                            onProgress: report,
+                        });
+                        try {
+                            const project = await createLocalProjectWithDefaults({
+                                name: input.name ?? getRepoName(input.repoUrl),
+                                description: input.description ?? 'Imported from GitHub',
+                                tags: ['github'],
+                                sandboxId,
+                                sandboxUrl: previewUrl,
+                            });
+                            return { projectId: project.id };
+                        } catch (error) {
+                            // Nothing points at the clone without a project
+                            await fs.rm(projectPath, { recursive: true, force: true });
+                            throw error;
                         }
-                    });
-                });
-
-                const previewUrl = `http://localhost:${port}`;
-
-                return {
-                    sandboxId,
-                    previewUrl,
-                };
+                    },
+                );
+                for await (const event of events) {
+                    if (event.type === 'progress') {
+                        yield event;
+                    } else {
+                        yield {
+                            type: 'complete' as const,
+                            result: {
+                                ...event.result,
+                                sandboxId,
+                                previewUrl,
+                            },
+                        };
+                    }
+                }
             } catch (error) {
                 throw new TRPCError({
                     code: 'INTERNAL_SERVER_ERROR',
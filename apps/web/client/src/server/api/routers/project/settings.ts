@@ -1,13 +1,40 @@
-import {
-    projectSettings,
-    projectSettingsInsertSchema,
-    fromDbProjectSettings
-} from '@onlook/db';
+import { localStorage } from '@onlook/db/src/local-storage';
+import type { ProjectSettings } from '@onlook/models';
 import { TRPCError } from '@trpc/server';
-import { eq } from 'drizzle-orm';
 import { z } from 'zod';
 import { createTRPCRouter, protectedProcedure } from '../../trpc';
 
+const processCommandSchema = z.object({
+    // Used as the task id, so it must not clash with the dev server
+    name: z.string().regex(/^[a-zA-Z0-9_-]{1,32}$/).refine((name) => name !== 'dev', {
+        message: 'The dev process is configured through the run command',
+    }),
+    command: z.string().min(1),
+    preferredPort: z.number().int().positive().optional(),
+    restart: z.enum(['never', 'on-failure', 'always']).optional(),
+    healthCheck: z
+        .discriminatedUnion('type', [
+            z.object({
+                type: z.literal('http'),
+                path: z.string().optional(),
+                timeoutMs: z.number().optional(),
+            }),
+            z.object({
+                type: z.literal('log'),
+                pattern: z.string(),
+                timeoutMs: z.number().optional(),
+            }),
+        ])
+        .optional(),
+});
+
+const commandsSchema = z.object({
+    build: z.string().optional(),
+    run: z.string().optional(),
+    install: z.string().optional(),
+    processes: z.array(processCommandSchema).optional(),
+});
+
 export const settingsRouter = createTRPCRouter({
     get: protectedProcedure
         .input(
@@ -15,38 +42,42 @@ export const settingsRouter = createTRPCRouter({
                 projectId: z.string(),
             }),
         )
-        .query(async ({ ctx, input }) => {
-            const setting = await ctx.db.query.projectSettings.findFirst({
-                where: eq(projectSettings.projectId, input.projectId),
-            });
-            if (!setting) {
+        .query(async ({ input }): Promise<ProjectSettings | null> => {
+            const project = await localStorage.getProject(input.projectId);
+            if (!project?.commands) {
                 return null;
             }
-            return fromDbProjectSettings(setting);
+            return { commands: project.commands };
         }),
     upsert: protectedProcedure
         .input(
             z.object({
                 projectId: z.string(),
-                settings: projectSettingsInsertSchema,
+                settings: z.object({ commands: commandsSchema }),
             }),
         )
-        .mutation(async ({ ctx, input }) => {
-            const [updatedSettings] = await ctx.db
-                .insert(projectSettings)
-                .values(input)
-                .onConflictDoUpdate({
-                    target: [projectSettings.projectId],
-                    set: input.settings,
-                })
-                .returning();
-            if (!updatedSettings) {
+        .mutation(async ({ input }): Promise<ProjectSettings> => {
+            const names = input.settings.commands.processes?.map((process) => process.name) ?? [];
+            if (new Set(names).size !== names.length) {
+                throw new TRPCError({
+                    code: 'BAD_REQUEST',
+                    message: 'Process names must be unique within a project',
+                });
+            }
+            const existing = await localStorage.getProject(input.projectId);
+            if (!existing) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: 'Project not found' });
+            }
+            // Commands left out of the update keep their current value
+            const commands = { ...existing.commands, ...input.settings.commands };
+            const project = await localStorage.updateProject(input.projectId, { commands });
+            if (!project) {
                 throw new TRPCError({
                     code: 'INTERNAL_SERVER_ERROR',
                     message: 'Failed to update project settings',
                 });
             }
-            return fromDbProjectSettings(updatedSettings);
+            return { commands };
         }),
     delete: protectedProcedure
         .input(
@@ -54,10 +85,8 @@ export const settingsRouter = createTRPCRouter({
                 projectId: z.string(),
             }),
         )
-        .mutation(async ({ ctx, input }) => {
-            await ctx.db
-                .delete(projectSettings)
-                .where(eq(projectSettings.projectId, input.projectId));
+        .mutation(async ({ input }) => {
+            await localStorage.updateProject(input.projectId, { commands: undefined });
             return true;
         }),
 });
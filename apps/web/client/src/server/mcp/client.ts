@@ -0,0 +1,201 @@
+import type { JsonRpcMessage, McpTransport } from './transport';
+
+const PROTOCOL_VERSION = '2025-06-18';
+const REQUEST_TIMEOUT_MS = 60000;
+const MAX_PAGES = 20;
+
+export interface McpServerTool {
+    name: string;
+    description?: string;
+    inputSchema: Record<string, unknown>;
+    annotations?: { readOnlyHint?: boolean };
+}
+
+export interface McpServerResource {
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+export interface McpServerPrompt {
+    name: string;
+    description?: string;
+    arguments?: { name: string; description?: string; required?: boolean }[];
+}
+
+export type McpContent =
+    | { type: 'text'; text: string }
+    | { type: 'image' | 'audio'; data: string; mimeType: string }
+    | { type: 'resource'; resource: { uri: string; mimeType?: string; text?: string; blob?: string } }
+    | { type: 'resource_link'; uri: string; name: string };
+
+export interface McpCallToolResult {
+    content: McpContent[];
+    structuredContent?: unknown;
+    isError?: boolean;
+}
+
+export interface McpReadResourceResult {
+    contents: { uri: string; mimeType?: string; text?: string; blob?: string }[];
+}
+
+export interface McpGetPromptResult {
+    description?: string;
+    messages: { role: 'user' | 'assistant'; content: McpContent }[];
+}
+
+interface ServerCapabilities {
+    tools?: object;
+    resources?: object;
+    prompts?: object;
+}
+
+/** JSON-RPC client for one MCP server, over any transport */
+export class McpClient {
+    private nextId = 1;
+    private pending = new Map<
+        number,
+        { resolve: (result: unknown) => void; reject: (error: Error) => void }
+    >();
+    private capabilities: ServerCapabilities = {};
+    private closed = false;
+
+    constructor(
+        private transport: McpTransport,
+        private onClose?: (error?: Error) => void,
+    ) {}
+
+    async connect(): Promise<void> {
+        this.transport.onMessage = (message) => this.handleMessage(message);
+        this.transport.onClose = (error) => {
+            this.closed = true;
+            for (const { reject } of this.pending.values()) {
+                reject(error ?? new Error('The MCP server closed the connection'));
+            }
+            this.pending.clear();
+            this.onClose?.(error);
+        };
+        await this.transport.start();
+
+        const result = await this.request<{ capabilities?: ServerCapabilities }>('initialize', {
+            protocolVersion: PROTOCOL_VERSION,
+            capabilities: {},
+            clientInfo: { name: 'onlook', version: '1.0.0' },
+        });
+        this.capabilities = result.capabilities ?? {};
+        await this.notify('notifications/initialized');
+    }
+
+    async listTools(): Promise<McpServerTool[]> {
+        return this.capabilities.tools ? this.listAll<McpServerTool>('tools/list', 'tools') : [];
+    }
+
+    async listResources(): Promise<McpServerResource[]> {
+        return this.capabilities.resources
+            ? this.listAll<McpServerResource>('resources/list', 'resources')
+            : [];
+    }
+
+    async listPrompts(): Promise<McpServerPrompt[]> {
+        return this.capabilities.prompts
+            ? this.listAll<McpServerPrompt>('prompts/list', 'prompts')
+            : [];
+    }
+
+    callTool(name: string, args: unknown): Promise<McpCallToolResult> {
+        return this.request('tools/call', { name, arguments: args ?? {} });
+    }
+
+    readResource(uri: string): Promise<McpReadResourceResult> {
+        return this.request('resources/read', { uri });
+    }
+
+    getPrompt(name: string, args: Record<string, string> = {}): Promise<McpGetPromptResult> {
+        return this.request('prompts/get', { name, arguments: args });
+    }
+
+    async close(): Promise<void> {
+        if (!this.closed) {
+            this.closed = true;
+            await this.transport.close();
+        }
+    }
+
+    private async listAll<T>(method: string, key: string): Promise<T[]> {
+        const items: T[] = [];
+        let cursor: string | undefined;
+        for (let page = 0; page < MAX_PAGES; page++) {
+            const result = await this.request<Record<string, unknown> & { nextCursor?: string }>(
+                method,
+                cursor ? { cursor } : {},
+            );
+            items.push(...((result[key] as T[] | undefined) ?? []));
+            cursor = result.nextCursor;
+            if (!cursor) {
+                break;
+            }
+        }
+        return items;
+    }
+
+    private request<T>(method: string, params: unknown): Promise<T> {
+        if (this.closed) {
+            return Promise.reject(new Error('The MCP server is not connected'));
+        }
+        const id = this.nextId++;
+        return new Promise<T>((resolve, reject) => {
+            const timeout = setTimeout(() => {
+                this.pending.delete(id);
+                reject(new Error(`${method} timed out after ${REQUEST_TIMEOUT_MS / 1000}s`));
+            }, REQUEST_TIMEOUT_MS);
+            this.pending.set(id, {
+                resolve: (result) => {
+                    clearTimeout(timeout);
+                    resolve(result as T);
+                },
+                reject: (error) => {
+                    clearTimeout(timeout);
+                    reject(error);
+                },
+            });
+            this.transport.send({ jsonrpc: '2.0', id, method, params }).catch((error) => {
+                this.pending.get(id)?.reject(error instanceof Error ? error : new Error(String(error)));
+                this.pending.delete(id);
+            });
+        });
+    }
+
+    private notify(method: string, params?: unknown): Promise<void> {
+        return this.transport.send({ jsonrpc: '2.0', method, params });
+    }
+
+    private handleMessage(message: JsonRpcMessage) {
+        if (message.id === undefined) {
+            // Notifications such as progress or list changes are not used
+            return;
+        }
+        if (message.method) {
+            // Server requests such as sampling are not supported
+            void this.transport
+                .send({
+                    jsonrpc: '2.0',
+                    id: message.id,
+                    error: { code: -32601, message: `${message.method} is not supported` },
+                })
+                .catch(() => undefined);
+            return;
+        }
+
+        const pending = this.pending.get(Number(message.id));
+        if (!pending) {
+            return;
+        }
+        this.pending.delete(Number(message.id));
+        if (message.error) {
+            pending.reject(new Error(message.error.message));
+        } else {
+            pending.resolve(message.result);
+        }
+    }
+}
@@ -0,0 +1,3 @@
+export * from './client';
+export * from './manager';
+export * from './transport';
@@ -0,0 +1,272 @@
+import { getMcpToolName } from '@onlook/ai';
+import { localStorage } from '@onlook/db/src/local-storage';
+import type { McpServerConfig, McpServerState, McpToolInfo } from '@onlook/models';
+import { McpClient, type McpContent } from './client';
+import { createTransport } from './transport';
+
+const CONNECT_TIMEOUT_MS = 15000;
+/** Servers that failed to start are retried after this long instead of on every request */
+const RETRY_AFTER_MS = 30000;
+
+interface McpConnection {
+    /** Serialized config, a changed config means a new connection */
+    key: string;
+    config: McpServerConfig;
+    client: McpClient | null;
+    state: McpServerState;
+    failedAt: number | null;
+}
+
+/**
+ * Keeps one connection per configured MCP server of each project, started when the
+ * project's tools are first needed and restarted when its config changes.
+ */
+export class McpServerManager {
+    private projects = new Map<string, Map<string, McpConnection>>();
+    private syncing = new Map<string, Promise<McpServerState[]>>();
+
+    /** Connects to the project's servers as needed and returns what each one offers */
+    getServers(projectId: string): Promise<McpServerState[]> {
+        const running = this.syncing.get(projectId);
+        if (running) {
+            return running;
+        }
+        const sync = this.sync(projectId).finally(() => this.syncing.delete(projectId));
+        this.syncing.set(projectId, sync);
+        return sync;
+    }
+
+    /** Drops every connection of the project so the next request starts them again */
+    async reload(projectId: string): Promise<McpServerState[]> {
+        await this.closeProject(projectId);
+        return this.getServers(projectId);
+    }
+
+    async closeProject(projectId: string): Promise<void> {
+        const connections = this.projects.get(projectId);
+        this.projects.delete(projectId);
+        await Promise.all(
+            [...(connections?.values() ?? [])].map((connection) => connection.client?.close()),
+        );
+    }
+
+    async callTool(projectId: string, toolName: string, args: unknown): Promise<string> {
+        await this.getServers(projectId);
+        for (const connection of this.projects.get(projectId)?.values() ?? []) {
+            const tool = connection.state.tools.find((info) => info.name === toolName);
+            if (tool) {
+                const result = await this.getClient(connection).callTool(tool.serverToolName, args);
+                const output = formatContent(result.content);
+                if (result.isError) {
+                    throw new Error(output || `${toolName} failed`);
+                }
+                if (!output && result.structuredContent !== undefined) {
+                    return JSON.stringify(result.structuredContent, null, 2);
+                }
+                return output;
+            }
+        }
+        throw new Error(`No MCP server of this project has a tool named ${toolName}`);
+    }
+
+    async readResource(projectId: string, server: string, uri: string): Promise<string> {
+        const connection = await this.getConnection(projectId, server);
+        const result = await this.getClient(connection).readResource(uri);
+        return result.contents
+            .map(
+                (content) =>
+                    content.text ?? `[${content.mimeType ?? 'binary'} content of ${content.uri}]`,
+            )
+            .join('\n\n');
+    }
+
+    async getPrompt(
+        projectId: string,
+        server: string,
+        name: string,
+        args?: Record<string, string>,
+    ): Promise<string> {
+        const connection = await this.getConnection(projectId, server);
+        const result = await this.getClient(connection).getPrompt(name, args);
+        return result.messages
+            .map((message) => `${message.role}: ${formatContent([message.content])}`)
+            .join('\n\n');
+    }
+
+    private async sync(projectId: string): Promise<McpServerState[]> {
+        const project = await localStorage.getProject(projectId);
+        const configs = project?.mcpServers ?? [];
+        const previous = this.projects.get(projectId) ?? new Map<string, McpConnection>();
+        const connections = new Map<string, McpConnection>();
+
+        for (const config of configs) {
+            const key = JSON.stringify(config);
+            const existing = previous.get(config.id);
+            previous.delete(config.id);
+            const retry = !!existing?.failedAt && Date.now() - existing.failedAt > RETRY_AFTER_MS;
+            if (existing && existing.key === key && !retry) {
+                connections.set(config.id, existing);
+                continue;
+            }
+            await existing?.client?.close();
+            connections.set(config.id, {
+                key,
+                config,
+                client: null,
+                state: createState(config, config.enabled ? 'error' : 'disabled'),
+                failedAt: null,
+            });
+        }
+        for (const removed of previous.values()) {
+            await removed.client?.close();
+        }
+        this.projects.set(projectId, connections);
+
+        await Promise.all(
+            [...connections.values()]
+                .filter(
+                    (connection) =>
+                        connection.config.enabled && !connection.client && !connection.failedAt,
+                )
+                .map((connection) => this.connect(connection)),
+        );
+        assignToolNames([...connections.values()]);
+        return [...connections.values()].map((connection) => connection.state);
+    }
+
+    private async connect(connection: McpConnection): Promise<void> {
+        const { config } = connection;
+        const client = new McpClient(createTransport(config), (error) => {
+            if (connection.client === client) {
+                connection.client = null;
+                connection.failedAt = Date.now();
+                connection.state = {
+                    ...createState(config, 'error'),
+                    error: error?.message ?? 'The server stopped',
+                };
+            }
+        });
+
+        try {
+            await withTimeout(client.connect(), CONNECT_TIMEOUT_MS, `${config.name} did not start`);
+            const [tools, resources, prompts] = await Promise.all([
+                client.listTools(),
+                client.listResources(),
+                client.listPrompts(),
+            ]);
+            connection.client = client;
+            connection.state = {
+                ...createState(config, 'connected'),
+                tools: tools.map((tool) => ({
+                    name: '',
+                    server: config.name,
+                    serverToolName: tool.name,
+                    description: tool.description ?? '',
+                    inputSchema: tool.inputSchema,
+                    readOnly: tool.annotations?.readOnlyHint === true,
+                })),
+                resources: resources.map(({ uri, name, description, mimeType }) => ({
+                    uri,
+                    name,
+                    description,
+                    mimeType,
+                })),
+                prompts: prompts.map((prompt) => ({
+                    name: prompt.name,
+                    description: prompt.description,
+                    arguments: (prompt.arguments ?? []).map((argument) => ({
+                        name: argument.name,
+                        description: argument.description,
+                        required: argument.required === true,
+                    })),
+                })),
+            };
+        } catch (error) {
+            await client.close().catch(() => undefined);
+            connection.failedAt = Date.now();
+            connection.state = {
+                ...createState(config, 'error'),
+                error: error instanceof Error ? error.message : String(error),
+            };
+            console.error(`Failed to connect to MCP server ${config.name}`, error);
+        }
+    }
+
+    private async getConnection(projectId: string, server: string): Promise<McpConnection> {
+        await this.getServers(projectId);
+        const connection = [...(this.projects.get(projectId)?.values() ?? [])].find(
+            (candidate) => candidate.config.name === server,
+        );
+        if (!connection) {
+            throw new Error(`No MCP server named ${server} in this project`);
+        }
+        return connection;
+    }
+
+    private getClient(connection: McpConnection): McpClient {
+        if (!connection.client) {
+            throw new Error(
+                `MCP server ${connection.config.name} is not connected${connection.state.error ? `: ${connection.state.error}` : ''}`,
+            );
+        }
+        return connection.client;
+    }
+}
+
+function createState(config: McpServerConfig, status: McpServerState['status']): McpServerState {
+    return { id: config.id, name: config.name, status, tools: [], resources: [], prompts: [] };
+}
+
+/** Namespaces tool names, skipping tools whose name is taken after shortening */
+function assignToolNames(connections: McpConnection[]) {
+    const taken = new Set<string>();
+    for (const connection of connections) {
+        const tools: McpToolInfo[] = [];
+        for (const tool of connection.state.tools) {
+            const name = getMcpToolName(connection.config.name, tool.serverToolName);
+            if (taken.has(name)) {
+                console.warn(`Skipping MCP tool ${tool.serverToolName}, ${name} is already taken`);
+                continue;
+            }
+            taken.add(name);
+            tools.push({ ...tool, name });
+        }
+        connection.state = { ...connection.state, tools };
+    }
+}
+
+function formatContent(content: McpContent[]): string {
+    return content
+        .map((part) => {
+            switch (part.type) {
+                case 'text':
+                    return part.text;
+                case 'resource':
+                    return (
+                        part.resource.text ??
+                        `[${part.resource.mimeType ?? 'binary'} resource ${part.resource.uri}]`
+                    );
+                case 'resource_link':
+                    return `[resource ${part.name}: ${part.uri}]`;
+                default:
+                    return `[${part.mimeType} ${part.type}]`;
+            }
+        })
+        .join('\n');
+}
+
+async function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    try {
+        return await Promise.race([
+            promise,
+            new Promise<never>((_, reject) => {
+                timeout = setTimeout(() => reject(new Error(message)), ms);
+            }),
+        ]);
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+export const mcpServerManager = new McpServerManager();
@@ -0,0 +1,189 @@
+import type { McpHttpServerConfig, McpStdioServerConfig } from '@onlook/models';
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+
+export interface JsonRpcMessage {
+    jsonrpc: '2.0';
+    id?: number | string;
+    method?: string;
+    params?: unknown;
+    result?: unknown;
+    error?: { code: number; message: string; data?: unknown };
+}
+
+export interface McpTransport {
+    /** Called with every message the server sends, responses and notifications alike */
+    onMessage: ((message: JsonRpcMessage) => void) | null;
+    /** Called once when the connection ends, with the reason if it failed */
+    onClose: ((error?: Error) => void) | null;
+    start(): Promise<void>;
+    send(message: JsonRpcMessage): Promise<void>;
+    close(): Promise<void>;
+}
+
+const MAX_STDERR_LINES = 20;
+
+/** Runs the server as a child process and exchanges newline-delimited JSON over stdio */
+export class StdioTransport implements McpTransport {
+    onMessage: McpTransport['onMessage'] = null;
+    onClose: McpTransport['onClose'] = null;
+    private child: ChildProcessWithoutNullStreams | null = null;
+    private buffer = '';
+    private stderr: string[] = [];
+
+    constructor(private config: McpStdioServerConfig) {}
+
+    async start(): Promise<void> {
+        const child = spawn(this.config.command, this.config.args ?? [], {
+            cwd: this.config.cwd,
+            env: { ...process.env, ...this.config.env },
+            stdio: ['pipe', 'pipe', 'pipe'],
+        });
+        this.child = child;
+
+        child.stdout.on('data', (data: Buffer) => this.handleData(data.toString()));
+        child.stderr.on('data', (data: Buffer) => {
+            this.stderr.push(...data.toString().split('\n').filter(Boolean));
+            this.stderr = this.stderr.slice(-MAX_STDERR_LINES);
+        });
+        // Kept for the close message, and so late errors such as EPIPE do not go unhandled
+        child.on('error', (error) => this.stderr.push(error.message));
+        child.stdin.on('error', (error) => this.stderr.push(error.message));
+        child.once('close', (code) => {
+            this.child = null;
+            const output = this.stderr.length > 0 ? `: ${this.stderr.slice(-5).join('\n')}` : '';
+            this.onClose?.(
+                code ? new Error(`${this.config.command} exited with code ${code}${output}`) : undefined,
+            );
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            child.once('spawn', resolve);
+            child.once('error', reject);
+        });
+    }
+
+    async send(message: JsonRpcMessage): Promise<void> {
+        if (!this.child) {
+            throw new Error(`${this.config.name} is not running`);
+        }
+        this.child.stdin.write(`${JSON.stringify(message)}\n`);
+    }
+
+    async close(): Promise<void> {
+        this.child?.stdin.end();
+        this.child?.kill();
+        this.child = null;
+    }
+
+    private handleData(data: string) {
+        this.buffer += data;
+        let newline = this.buffer.indexOf('\n');
+        while (newline !== -1) {
+            const line = this.buffer.slice(0, newline).trim();
+            this.buffer = this.buffer.slice(newline + 1);
+            if (line) {
+                try {
+                    this.onMessage?.(JSON.parse(line) as JsonRpcMessage);
+                } catch {
+                    // Servers may log to stdout by mistake, anything that is not JSON-RPC is skipped
+                }
+            }
+            newline = this.buffer.indexOf('\n');
+        }
+    }
+}
+
+/**
+ * Streamable HTTP transport: every message is a POST, answered with JSON or an event
+ * stream. Requests without a response, such as notifications, are answered with 202.
+ */
+export class HttpTransport implements McpTransport {
+    onMessage: McpTransport['onMessage'] = null;
+    onClose: McpTransport['onClose'] = null;
+    private sessionId: string | null = null;
+
+    constructor(private config: McpHttpServerConfig) {}
+
+    async start(): Promise<void> {
+        const url = new URL(this.config.url);
+        if (!['localhost', '127.0.0.1', '[::1]'].includes(url.hostname)) {
+            throw new Error(`Only servers on this machine are supported, got ${url.hostname}`);
+        }
+    }
+
+    async send(message: JsonRpcMessage): Promise<void> {
+        const response = await fetch(this.config.url, {
+            method: 'POST',
+            headers: {
+                ...this.config.headers,
+                'Content-Type': 'application/json',
+                Accept: 'application/json, text/event-stream',
+                ...(this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {}),
+            },
+            body: JSON.stringify(message),
+        });
+        this.sessionId = response.headers.get('mcp-session-id') ?? this.sessionId;
+
+        if (!response.ok) {
+            const text = await response.text().catch(() => '');
+            throw new Error(`${this.config.name} responded with ${response.status}: ${text}`);
+        }
+        if (response.status === 202 || !response.body) {
+            return;
+        }
+
+        const contentType = response.headers.get('content-type') ?? '';
+        if (contentType.includes('text/event-stream')) {
+            await this.readEventStream(response.body);
+            return;
+        }
+        const body = (await response.json()) as JsonRpcMessage | JsonRpcMessage[];
+        for (const reply of Array.isArray(body) ? body : [body]) {
+            this.onMessage?.(reply);
+        }
+    }
+
+    async close(): Promise<void> {
+        if (this.sessionId) {
+            // Ends the session on the server, which may not support it
+            await fetch(this.config.url, {
+                method: 'DELETE',
+                headers: { ...this.config.headers, 'Mcp-Session-Id': this.sessionId },
+            }).catch(() => undefined);
+            this.sessionId = null;
+        }
+        this.onClose?.();
+    }
+
+    private async readEventStream(body: ReadableStream<Uint8Array>) {
+        const reader = body.getReader();
+        // Streaming keeps multi-byte characters split across chunks intact
+        const decoder = new TextDecoder();
+        let buffer = '';
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+            buffer = (buffer + decoder.decode(value, { stream: true })).replace(/\r\n/g, '\n');
+            let boundary = buffer.indexOf('\n\n');
+            while (boundary !== -1) {
+                const event = buffer.slice(0, boundary);
+                buffer = buffer.slice(boundary + 2);
+                const data = event
+                    .split('\n')
+                    .filter((line) => line.startsWith('data:'))
+                    .map((line) => line.slice(5).trimStart())
+                    .join('\n');
+                if (data) {
+                    this.onMessage?.(JSON.parse(data) as JsonRpcMessage);
+                }
+                boundary = buffer.indexOf('\n\n');
+            }
+        }
+    }
+}
+
+export function createTransport(config: McpStdioServerConfig | McpHttpServerConfig): McpTransport {
+    return config.transport === 'stdio' ? new StdioTransport(config) : new HttpTransport(config);
+}
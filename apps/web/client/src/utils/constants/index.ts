@@ -47,4 +47,8 @@ export const Git = {
 
 export const LocalForageKeys = {
     RETURN_URL: 'returnUrl',
+    /** Suffixed with the project id */
+    PENDING_REVIEW: 'pendingReview',
+    /** Suffixed with the project id */
+    PREVIEWED_BRANCHES: 'previewedBranches',
 } as const;
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from 'bun:test';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+mock.module('@/trpc/client', () => ({ api: {} }));
+
+mock.module('@onlook/ui/sonner', () => ({
+    toast: {
+        error: mock(() => { }),
+        success: mock(() => { }),
+    },
+}));
+
+import { initModel, ProviderRegistry } from '@onlook/ai';
+import { createFileFixtureStore } from '@onlook/ai/src/chat/fixture-store';
+import { LLMProvider } from '@onlook/models';
+import { runAgent } from './runner';
+
+const FIXTURES_DIR = join(import.meta.dir, 'fixtures');
+
+async function getModel(fixture: string) {
+    const registry = new ProviderRegistry();
+    registry.setFixtureStore(createFileFixtureStore(FIXTURES_DIR));
+    const { model } = await initModel({ provider: LLMProvider.MOCK, model: fixture }, registry);
+    return model;
+}
+
+describe('runAgent', () => {
+    let rootPath: string;
+
+    beforeEach(async () => {
+        rootPath = await mkdtemp(join(tmpdir(), 'onlook-agent-'));
+    });
+
+    afterEach(async () => {
+        await rm(rootPath, { recursive: true, force: true });
+    });
+
+    test('answers tool calls against the directory until the model stops', async () => {
+        const result = await runAgent({
+            model: await getModel('write-file'),
+            prompt: 'Add a hello page',
+            rootPath,
+        });
+
+        expect(result.steps).toBe(2);
+        expect(result.text).toBe('Created the hello page.');
+        expect(result.toolCalls).toHaveLength(1);
+        expect(result.toolCalls[0]?.output).toBe('File app/hello/page.tsx written successfully');
+        expect(await readFile(join(rootPath, 'app/hello/page.tsx'), 'utf8')).toContain(
+            '<h1>Hello</h1>',
+        );
+    });
+
+    test('applies the permission policy to tool calls', async () => {
+        const result = await runAgent({
+            model: await getModel('write-file'),
+            prompt: 'Add a hello page',
+            rootPath,
+            policy: { rules: [{ id: 'no-writes', action: 'deny', tool: 'write_file' }] },
+        });
+
+        expect(String(result.toolCalls[0]?.output)).toContain('Permission denied');
+        expect(await Bun.file(join(rootPath, 'app/hello/page.tsx')).exists()).toBe(false);
+    });
+});
@@ -0,0 +1,267 @@
+import type { EditorEngine } from '../../src/components/store/editor/engine';
+import { normalizePath } from '../../src/components/store/editor/sandbox/helpers';
+import { handleToolCall } from '../../src/components/tools';
+import {
+    convertToStreamMessages,
+    evaluateToolPermission,
+    getAskModeSystemPrompt,
+    getPlanModeSystemPrompt,
+    getSystemPrompt,
+    getToolSetFromType,
+} from '@onlook/ai';
+import { NodeFsProvider } from '@onlook/code-provider';
+import { ChatType, type ChatMessage, type ToolPermissionPolicy } from '@onlook/models';
+import {
+    readUIMessageStream,
+    stepCountIs,
+    streamText,
+    type LanguageModel,
+    type ToolUIPart,
+} from 'ai';
+import { v4 as uuidv4 } from 'uuid';
+
+export const RUNNER_BRANCH_ID = 'runner-branch';
+
+/** The parts of `SandboxManager` the tool handlers use, backed by a directory on disk */
+export function createNodeFsSandbox(rootPath: string) {
+    const provider = new NodeFsProvider({ rootPath });
+
+    const session = {
+        provider,
+        async runCommand(command: string, streamCallback?: (output: string) => void, ignoreError = false) {
+            const finalCommand = ignoreError ? `${command} 2>/dev/null || true` : command;
+            try {
+                streamCallback?.(finalCommand + '\n');
+                const { output } = await provider.runCommand({ args: { command: finalCommand } });
+                streamCallback?.(output);
+                return { output, success: true, error: null };
+            } catch (error) {
+                return {
+                    output: '',
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Unknown error occurred',
+                };
+            }
+        },
+        readDevServerLogs: async () => '',
+        restartDevServer: async () => true,
+    };
+
+    return {
+        provider,
+        session,
+        async readFile(path: string) {
+            try {
+                const { file } = await provider.readFile({ args: { path: normalizePath(path) } });
+                return file;
+            } catch {
+                return null;
+            }
+        },
+        async writeFile(path: string, content: string) {
+            await provider.writeFile({ args: { path: normalizePath(path), content } });
+            return true;
+        },
+        async fileExists(path: string) {
+            try {
+                await provider.statFile({ args: { path: normalizePath(path) } });
+                return true;
+            } catch {
+                return false;
+            }
+        },
+        async readDir(dir: string) {
+            const { files } = await provider.listFiles({ args: { path: normalizePath(dir) } });
+            return files;
+        },
+        async delete(path: string, recursive?: boolean) {
+            await provider.deleteFiles({ args: { path: normalizePath(path), recursive } });
+            return true;
+        },
+    };
+}
+
+export type NodeFsSandbox = ReturnType<typeof createNodeFsSandbox>;
+
+export interface AgentRunnerOptions {
+    rootPath: string;
+    chatType?: ChatType;
+    /** Evaluated like in the editor; without one the default rules apply */
+    policy?: ToolPermissionPolicy;
+    /** Answers tool calls the policy asks about; they are allowed by default */
+    approve?: (toolName: string, input: unknown) => boolean;
+    /** Answers exit_plan_mode; plans are approved by default */
+    approvePlan?: (plan: string) => boolean;
+}
+
+/**
+ * Just enough of the editor for `handleToolCall`: one branch whose sandbox is the directory,
+ * and chat managers that answer without UI. Sub-agents cannot run since they call the chat route.
+ */
+export function createRunnerEditorEngine({
+    rootPath,
+    chatType = ChatType.EDIT,
+    policy,
+    approve = () => true,
+    approvePlan = () => true,
+}: AgentRunnerOptions): { editorEngine: EditorEngine; sandbox: NodeFsSandbox } {
+    const sandbox = createNodeFsSandbox(rootPath);
+    const branch = { id: RUNNER_BRANCH_ID, name: 'main', projectId: 'runner-project' };
+    const getSandbox = (branchId: string) => {
+        if (branchId !== RUNNER_BRANCH_ID) {
+            throw new Error(`Sandbox not found for branch ID: ${branchId}`);
+        }
+        return sandbox;
+    };
+
+    const editorEngine = {
+        projectId: branch.projectId,
+        state: { chatMode: chatType },
+        branches: {
+            activeBranch: branch,
+            allBranches: [branch],
+            getBranchById: (id: string) => (id === branch.id ? branch : null),
+            getSandboxById: (id: string) => (id === branch.id ? sandbox : null),
+            getAllErrors: () => [],
+        },
+        chat: {
+            getCurrentConversationId: () => 'runner-conversation',
+            conversation: { current: { id: 'runner-conversation' } },
+            permissions: {
+                authorize: async (toolName: string, input: unknown) => {
+                    const { action, reason } = evaluateToolPermission(
+                        { toolName, input, branch: { id: branch.id, name: branch.name } },
+                        policy,
+                    );
+                    const allowed = action === 'allow' || (action === 'ask' && approve(toolName, input));
+                    return { allowed, reason };
+                },
+            },
+            review: {
+                writeFile: (branchId: string, path: string, content: string) =>
+                    getSandbox(branchId).writeFile(path, content),
+            },
+            plan: {
+                requestApproval: async (plan: string) => approvePlan(plan),
+            },
+            mcp: {
+                getServers: async () => [],
+            },
+            subagents: {
+                start: () => {
+                    throw new Error('Sub-agents are not supported by the agent runner');
+                },
+                setTranscript: () => {},
+                finish: () => {},
+            },
+        },
+        theme: {
+            initializeTailwindColorContent: async () => null,
+        },
+    } as unknown as EditorEngine;
+
+    return { editorEngine, sandbox };
+}
+
+function getSystemPromptForRun(chatType: ChatType) {
+    switch (chatType) {
+        case ChatType.ASK:
+            return getAskModeSystemPrompt();
+        case ChatType.PLAN:
+            return getPlanModeSystemPrompt();
+        default:
+            return getSystemPrompt();
+    }
+}
+
+export interface AgentRunResult {
+    messages: ChatMessage[];
+    toolCalls: { toolName: string; input: unknown; output: unknown }[];
+    /** Text of the final assistant message */
+    text: string;
+    steps: number;
+}
+
+/**
+ * Runs a conversation the way the editor does: the model is called one step at a time, and
+ * each client tool call is answered through `handleToolCall` before the next step.
+ */
+export async function runAgent({
+    model,
+    prompt,
+    messages: initialMessages = [],
+    maxSteps = 20,
+    ...options
+}: AgentRunnerOptions & {
+    model: LanguageModel;
+    prompt: string;
+    messages?: ChatMessage[];
+    maxSteps?: number;
+}): Promise<AgentRunResult> {
+    const chatType = options.chatType ?? ChatType.EDIT;
+    const { editorEngine } = createRunnerEditorEngine(options);
+    const messages: ChatMessage[] = [
+        ...initialMessages,
+        {
+            id: uuidv4(),
+            role: 'user',
+            parts: [{ type: 'text', text: prompt }],
+            metadata: {
+                createdAt: new Date(),
+                conversationId: 'runner-conversation',
+                context: [],
+                checkpoints: [],
+            },
+        },
+    ];
+    const toolCalls: AgentRunResult['toolCalls'] = [];
+
+    let steps = 0;
+    while (steps < maxSteps) {
+        steps++;
+        const result = streamText({
+            model,
+            system: getSystemPromptForRun(chatType),
+            tools: getToolSetFromType(chatType),
+            stopWhen: stepCountIs(1),
+            messages: convertToStreamMessages(messages),
+        });
+
+        let assistant: ChatMessage | undefined;
+        for await (const message of readUIMessageStream<ChatMessage>({
+            stream: result.toUIMessageStream<ChatMessage>({ generateMessageId: () => uuidv4() }),
+        })) {
+            assistant = message;
+        }
+        if (!assistant) {
+            break;
+        }
+        messages.push(assistant);
+
+        const pending = assistant.parts.filter(
+            (part): part is ToolUIPart =>
+                part.type.startsWith('tool-') && (part as ToolUIPart).state === 'input-available',
+        );
+        if (pending.length === 0) {
+            break;
+        }
+        for (const part of pending) {
+            const toolName = part.type.slice('tool-'.length);
+            await handleToolCall(
+                { toolCallId: part.toolCallId, toolName, input: part.input },
+                editorEngine,
+                async ({ output }) => {
+                    Object.assign(part, { state: 'output-available', output });
+                    toolCalls.push({ toolName, input: part.input, output });
+                },
+            );
+        }
+    }
+
+    const last = messages[messages.length - 1];
+    const text =
+        last?.role === 'assistant'
+            ? last.parts.map((part) => (part.type === 'text' ? part.text : '')).join('')
+            : '';
+    return { messages, toolCalls, text, steps };
+}
@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, mock, test } from 'bun:test';
+import type { WriteCodeAction } from '@onlook/models/actions';
+import type { EditorEngine } from '../../src/components/store/editor/engine';
+import { reverseWriteCodeAction } from '../../src/components/store/editor/history/helpers';
+
+const stored = new Map<string, unknown>();
+mock.module('localforage', () => ({
+    default: {
+        getItem: mock(async (key: string) => stored.get(key) ?? null),
+        setItem: mock(async (key: string, value: unknown) => stored.set(key, value)),
+        removeItem: mock(async (key: string) => stored.delete(key)),
+    },
+}));
+
+const { ReviewManager } = await import('../../src/components/store/editor/chat/review');
+
+const BRANCH_ID = 'branch-1';
+
+function createSandbox(initial: Record<string, string>) {
+    const files = new Map(Object.entries(initial));
+    return {
+        files,
+        fileExists: mock(async (path: string) => files.has(path)),
+        readFile: mock(async (path: string) => {
+            const content = files.get(path);
+            return content === undefined ? null : { type: 'text' as const, path, content };
+        }),
+        writeFile: mock(async (path: string, content: string) => {
+            files.set(path, content);
+            return true;
+        }),
+        delete: mock(async (path: string) => files.delete(path)),
+    };
+}
+
+describe('ReviewManager', () => {
+    let sandbox: ReturnType<typeof createSandbox>;
+    let recorded: WriteCodeAction[];
+    let review: InstanceType<typeof ReviewManager>;
+    let editorEngine: EditorEngine;
+
+    beforeEach(() => {
+        sandbox = createSandbox({ 'app/page.tsx': 'one\ntwo\nthree\n' });
+        recorded = [];
+        stored.clear();
+        editorEngine = {
+            projectId: 'project-1',
+            branches: {
+                getSandboxById: () => sandbox,
+                getBranchDataById: () => ({
+                    history: { record: (action: WriteCodeAction) => recorded.push(action) },
+                }),
+            },
+        } as unknown as EditorEngine;
+        review = new ReviewManager(editorEngine);
+    });
+
+    test('writes straight to the sandbox when review is off', async () => {
+        await review.writeFile(BRANCH_ID, 'app/page.tsx', 'changed\n');
+
+        expect(sandbox.files.get('app/page.tsx')).toBe('changed\n');
+        expect(review.hasPendingChanges).toBe(false);
+    });
+
+    test('previews staged edits and restores rejected hunks', async () => {
+        review.setEnabled(true);
+        await review.writeFile(BRANCH_ID, 'app/page.tsx', 'ONE\ntwo\nTHREE\n');
+
+        expect(sandbox.files.get('app/page.tsx')).toBe('ONE\ntwo\nTHREE\n');
+        const [file] = review.stagedFiles;
+        expect(file?.original).toBe('one\ntwo\nthree\n');
+        expect(review.pendingHunkCount).toBe(2);
+
+        await review.setHunkDecision(file!.key, 1, 'rejected');
+        expect(sandbox.files.get('app/page.tsx')).toBe('ONE\ntwo\nthree\n');
+        expect(recorded).toEqual([]);
+
+        await review.setHunkDecision(file!.key, 0, 'accepted');
+        expect(review.hasPendingChanges).toBe(false);
+        expect(recorded).toEqual([
+            {
+                type: 'write-code',
+                diffs: [
+                    {
+                        path: 'app/page.tsx',
+                        original: 'one\ntwo\nthree\n',
+                        generated: 'ONE\ntwo\nthree\n',
+                    },
+                ],
+            },
+        ]);
+    });
+
+    test('keeps the original of a file edited twice in one turn', async () => {
+        review.setEnabled(true);
+        await review.writeFile(BRANCH_ID, 'app/page.tsx', 'ONE\ntwo\nthree\n');
+        await review.writeFile(BRANCH_ID, 'app/page.tsx', 'ONE\nTWO\nthree\n');
+
+        await review.setAllDecisions('rejected');
+        expect(sandbox.files.get('app/page.tsx')).toBe('one\ntwo\nthree\n');
+        expect(recorded).toEqual([]);
+    });
+
+    test('deletes a new file when it is rejected', async () => {
+        review.setEnabled(true);
+        await review.writeFile(BRANCH_ID, 'app/new.tsx', 'new\n');
+        expect(review.stagedFiles[0]?.original).toBeNull();
+
+        await review.setFileDecision(`${BRANCH_ID}:app/new.tsx`, 'rejected');
+        expect(sandbox.files.has('app/new.tsx')).toBe(false);
+        expect(recorded).toEqual([]);
+    });
+
+    test('records a new file so undoing it deletes the file', async () => {
+        review.setEnabled(true);
+        await review.writeFile(BRANCH_ID, 'app/new.tsx', 'new\n');
+        await review.setAllDecisions('accepted');
+
+        const [action] = recorded;
+        expect(action?.diffs).toEqual([
+            { path: 'app/new.tsx', original: null, generated: 'new\n' },
+        ]);
+        expect(reverseWriteCodeAction(action!).diffs[0]?.generated).toBeNull();
+    });
+
+    test('restores staged files after the chat is cleared', async () => {
+        review.setEnabled(true);
+        await review.writeFile(BRANCH_ID, 'app/page.tsx', 'ONE\ntwo\nthree\n');
+        review.clear();
+        expect(review.hasPendingChanges).toBe(false);
+
+        const reopened = new ReviewManager(editorEngine);
+        await reopened.restore();
+        expect(reopened.stagedFiles[0]?.original).toBe('one\ntwo\nthree\n');
+
+        await reopened.setAllDecisions('rejected');
+        expect(sandbox.files.get('app/page.tsx')).toBe('one\ntwo\nthree\n');
+        expect(stored.size).toBe(0);
+    });
+});
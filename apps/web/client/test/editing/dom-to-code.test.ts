@@ -1,6 +1,6 @@
 import path from 'path';
 import { beforeAll, beforeEach, describe, expect, it, mock } from 'bun:test';
-import { StyleChangeType } from '../../../../../packages/models/src/style';
+import { PseudoState, StyleChangeType } from '../../../../../packages/models/src/style';
 import type { EditTextAction, UpdateStyleAction } from '../../../../../packages/models/src/actions/action';
 import type { TemplateNode } from '../../../../../packages/models/src/element/templateNode';
 
@@ -323,6 +323,60 @@ describe('DOM ↔ code mapping for disk-based projects', () => {
         expect(updated).toMatch(/className="[^"]*panel[\s\S]*p-4[^"]*"/);
     });
 
+    it('prefixes utilities with the variant of the edited state', async () => {
+        const action: UpdateStyleAction = {
+            type: 'update-style',
+            targets: [
+                {
+                    domId: 'odid-section',
+                    frameId: harness.frameId,
+                    oid: harness.oids.section,
+                    state: PseudoState.Hover,
+                    change: {
+                        original: {
+                            padding: { value: '0px', type: StyleChangeType.Value },
+                        },
+                        updated: {
+                            padding: { value: '1rem', type: StyleChangeType.Value },
+                        },
+                    },
+                },
+            ],
+        };
+
+        await harness.codeManager.write(action);
+        const updated = harness.fileSystem.get(harness.filePath);
+        expect(updated).toBeDefined();
+        expect(updated).toMatch(/className="panel hover:p-4"/);
+    });
+
+    it('writes breakpoint variants before state variants', async () => {
+        const action: UpdateStyleAction = {
+            type: 'update-style',
+            targets: [
+                {
+                    domId: 'odid-section',
+                    frameId: harness.frameId,
+                    oid: harness.oids.section,
+                    breakpoint: 'md',
+                    state: PseudoState.Hover,
+                    change: {
+                        original: {
+                            padding: { value: '0px', type: StyleChangeType.Value },
+                        },
+                        updated: {
+                            padding: { value: '1rem', type: StyleChangeType.Value },
+                        },
+                    },
+                },
+            ],
+        };
+
+        await harness.codeManager.write(action);
+        const updated = harness.fileSystem.get(harness.filePath);
+        expect(updated).toMatch(/className="panel md:hover:p-4"/);
+    });
+
     it('generates grid utility classes for layout changes', async () => {
         const action: UpdateStyleAction = {
             type: 'update-style',
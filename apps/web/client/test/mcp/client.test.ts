@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'bun:test';
+import { McpClient } from '../../src/server/mcp/client';
+import type { JsonRpcMessage, McpTransport } from '../../src/server/mcp/transport';
+
+/** Answers requests in memory the way an MCP server would */
+class FakeTransport implements McpTransport {
+    onMessage: McpTransport['onMessage'] = null;
+    onClose: McpTransport['onClose'] = null;
+    sent: JsonRpcMessage[] = [];
+
+    constructor(private handlers: Record<string, (params: any) => unknown>) {}
+
+    async start() {}
+
+    async send(message: JsonRpcMessage) {
+        this.sent.push(message);
+        if (message.id === undefined || !message.method) {
+            return;
+        }
+        const handler = this.handlers[message.method];
+        const reply: JsonRpcMessage = handler
+            ? { jsonrpc: '2.0', id: message.id, result: handler(message.params) }
+            : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'Not found' } };
+        queueMicrotask(() => this.onMessage?.(reply));
+    }
+
+    async close() {
+        this.onClose?.();
+    }
+}
+
+const initialize = (capabilities: object) => () => ({
+    protocolVersion: '2025-06-18',
+    capabilities,
+    serverInfo: { name: 'fake', version: '1.0.0' },
+});
+
+describe('McpClient', () => {
+    test('initializes and lists tools across pages', async () => {
+        const transport = new FakeTransport({
+            initialize: initialize({ tools: {} }),
+            'tools/list': (params: { cursor?: string }) =>
+                params.cursor
+                    ? { tools: [{ name: 'b', inputSchema: { type: 'object' } }] }
+                    : { tools: [{ name: 'a', inputSchema: { type: 'object' } }], nextCursor: 'next' },
+        });
+        const client = new McpClient(transport);
+        await client.connect();
+
+        expect(transport.sent.map((message) => message.method)).toEqual([
+            'initialize',
+            'notifications/initialized',
+        ]);
+        expect((await client.listTools()).map((tool) => tool.name)).toEqual(['a', 'b']);
+        // Capabilities the server did not declare are not requested
+        expect(await client.listResources()).toEqual([]);
+        expect(await client.listPrompts()).toEqual([]);
+    });
+
+    test('calls tools and rejects on errors', async () => {
+        const transport = new FakeTransport({
+            initialize: initialize({ tools: {} }),
+            'tools/call': (params: { name: string; arguments: unknown }) => ({
+                content: [{ type: 'text', text: JSON.stringify(params) }],
+            }),
+        });
+        const client = new McpClient(transport);
+        await client.connect();
+
+        const result = await client.callTool('echo', { value: 1 });
+        expect(result.content).toEqual([
+            { type: 'text', text: '{"name":"echo","arguments":{"value":1}}' },
+        ]);
+        await expect(client.readResource('design://tokens')).rejects.toThrow('Not found');
+    });
+
+    test('rejects pending requests when the server goes away', async () => {
+        const transport = new FakeTransport({ initialize: initialize({}) });
+        let closed = false;
+        const client = new McpClient(transport, () => {
+            closed = true;
+        });
+        await client.connect();
+
+        // The server never answers this one
+        transport.send = async (message) => {
+            transport.sent.push(message);
+        };
+        const pending = client.getPrompt('review');
+        transport.onClose?.(new Error('exited with code 1'));
+
+        await expect(pending).rejects.toThrow('exited with code 1');
+        expect(closed).toBe(true);
+        await expect(client.callTool('echo', {})).rejects.toThrow('not connected');
+    });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'bun:test';
+import type { ComponentProp } from '@onlook/models';
+import { getEditableProps, getPropType } from '../../src/components/store/editor/props/helpers';
+
+function prop(name: string, type: string | null, defaultValue: string | null = null): ComponentProp {
+    return { name, type, required: false, defaultValue };
+}
+
+describe('getPropType', () => {
+    test('maps primitive types to inputs', () => {
+        expect(getPropType(prop('label', 'string'))).toEqual({ type: 'string', default: '' });
+        expect(getPropType(prop('count', 'number', '3'))).toEqual({ type: 'number', default: 3 });
+        expect(getPropType(prop('disabled', 'boolean | undefined'))).toEqual({
+            type: 'boolean',
+            default: false,
+        });
+    });
+
+    test('maps unions of string literals to enums', () => {
+        expect(getPropType(prop('size', "'sm' | 'md' | 'lg'", "'md'"))).toEqual({
+            type: 'enum',
+            options: ['sm', 'md', 'lg'],
+            default: 'md',
+        });
+    });
+
+    test('detects color props by name or default value', () => {
+        expect(getPropType(prop('textColor', 'string'))?.type).toBe('color');
+        expect(getPropType(prop('tint', 'string', "'#ff0000'"))).toEqual({
+            type: 'color',
+            default: '#ff0000',
+        });
+    });
+
+    test('falls back to the default value for untyped props', () => {
+        expect(getPropType(prop('title', null, "'Hello'"))).toEqual({
+            type: 'string',
+            default: 'Hello',
+        });
+        expect(getPropType(prop('items', null))).toBeNull();
+    });
+
+    test('leaves out props that inputs cannot edit', () => {
+        expect(getPropType(prop('onClick', '() => void'))).toBeNull();
+        expect(getPropType(prop('icon', 'React.ReactNode'))).toBeNull();
+        expect(getPropType(prop('value', 'string | number'))).toBeNull();
+        expect(getPropType(prop('render', '(a: string | number) => void'))).toBeNull();
+    });
+});
+
+describe('getEditableProps', () => {
+    test('keeps the declared order of editable props', () => {
+        const props = getEditableProps([
+            prop('variant', "'primary' | 'secondary'"),
+            prop('onClick', '() => void'),
+            prop('label', 'string'),
+        ]);
+        expect(props.map((p) => p.name)).toEqual(['variant', 'label']);
+    });
+});
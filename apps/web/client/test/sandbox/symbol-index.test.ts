@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { CodeSymbolKind } from '@onlook/models';
+import { SymbolIndex } from '../../src/components/store/editor/sandbox/symbol-index';
+
+describe('SymbolIndex', () => {
+    let index: SymbolIndex;
+
+    beforeEach(() => {
+        index = new SymbolIndex();
+        index.update(
+            'src/components/ui/button.tsx',
+            [
+                'export function Button({ label }: { label: string }) {',
+                '    return <button>{label}</button>;',
+                '}',
+            ].join('\n'),
+        );
+        index.update('src/components/ui/index.ts', "export * from './button';");
+        index.update(
+            'src/app/page.tsx',
+            [
+                "import { Button } from '@/components/ui';",
+                '',
+                'export default function Page() {',
+                '    return <Button label="Go" />;',
+                '}',
+            ].join('\n'),
+        );
+        index.update(
+            'src/app/about/page.tsx',
+            [
+                "import { Button as Action } from '../../components/ui/button';",
+                '',
+                'export default function About() {',
+                '    return <Action label="About" />;',
+                '}',
+            ].join('\n'),
+        );
+    });
+
+    test('finds symbols by name and kind', () => {
+        expect(index.findSymbols('Button').map((symbol) => symbol.path)).toEqual([
+            'src/components/ui/button.tsx',
+        ]);
+        expect(index.findSymbols('page').map((symbol) => symbol.name)).toEqual(['Page']);
+        expect(index.findSymbols('Button', CodeSymbolKind.FUNCTION)).toEqual([]);
+    });
+
+    test('resolves relative and aliased imports', () => {
+        expect(index.resolveImport('src/app/page.tsx', '@/components/ui')).toBe(
+            'src/components/ui/index.ts',
+        );
+        expect(index.resolveImport('src/app/about/page.tsx', '../../components/ui/button')).toBe(
+            'src/components/ui/button.tsx',
+        );
+        expect(index.resolveImport('src/app/page.tsx', 'react')).toBeNull();
+    });
+
+    test('lists importers of a file', () => {
+        expect(index.getImporters('src/components/ui/button.tsx')).toEqual([
+            {
+                path: 'src/app/about/page.tsx',
+                line: 1,
+                names: ['Button'],
+                isReexport: false,
+            },
+            {
+                path: 'src/components/ui/index.ts',
+                line: 1,
+                names: ['*'],
+                isReexport: true,
+            },
+        ]);
+    });
+
+    test('finds references through renamed imports and re-exports', () => {
+        const [button] = index.findSymbols('Button');
+
+        expect(index.findReferences(button!)).toEqual([
+            { path: 'src/app/about/page.tsx', line: 1 },
+            { path: 'src/app/about/page.tsx', line: 4 },
+            { path: 'src/app/page.tsx', line: 1 },
+            { path: 'src/app/page.tsx', line: 4 },
+        ]);
+    });
+
+    test('follows renamed and removed files', () => {
+        index.rename('src/components/ui', 'src/components/base');
+        expect(index.findSymbols('Button')[0]?.path).toBe('src/components/base/button.tsx');
+        expect(index.resolveImport('src/app/page.tsx', '@/components/ui')).toBeNull();
+
+        index.remove('src/components');
+        expect(index.findSymbols('Button')).toEqual([]);
+        expect(index.size).toBe(2);
+    });
+});
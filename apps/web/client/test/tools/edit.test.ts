@@ -16,8 +16,15 @@ const mockBranches = {
     getSandboxById: vi.fn(),
 };
 
+// Review mode is off, so edits go straight to the sandbox
+const mockReview = {
+    writeFile: (branchId: string, path: string, content: string) =>
+        mockBranches.getSandboxById(branchId).writeFile(path, content),
+};
+
 const mockEditorEngine = {
     branches: mockBranches,
+    chat: { review: mockReview },
 } as unknown as EditorEngine;
 
 describe('Edit Tool Handlers', () => {
@@ -1,7 +1,7 @@
 import { EditorAttributes } from '@onlook/constants';
 import type { LayerNode } from '@onlook/models';
 import debounce from 'lodash/debounce';
-import { isValidHtmlElement } from '../helpers/dom';
+import { getHtmlElementByOid, isValidHtmlElement } from '../helpers/dom';
 import { getInstanceId, getOid, getOrAssignDomId } from '../helpers/ids';
 import { publishDomProcessed } from './events/publish';
 import { getFrameId } from './state';
@@ -40,6 +40,23 @@ function processDomDebounced(root: HTMLElement = document.body): ProcessDomResul
 
 export const processDom = debounce(processDomDebounced, 500);
 
+/**
+ * Builds the layer tree right away, from the first element with the oid or from the body.
+ * Unlike `buildLayerTree`, it can be called over penpal.
+ */
+export function getLayerTree(oid?: string): ProcessDomResult | null {
+    const root = oid ? getHtmlElementByOid(oid) : document.body;
+    if (!root) {
+        return null;
+    }
+    const layerMap = buildLayerTree(root);
+    const rootDomId = root.getAttribute(EditorAttributes.DATA_ONLOOK_DOM_ID);
+    if (!layerMap || !rootDomId) {
+        return null;
+    }
+    return { rootDomId, layerMap: Array.from(layerMap.entries()) };
+}
+
 // Filter conditions for nodes to reject in layer tree
 const FILTER_CONDITIONS = [
     (element: HTMLElement) => {
@@ -79,6 +79,39 @@ export function getActionLocation(domId: string): ActionLocation | null {
     };
 }
 
+/**
+ * Index in the parent's code of the position `index` among its children, where the
+ * elements rendered by one `.map()` count as one child. `excludeDomId` leaves out an
+ * element being moved.
+ */
+export function getTemplateIndex(
+    parentDomId: string,
+    index: number,
+    excludeDomId: string | null = null,
+): number {
+    const parent = getHtmlElement(parentDomId);
+    if (!parent) {
+        return index;
+    }
+    const arrayType: `${DynamicType}` = 'array';
+    const siblings = Array.from(parent.children)
+        .filter((child) => child.getAttribute(EditorAttributes.DATA_ONLOOK_DOM_ID) !== excludeDomId)
+        .slice(0, index);
+
+    let templateIndex = 0;
+    let previousListOid: string | null = null;
+    for (const sibling of siblings) {
+        const oid = sibling.getAttribute(EditorAttributes.DATA_ONLOOK_ID);
+        const isListItem =
+            sibling.getAttribute(EditorAttributes.DATA_ONLOOK_DYNAMIC_TYPE) === arrayType;
+        if (!isListItem || !oid || oid !== previousListOid) {
+            templateIndex++;
+        }
+        previousListOid = isListItem ? oid : null;
+    }
+    return templateIndex;
+}
+
 export function getElementType(domId: string): {
     dynamicType: DynamicType | null;
     coreType: CoreElementType | null;
@@ -52,6 +52,7 @@ export const getDomElement = (el: HTMLElement, getStyle: boolean): DomElement =>
         tagName: el.tagName,
         parent: parentDomElement,
         styles,
+        classes: Array.from(el.classList),
     };
     return domElement;
 };
@@ -63,6 +63,12 @@ export const getChildrenCount = (domId: string) => {
     return el.children.length;
 };
 
+// Elements rendered from the same code, as the items of a `.map()` are
+export const getElementCountByOid = (oid: string) => {
+    return document.querySelectorAll(`[${EditorAttributes.DATA_ONLOOK_ID}="${CSS.escape(oid)}"]`)
+        .length;
+};
+
 export const getOffsetParent = (domId: string) => {
     const el = getHtmlElement(domId);
     if (!el) {
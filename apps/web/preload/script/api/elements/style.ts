@@ -1,5 +1,5 @@
 import type { DomElementStyles } from '@onlook/models';
-import { getHtmlElement, jsonClone } from '../../helpers';
+import { getHtmlElement, getHtmlElementByOid, jsonClone } from '../../helpers';
 
 export function getStyles(element: HTMLElement): DomElementStyles {
     const computed = getElComputedStyle(element);
@@ -27,6 +27,21 @@ export function getComputedStyleByDomId(domId: string): Record<string, string> {
     return getElComputedStyle(element as HTMLElement);
 }
 
+// Keyed by CSS property names, e.g. `background-color`
+export function getComputedStyleByOid(oid: string): Record<string, string> | null {
+    const element = getHtmlElementByOid(oid);
+    if (!element) {
+        return null;
+    }
+    const computedStyle = window.getComputedStyle(element);
+    const styles: Record<string, string> = {};
+    for (let i = 0; i < computedStyle.length; i++) {
+        const property = computedStyle.item(i);
+        styles[property] = computedStyle.getPropertyValue(property);
+    }
+    return styles;
+}
+
 function getElComputedStyle(element: HTMLElement): Record<string, string> {
     const computedStyle = jsonClone(window.getComputedStyle(element)) as unknown as Record<
         string,
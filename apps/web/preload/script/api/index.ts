@@ -1,8 +1,9 @@
-import { buildLayerTree, processDom, type ProcessDomResult } from './dom';
+import { buildLayerTree, getLayerTree, processDom, type ProcessDomResult } from './dom';
 import {
     getChildrenCount,
     getElementAtLoc,
     getElementByDomId,
+    getElementCountByOid,
     getOffsetParent,
     getParentElement,
     updateElementInstance
@@ -13,6 +14,7 @@ import {
     getActionLocation,
     getElementType,
     getFirstOnlookElement,
+    getTemplateIndex,
     setElementType,
 } from './elements/dom/helpers';
 import { insertImage, removeImage } from './elements/dom/image';
@@ -20,12 +22,12 @@ import { getInsertLocation, insertElement, removeElement } from './elements/dom/
 import { getRemoveAction } from './elements/dom/remove';
 import { getElementIndex, moveElement } from './elements/move';
 import { drag, dragAbsolute, endAllDrag, endDrag, endDragAbsolute, startDrag } from './elements/move/drag';
-import { getComputedStyleByDomId } from './elements/style';
+import { getComputedStyleByDomId, getComputedStyleByOid } from './elements/style';
 import { editText, isChildTextEditable, startEditingText, stopEditingText } from './elements/text';
 import { handleBodyReady } from './ready';
 import { captureScreenshot } from './screenshot';
 import { setFrameId } from './state';
-import { updateStyle } from './style';
+import { forceState, updateStyle } from './style';
 import { getTheme, setTheme } from './theme';
 
 function withTryCatch<T extends (...args: any[]) => any>(fn: T): T {
@@ -44,10 +46,12 @@ const rawMethods = {
     processDom,
     setFrameId,
     getComputedStyleByDomId,
+    getComputedStyleByOid,
     updateElementInstance,
     getFirstOnlookElement,
     captureScreenshot,
     buildLayerTree,
+    getLayerTree,
 
     // Elements
     getElementAtLoc,
@@ -58,12 +62,14 @@ const rawMethods = {
     getParentElement,
     getChildrenCount,
     getOffsetParent,
+    getElementCountByOid,
 
     // Actions
     getActionLocation,
     getActionElement,
     getInsertLocation,
     getRemoveAction,
+    getTemplateIndex,
 
     // Theme
     getTheme,
@@ -85,6 +91,7 @@ const rawMethods = {
 
     // Edit elements
     updateStyle,
+    forceState,
     insertElement,
     removeElement,
     moveElement,
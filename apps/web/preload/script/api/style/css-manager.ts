@@ -1,5 +1,5 @@
 import { EditorAttributes } from '@onlook/constants';
-import type { StyleChange } from '@onlook/models';
+import { PseudoState, type StyleChange } from '@onlook/models';
 import { generate, parse, walk, type CssNode, type Declaration, type Raw, type Rule, type SelectorList } from 'css-tree';
 import { getDomIdSelector } from '../../helpers';
 
@@ -44,9 +44,11 @@ class CSSManager {
         styleElement.textContent = generate(ast);
     }
 
-    private createStylesheet(): HTMLStyleElement {
+    private createStylesheet(
+        id: string = EditorAttributes.ONLOOK_STYLESHEET_ID,
+    ): HTMLStyleElement {
         const styleElement = document.createElement('style');
-        styleElement.id = EditorAttributes.ONLOOK_STYLESHEET_ID;
+        styleElement.id = id;
         document.head.appendChild(styleElement);
         return styleElement;
     }
@@ -58,6 +60,11 @@ class CSSManager {
             enter: (node: CssNode) => {
                 if (node.type === 'Rule') {
                     const rule = node as Rule;
+                    // Rules for a state are found by their whole selector list
+                    if (generate(rule.prelude) === selectorToFind) {
+                        matchingNodes.push(node);
+                        return;
+                    }
                     if (rule.prelude.type === 'SelectorList') {
                         (rule.prelude as SelectorList).children.forEach((selector) => {
                             const selectorText = generate(selector);
@@ -72,8 +79,12 @@ class CSSManager {
         return matchingNodes;
     }
 
-    public updateStyle(domId: string, style: Record<string, StyleChange>) {
-        const selector = getDomIdSelector(domId, false);
+    public updateStyle(
+        domId: string,
+        style: Record<string, StyleChange>,
+        state: PseudoState = PseudoState.Default,
+    ) {
+        const selector = this.getStateSelector(domId, state);
         const ast = this.stylesheet;
         for (const [property, value] of Object.entries(style)) {
             const cssProperty = this.jsToCssProperty(property);
@@ -192,6 +203,81 @@ class CSSManager {
         return key.replace(/-([a-z])/g, (g) => g[1]?.toUpperCase() ?? '');
     }
 
+    /**
+     * Selector of an element in a state. The element also matches while the state is forced
+     * on it, since the frame cannot be hovered or focused while it is being edited.
+     */
+    getStateSelector(domId: string, state: PseudoState): string {
+        const selector = getDomIdSelector(domId, false);
+        if (state === PseudoState.Default) {
+            return selector;
+        }
+        return `${selector}:${state},${selector}${this.getForcedStateSelector(state)}`;
+    }
+
+    private getForcedStateSelector(state: PseudoState): string {
+        return `[${EditorAttributes.DATA_ONLOOK_FORCED_STATE}="${state}"]`;
+    }
+
+    /**
+     * Copies the page's rules for the states forced on elements, with the pseudo-class
+     * replaced by the forced state attribute, so forced elements look like they are in it.
+     */
+    public updateForcedStateRules() {
+        const forcedStates = new Set(
+            Array.from(
+                document.querySelectorAll(`[${EditorAttributes.DATA_ONLOOK_FORCED_STATE}]`),
+            ).map((el) => el.getAttribute(EditorAttributes.DATA_ONLOOK_FORCED_STATE) as PseudoState),
+        );
+        const rules: string[] = [];
+        if (forcedStates.size > 0) {
+            for (const sheet of Array.from(document.styleSheets)) {
+                const owner = sheet.ownerNode as HTMLElement | null;
+                if (
+                    owner?.id === EditorAttributes.ONLOOK_STYLESHEET_ID ||
+                    owner?.id === EditorAttributes.ONLOOK_FORCED_STATE_STYLESHEET_ID
+                ) {
+                    continue;
+                }
+                try {
+                    this.collectForcedStateRules(Array.from(sheet.cssRules), forcedStates, rules);
+                } catch (e) {
+                    console.warn("Can't read the css rules of: " + sheet.href, e);
+                }
+            }
+        }
+
+        const styleElement =
+            document.getElementById(EditorAttributes.ONLOOK_FORCED_STATE_STYLESHEET_ID) ??
+            this.createStylesheet(EditorAttributes.ONLOOK_FORCED_STATE_STYLESHEET_ID);
+        styleElement.textContent = rules.join('\n');
+    }
+
+    private collectForcedStateRules(
+        cssRules: CSSRule[],
+        forcedStates: Set<PseudoState>,
+        rules: string[],
+    ) {
+        for (const rule of cssRules) {
+            if (rule instanceof CSSStyleRule) {
+                for (const state of forcedStates) {
+                    const pseudoClass = new RegExp(`:${state}(?![\\w-])`, 'g');
+                    const selectors = splitSelectorList(rule.selectorText)
+                        .filter((selector) => selector.search(pseudoClass) !== -1)
+                        .map((selector) =>
+                            selector.replace(pseudoClass, this.getForcedStateSelector(state)),
+                        );
+                    if (selectors.length > 0) {
+                        rules.push(`${selectors.join(',')} { ${rule.style.cssText} }`);
+                    }
+                }
+            } else if (rule instanceof CSSGroupingRule) {
+                // Media queries and layers are flattened, the forced state applies regardless
+                this.collectForcedStateRules(Array.from(rule.cssRules), forcedStates, rules);
+            }
+        }
+    }
+
     public removeStyles(domId: string, jsStyles: string[]) {
         const selector = getDomIdSelector(domId, false);
         const ast = this.stylesheet;
@@ -214,4 +300,25 @@ class CSSManager {
     }
 }
 
+/** Splits a selector list on its top-level commas, keeping those inside `:is(...)` and the like */
+function splitSelectorList(selectorText: string): string[] {
+    const selectors: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of selectorText) {
+        if (char === '(' || char === '[') {
+            depth++;
+        } else if (char === ')' || char === ']') {
+            depth--;
+        } else if (char === ',' && depth === 0) {
+            selectors.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    selectors.push(current.trim());
+    return selectors.filter(Boolean);
+}
+
 export const cssManager = CSSManager.getInstance();
@@ -1,8 +1,29 @@
-import type { Change, DomElement, StyleChange } from "@onlook/models";
+import type { Change, DomElement, PseudoState, StyleChange } from "@onlook/models";
+import { EditorAttributes } from "@onlook/constants";
+import { getHtmlElement } from "../../helpers";
 import { getElementByDomId } from "../elements";
 import { cssManager } from "./css-manager";
 
-export function updateStyle(domId: string, change: Change<Record<string, StyleChange>>): DomElement | null {
-    cssManager.updateStyle(domId, change.updated);
+export function updateStyle(
+    domId: string,
+    change: Change<Record<string, StyleChange>>,
+    state?: PseudoState,
+): DomElement | null {
+    cssManager.updateStyle(domId, change.updated, state);
+    return getElementByDomId(domId, true);
+}
+
+// Shows the element as if it were in the state, or as it is when the state is null
+export function forceState(domId: string, state: PseudoState | null): DomElement | null {
+    const element = getHtmlElement(domId);
+    if (!element) {
+        return null;
+    }
+    if (state) {
+        element.setAttribute(EditorAttributes.DATA_ONLOOK_FORCED_STATE, state);
+    } else {
+        element.removeAttribute(EditorAttributes.DATA_ONLOOK_FORCED_STATE);
+    }
+    cssManager.updateForcedStateRules();
     return getElementByDomId(domId, true);
 }
@@ -4,6 +4,10 @@ export function getHtmlElement(domId: string): HTMLElement | null {
     return document.querySelector(`[${EditorAttributes.DATA_ONLOOK_DOM_ID}="${domId}"]`);
 }
 
+export function getHtmlElementByOid(oid: string): HTMLElement | null {
+    return document.querySelector(`[${EditorAttributes.DATA_ONLOOK_ID}="${oid}"]`);
+}
+
 export function getDomIdSelector(domId: string, escape: boolean = false) {
     const selector = `[${EditorAttributes.DATA_ONLOOK_DOM_ID}="${domId}"]`;
     if (!escape) {
@@ -0,0 +1,69 @@
+import type { ChatMessage } from '@onlook/models';
+import type { ToolSet } from 'ai';
+import { READ_ONLY_TOOL_SET, SEARCH_TOOL_SET, TASK_TOOL_NAME, type SubagentType } from '../tools';
+
+export interface SubagentDefinition {
+    type: SubagentType;
+    tools: ToolSet;
+    /** Model calls the sub-agent may make, including the final answer */
+    maxSteps: number;
+}
+
+export const SUBAGENTS: Record<SubagentType, SubagentDefinition> = {
+    'general-purpose': {
+        type: 'general-purpose',
+        tools: READ_ONLY_TOOL_SET,
+        maxSteps: 12,
+    },
+    'codebase-search': {
+        type: 'codebase-search',
+        tools: SEARCH_TOOL_SET,
+        maxSteps: 8,
+    },
+};
+
+export function getSubagent(type: string): SubagentDefinition {
+    const subagent = SUBAGENTS[type as SubagentType];
+    if (!subagent) {
+        throw new Error(`Unknown sub-agent type: ${type}`);
+    }
+    return subagent;
+}
+
+/** Each step of a sub-agent transcript is a separate assistant message */
+export function countSubagentSteps(messages: ChatMessage[]): number {
+    return messages.filter((message) => message.role === 'assistant').length;
+}
+
+export interface TaskToolOutput {
+    result: string;
+    stepsUsed: number;
+    maxSteps: number;
+    /** The budget ran out before the sub-agent answered */
+    stoppedEarly: boolean;
+    /** Kept for the UI; stripped before the parent conversation is sent to the model */
+    transcript?: ChatMessage[];
+}
+
+export function condenseTaskToolOutputs(message: ChatMessage): ChatMessage {
+    const hasTranscript = message.parts.some(
+        (part) =>
+            part.type === `tool-${TASK_TOOL_NAME}` &&
+            part.state === 'output-available' &&
+            !!(part.output as TaskToolOutput | undefined)?.transcript,
+    );
+    if (!hasTranscript) {
+        return message;
+    }
+
+    return {
+        ...message,
+        parts: message.parts.map((part) => {
+            if (part.type !== `tool-${TASK_TOOL_NAME}` || part.state !== 'output-available') {
+                return part;
+            }
+            const { transcript, ...output } = part.output as TaskToolOutput;
+            return { ...part, output };
+        }),
+    };
+}
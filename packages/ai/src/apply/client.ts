@@ -1,4 +1,5 @@
 import OpenAI from 'openai';
+import { applyLazyEdit, MIN_LOCAL_APPLY_CONFIDENCE } from './local';
 
 export interface ApplyCodeChangeMetadata {
     userId?: string;
@@ -133,3 +134,60 @@ export async function applyCodeChange(
 
     return null;
 }
+
+export interface ApplyCodeEditResult {
+    code: string;
+    provider: 'local' | FastApplyProvider;
+    /** Confidence of the local merge, even when a remote provider applied the edit instead */
+    confidence: number;
+}
+
+/** Remote providers are only used when their API key is set */
+export function getConfiguredFastApplyProvider(): FastApplyProvider | null {
+    if (process.env.MORPH_API_KEY) {
+        return FastApplyProvider.MORPH;
+    }
+    if (process.env.RELACE_API_KEY) {
+        return FastApplyProvider.RELACE;
+    }
+    return null;
+}
+
+/**
+ * Applies the edit locally, and asks a remote provider only when the local merge is not
+ * confident and one is configured.
+ */
+export async function applyCodeEdit(
+    originalCode: string,
+    updateSnippet: string,
+    instruction: string,
+    metadata?: ApplyCodeChangeMetadata,
+): Promise<ApplyCodeEditResult> {
+    const local = applyLazyEdit(originalCode, updateSnippet);
+    if (local.code !== null && local.confidence >= MIN_LOCAL_APPLY_CONFIDENCE) {
+        return { code: local.code, provider: 'local', confidence: local.confidence };
+    }
+
+    const provider = getConfiguredFastApplyProvider();
+    if (provider) {
+        try {
+            const code = await applyCodeChange(
+                originalCode,
+                updateSnippet,
+                instruction,
+                metadata,
+                provider,
+            );
+            if (code) {
+                return { code, provider, confidence: local.confidence };
+            }
+        } catch (error) {
+            console.warn('Remote code application failed:', error);
+        }
+    }
+
+    const reasons = local.reasons.join('; ');
+    throw new Error(
+        `Could not apply the edit reliably (confidence ${local.confidence.toFixed(2)}): ${reasons}. Include more unchanged lines around each change, or use search and replace instead.`,
+    );
+}
@@ -0,0 +1,744 @@
+import { parse, types as t, type t as T } from '@onlook/parser';
+
+/** How the least certain part of the edit was placed, from most to least reliable */
+export type LocalApplyMethod = 'ast' | 'lines' | 'fuzzy';
+
+export interface LocalApplyResult {
+    code: string | null;
+    /** 0 to 1, the product of the confidence of every part of the edit */
+    confidence: number;
+    method: LocalApplyMethod | null;
+    /** Why the confidence was lowered or the edit could not be applied */
+    reasons: string[];
+}
+
+/** Below this a local merge is not trusted on its own */
+export const MIN_LOCAL_APPLY_CONFIDENCE = 0.8;
+/** Lines at least this similar can still anchor an edit */
+const MIN_FUZZY_LINE_SIMILARITY = 0.8;
+/** Lines of a part tried for an approximate match when none of them match exactly */
+const MAX_FUZZY_ANCHOR_LINES = 3;
+const AMBIGUOUS_ANCHOR_PENALTY = 0.7;
+const GUESSED_POSITION_PENALTY = 0.9;
+const RESHAPED_LINE_PENALTY = 0.95;
+const UNPARSABLE_RESULT_PENALTY = 0.5;
+const REWRITE_CONFIDENCE = 0.5;
+/** Replacing more original lines than this that the snippet does not mention lowers confidence */
+const MAX_UNMENTIONED_DELETIONS = 10;
+const UNMENTIONED_DELETIONS_PENALTY = 0.7;
+
+const COMMENT_LINE = /^(?:\{\s*)?(?:\/\/+|\/\*+|<!--|#)\s*(.*?)\s*(?:\*+\/\s*\}?|-->)?$/;
+const MARKER_TEXT = /^(?:\.{3}|…)|(?:\.{3}|…)$|\b(?:existing|unchanged|rest of|remaining)\b/i;
+
+/** Comment lines such as `// ... existing code ...` that stand in for unchanged code */
+export function isExistingCodeMarker(line: string): boolean {
+    const match = COMMENT_LINE.exec(line.trim());
+    return !!match && MARKER_TEXT.test(match[1] ?? '');
+}
+
+interface Chunk {
+    lines: string[];
+    /** Snippet line of each line, to find the declarations the chunk belongs to */
+    snippetLines: number[];
+    markerBefore: boolean;
+    markerAfter: boolean;
+}
+
+interface Declaration {
+    name: string;
+    /** First and last line, 0-based and inclusive */
+    start: number;
+    end: number;
+}
+
+interface Replacement {
+    /** Original lines `start` to `end` inclusive are replaced; `end < start` inserts */
+    start: number;
+    end: number;
+    lines: string[];
+}
+
+/** Lines of a chunk that belong to one top-level declaration of the snippet */
+interface Piece {
+    declaration: Declaration;
+    lines: string[];
+    /** Whether the piece includes the first and last line of the declaration */
+    hasStart: boolean;
+    hasEnd: boolean;
+}
+
+interface PiecePlacement {
+    replacement: Replacement;
+    confidence: number;
+    reasons: string[];
+}
+
+interface Placement {
+    replacements: Replacement[];
+    confidence: number;
+    method: LocalApplyMethod;
+    reasons: string[];
+}
+
+const normalize = (line: string) => line.trim().replace(/\s+/g, ' ');
+
+// Tag, property or keyword a line starts with
+const LINE_SHAPE = /^(?:<\/?[\w.:-]+|[\w$.-]+\s*[:=]|(?:const|let|var|return|export|import)\b)/;
+
+function sameShape(a: string, b: string): boolean {
+    const shape = LINE_SHAPE.exec(a)?.[0];
+    return !!shape && shape === LINE_SHAPE.exec(b)?.[0];
+}
+
+// Braces and closing tags alone match too many places to anchor anything
+const isSignificant = (normalized: string) =>
+    normalized.replace(/[\s{}()[\];,<>/]/g, '').length >= 3;
+
+function similarity(a: string, b: string): number {
+    if (a === b) {
+        return 1;
+    }
+    const longest = Math.max(a.length, b.length);
+    if (Math.min(a.length, b.length) / longest < MIN_FUZZY_LINE_SIMILARITY) {
+        return 0;
+    }
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j]! + 1,
+                current[j - 1]! + 1,
+                previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1),
+            );
+        }
+        previous = current;
+    }
+    return 1 - previous[b.length]! / longest;
+}
+
+function splitSnippet(snippet: string): { chunks: Chunk[]; hasMarkers: boolean } {
+    const chunks: Chunk[] = [];
+    let current: Chunk | null = null;
+    let markerBefore = false;
+    let hasMarkers = false;
+
+    const lines = snippet.split(/\r?\n/);
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index]!;
+        if (isExistingCodeMarker(line)) {
+            hasMarkers = true;
+            if (current) {
+                current.markerAfter = true;
+                chunks.push(current);
+                current = null;
+            }
+            markerBefore = true;
+            continue;
+        }
+        if (!current) {
+            current = { lines: [], snippetLines: [], markerBefore, markerAfter: false };
+            markerBefore = false;
+        }
+        current.lines.push(line);
+        current.snippetLines.push(index);
+    }
+    if (current) {
+        chunks.push(current);
+    }
+
+    // Blank lines next to markers belong to the unchanged code
+    for (const chunk of chunks) {
+        while (chunk.lines.length > 0 && !chunk.lines[0]!.trim()) {
+            chunk.lines.shift();
+            chunk.snippetLines.shift();
+        }
+        while (chunk.lines.length > 0 && !chunk.lines[chunk.lines.length - 1]!.trim()) {
+            chunk.lines.pop();
+            chunk.snippetLines.pop();
+        }
+    }
+    return { chunks: chunks.filter((chunk) => chunk.lines.length > 0), hasMarkers };
+}
+
+function parseModule(code: string, errorRecovery: boolean): T.File | null {
+    try {
+        return parse(code, {
+            sourceType: 'module',
+            errorRecovery,
+            plugins: ['typescript', 'jsx'],
+        });
+    } catch {
+        return null;
+    }
+}
+
+function getDeclarationName(node: T.Node): string | null {
+    if (t.isImportDeclaration(node)) {
+        return `import:${node.source.value}`;
+    }
+    if (t.isExportNamedDeclaration(node) || t.isExportDefaultDeclaration(node)) {
+        const name = node.declaration ? getDeclarationName(node.declaration) : null;
+        return name ?? (t.isExportDefaultDeclaration(node) ? 'export:default' : null);
+    }
+    if (
+        t.isFunctionDeclaration(node) ||
+        t.isClassDeclaration(node) ||
+        t.isTSInterfaceDeclaration(node) ||
+        t.isTSTypeAliasDeclaration(node) ||
+        t.isTSEnumDeclaration(node)
+    ) {
+        return node.id?.name ?? null;
+    }
+    if (t.isVariableDeclaration(node)) {
+        const id = node.declarations[0]?.id;
+        return t.isIdentifier(id) ? id.name : null;
+    }
+    return null;
+}
+
+/**
+ * Named top-level statements including the comments above them, or null when the code is not
+ * JavaScript or TypeScript
+ */
+function getDeclarations(code: string): Declaration[] | null {
+    const ast = parseModule(code, true);
+    if (!ast) {
+        return null;
+    }
+    const lines = code.split(/\r?\n/);
+    const declarations: Declaration[] = [];
+    for (const node of ast.program.body) {
+        const name = getDeclarationName(node);
+        if (!name || !node.loc) {
+            continue;
+        }
+        let start = node.loc.start.line - 1;
+        for (const comment of [...(node.leadingComments ?? [])].reverse()) {
+            const line = comment.loc ? comment.loc.start.line - 1 : -1;
+            if (line < 0 || isExistingCodeMarker(lines[line] ?? '')) {
+                break;
+            }
+            start = Math.min(start, line);
+        }
+        declarations.push({ name, start, end: node.loc.end.line - 1 });
+    }
+    return declarations;
+}
+
+interface Anchor {
+    /** Index of the anchoring line in the chunk */
+    index: number;
+    position: number;
+    confidence: number;
+    fuzzy: boolean;
+    reasons: string[];
+}
+
+interface Alignment {
+    first: number;
+    last: number;
+    confidence: number;
+    fuzzy: boolean;
+    reasons: string[];
+}
+
+class Merger {
+    private readonly normalized: string[];
+    private readonly counterparts = new Map<string, Declaration>();
+
+    constructor(
+        private readonly original: string[],
+        private readonly snippetDeclarations: Declaration[] | null,
+        originalDeclarations: Declaration[] | null,
+    ) {
+        this.normalized = original.map(normalize);
+        const names = new Map<string, number>();
+        for (const declaration of originalDeclarations ?? []) {
+            names.set(declaration.name, (names.get(declaration.name) ?? 0) + 1);
+        }
+        // Only declarations that appear once can be matched by name
+        for (const declaration of originalDeclarations ?? []) {
+            if (names.get(declaration.name) === 1) {
+                this.counterparts.set(declaration.name, declaration);
+            }
+        }
+    }
+
+    place(chunk: Chunk, cursor: number, isFirst: boolean, isLast: boolean): Placement | null {
+        return (
+            this.placeByDeclarations(chunk, cursor) ??
+            this.placeByLines(chunk, cursor) ??
+            this.placeUnanchored(chunk, cursor, isFirst, isLast)
+        );
+    }
+
+    /**
+     * Splits the chunk by the top-level declarations its lines belong to and places each piece
+     * within the original declaration of the same name. Chunks with unnamed statements are left
+     * to line matching.
+     */
+    private placeByDeclarations(chunk: Chunk, cursor: number): Placement | null {
+        const pieces = this.splitByDeclarations(chunk);
+        if (!pieces) {
+            return null;
+        }
+
+        const replacements: Replacement[] = [];
+        const reasons: string[] = [];
+        let confidence = 1;
+        let position = cursor;
+        let previous: Replacement | null = null;
+        for (const piece of pieces) {
+            const counterpart = this.counterparts.get(piece.declaration.name);
+            const placement: PiecePlacement | null = counterpart
+                ? this.placeExistingPiece(piece, counterpart, position)
+                : this.placeNewPiece(piece, position, previous);
+            if (!placement) {
+                return null;
+            }
+            replacements.push(placement.replacement);
+            reasons.push(...placement.reasons);
+            confidence *= placement.confidence;
+            position = placement.replacement.end + 1;
+            previous = placement.replacement;
+        }
+        return { replacements, confidence, method: 'ast', reasons };
+    }
+
+    private splitByDeclarations(chunk: Chunk): Piece[] | null {
+        if (!this.snippetDeclarations) {
+            return null;
+        }
+        const pieces: Piece[] = [];
+        for (const [index, line] of chunk.lines.entries()) {
+            const snippetLine = chunk.snippetLines[index]!;
+            const declaration = this.snippetDeclarations.find(
+                ({ start, end }) => start <= snippetLine && snippetLine <= end,
+            );
+            if (!declaration) {
+                // Blank lines between declarations stay as they are in the original
+                if (line.trim()) {
+                    return null;
+                }
+                continue;
+            }
+            let piece = pieces[pieces.length - 1];
+            if (piece?.declaration !== declaration) {
+                piece = {
+                    declaration,
+                    lines: [],
+                    hasStart: snippetLine === declaration.start,
+                    hasEnd: false,
+                };
+                pieces.push(piece);
+            }
+            piece.lines.push(line);
+            piece.hasEnd = snippetLine === declaration.end;
+        }
+        return pieces.length > 0 ? pieces : null;
+    }
+
+    private placeExistingPiece(
+        piece: Piece,
+        counterpart: Declaration,
+        cursor: number,
+    ): PiecePlacement | null {
+        const { start, end } = counterpart;
+        if (end < cursor || (piece.hasStart && start < cursor)) {
+            return null;
+        }
+        const from = Math.max(cursor, start);
+        const lines = piece.lines.map(normalize);
+
+        if (piece.hasStart && piece.hasEnd) {
+            return { replacement: { start, end, lines: piece.lines }, confidence: 1, reasons: [] };
+        }
+        // Only the part of the declaration up to the last line found in it is replaced, or
+        // its unchanged first lines when none are found
+        if (piece.hasStart) {
+            const alignment = this.alignLines(lines, start, end, false);
+            let prefix = 0;
+            while (
+                prefix < lines.length &&
+                start + prefix <= end &&
+                lines[prefix] === this.normalized[start + prefix]
+            ) {
+                prefix++;
+            }
+            return {
+                replacement: {
+                    start,
+                    end: Math.max(start + Math.max(prefix - 1, 0), alignment?.last ?? start),
+                    lines: piece.lines,
+                },
+                confidence: alignment?.confidence ?? 1,
+                reasons: alignment?.reasons ?? [],
+            };
+        }
+        // And likewise from the first line found in it to its end
+        if (piece.hasEnd) {
+            const alignment = this.alignLines(lines, from, end, false);
+            let suffix = 0;
+            while (
+                suffix < lines.length &&
+                end - suffix >= from &&
+                lines[lines.length - 1 - suffix] === this.normalized[end - suffix]
+            ) {
+                suffix++;
+            }
+            return {
+                replacement: {
+                    start: Math.min(end - Math.max(suffix - 1, 0), alignment?.first ?? end),
+                    end,
+                    lines: piece.lines,
+                },
+                confidence: alignment?.confidence ?? 1,
+                reasons: alignment?.reasons ?? [],
+            };
+        }
+        const alignment = this.alignLines(lines, from, end, true);
+        if (!alignment) {
+            return null;
+        }
+        return {
+            replacement: { start: alignment.first, end: alignment.last, lines: piece.lines },
+            confidence: alignment.confidence,
+            reasons: alignment.reasons,
+        };
+    }
+
+    /**
+     * New declarations go after the piece or declaration before them in the snippet, or before
+     * the declaration after them
+     */
+    private placeNewPiece(
+        piece: Piece,
+        cursor: number,
+        previous: Replacement | null,
+    ): PiecePlacement | null {
+        const declarations = this.snippetDeclarations ?? [];
+        // Imports are kept together, other declarations are separated by a blank line
+        const separator = piece.declaration.name.startsWith('import:') ? [] : [''];
+        const after =
+            previous?.end ??
+            declarations
+                .filter((declaration) => declaration.end < piece.declaration.start)
+                .map((declaration) => this.counterparts.get(declaration.name)?.end)
+                .filter((end): end is number => end !== undefined)
+                .pop();
+        if (after !== undefined && after >= cursor - 1) {
+            return {
+                replacement: {
+                    start: after + 1,
+                    end: after,
+                    lines: [...separator, ...piece.lines],
+                },
+                confidence: 1,
+                reasons: [],
+            };
+        }
+        const before = declarations
+            .filter((declaration) => declaration.start > piece.declaration.end)
+            .map((declaration) => this.counterparts.get(declaration.name)?.start)
+            .find((start): start is number => start !== undefined);
+        if (before !== undefined && before >= cursor) {
+            return {
+                replacement: {
+                    start: before,
+                    end: before - 1,
+                    lines: [...piece.lines, ...separator],
+                },
+                confidence: 1,
+                reasons: [],
+            };
+        }
+        return null;
+    }
+
+    private placeByLines(chunk: Chunk, cursor: number): Placement | null {
+        const alignment = this.alignLines(
+            chunk.lines.map(normalize),
+            cursor,
+            this.original.length - 1,
+            true,
+        );
+        if (!alignment) {
+            return null;
+        }
+        return {
+            replacements: [{ start: alignment.first, end: alignment.last, lines: chunk.lines }],
+            confidence: alignment.confidence,
+            method: alignment.fuzzy ? 'fuzzy' : 'lines',
+            reasons: alignment.reasons,
+        };
+    }
+
+    /**
+     * Finds the original lines the chunk replaces, from the first to the last of its lines that
+     * can be found, including unchanged lines such as closing braces around them
+     */
+    private alignLines(
+        lines: string[],
+        from: number,
+        to: number,
+        allowFuzzy: boolean,
+    ): Alignment | null {
+        const start = this.findAnchor(lines, from, to, 'start', allowFuzzy);
+        if (!start) {
+            return null;
+        }
+        const end = this.findAnchor(
+            lines.slice(start.index),
+            start.position,
+            to,
+            'end',
+            allowFuzzy,
+        );
+        if (!end) {
+            return null;
+        }
+        const endIndex = start.index + end.index;
+
+        // Unchanged lines around the anchors, such as closing braces, are part of the edit
+        let first = start.position;
+        let i = start.index - 1;
+        for (; i >= 0 && first - 1 >= from && lines[i] === this.normalized[first - 1]; i--) {
+            first--;
+        }
+        let last = end.position;
+        let k = endIndex + 1;
+        for (; k < lines.length && last + 1 <= to && lines[k] === this.normalized[last + 1]; k++) {
+            last++;
+        }
+
+        // So is a changed first or last line, when the original has a line of the same shape,
+        // such as the same tag or property, among the lines it could replace
+        let reshaped = 0;
+        for (let j = first - 1; i >= 0 && j >= Math.max(from, first - i - 1); j--) {
+            if (sameShape(lines[0]!, this.normalized[j]!)) {
+                first = j;
+                reshaped++;
+                break;
+            }
+        }
+        const remaining = lines.length - k;
+        for (let j = last + 1; remaining > 0 && j <= Math.min(to, last + remaining); j++) {
+            if (sameShape(lines[lines.length - 1]!, this.normalized[j]!)) {
+                last = j;
+                reshaped++;
+                break;
+            }
+        }
+
+        const reasons = [...start.reasons, ...end.reasons];
+        let confidence = start.confidence * end.confidence;
+        if (reshaped > 0) {
+            confidence *= RESHAPED_LINE_PENALTY ** reshaped;
+            reasons.push('Changed lines at the edges of the edit were matched by their shape');
+        }
+        const mentioned = new Set(lines);
+        const unmentioned = this.normalized
+            .slice(first, last + 1)
+            .filter((line) => line && !mentioned.has(line)).length;
+        if (unmentioned > MAX_UNMENTIONED_DELETIONS && unmentioned > lines.length) {
+            confidence *= UNMENTIONED_DELETIONS_PENALTY;
+            reasons.push(`Replaces ${unmentioned} lines that the edit does not mention`);
+        }
+        return { first, last, confidence, fuzzy: start.fuzzy || end.fuzzy, reasons };
+    }
+
+    private findAnchor(
+        lines: string[],
+        from: number,
+        to: number,
+        side: 'start' | 'end',
+        allowFuzzy: boolean,
+    ): Anchor | null {
+        const indexes = lines
+            .map((_, index) => index)
+            .filter((index) => isSignificant(lines[index]!));
+        if (side === 'end') {
+            indexes.reverse();
+        }
+
+        for (const index of indexes) {
+            const positions: number[] = [];
+            for (let position = from; position <= to; position++) {
+                if (this.normalized[position] === lines[index]) {
+                    positions.push(position);
+                }
+            }
+            if (positions.length === 0) {
+                continue;
+            }
+            const scored = positions
+                .map((position) => ({ position, score: this.contextScore(lines, index, position) }))
+                .sort((a, b) => b.score - a.score || a.position - b.position);
+            const ambiguous = scored.length > 1 && scored[1]!.score === scored[0]!.score;
+            return {
+                index,
+                position: scored[0]!.position,
+                confidence: ambiguous ? AMBIGUOUS_ANCHOR_PENALTY : 1,
+                fuzzy: false,
+                reasons: ambiguous ? [`"${lines[index]}" appears ${positions.length} times`] : [],
+            };
+        }
+        if (!allowFuzzy) {
+            return null;
+        }
+
+        for (const index of indexes.slice(0, MAX_FUZZY_ANCHOR_LINES)) {
+            let best = { position: -1, similarity: 0 };
+            for (let position = from; position <= to; position++) {
+                const score = similarity(lines[index]!, this.normalized[position]!);
+                if (score > best.similarity) {
+                    best = { position, similarity: score };
+                }
+            }
+            if (best.similarity >= MIN_FUZZY_LINE_SIMILARITY) {
+                return {
+                    index,
+                    position: best.position,
+                    confidence: best.similarity,
+                    fuzzy: true,
+                    reasons: [`"${lines[index]}" only matches approximately`],
+                };
+            }
+        }
+        return null;
+    }
+
+    /** How many other significant lines of the chunk are found near where they would be */
+    private contextScore(lines: string[], index: number, position: number): number {
+        let score = 0;
+        for (let i = 0; i < lines.length; i++) {
+            if (i === index || !isSignificant(lines[i]!)) {
+                continue;
+            }
+            const expected = position + i - index;
+            const from = Math.max(0, expected - lines.length);
+            const to = Math.min(this.normalized.length - 1, expected + lines.length);
+            for (let j = from; j <= to; j++) {
+                if (this.normalized[j] === lines[i]) {
+                    score++;
+                    break;
+                }
+            }
+        }
+        return score;
+    }
+
+    /** New code at the very start or end of the snippet goes at the start or end of the file */
+    private placeUnanchored(
+        chunk: Chunk,
+        cursor: number,
+        isFirst: boolean,
+        isLast: boolean,
+    ): Placement | null {
+        if (isLast && chunk.markerBefore && !chunk.markerAfter) {
+            let end = this.original.length;
+            while (end > cursor && !this.original[end - 1]!.trim()) {
+                end--;
+            }
+            return {
+                replacements: [{ start: end, end: end - 1, lines: ['', ...chunk.lines] }],
+                confidence: GUESSED_POSITION_PENALTY,
+                method: 'lines',
+                reasons: ['New code was added at the end of the file'],
+            };
+        }
+        if (isFirst && !chunk.markerBefore && chunk.markerAfter) {
+            // Directives such as 'use client' must stay first
+            let start = 0;
+            while (
+                start < this.original.length &&
+                /^['"]use \w+['"];?$/.test(this.normalized[start]!)
+            ) {
+                start++;
+            }
+            return {
+                replacements: [{ start, end: start - 1, lines: chunk.lines }],
+                confidence: GUESSED_POSITION_PENALTY,
+                method: 'lines',
+                reasons: ['New code was added at the start of the file'],
+            };
+        }
+        return null;
+    }
+}
+
+/**
+ * Merges a lazy edit snippet, where comments such as `// ... existing code ...` stand in for
+ * unchanged code, into the original file without calling a model. In JavaScript and TypeScript
+ * each part of the snippet is placed within the declaration of the same name; otherwise, and
+ * when that fails, by its lines that already exist in the file.
+ */
+export function applyLazyEdit(originalCode: string, updateSnippet: string): LocalApplyResult {
+    const eol = originalCode.includes('\r\n') ? '\r\n' : '\n';
+    const original = originalCode.split(/\r?\n/);
+    const { chunks, hasMarkers } = splitSnippet(updateSnippet);
+    if (chunks.length === 0) {
+        return { code: null, confidence: 0, method: null, reasons: ['The edit is empty'] };
+    }
+
+    const originalDeclarations = getDeclarations(originalCode);
+    const merger = new Merger(
+        original,
+        originalDeclarations ? getDeclarations(updateSnippet) : null,
+        originalDeclarations,
+    );
+
+    const replacements: Replacement[] = [];
+    const reasons: string[] = [];
+    let confidence = 1;
+    let method: LocalApplyMethod = 'ast';
+    let cursor = 0;
+    for (const [index, chunk] of chunks.entries()) {
+        const placement = merger.place(chunk, cursor, index === 0, index === chunks.length - 1);
+        if (!placement) {
+            if (!hasMarkers) {
+                return {
+                    code: updateSnippet,
+                    confidence: REWRITE_CONFIDENCE,
+                    method: 'lines',
+                    reasons: [
+                        'The edit has no lines in common with the file and replaces all of it',
+                    ],
+                };
+            }
+            return {
+                code: null,
+                confidence: 0,
+                method: null,
+                reasons: [
+                    `Could not find where this part of the edit goes: "${chunk.lines[0]!.trim()}"`,
+                ],
+            };
+        }
+        replacements.push(...placement.replacements);
+        reasons.push(...placement.reasons);
+        confidence *= placement.confidence;
+        if (placement.method === 'fuzzy' || (placement.method === 'lines' && method === 'ast')) {
+            method = placement.method;
+        }
+        for (const replacement of placement.replacements) {
+            cursor = Math.max(cursor, replacement.end + 1);
+        }
+    }
+
+    const merged: string[] = [];
+    let position = 0;
+    for (const replacement of replacements) {
+        merged.push(...original.slice(position, replacement.start), ...replacement.lines);
+        position = Math.max(position, replacement.end + 1);
+    }
+    merged.push(...original.slice(position));
+    const code = merged.join(eol);
+
+    if (originalDeclarations && parseModule(originalCode, false) && !parseModule(code, false)) {
+        confidence *= UNPARSABLE_RESULT_PENALTY;
+        reasons.push('The merged code does not parse');
+    }
+    return { code, confidence, method, reasons };
+}
@@ -0,0 +1,75 @@
+import type {
+    LanguageModelV2,
+    LanguageModelV2CallOptions,
+    SharedV2ProviderOptions,
+} from '@ai-sdk/provider';
+
+export interface FallbackCandidate {
+    model: LanguageModelV2;
+    /** Provider-specific settings that only apply to this model */
+    headers?: Record<string, string>;
+    providerOptions?: SharedV2ProviderOptions;
+    /** Requests ask for at most this many output tokens when this model answers */
+    maxOutputTokens?: number;
+}
+
+function withCandidateOptions(
+    candidate: FallbackCandidate,
+    options: LanguageModelV2CallOptions,
+): LanguageModelV2CallOptions {
+    return {
+        ...options,
+        headers: { ...candidate.headers, ...options.headers },
+        providerOptions: { ...candidate.providerOptions, ...options.providerOptions },
+        maxOutputTokens:
+            candidate.maxOutputTokens === undefined
+                ? options.maxOutputTokens
+                : Math.min(options.maxOutputTokens ?? Infinity, candidate.maxOutputTokens),
+    };
+}
+
+async function tryEach<T>(
+    candidates: FallbackCandidate[],
+    options: LanguageModelV2CallOptions,
+    call: (model: LanguageModelV2, options: LanguageModelV2CallOptions) => PromiseLike<T>,
+): Promise<T> {
+    let lastError: unknown;
+    for (const [index, candidate] of candidates.entries()) {
+        try {
+            return await call(candidate.model, withCandidateOptions(candidate, options));
+        } catch (error) {
+            if (options.abortSignal?.aborted) {
+                throw error;
+            }
+            lastError = error;
+            const next = candidates[index + 1];
+            if (next) {
+                console.warn(
+                    `Model ${candidate.model.provider}:${candidate.model.modelId} failed, falling back to ${next.model.provider}:${next.model.modelId}`,
+                    error,
+                );
+            }
+        }
+    }
+    throw lastError;
+}
+
+/**
+ * Wraps models so a request that fails before the response starts streaming is retried with
+ * the next model. Errors in the middle of a stream are not retried.
+ */
+export function createFallbackModel(candidates: FallbackCandidate[]): LanguageModelV2 {
+    const [primary] = candidates;
+    if (!primary) {
+        throw new Error('A fallback chain needs at least one model');
+    }
+
+    return {
+        specificationVersion: 'v2',
+        provider: primary.model.provider,
+        modelId: primary.model.modelId,
+        supportedUrls: primary.model.supportedUrls,
+        doGenerate: (options) => tryEach(candidates, options, (model, o) => model.doGenerate(o)),
+        doStream: (options) => tryEach(candidates, options, (model, o) => model.doStream(o)),
+    };
+}
@@ -0,0 +1,36 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { LLMFixture, LLMFixtureStore } from './mock';
+
+/**
+ * Keeps fixtures as `<name>.json` under a directory. Node only, so it is not exported from the
+ * package index and is imported by its path on the server and in tests.
+ */
+export function createFileFixtureStore(directory: string): LLMFixtureStore {
+    const root = path.resolve(directory);
+    const getPath = (name: string) => {
+        const filePath = path.resolve(root, `${name}.json`);
+        if (path.relative(root, filePath).startsWith('..')) {
+            throw new Error(`Fixture name ${name} is outside of ${root}`);
+        }
+        return filePath;
+    };
+
+    return {
+        load: async (name) => {
+            try {
+                return JSON.parse(await fs.readFile(getPath(name), 'utf8')) as LLMFixture;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                    return null;
+                }
+                throw error;
+            }
+        },
+        save: async (name, fixture) => {
+            const filePath = getPath(name);
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.writeFile(filePath, `${JSON.stringify(fixture, null, 4)}\n`);
+        },
+    };
+}
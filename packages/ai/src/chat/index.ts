@@ -1 +1,4 @@
+export * from './fallback';
+export * from './mock';
 export * from './providers';
+export * from './registry';
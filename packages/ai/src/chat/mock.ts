@@ -0,0 +1,245 @@
+import type {
+    LanguageModelV2,
+    LanguageModelV2CallOptions,
+    LanguageModelV2Content,
+    LanguageModelV2FinishReason,
+    LanguageModelV2StreamPart,
+    LanguageModelV2Usage,
+} from '@ai-sdk/provider';
+
+export const LLM_FIXTURE_VERSION = 1;
+
+export interface LLMFixtureCall {
+    /** Assistant messages in the prompt, i.e. how many model calls came before in the chat */
+    step: number;
+    /** Names of the tools offered to the model, which tell the main agent and sub-agents apart */
+    tools: string[];
+    parts: LanguageModelV2StreamPart[];
+}
+
+export interface LLMFixture {
+    version: number;
+    /** `provider:model` the fixture was recorded with */
+    recordedWith?: string;
+    calls: LLMFixtureCall[];
+}
+
+export interface LLMFixtureStore {
+    load(name: string): Promise<LLMFixture | null>;
+    save(name: string, fixture: LLMFixture): Promise<void>;
+}
+
+export function createMemoryFixtureStore(
+    fixtures: Record<string, LLMFixture> = {},
+): LLMFixtureStore {
+    return {
+        load: async (name) => fixtures[name] ?? null,
+        save: async (name, fixture) => {
+            fixtures[name] = fixture;
+        },
+    };
+}
+
+function getStep(options: LanguageModelV2CallOptions): number {
+    return options.prompt.filter((message) => message.role === 'assistant').length;
+}
+
+function getToolNames(options: LanguageModelV2CallOptions): string[] {
+    return (options.tools ?? []).map((tool) => tool.name).sort();
+}
+
+function sameTools(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((name, index) => name === b[index]);
+}
+
+export function findFixtureCall(
+    fixture: LLMFixture,
+    options: LanguageModelV2CallOptions,
+): LLMFixtureCall {
+    const step = getStep(options);
+    const tools = getToolNames(options);
+    const candidates = fixture.calls.filter((call) => call.step === step);
+    const call =
+        candidates.find((candidate) => sameTools(candidate.tools, tools)) ??
+        (candidates.length === 1 ? candidates[0] : undefined);
+    if (!call) {
+        throw new Error(
+            `No recorded response for step ${step} with tools [${tools.join(', ')}]; record the fixture again`,
+        );
+    }
+    return call;
+}
+
+// Timestamps are stored as strings in JSON fixtures
+function revivePart(part: LanguageModelV2StreamPart): LanguageModelV2StreamPart {
+    if (part.type === 'response-metadata' && part.timestamp) {
+        return { ...part, timestamp: new Date(part.timestamp) };
+    }
+    return part;
+}
+
+function toStream(parts: LanguageModelV2StreamPart[]): ReadableStream<LanguageModelV2StreamPart> {
+    return new ReadableStream({
+        start(controller) {
+            for (const part of parts) {
+                controller.enqueue(revivePart(part));
+            }
+            controller.close();
+        },
+    });
+}
+
+/** Collects the stream parts of a recorded call into the result of `doGenerate` */
+function toContent(parts: LanguageModelV2StreamPart[]) {
+    const content: LanguageModelV2Content[] = [];
+    const open = new Map<string, { type: 'text' | 'reasoning'; text: string }>();
+    let finishReason: LanguageModelV2FinishReason = 'unknown';
+    let usage: LanguageModelV2Usage = {
+        inputTokens: undefined,
+        outputTokens: undefined,
+        totalTokens: undefined,
+    };
+
+    for (const part of parts) {
+        switch (part.type) {
+            case 'text-start':
+            case 'reasoning-start': {
+                const block = {
+                    type: part.type === 'text-start' ? ('text' as const) : ('reasoning' as const),
+                    text: '',
+                };
+                open.set(part.id, block);
+                content.push(block as LanguageModelV2Content);
+                break;
+            }
+            case 'text-delta':
+            case 'reasoning-delta': {
+                const block = open.get(part.id);
+                if (block) {
+                    block.text += part.delta;
+                }
+                break;
+            }
+            case 'tool-call':
+            case 'tool-result':
+            case 'file':
+            case 'source':
+                content.push(part);
+                break;
+            case 'finish':
+                finishReason = part.finishReason;
+                usage = part.usage;
+                break;
+        }
+    }
+    return { content, finishReason, usage };
+}
+
+function toParts(
+    content: LanguageModelV2Content[],
+    finishReason: LanguageModelV2FinishReason,
+    usage: LanguageModelV2Usage,
+): LanguageModelV2StreamPart[] {
+    const parts: LanguageModelV2StreamPart[] = [{ type: 'stream-start', warnings: [] }];
+    content.forEach((item, index) => {
+        const id = String(index);
+        if (item.type === 'text') {
+            parts.push(
+                { type: 'text-start', id },
+                { type: 'text-delta', id, delta: item.text },
+                { type: 'text-end', id },
+            );
+        } else if (item.type === 'reasoning') {
+            parts.push(
+                { type: 'reasoning-start', id },
+                { type: 'reasoning-delta', id, delta: item.text },
+                { type: 'reasoning-end', id },
+            );
+        } else {
+            parts.push(item);
+        }
+    });
+    parts.push({ type: 'finish', finishReason, usage });
+    return parts;
+}
+
+/**
+ * A model that answers from a recorded fixture instead of calling a provider. Each call is
+ * matched to a recording by its step in the conversation, so replay also works when every
+ * request creates a new model, as the chat route does.
+ */
+export function createReplayModel(fixture: LLMFixture, modelId = 'replay'): LanguageModelV2 {
+    if (fixture.version !== LLM_FIXTURE_VERSION) {
+        throw new Error(`Unsupported LLM fixture version ${fixture.version}`);
+    }
+
+    return {
+        specificationVersion: 'v2',
+        provider: 'mock',
+        modelId,
+        supportedUrls: {},
+        doGenerate: async (options) => {
+            const { parts } = findFixtureCall(fixture, options);
+            return { ...toContent(parts.map(revivePart)), warnings: [] };
+        },
+        doStream: async (options) => {
+            const { parts } = findFixtureCall(fixture, options);
+            return { stream: toStream(parts) };
+        },
+    };
+}
+
+/**
+ * Wraps a real model and stores each response in the fixture, replacing what an earlier run
+ * recorded for that step and the ones after it.
+ */
+export function createRecordingModel(
+    model: LanguageModelV2,
+    { name, store, recordedWith }: { name: string; store: LLMFixtureStore; recordedWith?: string },
+): LanguageModelV2 {
+    const record = async (
+        options: LanguageModelV2CallOptions,
+        parts: LanguageModelV2StreamPart[],
+    ) => {
+        const step = getStep(options);
+        const tools = getToolNames(options);
+        const existing = await store.load(name);
+        // Later steps of the same agent belong to the previous recording
+        const calls = (existing?.calls ?? []).filter(
+            (call) => call.step < step || !sameTools(call.tools, tools),
+        );
+        calls.push({ step, tools, parts });
+        await store.save(name, { version: LLM_FIXTURE_VERSION, recordedWith, calls });
+    };
+
+    return {
+        specificationVersion: 'v2',
+        provider: model.provider,
+        modelId: model.modelId,
+        supportedUrls: model.supportedUrls,
+        doGenerate: async (options) => {
+            const result = await model.doGenerate(options);
+            await record(options, toParts(result.content, result.finishReason, result.usage));
+            return result;
+        },
+        doStream: async (options) => {
+            const result = await model.doStream(options);
+            const parts: LanguageModelV2StreamPart[] = [];
+            const stream = result.stream.pipeThrough(
+                new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>({
+                    transform(part, controller) {
+                        // Raw provider chunks are only sent when asked for and not replayed
+                        if (part.type !== 'raw') {
+                            parts.push(part);
+                        }
+                        controller.enqueue(part);
+                    },
+                    async flush() {
+                        await record(options, parts);
+                    },
+                }),
+            );
+            return { ...result, stream };
+        },
+    };
+}
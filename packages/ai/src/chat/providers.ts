@@ -1,31 +1,38 @@
 import { createAnthropic } from '@ai-sdk/anthropic';
+import { createAzure } from '@ai-sdk/azure';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import type { LanguageModelV2 } from '@ai-sdk/provider';
 import {
-    ANTHROPIC_MODELS,
     LLMProvider,
-    MODEL_MAX_TOKENS,
     OPENROUTER_MODELS,
     type InitialModelPayload,
     type ModelConfig,
 } from '@onlook/models';
 import { assertNever } from '@onlook/utility';
 import { createOpenRouter } from '@openrouter/ai-sdk-provider';
-import type { LanguageModel } from 'ai';
+import { createFallbackModel, type FallbackCandidate } from './fallback';
+import { createRecordingModel, createReplayModel } from './mock';
+import { parseModelSelection, providerRegistry, type ProviderRegistry } from './registry';
 
-export async function initModel({
-    provider: requestedProvider,
-    model: requestedModel,
-}: InitialModelPayload): Promise<ModelConfig> {
-    let model: LanguageModel;
+export async function initModel(
+    { provider: requestedProvider, model: requestedModel }: InitialModelPayload,
+    registry: ProviderRegistry = providerRegistry,
+): Promise<ModelConfig> {
+    const { contextWindow, maxOutputTokens } = registry.getModelInfo(
+        requestedProvider,
+        requestedModel,
+    );
+    let model: LanguageModelV2;
     let providerOptions: Record<string, any> | undefined;
     let headers: Record<string, string> | undefined;
-    let maxOutputTokens: number = MODEL_MAX_TOKENS[requestedModel];
 
     switch (requestedProvider) {
         case LLMProvider.ANTHROPIC:
             model = await getAnthropicProvider(requestedModel);
             break;
         case LLMProvider.OPENROUTER:
-            model = await getOpenRouterProvider(requestedModel);
+            model = await getOpenRouterProvider(requestedModel, registry);
             headers = {
                 'HTTP-Referer': 'https://onlook.com',
                 'X-Title': 'Onlook',
@@ -38,6 +45,20 @@ export async function initModel({
                 ? { ...providerOptions, anthropic: { cacheControl: { type: 'ephemeral' } } }
                 : providerOptions;
             break;
+        case LLMProvider.OPENAI:
+            model = await getOpenAIProvider(requestedModel, registry);
+            break;
+        case LLMProvider.AZURE:
+            model = await getAzureProvider(requestedModel, registry);
+            break;
+        case LLMProvider.OLLAMA:
+        case LLMProvider.VLLM:
+        case LLMProvider.LM_STUDIO:
+            model = await getOpenAICompatibleProvider(requestedProvider, requestedModel, registry);
+            break;
+        case LLMProvider.MOCK:
+            model = await getMockProvider(requestedModel, registry);
+            break;
         default:
             assertNever(requestedProvider);
     }
@@ -47,18 +68,137 @@ export async function initModel({
         providerOptions,
         headers,
         maxOutputTokens,
+        contextWindow,
+    };
+}
+
+/**
+ * Initializes every model in a fallback chain and returns one model that moves down the chain
+ * when a provider errors. Entries that cannot be initialized, e.g. for a missing API key, are
+ * skipped as long as one remains.
+ */
+export async function initModelChain(
+    chain: InitialModelPayload[],
+    registry: ProviderRegistry = providerRegistry,
+): Promise<ModelConfig> {
+    const configs: ModelConfig[] = [];
+    let lastError: unknown;
+    for (const payload of chain) {
+        try {
+            configs.push(await initModel(payload, registry));
+        } catch (error) {
+            lastError = error;
+            console.warn(`Skipping ${payload.provider}:${payload.model}`, error);
+        }
+    }
+
+    const [primary] = configs;
+    if (!primary) {
+        throw lastError ?? new Error('No models configured');
+    }
+    if (configs.length === 1) {
+        return primary;
+    }
+
+    const candidates: FallbackCandidate[] = configs.map((config) => ({
+        model: config.model as LanguageModelV2,
+        headers: config.headers,
+        providerOptions: config.providerOptions,
+        maxOutputTokens: config.maxOutputTokens,
+    }));
+    return {
+        model: createFallbackModel(candidates),
+        // Message-level options are keyed by provider, so the others ignore them
+        providerOptions: primary.providerOptions,
+        // Each model caps the request at its own limit, so allow the largest one
+        maxOutputTokens: Math.max(...configs.map((config) => config.maxOutputTokens)),
+        // Any model in the chain may end up answering, so fit the smallest window
+        contextWindow: Math.min(...configs.map((config) => config.contextWindow)),
     };
 }
 
-async function getAnthropicProvider(model: ANTHROPIC_MODELS): Promise<LanguageModel> {
+async function getAnthropicProvider(model: string): Promise<LanguageModelV2> {
     const anthropic = createAnthropic();
     return anthropic(model);
 }
 
-async function getOpenRouterProvider(model: OPENROUTER_MODELS): Promise<LanguageModel> {
-    if (!process.env.OPENROUTER_API_KEY) {
-        throw new Error('OPENROUTER_API_KEY must be set');
-    }
-    const openrouter = createOpenRouter({ apiKey: process.env.OPENROUTER_API_KEY });
+async function getOpenRouterProvider(
+    model: string,
+    registry: ProviderRegistry,
+): Promise<LanguageModelV2> {
+    const apiKey = registry.getApiKey(LLMProvider.OPENROUTER);
+    const openrouter = createOpenRouter({ apiKey });
     return openrouter(model);
 }
+
+async function getOpenAIProvider(
+    model: string,
+    registry: ProviderRegistry,
+): Promise<LanguageModelV2> {
+    const openai = createOpenAI({
+        apiKey: registry.getApiKey(LLMProvider.OPENAI),
+        baseURL: registry.getBaseUrl(LLMProvider.OPENAI),
+    });
+    return openai(model);
+}
+
+async function getAzureProvider(
+    deployment: string,
+    registry: ProviderRegistry,
+): Promise<LanguageModelV2> {
+    // Without AZURE_BASE_URL the SDK builds the URL from AZURE_RESOURCE_NAME
+    const azure = createAzure({
+        apiKey: registry.getApiKey(LLMProvider.AZURE),
+        baseURL: registry.getBaseUrl(LLMProvider.AZURE),
+        apiVersion: process.env.AZURE_API_VERSION,
+    });
+    return azure.chat(deployment);
+}
+
+async function getOpenAICompatibleProvider(
+    provider: LLMProvider.OLLAMA | LLMProvider.VLLM | LLMProvider.LM_STUDIO,
+    model: string,
+    registry: ProviderRegistry,
+): Promise<LanguageModelV2> {
+    const baseURL = registry.getBaseUrl(provider);
+    if (!baseURL) {
+        throw new Error(`No base URL configured for ${registry.get(provider).label}`);
+    }
+    const compatible = createOpenAICompatible({
+        name: provider,
+        baseURL,
+        apiKey: registry.getApiKey(provider),
+    });
+    return compatible.chatModel(model);
+}
+
+/**
+ * Replays the fixture named by `model`. With `ONLOOK_LLM_RECORD_MODEL` set to a
+ * `provider:model` selection, that model answers instead and its responses are recorded.
+ */
+async function getMockProvider(
+    fixtureName: string,
+    registry: ProviderRegistry,
+    env: NodeJS.ProcessEnv = process.env,
+): Promise<LanguageModelV2> {
+    const store = registry.getFixtureStore();
+    const recordWith = env.ONLOOK_LLM_RECORD_MODEL;
+    if (recordWith) {
+        const selection = parseModelSelection(recordWith);
+        if (selection.provider === LLMProvider.MOCK) {
+            throw new Error('Cannot record a fixture with the mock provider');
+        }
+        const { model } = await initModel(selection, registry);
+        return createRecordingModel(model as LanguageModelV2, {
+            name: fixtureName,
+            store,
+            recordedWith: recordWith,
+        });
+    }
+
+    const fixture = await store.load(fixtureName);
+    if (!fixture) {
+        throw new Error(`LLM fixture ${fixtureName} not found`);
+    }
+    return createReplayModel(fixture, fixtureName);
+}
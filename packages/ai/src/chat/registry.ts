@@ -0,0 +1,313 @@
+import {
+    ANTHROPIC_MODELS,
+    ChatType,
+    LLMProvider,
+    MODEL_MAX_OUTPUT_TOKENS,
+    MODEL_MAX_TOKENS,
+    OPENROUTER_MODELS,
+    type ChatModelPreferences,
+    type InitialModelPayload,
+    type ProviderDefinition,
+    type ProviderModelInfo,
+} from '@onlook/models';
+import type { LLMFixtureStore } from './mock';
+
+const SELF_HOSTED_MODEL_INFO = { contextWindow: 32768, maxOutputTokens: 8192, supportsTools: true };
+
+export const DEFAULT_PROVIDERS: ProviderDefinition[] = [
+    {
+        id: LLMProvider.ANTHROPIC,
+        label: 'Anthropic',
+        auth: { type: 'api-key-header', header: 'x-api-key', envKey: 'ANTHROPIC_API_KEY' },
+        models: Object.values(ANTHROPIC_MODELS).map((id) => ({
+            id,
+            contextWindow: MODEL_MAX_TOKENS[id],
+            maxOutputTokens: MODEL_MAX_OUTPUT_TOKENS[id],
+            supportsTools: true,
+        })),
+        allowCustomModels: false,
+    },
+    {
+        id: LLMProvider.OPENROUTER,
+        label: 'OpenRouter',
+        baseUrl: 'https://openrouter.ai/api/v1',
+        auth: { type: 'bearer', envKey: 'OPENROUTER_API_KEY' },
+        models: Object.values(OPENROUTER_MODELS).map((id) => ({
+            id,
+            contextWindow: MODEL_MAX_TOKENS[id],
+            maxOutputTokens: MODEL_MAX_OUTPUT_TOKENS[id],
+            supportsTools: true,
+        })),
+        allowCustomModels: false,
+    },
+    {
+        id: LLMProvider.OPENAI,
+        label: 'OpenAI',
+        baseUrl: 'https://api.openai.com/v1',
+        baseUrlEnv: 'OPENAI_BASE_URL',
+        auth: { type: 'bearer', envKey: 'OPENAI_API_KEY' },
+        models: [
+            { id: 'gpt-5', contextWindow: 400000, maxOutputTokens: 128000, supportsTools: true },
+            {
+                id: 'gpt-5-mini',
+                contextWindow: 400000,
+                maxOutputTokens: 128000,
+                supportsTools: true,
+            },
+            {
+                id: 'gpt-5-nano',
+                contextWindow: 400000,
+                maxOutputTokens: 128000,
+                supportsTools: true,
+            },
+            { id: 'gpt-4.1', contextWindow: 1047576, maxOutputTokens: 32768, supportsTools: true },
+        ],
+        allowCustomModels: true,
+        defaultModelInfo: { contextWindow: 128000, maxOutputTokens: 16384, supportsTools: true },
+    },
+    {
+        // Models are the names of the deployments in the Azure OpenAI resource
+        id: LLMProvider.AZURE,
+        label: 'Azure OpenAI',
+        baseUrlEnv: 'AZURE_BASE_URL',
+        auth: { type: 'api-key-header', header: 'api-key', envKey: 'AZURE_API_KEY' },
+        models: [],
+        allowCustomModels: true,
+        defaultModelInfo: { contextWindow: 128000, maxOutputTokens: 16384, supportsTools: true },
+    },
+    {
+        id: LLMProvider.OLLAMA,
+        label: 'Ollama',
+        baseUrl: 'http://localhost:11434/v1',
+        baseUrlEnv: 'OLLAMA_BASE_URL',
+        auth: { type: 'none' },
+        models: [
+            {
+                id: 'qwen2.5-coder:32b',
+                contextWindow: 32768,
+                maxOutputTokens: 8192,
+                supportsTools: true,
+            },
+            {
+                id: 'llama3.1:8b',
+                contextWindow: 131072,
+                maxOutputTokens: 8192,
+                supportsTools: true,
+            },
+            {
+                id: 'deepseek-r1:14b',
+                contextWindow: 131072,
+                maxOutputTokens: 8192,
+                supportsTools: false,
+            },
+        ],
+        allowCustomModels: true,
+        defaultModelInfo: SELF_HOSTED_MODEL_INFO,
+    },
+    {
+        id: LLMProvider.VLLM,
+        label: 'vLLM',
+        baseUrl: 'http://localhost:8000/v1',
+        baseUrlEnv: 'VLLM_BASE_URL',
+        auth: { type: 'bearer', envKey: 'VLLM_API_KEY', optional: true },
+        models: [],
+        allowCustomModels: true,
+        defaultModelInfo: SELF_HOSTED_MODEL_INFO,
+    },
+    {
+        id: LLMProvider.LM_STUDIO,
+        label: 'LM Studio',
+        baseUrl: 'http://localhost:1234/v1',
+        baseUrlEnv: 'LMSTUDIO_BASE_URL',
+        auth: { type: 'none' },
+        models: [],
+        allowCustomModels: true,
+        defaultModelInfo: SELF_HOSTED_MODEL_INFO,
+    },
+    {
+        // For tests: replays fixtures from the registry's fixture store
+        id: LLMProvider.MOCK,
+        label: 'Mock',
+        auth: { type: 'none' },
+        models: [],
+        allowCustomModels: true,
+        defaultModelInfo: { contextWindow: 200000, maxOutputTokens: 64000, supportsTools: true },
+        hidden: true,
+    },
+];
+
+export const DEFAULT_CHAT_MODELS: Record<ChatType, InitialModelPayload[]> = {
+    [ChatType.CREATE]: [
+        { provider: LLMProvider.OPENROUTER, model: OPENROUTER_MODELS.OPEN_AI_GPT_5 },
+        { provider: LLMProvider.OPENROUTER, model: OPENROUTER_MODELS.CLAUDE_4_SONNET },
+    ],
+    [ChatType.FIX]: [
+        { provider: LLMProvider.OPENROUTER, model: OPENROUTER_MODELS.OPEN_AI_GPT_5 },
+        { provider: LLMProvider.OPENROUTER, model: OPENROUTER_MODELS.CLAUDE_4_SONNET },
+    ],
+    [ChatType.ASK]: [
+        { provider: LLMProvider.OPENROUTER, model: OPENROUTER_MODELS.CLAUDE_4_SONNET },
+        { provider: LLMProvider.OPENROUTER, model: OPENROUTER_MODELS.OPEN_AI_GPT_5 },
+    ],
+    [ChatType.EDIT]: [
+        { provider: LLMProvider.OPENROUTER, model: OPENROUTER_MODELS.CLAUDE_4_SONNET },
+        { provider: LLMProvider.OPENROUTER, model: OPENROUTER_MODELS.OPEN_AI_GPT_5 },
+    ],
+    [ChatType.PLAN]: [
+        { provider: LLMProvider.OPENROUTER, model: OPENROUTER_MODELS.CLAUDE_4_SONNET },
+        { provider: LLMProvider.OPENROUTER, model: OPENROUTER_MODELS.OPEN_AI_GPT_5 },
+    ],
+};
+
+export class ProviderRegistry {
+    private readonly providers = new Map<LLMProvider, ProviderDefinition>();
+    private fixtureStore: LLMFixtureStore | null = null;
+
+    constructor(definitions: ProviderDefinition[] = DEFAULT_PROVIDERS) {
+        for (const definition of definitions) {
+            this.register(definition);
+        }
+    }
+
+    /** Adds a provider, or replaces the definition of one that is already registered */
+    register(definition: ProviderDefinition) {
+        this.providers.set(definition.id, definition);
+    }
+
+    list(): ProviderDefinition[] {
+        return [...this.providers.values()];
+    }
+
+    /** Where the mock provider reads and records fixtures */
+    setFixtureStore(store: LLMFixtureStore | null) {
+        this.fixtureStore = store;
+    }
+
+    getFixtureStore(): LLMFixtureStore {
+        if (!this.fixtureStore) {
+            throw new Error('No LLM fixture store configured for the mock provider');
+        }
+        return this.fixtureStore;
+    }
+
+    get(provider: LLMProvider): ProviderDefinition {
+        const definition = this.providers.get(provider);
+        if (!definition) {
+            throw new Error(`Unknown LLM provider: ${provider}`);
+        }
+        return definition;
+    }
+
+    getModelInfo(provider: LLMProvider, model: string): ProviderModelInfo {
+        const definition = this.get(provider);
+        const listed = definition.models.find((info) => info.id === model);
+        if (listed) {
+            return listed;
+        }
+        if (!definition.allowCustomModels || !definition.defaultModelInfo) {
+            throw new Error(`Model ${model} is not available from ${definition.label}`);
+        }
+        return { id: model, ...definition.defaultModelInfo };
+    }
+
+    getBaseUrl(provider: LLMProvider, env: NodeJS.ProcessEnv = process.env): string | undefined {
+        const definition = this.get(provider);
+        return (definition.baseUrlEnv && env[definition.baseUrlEnv]) || definition.baseUrl;
+    }
+
+    getApiKey(provider: LLMProvider, env: NodeJS.ProcessEnv = process.env): string | undefined {
+        const { auth, label } = this.get(provider);
+        if (auth.type === 'none') {
+            return undefined;
+        }
+
+        const key = env[auth.envKey];
+        if (!key && !(auth.type === 'bearer' && auth.optional)) {
+            throw new Error(`${auth.envKey} must be set to use ${label}`);
+        }
+        return key;
+    }
+}
+
+export const providerRegistry = new ProviderRegistry();
+
+/** Parses `provider:model`, e.g. `ollama:qwen2.5-coder:32b`; the model may contain colons */
+export function parseModelSelection(value: string): InitialModelPayload {
+    const separator = value.indexOf(':');
+    const provider = value.slice(0, separator).trim() as LLMProvider;
+    const model = value.slice(separator + 1).trim();
+    if (separator === -1 || !model || !Object.values(LLMProvider).includes(provider)) {
+        throw new Error(`Invalid model selection "${value}", expected <provider>:<model>`);
+    }
+    return { provider, model } as InitialModelPayload;
+}
+
+/**
+ * Reads user-level preferences from JSON such as
+ * `{"edit": ["ollama:qwen2.5-coder:32b", "openrouter:anthropic/claude-sonnet-4"]}`.
+ */
+export function parseChatModelPreferences(json: string | undefined): ChatModelPreferences {
+    if (!json?.trim()) {
+        return {};
+    }
+
+    const raw: unknown = JSON.parse(json);
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error('Chat model preferences must be a JSON object keyed by chat type');
+    }
+
+    const preferences: ChatModelPreferences = {};
+    for (const [chatType, selections] of Object.entries(raw)) {
+        if (!Object.values(ChatType).includes(chatType as ChatType)) {
+            throw new Error(`Unknown chat type in model preferences: ${chatType}`);
+        }
+        const list = Array.isArray(selections) ? selections : [selections];
+        preferences[chatType as ChatType] = list.map((selection) =>
+            typeof selection === 'string'
+                ? parseModelSelection(selection)
+                : (selection as InitialModelPayload),
+        );
+    }
+    return preferences;
+}
+
+/**
+ * The models to try for a chat type: project preferences win over the user's, which win over
+ * the defaults. Models that cannot call tools are dropped when the chat needs them.
+ */
+export function resolveChatModels(
+    chatType: ChatType,
+    {
+        project,
+        user,
+        requireTools = true,
+        registry = providerRegistry,
+    }: {
+        project?: ChatModelPreferences;
+        user?: ChatModelPreferences;
+        requireTools?: boolean;
+        registry?: ProviderRegistry;
+    } = {},
+): InitialModelPayload[] {
+    const chain = project?.[chatType]?.length
+        ? project[chatType]
+        : user?.[chatType]?.length
+          ? user[chatType]
+          : DEFAULT_CHAT_MODELS[chatType];
+
+    if (!requireTools) {
+        return chain;
+    }
+
+    const usable = chain.filter(({ provider, model }) => {
+        const { supportsTools } = registry.getModelInfo(provider, model);
+        if (!supportsTools) {
+            console.warn(`Skipping ${provider}:${model} for ${chatType} chat: no tool calling`);
+        }
+        return supportsTools;
+    });
+    if (usable.length === 0) {
+        throw new Error(`No model configured for ${chatType} chat supports tool calling`);
+    }
+    return usable;
+}
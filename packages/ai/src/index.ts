@@ -1,3 +1,4 @@
+export * from './agents';
 export * from './apply';
 export * from './chat';
 export * from './prompt';
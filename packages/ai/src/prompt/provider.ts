@@ -12,7 +12,9 @@ import { CONTEXT_PROMPTS } from './context';
 import { CREATE_NEW_PAGE_SYSTEM_PROMPT } from './create';
 import { CODE_FENCE } from './format';
 import { wrapXml } from './helpers';
+import { PLAN_MODE_SYSTEM_PROMPT } from './plan';
 import { SHELL_PROMPT } from './shell';
+import { SUBAGENT_SYSTEM_PROMPT } from './subagent';
 import { SUGGESTION_SYSTEM_PROMPT } from './suggest';
 import { SUMMARY_PROMPTS } from './summary';
 import { SYSTEM_PROMPT } from './system';
@@ -49,6 +51,29 @@ export function getAskModeSystemPrompt() {
     return prompt;
 }
 
+export function getPlanModeSystemPrompt() {
+    let prompt = '';
+    prompt += wrapXml('role', PLAN_MODE_SYSTEM_PROMPT);
+    return prompt;
+}
+
+export function getSubagentSystemPrompt({
+    maxSteps,
+    branchId,
+}: {
+    maxSteps: number;
+    branchId?: string;
+}) {
+    let prompt = '';
+    prompt += wrapXml('role', SUBAGENT_SYSTEM_PROMPT);
+    let limits = `You have at most ${maxSteps} steps. On the last step your tools are disabled and you must answer with what you have found.`;
+    if (branchId) {
+        limits += ` Only look at branch ${branchId}; tool calls for other branches are redirected to it.`;
+    }
+    prompt += wrapXml('limits', limits);
+    return prompt;
+}
+
 export function getExampleConversation(
     conversation: {
         role: string;
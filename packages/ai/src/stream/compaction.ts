@@ -0,0 +1,244 @@
+import {
+    MessageContextType,
+    type ChatCompaction,
+    type ChatMessage,
+    type ChatMessagePart,
+    type FileMessageContext,
+    type HighlightMessageContext,
+    type MessageContext,
+} from '@onlook/models';
+import type { ToolUIPart } from 'ai';
+import { getFilesContent } from '../prompt';
+import { wrapXml } from '../prompt/helpers';
+import { countTokensWithRoles } from '../tokens';
+
+/** Share of the context window a conversation may fill before it is compacted */
+export const COMPACTION_THRESHOLD = 0.75;
+/** Share of the context window kept as recent, unsummarized messages */
+export const RECENT_MESSAGES_RATIO = 0.25;
+/** Tool outputs of earlier turns are cut to this many characters once a conversation is compacted */
+export const MAX_COMPACTED_TOOL_OUTPUT_CHARS = 2000;
+/** Share of the context window the messages of one summarization request may fill */
+export const SUMMARY_CHUNK_RATIO = 0.5;
+
+export interface CompactionPlan {
+    /** Messages the summary replaces, ending with the message at `throughMessageId` */
+    messages: ChatMessage[];
+    throughMessageId: string;
+    pinnedContext: MessageContext[];
+    tokensBefore: number;
+    /** Compaction the new summary builds on */
+    previous: ChatCompaction | null;
+}
+
+type CompactionPart = Extract<ChatMessagePart, { type: 'data-compaction' }>;
+
+export function getCompactionPart(message: ChatMessage): CompactionPart | undefined {
+    return message.parts.find((part): part is CompactionPart => part.type === 'data-compaction');
+}
+
+/** The most recent compaction whose summarized messages are still in the history */
+export function findLatestCompaction(
+    messages: ChatMessage[],
+): { compaction: ChatCompaction; throughIndex: number } | null {
+    for (let i = messages.length - 1; i >= 0; i--) {
+        const part = getCompactionPart(messages[i]!);
+        if (!part) {
+            continue;
+        }
+        const throughIndex = messages.findIndex(
+            (message) => message.id === part.data.throughMessageId,
+        );
+        if (throughIndex !== -1) {
+            return { compaction: part.data, throughIndex };
+        }
+    }
+    return null;
+}
+
+/**
+ * Splits the history at the latest compaction: the summary stands in for the messages it
+ * covers, and tool outputs of the turns after it are truncated except in the current turn.
+ */
+export function applyCompaction(
+    messages: ChatMessage[],
+    compaction?: ChatCompaction | null,
+): { summary: ChatMessage | null; messages: ChatMessage[] } {
+    const latest = compaction
+        ? {
+              compaction,
+              throughIndex: messages.findIndex(
+                  (message) => message.id === compaction.throughMessageId,
+              ),
+          }
+        : findLatestCompaction(messages);
+    if (!latest || latest.throughIndex === -1) {
+        return { summary: null, messages };
+    }
+
+    const recent = messages.slice(latest.throughIndex + 1);
+    const lastUserIndex = recent.findLastIndex((message) => message.role === 'user');
+    return {
+        summary: getSummaryMessage(latest.compaction, recent),
+        messages: recent.map((message, index) =>
+            message.role === 'assistant' && index < lastUserIndex
+                ? truncateToolOutputs(message, MAX_COMPACTED_TOOL_OUTPUT_CHARS)
+                : message,
+        ),
+    };
+}
+
+/**
+ * Stands in for the summarized messages. Pinned files that recent messages attach again are
+ * left out, since those carry the newer content.
+ */
+export function getSummaryMessage(
+    compaction: ChatCompaction,
+    recent: ChatMessage[] = [],
+): ChatMessage {
+    const recentPaths = new Set(
+        recent.flatMap((message) =>
+            (message.metadata?.context ?? [])
+                .filter((context) => context.type === MessageContextType.FILE)
+                .map((context) => context.path),
+        ),
+    );
+    const files = compaction.pinnedContext.filter(
+        (context): context is FileMessageContext =>
+            context.type === MessageContextType.FILE && !recentPaths.has(context.path),
+    );
+    const highlights = compaction.pinnedContext.filter(
+        (context): context is HighlightMessageContext =>
+            context.type === MessageContextType.HIGHLIGHT,
+    );
+
+    let prompt = wrapXml('conversation-summary', compaction.summary);
+    const contextPrompt = getFilesContent(files, highlights);
+    if (contextPrompt) {
+        prompt += wrapXml('pinned-context', contextPrompt);
+    }
+
+    return {
+        id: `compaction-${compaction.throughMessageId}`,
+        role: 'user',
+        parts: [{ type: 'text', text: prompt }],
+    };
+}
+
+/** File and highlight context of the given messages, keeping the latest entry per file or range */
+export function getPinnedContext(messages: ChatMessage[]): MessageContext[] {
+    const pinned = new Map<string, MessageContext>();
+    for (const message of messages) {
+        for (const context of message.metadata?.context ?? []) {
+            if (context.type === MessageContextType.FILE) {
+                pinned.delete(`file:${context.path}`);
+                pinned.set(`file:${context.path}`, context);
+            } else if (context.type === MessageContextType.HIGHLIGHT) {
+                const key = `highlight:${context.path}:${context.start}:${context.end}`;
+                pinned.delete(key);
+                pinned.set(key, context);
+            }
+        }
+    }
+    return Array.from(pinned.values());
+}
+
+export function truncateToolOutputs(message: ChatMessage, maxChars: number): ChatMessage {
+    let truncated = false;
+    const parts = message.parts.map((part) => {
+        if (!part.type.startsWith('tool-')) {
+            return part;
+        }
+        const toolPart = part as ToolUIPart;
+        if (toolPart.state !== 'output-available') {
+            return part;
+        }
+        const output =
+            typeof toolPart.output === 'string'
+                ? toolPart.output
+                : JSON.stringify(toolPart.output ?? null);
+        if (output.length <= maxChars) {
+            return part;
+        }
+        truncated = true;
+        const omitted = output.length - maxChars;
+        return {
+            ...toolPart,
+            output: `${output.slice(0, maxChars)}\n… [${omitted} characters truncated]`,
+        } as typeof part;
+    });
+    return truncated ? { ...message, parts } : message;
+}
+
+/**
+ * Splits the messages to summarize into runs that each fit `maxTokens`, oldest first, with
+ * tool outputs truncated. A message that does not fit on its own is sent alone.
+ */
+export async function chunkForSummary(
+    messages: ChatMessage[],
+    maxTokens: number,
+): Promise<ChatMessage[][]> {
+    const chunks: ChatMessage[][] = [];
+    let chunk: ChatMessage[] = [];
+    let chunkTokens = 0;
+    for (const message of messages) {
+        const truncated =
+            message.role === 'assistant'
+                ? truncateToolOutputs(message, MAX_COMPACTED_TOOL_OUTPUT_CHARS)
+                : message;
+        const tokens = await countTokensWithRoles([truncated]);
+        if (chunk.length > 0 && chunkTokens + tokens > maxTokens) {
+            chunks.push(chunk);
+            chunk = [];
+            chunkTokens = 0;
+        }
+        chunk.push(truncated);
+        chunkTokens += tokens;
+    }
+    if (chunk.length > 0) {
+        chunks.push(chunk);
+    }
+    return chunks;
+}
+
+/**
+ * Decides whether the conversation needs compacting and which messages to summarize. Whole
+ * turns are summarized, oldest first, until the remaining turns fit the recent budget; the
+ * latest user message is always kept.
+ */
+export async function planCompaction(
+    messages: ChatMessage[],
+    contextWindow: number,
+): Promise<CompactionPlan | null> {
+    const latest = findLatestCompaction(messages);
+    const { summary, messages: recent } = applyCompaction(messages, latest?.compaction);
+    const tokensBefore = await countTokensWithRoles(summary ? [summary, ...recent] : recent);
+    if (tokensBefore < contextWindow * COMPACTION_THRESHOLD) {
+        return null;
+    }
+
+    const start = (latest?.throughIndex ?? -1) + 1;
+    const lastUserIndex = messages.findLastIndex((message) => message.role === 'user');
+    let cut = lastUserIndex;
+    for (let i = start + 1; i < lastUserIndex; i++) {
+        if (messages[i]!.role !== 'user') {
+            continue;
+        }
+        const recentTokens = await countTokensWithRoles(messages.slice(i));
+        if (recentTokens <= contextWindow * RECENT_MESSAGES_RATIO) {
+            cut = i;
+            break;
+        }
+    }
+    if (cut <= start) {
+        return null;
+    }
+
+    return {
+        messages: messages.slice(start, cut),
+        throughMessageId: messages[cut - 1]!.id,
+        pinnedContext: getPinnedContext(messages.slice(0, cut)),
+        tokensBefore,
+        previous: latest?.compaction ?? null,
+    };
+}
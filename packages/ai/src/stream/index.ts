@@ -1,8 +1,28 @@
-import { type ChatMessage } from '@onlook/models';
-import { convertToModelMessages, type ModelMessage } from 'ai';
-import { getHydratedUserMessage, type HydrateMessageOptions } from '../prompt';
+import { type ChatCompaction, type ChatMessage } from '@onlook/models';
+import { convertToModelMessages, generateText, type LanguageModel, type ModelMessage } from 'ai';
+import { condenseTaskToolOutputs } from '../agents';
+import { getHydratedUserMessage, getSummaryPrompt, type HydrateMessageOptions } from '../prompt';
+import { countTokensWithRoles } from '../tokens';
+import { BUILD_TOOL_SET, SCREENSHOT_FRAME_TOOL_NAME } from '../tools';
+import {
+    applyCompaction,
+    chunkForSummary,
+    getSummaryMessage,
+    planCompaction,
+    SUMMARY_CHUNK_RATIO,
+} from './compaction';
 
-export function convertToStreamMessages(messages: ChatMessage[]): ModelMessage[] {
+export * from './compaction';
+
+/**
+ * Converts the history for the model. Messages covered by the latest compaction, or by
+ * `compaction` when given, are replaced with its summary.
+ */
+export function convertToStreamMessages(
+    allMessages: ChatMessage[],
+    compaction?: ChatCompaction | null,
+): ModelMessage[] {
+    const { summary, messages } = applyCompaction(allMessages, compaction);
     const totalMessages = messages.length;
     const lastUserMessageIndex = messages.findLastIndex((message) => message.role === 'user');
     const lastAssistantMessageIndex = messages.findLastIndex(
@@ -19,7 +39,68 @@ export function convertToStreamMessages(messages: ChatMessage[]): ModelMessage[]
         return toVercelMessageFromOnlook(message, opt);
     });
 
-    return convertToModelMessages(streamMessages);
+    // The tools convert their outputs for the model, e.g. screenshots into images
+    return convertToModelMessages(summary ? [summary, ...streamMessages] : streamMessages, {
+        tools: BUILD_TOOL_SET,
+    });
+}
+
+/**
+ * Summarizes older turns when the conversation nears the context window. Returns the
+ * compaction to send with the reply, or null when none is needed or summarizing failed.
+ */
+export async function compactConversation({
+    messages,
+    model,
+    contextWindow,
+}: {
+    messages: ChatMessage[];
+    model: LanguageModel;
+    contextWindow: number;
+}): Promise<ChatCompaction | null> {
+    const plan = await planCompaction(messages, contextWindow);
+    if (!plan) {
+        return null;
+    }
+
+    try {
+        const compaction: ChatCompaction = {
+            summary: plan.previous?.summary ?? '',
+            throughMessageId: plan.throughMessageId,
+            summarizedMessageCount:
+                plan.messages.length + (plan.previous?.summarizedMessageCount ?? 0),
+            pinnedContext: plan.pinnedContext,
+            tokensBefore: plan.tokensBefore,
+            tokensAfter: 0,
+            createdAt: new Date().toISOString(),
+        };
+        // Each request adds one chunk to the summary so far, so it fits the context window
+        const chunks = await chunkForSummary(plan.messages, contextWindow * SUMMARY_CHUNK_RATIO);
+        for (const chunk of chunks) {
+            const summary = compaction.summary ? getSummaryMessage(compaction, chunk) : null;
+            const { text } = await generateText({
+                model,
+                system: getSummaryPrompt(),
+                messages: [
+                    ...convertToStreamMessages(summary ? [summary, ...chunk] : chunk),
+                    {
+                        role: 'user',
+                        content: 'Summarize the conversation above in the required format.',
+                    },
+                ],
+            });
+            compaction.summary = text.trim();
+        }
+
+        const { summary, messages: recent } = applyCompaction(messages, compaction);
+        compaction.tokensAfter = await countTokensWithRoles(
+            summary ? [summary, ...recent] : recent,
+        );
+        return compaction;
+    } catch (error) {
+        console.error('Error compacting conversation', error);
+        return null;
+    }
 }
 
 export const toVercelMessageFromOnlook = (
@@ -27,9 +108,17 @@ export const toVercelMessageFromOnlook = (
     opt: HydrateMessageOptions,
 ): ChatMessage => {
     if (message.role === 'assistant') {
-        return {
-            ...message,
-        };
+        let condensed = condenseTaskToolOutputs(message);
+        if (opt.currentMessageIndex !== opt.lastAssistantMessageIndex) {
+            condensed = dropScreenshotData(condensed);
+        }
+        // Compaction parts are shown in the chat but not sent to the model
+        return condensed.parts.some((part) => part.type === 'data-compaction')
+            ? {
+                  ...condensed,
+                  parts: condensed.parts.filter((part) => part.type !== 'data-compaction'),
+              }
+            : condensed;
     } else if (message.role === 'user') {
         const hydratedMessage = getHydratedUserMessage(
             message.id,
@@ -42,6 +131,26 @@ export const toVercelMessageFromOnlook = (
     return message;
 };
 
+/** Screenshots are only sent to the model until the turn after the one that took them */
+function dropScreenshotData(message: ChatMessage): ChatMessage {
+    const isScreenshot = (part: ChatMessage['parts'][number]) =>
+        part.type === `tool-${SCREENSHOT_FRAME_TOOL_NAME}` &&
+        part.state === 'output-available' &&
+        !!part.output.data;
+    if (!message.parts.some(isScreenshot)) {
+        return message;
+    }
+
+    return {
+        ...message,
+        parts: message.parts.map((part): ChatMessage['parts'][number] =>
+            part.type === `tool-${SCREENSHOT_FRAME_TOOL_NAME}` && part.state === 'output-available'
+                ? { ...part, output: { ...part.output, data: null } }
+                : part,
+        ),
+    };
+}
+
 export const extractTextFromParts = (parts: ChatMessage['parts']): string => {
     return parts
         ?.map((part) => {
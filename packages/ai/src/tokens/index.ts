@@ -1,23 +1,41 @@
-import { type ChatMessage } from '@onlook/models';
+import { type ChatMessage, type FrameScreenshotResult } from '@onlook/models';
 import type { TextUIPart, ToolUIPart } from 'ai';
 import { encode } from 'gpt-tokenizer';
+import { SCREENSHOT_FRAME_TOOL_NAME } from '../tools';
+
+// Roughly what models charge for a viewport screenshot, far less than its base64 text
+const SCREENSHOT_TOKENS = 1500;
 
 export async function countTokensWithRoles(messages: ChatMessage[]): Promise<number> {
     const perMessageExtra = 4; // ~role + metadata tokens (OpenAI chat format)
     const perReplyExtra = 2; // for assistant reply priming
     let total = 0;
     for (const m of messages) {
+        let imageTokens = 0;
         const content = m.parts
             .map((p) => {
                 if (p.type === 'text') {
                     return (p as TextUIPart).text;
                 } else if (p.type.startsWith('tool-')) {
-                    return JSON.stringify((p as ToolUIPart).input); // TODO: check if this is correct
+                    const toolPart = p as ToolUIPart;
+                    if (
+                        p.type === `tool-${SCREENSHOT_FRAME_TOOL_NAME}` &&
+                        toolPart.state === 'output-available'
+                    ) {
+                        const { data, ...screenshot } = toolPart.output as FrameScreenshotResult;
+                        imageTokens += data ? SCREENSHOT_TOKENS : 0;
+                        return JSON.stringify(toolPart.input) + JSON.stringify(screenshot);
+                    }
+                    const output =
+                        toolPart.state === 'output-available'
+                            ? JSON.stringify(toolPart.output)
+                            : '';
+                    return JSON.stringify(toolPart.input) + output;
                 }
                 return '';
             })
             .join('');
-        total += encode(content).length + perMessageExtra;
+        total += encode(content).length + imageTokens + perMessageExtra;
     }
     return total + perReplyExtra;
 }
@@ -1,2 +1,3 @@
+export * from './permissions';
 export * from './tools';
 export * from './toolset';
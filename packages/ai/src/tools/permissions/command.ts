@@ -0,0 +1,233 @@
+export type CommandOperator = '|' | '||' | '&&' | ';' | '&';
+
+export interface CommandRedirect {
+    op: '>' | '>>' | '<' | '<<<' | '>&' | '<&' | '&>' | '&>>';
+    /** File descriptor the redirect applies to, e.g. 2 in `2>/dev/null` */
+    fd?: number;
+    target: string;
+}
+
+export interface SimpleCommand {
+    /** The command name followed by its arguments, with quotes removed */
+    argv: string[];
+    /** Leading `NAME=value` assignments */
+    env: Record<string, string>;
+    redirects: CommandRedirect[];
+}
+
+export interface ParsedCommand {
+    commands: SimpleCommand[];
+    /** Operators between consecutive commands */
+    operators: CommandOperator[];
+    /**
+     * Set when the command uses shell features that cannot be checked statically, such as
+     * command substitution or subshells. `commands` is then incomplete.
+     */
+    unsupported: string | null;
+}
+
+type Token =
+    | { type: 'word'; value: string }
+    | { type: 'operator'; value: CommandOperator }
+    | { type: 'redirect'; value: CommandRedirect['op']; fd?: number };
+
+const OPERATORS: CommandOperator[] = ['||', '&&', '|', ';', '&'];
+const REDIRECTS: CommandRedirect['op'][] = ['&>>', '&>', '<<<', '>>', '>&', '<&', '>', '<'];
+
+function tokenize(input: string): { tokens: Token[]; unsupported: string | null } {
+    const tokens: Token[] = [];
+    let word = '';
+    let hasWord = false;
+    let unsupported: string | null = null;
+
+    const flush = () => {
+        if (hasWord) {
+            tokens.push({ type: 'word', value: word });
+        }
+        word = '';
+        hasWord = false;
+    };
+
+    let i = 0;
+    while (i < input.length) {
+        const char = input[i]!;
+
+        if (char === '\\') {
+            const next = input[i + 1];
+            if (next !== undefined && next !== '\n') {
+                word += next;
+                hasWord = true;
+            }
+            i += 2;
+            continue;
+        }
+
+        if (char === "'") {
+            const end = input.indexOf("'", i + 1);
+            if (end === -1) {
+                unsupported ??= 'unterminated quote';
+                word += input.slice(i + 1);
+                hasWord = true;
+                break;
+            }
+            word += input.slice(i + 1, end);
+            hasWord = true;
+            i = end + 1;
+            continue;
+        }
+
+        if (char === '"') {
+            i++;
+            hasWord = true;
+            let closed = false;
+            while (i < input.length) {
+                const inner = input[i]!;
+                if (inner === '"') {
+                    closed = true;
+                    i++;
+                    break;
+                }
+                if (inner === '\\' && ['"', '\\', '$', '`'].includes(input[i + 1] ?? '')) {
+                    word += input[i + 1];
+                    i += 2;
+                    continue;
+                }
+                if (inner === '`' || (inner === '$' && input[i + 1] === '(')) {
+                    unsupported ??= 'command substitution';
+                }
+                word += inner;
+                i++;
+            }
+            if (!closed) {
+                unsupported ??= 'unterminated quote';
+            }
+            continue;
+        }
+
+        if (char === '`' || (char === '$' && input[i + 1] === '(')) {
+            unsupported ??= 'command substitution';
+        } else if ((char === '<' || char === '>') && input[i + 1] === '(') {
+            unsupported ??= 'process substitution';
+        } else if ((char === '(' || char === ')') && !hasWord) {
+            unsupported ??= 'subshell';
+        } else if (char === '{' && !hasWord && /\s/.test(input[i + 1] ?? '')) {
+            // `{ a; b; }` groups commands, unlike the `{}` placeholder of `find -exec`
+            unsupported ??= 'command group';
+        } else if (char === '<' && input.startsWith('<<', i) && !input.startsWith('<<<', i)) {
+            unsupported ??= 'heredoc';
+        }
+
+        if (char === ' ' || char === '\t') {
+            flush();
+            i++;
+            continue;
+        }
+
+        if (char === '\n') {
+            flush();
+            tokens.push({ type: 'operator', value: ';' });
+            i++;
+            continue;
+        }
+
+        if (char === '#' && !hasWord) {
+            const end = input.indexOf('\n', i);
+            i = end === -1 ? input.length : end;
+            continue;
+        }
+
+        const redirect = REDIRECTS.find((op) => input.startsWith(op, i));
+        if (redirect) {
+            // A word made only of digits right before a redirect is its file descriptor
+            const fd = hasWord && /^\d+$/.test(word) ? Number(word) : undefined;
+            if (fd === undefined) {
+                flush();
+            } else {
+                word = '';
+                hasWord = false;
+            }
+            tokens.push({ type: 'redirect', value: redirect, fd });
+            i += redirect.length;
+            continue;
+        }
+
+        const operator = OPERATORS.find((op) => input.startsWith(op, i));
+        if (operator) {
+            flush();
+            tokens.push({ type: 'operator', value: operator });
+            i += operator.length;
+            continue;
+        }
+
+        word += char;
+        hasWord = true;
+        i++;
+    }
+    flush();
+
+    return { tokens, unsupported };
+}
+
+/**
+ * Parses a shell command into the simple commands it runs, so each one can be checked on
+ * its own: `cat a.txt | grep foo && rm -rf dist > log.txt` yields `cat`, `grep` and `rm`,
+ * the last with a redirect to `log.txt`.
+ */
+export function parseCommand(input: string): ParsedCommand {
+    const { tokens, unsupported } = tokenize(input);
+    const commands: SimpleCommand[] = [];
+    const operators: CommandOperator[] = [];
+    let current: SimpleCommand = { argv: [], env: {}, redirects: [] };
+    let pendingOperator: CommandOperator | null = null;
+
+    const finish = () => {
+        if (current.argv.length === 0 && current.redirects.length === 0) {
+            return;
+        }
+        if (commands.length > 0) {
+            operators.push(pendingOperator ?? ';');
+        }
+        commands.push(current);
+        current = { argv: [], env: {}, redirects: [] };
+        pendingOperator = null;
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i]!;
+        if (token.type === 'operator') {
+            finish();
+            pendingOperator = token.value;
+            continue;
+        }
+
+        if (token.type === 'redirect') {
+            const target = tokens[i + 1];
+            if (target?.type === 'word') {
+                current.redirects.push({ op: token.value, fd: token.fd, target: target.value });
+                i++;
+            }
+            continue;
+        }
+
+        const assignment = /^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/s.exec(token.value);
+        if (assignment && current.argv.length === 0) {
+            current.env[assignment[1]!] = assignment[2]!;
+            continue;
+        }
+        current.argv.push(token.value);
+    }
+    finish();
+
+    return { commands, operators, unsupported };
+}
+
+/** Redirect targets the command writes to; duplicated descriptors such as `2>&1` are skipped */
+export function getWrittenPaths(command: SimpleCommand): string[] {
+    return command.redirects
+        .filter(
+            ({ op, target }) =>
+                (op === '>' || op === '>>' || op === '&>' || op === '&>>') &&
+                target !== '/dev/null',
+        )
+        .map(({ target }) => target);
+}
@@ -0,0 +1,45 @@
+const globCache = new Map<string, RegExp>();
+
+/** `*` and `?` stay within a path segment, `**` crosses segments */
+export function globToRegExp(glob: string): RegExp {
+    const cached = globCache.get(glob);
+    if (cached) {
+        return cached;
+    }
+
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i]!;
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                // `**/` also matches no directories at all
+                const slash = glob[i + 2] === '/';
+                source += slash ? '(?:.*/)?' : '.*';
+                i += slash ? 2 : 1;
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    const regExp = new RegExp(`^${source}$`);
+    globCache.set(glob, regExp);
+    return regExp;
+}
+
+export function matchesGlob(value: string, glob: string): boolean {
+    return globToRegExp(glob).test(value);
+}
+
+/** Drops `./` and leading slashes so `./src/a.ts`, `/src/a.ts` and `src/a.ts` compare equal */
+export function normalizePath(filePath: string): string {
+    return filePath
+        .replace(/\\/g, '/')
+        .replace(/^(\.\/)+/, '')
+        .replace(/^\/+/, '')
+        .replace(/\/{2,}/g, '/');
+}
@@ -0,0 +1,3 @@
+export * from './command';
+export * from './glob';
+export * from './policy';
@@ -0,0 +1,331 @@
+import type {
+    ToolPermissionAction,
+    ToolPermissionDecision,
+    ToolPermissionPolicy,
+    ToolPermissionRule,
+} from '@onlook/models';
+import {
+    ALLOWED_BASH_READ_COMMANDS,
+    BASH_EDIT_TOOL_NAME,
+    BASH_READ_TOOL_NAME,
+    isMcpToolName,
+    MCP_TOOL_PREFIX,
+    TERMINAL_COMMAND_TOOL_NAME,
+} from '../tools';
+import { getWrittenPaths, parseCommand, type SimpleCommand } from './command';
+import { matchesGlob, normalizePath } from './glob';
+
+const COMMAND_TOOLS = [TERMINAL_COMMAND_TOOL_NAME, BASH_READ_TOOL_NAME, BASH_EDIT_TOOL_NAME];
+const PATH_INPUT_KEYS = ['file_path', 'path'];
+const ACTION_SEVERITY: Record<ToolPermissionAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+const readCommandRules = (tool: string): ToolPermissionRule[] =>
+    ALLOWED_BASH_READ_COMMANDS.options.map((command) => ({
+        id: `default-${tool}-${command}`,
+        action: 'allow',
+        tool,
+        command,
+    }));
+
+/** Checked in order when no project rule matches; the first match decides */
+export const DEFAULT_TOOL_PERMISSION_RULES: ToolPermissionRule[] = [
+    ...readCommandRules(BASH_READ_TOOL_NAME),
+    {
+        id: 'default-bash_read',
+        action: 'deny',
+        tool: BASH_READ_TOOL_NAME,
+        description: 'Only read-only commands can run with bash_read',
+    },
+    ...['mkdir', 'cp', 'mv', 'touch', 'ln'].map((command): ToolPermissionRule => ({
+        id: `default-bash_edit-${command}`,
+        action: 'allow',
+        tool: BASH_EDIT_TOOL_NAME,
+        command,
+    })),
+    ...['rm', 'rmdir', 'chmod', 'chown', 'git'].map((command): ToolPermissionRule => ({
+        id: `default-bash_edit-${command}`,
+        action: 'ask',
+        tool: BASH_EDIT_TOOL_NAME,
+        command,
+    })),
+    {
+        id: 'default-bash_edit',
+        action: 'deny',
+        tool: BASH_EDIT_TOOL_NAME,
+        description: 'Only file commands can run with bash_edit',
+    },
+    ...readCommandRules(TERMINAL_COMMAND_TOOL_NAME),
+    {
+        id: 'default-terminal_command',
+        action: 'ask',
+        tool: TERMINAL_COMMAND_TOOL_NAME,
+        description: 'Terminal commands need approval',
+    },
+    {
+        id: 'default-mcp',
+        action: 'ask',
+        tool: `${MCP_TOOL_PREFIX}*`,
+        description: 'Tools of MCP servers need approval',
+    },
+    {
+        id: 'default-allow',
+        action: 'allow',
+        description: 'Other tools are allowed',
+    },
+];
+
+export interface ToolCallContext {
+    toolName: string;
+    input: unknown;
+    branch?: { id: string; name?: string };
+}
+
+export interface ToolPermissionEvaluation extends ToolPermissionDecision {
+    /**
+     * Rules that would allow this call next time, offered as "always allow". Null when the
+     * call cannot be allowed that narrowly, e.g. a project rule asks for it.
+     */
+    alwaysAllowRules: Omit<ToolPermissionRule, 'id'>[] | null;
+}
+
+interface ToolCallSubject {
+    command: SimpleCommand | null;
+    paths: string[];
+}
+
+function getInput(input: unknown): Record<string, unknown> {
+    return input && typeof input === 'object' ? (input as Record<string, unknown>) : {};
+}
+
+function commandName(command: SimpleCommand): string {
+    return command.argv[0]?.split('/').pop() ?? '';
+}
+
+function getSubjects(
+    toolName: string,
+    input: unknown,
+): { subjects: ToolCallSubject[]; unsupported: string | null } {
+    const values = getInput(input);
+    if (COMMAND_TOOLS.includes(toolName) && typeof values.command === 'string') {
+        const parsed = parseCommand(values.command);
+        const subjects = parsed.commands.map((command) => ({
+            command,
+            // Arguments count as paths so path rules also cover e.g. `cat .env`
+            paths: [
+                ...command.argv.slice(1).filter((arg) => !arg.startsWith('-')),
+                ...command.redirects.map(({ target }) => target),
+            ],
+        }));
+        return { subjects, unsupported: parsed.unsupported };
+    }
+
+    const paths = PATH_INPUT_KEYS.map((key) => values[key]).filter(
+        (value): value is string => typeof value === 'string' && value.length > 0,
+    );
+    return { subjects: [{ command: null, paths }], unsupported: null };
+}
+
+function matchesCommand(command: SimpleCommand | null, pattern: string): boolean {
+    if (!command) {
+        return false;
+    }
+    const words = pattern.trim().split(/\s+/);
+    const argv = [commandName(command), ...command.argv.slice(1)];
+    if (argv.length < words.length) {
+        return false;
+    }
+    // `*` in a command word may match slashes, unlike in path globs
+    return words.every((word, index) => matchesGlob(argv[index]!, word.replace(/\*+/g, '**')));
+}
+
+function ruleMatches(
+    rule: ToolPermissionRule,
+    toolName: string,
+    subject: ToolCallSubject,
+    branch: ToolCallContext['branch'],
+): boolean {
+    if (rule.tool && !matchesGlob(toolName, rule.tool)) {
+        return false;
+    }
+    if (rule.command && !matchesCommand(subject.command, rule.command)) {
+        return false;
+    }
+    if (rule.path) {
+        const glob = normalizePath(rule.path);
+        if (!subject.paths.some((path) => matchesGlob(normalizePath(path), glob))) {
+            return false;
+        }
+    }
+    if (rule.branch) {
+        if (!branch) {
+            return false;
+        }
+        const { id, name } = branch;
+        if (!matchesGlob(id, rule.branch) && !(name && matchesGlob(name, rule.branch))) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function describeRule(rule: ToolPermissionRule): string {
+    if (rule.description) {
+        return rule.description;
+    }
+    const conditions = [
+        rule.tool && `tool ${rule.tool}`,
+        rule.command && `command "${rule.command}"`,
+        rule.path && `path ${rule.path}`,
+        rule.branch && `branch ${rule.branch}`,
+    ].filter(Boolean);
+    return `Rule for ${conditions.join(', ') || 'all tools'}`;
+}
+
+function mostRestrictive<T extends { action: ToolPermissionAction }>(items: T[]): T | undefined {
+    return items.reduce<T | undefined>(
+        (strictest, item) =>
+            !strictest || ACTION_SEVERITY[item.action] > ACTION_SEVERITY[strictest.action]
+                ? item
+                : strictest,
+        undefined,
+    );
+}
+
+function decideForRules(
+    projectRules: ToolPermissionRule[],
+    matches: (rule: ToolPermissionRule) => boolean,
+): ToolPermissionDecision | null {
+    // Project rules are declarative: every match counts and the strictest wins
+    const projectRule = mostRestrictive(projectRules.filter(matches));
+    if (projectRule) {
+        return {
+            action: projectRule.action,
+            reason: describeRule(projectRule),
+            ruleId: projectRule.id,
+            source: 'project',
+        };
+    }
+    const defaultRule = DEFAULT_TOOL_PERMISSION_RULES.find(matches);
+    if (defaultRule) {
+        return {
+            action: defaultRule.action,
+            reason: describeRule(defaultRule),
+            ruleId: defaultRule.id,
+            source: 'default',
+        };
+    }
+    return null;
+}
+
+function alwaysAllowRuleFor(
+    toolName: string,
+    command: SimpleCommand | null,
+): Omit<ToolPermissionRule, 'id'> {
+    if (!command) {
+        return { action: 'allow', tool: toolName };
+    }
+    const subcommand = command.argv[1];
+    const prefix =
+        subcommand && !subcommand.startsWith('-') && !subcommand.includes('/')
+            ? `${commandName(command)} ${subcommand}`
+            : commandName(command);
+    return { action: 'allow', tool: toolName, command: prefix };
+}
+
+/**
+ * Decides whether a tool call may run. Commands are parsed and every command in a pipeline
+ * or chain is checked on its own; the strictest decision wins.
+ */
+export function evaluateToolPermission(
+    { toolName, input, branch }: ToolCallContext,
+    policy?: ToolPermissionPolicy | null,
+): ToolPermissionEvaluation {
+    const projectRules = policy?.rules ?? [];
+    const { subjects, unsupported } = getSubjects(toolName, input);
+
+    if (toolName === BASH_READ_TOOL_NAME) {
+        const written = subjects.flatMap(({ command }) =>
+            command ? getWrittenPaths(command) : [],
+        );
+        if (written.length > 0) {
+            return {
+                action: 'deny',
+                reason: `bash_read cannot write files (${written.join(', ')})`,
+                source: 'default',
+                alwaysAllowRules: null,
+            };
+        }
+    }
+
+    const decisions: (ToolPermissionDecision & { subject: ToolCallSubject | null })[] = [];
+    for (const subject of subjects.length > 0 ? subjects : [{ command: null, paths: [] }]) {
+        const decision = decideForRules(projectRules, (rule) =>
+            ruleMatches(rule, toolName, subject, branch),
+        );
+        if (decision) {
+            decisions.push({ ...decision, subject });
+        }
+    }
+
+    if (unsupported) {
+        // Only rules that cover the whole tool can vouch for commands we cannot see into
+        const toolWide = decideForRules(
+            projectRules.filter((rule) => !rule.command && !rule.path),
+            (rule) =>
+                !rule.command &&
+                !rule.path &&
+                ruleMatches(rule, toolName, { command: null, paths: [] }, branch),
+        );
+        decisions.push(
+            toolWide?.source === 'project'
+                ? { ...toolWide, subject: null }
+                : {
+                      action: toolName === BASH_READ_TOOL_NAME ? 'deny' : 'ask',
+                      reason: `The command uses ${unsupported}, which cannot be checked`,
+                      source: 'default',
+                      subject: null,
+                  },
+        );
+    }
+
+    const decision = mostRestrictive(decisions) ?? {
+        action: 'allow' as const,
+        reason: 'No rule matched',
+        source: 'default' as const,
+        subject: null,
+    };
+
+    let alwaysAllowRules: Omit<ToolPermissionRule, 'id'>[] | null = null;
+    if (decision.action === 'ask') {
+        const asking = decisions.filter(({ action }) => action === 'ask');
+        // MCP tools have no command to narrow down to, so the rule covers the whole tool
+        if (
+            asking.every(
+                ({ source, subject }) =>
+                    source === 'default' && (subject?.command || isMcpToolName(toolName)),
+            )
+        ) {
+            alwaysAllowRules = asking.map(({ subject }) =>
+                alwaysAllowRuleFor(toolName, subject?.command ?? null),
+            );
+        }
+    }
+
+    const { subject: _subject, ...result } = decision;
+    return { ...result, alwaysAllowRules };
+}
+
+/** Short description of a tool call for approval prompts and the audit log */
+export function summarizeToolInput(toolName: string, input: unknown): string {
+    const values = getInput(input);
+    if (typeof values.command === 'string') {
+        return values.command;
+    }
+    for (const key of PATH_INPUT_KEYS) {
+        if (typeof values[key] === 'string') {
+            return values[key];
+        }
+    }
+    const json = JSON.stringify(input ?? {});
+    return json.length > 200 ? `${json.slice(0, 200)}…` : json;
+}
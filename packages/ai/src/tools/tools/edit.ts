@@ -56,11 +56,11 @@ export const FUZZY_EDIT_FILE_TOOL_NAME = 'fuzzy_edit_file';
 export const FUZZY_EDIT_FILE_TOOL_PARAMETERS = z.object({
     file_path: z.string().describe('The absolute path to the file to edit'),
     content: z.string()
-        .describe(`The edit to the file. You only need to include the parts of the code that are being edited instead of the entire file. A smaller model will handle implementing the rest of the code. You must leave comments to indicate the parts of the code that are not being edited such as:
+        .describe(`The edit to the file. You only need to include the parts of the code that are being edited instead of the entire file. The edit is merged into the file by matching the unchanged lines around each change. You must leave comments to indicate the parts of the code that are not being edited such as:
 // ... existing code
 const foo = 'bar';
 // ... existing code
-Make sure there's enough context for the other model to understand where the changes are being made.`),
+Make sure there's enough unchanged context around each change to show where it is being made.`),
     instruction: z
         .string()
         .describe(
@@ -70,6 +70,6 @@ Make sure there's enough context for the other model to understand where the cha
 });
 export const fuzzyEditFileTool = tool({
     description:
-        'Edit the contents of a file with fuzzy matching instead of search and replace. This should be used as a fallback when the search and replace tool fails. It calls another agent to do the actual editing.',
+        'Edit the contents of a file with fuzzy matching instead of search and replace. This should be used as a fallback when the search and replace tool fails. Edits that cannot be placed confidently are rejected with the reason.',
     inputSchema: FUZZY_EDIT_FILE_TOOL_PARAMETERS,
 });
@@ -0,0 +1,88 @@
+import { type FrameScreenshotResult } from '@onlook/models';
+import { tool } from 'ai';
+import { z } from 'zod';
+import { BRANCH_ID_SCHEMA } from './branch';
+
+const FRAME_ID_SCHEMA = z
+    .string()
+    .optional()
+    .describe('The frame to use. Defaults to a frame of the branch showing the route, if any.');
+const ROUTE_SCHEMA = z
+    .string()
+    .optional()
+    .describe(
+        'The route to show, e.g. "/about". The frame navigates to it when showing another page.',
+    );
+
+export const SCREENSHOT_FRAME_TOOL_NAME = 'screenshot_frame';
+export const SCREENSHOT_FRAME_TOOL_PARAMETERS = z.object({
+    frame_id: FRAME_ID_SCHEMA,
+    route: ROUTE_SCHEMA,
+    branchId: BRANCH_ID_SCHEMA,
+});
+const FRAME_SCREENSHOT_RESULT_SCHEMA: z.ZodType<FrameScreenshotResult> = z.object({
+    frameId: z.string(),
+    url: z.string(),
+    mimeType: z.string(),
+    data: z.string().nullable(),
+});
+export const screenshotFrameTool = tool({
+    description:
+        'Captures a screenshot of the page rendered in a frame of the canvas. Use it after changing the UI to check that the result looks as intended, and fix what does not before finishing. Screenshots from earlier turns are not kept.',
+    inputSchema: SCREENSHOT_FRAME_TOOL_PARAMETERS,
+    outputSchema: FRAME_SCREENSHOT_RESULT_SCHEMA,
+    toModelOutput: (output) => {
+        const text = `Screenshot of ${output.url} (frame ${output.frameId})`;
+        if (!output.data) {
+            return { type: 'text', value: `${text}, no longer available` };
+        }
+        return {
+            type: 'content',
+            value: [
+                { type: 'text', text },
+                { type: 'media', data: output.data, mediaType: output.mimeType },
+            ],
+        };
+    },
+});
+
+export const GET_LAYER_TREE_TOOL_NAME = 'get_layer_tree';
+export const GET_LAYER_TREE_TOOL_PARAMETERS = z.object({
+    oid: z
+        .string()
+        .optional()
+        .describe('Only return the element with this OID (data-oid) and its children'),
+    max_depth: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe('How many levels of children to include. Defaults to the whole tree.'),
+    frame_id: FRAME_ID_SCHEMA,
+    route: ROUTE_SCHEMA,
+    branchId: BRANCH_ID_SCHEMA,
+});
+export const getLayerTreeTool = tool({
+    description:
+        'Returns the elements rendered in a frame as an indented tree, with the tag, component, OID and text of each element. OIDs match the data-oid attributes in the code, so they tell which JSX element rendered each part of the page.',
+    inputSchema: GET_LAYER_TREE_TOOL_PARAMETERS,
+});
+
+export const GET_COMPUTED_STYLES_TOOL_NAME = 'get_computed_styles';
+export const GET_COMPUTED_STYLES_TOOL_PARAMETERS = z.object({
+    oid: z.string().min(1).describe('The OID (data-oid) of the element'),
+    properties: z
+        .array(z.string())
+        .optional()
+        .describe(
+            'CSS properties to return, e.g. ["display", "gap"]. Defaults to common layout, spacing, typography and color properties.',
+        ),
+    frame_id: FRAME_ID_SCHEMA,
+    route: ROUTE_SCHEMA,
+    branchId: BRANCH_ID_SCHEMA,
+});
+export const getComputedStylesTool = tool({
+    description:
+        'Reads the computed CSS of a rendered element by its OID, as the browser resolved it after Tailwind classes and stylesheets. Use it to check sizes, spacing and colors that are hard to tell from a screenshot.',
+    inputSchema: GET_COMPUTED_STYLES_TOOL_PARAMETERS,
+});
@@ -2,8 +2,11 @@ export * from './branch';
 export * from './cli';
 export * from './edit';
 export * from './errors';
+export * from './frame';
 export * from './guides';
+export * from './mcp';
 export * from './plan';
 export * from './read';
 export * from './sandbox';
+export * from './symbols';
 export * from './web';
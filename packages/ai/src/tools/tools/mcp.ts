@@ -0,0 +1,102 @@
+import type { McpServerState } from '@onlook/models';
+import { jsonSchema, tool, type JSONSchema7, type ToolSet } from 'ai';
+import { z } from 'zod';
+
+export const MCP_TOOL_PREFIX = 'mcp__';
+const MAX_TOOL_NAME_LENGTH = 64;
+const MAX_LISTED_ITEMS = 50;
+
+/**
+ * Providers only accept letters, digits, `_` and `-` in tool names. `-` is replaced too
+ * since chat messages store tool parts as `tool-<name>`.
+ */
+function sanitizeName(name: string): string {
+    return name.replace(/[^a-zA-Z0-9_]/g, '_');
+}
+
+/** Namespaced name of a server tool, e.g. `mcp__design_system__get_tokens` */
+export function getMcpToolName(server: string, toolName: string): string {
+    return `${MCP_TOOL_PREFIX}${sanitizeName(server)}__${sanitizeName(toolName)}`.slice(
+        0,
+        MAX_TOOL_NAME_LENGTH,
+    );
+}
+
+export function isMcpToolName(toolName: string): boolean {
+    return toolName.startsWith(MCP_TOOL_PREFIX);
+}
+
+export const READ_MCP_RESOURCE_TOOL_NAME = 'read_mcp_resource';
+export const READ_MCP_RESOURCE_TOOL_PARAMETERS = z.object({
+    server: z.string().describe('Name of the MCP server'),
+    uri: z.string().describe('URI of the resource'),
+});
+
+export const GET_MCP_PROMPT_TOOL_NAME = 'get_mcp_prompt';
+export const GET_MCP_PROMPT_TOOL_PARAMETERS = z.object({
+    server: z.string().describe('Name of the MCP server'),
+    name: z.string().describe('Name of the prompt'),
+    arguments: z
+        .record(z.string(), z.string())
+        .optional()
+        .describe('Values for the arguments of the prompt'),
+});
+
+function listItems(lines: string[]): string {
+    const listed = lines.slice(0, MAX_LISTED_ITEMS);
+    if (lines.length > MAX_LISTED_ITEMS) {
+        listed.push(`- ... and ${lines.length - MAX_LISTED_ITEMS} more`);
+    }
+    return listed.join('\n');
+}
+
+/**
+ * Tools discovered on the project's MCP servers, plus tools to read their resources and
+ * prompts. Like built-in tools they have no `execute`: the client runs them.
+ */
+export function getMcpToolSet(servers: McpServerState[], readOnly: boolean): ToolSet {
+    const connected = servers.filter((server) => server.status === 'connected');
+    const toolSet: ToolSet = {};
+
+    for (const server of connected) {
+        for (const info of server.tools) {
+            if (readOnly && !info.readOnly) {
+                continue;
+            }
+            toolSet[info.name] = tool({
+                description: `${info.description || info.serverToolName} (from the ${server.name} MCP server)`,
+                inputSchema: jsonSchema(info.inputSchema as JSONSchema7),
+            });
+        }
+    }
+
+    const resources = connected.flatMap((server) =>
+        server.resources.map(
+            (resource) =>
+                `- ${server.name}: ${resource.uri} (${resource.name})${resource.description ? ` ${resource.description}` : ''}`,
+        ),
+    );
+    if (resources.length > 0) {
+        toolSet[READ_MCP_RESOURCE_TOOL_NAME] = tool({
+            description: `Reads a resource from an MCP server of the project. Available resources:\n${listItems(resources)}`,
+            inputSchema: READ_MCP_RESOURCE_TOOL_PARAMETERS,
+        });
+    }
+
+    const prompts = connected.flatMap((server) =>
+        server.prompts.map((prompt) => {
+            const args = prompt.arguments
+                .map((argument) => `${argument.name}${argument.required ? '' : '?'}`)
+                .join(', ');
+            return `- ${server.name}: ${prompt.name}(${args})${prompt.description ? ` ${prompt.description}` : ''}`;
+        }),
+    );
+    if (prompts.length > 0) {
+        toolSet[GET_MCP_PROMPT_TOOL_NAME] = tool({
+            description: `Gets a prompt template from an MCP server of the project, filled in with the given arguments. Available prompts:\n${listItems(prompts)}`,
+            inputSchema: GET_MCP_PROMPT_TOOL_PARAMETERS,
+        });
+    }
+
+    return toolSet;
+}
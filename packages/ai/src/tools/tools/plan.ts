@@ -1,15 +1,30 @@
 import { tool } from 'ai';
 import { z } from 'zod';
 
-// Not used
-const TASK_TOOL_NAME = 'task';
-const TASK_TOOL_PARAMETERS = z.object({
+export const SUBAGENT_TYPES = ['general-purpose', 'codebase-search'] as const;
+export type SubagentType = (typeof SUBAGENT_TYPES)[number];
+
+export const TASK_TOOL_NAME = 'task';
+export const TASK_TOOL_PARAMETERS = z.object({
     description: z.string().min(3).max(50).describe('Short task description (3-5 words)'),
-    prompt: z.string().describe('Detailed task for the agent'),
-    subagent_type: z.enum(['general-purpose']).describe('Agent type'),
+    prompt: z
+        .string()
+        .describe(
+            'Detailed task for the agent, including what it should report back. The agent cannot see this conversation.',
+        ),
+    subagent_type: z
+        .enum(SUBAGENT_TYPES)
+        .describe(
+            'Agent type: codebase-search only lists, searches and reads files; general-purpose can also search the web and read the style guide',
+        ),
+    branchId: z
+        .string()
+        .optional()
+        .describe('Restrict the agent to this branch. Defaults to the branch the agent chooses.'),
 });
-const taskTool = tool({
-    description: 'Launch specialized agents for analysis tasks',
+export const taskTool = tool({
+    description:
+        'Launch a sub-agent with its own context window to research a question, e.g. a wide search across the codebase. It can only read and returns a condensed answer, which keeps large searches out of this conversation.',
     inputSchema: TASK_TOOL_PARAMETERS,
 });
 
@@ -27,7 +42,8 @@ export const TODO_WRITE_TOOL_PARAMETERS = z.object({
         .describe('Array of todo objects'),
 });
 export const todoWriteTool = tool({
-    description: 'Create and manage structured task lists for coding sessions',
+    description:
+        'Create and manage structured task lists for coding sessions. Always send the full list; it replaces the previous one and is shown to the user as a checklist.',
     inputSchema: TODO_WRITE_TOOL_PARAMETERS,
 });
 
@@ -36,6 +52,7 @@ export const EXIT_PLAN_MODE_TOOL_PARAMETERS = z.object({
     plan: z.string().describe('Implementation plan in markdown'),
 });
 export const exitPlanModeTool = tool({
-    description: 'Exit planning mode when ready to implement code',
+    description:
+        'Exit planning mode when ready to implement code. The user reviews the plan and must approve it before editing tools become available.',
     inputSchema: EXIT_PLAN_MODE_TOOL_PARAMETERS,
 });
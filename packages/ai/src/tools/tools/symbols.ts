@@ -0,0 +1,62 @@
+import { CodeSymbolKind } from '@onlook/models';
+import { tool } from 'ai';
+import { z } from 'zod';
+import { BRANCH_ID_SCHEMA } from './branch';
+
+export const FIND_SYMBOL_TOOL_NAME = 'find_symbol';
+export const FIND_SYMBOL_TOOL_PARAMETERS = z.object({
+    name: z
+        .string()
+        .min(1)
+        .describe(
+            'Name of the component, function, type or variable. Exact names and export names are matched first, then names containing it.',
+        ),
+    kind: z.enum(CodeSymbolKind).optional().describe('Only return symbols of this kind'),
+    branchId: BRANCH_ID_SCHEMA,
+});
+export const findSymbolTool = tool({
+    description:
+        'Finds where a component, function, class, type, interface, enum or variable is declared in the project, using an index of the top-level symbols of every JS/TS file. Returns the file, line, kind and export names of each match. Prefer this over grep when looking for a declaration.',
+    inputSchema: FIND_SYMBOL_TOOL_PARAMETERS,
+});
+
+export const FIND_REFERENCES_TOOL_NAME = 'find_references';
+export const FIND_REFERENCES_TOOL_PARAMETERS = z.object({
+    name: z.string().min(1).describe('Name of the symbol, as declared or exported'),
+    file_path: z
+        .string()
+        .optional()
+        .describe('The file declaring the symbol, when several symbols share the name'),
+    branchId: BRANCH_ID_SCHEMA,
+});
+export const findReferencesTool = tool({
+    description:
+        'Lists the lines using a symbol: in its own file and in every file importing it, including imports through re-exporting index files. Unlike grep, it ignores unrelated symbols with the same name.',
+    inputSchema: FIND_REFERENCES_TOOL_PARAMETERS,
+});
+
+export const GET_COMPONENT_PROPS_TOOL_NAME = 'get_component_props';
+export const GET_COMPONENT_PROPS_TOOL_PARAMETERS = z.object({
+    name: z.string().min(1).describe('Name of the component'),
+    file_path: z
+        .string()
+        .optional()
+        .describe('The file declaring the component, when several components share the name'),
+    branchId: BRANCH_ID_SCHEMA,
+});
+export const getComponentPropsTool = tool({
+    description:
+        'Returns the props of a React component with their types, whether they are required and their default values. Types are read from props declared in the same file as the component.',
+    inputSchema: GET_COMPONENT_PROPS_TOOL_PARAMETERS,
+});
+
+export const LIST_IMPORTERS_TOOL_NAME = 'list_importers';
+export const LIST_IMPORTERS_TOOL_PARAMETERS = z.object({
+    file_path: z.string().min(1).describe('The absolute path to the file'),
+    branchId: BRANCH_ID_SCHEMA,
+});
+export const listImportersTool = tool({
+    description:
+        'Lists the files that import or re-export a file, with the line of each import and the names imported. Use it to find what is affected by changing or moving a file.',
+    inputSchema: LIST_IMPORTERS_TOOL_PARAMETERS,
+});
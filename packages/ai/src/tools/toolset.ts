@@ -1,20 +1,35 @@
-import { ChatType } from '@onlook/models';
+import { ChatType, type McpServerState } from '@onlook/models';
 import { type InferUITools, type ToolSet } from 'ai';
 import {
     BASH_EDIT_TOOL_NAME,
     BASH_READ_TOOL_NAME,
     bashEditTool,
     bashReadTool,
+    FIND_REFERENCES_TOOL_NAME,
+    FIND_SYMBOL_TOOL_NAME,
+    findReferencesTool,
+    findSymbolTool,
     FUZZY_EDIT_FILE_TOOL_NAME,
     fuzzyEditFileTool,
+    GET_COMPONENT_PROPS_TOOL_NAME,
+    GET_COMPUTED_STYLES_TOOL_NAME,
+    GET_LAYER_TREE_TOOL_NAME,
+    getComponentPropsTool,
+    getComputedStylesTool,
+    getLayerTreeTool,
     GLOB_TOOL_NAME,
     globTool,
     GREP_TOOL_NAME,
     grepTool,
     LIST_BRANCHES_TOOL_NAME,
     LIST_FILES_TOOL_NAME,
+    LIST_IMPORTERS_TOOL_NAME,
     listBranchesTool,
     listFilesTool,
+    listImportersTool,
+    EXIT_PLAN_MODE_TOOL_NAME,
+    exitPlanModeTool,
+    getMcpToolSet,
     ONLOOK_INSTRUCTIONS_TOOL_NAME,
     onlookInstructionsTool,
     READ_FILE_TOOL_NAME,
@@ -25,12 +40,18 @@ import {
     sandboxTool,
     SCRAPE_URL_TOOL_NAME,
     scrapeUrlTool,
+    SCREENSHOT_FRAME_TOOL_NAME,
+    screenshotFrameTool,
     SEARCH_REPLACE_EDIT_FILE_TOOL_NAME,
     SEARCH_REPLACE_MULTI_EDIT_FILE_TOOL_NAME,
     searchReplaceEditFileTool,
     searchReplaceMultiEditFileTool,
+    TASK_TOOL_NAME,
+    taskTool,
     TERMINAL_COMMAND_TOOL_NAME,
     terminalCommandTool,
+    TODO_WRITE_TOOL_NAME,
+    todoWriteTool,
     TYPECHECK_TOOL_NAME,
     typecheckTool,
     WEB_SEARCH_TOOL_NAME,
@@ -39,21 +60,46 @@ import {
     writeFileTool,
 } from './tools';
 
-export const ASK_TOOL_SET: ToolSet = {
+// Sub-agents get a subset of these and no task tool, so they cannot spawn agents themselves
+export const SEARCH_TOOL_SET: ToolSet = {
     [LIST_FILES_TOOL_NAME]: listFilesTool,
     [READ_FILE_TOOL_NAME]: readFileTool,
     [BASH_READ_TOOL_NAME]: bashReadTool,
+    [LIST_BRANCHES_TOOL_NAME]: listBranchesTool,
+    [GLOB_TOOL_NAME]: globTool,
+    [GREP_TOOL_NAME]: grepTool,
+};
+
+export const READ_ONLY_TOOL_SET: ToolSet = {
+    ...SEARCH_TOOL_SET,
     [ONLOOK_INSTRUCTIONS_TOOL_NAME]: onlookInstructionsTool,
     [READ_STYLE_GUIDE_TOOL_NAME]: readStyleGuideTool,
-    [LIST_BRANCHES_TOOL_NAME]: listBranchesTool,
     [SCRAPE_URL_TOOL_NAME]: scrapeUrlTool,
     [WEB_SEARCH_TOOL_NAME]: webSearchTool,
-    [GLOB_TOOL_NAME]: globTool,
-    [GREP_TOOL_NAME]: grepTool,
+};
+
+export const ASK_TOOL_SET: ToolSet = {
+    ...READ_ONLY_TOOL_SET,
+    [FIND_SYMBOL_TOOL_NAME]: findSymbolTool,
+    [FIND_REFERENCES_TOOL_NAME]: findReferencesTool,
+    [GET_COMPONENT_PROPS_TOOL_NAME]: getComponentPropsTool,
+    [LIST_IMPORTERS_TOOL_NAME]: listImportersTool,
+    [SCREENSHOT_FRAME_TOOL_NAME]: screenshotFrameTool,
+    [GET_LAYER_TREE_TOOL_NAME]: getLayerTreeTool,
+    [GET_COMPUTED_STYLES_TOOL_NAME]: getComputedStylesTool,
+    [TASK_TOOL_NAME]: taskTool,
+};
+
+// Read-only, plus the todo list and a way to hand the plan to the user for approval
+export const PLAN_TOOL_SET: ToolSet = {
+    ...ASK_TOOL_SET,
+    [TODO_WRITE_TOOL_NAME]: todoWriteTool,
+    [EXIT_PLAN_MODE_TOOL_NAME]: exitPlanModeTool,
 };
 
 export const BUILD_TOOL_SET: ToolSet = {
     ...ASK_TOOL_SET,
+    [TODO_WRITE_TOOL_NAME]: todoWriteTool,
     [SEARCH_REPLACE_EDIT_FILE_TOOL_NAME]: searchReplaceEditFileTool,
     [SEARCH_REPLACE_MULTI_EDIT_FILE_TOOL_NAME]: searchReplaceMultiEditFileTool,
     [FUZZY_EDIT_FILE_TOOL_NAME]: fuzzyEditFileTool,
@@ -66,6 +112,25 @@ export const BUILD_TOOL_SET: ToolSet = {
 
 export type ChatTools = InferUITools<typeof BUILD_TOOL_SET>;
 
-export function getToolSetFromType(chatType: ChatType) {
-    return chatType === ChatType.ASK ? ASK_TOOL_SET : BUILD_TOOL_SET;
+function getBuiltInToolSet(chatType: ChatType): ToolSet {
+    switch (chatType) {
+        case ChatType.ASK:
+            return ASK_TOOL_SET;
+        case ChatType.PLAN:
+            return PLAN_TOOL_SET;
+        default:
+            return BUILD_TOOL_SET;
+    }
+}
+
+/** Built-in tools for the chat type, merged with the tools of the project's MCP servers */
+export function getToolSetFromType(chatType: ChatType, mcpServers: McpServerState[] = []) {
+    const toolSet = getBuiltInToolSet(chatType);
+    // Ask and plan modes must not change anything, so they only get read-only server tools
+    const readOnly = chatType === ChatType.ASK || chatType === ChatType.PLAN;
+    const mcpToolSet = getMcpToolSet(mcpServers, readOnly);
+    if (Object.keys(mcpToolSet).length === 0) {
+        return toolSet;
+    }
+    return { ...toolSet, ...mcpToolSet };
 }
@@ -0,0 +1,67 @@
+import type { ChatMessage } from '@onlook/models';
+import { describe, expect, test } from 'bun:test';
+import {
+    condenseTaskToolOutputs,
+    countSubagentSteps,
+    getSubagent,
+    type TaskToolOutput,
+} from '../../src/agents';
+import { TASK_TOOL_NAME, WEB_SEARCH_TOOL_NAME, WRITE_FILE_TOOL_NAME } from '../../src/tools';
+
+function createMessage(role: 'user' | 'assistant', parts: ChatMessage['parts']): ChatMessage {
+    return { id: crypto.randomUUID(), role, parts } as ChatMessage;
+}
+
+describe('sub-agents', () => {
+    test('should only give sub-agents read-only tools without the task tool', () => {
+        for (const type of ['general-purpose', 'codebase-search']) {
+            const { tools } = getSubagent(type);
+            expect(tools[WRITE_FILE_TOOL_NAME]).toBeUndefined();
+            expect(tools[TASK_TOOL_NAME]).toBeUndefined();
+        }
+        expect(getSubagent('general-purpose').tools[WEB_SEARCH_TOOL_NAME]).toBeDefined();
+        expect(getSubagent('codebase-search').tools[WEB_SEARCH_TOOL_NAME]).toBeUndefined();
+        expect(() => getSubagent('writer')).toThrow('Unknown sub-agent type: writer');
+    });
+
+    test('should count one step per assistant message', () => {
+        const messages = [
+            createMessage('user', [{ type: 'text', text: 'Where is the navbar?' }]),
+            createMessage('assistant', [{ type: 'text', text: 'Searching' }]),
+            createMessage('assistant', [{ type: 'text', text: 'In components/nav.tsx' }]),
+        ];
+        expect(countSubagentSteps(messages)).toBe(2);
+    });
+
+    test('should strip the transcript before the parent sees the result', () => {
+        const output: TaskToolOutput = {
+            result: 'The navbar is in components/nav.tsx',
+            stepsUsed: 2,
+            maxSteps: 8,
+            stoppedEarly: false,
+            transcript: [createMessage('user', [{ type: 'text', text: 'Where is the navbar?' }])],
+        };
+        const message = createMessage('assistant', [
+            { type: 'text', text: 'Let me delegate that' },
+            {
+                type: `tool-${TASK_TOOL_NAME}`,
+                toolCallId: 'call-1',
+                state: 'output-available',
+                input: {},
+                output,
+            } as ChatMessage['parts'][number],
+        ]);
+
+        const condensed = condenseTaskToolOutputs(message);
+        const part = condensed.parts[1] as { output: TaskToolOutput };
+
+        expect(part.output).toEqual({
+            result: 'The navbar is in components/nav.tsx',
+            stepsUsed: 2,
+            maxSteps: 8,
+            stoppedEarly: false,
+        });
+        expect(message.parts[1]).toMatchObject({ output: { transcript: output.transcript } });
+        expect(condenseTaskToolOutputs(condensed)).toBe(condensed);
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'bun:test';
-import { applyCodeChange } from '../src/apply';
+import { applyCodeChange, applyCodeEdit } from '../src/apply';
 
 const hasFastApplyEnv = Boolean(process.env.MORPH_API_KEY) || Boolean(process.env.RELACE_API_KEY);
 
@@ -57,3 +57,32 @@ async function fetchUserData(userId: string): Promise<User> {
         expect(result).toBe(expectedResult);
     });
 });
+
+describe('applyCodeEdit', () => {
+    it('applies confident edits locally', async () => {
+        const result = await applyCodeEdit(
+            'const a = 1;\nconst b = 2;\n',
+            '// ... existing code ...\nconst b = 3;\n',
+            'I will change b to 3',
+        );
+
+        expect(result).toEqual({
+            code: 'const a = 1;\nconst b = 3;\n',
+            provider: 'local',
+            confidence: 1,
+        });
+    });
+
+    (hasFastApplyEnv ? it.skip : it)(
+        'fails without a provider when the edit is uncertain',
+        async () => {
+            await expect(
+                applyCodeEdit(
+                    'const a = 1;\n',
+                    '// ... existing code ...\nfoo();\n// ... existing code ...\n',
+                    'I will call foo',
+                ),
+            ).rejects.toThrow('Could not apply the edit reliably');
+        },
+    );
+});
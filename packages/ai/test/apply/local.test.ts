@@ -0,0 +1,238 @@
+import { describe, expect, test } from 'bun:test';
+import { applyLazyEdit, isExistingCodeMarker } from '../../src/apply/local';
+
+const lines = (...content: string[]) => content.join('\n');
+
+describe('isExistingCodeMarker', () => {
+    test('recognizes common marker comments', () => {
+        expect(isExistingCodeMarker('// ... existing code ...')).toBe(true);
+        expect(isExistingCodeMarker('    // ... existing code')).toBe(true);
+        expect(isExistingCodeMarker('{/* ... existing code ... */}')).toBe(true);
+        expect(isExistingCodeMarker('/* rest of the component */')).toBe(true);
+        expect(isExistingCodeMarker('// ...')).toBe(true);
+    });
+
+    test('ignores code and ordinary comments', () => {
+        expect(isExistingCodeMarker('const rest = [...items];')).toBe(false);
+        expect(isExistingCodeMarker('// Fetch the user first')).toBe(false);
+    });
+});
+
+describe('applyLazyEdit', () => {
+    const original = lines(
+        'interface User {',
+        '    id: string;',
+        '    name: string;',
+        '}',
+        '',
+        'async function fetchUser(userId: string) {',
+        "    const response = await fetch('/api/users/' + userId);",
+        '    return response.json();',
+        '}',
+        '',
+    );
+
+    test('merges edits between markers', () => {
+        const snippet = lines(
+            'interface User {',
+            '    // ... existing code ...',
+            '    email?: string;',
+            '}',
+            '',
+            'async function fetchUser(userId: string): Promise<User> {',
+            "    const response = await fetch('/api/users/' + userId);",
+            '    if (!response.ok) {',
+            "        throw new Error('Failed to fetch user');",
+            '    }',
+            '    // ... existing code ...',
+            '}',
+        );
+
+        const result = applyLazyEdit(original, snippet);
+
+        expect(result.code).toBe(
+            lines(
+                'interface User {',
+                '    id: string;',
+                '    name: string;',
+                '    email?: string;',
+                '}',
+                '',
+                'async function fetchUser(userId: string): Promise<User> {',
+                "    const response = await fetch('/api/users/' + userId);",
+                '    if (!response.ok) {',
+                "        throw new Error('Failed to fetch user');",
+                '    }',
+                '    return response.json();',
+                '}',
+                '',
+            ),
+        );
+        expect(result.confidence).toBeGreaterThan(0.8);
+    });
+
+    test('edits the declaration of the same name when lines repeat', () => {
+        const components = lines(
+            'function First() {',
+            '    return <div>Hello</div>;',
+            '}',
+            '',
+            'function Second() {',
+            '    return <div>Hello</div>;',
+            '}',
+        );
+        const snippet = lines(
+            '// ... existing code ...',
+            'function Second() {',
+            '    return <div>Goodbye</div>;',
+            '}',
+        );
+
+        const result = applyLazyEdit(components, snippet);
+
+        expect(result.code).toBe(
+            lines(
+                'function First() {',
+                '    return <div>Hello</div>;',
+                '}',
+                '',
+                'function Second() {',
+                '    return <div>Goodbye</div>;',
+                '}',
+            ),
+        );
+        expect(result.method).toBe('ast');
+        expect(result.confidence).toBe(1);
+    });
+
+    test('adds new declarations after the one before them in the edit', () => {
+        const snippet = lines(
+            '// ... existing code ...',
+            'interface User {',
+            '    // ... existing code ...',
+            '}',
+            '',
+            'const DEFAULT_USER_ID = "me";',
+            '',
+            '// ... existing code ...',
+        );
+
+        const result = applyLazyEdit(original, snippet);
+
+        expect(result.code).toBe(
+            lines(
+                'interface User {',
+                '    id: string;',
+                '    name: string;',
+                '}',
+                '',
+                'const DEFAULT_USER_ID = "me";',
+                '',
+                'async function fetchUser(userId: string) {',
+                "    const response = await fetch('/api/users/' + userId);",
+                '    return response.json();',
+                '}',
+                '',
+            ),
+        );
+    });
+
+    test('places edits to other files by their lines', () => {
+        const css = lines('.title {', '    color: red;', '    font-size: 12px;', '}');
+        const snippet = lines(
+            '.title {',
+            '    color: blue;',
+            '    font-size: 12px;',
+            '    /* ... existing code ... */',
+        );
+
+        const result = applyLazyEdit(css, snippet);
+
+        expect(result.code).toBe(
+            lines('.title {', '    color: blue;', '    font-size: 12px;', '}'),
+        );
+        expect(result.method).toBe('lines');
+        expect(result.confidence).toBe(1);
+    });
+
+    test('takes a changed line next to the edit for the line of the same shape', () => {
+        const page = lines(
+            'export default function Page() {',
+            '    return (',
+            '        <div>',
+            '            <h1 className="text-2xl">Hello</h1>',
+            '            <p>Some text</p>',
+            '        </div>',
+            '    );',
+            '}',
+        );
+        const snippet = lines(
+            '// ... existing code ...',
+            '            <h1 className="text-4xl font-bold">Hello world</h1>',
+            '            <Card>New card</Card>',
+            '            <p>Some text</p>',
+            '            {/* ... existing code ... */}',
+        );
+
+        const result = applyLazyEdit(page, snippet);
+
+        expect(result.code).toBe(
+            lines(
+                'export default function Page() {',
+                '    return (',
+                '        <div>',
+                '            <h1 className="text-4xl font-bold">Hello world</h1>',
+                '            <Card>New card</Card>',
+                '            <p>Some text</p>',
+                '        </div>',
+                '    );',
+                '}',
+            ),
+        );
+        expect(result.confidence).toBeGreaterThan(0.8);
+        expect(result.confidence).toBeLessThan(1);
+    });
+
+    test('reports fuzzy matches and repeated lines', () => {
+        const css = lines('.a {', '    color: red;', '}', '.b {', '    color: red;', '}');
+
+        const fuzzy = applyLazyEdit(
+            css,
+            lines('/* ... existing code ... */', '.bb {', '    color: blue;', '}'),
+        );
+        const repeated = applyLazyEdit(
+            css,
+            lines('/* ... existing code ... */', '    color: red;', '    margin: 0;'),
+        );
+
+        expect(fuzzy.method).toBe('fuzzy');
+        expect(fuzzy.confidence).toBeLessThan(1);
+        expect(repeated.confidence).toBeLessThan(0.8);
+        expect(repeated.reasons[0]).toContain('appears 2 times');
+    });
+
+    test('appends new code at the end of the file', () => {
+        const result = applyLazyEdit(
+            original,
+            lines('// ... existing code ...', '', 'export const VERSION = 1;'),
+        );
+
+        expect(result.code).toBe(`${original.trimEnd()}\n\nexport const VERSION = 1;\n`);
+        expect(result.confidence).toBeLessThan(1);
+    });
+
+    test('fails when part of the edit cannot be placed', () => {
+        const result = applyLazyEdit(
+            original,
+            lines(
+                '// ... existing code ...',
+                'const unrelated = true;',
+                '// ... existing code ...',
+            ),
+        );
+
+        expect(result.code).toBeNull();
+        expect(result.confidence).toBe(0);
+        expect(result.reasons[0]).toContain('const unrelated = true;');
+    });
+});
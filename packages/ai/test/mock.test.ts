@@ -0,0 +1,190 @@
+import type {
+    LanguageModelV2,
+    LanguageModelV2CallOptions,
+    LanguageModelV2StreamPart,
+} from '@ai-sdk/provider';
+import { describe, expect, test } from 'bun:test';
+import {
+    createMemoryFixtureStore,
+    createRecordingModel,
+    createReplayModel,
+    type LLMFixture,
+} from '../src/chat/mock.ts';
+
+const usage = { inputTokens: 10, outputTokens: 5, totalTokens: 15 };
+
+function textParts(text: string): LanguageModelV2StreamPart[] {
+    return [
+        { type: 'stream-start', warnings: [] },
+        { type: 'text-start', id: '0' },
+        { type: 'text-delta', id: '0', delta: text },
+        { type: 'text-end', id: '0' },
+        { type: 'finish', finishReason: 'stop', usage },
+    ];
+}
+
+function callOptions(assistantMessages: number, tools: string[] = []) {
+    return {
+        prompt: [
+            { role: 'user', content: [{ type: 'text', text: 'Hi' }] },
+            ...Array.from({ length: assistantMessages }, () => ({
+                role: 'assistant',
+                content: [{ type: 'text', text: 'Hello' }],
+            })),
+        ],
+        tools: tools.map((name) => ({ type: 'function', name, inputSchema: {} })),
+    } as unknown as LanguageModelV2CallOptions;
+}
+
+async function readAll(stream: ReadableStream<LanguageModelV2StreamPart>) {
+    const parts: LanguageModelV2StreamPart[] = [];
+    const reader = stream.getReader();
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+            return parts;
+        }
+        parts.push(value);
+    }
+}
+
+const fixture: LLMFixture = {
+    version: 1,
+    calls: [
+        {
+            step: 0,
+            tools: ['read_file'],
+            parts: [
+                { type: 'stream-start', warnings: [] },
+                { type: 'tool-call', toolCallId: 'c1', toolName: 'read_file', input: '{}' },
+                { type: 'finish', finishReason: 'tool-calls', usage },
+            ],
+        },
+        { step: 0, tools: ['list_files'], parts: textParts('From the sub-agent') },
+        { step: 1, tools: ['read_file'], parts: textParts('Done') },
+    ],
+};
+
+describe('createReplayModel', () => {
+    test('streams the recording for the step and tools of the call', async () => {
+        const model = createReplayModel(fixture);
+
+        const first = await readAll((await model.doStream(callOptions(0, ['read_file']))).stream);
+        const sub = await readAll((await model.doStream(callOptions(0, ['list_files']))).stream);
+        const second = await readAll((await model.doStream(callOptions(1, ['read_file']))).stream);
+
+        expect(first.map((part) => part.type)).toEqual(['stream-start', 'tool-call', 'finish']);
+        expect(sub).toEqual(textParts('From the sub-agent'));
+        expect(second).toEqual(textParts('Done'));
+    });
+
+    test('collects the recording into a generate result', async () => {
+        const model = createReplayModel(fixture);
+
+        const result = await model.doGenerate(callOptions(1, ['read_file']));
+
+        expect(result.content).toEqual([{ type: 'text', text: 'Done' }]);
+        expect(result.finishReason).toBe('stop');
+        expect(result.usage).toEqual(usage);
+    });
+
+    test('fails on calls that were not recorded', async () => {
+        const model = createReplayModel(fixture);
+
+        await expect(model.doStream(callOptions(2, ['read_file']))).rejects.toThrow(
+            'No recorded response for step 2 with tools [read_file]',
+        );
+        expect(() => createReplayModel({ ...fixture, version: 0 })).toThrow(
+            'Unsupported LLM fixture version 0',
+        );
+    });
+
+    test('restores response timestamps', async () => {
+        const model = createReplayModel({
+            version: 1,
+            calls: [
+                {
+                    step: 0,
+                    tools: [],
+                    parts: [
+                        {
+                            type: 'response-metadata',
+                            timestamp: '2025-01-01T00:00:00.000Z' as unknown as Date,
+                        },
+                    ],
+                },
+            ],
+        });
+
+        const [part] = await readAll((await model.doStream(callOptions(0))).stream);
+
+        expect(part?.type === 'response-metadata' && part.timestamp).toBeInstanceOf(Date);
+    });
+});
+
+describe('createRecordingModel', () => {
+    function createStreamingModel(texts: string[]) {
+        let call = 0;
+        return {
+            specificationVersion: 'v2',
+            provider: 'test',
+            modelId: 'real',
+            supportedUrls: {},
+            doGenerate: async () => ({
+                content: [{ type: 'text', text: texts[call++] }],
+                finishReason: 'stop',
+                usage,
+                warnings: [],
+            }),
+            doStream: async () => ({
+                stream: new ReadableStream<LanguageModelV2StreamPart>({
+                    start(controller) {
+                        controller.enqueue({ type: 'raw', rawValue: { chunk: 1 } });
+                        for (const part of textParts(texts[call++]!)) {
+                            controller.enqueue(part);
+                        }
+                        controller.close();
+                    },
+                }),
+            }),
+        } as unknown as LanguageModelV2;
+    }
+
+    test('records streamed responses that replay the same way', async () => {
+        const store = createMemoryFixtureStore();
+        const model = createRecordingModel(createStreamingModel(['Hello', 'Bye']), {
+            name: 'chat',
+            store,
+            recordedWith: 'test:real',
+        });
+
+        const streamed = await readAll((await model.doStream(callOptions(0))).stream);
+        await readAll((await model.doStream(callOptions(1))).stream);
+        const recorded = await store.load('chat');
+
+        expect(streamed[0]?.type).toBe('raw');
+        expect(recorded?.recordedWith).toBe('test:real');
+        expect(recorded?.calls.map((call) => call.step)).toEqual([0, 1]);
+        const replay = createReplayModel(recorded!);
+        expect(await readAll((await replay.doStream(callOptions(0))).stream)).toEqual(
+            textParts('Hello'),
+        );
+    });
+
+    test('replaces the recordings of a step and the steps after it', async () => {
+        const store = createMemoryFixtureStore({ chat: fixture });
+        const model = createRecordingModel(createStreamingModel(['Again']), {
+            name: 'chat',
+            store,
+        });
+
+        await model.doGenerate(callOptions(0, ['read_file']));
+        const recorded = await store.load('chat');
+
+        expect(recorded?.calls.map((call) => [call.step, call.tools])).toEqual([
+            [0, ['list_files']],
+            [0, ['read_file']],
+        ]);
+        expect(recorded?.calls[1]?.parts).toEqual(textParts('Again'));
+    });
+});
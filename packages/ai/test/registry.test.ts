@@ -0,0 +1,146 @@
+import type { LanguageModelV2, LanguageModelV2CallOptions } from '@ai-sdk/provider';
+import {
+    ChatType,
+    LLMProvider,
+    OPENROUTER_MODELS,
+    type ChatModelPreferences,
+} from '@onlook/models';
+import { describe, expect, test } from 'bun:test';
+import { createFallbackModel } from '../src/chat/fallback.ts';
+import {
+    DEFAULT_CHAT_MODELS,
+    parseChatModelPreferences,
+    parseModelSelection,
+    ProviderRegistry,
+    resolveChatModels,
+} from '../src/chat/registry.ts';
+
+function createModel(modelId: string, fail = false) {
+    const calls: LanguageModelV2CallOptions[] = [];
+    const model = {
+        specificationVersion: 'v2',
+        provider: 'test',
+        modelId,
+        supportedUrls: {},
+        doGenerate: async (options: LanguageModelV2CallOptions) => {
+            calls.push(options);
+            if (fail) {
+                throw new Error(`${modelId} is down`);
+            }
+            return { text: modelId };
+        },
+        doStream: async () => {
+            throw new Error('not implemented');
+        },
+    } as unknown as LanguageModelV2;
+    return { model, calls };
+}
+
+const callOptions = { prompt: [] } as unknown as LanguageModelV2CallOptions;
+
+describe('ProviderRegistry', () => {
+    test('accepts custom models only from self-hosted providers', () => {
+        const registry = new ProviderRegistry();
+
+        expect(registry.getModelInfo(LLMProvider.OLLAMA, 'mistral-nemo')).toEqual({
+            id: 'mistral-nemo',
+            contextWindow: 32768,
+            maxOutputTokens: 8192,
+            supportsTools: true,
+        });
+        expect(() => registry.getModelInfo(LLMProvider.OPENROUTER, 'made-up/model')).toThrow(
+            'Model made-up/model is not available from OpenRouter',
+        );
+    });
+
+    test('reads base URLs and keys from the environment', () => {
+        const registry = new ProviderRegistry();
+
+        expect(registry.getBaseUrl(LLMProvider.OLLAMA, {})).toBe('http://localhost:11434/v1');
+        expect(
+            registry.getBaseUrl(LLMProvider.OLLAMA, { OLLAMA_BASE_URL: 'http://gpu-box:11434/v1' }),
+        ).toBe('http://gpu-box:11434/v1');
+        expect(registry.getApiKey(LLMProvider.LM_STUDIO, {})).toBeUndefined();
+        expect(registry.getApiKey(LLMProvider.VLLM, {})).toBeUndefined();
+        expect(() => registry.getApiKey(LLMProvider.AZURE, {})).toThrow(
+            'AZURE_API_KEY must be set to use Azure OpenAI',
+        );
+    });
+});
+
+describe('chat model preferences', () => {
+    test('parses provider:model strings where the model contains colons', () => {
+        expect(parseModelSelection('ollama:qwen2.5-coder:32b')).toEqual({
+            provider: LLMProvider.OLLAMA,
+            model: 'qwen2.5-coder:32b',
+        });
+        expect(() => parseModelSelection('qwen2.5-coder')).toThrow('Invalid model selection');
+        expect(() => parseChatModelPreferences('{"chat": []}')).toThrow('Unknown chat type');
+    });
+
+    test('prefers project over user over default models', () => {
+        const user = parseChatModelPreferences('{"edit": "lmstudio:qwen2.5-coder-14b"}');
+        const project: ChatModelPreferences = {
+            [ChatType.EDIT]: [{ provider: LLMProvider.VLLM, model: 'llama' }],
+        };
+
+        expect(resolveChatModels(ChatType.EDIT, { project, user })).toEqual([
+            { provider: LLMProvider.VLLM, model: 'llama' },
+        ]);
+        expect(resolveChatModels(ChatType.EDIT, { user })).toEqual([
+            { provider: LLMProvider.LM_STUDIO, model: 'qwen2.5-coder-14b' },
+        ]);
+        expect(resolveChatModels(ChatType.ASK, { user })).toEqual(DEFAULT_CHAT_MODELS.ask);
+    });
+
+    test('drops models without tool calling from chats that need tools', () => {
+        const user = parseChatModelPreferences(
+            `{"edit": ["ollama:deepseek-r1:14b", "openrouter:${OPENROUTER_MODELS.CLAUDE_4_SONNET}"]}`,
+        );
+
+        expect(resolveChatModels(ChatType.EDIT, { user })).toEqual([
+            { provider: LLMProvider.OPENROUTER, model: OPENROUTER_MODELS.CLAUDE_4_SONNET },
+        ]);
+        expect(resolveChatModels(ChatType.EDIT, { user, requireTools: false })).toHaveLength(2);
+    });
+});
+
+describe('createFallbackModel', () => {
+    test('moves down the chain when a model errors', async () => {
+        const primary = createModel('primary', true);
+        const backup = createModel('backup');
+        const model = createFallbackModel([
+            { model: primary.model },
+            { model: backup.model, headers: { 'X-Title': 'Onlook' } },
+        ]);
+
+        const result = await model.doGenerate(callOptions);
+
+        expect(result).toEqual({ text: 'backup' } as never);
+        expect(model.modelId).toBe('primary');
+        expect(backup.calls[0]?.headers).toEqual({ 'X-Title': 'Onlook' });
+    });
+
+    test('asks each model for no more output than it supports', async () => {
+        const primary = createModel('primary', true);
+        const backup = createModel('backup');
+        const model = createFallbackModel([
+            { model: primary.model, maxOutputTokens: 64000 },
+            { model: backup.model, maxOutputTokens: 8192 },
+        ]);
+
+        await model.doGenerate({ ...callOptions, maxOutputTokens: 64000 });
+
+        expect(primary.calls[0]?.maxOutputTokens).toBe(64000);
+        expect(backup.calls[0]?.maxOutputTokens).toBe(8192);
+    });
+
+    test('throws the last error when every model fails', async () => {
+        const model = createFallbackModel([
+            { model: createModel('a', true).model },
+            { model: createModel('b', true).model },
+        ]);
+
+        await expect(model.doGenerate(callOptions)).rejects.toThrow('b is down');
+    });
+});
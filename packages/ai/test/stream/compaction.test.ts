@@ -0,0 +1,241 @@
+import { MessageContextType, type ChatCompaction, type ChatMessage } from '@onlook/models';
+import { describe, expect, test } from 'bun:test';
+import {
+    applyCompaction,
+    chunkForSummary,
+    getPinnedContext,
+    planCompaction,
+    truncateToolOutputs,
+} from '../../src/stream/compaction';
+
+function createMessage(
+    id: string,
+    role: 'user' | 'assistant',
+    parts: ChatMessage['parts'],
+    context: any[] = [],
+): ChatMessage {
+    return {
+        id,
+        role,
+        parts,
+        metadata: { context, checkpoints: [] },
+    } as unknown as ChatMessage;
+}
+
+const fileContext = (path: string, content: string) => ({
+    type: MessageContextType.FILE,
+    path,
+    content,
+    displayName: path,
+    branchId: 'b1',
+});
+
+const compactionPart = (compaction: ChatCompaction) =>
+    ({ type: 'data-compaction', data: compaction }) as ChatMessage['parts'][number];
+
+function createCompaction(throughMessageId: string, pinnedContext: any[] = []): ChatCompaction {
+    return {
+        summary: 'Files Discussed:\n/src/app/page.tsx',
+        throughMessageId,
+        summarizedMessageCount: 2,
+        pinnedContext,
+        tokensBefore: 1000,
+        tokensAfter: 200,
+        createdAt: new Date(0).toISOString(),
+    };
+}
+
+// Roughly one token per word
+const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ');
+
+describe('applyCompaction', () => {
+    test('leaves messages without a compaction untouched', () => {
+        const messages = [createMessage('u1', 'user', [{ type: 'text', text: 'Hi' }])];
+
+        expect(applyCompaction(messages)).toEqual({ summary: null, messages });
+    });
+
+    test('replaces summarized messages with the summary and keeps pinned files', () => {
+        const compaction = createCompaction('a1', [
+            fileContext('src/a.tsx', 'export const A = 1;'),
+        ]);
+        const messages = [
+            createMessage('u1', 'user', [{ type: 'text', text: 'First' }]),
+            createMessage('a1', 'assistant', [{ type: 'text', text: 'Done' }]),
+            createMessage('u2', 'user', [{ type: 'text', text: 'Second' }]),
+            createMessage('a2', 'assistant', [
+                compactionPart(compaction),
+                { type: 'text', text: 'Done again' },
+            ]),
+        ];
+
+        const { summary, messages: recent } = applyCompaction(messages);
+
+        expect(recent.map((message) => message.id)).toEqual(['u2', 'a2']);
+        const text = summary?.parts[0]?.type === 'text' ? summary.parts[0].text : '';
+        expect(summary?.role).toBe('user');
+        expect(text).toContain('<conversation-summary>');
+        expect(text).toContain('export const A = 1;');
+    });
+
+    test('skips pinned files that recent messages attach again', () => {
+        const compaction = createCompaction('a1', [fileContext('src/a.tsx', 'old content')]);
+        const messages = [
+            createMessage('a1', 'assistant', [{ type: 'text', text: 'Done' }]),
+            createMessage(
+                'u2',
+                'user',
+                [{ type: 'text', text: 'Again' }],
+                [fileContext('src/a.tsx', 'new content')],
+            ),
+        ];
+
+        const { summary } = applyCompaction(messages, compaction);
+        const text = summary?.parts[0]?.type === 'text' ? summary.parts[0].text : '';
+
+        expect(text).not.toContain('old content');
+    });
+
+    test('truncates tool outputs of earlier turns only', () => {
+        const output = 'x'.repeat(5000);
+        const toolPart = {
+            type: 'tool-read_file',
+            toolCallId: 't1',
+            state: 'output-available',
+            input: {},
+            output,
+        } as unknown as ChatMessage['parts'][number];
+        const messages = [
+            createMessage('a0', 'assistant', [{ type: 'text', text: 'Old' }]),
+            createMessage('a1', 'assistant', [toolPart]),
+            createMessage('u2', 'user', [{ type: 'text', text: 'Next' }]),
+            createMessage('a2', 'assistant', [{ ...toolPart, toolCallId: 't2' } as any]),
+        ];
+
+        const { messages: recent } = applyCompaction(messages, createCompaction('a0'));
+
+        expect((recent[0]!.parts[0] as any).output.length).toBeLessThan(output.length);
+        expect((recent[2]!.parts[0] as any).output).toBe(output);
+    });
+});
+
+describe('truncateToolOutputs', () => {
+    test('returns the same message when nothing is truncated', () => {
+        const message = createMessage('a1', 'assistant', [{ type: 'text', text: 'Hello' }]);
+
+        expect(truncateToolOutputs(message, 10)).toBe(message);
+    });
+});
+
+describe('getPinnedContext', () => {
+    test('keeps the latest file and highlight context', () => {
+        const highlight = {
+            type: MessageContextType.HIGHLIGHT,
+            path: 'src/a.tsx',
+            start: 1,
+            end: 2,
+            content: '<div />',
+            displayName: 'div',
+            branchId: 'b1',
+        };
+        const messages = [
+            createMessage('u1', 'user', [], [fileContext('src/a.tsx', 'v1'), highlight]),
+            createMessage(
+                'u2',
+                'user',
+                [],
+                [
+                    fileContext('src/a.tsx', 'v2'),
+                    { type: MessageContextType.ERROR, content: 'boom', displayName: 'Error' },
+                ],
+            ),
+        ];
+
+        const pinned = getPinnedContext(messages);
+
+        expect(pinned).toHaveLength(2);
+        expect(pinned.find((context) => context.type === MessageContextType.FILE)?.content).toBe(
+            'v2',
+        );
+    });
+});
+
+describe('planCompaction', () => {
+    const conversation = [
+        createMessage('u1', 'user', [{ type: 'text', text: words(400) }]),
+        createMessage('a1', 'assistant', [{ type: 'text', text: words(400) }]),
+        createMessage('u2', 'user', [{ type: 'text', text: words(50) }]),
+        createMessage('a2', 'assistant', [{ type: 'text', text: words(50) }]),
+        createMessage('u3', 'user', [{ type: 'text', text: words(50) }]),
+    ];
+
+    test('does nothing below the threshold', async () => {
+        expect(await planCompaction(conversation, 100_000)).toBeNull();
+    });
+
+    test('summarizes the oldest turns and keeps recent ones', async () => {
+        const plan = await planCompaction(conversation, 1000);
+
+        expect(plan?.throughMessageId).toBe('a1');
+        expect(plan?.messages.map((message) => message.id)).toEqual(['u1', 'a1']);
+    });
+
+    test('always keeps the latest user message', async () => {
+        const plan = await planCompaction(conversation, 200);
+
+        expect(plan?.throughMessageId).toBe('a2');
+    });
+
+    test('builds on the previous compaction', async () => {
+        const messages = [
+            ...conversation.slice(0, 3),
+            createMessage('a2', 'assistant', [
+                compactionPart(createCompaction('a1')),
+                { type: 'text', text: words(50) },
+            ]),
+            conversation[4]!,
+        ];
+
+        expect(await planCompaction(messages, 100_000)).toBeNull();
+        const plan = await planCompaction(messages, 100);
+        expect(plan?.messages.map((message) => message.id)).toEqual(['u2', 'a2']);
+        expect(plan?.previous?.throughMessageId).toBe('a1');
+    });
+});
+
+describe('chunkForSummary', () => {
+    test('splits the messages into chunks that fit the budget', async () => {
+        const messages = [
+            createMessage('u1', 'user', [{ type: 'text', text: words(400) }]),
+            createMessage('a1', 'assistant', [{ type: 'text', text: words(400) }]),
+            createMessage('u2', 'user', [{ type: 'text', text: words(50) }]),
+            createMessage('a2', 'assistant', [{ type: 'text', text: words(50) }]),
+        ];
+
+        const chunks = await chunkForSummary(messages, 600);
+
+        expect(chunks.map((chunk) => chunk.map((message) => message.id))).toEqual([
+            ['u1'],
+            ['a1', 'u2', 'a2'],
+        ]);
+    });
+
+    test('truncates tool outputs before counting them', async () => {
+        const toolPart = {
+            type: 'tool-read_file',
+            toolCallId: 't1',
+            state: 'output-available',
+            input: {},
+            output: words(5000),
+        } as unknown as ChatMessage['parts'][number];
+        const messages = [
+            createMessage('a1', 'assistant', [toolPart]),
+            createMessage('u2', 'user', [{ type: 'text', text: 'Next' }]),
+        ];
+
+        const chunks = await chunkForSummary(messages, 1000);
+
+        expect(chunks).toHaveLength(1);
+        expect((chunks[0]![0]!.parts[0] as any).output.length).toBeLessThan(3000);
+    });
+});
@@ -115,6 +115,46 @@ describe('convertToStreamMessages', () => {
         expect(result.length).toBe(1);
         expect(result[0]?.role).toBe('user');
     });
+
+    test('only sends screenshot data from the last assistant message', () => {
+        const screenshotPart = (toolCallId: string) =>
+            ({
+                type: 'tool-screenshot_frame',
+                toolCallId,
+                state: 'output-available',
+                input: { branchId: 'b1' },
+                output: {
+                    frameId: 'f1',
+                    url: 'http://localhost:3000/',
+                    mimeType: 'image/jpeg',
+                    data: 'aGVsbG8=',
+                },
+            }) as unknown as ChatMessage['parts'][number];
+        const messages = [
+            createMessage('u1', 'user', [{ type: 'text', text: 'Check the page' }]),
+            createMessage('a1', 'assistant', [screenshotPart('call-1')]),
+            createMessage('u2', 'user', [{ type: 'text', text: 'Check it again' }]),
+            createMessage('a2', 'assistant', [screenshotPart('call-2')]),
+        ];
+
+        const outputs = convertToStreamMessages(messages).flatMap((message) =>
+            message.role === 'tool' ? message.content.map((part) => part.output) : [],
+        );
+
+        expect(outputs).toEqual([
+            {
+                type: 'text',
+                value: 'Screenshot of http://localhost:3000/ (frame f1), no longer available',
+            },
+            {
+                type: 'content',
+                value: [
+                    { type: 'text', text: 'Screenshot of http://localhost:3000/ (frame f1)' },
+                    { type: 'media', data: 'aGVsbG8=', mediaType: 'image/jpeg' },
+                ],
+            },
+        ]);
+    });
 });
 
 describe('extractTextFromParts', () => {
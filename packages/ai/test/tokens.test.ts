@@ -61,6 +61,23 @@ describe('countTokensWithRoles', () => {
         expect(result).toBe(expected);
     });
 
+    test('counts tool outputs once available', async () => {
+        const input = { file_path: 'src/app/page.tsx' };
+        const output = 'export default function Page() {}';
+        const messages = [
+            createMessage(
+                [{ type: 'tool-read_file', state: 'output-available', input, output }],
+                'assistant',
+            ),
+        ];
+
+        const result = await countTokensWithRoles(messages);
+
+        const joined = JSON.stringify(input) + JSON.stringify(output);
+        const expected = encode(joined).length + 4 + 2;
+        expect(result).toBe(expected);
+    });
+
     test('ignores unknown part types', async () => {
         const text = 'visible text';
         const unknownPart: Part = { type: 'image', url: 'http://example.com/image.png' };
@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'bun:test';
+import type { Tool } from 'ai';
+import {
+    ASK_TOOL_SET,
+    BUILD_TOOL_SET,
+    GET_COMPUTED_STYLES_TOOL_NAME,
+    GET_LAYER_TREE_TOOL_NAME,
+    GET_LAYER_TREE_TOOL_PARAMETERS,
+    getComputedStylesTool,
+    getLayerTreeTool,
+    SCREENSHOT_FRAME_TOOL_NAME,
+    screenshotFrameTool,
+    SEARCH_TOOL_SET,
+} from '../../src/tools';
+
+const FRAME_TOOLS: Record<string, Tool> = {
+    [SCREENSHOT_FRAME_TOOL_NAME]: screenshotFrameTool,
+    [GET_LAYER_TREE_TOOL_NAME]: getLayerTreeTool,
+    [GET_COMPUTED_STYLES_TOOL_NAME]: getComputedStylesTool,
+};
+
+describe('Frame Tools', () => {
+    test('should be available from ask mode up but not to sub-agents', () => {
+        for (const [toolName, tool] of Object.entries(FRAME_TOOLS)) {
+            expect(ASK_TOOL_SET[toolName]).toBe(tool);
+            expect(BUILD_TOOL_SET[toolName]).toBe(tool);
+            expect(SEARCH_TOOL_SET[toolName]).toBeUndefined();
+        }
+    });
+
+    test('should only accept a positive max depth', () => {
+        const base = { branchId: 'branch-1' };
+
+        expect(GET_LAYER_TREE_TOOL_PARAMETERS.safeParse({ ...base, max_depth: 2 }).success).toBe(
+            true,
+        );
+        expect(GET_LAYER_TREE_TOOL_PARAMETERS.safeParse({ ...base, max_depth: 0 }).success).toBe(
+            false,
+        );
+    });
+});
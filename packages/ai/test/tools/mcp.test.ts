@@ -0,0 +1,102 @@
+import { ChatType, type McpServerState } from '@onlook/models';
+import { describe, expect, test } from 'bun:test';
+import {
+    ASK_TOOL_SET,
+    BUILD_TOOL_SET,
+    evaluateToolPermission,
+    GET_MCP_PROMPT_TOOL_NAME,
+    getMcpToolName,
+    getToolSetFromType,
+    READ_MCP_RESOURCE_TOOL_NAME,
+} from '../../src/tools';
+
+const createServer = (overrides: Partial<McpServerState> = {}): McpServerState => ({
+    id: 'server-1',
+    name: 'design',
+    status: 'connected',
+    tools: [
+        {
+            name: 'mcp__design__get_tokens',
+            server: 'design',
+            serverToolName: 'get_tokens',
+            description: 'Lists the design tokens',
+            inputSchema: { type: 'object', properties: {} },
+            readOnly: true,
+        },
+        {
+            name: 'mcp__design__publish',
+            server: 'design',
+            serverToolName: 'publish',
+            description: 'Publishes the design system',
+            inputSchema: { type: 'object', properties: {} },
+            readOnly: false,
+        },
+    ],
+    resources: [],
+    prompts: [],
+    ...overrides,
+});
+
+describe('MCP Tools', () => {
+    test('should namespace tool names with the server name', () => {
+        expect(getMcpToolName('design', 'get_tokens')).toBe('mcp__design__get_tokens');
+        expect(getMcpToolName('api-schema', 'schema.get')).toBe('mcp__api_schema__schema_get');
+        expect(getMcpToolName('design', 'x'.repeat(100))).toHaveLength(64);
+    });
+
+    test('should keep the built-in toolset without servers', () => {
+        expect(getToolSetFromType(ChatType.EDIT, [])).toBe(BUILD_TOOL_SET);
+        expect(
+            getToolSetFromType(ChatType.ASK, [createServer({ status: 'error', error: 'Failed' })]),
+        ).toBe(ASK_TOOL_SET);
+    });
+
+    test('should only add read-only server tools outside build mode', () => {
+        const servers = [createServer()];
+
+        const build = getToolSetFromType(ChatType.EDIT, servers);
+        expect(build['mcp__design__get_tokens']).toBeDefined();
+        expect(build['mcp__design__publish']).toBeDefined();
+
+        const ask = getToolSetFromType(ChatType.ASK, servers);
+        expect(ask['mcp__design__get_tokens']).toBeDefined();
+        expect(ask['mcp__design__publish']).toBeUndefined();
+    });
+
+    test('should add resource and prompt tools when servers offer them', () => {
+        const servers = [
+            createServer({
+                tools: [],
+                resources: [{ uri: 'design://tokens', name: 'Tokens' }],
+                prompts: [{ name: 'review', arguments: [{ name: 'component', required: true }] }],
+            }),
+        ];
+        const toolSet = getToolSetFromType(ChatType.ASK, servers);
+
+        expect(toolSet[READ_MCP_RESOURCE_TOOL_NAME]?.description).toContain(
+            'design: design://tokens (Tokens)',
+        );
+        expect(toolSet[GET_MCP_PROMPT_TOOL_NAME]?.description).toContain(
+            'design: review(component)',
+        );
+    });
+
+    test('should ask before running server tools and offer to always allow the tool', () => {
+        const result = evaluateToolPermission({
+            toolName: 'mcp__design__publish',
+            input: { version: '2.0.0' },
+        });
+
+        expect(result.action).toBe('ask');
+        expect(result.ruleId).toBe('default-mcp');
+        expect(result.alwaysAllowRules).toEqual([
+            { action: 'allow', tool: 'mcp__design__publish' },
+        ]);
+        expect(
+            evaluateToolPermission(
+                { toolName: 'mcp__design__publish', input: {} },
+                { rules: [{ id: 'r1', action: 'allow', tool: 'mcp__design__*' }] },
+            ).action,
+        ).toBe('allow');
+    });
+});
@@ -0,0 +1,49 @@
+import { ChatType } from '@onlook/models';
+import { describe, expect, test } from 'bun:test';
+import {
+    ASK_TOOL_SET,
+    BUILD_TOOL_SET,
+    EXIT_PLAN_MODE_TOOL_NAME,
+    exitPlanModeTool,
+    getToolSetFromType,
+    PLAN_TOOL_SET,
+    TODO_WRITE_TOOL_NAME,
+    TODO_WRITE_TOOL_PARAMETERS,
+    todoWriteTool,
+    WRITE_FILE_TOOL_NAME,
+} from '../../src/tools';
+
+describe('Plan Mode Tools', () => {
+    test('should use the plan toolset for plan chats', () => {
+        expect(getToolSetFromType(ChatType.PLAN)).toBe(PLAN_TOOL_SET);
+        expect(getToolSetFromType(ChatType.ASK)).toBe(ASK_TOOL_SET);
+        expect(getToolSetFromType(ChatType.EDIT)).toBe(BUILD_TOOL_SET);
+    });
+
+    test('should only read, plus manage todos and exit plan mode', () => {
+        expect(PLAN_TOOL_SET[TODO_WRITE_TOOL_NAME]).toBe(todoWriteTool);
+        expect(PLAN_TOOL_SET[EXIT_PLAN_MODE_TOOL_NAME]).toBe(exitPlanModeTool);
+        expect(PLAN_TOOL_SET[WRITE_FILE_TOOL_NAME]).toBeUndefined();
+        for (const [toolName, tool] of Object.entries(ASK_TOOL_SET)) {
+            expect(PLAN_TOOL_SET[toolName]).toBe(tool);
+        }
+    });
+
+    test('should keep the todo list but not exit plan mode in build mode', () => {
+        expect(BUILD_TOOL_SET[TODO_WRITE_TOOL_NAME]).toBe(todoWriteTool);
+        expect(BUILD_TOOL_SET[EXIT_PLAN_MODE_TOOL_NAME]).toBeUndefined();
+        expect(ASK_TOOL_SET[TODO_WRITE_TOOL_NAME]).toBeUndefined();
+    });
+
+    test('should validate todo statuses', () => {
+        const todo = { id: '1', content: 'Split the navbar', priority: 'high' };
+        expect(
+            TODO_WRITE_TOOL_PARAMETERS.safeParse({ todos: [{ ...todo, status: 'in_progress' }] })
+                .success,
+        ).toBe(true);
+        expect(
+            TODO_WRITE_TOOL_PARAMETERS.safeParse({ todos: [{ ...todo, status: 'blocked' }] })
+                .success,
+        ).toBe(false);
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, test } from 'bun:test';
+import type { Tool } from 'ai';
+import {
+    ASK_TOOL_SET,
+    BUILD_TOOL_SET,
+    FIND_REFERENCES_TOOL_NAME,
+    FIND_SYMBOL_TOOL_NAME,
+    FIND_SYMBOL_TOOL_PARAMETERS,
+    findReferencesTool,
+    findSymbolTool,
+    GET_COMPONENT_PROPS_TOOL_NAME,
+    getComponentPropsTool,
+    LIST_IMPORTERS_TOOL_NAME,
+    listImportersTool,
+    SEARCH_TOOL_SET,
+} from '../../src/tools';
+
+const SYMBOL_TOOLS: Record<string, Tool> = {
+    [FIND_SYMBOL_TOOL_NAME]: findSymbolTool,
+    [FIND_REFERENCES_TOOL_NAME]: findReferencesTool,
+    [GET_COMPONENT_PROPS_TOOL_NAME]: getComponentPropsTool,
+    [LIST_IMPORTERS_TOOL_NAME]: listImportersTool,
+};
+
+describe('Symbol Tools', () => {
+    test('should be available from ask mode up but not to sub-agents', () => {
+        for (const [toolName, tool] of Object.entries(SYMBOL_TOOLS)) {
+            expect(ASK_TOOL_SET[toolName]).toBe(tool);
+            expect(BUILD_TOOL_SET[toolName]).toBe(tool);
+            expect(SEARCH_TOOL_SET[toolName]).toBeUndefined();
+        }
+    });
+
+    test('should only accept known symbol kinds', () => {
+        const base = { name: 'Button', branchId: 'branch-1' };
+
+        expect(FIND_SYMBOL_TOOL_PARAMETERS.safeParse({ ...base, kind: 'component' }).success).toBe(
+            true,
+        );
+        expect(FIND_SYMBOL_TOOL_PARAMETERS.safeParse({ ...base, kind: 'module' }).success).toBe(
+            false,
+        );
+    });
+});
@@ -15,11 +15,22 @@ export type {
     LocalProviderOptions,
     LocalProviderGetSession,
     LocalCreateSessionOutput,
+    LocalCreateProjectFromGitInput,
+    LocalCreateProjectFromGitOutput,
+    LocalGitImportProgress,
+    LocalGitImportStage,
+    LocalPackageManager,
+    LocalProcessCrash,
+    LocalProcessInfo,
+    LocalProcessStatus,
     LocalSandboxLogEntry,
     LocalSandboxLogLevel,
+    LocalRestartBackoff,
 } from './providers/local';
+export type { LocalCrashClassification, LocalCrashKind } from './providers/local/crash';
 export { CodesandboxProvider } from './providers/codesandbox';
 export { NodeFsProvider } from './providers/nodefs';
+export type { NodeFsProviderOptions, NodeFsCreateSessionOutput } from './providers/nodefs';
 export * from './types';
 
 export interface CreateClientOptions {
@@ -39,6 +39,7 @@ import {
     type ListProjectsOutput,
     type PauseProjectInput,
     type PauseProjectOutput,
+    type ProviderCapabilities,
     type ProviderTerminalShellSize,
     type ReadFileInput,
     type ReadFileOutput,
@@ -90,6 +91,19 @@ export class CodesandboxProvider extends Provider {
         this.options = options;
     }
 
+    get capabilities(): ProviderCapabilities {
+        return {
+            createProjectFromGit: true,
+            listProjects: true,
+            watchFiles: true,
+            terminal: true,
+            backgroundCommands: true,
+            tasks: ['dev'],
+            gitStatus: true,
+            downloadFiles: true,
+        };
+    }
+
     // may be removed in the future once the code completely interfaces through the provider
     get client() {
         return this._client;
@@ -0,0 +1,90 @@
+export type LocalCrashKind =
+    'port-in-use' | 'missing-dependencies' | 'syntax-error' | 'out-of-memory' | 'unknown';
+
+export interface LocalCrashClassification {
+    kind: LocalCrashKind;
+    /** Summary suitable for showing to the user */
+    message: string;
+    /** Log line the classification is based on */
+    evidence?: string;
+    /** Whether restarting without any other change can fix the crash */
+    recoverable: boolean;
+}
+
+interface CrashPattern {
+    kind: Exclude<LocalCrashKind, 'unknown'>;
+    patterns: RegExp[];
+    message: string;
+    recoverable: boolean;
+}
+
+// Ordered by precedence: an OOM often surfaces module errors on the way down, not the other way
+const CRASH_PATTERNS: CrashPattern[] = [
+    {
+        kind: 'out-of-memory',
+        patterns: [/heap out of memory/i, /allocation failed/i, /\bENOMEM\b/, /out of memory/i],
+        message: 'The process ran out of memory',
+        recoverable: true,
+    },
+    {
+        kind: 'port-in-use',
+        patterns: [/\bEADDRINUSE\b/, /address already in use/i, /port \d+ is (already )?in use/i],
+        message: 'The port is already in use by another process',
+        recoverable: true,
+    },
+    {
+        kind: 'missing-dependencies',
+        patterns: [
+            /cannot find (module|package)/i,
+            /\bERR_MODULE_NOT_FOUND\b/,
+            /module not found/i,
+            /command not found/i,
+            /:\s*not found$/i,
+        ],
+        message: 'Dependencies are missing, install them and restart',
+        recoverable: false,
+    },
+    {
+        kind: 'syntax-error',
+        patterns: [/\bSyntaxError\b/, /syntax error/i, /unexpected token/i],
+        message: 'A syntax error prevents the project from starting',
+        recoverable: false,
+    },
+];
+
+/** Exit code shells report for processes killed with SIGKILL, which is what the OOM killer sends */
+const SIGKILL_EXIT_CODE = 137;
+
+/**
+ * Works out why a process exited from the tail of its output and its exit status.
+ * `dependenciesInstalled` is false when the project has a package.json but no node_modules.
+ */
+export function classifyCrash(
+    lines: string[],
+    exit: { code: number | null; signal: NodeJS.Signals | null },
+    dependenciesInstalled = true,
+): LocalCrashClassification {
+    for (const { kind, patterns, message, recoverable } of CRASH_PATTERNS) {
+        // Most recent output is the most likely to describe the crash
+        for (let i = lines.length - 1; i >= 0; i--) {
+            const line = lines[i]!;
+            if (patterns.some((pattern) => pattern.test(line))) {
+                return { kind, message, evidence: line.trim(), recoverable };
+            }
+        }
+    }
+    if (!dependenciesInstalled) {
+        const pattern = CRASH_PATTERNS.find(({ kind }) => kind === 'missing-dependencies')!;
+        return { kind: pattern.kind, message: pattern.message, recoverable: pattern.recoverable };
+    }
+    if (exit.signal === 'SIGKILL' || exit.code === SIGKILL_EXIT_CODE) {
+        const pattern = CRASH_PATTERNS.find(({ kind }) => kind === 'out-of-memory')!;
+        return {
+            kind: pattern.kind,
+            message: `${pattern.message} and was killed`,
+            recoverable: pattern.recoverable,
+        };
+    }
+    const reason = exit.code !== null ? `code ${exit.code}` : `signal ${exit.signal}`;
+    return { kind: 'unknown', message: `The process exited with ${reason}`, recoverable: true };
+}
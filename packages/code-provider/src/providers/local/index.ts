@@ -1,7 +1,9 @@
+import { SUPPORTED_LOCK_FILES } from '@onlook/constants';
+import type { ProcessCommand, ProcessHealthCheck, ProcessRestartPolicy } from '@onlook/models';
 import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
 import chokidar, { type FSWatcher } from 'chokidar';
 import { existsSync } from 'fs';
-import { promises as fs } from 'fs/promises';
+import { promises as fs } from 'fs';
 import net from 'net';
 import path from 'path';
 import { randomUUID } from 'crypto';
@@ -38,6 +40,7 @@ import {
     type ListProjectsOutput,
     type PauseProjectInput,
     type PauseProjectOutput,
+    type ProviderCapabilities,
     type ReadFileInput,
     type ReadFileOutput,
     type RenameFileInput,
@@ -58,6 +61,8 @@ import {
     type WriteFileInput,
     type WriteFileOutput,
 } from '../../types';
+import { parseGitStatus } from '../../utils';
+import { classifyCrash, type LocalCrashClassification } from './crash';
 
 const DEFAULT_MAX_LOG_LINES = 200;
 const LOG_TIMESTAMP_FORMATTER = new Intl.DateTimeFormat('en-US', {
@@ -73,6 +78,8 @@ export interface LocalSandboxLogEntry {
     level: LogLevel;
     message: string;
     timestamp: Date;
+    /** Name of the process that produced the entry, `dev` for the dev server */
+    process: string;
 }
 
 export interface LocalProviderGetSession {
@@ -93,9 +100,32 @@ export interface LocalProviderOptions {
     projectsRoot?: string;
     env?: Record<string, string>;
     maxLogLines?: number;
+    /** Companion processes supervised next to the dev server, see `ProjectSettings.commands` */
+    processes?: ProcessCommand[];
+    /** Restart policy of the dev server, defaults to restarting when it crashes */
+    restart?: ProcessRestartPolicy;
+    restartBackoff?: Partial<LocalRestartBackoff>;
     getSession?: (sandboxId: string) => Promise<LocalProviderGetSession>;
 }
 
+/** Restart delays double from `initialDelayMs` up to `maxDelayMs` */
+export interface LocalRestartBackoff {
+    initialDelayMs: number;
+    maxDelayMs: number;
+    /** Consecutive restarts before giving up */
+    maxAttempts: number;
+}
+
+export interface LocalProcessCrash extends LocalCrashClassification {
+    process: string;
+    exitCode: number | null;
+    signal: NodeJS.Signals | null;
+    /** Delay before the automatic restart, null when the process stays down */
+    restartInMs: number | null;
+    /** Consecutive restart attempt the crash led to, 0 when none was scheduled */
+    attempt: number;
+}
+
 export interface LocalCreateSessionOutput extends CreateSessionOutput {
     sandboxId: string;
     port: number;
@@ -103,12 +133,58 @@ export interface LocalCreateSessionOutput extends CreateSessionOutput {
     projectPath: string;
 }
 
+export type LocalPackageManager = 'bun' | 'npm' | 'yarn' | 'pnpm';
+
+export type LocalGitImportStage = 'clone' | 'checkout' | 'install' | 'complete';
+
+export interface LocalGitImportProgress {
+    stage: LocalGitImportStage;
+    message: string;
+}
+
+export interface LocalCreateProjectFromGitInput {
+    /** Any URL git can clone, including `file://` URLs and paths to bare repositories */
+    repoUrl: string;
+    branch: string;
+    id?: string;
+    projectsRoot?: string;
+    installDependencies?: boolean;
+    onProgress?: (progress: LocalGitImportProgress) => void;
+}
+
+export interface LocalCreateProjectFromGitOutput extends CreateProjectOutput {
+    projectPath: string;
+    packageManager: LocalPackageManager | null;
+}
+
 const DEFAULT_COMMAND = {
     bin: 'bun',
     args: ['run', 'dev'],
 };
 
+const DEFAULT_PROJECTS_ROOT = './onlook-projects';
+
+const LOCK_FILE_PACKAGE_MANAGERS: Record<string, LocalPackageManager> = {
+    'bun.lock': 'bun',
+    'package-lock.json': 'npm',
+    'yarn.lock': 'yarn',
+    'pnpm-lock.yaml': 'pnpm',
+};
+
 const DEFAULT_PREFERRED_PORT = 3000;
+const DEV_PROCESS_NAME = 'dev';
+const PORT_ALLOCATION_ATTEMPTS = 10;
+const DEFAULT_HEALTH_CHECK_TIMEOUT_MS = 60_000;
+const HEALTH_CHECK_INTERVAL_MS = 1000;
+const DEFAULT_RESTART_BACKOFF: LocalRestartBackoff = {
+    initialDelayMs: 1000,
+    maxDelayMs: 30_000,
+    maxAttempts: 5,
+};
+/** Output lines inspected when classifying a crash */
+const CRASH_LOG_TAIL = 50;
+/** A process that stayed up this long is considered recovered and its restart count resets */
+const RESTART_RESET_MS = 30_000;
 
 function normalizeProjectPath(projectPath: string) {
     return path.resolve(projectPath);
@@ -139,6 +215,68 @@ async function findAvailablePort(startPort: number, attempts = 20): Promise<numb
     return port;
 }
 
+async function detectPackageManager(projectPath: string): Promise<LocalPackageManager | null> {
+    for (const lockFile of SUPPORTED_LOCK_FILES) {
+        const packageManager = LOCK_FILE_PACKAGE_MANAGERS[lockFile];
+        if (packageManager && existsSync(path.join(projectPath, lockFile))) {
+            return packageManager;
+        }
+    }
+    return null;
+}
+
+/**
+ * Rejects values git would parse as an option or that cannot be a URL or ref name.
+ */
+function assertGitArgument(label: string, value: string) {
+    if (!value || value.startsWith('-') || /[\s\x00-\x1f\x7f]/.test(value)) {
+        throw new Error(`Invalid git ${label}: ${JSON.stringify(value)}`);
+    }
+}
+
+/**
+ * Runs a process to completion, forwarding each output line. Rejects with the tail of the
+ * output when the process exits with a non-zero code.
+ */
+async function runProcess(
+    bin: string,
+    args: string[],
+    options: { cwd: string; onLine?: (line: string) => void },
+): Promise<void> {
+    const child = spawn(bin, args, {
+        cwd: options.cwd,
+        env: {
+            ...process.env,
+            GIT_TERMINAL_PROMPT: '0',
+        },
+    });
+    const lines: string[] = [];
+    const handleData = (data: Buffer) => {
+        // git reports progress with carriage returns, treat them as line breaks
+        data.toString()
+            .split(/\r\n|\r|\n/)
+            .map((line) => line.trim())
+            .filter(Boolean)
+            .forEach((line) => {
+                lines.push(line);
+                if (lines.length > DEFAULT_MAX_LOG_LINES) {
+                    lines.shift();
+                }
+                options.onLine?.(line);
+            });
+    };
+    child.stdout?.on('data', handleData);
+    child.stderr?.on('data', handleData);
+    const exitCode: number = await new Promise((resolve, reject) => {
+        child.once('error', reject);
+        child.once('close', (code) => resolve(code ?? 0));
+    });
+    if (exitCode !== 0) {
+        const tail = lines.slice(-5).join('\n');
+        throw new Error(`${bin} ${args[0]} failed with exit code ${exitCode}: ${tail}`);
+    }
+}
+
 function detectLogLevel(message: string, source: 'stdout' | 'stderr'): LogLevel {
     if (source === 'stderr') {
         return 'error';
@@ -174,51 +312,154 @@ function ensureCommand(options: LocalProviderOptions): { bin: string; args: stri
     return DEFAULT_COMMAND;
 }
 
-class LocalSandboxRuntime extends EventEmitter {
-    readonly sandboxId: string;
-    readonly projectPath: string;
-    readonly maxLogLines: number;
-    private preferredPort: number;
+function killProcessGroup(child: ChildProcessWithoutNullStreams, signal: NodeJS.Signals) {
+    // Processes are spawned in their own group so shell wrappers take their children down too
+    if (child.pid && process.platform !== 'win32') {
+        try {
+            process.kill(-child.pid, signal);
+            return;
+        } catch {
+            // group already gone, fall back to the direct child
+        }
+    }
+    child.kill(signal);
+}
+
+export type LocalProcessStatus =
+    'stopped' | 'starting' | 'running' | 'healthy' | 'unhealthy' | 'exited';
+
+export interface LocalProcessInfo {
+    name: string;
+    command: string;
+    port: number | null;
+    status: LocalProcessStatus;
+    restarts: number;
+}
+
+interface LocalProcessDefinition {
+    name: string;
+    /** Executed directly when `args` is set, otherwise run through the shell */
+    command: string;
+    args?: string[];
+    preferredPort?: number;
+    restart: ProcessRestartPolicy;
+    healthCheck?: ProcessHealthCheck;
+}
+
+function toCompanionDefinition(processCommand: ProcessCommand): LocalProcessDefinition {
+    return { ...processCommand, restart: processCommand.restart ?? 'never' };
+}
+
+interface LocalManagedProcessOptions {
+    projectPath: string;
+    env: Record<string, string>;
+    maxLogLines: number;
+    restartBackoff: LocalRestartBackoff;
+    allocatePort: (name: string, preferredPort: number) => Promise<number>;
+}
+
+/**
+ * A single supervised process of a sandbox with its own port, log stream, health check and
+ * restart policy.
+ */
+class LocalManagedProcess extends EventEmitter {
     private process: ChildProcessWithoutNullStreams | null = null;
     private startPromise: Promise<void> | null = null;
     private stopPromise: Promise<void> | null = null;
     private resolvedPort: number | null = null;
-    private readonly command: { bin: string; args: string[] };
-    private readonly env: Record<string, string>;
     private readonly logBuffer: LocalSandboxLogEntry[] = [];
-
-    constructor(options: LocalProviderOptions) {
+    /** Output of the current run only, so crashes are not classified by older runs' logs */
+    private runOutput: string[] = [];
+    private currentStatus: LocalProcessStatus = 'stopped';
+    private stopRequested = false;
+    private startedAt = 0;
+    private restartCount = 0;
+    private restartTimer: ReturnType<typeof setTimeout> | null = null;
+    private healthTimer: ReturnType<typeof setTimeout> | null = null;
+    private readonly healthPattern: RegExp | null;
+
+    constructor(
+        readonly definition: LocalProcessDefinition,
+        private readonly options: LocalManagedProcessOptions,
+    ) {
         super();
-        this.sandboxId = options.sandboxId;
-        this.projectPath = normalizeProjectPath(options.projectPath);
-        this.preferredPort = options.preferredPort ?? DEFAULT_PREFERRED_PORT;
-        this.command = ensureCommand(options);
-        this.env = options.env ?? {};
-        this.maxLogLines = options.maxLogLines ?? DEFAULT_MAX_LOG_LINES;
+        this.healthPattern =
+            definition.healthCheck?.type === 'log'
+                ? new RegExp(definition.healthCheck.pattern, 'i')
+                : null;
     }
 
-    get port(): number {
-        return this.resolvedPort ?? this.preferredPort;
+    get name(): string {
+        return this.definition.name;
+    }
+
+    get command(): string {
+        const { command, args } = this.definition;
+        return args ? [command, ...args].join(' ') : command;
+    }
+
+    get port(): number | null {
+        return this.resolvedPort ?? this.definition.preferredPort ?? null;
+    }
+
+    get status(): LocalProcessStatus {
+        return this.currentStatus;
     }
 
     get isRunning(): boolean {
         return Boolean(this.process);
     }
 
+    get info(): LocalProcessInfo {
+        return {
+            name: this.name,
+            command: this.command,
+            port: this.port,
+            status: this.currentStatus,
+            restarts: this.restartCount,
+        };
+    }
+
+    private setStatus(status: LocalProcessStatus) {
+        if (this.currentStatus === status) {
+            return;
+        }
+        this.currentStatus = status;
+        this.emit('status', status);
+    }
+
     private appendLog(level: LogLevel, message: string) {
         const logEntry: LocalSandboxLogEntry = {
             level,
             message,
             timestamp: new Date(),
+            process: this.name,
         };
         this.logBuffer.push(logEntry);
-        if (this.logBuffer.length > this.maxLogLines) {
-            this.logBuffer.splice(0, this.logBuffer.length - this.maxLogLines);
+        if (this.logBuffer.length > this.options.maxLogLines) {
+            this.logBuffer.splice(0, this.logBuffer.length - this.options.maxLogLines);
         }
         this.emit('log', logEntry);
     }
 
+    private handleOutput(data: Buffer, source: 'stdout' | 'stderr') {
+        data.toString()
+            .split(/\r?\n/)
+            .filter(Boolean)
+            .forEach((line) => {
+                this.appendLog(detectLogLevel(line, source), line);
+                this.runOutput.push(line);
+                if (this.runOutput.length > CRASH_LOG_TAIL) {
+                    this.runOutput.shift();
+                }
+                if (this.healthPattern?.test(line) && this.currentStatus !== 'healthy') {
+                    this.markHealthy();
+                }
+            });
+    }
+
     async ensureStarted(): Promise<void> {
+        this.stopRequested = false;
         if (this.process) {
             return;
         }
@@ -235,46 +476,185 @@ class LocalSandboxRuntime extends EventEmitter {
     }
 
     private async spawnProcess(): Promise<void> {
-        await ensureDirectoryExists(this.projectPath);
-        this.resolvedPort = await findAvailablePort(this.preferredPort);
+        const { projectPath, env: extraEnv, allocatePort } = this.options;
+        const { command, args, preferredPort } = this.definition;
+        await ensureDirectoryExists(projectPath);
+        const previousPort = this.resolvedPort;
+        this.resolvedPort =
+            preferredPort !== undefined ? await allocatePort(this.name, preferredPort) : null;
+        if (previousPort !== null && this.resolvedPort !== null && previousPort !== this.resolvedPort) {
+            this.emit('port', this.resolvedPort);
+        }
         const env = {
             ...process.env,
-            ...this.env,
-            PORT: String(this.resolvedPort),
+            ...extraEnv,
+            ...(this.resolvedPort !== null ? { PORT: String(this.resolvedPort) } : {}),
             FORCE_COLOR: '1',
         } as NodeJS.ProcessEnv;
-        this.appendLog('info', `Starting sandbox on port ${this.resolvedPort}`);
-        const child = spawn(this.command.bin, this.command.args, {
-            cwd: this.projectPath,
-            env,
-        });
+        this.appendLog(
+            'info',
+            this.resolvedPort !== null
+                ? `Starting ${this.name} on port ${this.resolvedPort}`
+                : `Starting ${this.name}`,
+        );
+        const spawnOptions = { cwd: projectPath, env, detached: process.platform !== 'win32' };
+        const child = args
+            ? spawn(command, args, spawnOptions)
+            : spawn(command, { ...spawnOptions, shell: true });
         this.process = child;
+        this.runOutput = [];
+        this.startedAt = Date.now();
+        this.setStatus(this.definition.healthCheck ? 'starting' : 'running');
 
-        child.stdout?.on('data', (data: Buffer) => {
-            const content = data.toString();
-            content.split(/\r?\n/).filter(Boolean).forEach((line) => {
-                const level = detectLogLevel(line, 'stdout');
-                this.appendLog(level, line);
-            });
-        });
+        child.stdout?.on('data', (data: Buffer) => this.handleOutput(data, 'stdout'));
+        child.stderr?.on('data', (data: Buffer) => this.handleOutput(data, 'stderr'));
 
-        child.stderr?.on('data', (data: Buffer) => {
-            const content = data.toString();
-            content.split(/\r?\n/).filter(Boolean).forEach((line) => {
-                const level = detectLogLevel(line, 'stderr');
-                this.appendLog(level, line);
-            });
+        child.on('error', (error) => {
+            this.appendLog('error', `Failed to start ${this.name}: ${error.message}`);
         });
 
         child.on('exit', (code, signal) => {
             const reason = code !== null ? `code ${code}` : `signal ${signal}`;
-            this.appendLog('warn', `Sandbox exited with ${reason}`);
+            this.appendLog('warn', `${this.name} exited with ${reason}`);
             this.process = null;
+            this.clearHealthTimer();
+            if (this.stopRequested) {
+                this.setStatus('stopped');
+                return;
+            }
+            this.setStatus('exited');
+            this.emit('exit', { code, signal });
+            if (code === 0) {
+                this.scheduleRestart(code);
+                return;
+            }
+            const classification = classifyCrash(
+                this.runOutput,
+                { code, signal },
+                this.dependenciesInstalled(),
+            );
+            this.appendLog('error', `${this.name} crashed: ${classification.message}`);
+            const restartInMs = classification.recoverable ? this.scheduleRestart(code) : null;
+            if (!classification.recoverable) {
+                this.appendLog('warn', `Not restarting ${this.name} until the problem is fixed`);
+            }
+            const crash: LocalProcessCrash = {
+                ...classification,
+                process: this.name,
+                exitCode: code,
+                signal,
+                restartInMs,
+                attempt: restartInMs !== null ? this.restartCount : 0,
+            };
+            this.emit('crash', crash);
         });
+
+        this.startHealthCheck(child);
+    }
+
+    private startHealthCheck(child: ChildProcessWithoutNullStreams) {
+        const healthCheck = this.definition.healthCheck;
+        if (!healthCheck) {
+            return;
+        }
+        const timeoutMs = healthCheck.timeoutMs ?? DEFAULT_HEALTH_CHECK_TIMEOUT_MS;
+        this.healthTimer = setTimeout(() => {
+            this.healthTimer = null;
+            if (this.process === child && this.currentStatus === 'starting') {
+                this.appendLog('warn', `${this.name} did not become healthy within ${timeoutMs}ms`);
+                this.setStatus('unhealthy');
+            }
+        }, timeoutMs);
+        if (healthCheck.type === 'http') {
+            void this.pollHttpHealth(child, healthCheck.path ?? '/');
+        }
+    }
+
+    private async pollHttpHealth(child: ChildProcessWithoutNullStreams, pathname: string) {
+        // Keeps polling after the timeout so a slow process can still recover to healthy
+        while (this.process === child && this.currentStatus !== 'healthy') {
+            const port = this.resolvedPort;
+            if (port === null) {
+                return;
+            }
+            try {
+                const response = await fetch(`http://127.0.0.1:${port}${pathname}`, {
+                    signal: AbortSignal.timeout(HEALTH_CHECK_INTERVAL_MS),
+                });
+                if (response.status < 500 && this.process === child) {
+                    this.markHealthy();
+                    return;
+                }
+            } catch {
+                // not accepting connections yet
+            }
+            await new Promise((resolve) => setTimeout(resolve, HEALTH_CHECK_INTERVAL_MS));
+        }
+    }
+
+    private markHealthy() {
+        this.clearHealthTimer();
+        this.restartCount = 0;
+        this.appendLog('info', `${this.name} is healthy`);
+        this.setStatus('healthy');
+    }
+
+    private clearHealthTimer() {
+        if (this.healthTimer) {
+            clearTimeout(this.healthTimer);
+            this.healthTimer = null;
+        }
+    }
+
+    private dependenciesInstalled(): boolean {
+        const { projectPath } = this.options;
+        return (
+            !existsSync(path.join(projectPath, 'package.json')) ||
+            existsSync(path.join(projectPath, 'node_modules'))
+        );
+    }
+
+    /** Schedules a restart when the policy allows one and returns its delay. */
+    private scheduleRestart(code: number | null): number | null {
+        const policy = this.definition.restart;
+        if (policy === 'never' || (policy === 'on-failure' && code === 0)) {
+            return null;
+        }
+        const { initialDelayMs, maxDelayMs, maxAttempts } = this.options.restartBackoff;
+        if (Date.now() - this.startedAt > RESTART_RESET_MS) {
+            this.restartCount = 0;
+        }
+        if (this.restartCount >= maxAttempts) {
+            this.appendLog(
+                'error',
+                `${this.name} exited ${maxAttempts} times in a row, not restarting`,
+            );
+            return null;
+        }
+        this.restartCount += 1;
+        const delay = Math.min(initialDelayMs * 2 ** (this.restartCount - 1), maxDelayMs);
+        this.appendLog(
+            'info',
+            `Restarting ${this.name} in ${delay}ms (attempt ${this.restartCount} of ${maxAttempts})`,
+        );
+        this.restartTimer = setTimeout(() => {
+            this.restartTimer = null;
+            this.ensureStarted().catch((error: unknown) => {
+                const message = error instanceof Error ? error.message : String(error);
+                this.appendLog('error', `Failed to restart ${this.name}: ${message}`);
+            });
+        }, delay);
+        return delay;
     }
 
     async stop(): Promise<void> {
+        this.stopRequested = true;
+        if (this.restartTimer) {
+            clearTimeout(this.restartTimer);
+            this.restartTimer = null;
+        }
         if (!this.process) {
+            this.setStatus('stopped');
             return;
         }
         if (this.stopPromise) {
@@ -287,19 +667,18 @@ class LocalSandboxRuntime extends EventEmitter {
                 resolve();
                 return;
             }
-            const onExit = () => {
-                child.removeListener('exit', onExit);
-                this.process = null;
-                resolve();
-            };
-            child.once('exit', onExit);
-            child.kill('SIGTERM');
-            setTimeout(() => {
-                if (this.process) {
-                    this.appendLog('warn', 'Force killing sandbox process after timeout');
-                    child.kill('SIGKILL');
+            const timeout = setTimeout(() => {
+                if (this.process === child) {
+                    this.appendLog('warn', `Force killing ${this.name} after timeout`);
+                    killProcessGroup(child, 'SIGKILL');
                 }
             }, 5000);
+            child.once('exit', () => {
+                clearTimeout(timeout);
+                this.process = null;
+                resolve();
+            });
+            killProcessGroup(child, 'SIGTERM');
         });
         try {
             await this.stopPromise;
@@ -311,7 +690,7 @@ class LocalSandboxRuntime extends EventEmitter {
     async restart(): Promise<void> {
         await this.stop();
         await this.ensureStarted();
-        this.appendLog('info', 'Sandbox restarted');
+        this.appendLog('info', `${this.name} restarted`);
     }
 
     getLogs(level: LogLevel | 'all' = 'all'): LocalSandboxLogEntry[] {
@@ -321,7 +700,10 @@ class LocalSandboxRuntime extends EventEmitter {
         return this.logBuffer.filter((entry) => entry.level === level);
     }
 
-    onLog(listener: (entry: LocalSandboxLogEntry) => void, level: LogLevel | 'all' = 'all'): () => void {
+    onLog(
+        listener: (entry: LocalSandboxLogEntry) => void,
+        level: LogLevel | 'all' = 'all',
+    ): () => void {
         const wrapped = (entry: LocalSandboxLogEntry) => {
             if (level === 'all' || entry.level === level) {
                 listener(entry);
@@ -334,12 +716,227 @@ class LocalSandboxRuntime extends EventEmitter {
     }
 }
 
+/**
+ * Supervises every process of a sandbox: the dev server, companion processes declared in the
+ * project settings and commands started through `runBackgroundCommand`.
+ */
+class LocalSandboxRuntime {
+    readonly sandboxId: string;
+    readonly projectPath: string;
+    readonly maxLogLines: number;
+    private readonly env: Record<string, string>;
+    private readonly restartBackoff: LocalRestartBackoff;
+    private readonly processes = new Map<string, LocalManagedProcess>();
+    private readonly crashListeners = new Set<(crash: LocalProcessCrash) => void>();
+    /** Names of processes that start with the sandbox and are exposed as tasks */
+    private readonly declared: string[] = [];
+    private readonly reservedPorts = new Map<string, number>();
+    private portAllocation: Promise<unknown> = Promise.resolve();
+    /** The companion processes the runtime was last configured with */
+    private processesKey: string;
+    /** Stops of companions removed by `updateProcesses`, awaited before starting again */
+    private pendingStops: Promise<unknown> = Promise.resolve();
+
+    constructor(options: LocalProviderOptions) {
+        this.sandboxId = options.sandboxId;
+        this.projectPath = normalizeProjectPath(options.projectPath);
+        this.env = options.env ?? {};
+        this.maxLogLines = options.maxLogLines ?? DEFAULT_MAX_LOG_LINES;
+        this.restartBackoff = { ...DEFAULT_RESTART_BACKOFF, ...options.restartBackoff };
+
+        const command = ensureCommand(options);
+        this.declare({
+            name: DEV_PROCESS_NAME,
+            command: command.bin,
+            args: command.args,
+            preferredPort: options.preferredPort ?? DEFAULT_PREFERRED_PORT,
+            restart: options.restart ?? 'on-failure',
+        });
+        for (const processCommand of options.processes ?? []) {
+            this.declareCompanion(processCommand);
+        }
+        this.processesKey = JSON.stringify(options.processes ?? []);
+    }
+
+    private get devProcess(): LocalManagedProcess {
+        return this.processes.get(DEV_PROCESS_NAME)!;
+    }
+
+    get port(): number {
+        return this.devProcess.port ?? DEFAULT_PREFERRED_PORT;
+    }
+
+    get isRunning(): boolean {
+        return this.devProcess.isRunning;
+    }
+
+    get taskNames(): string[] {
+        return [...this.declared];
+    }
+
+    private declare(definition: LocalProcessDefinition) {
+        this.addProcess(definition);
+        this.declared.push(definition.name);
+    }
+
+    private declareCompanion(processCommand: ProcessCommand) {
+        if (this.processes.has(processCommand.name)) {
+            throw new Error(`Duplicate process name: ${processCommand.name}`);
+        }
+        this.declare(toCompanionDefinition(processCommand));
+    }
+
+    /**
+     * Applies a changed companion process list. Removed and changed companions are stopped and
+     * the new ones start with the next `ensureStarted`, the dev server keeps running.
+     */
+    updateProcesses(processes: ProcessCommand[]): void {
+        const key = JSON.stringify(processes);
+        if (key === this.processesKey) {
+            return;
+        }
+        const names = processes.map((processCommand) => processCommand.name);
+        if (new Set(names).size !== names.length || names.includes(DEV_PROCESS_NAME)) {
+            throw new Error(`Duplicate process name in: ${names.join(', ')}`);
+        }
+
+        const definitions = new Map(
+            processes.map((processCommand) => [processCommand.name, toCompanionDefinition(processCommand)]),
+        );
+        const stops: Promise<void>[] = [];
+        for (const name of this.declared.filter((declared) => declared !== DEV_PROCESS_NAME)) {
+            const managed = this.processes.get(name)!;
+            const definition = definitions.get(name);
+            if (definition && JSON.stringify(definition) === JSON.stringify(managed.definition)) {
+                definitions.delete(name);
+                continue;
+            }
+            stops.push(managed.stop());
+            this.processes.delete(name);
+            this.reservedPorts.delete(name);
+            this.declared.splice(this.declared.indexOf(name), 1);
+        }
+        this.pendingStops = Promise.all([this.pendingStops, ...stops]);
+        definitions.forEach((definition) => this.declare(definition));
+        this.processesKey = key;
+    }
+
+    private addProcess(definition: LocalProcessDefinition): LocalManagedProcess {
+        const managed = new LocalManagedProcess(definition, {
+            projectPath: this.projectPath,
+            env: this.env,
+            maxLogLines: this.maxLogLines,
+            restartBackoff: this.restartBackoff,
+            allocatePort: (name, preferredPort) => this.allocatePort(name, preferredPort),
+        });
+        managed.on('crash', (crash: LocalProcessCrash) => {
+            this.crashListeners.forEach((listener) => listener(crash));
+        });
+        this.processes.set(definition.name, managed);
+        return managed;
+    }
+
+    /**
+     * Finds a free port for `name`, skipping ports handed to the other processes since those may
+     * not be listening yet. Allocations run one at a time for the same reason.
+     */
+    private allocatePort(name: string, preferredPort: number): Promise<number> {
+        const allocation = this.portAllocation.then(async () => {
+            const reserved = new Set(
+                [...this.reservedPorts].filter(([owner]) => owner !== name).map(([, port]) => port),
+            );
+            let candidate = preferredPort;
+            for (let i = 0; i < PORT_ALLOCATION_ATTEMPTS; i++) {
+                const port = await findAvailablePort(candidate);
+                if (!reserved.has(port)) {
+                    this.reservedPorts.set(name, port);
+                    return port;
+                }
+                candidate = port + 1;
+            }
+            throw new Error(`No available port for ${name} starting at ${preferredPort}`);
+        });
+        this.portAllocation = allocation.catch(() => undefined);
+        return allocation;
+    }
+
+    getProcess(name: string): LocalManagedProcess | undefined {
+        return this.processes.get(name);
+    }
+
+    getTaskProcess(name: string): LocalManagedProcess | undefined {
+        return this.declared.includes(name) ? this.processes.get(name) : undefined;
+    }
+
+    /** Returns the process running `command`, creating one for commands not seen before. */
+    getOrCreateCommandProcess(command: string): LocalManagedProcess {
+        for (const managed of this.processes.values()) {
+            if (managed.command === command) {
+                return managed;
+            }
+        }
+        return this.addProcess({ name: command, command, restart: 'never' });
+    }
+
+    listProcesses(): LocalProcessInfo[] {
+        return [...this.processes.values()].map((managed) => managed.info);
+    }
+
+    onCrash(listener: (crash: LocalProcessCrash) => void): () => void {
+        this.crashListeners.add(listener);
+        return () => {
+            this.crashListeners.delete(listener);
+        };
+    }
+
+    /** Notifies when a restart moves the dev server to another port. */
+    onDevPortChange(listener: (port: number) => void): () => void {
+        this.devProcess.on('port', listener);
+        return () => {
+            this.devProcess.off('port', listener);
+        };
+    }
+
+    async ensureStarted(): Promise<void> {
+        await this.pendingStops;
+        await Promise.all(this.declared.map((name) => this.processes.get(name)!.ensureStarted()));
+    }
+
+    async stop(): Promise<void> {
+        await Promise.all([...this.processes.values()].map((managed) => managed.stop()));
+    }
+
+    async restart(): Promise<void> {
+        await this.devProcess.restart();
+    }
+
+    getLogs(level: LogLevel | 'all' = 'all', name = DEV_PROCESS_NAME): LocalSandboxLogEntry[] {
+        return this.processes.get(name)?.getLogs(level) ?? [];
+    }
+
+    onLog(
+        listener: (entry: LocalSandboxLogEntry) => void,
+        level: LogLevel | 'all' = 'all',
+        name = DEV_PROCESS_NAME,
+    ): () => void {
+        const managed = this.processes.get(name);
+        if (!managed) {
+            throw new Error(`Unknown process: ${name}`);
+        }
+        return managed.onLog(listener, level);
+    }
+}
+
 class LocalRuntimeRegistry {
     private static runtimes = new Map<string, LocalSandboxRuntime>();
 
     static getOrCreate(options: LocalProviderOptions): LocalSandboxRuntime {
         const existing = this.runtimes.get(options.sandboxId);
         if (existing) {
+            // Providers created without a process list share the runtime as configured
+            if (options.processes) {
+                existing.updateProcesses(options.processes);
+            }
             return existing;
         }
         const runtime = new LocalSandboxRuntime(options);
@@ -467,9 +1064,16 @@ class LocalTerminal extends ProviderTerminal {
         if (!proc) {
             return;
         }
-        proc.kill('SIGTERM');
-        await once(proc, 'exit');
-        this.process = null;
+        const exited = once(proc, 'exit');
+        // Interactive shells ignore SIGTERM, hang up like a closed terminal would instead
+        proc.kill('SIGHUP');
+        const timeout = setTimeout(() => proc.kill('SIGKILL'), 5000);
+        try {
+            await exited;
+        } finally {
+            clearTimeout(timeout);
+            this.process = null;
+        }
     }
 
     onOutput(callback: (data: string) => void): () => void {
@@ -480,74 +1084,74 @@ class LocalTerminal extends ProviderTerminal {
     }
 }
 
-class LocalDevTask extends ProviderTask {
-    constructor(private readonly runtime: LocalSandboxRuntime) {
+class LocalProcessTask extends ProviderTask {
+    constructor(private readonly process: LocalManagedProcess) {
         super();
     }
 
     get id(): string {
-        return 'dev';
+        return this.process.name;
     }
 
     get name(): string {
-        return 'Dev Server';
+        return this.process.name === DEV_PROCESS_NAME ? 'Dev Server' : this.process.name;
     }
 
     get command(): string {
-        return 'bun run dev';
+        return this.process.command;
     }
 
     async open(): Promise<string> {
-        const logs = this.runtime.getLogs('all');
+        const logs = this.process.getLogs('all');
         return logs.map(formatLogEntry).join('\n');
     }
 
     async run(): Promise<void> {
-        await this.runtime.ensureStarted();
+        await this.process.ensureStarted();
     }
 
     async restart(): Promise<void> {
-        await this.runtime.restart();
+        await this.process.restart();
     }
 
     async stop(): Promise<void> {
-        await this.runtime.stop();
+        await this.process.stop();
     }
 
     onOutput(callback: (data: string) => void): () => void {
-        return this.runtime.onLog((entry) => {
+        return this.process.onLog((entry) => {
             callback(formatLogEntry(entry));
         });
     }
 }
 
 class LocalBackgroundCommand extends ProviderBackgroundCommand {
-    constructor(private readonly runtime: LocalSandboxRuntime) {
+    constructor(private readonly process: LocalManagedProcess) {
         super();
     }
 
     get name(): string | undefined {
-        return 'local-dev-server';
+        return this.process.name;
     }
 
     get command(): string {
-        return 'bun run dev';
+        return this.process.command;
     }
 
     async open(): Promise<string> {
-        return this.runtime.getLogs('all').map(formatLogEntry).join('\n');
+        return this.process.getLogs('all').map(formatLogEntry).join('\n');
     }
 
     async restart(): Promise<void> {
-        await this.runtime.restart();
+        await this.process.restart();
     }
 
     async kill(): Promise<void> {
-        await this.runtime.stop();
+        await this.process.stop();
     }
 
     onOutput(callback: (data: string) => void): () => void {
-        return this.runtime.onLog((entry) => callback(formatLogEntry(entry)));
+        return this.process.onLog((entry) => callback(formatLogEntry(entry)));
     }
 }
 
@@ -599,6 +1203,19 @@ export class LocalProvider extends Provider {
         return this.options.projectPath;
     }
 
+    get capabilities(): ProviderCapabilities {
+        return {
+            createProjectFromGit: true,
+            listProjects: true,
+            watchFiles: true,
+            terminal: true,
+            backgroundCommands: true,
+            tasks: this.runtime.taskNames,
+            gitStatus: true,
+            downloadFiles: false,
+        };
+    }
+
     async initialize(input: InitializeInput): Promise<InitializeOutput> {
         await ensureDirectoryExists(this.projectPath);
         if (this.options.getSession) {
@@ -692,11 +1309,12 @@ export class LocalProvider extends Provider {
     }
 
     async getTask(input: GetTaskInput): Promise<GetTaskOutput> {
-        if (input.args.id !== 'dev') {
+        const managed = this.runtime.getTaskProcess(input.args.id);
+        if (!managed) {
             throw new Error(`Unsupported task id: ${input.args.id}`);
         }
-        await this.runtime.ensureStarted();
-        return { task: new LocalDevTask(this.runtime) };
+        await managed.ensureStarted();
+        return { task: new LocalProcessTask(managed) };
     }
 
     async runCommand(input: TerminalCommandInput): Promise<TerminalCommandOutput> {
@@ -717,7 +1335,9 @@ export class LocalProvider extends Provider {
             child.on('close', (code) => resolve(code ?? 0));
         });
         if (exitCode !== 0) {
-            return { output, error };
+            throw new Error(
+                `Command "${command}" failed with exit code ${exitCode}: ${error || output}`,
+            );
         }
         return { output };
     }
@@ -725,7 +1345,9 @@ export class LocalProvider extends Provider {
     async runBackgroundCommand(
         input: TerminalBackgroundCommandInput,
     ): Promise<TerminalBackgroundCommandOutput> {
-        return { command: new LocalBackgroundCommand(this.runtime) };
+        const managed = this.runtime.getOrCreateCommandProcess(input.args.command);
+        await managed.ensureStarted();
+        return { command: new LocalBackgroundCommand(managed) };
     }
 
     async gitStatus(input: GitStatusInput): Promise<GitStatusOutput> {
@@ -737,12 +1359,7 @@ export class LocalProvider extends Provider {
             chunks.push(data.toString());
         });
         await once(child, 'close');
-        const output = chunks.join('');
-        const changedFiles = output
-            .split(/\r?\n/)
-            .map((line) => line.trim())
-            .filter(Boolean);
-        return { changedFiles };
+        return { changedFiles: parseGitStatus(chunks.join('')) };
     }
 
     async setup(input: SetupInput): Promise<SetupOutput> {
@@ -773,13 +1390,70 @@ export class LocalProvider extends Provider {
     }
 
     static async createProject(input: CreateProjectInput): Promise<CreateProjectOutput> {
-        const projectPath = path.resolve('./onlook-projects', input.id);
+        const projectPath = path.resolve(DEFAULT_PROJECTS_ROOT, input.id);
         await ensureDirectoryExists(projectPath);
         return { id: input.id };
     }
 
-    static async createProjectFromGit(input: { repoUrl: string; branch: string; }): Promise<CreateProjectOutput> {
-        throw new Error('createProjectFromGit is not implemented for LocalProvider');
+    /**
+     * Clones `repoUrl` into the projects root, checks out `branch` and installs dependencies
+     * with the package manager matching the repository's lock file.
+     */
+    static async createProjectFromGit(
+        input: LocalCreateProjectFromGitInput,
+    ): Promise<LocalCreateProjectFromGitOutput> {
+        const id = input.id ?? randomUUID();
+        const projectsRoot = path.resolve(input.projectsRoot ?? DEFAULT_PROJECTS_ROOT);
+        const projectPath = path.join(projectsRoot, id);
+        const report = (stage: LocalGitImportStage, message: string) =>
+            input.onProgress?.({ stage, message });
+
+        assertGitArgument('repository URL', input.repoUrl);
+        if (input.branch) {
+            assertGitArgument('branch', input.branch);
+        }
+        if (existsSync(projectPath)) {
+            throw new Error(`Project directory already exists: ${projectPath}`);
+        }
+        await ensureDirectoryExists(projectsRoot);
+
+        try {
+            report('clone', `Cloning ${input.repoUrl}`);
+            await runProcess('git', ['clone', '--progress', '--', input.repoUrl, projectPath], {
+                cwd: projectsRoot,
+                onLine: (line) => report('clone', line),
+            });
+
+            if (input.branch) {
+                report('checkout', `Checking out ${input.branch}`);
+                // The trailing `--` makes git read the branch as a revision, never as a path
+                await runProcess('git', ['checkout', input.branch, '--'], {
+                    cwd: projectPath,
+                    onLine: (line) => report('checkout', line),
+                });
+            }
+
+            let packageManager = await detectPackageManager(projectPath);
+            const hasPackageJson = existsSync(path.join(projectPath, 'package.json'));
+            if (!packageManager && hasPackageJson) {
+                // No lock file to go by, use bun since it also runs the default dev command
+                packageManager = 'bun';
+            }
+
+            if (packageManager && hasPackageJson && input.installDependencies !== false) {
+                report('install', `Installing dependencies with ${packageManager}`);
+                await runProcess(packageManager, ['install'], {
+                    cwd: projectPath,
+                    onLine: (line) => report('install', line),
+                });
+            }
+
+            report('complete', 'Project ready');
+            return { id, projectPath, packageManager };
+        } catch (error) {
+            await fs.rm(projectPath, { recursive: true, force: true });
+            throw error;
+        }
     }
 
     async pauseProject(input: PauseProjectInput): Promise<PauseProjectOutput> {
@@ -796,7 +1470,7 @@ export class LocalProvider extends Provider {
     async listProjects(input: ListProjectsInput): Promise<ListProjectsOutput> {
         const projectsRoot = this.options.projectsRoot ?? path.resolve(this.projectPath, '..');
         if (!existsSync(projectsRoot)) {
-            return {} as ListProjectsOutput;
+            return { projects: [] };
         }
         const entries = await fs.readdir(projectsRoot, { withFileTypes: true });
         const projects = entries
@@ -805,7 +1479,7 @@ export class LocalProvider extends Provider {
                 id: entry.name,
                 path: path.join(projectsRoot, entry.name),
             }));
-        return { projects } as unknown as ListProjectsOutput;
+        return { projects };
     }
 
     async destroy(): Promise<void> {
@@ -822,6 +1496,35 @@ export class LocalProvider extends Provider {
     ): () => void {
         return this.runtime.onLog(callback, level);
     }
+
+    listProcesses(): LocalProcessInfo[] {
+        return this.runtime.listProcesses();
+    }
+
+    /** Notifies about processes exiting unexpectedly, including why and whether they restart. */
+    onProcessCrash(callback: (crash: LocalProcessCrash) => void): () => void {
+        return this.runtime.onCrash(callback);
+    }
+
+    /**
+     * Notifies when the dev server restarts on another port, for example because its port was
+     * taken while it was down, so previews can follow it.
+     */
+    onDevServerPortChange(callback: (port: number) => void): () => void {
+        return this.runtime.onDevPortChange(callback);
+    }
+
+    getProcessLogs(name: string, level: LogLevel | 'all' = 'all'): LocalSandboxLogEntry[] {
+        return this.runtime.getLogs(level, name);
+    }
+
+    subscribeToProcessLogs(
+        name: string,
+        callback: (entry: LocalSandboxLogEntry) => void,
+        level: LogLevel | 'all' = 'all',
+    ): () => void {
+        return this.runtime.onLog(callback, level, name);
+    }
 }
 
 export type { LogLevel as LocalSandboxLogLevel };
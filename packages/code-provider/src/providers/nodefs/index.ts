@@ -1,3 +1,8 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { randomUUID } from 'crypto';
+import { once } from 'events';
+import { existsSync, promises as fs, watch, type FSWatcher } from 'fs';
+import path from 'path';
 import {
     Provider,
     ProviderBackgroundCommand,
@@ -24,12 +29,15 @@ import {
     type InitializeOutput,
     type ListFilesInput,
     type ListFilesOutput,
+    type ListFilesOutputFile,
     type ListProjectsInput,
     type ListProjectsOutput,
     type PauseProjectInput,
     type PauseProjectOutput,
+    type ProviderCapabilities,
     type ReadFileInput,
     type ReadFileOutput,
+    type ReadFileOutputFile,
     type RenameFileInput,
     type RenameFileOutput,
     type SetupInput,
@@ -48,105 +56,434 @@ import {
     type WriteFileInput,
     type WriteFileOutput,
 } from '../../types';
+import { parseGitStatus } from '../../utils';
+
+const DEFAULT_MAX_OUTPUT_LENGTH = 100_000;
+const KILL_TIMEOUT_MS = 5000;
+
+export interface NodeFsProviderOptions {
+    /**
+     * Directory that acts as the sandbox root. Every path passed to the provider is resolved
+     * relative to it and may not escape it.
+     */
+    rootPath: string;
+    env?: Record<string, string>;
+    shell?: string;
+    /**
+     * Named commands exposed through `getTask`, e.g. `{ dev: 'bun run dev' }`.
+     * No task is started until `run()` is called on it.
+     */
+    tasks?: Record<string, string>;
+    maxOutputLength?: number;
+}
+
+export interface NodeFsCreateSessionOutput extends CreateSessionOutput {
+    rootPath: string;
+}
+
+function resolveShell(options: NodeFsProviderOptions): string {
+    if (options.shell) {
+        return options.shell;
+    }
+    return process.platform === 'win32' ? 'powershell.exe' : '/bin/sh';
+}
+
+function toSandboxRelativePath(root: string, targetPath: string) {
+    const relative = path.relative(root, targetPath);
+    return relative === '' ? '.' : relative.replace(/\\/g, '/');
+}
+
+function detectSandboxFileType(buffer: Buffer): 'binary' | 'text' {
+    const sample = buffer.subarray(0, Math.min(buffer.length, 512));
+    for (const byte of sample) {
+        if (byte === 0) {
+            return 'binary';
+        }
+    }
+    return 'text';
+}
 
-export interface NodeFsProviderOptions {}
+function isExcluded(relativePath: string, excludes: string[]): boolean {
+    const segments = relativePath.split('/');
+    return excludes.some((exclude) => {
+        const normalized = exclude.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '');
+        return (
+            segments.includes(normalized) ||
+            relativePath === normalized ||
+            relativePath.startsWith(`${normalized}/`)
+        );
+    });
+}
+
+/**
+ * Thin wrapper around a shell child process that buffers its output so late subscribers can
+ * still read what was printed before they attached.
+ */
+class NodeFsProcess {
+    private child: ChildProcessWithoutNullStreams | null = null;
+    private output = '';
+    private readonly listeners = new Set<(data: string) => void>();
+    private readonly exitListeners = new Set<(code: number | null) => void>();
+
+    constructor(
+        readonly command: string | null,
+        private readonly cwd: string,
+        private readonly options: NodeFsProviderOptions,
+    ) {}
+
+    get isRunning(): boolean {
+        return Boolean(this.child);
+    }
+
+    get bufferedOutput(): string {
+        return this.output;
+    }
+
+    start(): ChildProcessWithoutNullStreams {
+        if (this.child) {
+            return this.child;
+        }
+        const shell = resolveShell(this.options);
+        const args = this.command ? ['-c', this.command] : [];
+        const child = spawn(shell, args, {
+            cwd: this.cwd,
+            env: {
+                ...process.env,
+                ...this.options.env,
+            },
+            detached: process.platform !== 'win32',
+        });
+        this.child = child;
+        child.stdout.on('data', (data: Buffer) => this.emitOutput(data.toString()));
+        child.stderr.on('data', (data: Buffer) => this.emitOutput(data.toString()));
+        child.on('error', (error) => this.emitOutput(`${error.message}\n`));
+        child.on('exit', () => {
+            if (this.child === child) {
+                this.child = null;
+            }
+        });
+        // `close` fires once stdio is drained, so listeners see the complete output
+        child.on('close', (code) => {
+            this.exitListeners.forEach((listener) => listener(code));
+        });
+        return child;
+    }
+
+    write(input: string) {
+        this.start().stdin.write(input);
+    }
+
+    async kill(): Promise<void> {
+        const child = this.child;
+        if (!child) {
+            return;
+        }
+        const exited = once(child, 'exit');
+        this.signal(child, 'SIGTERM');
+        const timeout = setTimeout(() => this.signal(child, 'SIGKILL'), KILL_TIMEOUT_MS);
+        try {
+            await exited;
+        } finally {
+            clearTimeout(timeout);
+            if (this.child === child) {
+                this.child = null;
+            }
+        }
+    }
+
+    async restart(): Promise<void> {
+        await this.kill();
+        this.output = '';
+        this.start();
+    }
+
+    onOutput(callback: (data: string) => void): () => void {
+        this.listeners.add(callback);
+        return () => {
+            this.listeners.delete(callback);
+        };
+    }
+
+    onExit(callback: (code: number | null) => void): () => void {
+        this.exitListeners.add(callback);
+        return () => {
+            this.exitListeners.delete(callback);
+        };
+    }
+
+    private signal(child: ChildProcessWithoutNullStreams, signal: NodeJS.Signals) {
+        try {
+            // Commands run through a shell, so signal the whole process group to reach
+            // grandchildren such as dev servers spawned by `bun run`.
+            if (child.pid && process.platform !== 'win32') {
+                process.kill(-child.pid, signal);
+            } else {
+                child.kill(signal);
+            }
+        } catch {
+            // The process already exited
+        }
+    }
+
+    private emitOutput(data: string) {
+        const maxLength = this.options.maxOutputLength ?? DEFAULT_MAX_OUTPUT_LENGTH;
+        this.output = (this.output + data).slice(-maxLength);
+        this.listeners.forEach((listener) => listener(data));
+    }
+}
 
 export class NodeFsProvider extends Provider {
     private readonly options: NodeFsProviderOptions;
+    private readonly processes = new Set<NodeFsProcess>();
+    private readonly watchers = new Set<NodeFsFileWatcher>();
+    private readonly tasks = new Map<string, NodeFsTask>();
 
     constructor(options: NodeFsProviderOptions) {
         super();
-        this.options = options;
+        this.options = {
+            ...options,
+            rootPath: path.resolve(options.rootPath),
+        };
+    }
+
+    get rootPath(): string {
+        return this.options.rootPath;
+    }
+
+    get capabilities(): ProviderCapabilities {
+        return {
+            createProjectFromGit: false,
+            listProjects: false,
+            watchFiles: true,
+            terminal: true,
+            backgroundCommands: true,
+            tasks: Object.keys(this.options.tasks ?? {}),
+            gitStatus: true,
+            downloadFiles: true,
+        };
+    }
+
+    private resolvePath(targetPath: string): string {
+        const absolute = path.resolve(this.rootPath, targetPath);
+        const relative = path.relative(this.rootPath, absolute);
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+            throw new Error(`Path ${targetPath} is outside of the sandbox root`);
+        }
+        return absolute;
+    }
+
+    private createProcess(command: string | null): NodeFsProcess {
+        const proc = new NodeFsProcess(command, this.rootPath, this.options);
+        this.processes.add(proc);
+        return proc;
     }
 
     async initialize(input: InitializeInput): Promise<InitializeOutput> {
+        await fs.mkdir(this.rootPath, { recursive: true });
         return {};
     }
 
     async writeFile(input: WriteFileInput): Promise<WriteFileOutput> {
+        const { path: targetPath, content, overwrite = true } = input.args;
+        const absolute = this.resolvePath(targetPath);
+        await fs.mkdir(path.dirname(absolute), { recursive: true });
+        await fs.writeFile(absolute, typeof content === 'string' ? content : Buffer.from(content), {
+            flag: overwrite ? 'w' : 'wx',
+        });
         return {
             success: true,
         };
     }
 
     async renameFile(input: RenameFileInput): Promise<RenameFileOutput> {
+        const absoluteOld = this.resolvePath(input.args.oldPath);
+        const absoluteNew = this.resolvePath(input.args.newPath);
+        await fs.mkdir(path.dirname(absoluteNew), { recursive: true });
+        await fs.rename(absoluteOld, absoluteNew);
         return {};
     }
 
     async statFile(input: StatFileInput): Promise<StatFileOutput> {
+        const absolute = this.resolvePath(input.args.path);
+        const stats = await fs.lstat(absolute);
+        const isSymlink = stats.isSymbolicLink();
+        const target = isSymlink ? await fs.stat(absolute) : stats;
         return {
-            type: 'file',
+            type: target.isDirectory() ? 'directory' : 'file',
+            isSymlink,
+            size: target.size,
+            mtime: target.mtimeMs,
+            ctime: target.ctimeMs,
+            atime: target.atimeMs,
         };
     }
 
     async deleteFiles(input: DeleteFilesInput): Promise<DeleteFilesOutput> {
+        const absolute = this.resolvePath(input.args.path);
+        if (absolute === this.rootPath) {
+            throw new Error('Cannot delete the sandbox root');
+        }
+        await fs.rm(absolute, { recursive: input.args.recursive ?? false });
         return {};
     }
 
     async listFiles(input: ListFilesInput): Promise<ListFilesOutput> {
+        const absolute = this.resolvePath(input.args.path);
+        const dirents = await fs.readdir(absolute, { withFileTypes: true });
+        const files: ListFilesOutputFile[] = await Promise.all(
+            dirents.map(async (dirent) => {
+                const isSymlink = dirent.isSymbolicLink();
+                let isDirectory = dirent.isDirectory();
+                if (isSymlink) {
+                    isDirectory = await fs
+                        .stat(path.join(absolute, dirent.name))
+                        .then((stats) => stats.isDirectory())
+                        .catch(() => false);
+                }
+                return {
+                    name: dirent.name,
+                    type: isDirectory ? 'directory' : 'file',
+                    isSymlink,
+                };
+            }),
+        );
         return {
-            files: [],
+            files,
         };
     }
 
     async readFile(input: ReadFileInput): Promise<ReadFileOutput> {
-        return {
-            file: {
-                path: input.args.path,
-                content: '',
+        const filePath = input.args.path;
+        const data = await fs.readFile(this.resolvePath(filePath));
+        let file: ReadFileOutputFile;
+        if (detectSandboxFileType(data) === 'binary') {
+            const content = new Uint8Array(data);
+            file = {
+                type: 'binary',
+                path: filePath,
+                content,
+                toString: () => data.toString('utf8'),
+            };
+        } else {
+            const content = data.toString('utf8');
+            file = {
                 type: 'text',
-                toString: () => {
-                    return '';
-                },
-            },
+                path: filePath,
+                content,
+                toString: () => content,
+            };
+        }
+        return {
+            file,
         };
     }
 
     async downloadFiles(input: DownloadFilesInput): Promise<DownloadFilesOutput> {
+        // Files are already on the local disk, so hand back a file URL instead of a download link.
+        const absolute = this.resolvePath(input.args.path);
         return {
-            url: '',
+            url: `file://${absolute}`,
         };
     }
 
     async copyFiles(input: CopyFilesInput): Promise<CopyFileOutput> {
+        const source = this.resolvePath(input.args.sourcePath);
+        const target = this.resolvePath(input.args.targetPath);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.cp(source, target, {
+            recursive: input.args.recursive ?? false,
+            force: input.args.overwrite ?? false,
+            errorOnExist: !(input.args.overwrite ?? false),
+        });
         return {};
     }
 
     async watchFiles(input: WatchFilesInput): Promise<WatchFilesOutput> {
+        const watcher = new NodeFsFileWatcher(this.rootPath);
+        await watcher.start({
+            ...input,
+            args: {
+                ...input.args,
+                path: toSandboxRelativePath(this.rootPath, this.resolvePath(input.args.path)),
+            },
+        });
+        if (input.onFileChange) {
+            watcher.registerEventCallback(input.onFileChange);
+        }
+        this.watchers.add(watcher);
         return {
-            watcher: new NodeFsFileWatcher(),
+            watcher,
         };
     }
 
     async createTerminal(input: CreateTerminalInput): Promise<CreateTerminalOutput> {
         return {
-            terminal: new NodeFsTerminal(),
+            terminal: new NodeFsTerminal(this.createProcess(null)),
         };
     }
 
     async getTask(input: GetTaskInput): Promise<GetTaskOutput> {
+        const id = input.args.id;
+        const existing = this.tasks.get(id);
+        if (existing) {
+            return {
+                task: existing,
+            };
+        }
+        const command = this.options.tasks?.[id];
+        if (!command) {
+            throw new Error(`Task ${id} not found`);
+        }
+        const task = new NodeFsTask(id, this.createProcess(command));
+        this.tasks.set(id, task);
         return {
-            task: new NodeFsTask(),
+            task,
         };
     }
 
     async runCommand(input: TerminalCommandInput): Promise<TerminalCommandOutput> {
-        return {
-            output: '',
-        };
+        const proc = this.createProcess(input.args.command);
+        try {
+            const exited = new Promise<number | null>((resolve) => proc.onExit(resolve));
+            const child = proc.start();
+            child.stdin.end();
+            const code = await exited;
+            if (code !== 0) {
+                throw new Error(
+                    `Command "${input.args.command}" failed with exit code ${code}: ${proc.bufferedOutput}`,
+                );
+            }
+            return {
+                output: proc.bufferedOutput,
+            };
+        } finally {
+            this.processes.delete(proc);
+        }
     }
 
     async runBackgroundCommand(
         input: TerminalBackgroundCommandInput,
     ): Promise<TerminalBackgroundCommandOutput> {
+        const proc = this.createProcess(input.args.command);
+        proc.start();
         return {
-            command: new NodeFsCommand(),
+            command: new NodeFsCommand(proc),
         };
     }
 
     async gitStatus(input: GitStatusInput): Promise<GitStatusOutput> {
+        if (!existsSync(path.join(this.rootPath, '.git'))) {
+            return {
+                changedFiles: [],
+            };
+        }
+        const { output } = await this.runCommand({
+            args: {
+                command: 'git status --porcelain --untracked-files=all',
+            },
+        });
         return {
-            changedFiles: [],
+            changedFiles: parseGitStatus(output),
         };
     }
 
@@ -154,21 +491,23 @@ export class NodeFsProvider extends Provider {
         return {};
     }
 
-    async createSession(input: CreateSessionInput): Promise<CreateSessionOutput> {
-        return {};
+    async createSession(input: CreateSessionInput): Promise<NodeFsCreateSessionOutput> {
+        return {
+            rootPath: this.rootPath,
+        };
     }
 
     async reload(): Promise<boolean> {
-        // TODO: Implement
+        await Promise.all([...this.tasks.values()].map((task) => task.restart()));
         return true;
     }
 
     async reconnect(): Promise<void> {
-        // TODO: Implement
+        await this.initialize({});
     }
 
     async ping(): Promise<boolean> {
-        return true;
+        return existsSync(this.rootPath);
     }
 
     static async createProject(input: CreateProjectInput): Promise<CreateProjectOutput> {
@@ -185,122 +524,192 @@ export class NodeFsProvider extends Provider {
     }
 
     async pauseProject(input: PauseProjectInput): Promise<PauseProjectOutput> {
+        await Promise.all([...this.tasks.values()].map((task) => task.stop()));
         return {};
     }
 
     async stopProject(input: StopProjectInput): Promise<StopProjectOutput> {
+        await this.destroy();
         return {};
     }
 
     async listProjects(input: ListProjectsInput): Promise<ListProjectsOutput> {
-        return {};
+        return {
+            projects: [],
+        };
     }
 
     async destroy(): Promise<void> {
-        // TODO: Implement
+        await Promise.all([...this.watchers].map((watcher) => watcher.stop()));
+        await Promise.all([...this.processes].map((proc) => proc.kill()));
+        this.watchers.clear();
+        this.processes.clear();
+        this.tasks.clear();
     }
 }
 
 export class NodeFsFileWatcher extends ProviderFileWatcher {
-    start(input: WatchFilesInput): Promise<void> {
-        return Promise.resolve();
+    private watcher: FSWatcher | null = null;
+    private readonly callbacks = new Set<(event: WatchEvent) => Promise<void>>();
+
+    constructor(private readonly rootPath: string) {
+        super();
     }
 
-    stop(): Promise<void> {
-        return Promise.resolve();
+    async start(input: WatchFilesInput): Promise<void> {
+        if (this.watcher) {
+            return;
+        }
+        const watchPath = path.resolve(this.rootPath, input.args.path);
+        const excludes = input.args.excludes ?? [];
+        this.watcher = watch(
+            watchPath,
+            { recursive: input.args.recursive ?? false, persistent: false },
+            (eventType, filename) => {
+                if (!filename) {
+                    return;
+                }
+                const absolute = path.resolve(watchPath, filename.toString());
+                const relative = toSandboxRelativePath(this.rootPath, absolute);
+                if (isExcluded(relative, excludes)) {
+                    return;
+                }
+                void this.dispatch(eventType, absolute, relative);
+            },
+        );
+    }
+
+    async stop(): Promise<void> {
+        this.watcher?.close();
+        this.watcher = null;
+        this.callbacks.clear();
     }
 
     registerEventCallback(callback: (event: WatchEvent) => Promise<void>): void {
-        // TODO: Implement
+        this.callbacks.add(callback);
+    }
+
+    private async dispatch(eventType: string, absolute: string, relative: string) {
+        let type: WatchEvent['type'] = 'change';
+        if (eventType === 'rename') {
+            // Node reports creations and deletions as renames, check the disk to tell them apart
+            type = existsSync(absolute) ? 'add' : 'remove';
+        }
+        const event: WatchEvent = { type, paths: [relative] };
+        for (const callback of this.callbacks) {
+            try {
+                await callback(event);
+            } catch (error) {
+                console.error('Error in file watcher callback:', error);
+            }
+        }
     }
 }
 
 export class NodeFsTerminal extends ProviderTerminal {
+    private readonly terminalId = randomUUID();
+
+    constructor(private readonly process: NodeFsProcess) {
+        super();
+    }
+
     get id(): string {
-        return 'unimplemented';
+        return this.terminalId;
     }
 
     get name(): string {
-        return 'unimplemented';
+        return 'nodefs-terminal';
     }
 
-    open(): Promise<string> {
-        return Promise.resolve('');
+    async open(): Promise<string> {
+        this.process.start();
+        return this.process.bufferedOutput;
     }
 
-    write(): Promise<void> {
-        return Promise.resolve();
+    async write(input: string): Promise<void> {
+        this.process.write(input);
     }
 
-    run(): Promise<void> {
-        return Promise.resolve();
+    async run(input: string): Promise<void> {
+        this.process.write(`${input}\n`);
     }
 
     kill(): Promise<void> {
-        return Promise.resolve();
+        return this.process.kill();
     }
 
     onOutput(callback: (data: string) => void): () => void {
-        return () => {};
+        return this.process.onOutput(callback);
     }
 }
 
 export class NodeFsTask extends ProviderTask {
+    constructor(
+        private readonly taskId: string,
+        private readonly process: NodeFsProcess,
+    ) {
+        super();
+    }
+
     get id(): string {
-        return 'unimplemented';
+        return this.taskId;
     }
 
     get name(): string {
-        return 'unimplemented';
+        return this.taskId;
     }
 
     get command(): string {
-        return 'unimplemented';
+        return this.process.command ?? '';
     }
 
-    open(): Promise<string> {
-        return Promise.resolve('');
+    async open(): Promise<string> {
+        return this.process.bufferedOutput;
     }
 
-    run(): Promise<void> {
-        return Promise.resolve();
+    async run(): Promise<void> {
+        this.process.start();
     }
 
     restart(): Promise<void> {
-        return Promise.resolve();
+        return this.process.restart();
     }
 
     stop(): Promise<void> {
-        return Promise.resolve();
+        return this.process.kill();
     }
 
     onOutput(callback: (data: string) => void): () => void {
-        return () => {};
+        return this.process.onOutput(callback);
     }
 }
 
 export class NodeFsCommand extends ProviderBackgroundCommand {
-    get name(): string {
-        return 'unimplemented';
+    constructor(private readonly process: NodeFsProcess) {
+        super();
+    }
+
+    get name(): string | undefined {
+        return undefined;
     }
 
     get command(): string {
-        return 'unimplemented';
+        return this.process.command ?? '';
     }
 
-    open(): Promise<string> {
-        return Promise.resolve('');
+    async open(): Promise<string> {
+        return this.process.bufferedOutput;
     }
 
     restart(): Promise<void> {
-        return Promise.resolve();
+        return this.process.restart();
     }
 
     kill(): Promise<void> {
-        return Promise.resolve();
+        return this.process.kill();
     }
 
     onOutput(callback: (data: string) => void): () => void {
-        return () => {};
+        return this.process.onOutput(callback);
     }
 }
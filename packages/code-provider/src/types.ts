@@ -171,7 +171,17 @@ export interface StopProjectInput {}
 export interface StopProjectOutput {}
 
 export interface ListProjectsInput {}
-export interface ListProjectsOutput {}
+export interface ListProjectsOutputProject {
+    id: string;
+    name?: string;
+    description?: string;
+    path?: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+export interface ListProjectsOutput {
+    projects: ListProjectsOutputProject[];
+}
 
 export interface CreateSessionInput {
     args: {
@@ -180,7 +190,26 @@ export interface CreateSessionInput {
 }
 export interface CreateSessionOutput {}
 
+/**
+ * Optional features a provider may not support. Callers and the conformance suite check these
+ * flags instead of relying on a method throwing at runtime.
+ */
+export interface ProviderCapabilities {
+    createProjectFromGit: boolean;
+    listProjects: boolean;
+    watchFiles: boolean;
+    terminal: boolean;
+    /** `runBackgroundCommand` runs the given command rather than a fixed process */
+    backgroundCommands: boolean;
+    /** Task ids that `getTask` resolves without starting a remote runtime */
+    tasks: string[];
+    gitStatus: boolean;
+    downloadFiles: boolean;
+}
+
 export abstract class Provider {
+    abstract get capabilities(): ProviderCapabilities;
+
     abstract writeFile(input: WriteFileInput): Promise<WriteFileOutput>;
     abstract renameFile(input: RenameFileInput): Promise<RenameFileOutput>;
     abstract statFile(input: StatFileInput): Promise<StatFileOutput>;
@@ -0,0 +1,14 @@
+/**
+ * Extracts file paths from `git status --porcelain` output. Renames resolve to the new path.
+ */
+export function parseGitStatus(output: string): string[] {
+    return output
+        .split(/\r?\n/)
+        .filter((line) => line.trim().length > 0)
+        .map((line) => {
+            const filePath = line.slice(3);
+            const renameIndex = filePath.indexOf(' -> ');
+            return renameIndex === -1 ? filePath : filePath.slice(renameIndex + 4);
+        })
+        .map((filePath) => filePath.replace(/^"(.*)"$/, '$1'));
+}
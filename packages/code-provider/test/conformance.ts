@@ -0,0 +1,337 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { Provider, WatchEvent } from '../src/types';
+
+export interface ProviderConformanceTarget {
+    name: string;
+    /** Creates a provider rooted at `rootPath`. The directory already exists. */
+    createProvider: (rootPath: string) => Provider;
+    /** Releases everything the provider started. Defaults to `provider.destroy()`. */
+    dispose?: (provider: Provider) => Promise<void>;
+}
+
+const WAIT_TIMEOUT_MS = 5000;
+const WAIT_INTERVAL_MS = 25;
+
+async function waitFor(predicate: () => boolean | Promise<boolean>, timeout = WAIT_TIMEOUT_MS) {
+    const deadline = Date.now() + timeout;
+    while (Date.now() < deadline) {
+        if (await predicate()) {
+            return;
+        }
+        await new Promise((resolve) => setTimeout(resolve, WAIT_INTERVAL_MS));
+    }
+    throw new Error(`Condition not met within ${timeout}ms`);
+}
+
+/**
+ * Shared behaviour every `Provider` implementation is expected to have. Optional features are
+ * gated on `provider.capabilities` so gaps are declared by the provider rather than discovered
+ * through runtime errors.
+ */
+export function runProviderConformanceSuite(target: ProviderConformanceTarget) {
+    // Capabilities are static per provider configuration, so probe them once to gate tests
+    const capabilities = target.createProvider(tmpdir()).capabilities;
+
+    describe(`${target.name} provider conformance`, () => {
+        let rootPath: string;
+        let provider: Provider;
+
+        beforeEach(async () => {
+            rootPath = await fs.mkdtemp(path.join(tmpdir(), 'onlook-provider-conformance-'));
+            provider = target.createProvider(rootPath);
+            await provider.initialize({});
+        });
+
+        afterEach(async () => {
+            await (target.dispose ? target.dispose(provider) : provider.destroy());
+            await fs.rm(rootPath, { recursive: true, force: true });
+        });
+
+        test('declares its capabilities', () => {
+            expect(provider.capabilities).toEqual(capabilities);
+            expect(Array.isArray(provider.capabilities.tasks)).toBe(true);
+        });
+
+        describe('files', () => {
+            test('round-trips text content', async () => {
+                const result = await provider.writeFile({
+                    args: { path: 'src/nested/page.tsx', content: 'export default 1;\n' },
+                });
+                expect(result.success).toBe(true);
+
+                const { file } = await provider.readFile({ args: { path: 'src/nested/page.tsx' } });
+                expect(file.type).toBe('text');
+                expect(file.path).toBe('src/nested/page.tsx');
+                expect(file.content).toBe('export default 1;\n');
+                expect(file.toString()).toBe('export default 1;\n');
+            });
+
+            test('overwrites existing files', async () => {
+                await provider.writeFile({ args: { path: 'a.txt', content: 'first' } });
+                await provider.writeFile({ args: { path: 'a.txt', content: 'second' } });
+                const { file } = await provider.readFile({ args: { path: 'a.txt' } });
+                expect(file.content).toBe('second');
+            });
+
+            test('round-trips binary content', async () => {
+                const bytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01, 0xff]);
+                await provider.writeFile({ args: { path: 'image.png', content: bytes } });
+
+                const { file } = await provider.readFile({ args: { path: 'image.png' } });
+                expect(file.type).toBe('binary');
+                expect(Array.from(file.content as Uint8Array)).toEqual(Array.from(bytes));
+            });
+
+            test('stats files and directories', async () => {
+                await provider.writeFile({ args: { path: 'dir/file.txt', content: 'hello' } });
+
+                const fileStat = await provider.statFile({ args: { path: 'dir/file.txt' } });
+                expect(fileStat.type).toBe('file');
+                expect(fileStat.size).toBe(5);
+
+                const dirStat = await provider.statFile({ args: { path: 'dir' } });
+                expect(dirStat.type).toBe('directory');
+            });
+
+            test('lists directory entries with their types', async () => {
+                await provider.writeFile({ args: { path: 'list/one.txt', content: '1' } });
+                await provider.writeFile({ args: { path: 'list/sub/two.txt', content: '2' } });
+
+                const { files } = await provider.listFiles({ args: { path: 'list' } });
+                const entries = files
+                    .map((entry) => ({ name: entry.name, type: entry.type }))
+                    .sort((a, b) => a.name.localeCompare(b.name));
+                expect(entries).toEqual([
+                    { name: 'one.txt', type: 'file' },
+                    { name: 'sub', type: 'directory' },
+                ]);
+            });
+
+            test('copies files and directories', async () => {
+                await provider.writeFile({ args: { path: 'from/file.txt', content: 'copy me' } });
+
+                await provider.copyFiles({
+                    args: { sourcePath: 'from/file.txt', targetPath: 'to/file.txt' },
+                });
+                await provider.copyFiles({
+                    args: { sourcePath: 'from', targetPath: 'from-copy', recursive: true },
+                });
+
+                expect(
+                    (await provider.readFile({ args: { path: 'to/file.txt' } })).file.content,
+                ).toBe('copy me');
+                expect(
+                    (await provider.readFile({ args: { path: 'from-copy/file.txt' } })).file
+                        .content,
+                ).toBe('copy me');
+            });
+
+            test('deletes files and directories', async () => {
+                await provider.writeFile({ args: { path: 'gone.txt', content: 'x' } });
+                await provider.writeFile({ args: { path: 'gone-dir/inner.txt', content: 'x' } });
+
+                await provider.deleteFiles({ args: { path: 'gone.txt' } });
+                await provider.deleteFiles({ args: { path: 'gone-dir', recursive: true } });
+
+                const { files } = await provider.listFiles({ args: { path: '.' } });
+                const names = files.map((entry) => entry.name);
+                expect(names).not.toContain('gone.txt');
+                expect(names).not.toContain('gone-dir');
+            });
+        });
+
+        describe('rename', () => {
+            test('moves a file and removes the old path', async () => {
+                await provider.writeFile({ args: { path: 'old.txt', content: 'moved' } });
+                await provider.renameFile({
+                    args: { oldPath: 'old.txt', newPath: 'new/place.txt' },
+                });
+
+                const { file } = await provider.readFile({ args: { path: 'new/place.txt' } });
+                expect(file.content).toBe('moved');
+                await expect(
+                    provider.readFile({ args: { path: 'old.txt' } }),
+                ).rejects.toBeInstanceOf(Error);
+            });
+
+            test('replaces an existing target file', async () => {
+                await provider.writeFile({ args: { path: 'source.txt', content: 'source' } });
+                await provider.writeFile({ args: { path: 'target.txt', content: 'target' } });
+                await provider.renameFile({
+                    args: { oldPath: 'source.txt', newPath: 'target.txt' },
+                });
+
+                const { file } = await provider.readFile({ args: { path: 'target.txt' } });
+                expect(file.content).toBe('source');
+            });
+
+            test('moves directories with their contents', async () => {
+                await provider.writeFile({ args: { path: 'folder/inner.txt', content: 'inner' } });
+                await provider.renameFile({ args: { oldPath: 'folder', newPath: 'renamed' } });
+
+                const { file } = await provider.readFile({ args: { path: 'renamed/inner.txt' } });
+                expect(file.content).toBe('inner');
+            });
+        });
+
+        describe('errors', () => {
+            test('rejects reading a missing file', async () => {
+                await expect(
+                    provider.readFile({ args: { path: 'missing.txt' } }),
+                ).rejects.toBeInstanceOf(Error);
+            });
+
+            test('rejects stat and list of missing paths', async () => {
+                await expect(
+                    provider.statFile({ args: { path: 'missing.txt' } }),
+                ).rejects.toBeInstanceOf(Error);
+                await expect(
+                    provider.listFiles({ args: { path: 'missing-dir' } }),
+                ).rejects.toBeInstanceOf(Error);
+            });
+
+            test('rejects renaming a missing file', async () => {
+                await expect(
+                    provider.renameFile({ args: { oldPath: 'missing.txt', newPath: 'other.txt' } }),
+                ).rejects.toBeInstanceOf(Error);
+            });
+
+            test('rejects unknown tasks', async () => {
+                await expect(
+                    provider.getTask({ args: { id: 'conformance-unknown-task' } }),
+                ).rejects.toBeInstanceOf(Error);
+            });
+
+            test('rejects failing commands with the exit code', async () => {
+                const error = await provider
+                    .runCommand({ args: { command: 'exit 3' } })
+                    .then(() => null)
+                    .catch((error: unknown) => error);
+                expect(error).toBeInstanceOf(Error);
+                expect((error as Error).message).toContain('3');
+            });
+        });
+
+        describe('commands', () => {
+            test('returns command output', async () => {
+                const { output } = await provider.runCommand({
+                    args: { command: 'echo conformance-output' },
+                });
+                expect(output).toContain('conformance-output');
+            });
+
+            test('runs commands in the sandbox root', async () => {
+                await provider.runCommand({ args: { command: 'echo created > from-command.txt' } });
+                const { file } = await provider.readFile({ args: { path: 'from-command.txt' } });
+                expect(file.toString().trim()).toBe('created');
+            });
+
+            test.skipIf(!capabilities.backgroundCommands)(
+                'runs, restarts and kills background commands',
+                async () => {
+                    const { command } = await provider.runBackgroundCommand({
+                        args: { command: 'echo background-started; sleep 30' },
+                    });
+                    expect(command.command).toBe('echo background-started; sleep 30');
+
+                    let streamed = '';
+                    const unsubscribe = command.onOutput((data) => {
+                        streamed += data;
+                    });
+                    await waitFor(
+                        async () =>
+                            streamed.includes('background-started') ||
+                            (await command.open()).includes('background-started'),
+                    );
+
+                    streamed = '';
+                    await command.restart();
+                    await waitFor(async () =>
+                        (await command.open()).includes('background-started'),
+                    );
+
+                    await command.kill();
+                    unsubscribe();
+                },
+            );
+
+            test.skipIf(capabilities.tasks.length === 0)('exposes declared tasks', async () => {
+                for (const id of capabilities.tasks) {
+                    const { task } = await provider.getTask({ args: { id } });
+                    expect(task.id).toBe(id);
+                    await task.run();
+                    await task.stop();
+                }
+            });
+        });
+
+        describe.skipIf(!capabilities.terminal)('terminal', () => {
+            test('streams output of commands run in the terminal', async () => {
+                const { terminal } = await provider.createTerminal({});
+                let output = '';
+                const unsubscribe = terminal.onOutput((data) => {
+                    output += data;
+                });
+                await terminal.open();
+                await terminal.run('echo conformance-terminal');
+
+                await waitFor(() => output.includes('conformance-terminal'));
+
+                unsubscribe();
+                await terminal.kill();
+            });
+        });
+
+        describe.skipIf(!capabilities.watchFiles)('watch', () => {
+            test('reports add, change and remove events', async () => {
+                const events: WatchEvent[] = [];
+                const hasEvent = (type: WatchEvent['type'], filePath: string) =>
+                    events.some((event) => event.type === type && event.paths.includes(filePath));
+
+                const { watcher } = await provider.watchFiles({
+                    args: { path: '.', recursive: true, excludes: ['node_modules'] },
+                    onFileChange: async (event) => {
+                        events.push(event);
+                    },
+                });
+                watcher.registerEventCallback(async (event) => {
+                    events.push(event);
+                });
+                // Give native watchers a moment to attach before touching the disk
+                await new Promise((resolve) => setTimeout(resolve, 200));
+
+                await provider.writeFile({ args: { path: 'watched.txt', content: 'one' } });
+                await waitFor(() => hasEvent('add', 'watched.txt'));
+
+                await new Promise((resolve) => setTimeout(resolve, 100));
+                await provider.writeFile({ args: { path: 'watched.txt', content: 'two' } });
+                await waitFor(() => hasEvent('change', 'watched.txt'));
+
+                await provider.deleteFiles({ args: { path: 'watched.txt' } });
+                await waitFor(() => hasEvent('remove', 'watched.txt'));
+
+                await watcher.stop();
+            });
+        });
+
+        describe.skipIf(!capabilities.gitStatus)('git', () => {
+            test('reports changed files', async () => {
+                await provider.writeFile({ args: { path: 'tracked.txt', content: 'git' } });
+                await provider.runCommand({ args: { command: 'git init -q' } });
+
+                const { changedFiles } = await provider.gitStatus({});
+                expect(changedFiles).toContain('tracked.txt');
+            });
+        });
+
+        describe('projects', () => {
+            test('lists projects as an array', async () => {
+                const { projects } = await provider.listProjects({});
+                expect(Array.isArray(projects)).toBe(true);
+            });
+        });
+    });
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'bun:test';
+import { classifyCrash } from '../src/providers/local/crash';
+
+const failed = { code: 1, signal: null };
+
+describe('classifyCrash', () => {
+    it('detects ports that are already in use', () => {
+        const result = classifyCrash(
+            ['> next dev', 'Error: listen EADDRINUSE: address already in use :::3000'],
+            failed,
+        );
+        expect(result.kind).toBe('port-in-use');
+        expect(result.evidence).toBe('Error: listen EADDRINUSE: address already in use :::3000');
+        expect(result.recoverable).toBe(true);
+    });
+
+    it('detects missing dependencies from the output', () => {
+        expect(classifyCrash(['sh: 1: next: not found'], { code: 127, signal: null }).kind).toBe(
+            'missing-dependencies',
+        );
+        expect(classifyCrash(["Error: Cannot find module 'react'"], failed)).toMatchObject({
+            kind: 'missing-dependencies',
+            recoverable: false,
+        });
+    });
+
+    it('detects missing dependencies when node_modules is absent', () => {
+        expect(classifyCrash(['something went wrong'], failed, false).kind).toBe(
+            'missing-dependencies',
+        );
+    });
+
+    it('detects syntax errors', () => {
+        const result = classifyCrash(
+            ['SyntaxError: Unexpected token }', '    at compile (next.config.js:3:1)'],
+            failed,
+        );
+        expect(result.kind).toBe('syntax-error');
+        expect(result.recoverable).toBe(false);
+    });
+
+    it('detects running out of memory', () => {
+        expect(
+            classifyCrash(
+                [
+                    'FATAL ERROR: Reached heap limit Allocation failed - JavaScript heap out of memory',
+                ],
+                { code: 134, signal: null },
+            ).kind,
+        ).toBe('out-of-memory');
+        expect(classifyCrash([], { code: null, signal: 'SIGKILL' }).kind).toBe('out-of-memory');
+    });
+
+    it('prefers out of memory over errors printed while going down', () => {
+        const result = classifyCrash(
+            ['JavaScript heap out of memory', "Error: Cannot find module './chunk'"],
+            failed,
+        );
+        expect(result.kind).toBe('out-of-memory');
+    });
+
+    it('falls back to unknown with the exit status', () => {
+        const result = classifyCrash(['bye'], { code: 2, signal: null });
+        expect(result).toEqual({
+            kind: 'unknown',
+            message: 'The process exited with code 2',
+            recoverable: true,
+        });
+    });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { LocalProvider, type LocalGitImportProgress } from '../src/providers/local';
+
+const git = (cwd: string, ...args: string[]) =>
+    execFileSync('git', args, { cwd, stdio: 'pipe' }).toString();
+
+describe('LocalProvider.createProjectFromGit', () => {
+    let baseDir: string;
+    let bareRepo: string;
+    let projectsRoot: string;
+
+    beforeEach(async () => {
+        baseDir = await fs.mkdtemp(path.join(tmpdir(), 'onlook-local-git-'));
+        projectsRoot = path.join(baseDir, 'onlook-projects');
+
+        const workTree = path.join(baseDir, 'source');
+        await fs.mkdir(workTree);
+        git(workTree, 'init', '-q', '-b', 'main');
+        git(workTree, 'config', 'user.email', 'test@onlook.com');
+        git(workTree, 'config', 'user.name', 'Onlook');
+        await fs.writeFile(path.join(workTree, 'README.md'), 'main branch\n');
+        git(workTree, 'add', '-A');
+        git(workTree, 'commit', '-q', '-m', 'init');
+
+        git(workTree, 'checkout', '-q', '-b', 'feature');
+        await fs.writeFile(path.join(workTree, 'package.json'), '{ "name": "feature" }\n');
+        await fs.writeFile(path.join(workTree, 'pnpm-lock.yaml'), "lockfileVersion: '9.0'\n");
+        git(workTree, 'add', '-A');
+        git(workTree, 'commit', '-q', '-m', 'feature');
+
+        bareRepo = path.join(baseDir, 'remote.git');
+        git(baseDir, 'clone', '-q', '--bare', workTree, bareRepo);
+    });
+
+    afterEach(async () => {
+        await fs.rm(baseDir, { recursive: true, force: true });
+    });
+
+    it('clones a file:// repository and checks out the requested branch', async () => {
+        const progress: LocalGitImportProgress[] = [];
+        const result = await LocalProvider.createProjectFromGit({
+            repoUrl: `file://${bareRepo}`,
+            branch: 'feature',
+            id: 'imported',
+            projectsRoot,
+            installDependencies: false,
+            onProgress: (event) => progress.push(event),
+        });
+
+        expect(result.id).toBe('imported');
+        expect(result.projectPath).toBe(path.join(projectsRoot, 'imported'));
+        expect(result.packageManager).toBe('pnpm');
+        expect(git(result.projectPath, 'rev-parse', '--abbrev-ref', 'HEAD').trim()).toBe('feature');
+
+        const stages = progress.map((event) => event.stage);
+        expect(stages).toContain('clone');
+        expect(stages).toContain('checkout');
+        expect(stages).not.toContain('install');
+        expect(stages.at(-1)).toBe('complete');
+    });
+
+    it('skips installing when the repository has no package.json', async () => {
+        const result = await LocalProvider.createProjectFromGit({
+            repoUrl: bareRepo,
+            branch: 'main',
+            projectsRoot,
+        });
+
+        expect(result.packageManager).toBeNull();
+        const readme = await fs.readFile(path.join(result.projectPath, 'README.md'), 'utf8');
+        expect(readme).toBe('main branch\n');
+    });
+
+    it('removes the partial clone when the branch does not exist', async () => {
+        await expect(
+            LocalProvider.createProjectFromGit({
+                repoUrl: bareRepo,
+                branch: 'missing-branch',
+                id: 'broken',
+                projectsRoot,
+            }),
+        ).rejects.toThrow('git checkout failed');
+
+        expect(await fs.readdir(projectsRoot)).not.toContain('broken');
+    });
+
+    it('rejects a repository URL or branch that git would read as an option', async () => {
+        await expect(
+            LocalProvider.createProjectFromGit({
+                repoUrl: '--upload-pack=touch pwned',
+                branch: 'main',
+                projectsRoot,
+            }),
+        ).rejects.toThrow('Invalid git repository URL');
+        await expect(
+            LocalProvider.createProjectFromGit({
+                repoUrl: bareRepo,
+                branch: '--orphan=main',
+                id: 'option',
+                projectsRoot,
+            }),
+        ).rejects.toThrow('Invalid git branch');
+    });
+});
@@ -0,0 +1,253 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import net from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { ProcessCommand } from '@onlook/models';
+import { LocalProvider, type LocalProcessCrash } from '../src/providers/local';
+
+const WAIT_TIMEOUT_MS = 8000;
+
+async function waitFor(predicate: () => boolean, timeout = WAIT_TIMEOUT_MS) {
+    const deadline = Date.now() + timeout;
+    while (Date.now() < deadline) {
+        if (predicate()) {
+            return;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 25));
+    }
+    throw new Error(`Condition not met within ${timeout}ms`);
+}
+
+// Minimal HTTP server so the HTTP health check has something to poll
+const HTTP_SERVER = `bun -e "Bun.serve({ port: Number(process.env.PORT), fetch: () => new Response('ok') })"`;
+
+describe('LocalProvider process supervision', () => {
+    let projectPath: string;
+    let provider: LocalProvider;
+
+    const createProvider = (
+        processes: ProcessCommand[],
+        devCommand = 'echo "dev on $PORT"; sleep 30',
+    ) =>
+        new LocalProvider({
+            sandboxId: `processes-${randomUUID()}`,
+            projectPath,
+            preferredPort: 4100,
+            command: { bin: 'sh', args: ['-c', devCommand] },
+            processes,
+            restartBackoff: { initialDelayMs: 50, maxDelayMs: 200, maxAttempts: 3 },
+        });
+
+    const processInfo = (name: string) =>
+        provider.listProcesses().find((info) => info.name === name);
+
+    beforeEach(async () => {
+        projectPath = await fs.mkdtemp(path.join(tmpdir(), 'onlook-local-processes-'));
+    });
+
+    afterEach(async () => {
+        await provider.stopProject({});
+        await fs.rm(projectPath, { recursive: true, force: true });
+    });
+
+    it('exposes declared processes as tasks with their own ports and logs', async () => {
+        provider = createProvider([
+            { name: 'api', command: 'echo "api on $PORT"; sleep 30', preferredPort: 4100 },
+            { name: 'worker', command: 'echo worker-ready; sleep 30' },
+        ]);
+        expect(provider.capabilities.tasks).toEqual(['dev', 'api', 'worker']);
+
+        await provider.createSession({ args: { id: 'session' } });
+        await waitFor(() =>
+            provider.getProcessLogs('api').some((entry) => entry.message.startsWith('api on')),
+        );
+
+        const devPort = processInfo('dev')?.port;
+        const apiPort = processInfo('api')?.port;
+        expect(devPort).toBeNumber();
+        expect(apiPort).toBeNumber();
+        expect(apiPort).not.toBe(devPort);
+        expect(processInfo('worker')?.port).toBeNull();
+
+        const apiLogs = provider.getProcessLogs('api').map((entry) => entry.message);
+        expect(apiLogs).toContain(`api on ${apiPort}`);
+        expect(apiLogs.some((message) => message.startsWith('dev on'))).toBe(false);
+        expect(provider.getDevServerLogs().every((entry) => entry.process === 'dev')).toBe(true);
+
+        const { task } = await provider.getTask({ args: { id: 'worker' } });
+        expect(task.command).toBe('echo worker-ready; sleep 30');
+        await waitFor(() => provider.getProcessLogs('worker').length > 1);
+        expect(await task.open()).toContain('worker-ready');
+    });
+
+    it('marks processes healthy once the log pattern matches', async () => {
+        provider = createProvider([
+            {
+                name: 'api',
+                command: 'sleep 0.2; echo "Server listening"; sleep 30',
+                healthCheck: { type: 'log', pattern: 'listening' },
+            },
+        ]);
+        await provider.getTask({ args: { id: 'api' } });
+        expect(processInfo('api')?.status).toBe('starting');
+        await waitFor(() => processInfo('api')?.status === 'healthy');
+    });
+
+    it('marks processes healthy once the HTTP endpoint responds', async () => {
+        provider = createProvider([
+            {
+                name: 'api',
+                command: HTTP_SERVER,
+                preferredPort: 4200,
+                healthCheck: { type: 'http', path: '/health' },
+            },
+        ]);
+        await provider.getTask({ args: { id: 'api' } });
+        await waitFor(() => processInfo('api')?.status === 'healthy');
+    });
+
+    it('marks processes unhealthy when the check times out', async () => {
+        provider = createProvider([
+            {
+                name: 'api',
+                command: 'sleep 30',
+                healthCheck: { type: 'log', pattern: 'never printed', timeoutMs: 100 },
+            },
+        ]);
+        await provider.getTask({ args: { id: 'api' } });
+        await waitFor(() => processInfo('api')?.status === 'unhealthy');
+    });
+
+    it('restarts processes that fail when the policy asks for it', async () => {
+        provider = createProvider([
+            { name: 'flaky', command: 'echo attempt; exit 1', restart: 'on-failure' },
+            { name: 'done', command: 'echo finished', restart: 'on-failure' },
+        ]);
+        await provider.getTask({ args: { id: 'flaky' } });
+        await provider.getTask({ args: { id: 'done' } });
+
+        await waitFor(() => (processInfo('flaky')?.restarts ?? 0) >= 1);
+        await waitFor(() => processInfo('done')?.status === 'exited');
+        expect(processInfo('done')?.restarts).toBe(0);
+    });
+
+    it('does not restart processes that were stopped on purpose', async () => {
+        provider = createProvider([{ name: 'api', command: 'sleep 30', restart: 'always' }]);
+        const { task } = await provider.getTask({ args: { id: 'api' } });
+        await task.stop();
+        await new Promise((resolve) => setTimeout(resolve, 1500));
+        expect(processInfo('api')?.status).toBe('stopped');
+    });
+
+    it('runs background commands as supervised processes', async () => {
+        provider = createProvider([]);
+        const { command } = await provider.runBackgroundCommand({
+            args: { command: 'echo from-background; sleep 30' },
+        });
+        await waitFor(() =>
+            provider
+                .getProcessLogs(command.name!)
+                .some((entry) => entry.message === 'from-background'),
+        );
+        expect(processInfo('echo from-background; sleep 30')?.status).toBe('running');
+
+        const again = await provider.runBackgroundCommand({
+            args: { command: 'echo from-background; sleep 30' },
+        });
+        expect(again.command.name).toBe(command.name!);
+        await command.kill();
+        expect(processInfo(command.name!)?.status).toBe('stopped');
+    });
+
+    it('classifies crashes and restarts with backoff', async () => {
+        provider = createProvider(
+            [],
+            'echo "Error: listen EADDRINUSE: address already in use :::4100"; exit 1',
+        );
+        const crashes: LocalProcessCrash[] = [];
+        provider.onProcessCrash((crash) => crashes.push(crash));
+
+        await provider.createSession({ args: { id: 'session' } });
+        await waitFor(() => crashes.length === 4);
+
+        expect(crashes.map((crash) => crash.kind)).toEqual(Array(4).fill('port-in-use'));
+        expect(crashes.map((crash) => crash.restartInMs)).toEqual([50, 100, 200, null]);
+        expect(crashes[0]).toMatchObject({ process: 'dev', exitCode: 1, attempt: 1 });
+        expect(processInfo('dev')?.status).toBe('exited');
+    });
+
+    it('reports the new port when the dev server restarts on another one', async () => {
+        provider = createProvider([], 'echo "dev on $PORT"; sleep 0.3; exit 1');
+        const ports: number[] = [];
+        provider.onDevServerPortChange((port) => ports.push(port));
+
+        await provider.createSession({ args: { id: 'session' } });
+        const firstPort = processInfo('dev')!.port!;
+        // Taken while the dev server is down, so the restart has to move
+        const blocker = net.createServer().listen(firstPort, '127.0.0.1');
+        try {
+            await waitFor(() => ports.length === 1);
+        } finally {
+            blocker.close();
+        }
+        expect(ports[0]).not.toBe(firstPort);
+        expect(processInfo('dev')?.port).toBe(ports[0]!);
+    });
+
+    it('does not restart when dependencies are missing', async () => {
+        await fs.writeFile(path.join(projectPath, 'package.json'), '{}');
+        provider = createProvider([], 'echo "sh: 1: next: not found"; exit 127');
+        const crashes: LocalProcessCrash[] = [];
+        provider.onProcessCrash((crash) => crashes.push(crash));
+
+        await provider.createSession({ args: { id: 'session' } });
+        await waitFor(() => crashes.length === 1);
+        await new Promise((resolve) => setTimeout(resolve, 200));
+
+        expect(crashes).toHaveLength(1);
+        expect(crashes[0]).toMatchObject({
+            kind: 'missing-dependencies',
+            recoverable: false,
+            restartInMs: null,
+            attempt: 0,
+        });
+    });
+
+    it('applies a changed process list to the running sandbox', async () => {
+        const sandboxId = `processes-${randomUUID()}`;
+        const create = (processes: ProcessCommand[]) =>
+            new LocalProvider({
+                sandboxId,
+                projectPath,
+                preferredPort: 4100,
+                command: { bin: 'sh', args: ['-c', 'echo "dev on $PORT"; sleep 30'] },
+                processes,
+            });
+        provider = create([
+            { name: 'api', command: 'echo "api on $PORT"; sleep 30' },
+            { name: 'worker', command: 'echo worker-ready; sleep 30' },
+        ]);
+        await provider.createSession({ args: { id: 'session' } });
+        const devPort = processInfo('dev')?.port;
+
+        provider = create([
+            { name: 'worker', command: 'echo worker-ready; sleep 30' },
+            { name: 'queue', command: 'echo queue-ready; sleep 30' },
+        ]);
+        expect(provider.capabilities.tasks).toEqual(['dev', 'worker', 'queue']);
+        expect(processInfo('api')).toBeUndefined();
+
+        await provider.createSession({ args: { id: 'session' } });
+        await waitFor(() => processInfo('queue')?.status === 'running');
+        expect(processInfo('dev')).toMatchObject({ status: 'running', port: devPort, restarts: 0 });
+    });
+
+    it('rejects duplicate process names', () => {
+        expect(() => createProvider([{ name: 'dev', command: 'sleep 1' }])).toThrow(
+            'Duplicate process name: dev',
+        );
+        provider = createProvider([]);
+    });
+});
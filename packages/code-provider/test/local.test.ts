@@ -0,0 +1,21 @@
+import { randomUUID } from 'crypto';
+import { LocalProvider } from '../src/providers/local';
+import { runProviderConformanceSuite } from './conformance';
+
+runProviderConformanceSuite({
+    name: 'Local',
+    createProvider: (rootPath) =>
+        new LocalProvider({
+            // runtimes are cached per sandbox id, so every provider needs a fresh one
+            sandboxId: `conformance-${randomUUID()}`,
+            projectPath: rootPath,
+            command: {
+                bin: 'sh',
+                args: ['-c', 'echo dev-task-started; sleep 30'],
+            },
+        }),
+    dispose: async (provider) => {
+        await provider.stopProject({});
+        await provider.destroy();
+    },
+});
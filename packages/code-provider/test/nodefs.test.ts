@@ -0,0 +1,13 @@
+import { NodeFsProvider } from '../src/providers/nodefs';
+import { runProviderConformanceSuite } from './conformance';
+
+runProviderConformanceSuite({
+    name: 'NodeFs',
+    createProvider: (rootPath) =>
+        new NodeFsProvider({
+            rootPath,
+            tasks: {
+                dev: 'echo dev-task-started; sleep 30',
+            },
+        }),
+});
@@ -10,6 +10,7 @@ export enum EditorAttributes {
     ONLOOK_TOOLBAR = 'onlook-toolbar',
     ONLOOK_RECT_ID = 'onlook-rect',
     ONLOOK_STYLESHEET_ID = 'onlook-stylesheet',
+    ONLOOK_FORCED_STATE_STYLESHEET_ID = 'onlook-forced-state-stylesheet',
     ONLOOK_STUB_ID = 'onlook-drag-stub',
     ONLOOK_MOVE_KEY_PREFIX = 'olk-',
     OVERLAY_CONTAINER_ID = 'overlay-container',
@@ -33,6 +34,7 @@ export enum EditorAttributes {
     DATA_ONLOOK_EDITING_TEXT = 'data-onlook-editing-text',
     DATA_ONLOOK_DYNAMIC_TYPE = 'data-onlook-dynamic-type',
     DATA_ONLOOK_CORE_ELEMENT_TYPE = 'data-onlook-core-element-type',
+    DATA_ONLOOK_FORCED_STATE = 'data-onlook-forced-state',
 }
 
 export const DefaultSettings = {
@@ -7,5 +7,6 @@ export const createDefaultProjectSettings = (projectId: string): DbProjectSettin
         buildCommand: DefaultSettings.COMMANDS.build,
         runCommand: DefaultSettings.COMMANDS.run,
         installCommand: DefaultSettings.COMMANDS.install,
+        processes: [],
     };
 };
@@ -0,0 +1,133 @@
+import { promises as fs, constants as fsConstants } from 'fs';
+import path from 'path';
+
+const PERMISSIONS_DOC_PATH = 'docs/macos-permissions.md';
+
+export type AccessIntent = 'read' | 'write';
+export type AccessKind = 'directory' | 'file';
+
+export function getErrorCode(error: unknown): string | undefined {
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+
+  const maybeErrno = error as Partial<NodeJS.ErrnoException>;
+  return typeof maybeErrno.code === 'string' ? maybeErrno.code : undefined;
+}
+
+export function isPermissionError(error: unknown): boolean {
+  const code = getErrorCode(error);
+  return code === 'EACCES' || code === 'EPERM';
+}
+
+export function permissionDocLink(anchor?: string): string {
+  if (!anchor) {
+    return PERMISSIONS_DOC_PATH;
+  }
+
+  return `${PERMISSIONS_DOC_PATH}#${anchor}`;
+}
+
+export function formatPermissionMessage(targetPath: string, intent: AccessIntent): string {
+  const action = intent === 'write' ? 'write to' : 'read from';
+  return [
+    `Onlook cannot ${action} "${targetPath}" due to macOS permissions.`,
+    'Grant Full Disk Access to your terminal (or the Onlook app) under',
+    'System Settings → Privacy & Security → Full Disk Access, then retry.',
+    `See ${permissionDocLink('full-disk-access')} for a walkthrough.`,
+  ].join(' ');
+}
+
+function formatMissingPathMessage(targetPath: string, kind: AccessKind): string {
+  return [
+    `The configured ${kind} "${targetPath}" does not exist.`,
+    'Create it (use mkdir -p for directories) or update ONLOOK_PROJECTS_DIR',
+    `to point to a valid location. See ${permissionDocLink(
+      'projects-root-layout'
+    )} for the expected tree.`,
+  ].join(' ');
+}
+
+function formatNotDirectoryMessage(targetPath: string): string {
+  return [
+    `Expected a directory at "${targetPath}" but found a file.`,
+    'Move or remove the file, recreate the folder, and rerun the command.',
+    `See ${permissionDocLink('projects-root-layout')} for details.`,
+  ].join(' ');
+}
+
+function formatGenericAccessMessage(targetPath: string, error: unknown): string {
+  const reason = error instanceof Error ? error.message : String(error);
+  return [
+    `Unable to access "${targetPath}": ${reason}.`,
+    `See ${permissionDocLink()} for troubleshooting steps.`,
+  ].join(' ');
+}
+
+/** Wraps a filesystem error in a message that tells the user how to fix it. */
+export function toAccessError(targetPath: string, intent: AccessIntent, error: unknown): Error {
+  if (isPermissionError(error)) {
+    return new Error(formatPermissionMessage(targetPath, intent));
+  }
+  return new Error(formatGenericAccessMessage(targetPath, error));
+}
+
+export async function ensureAccess(
+  targetPath: string,
+  options: {
+    intent?: AccessIntent;
+    createIfMissing?: boolean;
+    kind?: AccessKind;
+  } = {}
+): Promise<void> {
+  const { intent = 'read', createIfMissing = false, kind = 'directory' } = options;
+  const resolvedPath = path.resolve(targetPath);
+  const mode = intent === 'write' ? fsConstants.W_OK | fsConstants.R_OK : fsConstants.R_OK;
+
+  try {
+    await fs.access(resolvedPath, mode);
+  } catch (error) {
+    if (getErrorCode(error) === 'ENOENT') {
+      if (createIfMissing && kind === 'directory') {
+        try {
+          await fs.mkdir(resolvedPath, { recursive: true });
+          await fs.access(resolvedPath, mode);
+        } catch (creationError) {
+          throw toAccessError(resolvedPath, intent, creationError);
+        }
+
+        return;
+      }
+
+      throw new Error(formatMissingPathMessage(resolvedPath, kind));
+    }
+
+    throw toAccessError(resolvedPath, intent, error);
+  }
+
+  if (kind === 'directory') {
+    let isDirectory: boolean;
+    try {
+      isDirectory = (await fs.stat(resolvedPath)).isDirectory();
+    } catch (error) {
+      if (getErrorCode(error) === 'ENOENT') {
+        throw new Error(formatMissingPathMessage(resolvedPath, kind));
+      }
+
+      throw toAccessError(resolvedPath, intent, error);
+    }
+
+    if (!isDirectory) {
+      throw new Error(formatNotDirectoryMessage(resolvedPath));
+    }
+  }
+}
+
+export async function pathExists(targetPath: string): Promise<boolean> {
+  try {
+    await fs.access(targetPath);
+    return true;
+  } catch {
+    return false;
+  }
+}
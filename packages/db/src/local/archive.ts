@@ -0,0 +1,486 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { gunzipSync, gzipSync } from 'zlib';
+import { z } from 'zod';
+import type { LocalProjectSnapshot, LocalStorageBackend } from './backend';
+import { runMigrations, type VersionedFileDefinition } from './migrations';
+import { branchFile, canvasFile, conversationFile, projectFile } from './schemas';
+import { createTar, readTar } from './tar';
+import type { LocalProject } from './types';
+import { generateId, nowIso } from './utils';
+
+export const PROJECT_ARCHIVE_FORMAT = 'onlook-project';
+export const PROJECT_ARCHIVE_VERSION = 1;
+export const PROJECT_ARCHIVE_EXTENSION = '.onlook.tar.gz';
+
+const MANIFEST_PATH = 'manifest.json';
+const PROJECT_PATH = 'project.json';
+const BRANCHES_PATH = 'branches.json';
+const CANVASES_PATH = 'canvases.json';
+const CONVERSATIONS_DIR = 'conversations/';
+const FILES_DIR = 'files/';
+const ASSETS_DIR = 'assets/';
+const SANDBOXES_DIR = 'sandboxes/';
+/** Generated when the project installs and builds, so they are left out of sandbox trees */
+const SKIPPED_SANDBOX_DIRS = new Set(['node_modules', '.next']);
+
+const manifestSchema = z.object({
+  format: z.literal(PROJECT_ARCHIVE_FORMAT),
+  formatVersion: z.number().int(),
+  exportedAt: z.string(),
+  project: z.object({ id: z.string(), name: z.string() }),
+  includesChatHistory: z.boolean(),
+  entries: z.array(
+    z.object({
+      path: z.string(),
+      size: z.number().int().nonnegative(),
+      sha256: z.string(),
+    })
+  ),
+});
+
+export type LocalProjectArchiveManifest = z.infer<typeof manifestSchema>;
+
+export interface LocalProjectExportOptions {
+  /** Conversations and their messages are left out unless requested */
+  includeChatHistory?: boolean;
+  /** Directory of a sandbox's source tree, bundled for each sandbox of the project that has one */
+  getSandboxPath?: (sandboxId: string) => string;
+}
+
+export interface LocalProjectImportSandbox {
+  id: string;
+  url: string;
+  /** Directory the archived source tree is written to */
+  path: string;
+}
+
+export interface LocalProjectImportOptions {
+  /**
+   * Creates the sandbox an archived source tree is restored into. Without it, and for sandboxes
+   * whose tree is not in the archive, the project and its branches are left without a sandbox
+   * since the archived ones belong to the machine that exported it.
+   */
+  createSandbox?: () => LocalProjectImportSandbox;
+}
+
+export interface LocalProjectImportResult {
+  project: LocalProject;
+  manifest: LocalProjectArchiveManifest;
+  /** Ids from the archive mapped to the ids they were stored under */
+  idMap: {
+    project: Record<string, string>;
+    branches: Record<string, string>;
+    canvases: Record<string, string>;
+    frames: Record<string, string>;
+    conversations: Record<string, string>;
+    sandboxes: Record<string, string>;
+  };
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const sha256 = (content: Uint8Array) => createHash('sha256').update(content).digest('hex');
+
+const encodeJson = (value: unknown) => encoder.encode(JSON.stringify(value, null, 2));
+
+const versioned = <T>(definition: VersionedFileDefinition<T>, value: T) => ({
+  ...(definition.schema.parse(value) as Record<string, unknown>),
+  version: definition.version,
+});
+
+/** Rejects absolute paths and `..` segments so an archive cannot write outside its project */
+function isSafeEntryPath(entryPath: string): boolean {
+  if (!entryPath || entryPath.startsWith('/') || /^[a-zA-Z]:/.test(entryPath)) {
+    return false;
+  }
+  return entryPath.split(/[\\/]/).every((segment) => segment !== '..' && segment !== '');
+}
+
+const toPosix = (filePath: string) => filePath.split('\\').join('/');
+
+/** Files of a sandbox's source tree, relative to its root; empty when it has no directory */
+async function readSandboxTree(
+  root: string,
+  relativeDir = ''
+): Promise<{ path: string; content: Uint8Array }[]> {
+  let dirents;
+  try {
+    dirents = await fs.readdir(path.join(root, relativeDir), { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const files: { path: string; content: Uint8Array }[] = [];
+  for (const dirent of dirents) {
+    const relativePath = path.join(relativeDir, dirent.name);
+    if (dirent.isDirectory()) {
+      if (!SKIPPED_SANDBOX_DIRS.has(dirent.name)) {
+        files.push(...(await readSandboxTree(root, relativePath)));
+      }
+    } else if (dirent.isFile()) {
+      const content = await fs.readFile(path.join(root, relativePath));
+      files.push({ path: toPosix(relativePath), content: new Uint8Array(content) });
+    }
+  }
+  return files;
+}
+
+/** MCP server environments and headers hold credentials, which stay on this machine */
+function withoutSecrets(project: LocalProject): LocalProject {
+  return {
+    ...project,
+    mcpServers: project.mcpServers?.map((server) =>
+      server.transport === 'stdio'
+        ? { ...server, env: undefined }
+        : { ...server, headers: undefined }
+    ),
+  };
+}
+
+/**
+ * An archive may come from anyone, so nothing in it runs or is allowed before the user opts in
+ * again: MCP servers are disabled, tool permission rules reset and companion processes dropped.
+ */
+function withoutGrants(project: LocalProject): LocalProject {
+  return {
+    ...project,
+    mcpServers: project.mcpServers?.map((server) => ({ ...server, enabled: false })),
+    toolPermissions: undefined,
+    commands: project.commands && { ...project.commands, processes: undefined },
+  };
+}
+
+const getSandboxIds = (snapshot: Pick<LocalProjectSnapshot, 'project' | 'branches'>) => [
+  ...new Set(
+    [snapshot.project.sandboxId, ...snapshot.branches.map((branch) => branch.sandboxId)].filter(
+      (sandboxId): sandboxId is string => !!sandboxId
+    )
+  ),
+];
+
+/**
+ * Bundles a project's source files, the source trees of its sandboxes, Onlook metadata, assets
+ * and optionally its chat history into a gzipped tar with a manifest listing the sha256 of
+ * every entry.
+ */
+export async function exportProjectArchive(
+  storage: LocalStorageBackend,
+  projectId: string,
+  options: LocalProjectExportOptions = {}
+): Promise<Uint8Array | null> {
+  const snapshot = await storage.exportProjectSnapshot(projectId);
+  if (!snapshot) {
+    return null;
+  }
+
+  const includeChatHistory = options.includeChatHistory ?? false;
+  const sandboxEntries: { path: string; content: Uint8Array }[] = [];
+  if (options.getSandboxPath) {
+    for (const sandboxId of getSandboxIds(snapshot)) {
+      for (const file of await readSandboxTree(options.getSandboxPath(sandboxId))) {
+        sandboxEntries.push({
+          path: `${SANDBOXES_DIR}${sandboxId}/${file.path}`,
+          content: file.content,
+        });
+      }
+    }
+  }
+
+  const entries = [
+    {
+      path: PROJECT_PATH,
+      content: encodeJson(versioned(projectFile, withoutSecrets(snapshot.project))),
+    },
+    {
+      path: BRANCHES_PATH,
+      content: encodeJson(snapshot.branches.map((branch) => versioned(branchFile, branch))),
+    },
+    {
+      path: CANVASES_PATH,
+      content: encodeJson(snapshot.canvases.map((canvas) => versioned(canvasFile, canvas))),
+    },
+    ...(includeChatHistory
+      ? snapshot.conversations.map((conversation) => ({
+          path: `${CONVERSATIONS_DIR}${conversation.id}.json`,
+          content: encodeJson(versioned(conversationFile, conversation)),
+        }))
+      : []),
+    ...snapshot.files.map((file) => ({
+      path: `${FILES_DIR}${toPosix(file.path)}`,
+      content: encoder.encode(file.content),
+    })),
+    ...snapshot.assets.map((asset) => ({
+      path: `${ASSETS_DIR}${toPosix(asset.path)}`,
+      content: asset.content,
+    })),
+    ...sandboxEntries,
+  ];
+
+  const exportedAt = new Date();
+  const manifest: LocalProjectArchiveManifest = {
+    format: PROJECT_ARCHIVE_FORMAT,
+    formatVersion: PROJECT_ARCHIVE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    project: { id: snapshot.project.id, name: snapshot.project.name },
+    includesChatHistory: includeChatHistory,
+    entries: entries.map((entry) => ({
+      path: entry.path,
+      size: entry.content.length,
+      sha256: sha256(entry.content),
+    })),
+  };
+
+  const tar = createTar(
+    [{ path: MANIFEST_PATH, content: encodeJson(manifest) }, ...entries],
+    exportedAt
+  );
+  return new Uint8Array(gzipSync(tar));
+}
+
+/** Unpacks an archive and checks every entry listed in its manifest against its checksum */
+export function readProjectArchive(archive: Uint8Array): {
+  manifest: LocalProjectArchiveManifest;
+  entries: Map<string, Uint8Array>;
+} {
+  let tar: Uint8Array;
+  try {
+    tar = new Uint8Array(gunzipSync(archive));
+  } catch {
+    throw new Error('Not an Onlook project archive: expected a gzipped tar file');
+  }
+
+  const contents = new Map(readTar(tar).map((entry) => [entry.path, entry.content]));
+  const rawManifest = contents.get(MANIFEST_PATH);
+  if (!rawManifest) {
+    throw new Error('Not an Onlook project archive: manifest.json is missing');
+  }
+
+  const parsed = manifestSchema.safeParse(JSON.parse(decoder.decode(rawManifest)));
+  if (!parsed.success) {
+    throw new Error(`Invalid project archive manifest: ${parsed.error.message}`);
+  }
+  const manifest = parsed.data;
+  if (manifest.formatVersion > PROJECT_ARCHIVE_VERSION) {
+    throw new Error(
+      `The project archive was written by a newer version of Onlook (format ${manifest.formatVersion}, supported ${PROJECT_ARCHIVE_VERSION})`
+    );
+  }
+
+  const entries = new Map<string, Uint8Array>();
+  for (const entry of manifest.entries) {
+    if (!isSafeEntryPath(entry.path)) {
+      throw new Error(`Invalid path in project archive: ${entry.path}`);
+    }
+
+    const content = contents.get(entry.path);
+    if (!content) {
+      throw new Error(`Project archive is missing ${entry.path}`);
+    }
+    if (content.length !== entry.size || sha256(content) !== entry.sha256) {
+      throw new Error(`Checksum mismatch for ${entry.path} in project archive`);
+    }
+    entries.set(entry.path, content);
+  }
+
+  return { manifest, entries };
+}
+
+function parseEntry<T>(
+  definition: VersionedFileDefinition<T>,
+  content: Uint8Array | undefined,
+  entryPath: string
+): T {
+  if (!content) {
+    throw new Error(`Project archive is missing ${entryPath}`);
+  }
+  return runMigrations(definition, JSON.parse(decoder.decode(content)), { id: entryPath }).value;
+}
+
+function parseEntryList<T>(
+  definition: VersionedFileDefinition<T>,
+  content: Uint8Array | undefined,
+  entryPath: string
+): T[] {
+  if (!content) {
+    return [];
+  }
+
+  const raw: unknown = JSON.parse(decoder.decode(content));
+  if (!Array.isArray(raw)) {
+    throw new Error(`Invalid ${entryPath} in project archive: expected a JSON array`);
+  }
+  return raw.map(
+    (item, index) => runMigrations(definition, item, { id: `${entryPath}[${index}]` }).value
+  );
+}
+
+const remap = (ids: Record<string, string>, id: string) => ids[id] ?? id;
+
+/** Points FILE and HIGHLIGHT message context at the imported branches */
+function remapContext(context: unknown[], branchIds: Record<string, string>): unknown[] {
+  return context.map((item) => {
+    if (!item || typeof item !== 'object' || !('branchId' in item)) {
+      return item;
+    }
+    const { branchId } = item as { branchId: unknown };
+    return typeof branchId === 'string' ? { ...item, branchId: remap(branchIds, branchId) } : item;
+  });
+}
+
+/** Points a preview URL served by an archived sandbox at the sandbox it was restored into */
+function remapUrl(url: string, sandboxUrls: Map<string, string>): string {
+  for (const [archivedUrl, sandboxUrl] of sandboxUrls) {
+    if (url.startsWith(archivedUrl)) {
+      return `${sandboxUrl}${url.slice(archivedUrl.length)}`;
+    }
+  }
+  return url;
+}
+
+/**
+ * Imports an archive written by {@link exportProjectArchive}. The project keeps its id unless
+ * another project already uses it; branches, canvases, frames, conversations and sandboxes
+ * always get new ids so they never clash with lookups across projects.
+ */
+export async function importProjectArchive(
+  storage: LocalStorageBackend,
+  archive: Uint8Array,
+  options: LocalProjectImportOptions = {}
+): Promise<LocalProjectImportResult> {
+  const { manifest, entries } = readProjectArchive(archive);
+
+  const archived = parseEntry(projectFile, entries.get(PROJECT_PATH), PROJECT_PATH);
+  const projectId = (await storage.getProject(archived.id)) ? generateId() : archived.id;
+  const now = nowIso();
+
+  const idMap: LocalProjectImportResult['idMap'] = {
+    project: { [archived.id]: projectId },
+    branches: {},
+    canvases: {},
+    frames: {},
+    conversations: {},
+    sandboxes: {},
+  };
+
+  const sandboxTrees = new Map<string, { path: string; content: Uint8Array }[]>();
+  for (const [entryPath, content] of entries) {
+    if (!entryPath.startsWith(SANDBOXES_DIR)) {
+      continue;
+    }
+    const [sandboxId, ...segments] = entryPath.slice(SANDBOXES_DIR.length).split('/');
+    const tree = sandboxTrees.get(sandboxId!) ?? [];
+    tree.push({ path: segments.join('/'), content });
+    sandboxTrees.set(sandboxId!, tree);
+  }
+
+  const sandboxes = new Map<string, LocalProjectImportSandbox>();
+  const sandboxUrls = new Map<string, string>();
+  const restoreSandbox = <T extends { sandboxId?: string | null; sandboxUrl?: string | null }>(
+    owner: T
+  ): T => {
+    const sandbox = owner.sandboxId ? sandboxes.get(owner.sandboxId) : undefined;
+    if (sandbox && owner.sandboxUrl) {
+      sandboxUrls.set(owner.sandboxUrl, sandbox.url);
+    }
+    return { ...owner, sandboxId: sandbox?.id ?? null, sandboxUrl: sandbox?.url ?? null };
+  };
+
+  const archivedBranches = parseEntryList(branchFile, entries.get(BRANCHES_PATH), BRANCHES_PATH);
+  if (options.createSandbox) {
+    for (const sandboxId of getSandboxIds({ project: archived, branches: archivedBranches })) {
+      if (sandboxTrees.has(sandboxId)) {
+        const sandbox = options.createSandbox();
+        idMap.sandboxes[sandboxId] = sandbox.id;
+        sandboxes.set(sandboxId, sandbox);
+      }
+    }
+  }
+
+  const branches = archivedBranches.map((branch) => {
+    const id = generateId();
+    idMap.branches[branch.id] = id;
+    return { ...restoreSandbox(branch), id, projectId };
+  });
+  const project = { ...restoreSandbox(withoutGrants(archived)), id: projectId, updatedAt: now };
+
+  const canvases = parseEntryList(canvasFile, entries.get(CANVASES_PATH), CANVASES_PATH).map(
+    (canvas) => {
+      const id = generateId();
+      idMap.canvases[canvas.id] = id;
+      return {
+        ...canvas,
+        id,
+        projectId,
+        frames: canvas.frames.map((frame) => {
+          const frameId = generateId();
+          idMap.frames[frame.id] = frameId;
+          return {
+            ...frame,
+            id: frameId,
+            projectId,
+            canvasId: id,
+            branchId: remap(idMap.branches, frame.branchId),
+            url: remapUrl(frame.url, sandboxUrls),
+          };
+        }),
+      };
+    }
+  );
+
+  const snapshot: LocalProjectSnapshot = {
+    project,
+    branches,
+    canvases,
+    conversations: [],
+    files: [],
+    assets: [],
+  };
+
+  for (const [entryPath, content] of entries) {
+    if (entryPath.startsWith(CONVERSATIONS_DIR)) {
+      const conversation = parseEntry(conversationFile, content, entryPath);
+      const id = generateId();
+      idMap.conversations[conversation.id] = id;
+      snapshot.conversations.push({
+        ...conversation,
+        id,
+        projectId,
+        messages: conversation.messages.map((message) => ({
+          ...message,
+          conversationId: id,
+          context: remapContext(message.context, idMap.branches),
+        })),
+      });
+    } else if (entryPath.startsWith(FILES_DIR)) {
+      snapshot.files.push({
+        path: entryPath.slice(FILES_DIR.length),
+        content: decoder.decode(content),
+      });
+    } else if (entryPath.startsWith(ASSETS_DIR)) {
+      snapshot.assets.push({ path: entryPath.slice(ASSETS_DIR.length), content });
+    }
+  }
+
+  try {
+    for (const [sandboxId, sandbox] of sandboxes) {
+      for (const file of sandboxTrees.get(sandboxId) ?? []) {
+        const filePath = path.join(sandbox.path, file.path);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, file.content);
+      }
+    }
+    return { project: await storage.importProjectSnapshot(snapshot), manifest, idMap };
+  } catch (error) {
+    // Nothing points at the restored trees without the project
+    for (const sandbox of sandboxes.values()) {
+      await fs.rm(sandbox.path, { recursive: true, force: true });
+    }
+    throw error;
+  }
+}
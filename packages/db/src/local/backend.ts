@@ -0,0 +1,165 @@
+import type {
+  LocalProjectExportOptions,
+  LocalProjectImportOptions,
+  LocalProjectImportResult,
+} from './archive';
+import type { LocalToolAuditQuery, NewLocalToolAuditEntry } from './repositories/audit';
+import type { LocalBranchUpdate, NewLocalBranch } from './repositories/branch';
+import type { NewLocalCanvas } from './repositories/canvas';
+import type {
+  LocalConversationMessageUpdate,
+  LocalConversationUpdate,
+  NewLocalConversation,
+} from './repositories/conversation';
+import type { LocalFrameFilters, LocalFrameUpdate, NewLocalFrame } from './repositories/frame';
+import type { LocalProjectUpdate, NewLocalProject } from './repositories/project';
+import type { LocalSearchQuery, LocalSearchResult } from './search';
+import type {
+  LocalBranch,
+  LocalBrandUpdate,
+  LocalCanvas,
+  LocalCanvasState,
+  LocalConversation,
+  LocalConversationFile,
+  LocalConversationMessage,
+  LocalConversationMessageRole,
+  LocalFrame,
+  LocalProject,
+  LocalToolAuditEntry,
+} from './types';
+
+export type LocalStorageBackendKind = 'json' | 'sqlite';
+
+export interface LocalMessageQuery {
+  /** Maximum number of messages to return, oldest first */
+  limit?: number;
+  /** Number of matching messages to skip */
+  offset?: number;
+  role?: LocalConversationMessageRole;
+}
+
+/** Everything stored for one project, with ids preserved, for moving it between backends */
+export interface LocalProjectSnapshot {
+  project: LocalProject;
+  branches: LocalBranch[];
+  canvases: LocalCanvas[];
+  conversations: LocalConversationFile[];
+  files: { path: string; content: string }[];
+  assets: { path: string; content: Uint8Array }[];
+}
+
+/** The storage API the local tRPC routers use, implemented by the JSON and SQLite backends */
+export interface LocalStorageBackend {
+  readonly kind: LocalStorageBackendKind;
+
+  createProject(project: NewLocalProject): Promise<LocalProject>;
+  getProject(projectId: string): Promise<LocalProject | null>;
+  updateProject(projectId: string, updates: LocalProjectUpdate): Promise<LocalProject | null>;
+  updateBrand(projectId: string, updates: LocalBrandUpdate): Promise<LocalProject | null>;
+  deleteProject(projectId: string): Promise<boolean>;
+  listProjects(): Promise<LocalProject[]>;
+
+  createBranch(projectId: string, branch: NewLocalBranch): Promise<LocalBranch>;
+  listBranches(projectId: string): Promise<LocalBranch[]>;
+  updateBranch(
+    projectId: string,
+    branchId: string,
+    updates: LocalBranchUpdate
+  ): Promise<LocalBranch | null>;
+  deleteBranch(projectId: string, branchId: string): Promise<boolean>;
+
+  createCanvas(canvas: NewLocalCanvas): Promise<LocalCanvas>;
+  getCanvas(projectId: string, canvasId: string): Promise<LocalCanvas | null>;
+  listCanvases(projectId: string): Promise<LocalCanvas[]>;
+  updateCanvasState(
+    projectId: string,
+    canvasId: string,
+    state: Partial<LocalCanvasState>
+  ): Promise<LocalCanvas | null>;
+  findCanvasById(canvasId: string): Promise<{ canvas: LocalCanvas; projectId: string } | null>;
+
+  createFrame(frame: NewLocalFrame): Promise<LocalFrame>;
+  listFrames(projectId: string, filters?: LocalFrameFilters): Promise<LocalFrame[]>;
+  updateFrame(
+    projectId: string,
+    frameId: string,
+    updates: LocalFrameUpdate
+  ): Promise<LocalFrame | null>;
+  deleteFrame(projectId: string, frameId: string): Promise<boolean>;
+  findFrame(
+    frameId: string
+  ): Promise<{ frame: LocalFrame; canvas: LocalCanvas; projectId: string } | null>;
+
+  createConversation(conversation: NewLocalConversation): Promise<LocalConversation>;
+  getConversation(projectId: string, conversationId: string): Promise<LocalConversation | null>;
+  listConversations(projectId: string): Promise<LocalConversation[]>;
+  updateConversation(
+    projectId: string,
+    conversationId: string,
+    updates: LocalConversationUpdate
+  ): Promise<LocalConversation | null>;
+  deleteConversation(projectId: string, conversationId: string): Promise<boolean>;
+  listConversationMessages(
+    projectId: string,
+    conversationId: string
+  ): Promise<LocalConversationMessage[]>;
+  queryConversationMessages(
+    projectId: string,
+    conversationId: string,
+    query?: LocalMessageQuery
+  ): Promise<LocalConversationMessage[]>;
+  countConversationMessages(projectId: string, conversationId: string): Promise<number>;
+  replaceConversationMessages(
+    projectId: string,
+    conversationId: string,
+    messages: LocalConversationMessage[]
+  ): Promise<void>;
+  updateConversationMessage(
+    projectId: string,
+    conversationId: string,
+    messageId: string,
+    updates: LocalConversationMessageUpdate
+  ): Promise<void>;
+  /** Full-text search over conversation titles, message text and tool calls */
+  searchConversations(query: LocalSearchQuery): Promise<LocalSearchResult>;
+
+  saveFile(projectId: string, filePath: string, content: string): Promise<void>;
+  readFile(projectId: string, filePath: string): Promise<string | null>;
+  listFiles(projectId: string, dirPath?: string): Promise<string[]>;
+  listAssets(projectId: string, dirPath?: string): Promise<string[]>;
+  saveAsset(projectId: string, assetPath: string, content: string | Uint8Array): Promise<void>;
+
+  /** Records a tool permission decision in the project's append-only audit log */
+  appendToolAuditEntry(
+    projectId: string,
+    entry: NewLocalToolAuditEntry
+  ): Promise<LocalToolAuditEntry>;
+  listToolAuditEntries(
+    projectId: string,
+    query?: LocalToolAuditQuery
+  ): Promise<LocalToolAuditEntry[]>;
+
+  exportProjectSnapshot(projectId: string): Promise<LocalProjectSnapshot | null>;
+  /** Writes a snapshot as-is, replacing any project with the same id */
+  importProjectSnapshot(snapshot: LocalProjectSnapshot): Promise<LocalProject>;
+
+  /** Bundles a project into a portable `.onlook.tar.gz` archive */
+  exportProject(projectId: string, options?: LocalProjectExportOptions): Promise<Uint8Array | null>;
+  /** Imports an archive as a new project, remapping ids that would collide */
+  importProject(
+    archive: Uint8Array,
+    options?: LocalProjectImportOptions
+  ): Promise<LocalProjectImportResult>;
+}
+
+/** Applies a message query to messages that are already in memory */
+export function applyMessageQuery(
+  messages: LocalConversationMessage[],
+  query: LocalMessageQuery = {}
+): LocalConversationMessage[] {
+  const matching = query.role
+    ? messages.filter((message) => message.role === query.role)
+    : messages;
+  const start = query.offset ?? 0;
+  return matching.slice(start, query.limit === undefined ? undefined : start + query.limit);
+}
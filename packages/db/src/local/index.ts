@@ -0,0 +1,17 @@
+export * from './archive';
+export * from './backend';
+export * from './migrations';
+export * from './repositories/asset';
+export * from './repositories/audit';
+export * from './repositories/branch';
+export * from './repositories/brand';
+export * from './repositories/canvas';
+export * from './repositories/conversation';
+export * from './repositories/file';
+export * from './repositories/frame';
+export * from './repositories/project';
+export * from './schemas';
+export * from './search';
+export * from './sqlite/storage';
+export * from './transfer';
+export * from './types';
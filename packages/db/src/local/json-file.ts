@@ -0,0 +1,204 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ensureAccess, getErrorCode, toAccessError } from './access';
+import { runMigrations, type MigrationContext, type VersionedFileDefinition } from './migrations';
+
+const TEMP_SUFFIX = '.tmp';
+
+/** Writes in flight per target path; writes to the same file are applied in order. */
+const pendingWrites = new Map<string, Promise<void>>();
+
+function toTempPath(targetPath: string): string {
+  return `${targetPath}${TEMP_SUFFIX}`;
+}
+
+async function writeThroughTempFile(
+  targetPath: string,
+  content: string | Uint8Array
+): Promise<void> {
+  await ensureAccess(path.dirname(targetPath), {
+    intent: 'write',
+    createIfMissing: true,
+    kind: 'directory',
+  });
+
+  const tempPath = toTempPath(targetPath);
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, targetPath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true }).catch(() => undefined);
+    throw toAccessError(targetPath, 'write', error);
+  }
+}
+
+/**
+ * Writes the full content to a temp file, flushes it to disk and renames it over the target,
+ * so a crash leaves either the old or the new content but never a torn file.
+ */
+export async function writeFileAtomic(
+  targetPath: string,
+  content: string | Uint8Array
+): Promise<void> {
+  const previous = pendingWrites.get(targetPath) ?? Promise.resolve();
+  const write = previous
+    .catch(() => undefined)
+    .then(() => writeThroughTempFile(targetPath, content));
+  pendingWrites.set(targetPath, write);
+  try {
+    await write;
+  } finally {
+    if (pendingWrites.get(targetPath) === write) {
+      pendingWrites.delete(targetPath);
+    }
+  }
+}
+
+async function readIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if (getErrorCode(error) === 'ENOENT') {
+      return null;
+    }
+    throw toAccessError(filePath, 'read', error);
+  }
+}
+
+function parseJson(content: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(content) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+/**
+ * Reads a JSON file, recovering from interrupted writes: a complete temp file left behind by a
+ * crash before its rename is promoted, and an unreadable file is moved aside instead of being
+ * silently overwritten later.
+ */
+export async function readJsonFile(filePath: string): Promise<unknown | null> {
+  const content = await readIfExists(filePath);
+  const parsed = content !== null ? parseJson(content) : null;
+  const writing = pendingWrites.has(filePath);
+
+  if (parsed?.ok) {
+    if (!writing) {
+      await fs.rm(toTempPath(filePath), { force: true }).catch(() => undefined);
+    }
+    return parsed.value;
+  }
+
+  const tempContent = writing ? null : await readIfExists(toTempPath(filePath));
+  const recovered = tempContent !== null ? parseJson(tempContent) : null;
+  if (recovered?.ok) {
+    console.warn('[onlook-local-storage] Recovered interrupted write for', filePath);
+    await fs.rename(toTempPath(filePath), filePath);
+    return recovered.value;
+  }
+
+  if (content !== null) {
+    const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+    console.warn(
+      '[onlook-local-storage] Moving unreadable file aside',
+      filePath,
+      '->',
+      corruptPath
+    );
+    await fs.rename(filePath, corruptPath).catch(() => undefined);
+  }
+  return null;
+}
+
+/**
+ * Reads a versioned file, migrating it to the current version and persisting the upgrade.
+ * Files that fail validation or come from a newer version are left untouched and read as missing.
+ */
+export async function readVersionedFile<T>(
+  filePath: string,
+  definition: VersionedFileDefinition<T>,
+  context: MigrationContext
+): Promise<T | null> {
+  const raw = await readJsonFile(filePath);
+  if (raw === null) {
+    return null;
+  }
+
+  let result: { value: T; migrated: boolean };
+  try {
+    result = runMigrations(definition, raw, context);
+  } catch (error) {
+    console.warn(
+      `[onlook-local-storage] Ignoring invalid ${definition.kind} file`,
+      filePath,
+      error
+    );
+    return null;
+  }
+
+  const { value, migrated } = result;
+  if (migrated) {
+    await writeVersionedFile(filePath, definition, value);
+  }
+  return value;
+}
+
+export async function writeVersionedFile<T>(
+  filePath: string,
+  definition: VersionedFileDefinition<T>,
+  value: T
+): Promise<void> {
+  const data = definition.schema.parse(value) as Record<string, unknown>;
+  await writeFileAtomic(
+    filePath,
+    JSON.stringify({ ...data, version: definition.version }, null, 2)
+  );
+}
+
+/**
+ * Lists the ids of the JSON files in a directory, including files that only exist as the temp
+ * file of an interrupted first write.
+ */
+export async function listJsonFileIds(directory: string): Promise<string[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(directory);
+  } catch (error) {
+    if (getErrorCode(error) === 'ENOENT') {
+      return [];
+    }
+    throw toAccessError(directory, 'read', error);
+  }
+
+  const ids = new Set<string>();
+  for (const name of names) {
+    if (name.endsWith('.json')) {
+      ids.add(name.slice(0, -'.json'.length));
+    } else if (name.endsWith(`.json${TEMP_SUFFIX}`)) {
+      ids.add(name.slice(0, -`.json${TEMP_SUFFIX}`.length));
+    }
+  }
+  return [...ids];
+}
+
+/** Removes a JSON file together with any temp file left by an interrupted write. */
+export async function removeJsonFile(filePath: string): Promise<boolean> {
+  await pendingWrites.get(filePath)?.catch(() => undefined);
+  try {
+    await fs.rm(toTempPath(filePath), { force: true });
+    await fs.unlink(filePath);
+    return true;
+  } catch (error) {
+    if (getErrorCode(error) === 'ENOENT') {
+      return false;
+    }
+    throw toAccessError(filePath, 'write', error);
+  }
+}
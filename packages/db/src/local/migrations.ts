@@ -0,0 +1,60 @@
+import type { z } from 'zod';
+
+export type StoredData = Record<string, unknown>;
+
+/** Identifies the file being migrated, for filling in fields older versions did not store */
+export interface MigrationContext {
+  id: string;
+  projectId?: string;
+}
+
+/** Upgrades data stored with the previous version to the version it is registered under. */
+export type Migration = (data: StoredData, context: MigrationContext) => StoredData;
+
+export interface VersionedFileDefinition<T> {
+  /** Used in error messages, e.g. `conversation` */
+  kind: string;
+  version: number;
+  schema: z.ZodType<T>;
+  /** Keyed by the version each migration upgrades to. Files without a `version` start at 0. */
+  migrations: Record<number, Migration>;
+}
+
+export function readVersion(data: StoredData): number {
+  return typeof data.version === 'number' ? data.version : 0;
+}
+
+/**
+ * Brings stored data up to the current version of its file type one step at a time and
+ * validates the result.
+ */
+export function runMigrations<T>(
+  definition: VersionedFileDefinition<T>,
+  raw: unknown,
+  context: MigrationContext
+): { value: T; migrated: boolean } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Invalid ${definition.kind} file ${context.id}: expected a JSON object`);
+  }
+
+  let data = raw as StoredData;
+  const storedVersion = readVersion(data);
+  if (storedVersion > definition.version) {
+    throw new Error(
+      `The ${definition.kind} file ${context.id} was written by a newer version of Onlook (version ${storedVersion}, supported ${definition.version})`
+    );
+  }
+
+  for (let version = storedVersion + 1; version <= definition.version; version++) {
+    const migration = definition.migrations[version];
+    if (!migration) {
+      throw new Error(`No ${definition.kind} migration to version ${version}`);
+    }
+    data = { ...migration(data, context), version };
+  }
+
+  return {
+    value: definition.schema.parse(data),
+    migrated: storedVersion !== definition.version,
+  };
+}
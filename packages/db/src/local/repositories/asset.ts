@@ -0,0 +1,44 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getErrorCode, toAccessError } from '../access';
+import { writeFileAtomic } from '../json-file';
+import { listProjectDirectory } from './file';
+import type { ProjectRepository } from './project';
+
+/** Images, fonts and other binaries under assets/ */
+export class AssetRepository {
+  constructor(private readonly projects: ProjectRepository) {}
+
+  async save(projectId: string, assetPath: string, content: string | Uint8Array): Promise<void> {
+    const projectDir = await this.projects.requireProjectDir(projectId);
+    await this.projects.ensureStructure(projectDir);
+    await writeFileAtomic(path.join(projectDir, 'assets', assetPath), content);
+  }
+
+  async read(projectId: string, assetPath: string): Promise<Uint8Array | null> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      return null;
+    }
+
+    const fullPath = path.join(projectDir, 'assets', assetPath);
+    try {
+      return new Uint8Array(await fs.readFile(fullPath));
+    } catch (error) {
+      if (getErrorCode(error) === 'ENOENT') {
+        return null;
+      }
+      throw toAccessError(fullPath, 'read', error);
+    }
+  }
+
+  async list(projectId: string, dirPath = ''): Promise<string[]> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      return [];
+    }
+
+    await this.projects.ensureStructure(projectDir);
+    return listProjectDirectory(projectDir, 'assets', dirPath);
+  }
+}
@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getErrorCode, toAccessError } from '../access';
+import type { LocalToolAuditEntry } from '../types';
+import { generateId, nowIso } from '../utils';
+import type { ProjectRepository } from './project';
+
+export type NewLocalToolAuditEntry = Omit<LocalToolAuditEntry, 'id' | 'projectId' | 'createdAt'>;
+
+export interface LocalToolAuditQuery {
+  /** Maximum number of entries to return, newest first */
+  limit?: number;
+  offset?: number;
+}
+
+export const TOOL_AUDIT_FILE = 'audit.jsonl';
+
+/** Appends in flight per log file, so concurrent entries land in order */
+const pendingAppends = new Map<string, Promise<void>>();
+
+export function createToolAuditEntry(
+  projectId: string,
+  entry: NewLocalToolAuditEntry
+): LocalToolAuditEntry {
+  return { ...entry, id: generateId(), projectId, createdAt: nowIso() };
+}
+
+/** Applies an audit query to entries that are in the order they were recorded */
+export function applyToolAuditQuery(
+  entries: LocalToolAuditEntry[],
+  query: LocalToolAuditQuery = {}
+): LocalToolAuditEntry[] {
+  const start = query.offset ?? 0;
+  return [...entries]
+    .reverse()
+    .slice(start, query.limit === undefined ? undefined : start + query.limit);
+}
+
+/**
+ * Tool permission decisions, one JSON line each in audit.jsonl. The log is append-only so
+ * recording a decision never rewrites earlier ones.
+ */
+export class ToolAuditRepository {
+  constructor(private readonly projects: ProjectRepository) {}
+
+  async append(projectId: string, entry: NewLocalToolAuditEntry): Promise<LocalToolAuditEntry> {
+    const projectDir = await this.projects.requireProjectDir(projectId);
+    const logPath = path.join(projectDir, TOOL_AUDIT_FILE);
+    const created = createToolAuditEntry(projectId, entry);
+
+    const previous = pendingAppends.get(logPath) ?? Promise.resolve();
+    const append = previous
+      .catch(() => undefined)
+      .then(() => fs.appendFile(logPath, `${JSON.stringify(created)}\n`, 'utf-8'))
+      .catch((error) => {
+        throw toAccessError(logPath, 'write', error);
+      });
+    pendingAppends.set(logPath, append);
+    try {
+      await append;
+    } finally {
+      if (pendingAppends.get(logPath) === append) {
+        pendingAppends.delete(logPath);
+      }
+    }
+    return created;
+  }
+
+  async list(projectId: string, query?: LocalToolAuditQuery): Promise<LocalToolAuditEntry[]> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      return [];
+    }
+
+    const logPath = path.join(projectDir, TOOL_AUDIT_FILE);
+    let content: string;
+    try {
+      content = await fs.readFile(logPath, 'utf-8');
+    } catch (error) {
+      if (getErrorCode(error) === 'ENOENT') {
+        return [];
+      }
+      throw toAccessError(logPath, 'read', error);
+    }
+
+    const entries: LocalToolAuditEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as LocalToolAuditEntry);
+      } catch {
+        // A crash mid-append can leave a torn last line; the entries before it still count
+      }
+    }
+    return applyToolAuditQuery(entries, query);
+  }
+}
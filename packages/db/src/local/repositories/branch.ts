@@ -0,0 +1,120 @@
+import path from 'path';
+import {
+  listJsonFileIds,
+  readVersionedFile,
+  removeJsonFile,
+  writeVersionedFile,
+} from '../json-file';
+import { branchFile } from '../schemas';
+import type { LocalBranch } from '../types';
+import { generateId, nowIso, sortByUpdatedAtDesc } from '../utils';
+import type { ProjectRepository } from './project';
+
+export type NewLocalBranch = Omit<LocalBranch, 'id' | 'createdAt' | 'updatedAt' | 'projectId'>;
+export type LocalBranchUpdate = Partial<Omit<LocalBranch, 'id' | 'projectId' | 'createdAt'>>;
+
+/** One file per branch under branches/ */
+export class BranchRepository {
+  constructor(private readonly projects: ProjectRepository) {}
+
+  private getBranchesDir(projectDir: string): string {
+    return path.join(projectDir, 'branches');
+  }
+
+  private getBranchPath(projectDir: string, branchId: string): string {
+    return path.join(this.getBranchesDir(projectDir), `${branchId}.json`);
+  }
+
+  private read(projectDir: string, projectId: string, branchId: string) {
+    return readVersionedFile(this.getBranchPath(projectDir, branchId), branchFile, {
+      id: branchId,
+      projectId,
+    });
+  }
+
+  async save(projectDir: string, branch: LocalBranch): Promise<void> {
+    await writeVersionedFile(this.getBranchPath(projectDir, branch.id), branchFile, branch);
+  }
+
+  async create(projectId: string, branch: NewLocalBranch): Promise<LocalBranch> {
+    const projectDir = await this.projects.requireProjectDir(projectId);
+
+    const now = nowIso();
+    const fullBranch: LocalBranch = {
+      ...branch,
+      projectId,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.save(projectDir, fullBranch);
+    return fullBranch;
+  }
+
+  /** Every project has a default `main` branch; created for new projects and older ones alike */
+  async ensureDefault(projectId: string): Promise<void> {
+    const branches = await this.list(projectId);
+    if (branches.length > 0) {
+      return;
+    }
+
+    await this.create(projectId, {
+      name: 'main',
+      description: null,
+      isDefault: true,
+      sandboxId: null,
+      sandboxUrl: null,
+    });
+  }
+
+  async list(projectId: string): Promise<LocalBranch[]> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      return [];
+    }
+
+    const branches: LocalBranch[] = [];
+    for (const branchId of await listJsonFileIds(this.getBranchesDir(projectDir))) {
+      const branch = await this.read(projectDir, projectId, branchId);
+      if (branch) {
+        branches.push(branch);
+      }
+    }
+    return sortByUpdatedAtDesc(branches);
+  }
+
+  async update(
+    projectId: string,
+    branchId: string,
+    updates: LocalBranchUpdate
+  ): Promise<LocalBranch | null> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      return null;
+    }
+
+    const branch = await this.read(projectDir, projectId, branchId);
+    if (!branch) {
+      return null;
+    }
+
+    const updated: LocalBranch = {
+      ...branch,
+      ...updates,
+      updatedAt: nowIso(),
+    };
+    await this.save(projectDir, updated);
+    return updated;
+  }
+
+  async delete(projectId: string, branchId: string): Promise<boolean> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      return false;
+    }
+
+    await removeJsonFile(this.getBranchPath(projectDir, branchId));
+    return true;
+  }
+}
@@ -0,0 +1,35 @@
+import type { LocalBrandState, LocalBrandUpdate, LocalProject } from '../types';
+import { nowIso } from '../utils';
+import type { ProjectRepository } from './project';
+
+/** Brand colors and fonts, stored alongside the project metadata in meta.json */
+export class BrandRepository {
+  constructor(private readonly projects: ProjectRepository) {}
+
+  async get(projectId: string): Promise<LocalBrandState | null> {
+    const project = await this.projects.get(projectId);
+    return project?.brand ?? null;
+  }
+
+  async update(projectId: string, updates: LocalBrandUpdate): Promise<LocalProject | null> {
+    const project = await this.projects.get(projectId);
+    if (!project) {
+      return null;
+    }
+
+    const now = nowIso();
+    const updatedProject: LocalProject = {
+      ...project,
+      brand: {
+        colors: updates.colors ?? project.brand.colors,
+        fonts: updates.fonts ?? project.brand.fonts,
+        updatedAt: now,
+      },
+      updatedAt: now,
+    };
+
+    const projectDir = await this.projects.requireProjectDir(projectId);
+    await this.projects.save(projectDir, updatedProject);
+    return updatedProject;
+  }
+}
@@ -0,0 +1,195 @@
+import { promises as fs, type Dirent } from 'fs';
+import path from 'path';
+import { formatPermissionMessage, isPermissionError, pathExists } from '../access';
+import { listJsonFileIds, readVersionedFile, writeVersionedFile } from '../json-file';
+import { canvasFile, defaultCanvasState, frameSchema } from '../schemas';
+import type { LocalCanvas, LocalCanvasState, LocalFrame } from '../types';
+import { generateId, nowIso, sortByUpdatedAtDesc } from '../utils';
+import type { ProjectRepository } from './project';
+
+export type NewLocalCanvas = Omit<
+  LocalCanvas,
+  'id' | 'createdAt' | 'updatedAt' | 'frames' | 'state'
+> & {
+  frames?: LocalFrame[];
+  state?: Partial<LocalCanvasState>;
+};
+
+/** One file per canvas under canvases/, holding the canvas state and its frames */
+export class CanvasRepository {
+  constructor(private readonly projects: ProjectRepository) {}
+
+  private getCanvasPath(projectDir: string, canvasId: string): string {
+    return path.join(projectDir, 'canvases', `${canvasId}.json`);
+  }
+
+  async save(projectDir: string, canvas: LocalCanvas): Promise<void> {
+    await writeVersionedFile(this.getCanvasPath(projectDir, canvas.id), canvasFile, canvas);
+  }
+
+  async create(canvas: NewLocalCanvas): Promise<LocalCanvas> {
+    const projectDir = await this.projects.requireProjectDir(canvas.projectId);
+    await this.projects.ensureStructure(projectDir);
+
+    const now = nowIso();
+    const defaults = defaultCanvasState();
+    const fullCanvas: LocalCanvas = {
+      ...canvas,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+      frames: canvas.frames ?? [],
+      state: {
+        scale: canvas.state?.scale ?? defaults.scale,
+        position: {
+          x: canvas.state?.position?.x ?? defaults.position.x,
+          y: canvas.state?.position?.y ?? defaults.position.y,
+        },
+      },
+    };
+
+    await this.save(projectDir, fullCanvas);
+    return fullCanvas;
+  }
+
+  async get(projectId: string, canvasId: string): Promise<LocalCanvas | null> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      return null;
+    }
+
+    const canvas = await readVersionedFile(this.getCanvasPath(projectDir, canvasId), canvasFile, {
+      id: canvasId,
+      projectId,
+    });
+    return canvas ? this.migrateLegacyFrames(projectDir, canvas) : null;
+  }
+
+  async list(projectId: string): Promise<LocalCanvas[]> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      return [];
+    }
+
+    await this.projects.ensureStructure(projectDir);
+
+    const canvases: LocalCanvas[] = [];
+    for (const canvasId of await listJsonFileIds(path.join(projectDir, 'canvases'))) {
+      const canvas = await this.get(projectId, canvasId);
+      if (canvas) {
+        canvases.push(canvas);
+      }
+    }
+    return sortByUpdatedAtDesc(canvases);
+  }
+
+  async updateState(
+    projectId: string,
+    canvasId: string,
+    state: Partial<LocalCanvasState>
+  ): Promise<LocalCanvas | null> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      return null;
+    }
+
+    const canvas = await this.get(projectId, canvasId);
+    if (!canvas) {
+      return null;
+    }
+
+    const updatedCanvas: LocalCanvas = {
+      ...canvas,
+      state: {
+        scale: state.scale ?? canvas.state.scale,
+        position: {
+          x: state.position?.x ?? canvas.state.position.x,
+          y: state.position?.y ?? canvas.state.position.y,
+        },
+      },
+      updatedAt: nowIso(),
+    };
+
+    await this.save(projectDir, updatedCanvas);
+    return updatedCanvas;
+  }
+
+  async findById(canvasId: string): Promise<{ canvas: LocalCanvas; projectId: string } | null> {
+    for (const projectId of await this.projects.listIds()) {
+      const canvas = await this.get(projectId, canvasId);
+      if (canvas) {
+        return { canvas, projectId };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Frames used to live in their own files under frames/. Moves those belonging to this canvas
+   * into the canvas file the first time an empty canvas is read.
+   */
+  private async migrateLegacyFrames(projectDir: string, canvas: LocalCanvas): Promise<LocalCanvas> {
+    if (canvas.frames.length > 0) {
+      return canvas;
+    }
+
+    const legacyDir = path.join(projectDir, 'frames');
+    if (!(await pathExists(legacyDir))) {
+      return canvas;
+    }
+
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(legacyDir, { withFileTypes: true });
+    } catch (error) {
+      if (isPermissionError(error)) {
+        throw new Error(formatPermissionMessage(legacyDir, 'read'));
+      }
+      return canvas;
+    }
+
+    const migratedFrames: LocalFrame[] = [];
+    const migratedPaths: string[] = [];
+    for (const entry of entries) {
+      if (!entry.isFile() || !entry.name.endsWith('.json')) {
+        continue;
+      }
+
+      const filePath = path.join(legacyDir, entry.name);
+      try {
+        const raw = await fs.readFile(filePath, 'utf-8');
+        const frame = frameSchema.parse({
+          projectId: canvas.projectId,
+          canvasId: canvas.id,
+          ...JSON.parse(raw),
+        });
+        if (frame.canvasId === canvas.id) {
+          migratedFrames.push(frame);
+          migratedPaths.push(filePath);
+        }
+      } catch (error) {
+        if (isPermissionError(error)) {
+          throw new Error(formatPermissionMessage(filePath, 'read'));
+        }
+        console.warn('[onlook-local-storage] Failed to migrate legacy frame file', filePath, error);
+      }
+    }
+
+    if (migratedFrames.length === 0) {
+      return canvas;
+    }
+
+    const updatedCanvas: LocalCanvas = {
+      ...canvas,
+      frames: migratedFrames,
+      updatedAt: nowIso(),
+    };
+
+    // Only drop the legacy files once the canvas holding their frames is safely on disk
+    await this.save(projectDir, updatedCanvas);
+    await Promise.all(
+      migratedPaths.map((filePath) => fs.rm(filePath, { force: true }).catch(() => undefined))
+    );
+    return updatedCanvas;
+  }
+}
@@ -0,0 +1,228 @@
+import path from 'path';
+import {
+  listJsonFileIds,
+  readVersionedFile,
+  removeJsonFile,
+  writeVersionedFile,
+} from '../json-file';
+import { conversationFile } from '../schemas';
+import type { LocalConversation, LocalConversationFile, LocalConversationMessage } from '../types';
+import { generateId, nowIso, sortByUpdatedAtDesc } from '../utils';
+import type { ProjectRepository } from './project';
+
+export interface NewLocalConversation {
+  projectId: string;
+  title?: string | null;
+}
+export type LocalConversationUpdate = Partial<Pick<LocalConversation, 'title' | 'suggestions'>>;
+export type LocalConversationMessageUpdate = Partial<
+  Pick<LocalConversationMessage, 'context' | 'parts' | 'checkpoints' | 'content' | 'createdAt'>
+>;
+
+function toMetadata(file: LocalConversationFile): LocalConversation {
+  return {
+    id: file.id,
+    projectId: file.projectId,
+    title: file.title,
+    createdAt: file.createdAt,
+    updatedAt: file.updatedAt,
+    suggestions: file.suggestions,
+  };
+}
+
+/** One file per conversation under conversations/, holding its messages */
+export class ConversationRepository {
+  constructor(private readonly projects: ProjectRepository) {}
+
+  private getConversationsDir(projectDir: string): string {
+    return path.join(projectDir, 'conversations');
+  }
+
+  private getConversationPath(projectDir: string, conversationId: string): string {
+    return path.join(this.getConversationsDir(projectDir), `${conversationId}.json`);
+  }
+
+  private read(
+    projectDir: string,
+    projectId: string,
+    conversationId: string
+  ): Promise<LocalConversationFile | null> {
+    return readVersionedFile(
+      this.getConversationPath(projectDir, conversationId),
+      conversationFile,
+      {
+        id: conversationId,
+        projectId,
+      }
+    );
+  }
+
+  save(projectDir: string, conversation: LocalConversationFile): Promise<void> {
+    return writeVersionedFile(
+      this.getConversationPath(projectDir, conversation.id),
+      conversationFile,
+      conversation
+    );
+  }
+
+  /** Reads a conversation that must exist, for operations that cannot fall back to a no-op */
+  private async require(
+    projectId: string,
+    conversationId: string
+  ): Promise<{ projectDir: string; conversation: LocalConversationFile }> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+
+    const conversation = await this.read(projectDir, projectId, conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    return { projectDir, conversation };
+  }
+
+  async create(conversation: NewLocalConversation): Promise<LocalConversation> {
+    const projectDir = await this.projects.requireProjectDir(conversation.projectId);
+    await this.projects.ensureStructure(projectDir);
+
+    const now = nowIso();
+    const file: LocalConversationFile = {
+      id: generateId(),
+      projectId: conversation.projectId,
+      title: conversation.title ?? null,
+      createdAt: now,
+      updatedAt: now,
+      suggestions: [],
+      messages: [],
+    };
+
+    await this.save(projectDir, file);
+    return toMetadata(file);
+  }
+
+  async get(projectId: string, conversationId: string): Promise<LocalConversation | null> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      return null;
+    }
+
+    const file = await this.read(projectDir, projectId, conversationId);
+    return file ? toMetadata(file) : null;
+  }
+
+  /** Reads a conversation including its messages */
+  async getFile(projectId: string, conversationId: string): Promise<LocalConversationFile | null> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      return null;
+    }
+
+    return this.read(projectDir, projectId, conversationId);
+  }
+
+  async list(projectId: string): Promise<LocalConversation[]> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      return [];
+    }
+
+    await this.projects.ensureStructure(projectDir);
+
+    const conversations: LocalConversation[] = [];
+    for (const conversationId of await listJsonFileIds(this.getConversationsDir(projectDir))) {
+      const file = await this.read(projectDir, projectId, conversationId);
+      if (file) {
+        conversations.push(toMetadata(file));
+      }
+    }
+    return sortByUpdatedAtDesc(conversations);
+  }
+
+  async update(
+    projectId: string,
+    conversationId: string,
+    updates: LocalConversationUpdate
+  ): Promise<LocalConversation | null> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      return null;
+    }
+
+    const conversation = await this.read(projectDir, projectId, conversationId);
+    if (!conversation) {
+      return null;
+    }
+
+    const updated: LocalConversationFile = {
+      ...conversation,
+      title: updates.title ?? conversation.title,
+      suggestions: updates.suggestions ?? conversation.suggestions,
+      updatedAt: nowIso(),
+    };
+
+    await this.save(projectDir, updated);
+    return toMetadata(updated);
+  }
+
+  async delete(projectId: string, conversationId: string): Promise<boolean> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      return false;
+    }
+
+    return removeJsonFile(this.getConversationPath(projectDir, conversationId));
+  }
+
+  async listMessages(
+    projectId: string,
+    conversationId: string
+  ): Promise<LocalConversationMessage[]> {
+    const conversation = await this.getFile(projectId, conversationId);
+    return conversation?.messages ?? [];
+  }
+
+  async replaceMessages(
+    projectId: string,
+    conversationId: string,
+    messages: LocalConversationMessage[]
+  ): Promise<void> {
+    const { projectDir, conversation } = await this.require(projectId, conversationId);
+    await this.save(projectDir, {
+      ...conversation,
+      messages,
+      updatedAt: nowIso(),
+    });
+  }
+
+  async updateMessage(
+    projectId: string,
+    conversationId: string,
+    messageId: string,
+    updates: LocalConversationMessageUpdate
+  ): Promise<LocalConversationMessage> {
+    const { projectDir, conversation } = await this.require(projectId, conversationId);
+
+    const index = conversation.messages.findIndex((message) => message.id === messageId);
+    if (index === -1) {
+      throw new Error(`Message ${messageId} not found`);
+    }
+
+    const existing = conversation.messages[index]!;
+    const updatedMessage: LocalConversationMessage = {
+      ...existing,
+      ...updates,
+      context: updates.context ?? existing.context,
+      parts: updates.parts ?? existing.parts,
+      checkpoints: updates.checkpoints ?? existing.checkpoints,
+      createdAt: updates.createdAt ?? existing.createdAt,
+    };
+
+    await this.save(projectDir, {
+      ...conversation,
+      messages: conversation.messages.map((message, i) => (i === index ? updatedMessage : message)),
+      updatedAt: nowIso(),
+    });
+    return updatedMessage;
+  }
+}
@@ -0,0 +1,73 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { formatPermissionMessage, getErrorCode, isPermissionError, toAccessError } from '../access';
+import { writeFileAtomic } from '../json-file';
+import type { ProjectRepository } from './project';
+
+/** Lists the files below `dirPath` in one of the project subdirectories, relative to it */
+export async function listProjectDirectory(
+  projectDir: string,
+  baseDir: string,
+  dirPath = ''
+): Promise<string[]> {
+  const targetDir = path.join(projectDir, baseDir, dirPath);
+  try {
+    const entries = await fs.readdir(targetDir, { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries) {
+      const relativePath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await listProjectDirectory(projectDir, baseDir, relativePath)));
+      } else {
+        files.push(relativePath);
+      }
+    }
+
+    return files;
+  } catch (error) {
+    if (isPermissionError(error)) {
+      throw new Error(formatPermissionMessage(targetDir, 'read'));
+    }
+
+    return [];
+  }
+}
+
+/** Project source files under files/ */
+export class FileRepository {
+  constructor(private readonly projects: ProjectRepository) {}
+
+  async save(projectId: string, filePath: string, content: string): Promise<void> {
+    const projectDir = await this.projects.requireProjectDir(projectId);
+    await this.projects.ensureStructure(projectDir);
+    await writeFileAtomic(path.join(projectDir, 'files', filePath), content);
+  }
+
+  async read(projectId: string, filePath: string): Promise<string | null> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      return null;
+    }
+
+    const fullPath = path.join(projectDir, 'files', filePath);
+    try {
+      return await fs.readFile(fullPath, 'utf-8');
+    } catch (error) {
+      if (getErrorCode(error) === 'ENOENT') {
+        return null;
+      }
+      throw toAccessError(fullPath, 'read', error);
+    }
+  }
+
+  async list(projectId: string, dirPath = ''): Promise<string[]> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      return [];
+    }
+
+    await this.projects.ensureStructure(projectDir);
+    return listProjectDirectory(projectDir, 'files', dirPath);
+  }
+}
@@ -0,0 +1,134 @@
+import type { LocalCanvas, LocalFrame } from '../types';
+import { generateId, nowIso, sortByUpdatedAtDesc } from '../utils';
+import type { CanvasRepository } from './canvas';
+import type { ProjectRepository } from './project';
+
+export type NewLocalFrame = Omit<LocalFrame, 'id' | 'createdAt' | 'updatedAt'>;
+export type LocalFrameUpdate = Partial<Omit<LocalFrame, 'id' | 'projectId' | 'createdAt'>>;
+
+export interface LocalFrameFilters {
+  canvasId?: string;
+  branchId?: string;
+}
+
+/** Frames are stored inside the file of the canvas they belong to */
+export class FrameRepository {
+  constructor(
+    private readonly projects: ProjectRepository,
+    private readonly canvases: CanvasRepository
+  ) {}
+
+  async create(frame: NewLocalFrame): Promise<LocalFrame> {
+    const projectDir = await this.projects.requireProjectDir(frame.projectId);
+    const canvas = await this.canvases.get(frame.projectId, frame.canvasId);
+    if (!canvas) {
+      throw new Error(`Canvas ${frame.canvasId} not found for project ${frame.projectId}`);
+    }
+
+    const now = nowIso();
+    const fullFrame: LocalFrame = {
+      ...frame,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.canvases.save(projectDir, {
+      ...canvas,
+      updatedAt: now,
+      frames: [...canvas.frames, fullFrame],
+    });
+    return fullFrame;
+  }
+
+  async list(projectId: string, filters: LocalFrameFilters = {}): Promise<LocalFrame[]> {
+    let canvases: LocalCanvas[];
+    if (filters.canvasId) {
+      const canvas = await this.canvases.get(projectId, filters.canvasId);
+      canvases = canvas ? [canvas] : [];
+    } else {
+      canvases = await this.canvases.list(projectId);
+    }
+
+    const frames = canvases
+      .flatMap((canvas) => canvas.frames)
+      .filter((frame) => (filters.branchId ? frame.branchId === filters.branchId : true));
+    return sortByUpdatedAtDesc(frames);
+  }
+
+  async update(
+    projectId: string,
+    frameId: string,
+    updates: LocalFrameUpdate
+  ): Promise<LocalFrame | null> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      return null;
+    }
+
+    for (const canvas of await this.canvases.list(projectId)) {
+      const index = canvas.frames.findIndex((frame) => frame.id === frameId);
+      if (index === -1) {
+        continue;
+      }
+
+      const existing = canvas.frames[index]!;
+      const updated: LocalFrame = {
+        ...existing,
+        ...updates,
+        position: updates.position ?? existing.position,
+        dimension: updates.dimension ?? existing.dimension,
+        canvasId: updates.canvasId ?? existing.canvasId,
+        branchId: updates.branchId ?? existing.branchId,
+        url: updates.url ?? existing.url,
+        name: updates.name ?? existing.name,
+        updatedAt: nowIso(),
+      };
+
+      await this.canvases.save(projectDir, {
+        ...canvas,
+        updatedAt: updated.updatedAt,
+        frames: canvas.frames.map((frame, i) => (i === index ? updated : frame)),
+      });
+      return updated;
+    }
+
+    return null;
+  }
+
+  async delete(projectId: string, frameId: string): Promise<boolean> {
+    const projectDir = await this.projects.getProjectDir(projectId);
+    if (!projectDir) {
+      return false;
+    }
+
+    for (const canvas of await this.canvases.list(projectId)) {
+      if (!canvas.frames.some((frame) => frame.id === frameId)) {
+        continue;
+      }
+
+      await this.canvases.save(projectDir, {
+        ...canvas,
+        updatedAt: nowIso(),
+        frames: canvas.frames.filter((frame) => frame.id !== frameId),
+      });
+      return true;
+    }
+
+    return false;
+  }
+
+  async find(
+    frameId: string
+  ): Promise<{ frame: LocalFrame; canvas: LocalCanvas; projectId: string } | null> {
+    for (const projectId of await this.projects.listIds()) {
+      for (const canvas of await this.canvases.list(projectId)) {
+        const frame = canvas.frames.find((item) => item.id === frameId);
+        if (frame) {
+          return { frame, canvas, projectId };
+        }
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,368 @@
+import { promises as fs, type Dirent } from 'fs';
+import path from 'path';
+import {
+  ensureAccess,
+  formatPermissionMessage,
+  isPermissionError,
+  pathExists,
+  permissionDocLink,
+  toAccessError,
+} from '../access';
+import { readVersionedFile, writeVersionedFile } from '../json-file';
+import { resolveDefaultProjectsDir } from '../root';
+import { defaultBrandState, projectFile } from '../schemas';
+import type { LocalProject } from '../types';
+import { generateId, nowIso, sortByUpdatedAtDesc } from '../utils';
+
+const META_FILE = 'meta.json';
+const PROJECT_DIRECTORIES = [
+  'files',
+  'canvases',
+  'conversations',
+  'previews',
+  'assets',
+  'branches',
+];
+const LARGE_ASSET_BYTES = 200 * 1024 * 1024;
+
+export type NewLocalProject = Omit<
+  LocalProject,
+  'id' | 'createdAt' | 'updatedAt' | 'version' | 'brand'
+>;
+export type LocalProjectUpdate = Partial<Omit<LocalProject, 'id' | 'createdAt' | 'version'>>;
+
+/**
+ * Owns the projects root: one directory per project, named after the project, with its
+ * metadata in meta.json. Other repositories resolve project directories through it.
+ */
+export class ProjectRepository {
+  private projectsDir: string;
+
+  private readonly ready: Promise<void>;
+
+  private readonly projectDirIndex = new Map<string, string>();
+
+  private readonly largeAssetHintedDirs = new Set<string>();
+
+  constructor(projectsDir?: string) {
+    this.projectsDir = projectsDir ?? '';
+    this.ready = this.initialize(projectsDir).catch((error) => {
+      console.error('Failed to initialize local storage directory:', error);
+      throw error;
+    });
+  }
+
+  private async initialize(providedPath?: string): Promise<void> {
+    this.projectsDir = providedPath ?? (await resolveDefaultProjectsDir());
+    await ensureAccess(this.projectsDir, {
+      intent: 'write',
+      createIfMissing: true,
+      kind: 'directory',
+    });
+    await this.refreshIndex();
+  }
+
+  async ensureReady(): Promise<void> {
+    await this.ready;
+  }
+
+  private normalizeName(name: string | undefined): string {
+    const fallback = 'Untitled Project';
+    if (!name) {
+      return fallback;
+    }
+
+    const trimmed = name.trim();
+    return trimmed || fallback;
+  }
+
+  private toDirectoryName(name: string): string {
+    const normalized = this.normalizeName(name);
+    const sanitized = normalized.replace(/[<>:"/\\|?*\x00-\x1F]/g, '-');
+    const withoutTrailing = sanitized.replace(/[. ]+$/g, '');
+    return withoutTrailing || 'Untitled Project';
+  }
+
+  private getMetaPath(projectDir: string): string {
+    return path.join(projectDir, META_FILE);
+  }
+
+  private readMeta(projectDir: string): Promise<LocalProject | null> {
+    return readVersionedFile(this.getMetaPath(projectDir), projectFile, {
+      id: path.basename(projectDir),
+    });
+  }
+
+  private async readProjectsRoot(): Promise<Dirent[]> {
+    try {
+      return await fs.readdir(this.projectsDir, { withFileTypes: true });
+    } catch (error) {
+      throw toAccessError(this.projectsDir, 'read', error);
+    }
+  }
+
+  private async refreshIndex(): Promise<void> {
+    const entries = await this.readProjectsRoot();
+    this.projectDirIndex.clear();
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) {
+        continue;
+      }
+
+      const projectDir = path.join(this.projectsDir, entry.name);
+      const project = await this.readMeta(projectDir);
+      if (project) {
+        this.projectDirIndex.set(project.id, projectDir);
+      }
+    }
+  }
+
+  /** Ids of every project in the root, re-scanned so projects added by hand are included */
+  async listIds(): Promise<string[]> {
+    await this.ensureReady();
+    await this.refreshIndex();
+    return [...this.projectDirIndex.keys()];
+  }
+
+  async getProjectDir(projectId: string): Promise<string | null> {
+    await this.ensureReady();
+
+    const existing = this.projectDirIndex.get(projectId);
+    if (existing) {
+      return existing;
+    }
+
+    await this.refreshIndex();
+    return this.projectDirIndex.get(projectId) ?? null;
+  }
+
+  async requireProjectDir(projectId: string): Promise<string> {
+    const projectDir = await this.getProjectDir(projectId);
+    if (!projectDir) {
+      throw new Error(`Project directory not found for id ${projectId}`);
+    }
+    return projectDir;
+  }
+
+  /** Creates any missing project subdirectories, e.g. after a user deleted one by hand. */
+  async ensureStructure(projectDir: string): Promise<void> {
+    await ensureAccess(projectDir, {
+      intent: 'write',
+      createIfMissing: true,
+      kind: 'directory',
+    });
+
+    for (const directory of PROJECT_DIRECTORIES) {
+      await ensureAccess(path.join(projectDir, directory), {
+        intent: 'write',
+        createIfMissing: true,
+        kind: 'directory',
+      });
+    }
+
+    await this.maybeRecommendAssetSymlink(path.join(projectDir, 'assets'));
+  }
+
+  private async maybeRecommendAssetSymlink(assetDir: string): Promise<void> {
+    const resolvedAssetDir = path.resolve(assetDir);
+    if (this.largeAssetHintedDirs.has(resolvedAssetDir)) {
+      return;
+    }
+
+    try {
+      const entries = await fs.readdir(resolvedAssetDir, { withFileTypes: true });
+      for (const entry of entries) {
+        if (!entry.isFile()) {
+          continue;
+        }
+
+        const entryPath = path.join(resolvedAssetDir, entry.name);
+        try {
+          const stats = await fs.stat(entryPath);
+          if (stats.size >= LARGE_ASSET_BYTES) {
+            this.largeAssetHintedDirs.add(resolvedAssetDir);
+            const sizeInMb = stats.size / (1024 * 1024);
+            console.warn(
+              `[onlook-local-storage] "${entryPath}" is ${sizeInMb.toFixed(
+                1
+              )}MB. Consider symlinking large binaries into the assets folder instead of copying them. See ${permissionDocLink(
+                'large-assets-and-symlinks'
+              )} for guidance.`
+            );
+            break;
+          }
+        } catch (statError) {
+          if (isPermissionError(statError)) {
+            throw new Error(formatPermissionMessage(entryPath, 'read'));
+          }
+        }
+      }
+    } catch (error) {
+      if (isPermissionError(error)) {
+        throw new Error(formatPermissionMessage(resolvedAssetDir, 'read'));
+      }
+      // Ignore missing directories; ensureAccess already created them when needed.
+    }
+  }
+
+  private async getUniqueProjectDir(baseName: string, currentProjectId?: string): Promise<string> {
+    const currentDir = currentProjectId ? await this.getProjectDir(currentProjectId) : null;
+
+    let attempt = 0;
+    let candidateName = baseName;
+
+    while (true) {
+      const candidatePath = path.join(this.projectsDir, candidateName);
+      if (!(await pathExists(candidatePath))) {
+        return candidatePath;
+      }
+
+      if (currentDir && path.resolve(candidatePath) === path.resolve(currentDir)) {
+        return candidatePath;
+      }
+
+      attempt += 1;
+      candidateName = `${baseName} (${attempt})`;
+    }
+  }
+
+  async save(projectDir: string, project: LocalProject): Promise<void> {
+    await writeVersionedFile(this.getMetaPath(projectDir), projectFile, project);
+  }
+
+  async create(project: NewLocalProject): Promise<LocalProject> {
+    await this.ensureReady();
+
+    const now = nowIso();
+    const name = this.normalizeName(project.name);
+    const projectDir = await this.getUniqueProjectDir(this.toDirectoryName(name));
+    await this.ensureStructure(projectDir);
+
+    const fullProject: LocalProject = {
+      ...project,
+      name,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+      version: projectFile.version,
+      brand: defaultBrandState(),
+    };
+
+    await this.save(projectDir, fullProject);
+    this.projectDirIndex.set(fullProject.id, projectDir);
+    return fullProject;
+  }
+
+  /** Stores a project under its existing id, replacing any project already using that id */
+  async import(project: LocalProject): Promise<string> {
+    await this.delete(project.id);
+
+    const projectDir = await this.getUniqueProjectDir(
+      this.toDirectoryName(this.normalizeName(project.name))
+    );
+    await this.ensureStructure(projectDir);
+    await this.save(projectDir, project);
+    this.projectDirIndex.set(project.id, projectDir);
+    return projectDir;
+  }
+
+  async get(projectId: string): Promise<LocalProject | null> {
+    const projectDir = await this.getProjectDir(projectId);
+    if (!projectDir) {
+      return null;
+    }
+
+    const project = await this.readMeta(projectDir);
+    if (!project) {
+      return null;
+    }
+
+    await this.ensureStructure(projectDir);
+    return project;
+  }
+
+  async update(projectId: string, updates: LocalProjectUpdate): Promise<LocalProject | null> {
+    const project = await this.get(projectId);
+    if (!project) {
+      return null;
+    }
+
+    const now = nowIso();
+    const updatedProject: LocalProject = {
+      ...project,
+      ...updates,
+      brand: updates.brand
+        ? {
+            colors: updates.brand.colors ?? project.brand.colors,
+            fonts: updates.brand.fonts ?? project.brand.fonts,
+            updatedAt: now,
+          }
+        : project.brand,
+      name: updates.name ? this.normalizeName(updates.name) : project.name,
+      updatedAt: now,
+      version: projectFile.version,
+    };
+
+    const currentDir = await this.requireProjectDir(projectId);
+    const targetDir = await this.getUniqueProjectDir(
+      this.toDirectoryName(updatedProject.name),
+      projectId
+    );
+
+    if (path.resolve(currentDir) !== path.resolve(targetDir)) {
+      try {
+        await fs.rename(currentDir, targetDir);
+      } catch (error) {
+        throw toAccessError(targetDir, 'write', error);
+      }
+      this.projectDirIndex.set(projectId, targetDir);
+    }
+
+    await this.ensureStructure(targetDir);
+    await this.save(targetDir, updatedProject);
+    return updatedProject;
+  }
+
+  async delete(projectId: string): Promise<boolean> {
+    const projectDir = await this.getProjectDir(projectId);
+    if (!projectDir) {
+      return false;
+    }
+
+    try {
+      await fs.rm(projectDir, { recursive: true, force: true });
+      this.projectDirIndex.delete(projectId);
+      return true;
+    } catch (error) {
+      if (isPermissionError(error)) {
+        throw new Error(formatPermissionMessage(projectDir, 'write'));
+      }
+      console.error('Failed to delete project:', error);
+      return false;
+    }
+  }
+
+  async list(): Promise<LocalProject[]> {
+    await this.ensureReady();
+
+    const entries = await this.readProjectsRoot();
+    const projects: LocalProject[] = [];
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) {
+        continue;
+      }
+
+      const projectDir = path.join(this.projectsDir, entry.name);
+      const project = await this.readMeta(projectDir);
+      if (project) {
+        this.projectDirIndex.set(project.id, projectDir);
+        await this.ensureStructure(projectDir);
+        projects.push(project);
+      }
+    }
+
+    return sortByUpdatedAtDesc(projects);
+  }
+}
@@ -0,0 +1,47 @@
+import path from 'path';
+
+export function expandHomePath(rawValue: string): string {
+  const trimmed = rawValue.trim();
+  if (!trimmed) {
+    return trimmed;
+  }
+
+  const homeDirectory = process.env.HOME;
+  if (!homeDirectory) {
+    return trimmed;
+  }
+
+  if (trimmed === '~') {
+    return homeDirectory;
+  }
+
+  if (trimmed.startsWith('~/')) {
+    return path.join(homeDirectory, trimmed.slice(2));
+  }
+
+  if (trimmed.startsWith('$HOME')) {
+    const remainder = trimmed.slice('$HOME'.length);
+    if (!remainder) {
+      return homeDirectory;
+    }
+
+    return path.join(homeDirectory, remainder.replace(/^[/\\]/, ''));
+  }
+
+  return trimmed;
+}
+
+export async function resolveDefaultProjectsDir(): Promise<string> {
+  try {
+    const { env } = await import('../../../../apps/web/client/src/env');
+    return env.ONLOOK_PROJECTS_DIR;
+  } catch (error) {
+    const fallback = process.env.ONLOOK_PROJECTS_DIR;
+    if (fallback && fallback.trim()) {
+      return expandHomePath(fallback);
+    }
+
+    const home = process.env.HOME;
+    return home ? path.join(home, 'Onlook Projects') : './onlook-projects';
+  }
+}
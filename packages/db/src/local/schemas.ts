@@ -0,0 +1,308 @@
+import { DefaultSettings } from '@onlook/constants';
+import {
+  ChatType,
+  LLMProvider,
+  type ChatSuggestion,
+  type InitialModelPayload,
+} from '@onlook/models';
+import { z } from 'zod';
+import type { StoredData, VersionedFileDefinition } from './migrations';
+import type {
+  LocalBranch,
+  LocalBrandState,
+  LocalCanvas,
+  LocalCanvasState,
+  LocalConversationFile,
+  LocalConversationMessage,
+  LocalFrame,
+  LocalProject,
+} from './types';
+import { generateId, nowIso } from './utils';
+
+export function defaultBrandState(): LocalBrandState {
+  return { colors: [], fonts: [], updatedAt: nowIso() };
+}
+
+export function defaultCanvasState(): LocalCanvasState {
+  return {
+    scale: DefaultSettings.SCALE,
+    position: {
+      x: DefaultSettings.PAN_POSITION.x,
+      y: DefaultSettings.PAN_POSITION.y,
+    },
+  };
+}
+
+const brandSchema = z.object({
+  colors: z
+    .array(
+      z.object({
+        id: z.string(),
+        value: z.string(),
+        label: z.string().optional(),
+      })
+    )
+    .default([]),
+  fonts: z
+    .array(
+      z.object({
+        id: z.string(),
+        family: z.string(),
+        files: z.array(z.string()).default([]),
+        styles: z.array(z.string()).optional(),
+        weights: z.array(z.string()).optional(),
+        displayName: z.string().optional(),
+      })
+    )
+    .default([]),
+  updatedAt: z.string().default(nowIso),
+});
+
+const modelSelectionSchema = z.object({
+  provider: z.enum(LLMProvider),
+  model: z.string().min(1),
+});
+
+// Which models each provider accepts is checked when the chat starts, not when stored
+const chatModelsSchema = z.partialRecord(
+  z.enum(ChatType),
+  z.array(
+    z.custom<InitialModelPayload>(
+      (value) => modelSelectionSchema.safeParse(value).success
+    )
+  )
+);
+
+const toolPermissionsSchema = z.object({
+  rules: z
+    .array(
+      z.object({
+        id: z.string(),
+        action: z.enum(['allow', 'deny', 'ask']),
+        tool: z.string().optional(),
+        command: z.string().optional(),
+        path: z.string().optional(),
+        branch: z.string().optional(),
+        description: z.string().optional(),
+      })
+    )
+    .default([]),
+});
+
+const mcpServerSchema = z.discriminatedUnion('transport', [
+  z.object({
+    id: z.string(),
+    name: z.string(),
+    enabled: z.boolean().default(true),
+    transport: z.literal('stdio'),
+    command: z.string(),
+    args: z.array(z.string()).optional(),
+    env: z.record(z.string(), z.string()).optional(),
+    cwd: z.string().optional(),
+  }),
+  z.object({
+    id: z.string(),
+    name: z.string(),
+    enabled: z.boolean().default(true),
+    transport: z.literal('http'),
+    url: z.string(),
+    headers: z.record(z.string(), z.string()).optional(),
+  }),
+]);
+
+const processCommandSchema = z.object({
+  name: z.string(),
+  command: z.string(),
+  preferredPort: z.number().int().positive().optional(),
+  restart: z.enum(['never', 'on-failure', 'always']).optional(),
+  healthCheck: z
+    .discriminatedUnion('type', [
+      z.object({
+        type: z.literal('http'),
+        path: z.string().optional(),
+        timeoutMs: z.number().optional(),
+      }),
+      z.object({
+        type: z.literal('log'),
+        pattern: z.string(),
+        timeoutMs: z.number().optional(),
+      }),
+    ])
+    .optional(),
+});
+
+const commandsSchema = z.object({
+  build: z.string().optional(),
+  run: z.string().optional(),
+  install: z.string().optional(),
+  processes: z.array(processCommandSchema).optional(),
+});
+
+const projectSchema = z.object({
+  version: z.number().int().nonnegative(),
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable().optional(),
+  tags: z.array(z.string()).default([]),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  previewImgUrl: z.string().nullable().optional(),
+  previewImgPath: z.string().nullable().optional(),
+  sandboxId: z.string().nullable().optional(),
+  sandboxUrl: z.string().nullable().optional(),
+  brand: brandSchema.default(defaultBrandState),
+  chatModels: chatModelsSchema.optional(),
+  toolPermissions: toolPermissionsSchema.optional(),
+  mcpServers: z.array(mcpServerSchema).optional(),
+  commands: commandsSchema.optional(),
+});
+
+const branchSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  name: z.string(),
+  description: z.string().nullable().optional(),
+  isDefault: z.boolean().default(false),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  sandboxId: z.string().nullable().optional(),
+  sandboxUrl: z.string().nullable().optional(),
+});
+
+export const frameSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  canvasId: z.string(),
+  branchId: z.string(),
+  name: z.string().default('Frame'),
+  position: z.object({
+    x: z.coerce.number(),
+    y: z.coerce.number(),
+  }),
+  dimension: z.object({
+    width: z.coerce.number(),
+    height: z.coerce.number(),
+  }),
+  url: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const canvasStateSchema = z.object({
+  scale: z.coerce.number().default(() => DefaultSettings.SCALE),
+  position: z
+    .object({
+      x: z.coerce.number(),
+      y: z.coerce.number(),
+    })
+    .default(() => defaultCanvasState().position),
+});
+
+const canvasSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  frames: z.array(frameSchema).default([]),
+  state: canvasStateSchema.default(defaultCanvasState),
+});
+
+export const conversationMessageSchema = z.object({
+  id: z.string(),
+  conversationId: z.string(),
+  content: z.string(),
+  createdAt: z.string(),
+  role: z.enum(['user', 'assistant', 'system']),
+  context: z.array(z.unknown()).default([]),
+  parts: z.array(z.unknown()).default([]),
+  checkpoints: z.array(z.unknown()).default([]),
+  applied: z.boolean().nullable().optional(),
+  commitOid: z.string().nullable().optional(),
+  snapshots: z.unknown().optional(),
+});
+
+const conversationSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  title: z.string().nullable().default(null),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  suggestions: z.array(z.custom<ChatSuggestion>()).default([]),
+  messages: z.array(conversationMessageSchema).default([]),
+});
+
+const keep = (data: StoredData) => data;
+
+export const projectFile: VersionedFileDefinition<LocalProject> = {
+  kind: 'project',
+  version: 2,
+  schema: projectSchema,
+  migrations: {
+    1: keep,
+    // Version 2 keeps the brand panel state in meta.json
+    2: (data) => ({ ...data, brand: data.brand ?? defaultBrandState() }),
+  },
+};
+
+export const branchFile: VersionedFileDefinition<LocalBranch> = {
+  kind: 'branch',
+  version: 1,
+  schema: branchSchema,
+  migrations: {
+    1: keep,
+  },
+};
+
+export const canvasFile: VersionedFileDefinition<LocalCanvas> = {
+  kind: 'canvas',
+  version: 1,
+  schema: canvasSchema,
+  migrations: {
+    // Unversioned canvases may lack frames and state, the schema fills in defaults
+    1: keep,
+  },
+};
+
+function upgradeLegacyMessage(raw: unknown, conversationId: string): StoredData {
+  const value = raw && typeof raw === 'object' ? (raw as StoredData) : {};
+  return {
+    ...value,
+    id: typeof value.id === 'string' ? value.id : generateId(),
+    conversationId:
+      typeof value.conversationId === 'string' ? value.conversationId : conversationId,
+    createdAt: typeof value.createdAt === 'string' ? value.createdAt : nowIso(),
+  };
+}
+
+export const conversationFile: VersionedFileDefinition<LocalConversationFile> = {
+  kind: 'conversation',
+  version: 1,
+  schema: conversationSchema,
+  migrations: {
+    // Legacy transcripts used `displayName` and could miss ids and timestamps
+    1: (data, context) => {
+      const now = nowIso();
+      const id = typeof data.id === 'string' ? data.id : context.id;
+      return {
+        ...data,
+        id,
+        projectId: typeof data.projectId === 'string' ? data.projectId : context.projectId,
+        title:
+          typeof data.title === 'string'
+            ? data.title
+            : typeof data.displayName === 'string'
+              ? data.displayName
+              : null,
+        createdAt: typeof data.createdAt === 'string' ? data.createdAt : now,
+        updatedAt: typeof data.updatedAt === 'string' ? data.updatedAt : now,
+        suggestions: Array.isArray(data.suggestions) ? data.suggestions : [],
+        messages: Array.isArray(data.messages)
+          ? data.messages.map((message) => upgradeLegacyMessage(message, id))
+          : [],
+      };
+    },
+  },
+};
+
+export type { LocalConversationMessage };
@@ -0,0 +1,508 @@
+import type {
+  LocalConversation,
+  LocalConversationFile,
+  LocalConversationMessage,
+  LocalConversationMessageRole,
+} from './types';
+
+export type LocalSearchField = 'title' | 'text' | 'tool';
+
+export interface LocalSearchQuery {
+  text: string;
+  projectId?: string;
+  conversationId?: string;
+  /** Matches messages whose FILE, HIGHLIGHT, ERROR or BRANCH context points at the branch */
+  branchId?: string;
+  /** Only messages match a role filter, conversation titles are skipped */
+  role?: LocalConversationMessageRole;
+  /** Inclusive ISO timestamps compared against message (or conversation) creation time */
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface LocalSearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface LocalSearchHit {
+  projectId: string;
+  conversationId: string;
+  conversationTitle: string | null;
+  /** Null when the conversation title matched */
+  messageId: string | null;
+  role: LocalConversationMessageRole | null;
+  createdAt: string;
+  field: LocalSearchField;
+  snippet: string;
+  /** Ranges of `snippet` that matched the query */
+  highlights: LocalSearchHighlight[];
+  score: number;
+}
+
+export interface LocalSearchResult {
+  hits: LocalSearchHit[];
+  total: number;
+}
+
+/** Where the index reads conversations from the first time a project is searched */
+export interface LocalSearchSource {
+  listProjectIds(): Promise<string[]>;
+  loadConversations(projectId: string): Promise<LocalConversationFile[]>;
+}
+
+interface SearchDocument {
+  key: string;
+  projectId: string;
+  conversationId: string;
+  messageId: string | null;
+  role: LocalConversationMessageRole | null;
+  createdAt: string;
+  branchIds: Set<string>;
+  fields: { field: LocalSearchField; text: string }[];
+  terms: Map<string, number>;
+}
+
+const DEFAULT_LIMIT = 20;
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 160;
+const TITLE_WEIGHT = 2;
+
+/** Lowercased words, plus the parts of camelCase words so `section` finds `HeroSection` */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.match(/[\p{L}\p{N}_]+/gu) ?? []) {
+    const lower = word.toLowerCase();
+    tokens.push(lower);
+
+    const parts = word.split(/(?<=\p{Ll})(?=\p{Lu})|_/u).filter(Boolean);
+    if (parts.length > 1) {
+      tokens.push(...parts.map((part) => part.toLowerCase()));
+    }
+  }
+  return tokens;
+}
+
+function partText(part: unknown): { field: LocalSearchField; text: string } | null {
+  if (!part || typeof part !== 'object') {
+    return null;
+  }
+
+  const value = part as Record<string, unknown>;
+  const type = typeof value.type === 'string' ? value.type : '';
+  if (type === 'text' && typeof value.text === 'string') {
+    return { field: 'text', text: value.text };
+  }
+  if (type.startsWith('tool-') || type === 'dynamic-tool') {
+    const toolName = typeof value.toolName === 'string' ? value.toolName : type.slice(5);
+    const payload = [value.input, value.output, value.errorText]
+      .filter((item) => item !== undefined && item !== null)
+      .map((item) => (typeof item === 'string' ? item : JSON.stringify(item)));
+    return { field: 'tool', text: [toolName, ...payload].join(' ') };
+  }
+  return null;
+}
+
+function contextBranchIds(context: unknown[]): Set<string> {
+  const branchIds = new Set<string>();
+  for (const item of context) {
+    if (!item || typeof item !== 'object') {
+      continue;
+    }
+    const value = item as { branchId?: unknown; branch?: { id?: unknown } };
+    if (typeof value.branchId === 'string') {
+      branchIds.add(value.branchId);
+    }
+    if (typeof value.branch?.id === 'string') {
+      branchIds.add(value.branch.id);
+    }
+  }
+  return branchIds;
+}
+
+function countTerms(fields: SearchDocument['fields']): Map<string, number> {
+  const terms = new Map<string, number>();
+  for (const { text } of fields) {
+    for (const token of tokenize(text)) {
+      terms.set(token, (terms.get(token) ?? 0) + 1);
+    }
+  }
+  return terms;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Cuts a window around the first match and marks every match inside it */
+export function createSnippet(
+  text: string,
+  terms: string[]
+): { snippet: string; highlights: LocalSearchHighlight[]; matches: number } {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const pattern = new RegExp(
+    [...terms]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join('|'),
+    'giu'
+  );
+
+  const first = pattern.exec(normalized);
+  let start = 0;
+  if (first && first.index > SNIPPET_BEFORE) {
+    const boundary = normalized.lastIndexOf(' ', first.index - SNIPPET_BEFORE);
+    start = boundary === -1 ? first.index - SNIPPET_BEFORE : boundary + 1;
+  }
+  const end = Math.min(normalized.length, start + SNIPPET_LENGTH);
+
+  const prefix = start > 0 ? '…' : '';
+  const snippet = `${prefix}${normalized.slice(start, end)}${end < normalized.length ? '…' : ''}`;
+
+  const highlights: LocalSearchHighlight[] = [];
+  let matches = 0;
+  pattern.lastIndex = 0;
+  for (const match of normalized.matchAll(pattern)) {
+    matches += 1;
+    const matchEnd = match.index + match[0].length;
+    if (match.index >= start && matchEnd <= end) {
+      highlights.push({
+        start: match.index - start + prefix.length,
+        end: matchEnd - start + prefix.length,
+      });
+    }
+  }
+
+  return { snippet, highlights, matches };
+}
+
+const documentKey = (projectId: string, conversationId: string, messageId: string | null) =>
+  `${projectId}\u0000${conversationId}\u0000${messageId ?? ''}`;
+
+/**
+ * Inverted index over conversation titles, message text and tool call inputs/outputs. A project
+ * is indexed the first time it is searched; after that the storage backend keeps it current by
+ * reporting every conversation and message change.
+ */
+export class ConversationSearchIndex {
+  private readonly documents = new Map<string, SearchDocument>();
+
+  private readonly postings = new Map<string, Set<string>>();
+
+  /** Indexed projects, with the document keys of each conversation */
+  private readonly projects = new Map<string, Map<string, Set<string>>>();
+
+  private readonly loading = new Map<string, Promise<void>>();
+
+  private readonly staleWhileLoading = new Set<string>();
+
+  constructor(private readonly source: LocalSearchSource) {}
+
+  private add(document: SearchDocument): void {
+    this.remove(document.key);
+    this.documents.set(document.key, document);
+    for (const term of document.terms.keys()) {
+      const keys = this.postings.get(term) ?? new Set<string>();
+      keys.add(document.key);
+      this.postings.set(term, keys);
+    }
+
+    const conversations = this.projects.get(document.projectId);
+    const keys = conversations?.get(document.conversationId) ?? new Set<string>();
+    keys.add(document.key);
+    conversations?.set(document.conversationId, keys);
+  }
+
+  private remove(key: string): void {
+    const document = this.documents.get(key);
+    if (!document) {
+      return;
+    }
+
+    this.documents.delete(key);
+    for (const term of document.terms.keys()) {
+      const keys = this.postings.get(term);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.projects.get(document.projectId)?.get(document.conversationId)?.delete(key);
+  }
+
+  private titleDocument(projectId: string, conversation: LocalConversation): SearchDocument {
+    const fields = conversation.title
+      ? [{ field: 'title' as const, text: conversation.title }]
+      : [];
+    return {
+      key: documentKey(projectId, conversation.id, null),
+      projectId,
+      conversationId: conversation.id,
+      messageId: null,
+      role: null,
+      createdAt: conversation.createdAt,
+      branchIds: new Set(),
+      fields,
+      terms: countTerms(fields),
+    };
+  }
+
+  private messageDocument(
+    projectId: string,
+    conversationId: string,
+    message: LocalConversationMessage
+  ): SearchDocument {
+    const fields: SearchDocument['fields'] = [];
+    const partFields = message.parts.map(partText).filter((field) => field !== null);
+    // Assistant messages repeat their text parts in `content`; only index it when there are none
+    if (message.content && !partFields.some((field) => field.field === 'text')) {
+      fields.push({ field: 'text', text: message.content });
+    }
+    fields.push(...partFields);
+
+    return {
+      key: documentKey(projectId, conversationId, message.id),
+      projectId,
+      conversationId,
+      messageId: message.id,
+      role: message.role,
+      createdAt: message.createdAt,
+      branchIds: contextBranchIds(message.context),
+      fields,
+      terms: countTerms(fields),
+    };
+  }
+
+  private isTracked(projectId: string): boolean {
+    if (this.projects.has(projectId)) {
+      return true;
+    }
+    if (this.loading.has(projectId)) {
+      this.staleWhileLoading.add(projectId);
+    }
+    return false;
+  }
+
+  private async load(projectId: string): Promise<void> {
+    if (this.projects.has(projectId)) {
+      return;
+    }
+
+    const pending =
+      this.loading.get(projectId) ??
+      (async () => {
+        do {
+          this.staleWhileLoading.delete(projectId);
+          const conversations = await this.source.loadConversations(projectId);
+          this.clearProject(projectId);
+          this.projects.set(projectId, new Map());
+          for (const conversation of conversations) {
+            this.indexConversation(projectId, conversation, conversation.messages);
+          }
+        } while (this.staleWhileLoading.has(projectId));
+      })().finally(() => this.loading.delete(projectId));
+
+    this.loading.set(projectId, pending);
+    await pending;
+  }
+
+  private indexConversation(
+    projectId: string,
+    conversation: LocalConversation,
+    messages?: LocalConversationMessage[]
+  ): void {
+    if (messages) {
+      for (const key of [...(this.projects.get(projectId)?.get(conversation.id) ?? [])]) {
+        this.remove(key);
+      }
+      for (const message of messages) {
+        this.add(this.messageDocument(projectId, conversation.id, message));
+      }
+    }
+    this.add(this.titleDocument(projectId, conversation));
+  }
+
+  /** Re-indexes a conversation's title, and its messages when given */
+  updateConversation(
+    projectId: string,
+    conversation: LocalConversation,
+    messages?: LocalConversationMessage[]
+  ): void {
+    if (this.isTracked(projectId)) {
+      this.indexConversation(projectId, conversation, messages);
+    }
+  }
+
+  /** Replaces the index of a conversation's messages */
+  replaceMessages(
+    projectId: string,
+    conversationId: string,
+    messages: LocalConversationMessage[]
+  ): void {
+    if (!this.isTracked(projectId)) {
+      return;
+    }
+
+    const keys = this.projects.get(projectId)?.get(conversationId) ?? new Set<string>();
+    const titleKey = documentKey(projectId, conversationId, null);
+    for (const key of [...keys]) {
+      if (key !== titleKey) {
+        this.remove(key);
+      }
+    }
+    for (const message of messages) {
+      this.add(this.messageDocument(projectId, conversationId, message));
+    }
+  }
+
+  updateMessage(
+    projectId: string,
+    conversationId: string,
+    message: LocalConversationMessage
+  ): void {
+    if (this.isTracked(projectId)) {
+      this.add(this.messageDocument(projectId, conversationId, message));
+    }
+  }
+
+  removeConversation(projectId: string, conversationId: string): void {
+    if (!this.isTracked(projectId)) {
+      return;
+    }
+
+    const conversations = this.projects.get(projectId);
+    for (const key of [...(conversations?.get(conversationId) ?? [])]) {
+      this.remove(key);
+    }
+    conversations?.delete(conversationId);
+  }
+
+  /** Forgets a project; it is indexed again from storage the next time it is searched */
+  removeProject(projectId: string): void {
+    if (this.loading.has(projectId)) {
+      this.staleWhileLoading.add(projectId);
+    }
+    this.clearProject(projectId);
+  }
+
+  private clearProject(projectId: string): void {
+    for (const keys of this.projects.get(projectId)?.values() ?? []) {
+      for (const key of [...keys]) {
+        this.remove(key);
+      }
+    }
+    this.projects.delete(projectId);
+  }
+
+  private matchingKeys(term: string): Set<string> {
+    const keys = new Set<string>();
+    for (const [indexed, documents] of this.postings) {
+      if (indexed.startsWith(term)) {
+        for (const key of documents) {
+          keys.add(key);
+        }
+      }
+    }
+    return keys;
+  }
+
+  private matchesFilters(document: SearchDocument, query: LocalSearchQuery): boolean {
+    if (query.conversationId && document.conversationId !== query.conversationId) {
+      return false;
+    }
+    if (query.role && document.role !== query.role) {
+      return false;
+    }
+    if (query.branchId && !this.hasBranch(document, query.branchId)) {
+      return false;
+    }
+
+    const createdAt = new Date(document.createdAt).getTime();
+    if (query.from && createdAt < new Date(query.from).getTime()) {
+      return false;
+    }
+    return !(query.to && createdAt > new Date(query.to).getTime());
+  }
+
+  /** Titles belong to every branch their conversation's messages refer to */
+  private hasBranch(document: SearchDocument, branchId: string): boolean {
+    if (document.messageId !== null) {
+      return document.branchIds.has(branchId);
+    }
+
+    const keys = this.projects.get(document.projectId)?.get(document.conversationId) ?? [];
+    return [...keys].some((key) => this.documents.get(key)?.branchIds.has(branchId));
+  }
+
+  private toHit(document: SearchDocument, terms: string[]): LocalSearchHit {
+    let best: (ReturnType<typeof createSnippet> & { field: LocalSearchField }) | null = null;
+    for (const { field, text } of document.fields) {
+      const snippet = createSnippet(text, terms);
+      if (!best || snippet.matches > best.matches) {
+        best = { ...snippet, field };
+      }
+    }
+
+    let score = 0;
+    for (const term of terms) {
+      for (const [indexed, count] of document.terms) {
+        if (indexed.startsWith(term)) {
+          score += indexed === term ? count * 2 : count;
+        }
+      }
+    }
+
+    const title = this.documents.get(
+      documentKey(document.projectId, document.conversationId, null)
+    );
+    return {
+      projectId: document.projectId,
+      conversationId: document.conversationId,
+      conversationTitle: title?.fields[0]?.text ?? null,
+      messageId: document.messageId,
+      role: document.role,
+      createdAt: document.createdAt,
+      field: best?.field ?? 'text',
+      snippet: best?.snippet ?? '',
+      highlights: best?.highlights ?? [],
+      score: document.messageId === null ? score * TITLE_WEIGHT : score,
+    };
+  }
+
+  async search(query: LocalSearchQuery): Promise<LocalSearchResult> {
+    const terms = [...new Set(tokenize(query.text))];
+    if (terms.length === 0) {
+      return { hits: [], total: 0 };
+    }
+
+    const projectIds = query.projectId ? [query.projectId] : await this.source.listProjectIds();
+    for (const projectId of projectIds) {
+      await this.load(projectId);
+    }
+
+    const [firstTerm, ...otherTerms] = terms;
+    let candidates = this.matchingKeys(firstTerm!);
+    for (const term of otherTerms) {
+      const keys = this.matchingKeys(term);
+      candidates = new Set([...candidates].filter((key) => keys.has(key)));
+    }
+
+    const projects = new Set(projectIds);
+    const hits = [...candidates]
+      .map((key) => this.documents.get(key))
+      .filter((document): document is SearchDocument => !!document)
+      .filter((document) => projects.has(document.projectId))
+      .filter((document) => this.matchesFilters(document, query))
+      .map((document) => this.toHit(document, terms))
+      .sort(
+        (a, b) =>
+          b.score - a.score || new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      );
+
+    const offset = query.offset ?? 0;
+    return {
+      hits: hits.slice(offset, offset + (query.limit ?? DEFAULT_LIMIT)),
+      total: hits.length,
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import { createRequire } from 'node:module';
+
+export type SqliteValue = string | number | bigint | Uint8Array | null;
+
+export interface SqliteStatement {
+  all(...params: SqliteValue[]): unknown[];
+  get(...params: SqliteValue[]): unknown;
+  run(...params: SqliteValue[]): unknown;
+}
+
+/** The subset of the `bun:sqlite` and `better-sqlite3` APIs the SQLite backend relies on */
+export interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  transaction<A extends unknown[]>(fn: (...args: A) => void): (...args: A) => void;
+  close(): void;
+}
+
+interface SqliteDatabaseConstructor {
+  new (filename: string): SqliteDatabase;
+}
+
+/**
+ * Opens a database with the SQLite binding of the current runtime: the built-in `bun:sqlite`
+ * under Bun and `better-sqlite3` under Node, where the Next.js server runs.
+ */
+export async function openSqliteDatabase(filename: string): Promise<SqliteDatabase> {
+  // Required at runtime so bundlers leave the native binding to Node's own resolution
+  const require = createRequire(import.meta.url);
+  const moduleName = process.versions.bun ? 'bun:sqlite' : 'better-sqlite3';
+  const module = require(moduleName) as {
+    Database?: SqliteDatabaseConstructor;
+    default?: SqliteDatabaseConstructor;
+  };
+  const Database = module.Database ?? module.default;
+  if (!Database) {
+    throw new Error(`SQLite binding ${moduleName} is not available`);
+  }
+
+  const database = new Database(filename);
+  database.exec('PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;');
+  return database;
+}
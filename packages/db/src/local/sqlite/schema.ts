@@ -0,0 +1,104 @@
+import type { SqliteDatabase } from './driver';
+
+/**
+ * Schema migrations, applied in order. The database records how many ran in `user_version`,
+ * the SQLite counterpart of the `version` field in the JSON files.
+ */
+const SCHEMA_MIGRATIONS: string[] = [
+  `
+  CREATE TABLE projects (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE branches (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX branches_project_idx ON branches(project_id);
+
+  CREATE TABLE canvases (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX canvases_project_idx ON canvases(project_id);
+
+  CREATE TABLE frames (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    canvas_id TEXT NOT NULL REFERENCES canvases(id) ON DELETE CASCADE,
+    branch_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX frames_canvas_idx ON frames(canvas_id);
+  CREATE INDEX frames_project_branch_idx ON frames(project_id, branch_id);
+
+  CREATE TABLE conversations (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX conversations_project_idx ON conversations(project_id);
+
+  CREATE TABLE messages (
+    conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    role TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (conversation_id, id)
+  );
+  CREATE INDEX messages_position_idx ON messages(conversation_id, position);
+
+  CREATE TABLE files (
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    content TEXT NOT NULL,
+    PRIMARY KEY (project_id, path)
+  );
+
+  CREATE TABLE assets (
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    content BLOB NOT NULL,
+    PRIMARY KEY (project_id, path)
+  );
+  `,
+  `
+  CREATE TABLE tool_audit (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX tool_audit_project_idx ON tool_audit(project_id, seq);
+  `,
+];
+
+export function migrateSchema(database: SqliteDatabase): void {
+  const { user_version: current } = database.prepare('PRAGMA user_version').get() as {
+    user_version: number;
+  };
+  if (current > SCHEMA_MIGRATIONS.length) {
+    throw new Error(
+      `The local SQLite database was created by a newer version of Onlook (schema ${current}, supported ${SCHEMA_MIGRATIONS.length})`
+    );
+  }
+
+  const migrate = database.transaction(() => {
+    for (let version = current + 1; version <= SCHEMA_MIGRATIONS.length; version++) {
+      database.exec(SCHEMA_MIGRATIONS[version - 1]!);
+      database.exec(`PRAGMA user_version = ${version}`);
+    }
+  });
+  migrate();
+}
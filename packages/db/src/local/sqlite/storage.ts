@@ -0,0 +1,1048 @@
+import path from 'path';
+import { ensureAccess } from '../access';
+import {
+  exportProjectArchive,
+  importProjectArchive,
+  type LocalProjectExportOptions,
+  type LocalProjectImportOptions,
+  type LocalProjectImportResult,
+} from '../archive';
+import type { LocalMessageQuery, LocalProjectSnapshot, LocalStorageBackend } from '../backend';
+import {
+  createToolAuditEntry,
+  type LocalToolAuditQuery,
+  type NewLocalToolAuditEntry,
+} from '../repositories/audit';
+import type { LocalBranchUpdate, NewLocalBranch } from '../repositories/branch';
+import type { NewLocalCanvas } from '../repositories/canvas';
+import type {
+  LocalConversationMessageUpdate,
+  LocalConversationUpdate,
+  NewLocalConversation,
+} from '../repositories/conversation';
+import type { LocalFrameFilters, LocalFrameUpdate, NewLocalFrame } from '../repositories/frame';
+import type { LocalProjectUpdate, NewLocalProject } from '../repositories/project';
+import { resolveDefaultProjectsDir } from '../root';
+import {
+  branchFile,
+  conversationMessageSchema,
+  defaultBrandState,
+  defaultCanvasState,
+  frameSchema,
+  projectFile,
+} from '../schemas';
+import { ConversationSearchIndex, type LocalSearchQuery, type LocalSearchResult } from '../search';
+import type {
+  LocalBranch,
+  LocalBrandUpdate,
+  LocalCanvas,
+  LocalCanvasState,
+  LocalConversation,
+  LocalConversationFile,
+  LocalConversationMessage,
+  LocalFrame,
+  LocalProject,
+  LocalToolAuditEntry,
+} from '../types';
+import { generateId, nowIso } from '../utils';
+import { openSqliteDatabase, type SqliteDatabase, type SqliteValue } from './driver';
+import { migrateSchema } from './schema';
+
+export const SQLITE_DATABASE_FILE = 'onlook.sqlite';
+
+type CanvasRecord = Omit<LocalCanvas, 'frames'>;
+
+interface DataRow {
+  data: string;
+}
+
+function parseRow<T>(row: unknown): T | null {
+  return row ? (JSON.parse((row as DataRow).data) as T) : null;
+}
+
+function parseRows<T>(rows: unknown[]): T[] {
+  return rows.map((row) => JSON.parse((row as DataRow).data) as T);
+}
+
+function normalizeName(name: string | undefined): string {
+  return name?.trim() || 'Untitled Project';
+}
+
+function normalizeRelativePath(filePath: string): string {
+  const normalized = path.posix.normalize(filePath.replace(/\\/g, '/'));
+  return normalized === '.' ? '' : normalized.replace(/^\/+|\/+$/g, '');
+}
+
+function changes(result: unknown): number {
+  return (result as { changes: number }).changes;
+}
+
+/**
+ * Local storage on an embedded SQLite database, for projects with long chat histories or many
+ * frames. Messages and frames are rows of their own, so updating one does not rewrite the rest.
+ */
+export class SqliteLocalStorage implements LocalStorageBackend {
+  readonly kind = 'sqlite';
+
+  private readonly ready: Promise<SqliteDatabase>;
+
+  private readonly searchIndex = new ConversationSearchIndex({
+    listProjectIds: async () => (await this.listProjects()).map((project) => project.id),
+    loadConversations: (projectId) => this.loadConversationFiles(projectId),
+  });
+
+  constructor(projectsDir?: string) {
+    this.ready = this.initialize(projectsDir).catch((error) => {
+      console.error('Failed to initialize local SQLite storage:', error);
+      throw error;
+    });
+  }
+
+  private async initialize(providedPath?: string): Promise<SqliteDatabase> {
+    const projectsDir = providedPath ?? (await resolveDefaultProjectsDir());
+    await ensureAccess(projectsDir, {
+      intent: 'write',
+      createIfMissing: true,
+      kind: 'directory',
+    });
+
+    const database = await openSqliteDatabase(path.join(projectsDir, SQLITE_DATABASE_FILE));
+    migrateSchema(database);
+    return database;
+  }
+
+  private async db(): Promise<SqliteDatabase> {
+    return this.ready;
+  }
+
+  async close(): Promise<void> {
+    (await this.db()).close();
+  }
+
+  private all(database: SqliteDatabase, sql: string, ...params: SqliteValue[]): unknown[] {
+    return database.prepare(sql).all(...params);
+  }
+
+  private get(database: SqliteDatabase, sql: string, ...params: SqliteValue[]): unknown {
+    return database.prepare(sql).get(...params) ?? null;
+  }
+
+  private run(database: SqliteDatabase, sql: string, ...params: SqliteValue[]): number {
+    return changes(database.prepare(sql).run(...params));
+  }
+
+  // Row writers shared by the public operations and snapshot imports
+  private putProject(database: SqliteDatabase, project: LocalProject): void {
+    const data = projectFile.schema.parse(project);
+    this.run(
+      database,
+      // An upsert rather than REPLACE, which would cascade into the project's other rows
+      `INSERT INTO projects (id, data, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+      data.id,
+      JSON.stringify(data),
+      data.updatedAt
+    );
+  }
+
+  private putBranch(database: SqliteDatabase, branch: LocalBranch): void {
+    const data = branchFile.schema.parse(branch);
+    this.run(
+      database,
+      'INSERT OR REPLACE INTO branches (id, project_id, data, updated_at) VALUES (?, ?, ?, ?)',
+      data.id,
+      data.projectId,
+      JSON.stringify(data),
+      data.updatedAt
+    );
+  }
+
+  private putCanvas(database: SqliteDatabase, canvas: CanvasRecord): void {
+    const { id, projectId, name, createdAt, updatedAt, state } = canvas;
+    this.run(
+      database,
+      `INSERT INTO canvases (id, project_id, data, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+      id,
+      projectId,
+      JSON.stringify({ id, projectId, name, createdAt, updatedAt, state }),
+      updatedAt
+    );
+  }
+
+  private putFrame(database: SqliteDatabase, frame: LocalFrame): void {
+    const data = frameSchema.parse(frame);
+    this.run(
+      database,
+      `INSERT INTO frames (id, project_id, canvas_id, branch_id, data, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET canvas_id = excluded.canvas_id,
+         branch_id = excluded.branch_id, data = excluded.data, updated_at = excluded.updated_at`,
+      data.id,
+      data.projectId,
+      data.canvasId,
+      data.branchId,
+      JSON.stringify(data),
+      data.updatedAt
+    );
+  }
+
+  private putConversation(database: SqliteDatabase, conversation: LocalConversation): void {
+    const { id, projectId, title, createdAt, updatedAt, suggestions } = conversation;
+    this.run(
+      database,
+      `INSERT INTO conversations (id, project_id, data, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+      id,
+      projectId,
+      JSON.stringify({ id, projectId, title, createdAt, updatedAt, suggestions }),
+      updatedAt
+    );
+  }
+
+  private putMessages(
+    database: SqliteDatabase,
+    conversationId: string,
+    messages: LocalConversationMessage[]
+  ): void {
+    this.run(database, 'DELETE FROM messages WHERE conversation_id = ?', conversationId);
+    const insert = database.prepare(
+      `INSERT INTO messages (conversation_id, id, position, role, created_at, data)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    );
+    messages.forEach((message, position) => {
+      const data = conversationMessageSchema.parse(message);
+      insert.run(
+        conversationId,
+        data.id,
+        position,
+        data.role,
+        data.createdAt,
+        JSON.stringify(data)
+      );
+    });
+  }
+
+  private putFile(database: SqliteDatabase, projectId: string, filePath: string, content: string) {
+    this.run(
+      database,
+      'INSERT OR REPLACE INTO files (project_id, path, content) VALUES (?, ?, ?)',
+      projectId,
+      normalizeRelativePath(filePath),
+      content
+    );
+  }
+
+  private putAsset(
+    database: SqliteDatabase,
+    projectId: string,
+    assetPath: string,
+    content: string | Uint8Array
+  ) {
+    this.run(
+      database,
+      'INSERT OR REPLACE INTO assets (project_id, path, content) VALUES (?, ?, ?)',
+      projectId,
+      normalizeRelativePath(assetPath),
+      typeof content === 'string' ? new TextEncoder().encode(content) : content
+    );
+  }
+
+  private requireProject(database: SqliteDatabase, projectId: string): LocalProject {
+    const project = parseRow<LocalProject>(
+      this.get(database, 'SELECT data FROM projects WHERE id = ?', projectId)
+    );
+    if (!project) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+    return project;
+  }
+
+  private readCanvas(database: SqliteDatabase, projectId: string, canvasId: string) {
+    const canvas = parseRow<CanvasRecord>(
+      this.get(
+        database,
+        'SELECT data FROM canvases WHERE id = ? AND project_id = ?',
+        canvasId,
+        projectId
+      )
+    );
+    if (!canvas) {
+      return null;
+    }
+
+    const frames = parseRows<LocalFrame>(
+      this.all(database, 'SELECT data FROM frames WHERE canvas_id = ? ORDER BY rowid', canvasId)
+    );
+    return { ...canvas, frames };
+  }
+
+  private touchCanvas(database: SqliteDatabase, projectId: string, canvasId: string, at: string) {
+    const canvas = this.readCanvas(database, projectId, canvasId);
+    if (canvas) {
+      this.putCanvas(database, { ...canvas, updatedAt: at });
+    }
+  }
+
+  private readConversation(database: SqliteDatabase, projectId: string, conversationId: string) {
+    return parseRow<LocalConversation>(
+      this.get(
+        database,
+        'SELECT data FROM conversations WHERE id = ? AND project_id = ?',
+        conversationId,
+        projectId
+      )
+    );
+  }
+
+  private requireConversation(
+    database: SqliteDatabase,
+    projectId: string,
+    conversationId: string
+  ): LocalConversation {
+    this.requireProject(database, projectId);
+    const conversation = this.readConversation(database, projectId, conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    return conversation;
+  }
+
+  private listPaths(
+    database: SqliteDatabase,
+    table: 'files' | 'assets',
+    projectId: string,
+    dirPath: string
+  ): string[] {
+    const prefix = normalizeRelativePath(dirPath);
+    const rows = prefix
+      ? this.all(
+          database,
+          `SELECT path FROM ${table} WHERE project_id = ? AND substr(path, 1, ?) = ? ORDER BY path`,
+          projectId,
+          prefix.length + 1,
+          `${prefix}/`
+        )
+      : this.all(
+          database,
+          `SELECT path FROM ${table} WHERE project_id = ? ORDER BY path`,
+          projectId
+        );
+    return rows.map((row) => (row as { path: string }).path);
+  }
+
+  // Project operations
+  async createProject(project: NewLocalProject): Promise<LocalProject> {
+    const database = await this.db();
+    const now = nowIso();
+    const fullProject: LocalProject = {
+      ...project,
+      name: normalizeName(project.name),
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+      version: projectFile.version,
+      brand: defaultBrandState(),
+    };
+
+    database.transaction(() => {
+      this.putProject(database, fullProject);
+      this.putBranch(database, {
+        id: generateId(),
+        projectId: fullProject.id,
+        name: 'main',
+        description: null,
+        isDefault: true,
+        sandboxId: null,
+        sandboxUrl: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+    })();
+    return fullProject;
+  }
+
+  async getProject(projectId: string): Promise<LocalProject | null> {
+    const database = await this.db();
+    return parseRow(this.get(database, 'SELECT data FROM projects WHERE id = ?', projectId));
+  }
+
+  async updateProject(
+    projectId: string,
+    updates: LocalProjectUpdate
+  ): Promise<LocalProject | null> {
+    const project = await this.getProject(projectId);
+    if (!project) {
+      return null;
+    }
+
+    const now = nowIso();
+    const updatedProject: LocalProject = {
+      ...project,
+      ...updates,
+      brand: updates.brand
+        ? {
+            colors: updates.brand.colors ?? project.brand.colors,
+            fonts: updates.brand.fonts ?? project.brand.fonts,
+            updatedAt: now,
+          }
+        : project.brand,
+      name: updates.name ? normalizeName(updates.name) : project.name,
+      updatedAt: now,
+      version: projectFile.version,
+    };
+
+    this.putProject(await this.db(), updatedProject);
+    return updatedProject;
+  }
+
+  async updateBrand(projectId: string, updates: LocalBrandUpdate): Promise<LocalProject | null> {
+    const project = await this.getProject(projectId);
+    if (!project) {
+      return null;
+    }
+
+    const now = nowIso();
+    const updatedProject: LocalProject = {
+      ...project,
+      brand: {
+        colors: updates.colors ?? project.brand.colors,
+        fonts: updates.fonts ?? project.brand.fonts,
+        updatedAt: now,
+      },
+      updatedAt: now,
+    };
+
+    this.putProject(await this.db(), updatedProject);
+    return updatedProject;
+  }
+
+  async deleteProject(projectId: string): Promise<boolean> {
+    const database = await this.db();
+    const deleted = this.run(database, 'DELETE FROM projects WHERE id = ?', projectId) > 0;
+    this.searchIndex.removeProject(projectId);
+    return deleted;
+  }
+
+  async listProjects(): Promise<LocalProject[]> {
+    const database = await this.db();
+    return parseRows(this.all(database, 'SELECT data FROM projects ORDER BY updated_at DESC'));
+  }
+
+  // Branch operations
+  async createBranch(projectId: string, branch: NewLocalBranch): Promise<LocalBranch> {
+    const database = await this.db();
+    this.requireProject(database, projectId);
+
+    const now = nowIso();
+    const fullBranch: LocalBranch = {
+      ...branch,
+      projectId,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.putBranch(database, fullBranch);
+    return fullBranch;
+  }
+
+  async listBranches(projectId: string): Promise<LocalBranch[]> {
+    const database = await this.db();
+    return parseRows(
+      this.all(
+        database,
+        'SELECT data FROM branches WHERE project_id = ? ORDER BY updated_at DESC',
+        projectId
+      )
+    );
+  }
+
+  async updateBranch(
+    projectId: string,
+    branchId: string,
+    updates: LocalBranchUpdate
+  ): Promise<LocalBranch | null> {
+    const database = await this.db();
+    const branch = parseRow<LocalBranch>(
+      this.get(
+        database,
+        'SELECT data FROM branches WHERE id = ? AND project_id = ?',
+        branchId,
+        projectId
+      )
+    );
+    if (!branch) {
+      return null;
+    }
+
+    const updated: LocalBranch = { ...branch, ...updates, updatedAt: nowIso() };
+    this.putBranch(database, updated);
+    return updated;
+  }
+
+  async deleteBranch(projectId: string, branchId: string): Promise<boolean> {
+    const database = await this.db();
+    if (!(await this.getProject(projectId))) {
+      return false;
+    }
+    this.run(database, 'DELETE FROM branches WHERE id = ? AND project_id = ?', branchId, projectId);
+    return true;
+  }
+
+  // Canvas operations
+  async createCanvas(canvas: NewLocalCanvas): Promise<LocalCanvas> {
+    const database = await this.db();
+    this.requireProject(database, canvas.projectId);
+
+    const now = nowIso();
+    const defaults = defaultCanvasState();
+    const fullCanvas: LocalCanvas = {
+      ...canvas,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+      frames: canvas.frames ?? [],
+      state: {
+        scale: canvas.state?.scale ?? defaults.scale,
+        position: {
+          x: canvas.state?.position?.x ?? defaults.position.x,
+          y: canvas.state?.position?.y ?? defaults.position.y,
+        },
+      },
+    };
+
+    database.transaction(() => {
+      this.putCanvas(database, fullCanvas);
+      for (const frame of fullCanvas.frames) {
+        this.putFrame(database, { ...frame, canvasId: fullCanvas.id });
+      }
+    })();
+    return fullCanvas;
+  }
+
+  async getCanvas(projectId: string, canvasId: string): Promise<LocalCanvas | null> {
+    return this.readCanvas(await this.db(), projectId, canvasId);
+  }
+
+  async listCanvases(projectId: string): Promise<LocalCanvas[]> {
+    const database = await this.db();
+    const rows = this.all(
+      database,
+      'SELECT id FROM canvases WHERE project_id = ? ORDER BY updated_at DESC',
+      projectId
+    );
+    return rows
+      .map((row) => this.readCanvas(database, projectId, (row as { id: string }).id))
+      .filter((canvas): canvas is LocalCanvas => canvas !== null);
+  }
+
+  async updateCanvasState(
+    projectId: string,
+    canvasId: string,
+    state: Partial<LocalCanvasState>
+  ): Promise<LocalCanvas | null> {
+    const database = await this.db();
+    const canvas = this.readCanvas(database, projectId, canvasId);
+    if (!canvas) {
+      return null;
+    }
+
+    const updatedCanvas: LocalCanvas = {
+      ...canvas,
+      state: {
+        scale: state.scale ?? canvas.state.scale,
+        position: {
+          x: state.position?.x ?? canvas.state.position.x,
+          y: state.position?.y ?? canvas.state.position.y,
+        },
+      },
+      updatedAt: nowIso(),
+    };
+    this.putCanvas(database, updatedCanvas);
+    return updatedCanvas;
+  }
+
+  async findCanvasById(
+    canvasId: string
+  ): Promise<{ canvas: LocalCanvas; projectId: string } | null> {
+    const database = await this.db();
+    const row = this.get(database, 'SELECT project_id FROM canvases WHERE id = ?', canvasId) as {
+      project_id: string;
+    } | null;
+    if (!row) {
+      return null;
+    }
+
+    const canvas = this.readCanvas(database, row.project_id, canvasId);
+    return canvas ? { canvas, projectId: row.project_id } : null;
+  }
+
+  // Frame operations
+  async createFrame(frame: NewLocalFrame): Promise<LocalFrame> {
+    const database = await this.db();
+    this.requireProject(database, frame.projectId);
+    if (!this.readCanvas(database, frame.projectId, frame.canvasId)) {
+      throw new Error(`Canvas ${frame.canvasId} not found for project ${frame.projectId}`);
+    }
+
+    const now = nowIso();
+    const fullFrame: LocalFrame = {
+      ...frame,
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    database.transaction(() => {
+      this.putFrame(database, fullFrame);
+      this.touchCanvas(database, frame.projectId, frame.canvasId, now);
+    })();
+    return fullFrame;
+  }
+
+  async listFrames(projectId: string, filters: LocalFrameFilters = {}): Promise<LocalFrame[]> {
+    const database = await this.db();
+    const conditions = ['project_id = ?'];
+    const params: SqliteValue[] = [projectId];
+    if (filters.canvasId) {
+      conditions.push('canvas_id = ?');
+      params.push(filters.canvasId);
+    }
+    if (filters.branchId) {
+      conditions.push('branch_id = ?');
+      params.push(filters.branchId);
+    }
+
+    return parseRows(
+      this.all(
+        database,
+        `SELECT data FROM frames WHERE ${conditions.join(' AND ')} ORDER BY updated_at DESC`,
+        ...params
+      )
+    );
+  }
+
+  async updateFrame(
+    projectId: string,
+    frameId: string,
+    updates: LocalFrameUpdate
+  ): Promise<LocalFrame | null> {
+    const database = await this.db();
+    const existing = parseRow<LocalFrame>(
+      this.get(
+        database,
+        'SELECT data FROM frames WHERE id = ? AND project_id = ?',
+        frameId,
+        projectId
+      )
+    );
+    if (!existing) {
+      return null;
+    }
+
+    const updated: LocalFrame = {
+      ...existing,
+      ...updates,
+      position: updates.position ?? existing.position,
+      dimension: updates.dimension ?? existing.dimension,
+      canvasId: updates.canvasId ?? existing.canvasId,
+      branchId: updates.branchId ?? existing.branchId,
+      url: updates.url ?? existing.url,
+      name: updates.name ?? existing.name,
+      updatedAt: nowIso(),
+    };
+
+    database.transaction(() => {
+      this.putFrame(database, updated);
+      this.touchCanvas(database, projectId, updated.canvasId, updated.updatedAt);
+    })();
+    return updated;
+  }
+
+  async deleteFrame(projectId: string, frameId: string): Promise<boolean> {
+    const database = await this.db();
+    const frame = parseRow<LocalFrame>(
+      this.get(
+        database,
+        'SELECT data FROM frames WHERE id = ? AND project_id = ?',
+        frameId,
+        projectId
+      )
+    );
+    if (!frame) {
+      return false;
+    }
+
+    database.transaction(() => {
+      this.run(database, 'DELETE FROM frames WHERE id = ?', frameId);
+      this.touchCanvas(database, projectId, frame.canvasId, nowIso());
+    })();
+    return true;
+  }
+
+  async findFrame(
+    frameId: string
+  ): Promise<{ frame: LocalFrame; canvas: LocalCanvas; projectId: string } | null> {
+    const database = await this.db();
+    const frame = parseRow<LocalFrame>(
+      this.get(database, 'SELECT data FROM frames WHERE id = ?', frameId)
+    );
+    if (!frame) {
+      return null;
+    }
+
+    const canvas = this.readCanvas(database, frame.projectId, frame.canvasId);
+    return canvas ? { frame, canvas, projectId: frame.projectId } : null;
+  }
+
+  // Conversation operations
+  async createConversation(conversation: NewLocalConversation): Promise<LocalConversation> {
+    const database = await this.db();
+    this.requireProject(database, conversation.projectId);
+
+    const now = nowIso();
+    const metadata: LocalConversation = {
+      id: generateId(),
+      projectId: conversation.projectId,
+      title: conversation.title ?? null,
+      createdAt: now,
+      updatedAt: now,
+      suggestions: [],
+    };
+    this.putConversation(database, metadata);
+    this.searchIndex.updateConversation(metadata.projectId, metadata, []);
+    return metadata;
+  }
+
+  async getConversation(
+    projectId: string,
+    conversationId: string
+  ): Promise<LocalConversation | null> {
+    return this.readConversation(await this.db(), projectId, conversationId);
+  }
+
+  async listConversations(projectId: string): Promise<LocalConversation[]> {
+    const database = await this.db();
+    return parseRows(
+      this.all(
+        database,
+        'SELECT data FROM conversations WHERE project_id = ? ORDER BY updated_at DESC',
+        projectId
+      )
+    );
+  }
+
+  async updateConversation(
+    projectId: string,
+    conversationId: string,
+    updates: LocalConversationUpdate
+  ): Promise<LocalConversation | null> {
+    const database = await this.db();
+    const conversation = this.readConversation(database, projectId, conversationId);
+    if (!conversation) {
+      return null;
+    }
+
+    const updated: LocalConversation = {
+      ...conversation,
+      title: updates.title ?? conversation.title,
+      suggestions: updates.suggestions ?? conversation.suggestions,
+      updatedAt: nowIso(),
+    };
+    this.putConversation(database, updated);
+    this.searchIndex.updateConversation(projectId, updated);
+    return updated;
+  }
+
+  async deleteConversation(projectId: string, conversationId: string): Promise<boolean> {
+    const database = await this.db();
+    const deleted =
+      this.run(
+        database,
+        'DELETE FROM conversations WHERE id = ? AND project_id = ?',
+        conversationId,
+        projectId
+      ) > 0;
+    this.searchIndex.removeConversation(projectId, conversationId);
+    return deleted;
+  }
+
+  listConversationMessages(
+    projectId: string,
+    conversationId: string
+  ): Promise<LocalConversationMessage[]> {
+    return this.queryConversationMessages(projectId, conversationId);
+  }
+
+  async queryConversationMessages(
+    projectId: string,
+    conversationId: string,
+    query: LocalMessageQuery = {}
+  ): Promise<LocalConversationMessage[]> {
+    const database = await this.db();
+    if (!this.readConversation(database, projectId, conversationId)) {
+      return [];
+    }
+
+    const params: SqliteValue[] = [conversationId];
+    let roleCondition = '';
+    if (query.role) {
+      roleCondition = 'AND role = ?';
+      params.push(query.role);
+    }
+    // SQLite treats a negative limit as no limit
+    params.push(query.limit ?? -1, query.offset ?? 0);
+
+    return parseRows(
+      this.all(
+        database,
+        `SELECT data FROM messages WHERE conversation_id = ? ${roleCondition}
+         ORDER BY position LIMIT ? OFFSET ?`,
+        ...params
+      )
+    );
+  }
+
+  async countConversationMessages(projectId: string, conversationId: string): Promise<number> {
+    const database = await this.db();
+    if (!this.readConversation(database, projectId, conversationId)) {
+      return 0;
+    }
+
+    const row = this.get(
+      database,
+      'SELECT count(*) AS count FROM messages WHERE conversation_id = ?',
+      conversationId
+    ) as { count: number };
+    return row.count;
+  }
+
+  async replaceConversationMessages(
+    projectId: string,
+    conversationId: string,
+    messages: LocalConversationMessage[]
+  ): Promise<void> {
+    const database = await this.db();
+    const conversation = this.requireConversation(database, projectId, conversationId);
+    database.transaction(() => {
+      this.putMessages(database, conversationId, messages);
+      this.putConversation(database, { ...conversation, updatedAt: nowIso() });
+    })();
+    this.searchIndex.replaceMessages(projectId, conversationId, messages);
+  }
+
+  async updateConversationMessage(
+    projectId: string,
+    conversationId: string,
+    messageId: string,
+    updates: LocalConversationMessageUpdate
+  ): Promise<void> {
+    const database = await this.db();
+    const conversation = this.requireConversation(database, projectId, conversationId);
+    const existing = parseRow<LocalConversationMessage>(
+      this.get(
+        database,
+        'SELECT data FROM messages WHERE conversation_id = ? AND id = ?',
+        conversationId,
+        messageId
+      )
+    );
+    if (!existing) {
+      throw new Error(`Message ${messageId} not found`);
+    }
+
+    const updated = conversationMessageSchema.parse({
+      ...existing,
+      ...updates,
+      context: updates.context ?? existing.context,
+      parts: updates.parts ?? existing.parts,
+      checkpoints: updates.checkpoints ?? existing.checkpoints,
+      createdAt: updates.createdAt ?? existing.createdAt,
+    });
+
+    database.transaction(() => {
+      this.run(
+        database,
+        'UPDATE messages SET created_at = ?, data = ? WHERE conversation_id = ? AND id = ?',
+        updated.createdAt,
+        JSON.stringify(updated),
+        conversationId,
+        messageId
+      );
+      this.putConversation(database, { ...conversation, updatedAt: nowIso() });
+    })();
+    this.searchIndex.updateMessage(projectId, conversationId, updated);
+  }
+
+  searchConversations(query: LocalSearchQuery): Promise<LocalSearchResult> {
+    return this.searchIndex.search(query);
+  }
+
+  // File operations
+  async saveFile(projectId: string, filePath: string, content: string): Promise<void> {
+    const database = await this.db();
+    this.requireProject(database, projectId);
+    this.putFile(database, projectId, filePath, content);
+  }
+
+  async readFile(projectId: string, filePath: string): Promise<string | null> {
+    const database = await this.db();
+    const row = this.get(
+      database,
+      'SELECT content FROM files WHERE project_id = ? AND path = ?',
+      projectId,
+      normalizeRelativePath(filePath)
+    ) as { content: string } | null;
+    return row?.content ?? null;
+  }
+
+  async listFiles(projectId: string, dirPath = ''): Promise<string[]> {
+    return this.listPaths(await this.db(), 'files', projectId, dirPath);
+  }
+
+  async listAssets(projectId: string, dirPath = ''): Promise<string[]> {
+    return this.listPaths(await this.db(), 'assets', projectId, dirPath);
+  }
+
+  async saveAsset(
+    projectId: string,
+    assetPath: string,
+    content: string | Uint8Array
+  ): Promise<void> {
+    const database = await this.db();
+    this.requireProject(database, projectId);
+    this.putAsset(database, projectId, assetPath, content);
+  }
+
+  // Snapshot operations
+  // Tool audit operations
+  async appendToolAuditEntry(
+    projectId: string,
+    entry: NewLocalToolAuditEntry
+  ): Promise<LocalToolAuditEntry> {
+    const database = await this.db();
+    if (!this.get(database, 'SELECT id FROM projects WHERE id = ?', projectId)) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+
+    const created = createToolAuditEntry(projectId, entry);
+    this.run(
+      database,
+      'INSERT INTO tool_audit (id, project_id, created_at, data) VALUES (?, ?, ?, ?)',
+      created.id,
+      projectId,
+      created.createdAt,
+      JSON.stringify(created)
+    );
+    return created;
+  }
+
+  async listToolAuditEntries(
+    projectId: string,
+    query: LocalToolAuditQuery = {}
+  ): Promise<LocalToolAuditEntry[]> {
+    const database = await this.db();
+    return parseRows(
+      this.all(
+        database,
+        'SELECT data FROM tool_audit WHERE project_id = ? ORDER BY seq DESC LIMIT ? OFFSET ?',
+        projectId,
+        query.limit ?? -1,
+        query.offset ?? 0
+      )
+    );
+  }
+
+  private async loadConversationFiles(projectId: string): Promise<LocalConversationFile[]> {
+    const conversations: LocalConversationFile[] = [];
+    for (const conversation of await this.listConversations(projectId)) {
+      conversations.push({
+        ...conversation,
+        messages: await this.listConversationMessages(projectId, conversation.id),
+      });
+    }
+    return conversations;
+  }
+
+  async exportProjectSnapshot(projectId: string): Promise<LocalProjectSnapshot | null> {
+    const database = await this.db();
+    const project = await this.getProject(projectId);
+    if (!project) {
+      return null;
+    }
+
+    const conversations = await this.loadConversationFiles(projectId);
+
+    const files = this.all(
+      database,
+      'SELECT path, content FROM files WHERE project_id = ? ORDER BY path',
+      projectId
+    ) as LocalProjectSnapshot['files'];
+    const assets = (
+      this.all(
+        database,
+        'SELECT path, content FROM assets WHERE project_id = ? ORDER BY path',
+        projectId
+      ) as { path: string; content: Uint8Array }[]
+    ).map(({ path: assetPath, content }) => ({
+      path: assetPath,
+      content: new Uint8Array(content),
+    }));
+
+    return {
+      project,
+      branches: await this.listBranches(projectId),
+      canvases: await this.listCanvases(projectId),
+      conversations,
+      files,
+      assets,
+    };
+  }
+
+  async importProjectSnapshot(snapshot: LocalProjectSnapshot): Promise<LocalProject> {
+    const database = await this.db();
+    const { project } = snapshot;
+
+    database.transaction(() => {
+      this.run(database, 'DELETE FROM projects WHERE id = ?', project.id);
+      this.putProject(database, project);
+      for (const branch of snapshot.branches) {
+        this.putBranch(database, { ...branch, projectId: project.id });
+      }
+      for (const canvas of snapshot.canvases) {
+        this.putCanvas(database, { ...canvas, projectId: project.id });
+        for (const frame of canvas.frames) {
+          this.putFrame(database, { ...frame, projectId: project.id, canvasId: canvas.id });
+        }
+      }
+      for (const { messages, ...conversation } of snapshot.conversations) {
+        this.putConversation(database, { ...conversation, projectId: project.id });
+        this.putMessages(database, conversation.id, messages);
+      }
+      for (const file of snapshot.files) {
+        this.putFile(database, project.id, file.path, file.content);
+      }
+      for (const asset of snapshot.assets) {
+        this.putAsset(database, project.id, asset.path, asset.content);
+      }
+    })();
+    this.searchIndex.removeProject(project.id);
+
+    return project;
+  }
+
+  // Archive operations
+  exportProject(
+    projectId: string,
+    options?: LocalProjectExportOptions
+  ): Promise<Uint8Array | null> {
+    return exportProjectArchive(this, projectId, options);
+  }
+
+  importProject(
+    archive: Uint8Array,
+    options?: LocalProjectImportOptions
+  ): Promise<LocalProjectImportResult> {
+    return importProjectArchive(this, archive, options);
+  }
+}
@@ -0,0 +1,140 @@
+const BLOCK_SIZE = 512;
+const NAME_LENGTH = 100;
+const PREFIX_LENGTH = 155;
+
+export interface TarEntry {
+  path: string;
+  content: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function writeString(header: Uint8Array, offset: number, length: number, value: string): void {
+  const bytes = encoder.encode(value);
+  if (bytes.length > length) {
+    throw new Error(`Tar header field too long: ${value}`);
+  }
+  header.set(bytes, offset);
+}
+
+function writeOctal(header: Uint8Array, offset: number, length: number, value: number): void {
+  writeString(header, offset, length, `${value.toString(8).padStart(length - 1, '0')}\0`);
+}
+
+function readString(header: Uint8Array, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function readOctal(header: Uint8Array, offset: number, length: number): number {
+  const value = readString(header, offset, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+/** Splits a path over the ustar name and prefix fields, at a `/` */
+function splitPath(entryPath: string): { name: string; prefix: string } {
+  if (encoder.encode(entryPath).length <= NAME_LENGTH) {
+    return { name: entryPath, prefix: '' };
+  }
+
+  for (
+    let index = entryPath.indexOf('/');
+    index !== -1;
+    index = entryPath.indexOf('/', index + 1)
+  ) {
+    const prefix = entryPath.slice(0, index);
+    const name = entryPath.slice(index + 1);
+    if (
+      encoder.encode(prefix).length <= PREFIX_LENGTH &&
+      encoder.encode(name).length <= NAME_LENGTH
+    ) {
+      return { name, prefix };
+    }
+  }
+  throw new Error(`Path is too long for a tar archive: ${entryPath}`);
+}
+
+function createHeader(entry: TarEntry, mtime: number): Uint8Array {
+  const header = new Uint8Array(BLOCK_SIZE);
+  const { name, prefix } = splitPath(entry.path);
+
+  writeString(header, 0, NAME_LENGTH, name);
+  writeOctal(header, 100, 8, 0o644);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, entry.content.length);
+  writeOctal(header, 136, 12, mtime);
+  header.fill(0x20, 148, 156);
+  writeString(header, 156, 1, '0');
+  writeString(header, 257, 6, 'ustar\0');
+  writeString(header, 263, 2, '00');
+  writeString(header, 345, PREFIX_LENGTH, prefix);
+
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeString(header, 148, 8, `${checksum.toString(8).padStart(6, '0')}\0 `);
+  return header;
+}
+
+const paddedSize = (size: number) => Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+/** Writes regular files into an uncompressed ustar archive */
+export function createTar(entries: TarEntry[], modifiedAt = new Date()): Uint8Array {
+  const mtime = Math.floor(modifiedAt.getTime() / 1000);
+  const size = entries.reduce(
+    (total, entry) => total + BLOCK_SIZE + paddedSize(entry.content.length),
+    BLOCK_SIZE * 2
+  );
+
+  const archive = new Uint8Array(size);
+  let offset = 0;
+  for (const entry of entries) {
+    archive.set(createHeader(entry, mtime), offset);
+    offset += BLOCK_SIZE;
+    archive.set(entry.content, offset);
+    offset += paddedSize(entry.content.length);
+  }
+  return archive;
+}
+
+/** Reads the regular files of a ustar archive, skipping directories and other entry types */
+export function readTar(archive: Uint8Array): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const expected = readOctal(header, 148, 8);
+    const actual = header.reduce(
+      (sum, byte, index) => sum + (index >= 148 && index < 156 ? 0x20 : byte),
+      0
+    );
+    if (expected !== actual) {
+      throw new Error('Invalid tar archive: header checksum mismatch');
+    }
+
+    const name = readString(header, 0, NAME_LENGTH);
+    const prefix = readString(header, 345, PREFIX_LENGTH);
+    const size = readOctal(header, 124, 12);
+    const type = readString(header, 156, 1);
+    offset += BLOCK_SIZE;
+
+    if (offset + size > archive.length) {
+      throw new Error(`Invalid tar archive: ${name} is truncated`);
+    }
+    if (type === '' || type === '0') {
+      entries.push({
+        path: prefix ? `${prefix}/${name}` : name,
+        content: archive.slice(offset, offset + size),
+      });
+    }
+    offset += paddedSize(size);
+  }
+
+  return entries;
+}
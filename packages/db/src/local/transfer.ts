@@ -0,0 +1,37 @@
+import type { LocalStorageBackend } from './backend';
+
+export interface LocalTransferResult {
+  projects: number;
+  conversations: number;
+  messages: number;
+}
+
+/**
+ * Copies every project with its branches, canvases, conversations, files and assets from one
+ * backend to another, keeping ids. Projects that already exist in the target are replaced.
+ */
+export async function copyLocalProjects(
+  source: LocalStorageBackend,
+  target: LocalStorageBackend,
+  onProject?: (name: string) => void
+): Promise<LocalTransferResult> {
+  const result: LocalTransferResult = { projects: 0, conversations: 0, messages: 0 };
+
+  for (const { id } of await source.listProjects()) {
+    const snapshot = await source.exportProjectSnapshot(id);
+    if (!snapshot) {
+      continue;
+    }
+
+    await target.importProjectSnapshot(snapshot);
+    onProject?.(snapshot.project.name);
+    result.projects += 1;
+    result.conversations += snapshot.conversations.length;
+    result.messages += snapshot.conversations.reduce(
+      (count, conversation) => count + conversation.messages.length,
+      0
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,129 @@
+import type {
+  ChatModelPreferences,
+  ChatSuggestion,
+  Commands,
+  McpServerConfig,
+  ToolAuditEntry,
+  ToolPermissionPolicy,
+} from '@onlook/models';
+
+export interface LocalBrandColor {
+  id: string;
+  value: string;
+  label?: string;
+}
+
+export interface LocalBrandFont {
+  id: string;
+  family: string;
+  files: string[];
+  styles?: string[];
+  weights?: string[];
+  displayName?: string;
+}
+
+export interface LocalBrandState {
+  colors: LocalBrandColor[];
+  fonts: LocalBrandFont[];
+  updatedAt: string;
+}
+
+export interface LocalBrandUpdate {
+  colors?: LocalBrandColor[];
+  fonts?: LocalBrandFont[];
+}
+
+export interface LocalProject {
+  id: string;
+  name: string;
+  description?: string | null;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+  previewImgUrl?: string | null;
+  previewImgPath?: string | null;
+  sandboxId?: string | null;
+  sandboxUrl?: string | null;
+  version: number;
+  brand: LocalBrandState;
+  /** Overrides the user's model choice per chat type */
+  chatModels?: ChatModelPreferences;
+  /** Allow, deny and ask rules for the tools the AI calls in this project */
+  toolPermissions?: ToolPermissionPolicy;
+  /** MCP servers whose tools the AI can use in this project */
+  mcpServers?: McpServerConfig[];
+  /** Install, run and build commands and the processes supervised next to the dev server */
+  commands?: Commands;
+}
+
+export interface LocalBranch {
+  id: string;
+  projectId: string;
+  name: string;
+  description?: string | null;
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+  sandboxId?: string | null;
+  sandboxUrl?: string | null;
+}
+
+export interface LocalCanvasState {
+  scale: number;
+  position: { x: number; y: number };
+}
+
+export interface LocalCanvas {
+  id: string;
+  projectId: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  frames: LocalFrame[];
+  state: LocalCanvasState;
+}
+
+export interface LocalFrame {
+  id: string;
+  projectId: string;
+  canvasId: string;
+  branchId: string;
+  name: string;
+  position: { x: number; y: number };
+  dimension: { width: number; height: number };
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LocalConversation {
+  id: string;
+  projectId: string;
+  title: string | null;
+  createdAt: string;
+  updatedAt: string;
+  suggestions: ChatSuggestion[];
+}
+
+export type LocalConversationMessageRole = 'user' | 'assistant' | 'system';
+
+export interface LocalConversationMessage {
+  id: string;
+  conversationId: string;
+  content: string;
+  createdAt: string;
+  role: LocalConversationMessageRole;
+  context: unknown[];
+  parts: unknown[];
+  checkpoints: unknown[];
+  applied?: boolean | null;
+  commitOid?: string | null;
+  snapshots?: unknown;
+}
+
+/** A conversation as stored on disk, one file per conversation including its messages */
+export interface LocalConversationFile extends LocalConversation {
+  messages: LocalConversationMessage[];
+}
+
+export type LocalToolAuditEntry = ToolAuditEntry;
@@ -0,0 +1,11 @@
+export function generateId(): string {
+  return Math.random().toString(36).substring(2) + Date.now().toString(36);
+}
+
+export function sortByUpdatedAtDesc<T extends { updatedAt: string }>(items: T[]): T[] {
+  return items.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+}
+
+export function nowIso(): string {
+  return new Date().toISOString();
+}
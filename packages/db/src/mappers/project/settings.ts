@@ -7,6 +7,7 @@ export const fromDbProjectSettings = (dbProjectSettings: DbProjectSettings): Pro
             build: dbProjectSettings.buildCommand,
             run: dbProjectSettings.runCommand,
             install: dbProjectSettings.installCommand,
+            processes: dbProjectSettings.processes,
         }
     };
 };
@@ -16,6 +17,7 @@ export const toDbProjectSettings = (projectId: string, projectSettings: ProjectS
         projectId,
         buildCommand: projectSettings.commands.build ?? '',
         runCommand: projectSettings.commands.run ?? '',
-        installCommand: projectSettings.commands.install ?? ''
+        installCommand: projectSettings.commands.install ?? '',
+        processes: projectSettings.commands.processes ?? [],
     };
 };
\ No newline at end of file
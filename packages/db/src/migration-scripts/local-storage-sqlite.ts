@@ -0,0 +1,63 @@
+import { config } from 'dotenv';
+import { expandHomePath, resolveDefaultProjectsDir } from '../local/root';
+import { SqliteLocalStorage } from '../local/sqlite/storage';
+import { copyLocalProjects } from '../local/transfer';
+import { LocalStorage } from '../local-storage';
+
+// Load .env file
+config({ path: '../../.env' });
+
+/**
+ * Moves local projects between the JSON file layout and the SQLite backend.
+ *
+ *   bun src/migration-scripts/local-storage-sqlite.ts import [projectsDir]
+ *     copies every project from the JSON layout into onlook.sqlite in the same directory
+ *   bun src/migration-scripts/local-storage-sqlite.ts export [projectsDir] [targetDir]
+ *     writes every project in onlook.sqlite back out as JSON, into targetDir if given
+ */
+export async function migrateLocalStorage(
+    direction: 'import' | 'export',
+    projectsDir: string,
+    targetDir = projectsDir,
+) {
+    const json = new LocalStorage(direction === 'import' ? projectsDir : targetDir);
+    const sqlite = new SqliteLocalStorage(projectsDir);
+
+    try {
+        const [source, target] = direction === 'import' ? [json, sqlite] : [sqlite, json];
+        const result = await copyLocalProjects(source, target, (name) => {
+            console.log(`  └─ ${name}`);
+        });
+        console.log(
+            `Copied ${result.projects} projects, ${result.conversations} conversations and ${result.messages} messages`,
+        );
+        return result;
+    } finally {
+        await sqlite.close();
+    }
+}
+
+// CLI runner
+if (require.main === module) {
+    (async () => {
+        try {
+            const [direction, projectsDirArg, targetDirArg] = process.argv.slice(2);
+            if (direction !== 'import' && direction !== 'export') {
+                throw new Error(
+                    'Usage: local-storage-sqlite.ts <import|export> [projectsDir] [targetDir]',
+                );
+            }
+
+            const projectsDir = projectsDirArg
+                ? expandHomePath(projectsDirArg)
+                : await resolveDefaultProjectsDir();
+            const targetDir = targetDirArg ? expandHomePath(targetDirArg) : undefined;
+            console.log(`🚀 Running local storage ${direction} in ${projectsDir}...`);
+            await migrateLocalStorage(direction, projectsDir, targetDir);
+            process.exit(0);
+        } catch (error) {
+            console.error('💥 Local storage migration failed:', error);
+            process.exit(1);
+        }
+    })();
+}
@@ -1,3 +1,4 @@
+import type { ProcessCommand } from '@onlook/models';
 import { relations } from 'drizzle-orm';
 import { jsonb, pgTable, text, uuid } from 'drizzle-orm/pg-core';
 import { createInsertSchema, createUpdateSchema } from 'drizzle-zod';
@@ -11,6 +12,7 @@ export const projectSettings = pgTable('project_settings', {
     runCommand: text('run_command').notNull().default(''),
     buildCommand: text('build_command').notNull().default(''),
     installCommand: text('install_command').notNull().default(''),
+    processes: jsonb('processes').$type<ProcessCommand[]>().notNull().default([]),
 }).enableRLS();
 
 export const projectSettingsInsertSchema = createInsertSchema(projectSettings);
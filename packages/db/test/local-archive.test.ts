@@ -0,0 +1,250 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { tmpdir } from 'os';
+import { gunzipSync, gzipSync } from 'zlib';
+import { readProjectArchive } from '../src/local/archive';
+import { SqliteLocalStorage } from '../src/local/sqlite/storage';
+import { createTar, readTar } from '../src/local/tar';
+import { LocalStorage } from '../src/local-storage';
+
+async function seedProject(storage: LocalStorage) {
+  const project = await storage.createProject({ name: 'Portable', tags: ['demo'] });
+  const [branch] = await storage.listBranches(project.id);
+  const canvas = await storage.createCanvas({ projectId: project.id, name: 'Canvas' });
+  const frame = await storage.createFrame({
+    projectId: project.id,
+    canvasId: canvas.id,
+    branchId: branch!.id,
+    name: 'Desktop',
+    position: { x: 0, y: 0 },
+    dimension: { width: 1440, height: 900 },
+    url: 'http://localhost:3000',
+  });
+  const conversation = await storage.createConversation({ projectId: project.id, title: 'Chat' });
+  await storage.replaceConversationMessages(project.id, conversation.id, [
+    {
+      id: 'm1',
+      conversationId: conversation.id,
+      content: 'Make the header blue',
+      role: 'user',
+      createdAt: new Date(Date.UTC(2025, 0, 1)).toISOString(),
+      context: [{ type: 'file', path: 'app/page.tsx', branchId: branch!.id }],
+      parts: [],
+      checkpoints: [],
+    },
+  ]);
+  await storage.saveFile(project.id, path.join('app', 'page.tsx'), 'export default 1;');
+  await storage.saveAsset(project.id, 'logo.png', new Uint8Array([1, 2, 3]));
+  return { project, branch: branch!, canvas, frame, conversation };
+}
+
+describe('project archives', () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'onlook-archive-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('round-trips tar entries with long paths', () => {
+    const longPath = `${'nested/'.repeat(20)}file.txt`;
+    const entries = [
+      { path: 'a.txt', content: new TextEncoder().encode('hello') },
+      { path: longPath, content: new Uint8Array(600).fill(7) },
+    ];
+    expect(readTar(createTar(entries))).toEqual(entries);
+  });
+
+  it('lists every entry in the manifest and leaves chat history out by default', async () => {
+    const storage = new LocalStorage(path.join(baseDir, 'source'));
+    const { project } = await seedProject(storage);
+
+    const archive = await storage.exportProject(project.id);
+    const { manifest, entries } = readProjectArchive(archive!);
+    expect(manifest).toMatchObject({
+      format: 'onlook-project',
+      project: { id: project.id, name: 'Portable' },
+      includesChatHistory: false,
+    });
+    expect([...entries.keys()].sort()).toEqual([
+      'assets/logo.png',
+      'branches.json',
+      'canvases.json',
+      'files/app/page.tsx',
+      'project.json',
+    ]);
+    expect(await storage.exportProject('missing')).toBeNull();
+  });
+
+  it('imports into another machine with the same ids and chat history', async () => {
+    const source = new LocalStorage(path.join(baseDir, 'source'));
+    const { project, branch, frame, conversation } = await seedProject(source);
+    const archive = await source.exportProject(project.id, { includeChatHistory: true });
+
+    const target = new SqliteLocalStorage(path.join(baseDir, 'target'));
+    const { project: imported, idMap } = await target.importProject(archive!);
+    expect(imported.id).toBe(project.id);
+    expect(imported.brand).toEqual(project.brand);
+
+    const branchId = idMap.branches[branch.id]!;
+    expect(await target.listBranches(imported.id)).toMatchObject([{ id: branchId, name: 'main' }]);
+    expect(await target.findFrame(idMap.frames[frame.id]!)).toMatchObject({
+      projectId: imported.id,
+      frame: { branchId, canvasId: idMap.canvases[frame.canvasId] },
+    });
+
+    const [message] = await target.listConversationMessages(
+      imported.id,
+      idMap.conversations[conversation.id]!
+    );
+    expect(message?.content).toBe('Make the header blue');
+    expect(message?.context).toEqual([{ type: 'file', path: 'app/page.tsx', branchId }]);
+    expect(await target.readFile(imported.id, 'app/page.tsx')).toBe('export default 1;');
+    await target.close();
+  });
+
+  it('gives the project a new id when it collides with an existing one', async () => {
+    const storage = new LocalStorage(path.join(baseDir, 'source'));
+    const { project, frame } = await seedProject(storage);
+    const archive = await storage.exportProject(project.id);
+
+    const { project: copy, idMap } = await storage.importProject(archive!);
+    expect(copy.id).not.toBe(project.id);
+    expect(idMap.project).toEqual({ [project.id]: copy.id });
+    expect((await storage.listProjects()).map((item) => item.name)).toEqual([
+      'Portable',
+      'Portable',
+    ]);
+
+    expect((await storage.findFrame(frame.id))?.projectId).toBe(project.id);
+    expect((await storage.findFrame(idMap.frames[frame.id]!))?.projectId).toBe(copy.id);
+  });
+
+  it('leaves secrets out of the archive and grants nothing on import', async () => {
+    const storage = new LocalStorage(path.join(baseDir, 'source'));
+    const { project } = await seedProject(storage);
+    await storage.updateProject(project.id, {
+      mcpServers: [
+        {
+          id: 's1',
+          name: 'tools',
+          enabled: true,
+          transport: 'stdio',
+          command: 'node',
+          args: ['server.js'],
+          env: { API_TOKEN: 'secret' },
+        },
+        {
+          id: 's2',
+          name: 'remote',
+          enabled: true,
+          transport: 'http',
+          url: 'http://localhost:4000/mcp',
+          headers: { Authorization: 'Bearer secret' },
+        },
+      ],
+      toolPermissions: { rules: [{ id: 'r1', action: 'allow', tool: 'terminal_command' }] },
+      commands: { install: 'bun install', processes: [{ name: 'api', command: 'bun api.ts' }] },
+    });
+
+    const archive = await storage.exportProject(project.id);
+    const { entries } = readProjectArchive(archive!);
+    expect(new TextDecoder().decode(entries.get('project.json'))).not.toContain('secret');
+
+    const { project: imported } = await storage.importProject(archive!);
+    expect(imported.mcpServers).toEqual([
+      {
+        id: 's1',
+        name: 'tools',
+        enabled: false,
+        transport: 'stdio',
+        command: 'node',
+        args: ['server.js'],
+      },
+      {
+        id: 's2',
+        name: 'remote',
+        enabled: false,
+        transport: 'http',
+        url: 'http://localhost:4000/mcp',
+      },
+    ]);
+    expect(imported.toolPermissions).toBeUndefined();
+    expect(imported.commands).toEqual({ install: 'bun install' });
+  });
+
+  it('bundles the sandbox source tree and restores it into a new sandbox', async () => {
+    const storage = new LocalStorage(path.join(baseDir, 'source'));
+    const { project, branch, frame } = await seedProject(storage);
+    await storage.updateProject(project.id, {
+      sandboxId: 'local-abc',
+      sandboxUrl: 'http://localhost:3000',
+    });
+    await storage.updateBranch(project.id, branch.id, {
+      sandboxId: 'local-abc',
+      sandboxUrl: 'http://localhost:3000',
+    });
+    const sandboxesDir = path.join(baseDir, 'sandboxes');
+    await fs.mkdir(path.join(sandboxesDir, 'local-abc', 'app'), { recursive: true });
+    await fs.mkdir(path.join(sandboxesDir, 'local-abc', 'node_modules', 'react'), {
+      recursive: true,
+    });
+    await fs.writeFile(path.join(sandboxesDir, 'local-abc', 'app', 'layout.tsx'), 'layout');
+    await fs.writeFile(path.join(sandboxesDir, 'local-abc', 'node_modules', 'react', 'index.js'), '');
+
+    const archive = await storage.exportProject(project.id, {
+      getSandboxPath: (sandboxId) => path.join(sandboxesDir, sandboxId),
+    });
+    expect([...readProjectArchive(archive!).entries.keys()]).toContain(
+      'sandboxes/local-abc/app/layout.tsx'
+    );
+    expect([...readProjectArchive(archive!).entries.keys()]).not.toContain(
+      'sandboxes/local-abc/node_modules/react/index.js'
+    );
+
+    const target = new LocalStorage(path.join(baseDir, 'target'));
+    const { project: imported, idMap } = await target.importProject(archive!, {
+      createSandbox: () => ({
+        id: 'local-new',
+        url: 'http://localhost:3456',
+        path: path.join(sandboxesDir, 'local-new'),
+      }),
+    });
+    expect(idMap.sandboxes).toEqual({ 'local-abc': 'local-new' });
+    expect(imported).toMatchObject({ sandboxId: 'local-new', sandboxUrl: 'http://localhost:3456' });
+    expect(await target.listBranches(imported.id)).toMatchObject([
+      { sandboxId: 'local-new', sandboxUrl: 'http://localhost:3456' },
+    ]);
+    expect((await target.findFrame(idMap.frames[frame.id]!))?.frame.url).toBe(
+      'http://localhost:3456'
+    );
+    expect(
+      await fs.readFile(path.join(sandboxesDir, 'local-new', 'app', 'layout.tsx'), 'utf8')
+    ).toBe('layout');
+
+    const { project: detached } = await target.importProject(archive!);
+    expect(detached).toMatchObject({ sandboxId: null, sandboxUrl: null });
+  });
+
+  it('rejects archives whose entries do not match their checksums', async () => {
+    const storage = new LocalStorage(path.join(baseDir, 'source'));
+    const { project } = await seedProject(storage);
+    const archive = await storage.exportProject(project.id);
+
+    const tampered = readTar(new Uint8Array(gunzipSync(archive!))).map((entry) =>
+      entry.path === 'files/app/page.tsx'
+        ? { ...entry, content: new TextEncoder().encode('export default 2;') }
+        : entry
+    );
+    await expect(
+      storage.importProject(new Uint8Array(gzipSync(createTar(tampered))))
+    ).rejects.toThrow('Checksum mismatch for files/app/page.tsx');
+    await expect(storage.importProject(new Uint8Array([1, 2, 3]))).rejects.toThrow(
+      'Not an Onlook project archive'
+    );
+  });
+});
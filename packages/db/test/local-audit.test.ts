@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { tmpdir } from 'os';
+import { TOOL_AUDIT_FILE } from '../src/local/repositories/audit';
+import { SqliteLocalStorage } from '../src/local/sqlite/storage';
+import { LocalStorage, type NewLocalToolAuditEntry } from '../src/local-storage';
+
+const entry = (toolCallId: string, overrides: Partial<NewLocalToolAuditEntry> = {}) =>
+  ({
+    toolCallId,
+    toolName: 'terminal_command',
+    summary: 'npm run build',
+    decision: 'ask',
+    reason: 'Terminal commands need approval',
+    decidedBy: 'user',
+    allowed: true,
+    ...overrides,
+  }) satisfies NewLocalToolAuditEntry;
+
+describe('tool audit log', () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'onlook-audit-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  for (const kind of ['json', 'sqlite'] as const) {
+    it(`records decisions newest first in the ${kind} backend`, async () => {
+      const storage = kind === 'json' ? new LocalStorage(baseDir) : new SqliteLocalStorage(baseDir);
+      const project = await storage.createProject({ name: 'Audit', tags: [] });
+
+      const first = await storage.appendToolAuditEntry(project.id, entry('call-1'));
+      expect(first.projectId).toBe(project.id);
+      expect(first.id).toBeTruthy();
+      expect(first.createdAt).toBeTruthy();
+
+      await Promise.all([
+        storage.appendToolAuditEntry(project.id, entry('call-2', { allowed: false })),
+        storage.appendToolAuditEntry(project.id, entry('call-3', { decidedBy: 'policy' })),
+      ]);
+
+      const entries = await storage.listToolAuditEntries(project.id);
+      expect(entries.map((e) => e.toolCallId)).toEqual(['call-3', 'call-2', 'call-1']);
+      expect(entries[1]!.allowed).toBe(false);
+
+      const page = await storage.listToolAuditEntries(project.id, { limit: 1, offset: 1 });
+      expect(page.map((e) => e.toolCallId)).toEqual(['call-2']);
+
+      expect(await storage.listToolAuditEntries('missing')).toEqual([]);
+      await expect(storage.appendToolAuditEntry('missing', entry('call-4'))).rejects.toThrow();
+
+      if (storage instanceof SqliteLocalStorage) {
+        await storage.close();
+      }
+    });
+  }
+
+  it('skips a torn last line in the JSON log', async () => {
+    const storage = new LocalStorage(baseDir);
+    const project = await storage.createProject({ name: 'Audit', tags: [] });
+    await storage.appendToolAuditEntry(project.id, entry('call-1'));
+
+    const projectDir = await storage.projects.requireProjectDir(project.id);
+    await fs.appendFile(path.join(projectDir, TOOL_AUDIT_FILE), '{"toolCallId":"call-2"');
+
+    const entries = await storage.listToolAuditEntries(project.id);
+    expect(entries.map((e) => e.toolCallId)).toEqual(['call-1']);
+  });
+
+  it('stores tool permission rules with the project', async () => {
+    const storage = new LocalStorage(baseDir);
+    const project = await storage.createProject({ name: 'Rules', tags: [] });
+    const rules = [
+      { id: 'r1', action: 'allow' as const, tool: 'terminal_command', command: 'npm test' },
+    ];
+
+    await storage.updateProject(project.id, { toolPermissions: { rules } });
+    const reloaded = await new LocalStorage(baseDir).getProject(project.id);
+    expect(reloaded?.toolPermissions?.rules).toEqual(rules);
+  });
+});
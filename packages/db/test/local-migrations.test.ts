@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { tmpdir } from 'os';
+import { z } from 'zod';
+import { readJsonFile, readVersionedFile, writeFileAtomic } from '../src/local/json-file';
+import { runMigrations, type VersionedFileDefinition } from '../src/local/migrations';
+import { LocalStorage } from '../src/local-storage';
+
+const readJson = async <T>(targetPath: string): Promise<T> => {
+  const raw = await fs.readFile(targetPath, 'utf-8');
+  return JSON.parse(raw) as T;
+};
+
+const noteFile: VersionedFileDefinition<{ id: string; text: string; tags: string[] }> = {
+  kind: 'note',
+  version: 2,
+  schema: z.object({ id: z.string(), text: z.string(), tags: z.array(z.string()) }),
+  migrations: {
+    1: (data, context) => ({ ...data, id: data.id ?? context.id }),
+    2: (data) => ({ ...data, tags: data.tags ?? [] }),
+  },
+};
+
+describe('local storage migrations', () => {
+  it('runs every migration from the stored version', () => {
+    const { value, migrated } = runMigrations(noteFile, { text: 'hello' }, { id: 'n1' });
+    expect(migrated).toBe(true);
+    expect(value).toEqual({ id: 'n1', text: 'hello', tags: [] });
+  });
+
+  it('leaves current files alone', () => {
+    const stored = { version: 2, id: 'n1', text: 'hello', tags: ['a'] };
+    const { migrated } = runMigrations(noteFile, stored, { id: 'n1' });
+    expect(migrated).toBe(false);
+  });
+
+  it('rejects files written by a newer version', () => {
+    expect(() =>
+      runMigrations(noteFile, { version: 3, id: 'n1', text: '', tags: [] }, { id: 'n1' })
+    ).toThrow(/newer version/);
+  });
+});
+
+describe('local storage files', () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'onlook-json-file-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('writes atomically without leaving temp files behind', async () => {
+    const target = path.join(baseDir, 'nested', 'note.json');
+    await Promise.all([
+      writeFileAtomic(target, JSON.stringify({ n: 1 })),
+      writeFileAtomic(target, JSON.stringify({ n: 2 })),
+    ]);
+
+    expect(await readJson<{ n: number }>(target)).toEqual({ n: 2 });
+    expect(await fs.readdir(path.dirname(target))).toEqual(['note.json']);
+  });
+
+  it('recovers a complete temp file left by an interrupted write', async () => {
+    const target = path.join(baseDir, 'note.json');
+    await fs.writeFile(target, '{"n": 1');
+    await fs.writeFile(`${target}.tmp`, JSON.stringify({ n: 2 }));
+
+    expect(await readJsonFile(target)).toEqual({ n: 2 });
+    expect(await fs.readdir(baseDir)).toEqual(['note.json']);
+  });
+
+  it('moves unreadable files aside instead of overwriting them', async () => {
+    const target = path.join(baseDir, 'note.json');
+    await fs.writeFile(target, 'not json');
+
+    expect(await readJsonFile(target)).toBeNull();
+    const entries = await fs.readdir(baseDir);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toStartWith('note.json.corrupt-');
+  });
+
+  it('persists migrated files with the current version', async () => {
+    const target = path.join(baseDir, 'n1.json');
+    await fs.writeFile(target, JSON.stringify({ text: 'hello' }));
+
+    const value = await readVersionedFile(target, noteFile, { id: 'n1' });
+    expect(value).toEqual({ id: 'n1', text: 'hello', tags: [] });
+    expect(await readJson<Record<string, unknown>>(target)).toEqual({
+      id: 'n1',
+      text: 'hello',
+      tags: [],
+      version: 2,
+    });
+  });
+});
+
+describe('LocalStorage legacy files', () => {
+  let baseDir: string;
+  let storage: LocalStorage;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'onlook-legacy-'));
+    storage = new LocalStorage(baseDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('adds brand state to unversioned project metadata', async () => {
+    const projectDir = path.join(baseDir, 'Old Project');
+    await fs.mkdir(projectDir);
+    await fs.writeFile(
+      path.join(projectDir, 'meta.json'),
+      JSON.stringify({
+        id: 'old',
+        name: 'Old Project',
+        tags: [],
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+      })
+    );
+
+    const project = await storage.getProject('old');
+    expect(project?.brand).toMatchObject({ colors: [], fonts: [] });
+
+    const meta = await readJson<{ version: number }>(path.join(projectDir, 'meta.json'));
+    expect(meta.version).toBe(2);
+  });
+
+  it('upgrades legacy conversation transcripts', async () => {
+    const project = await storage.createProject({ name: 'Chat', tags: [] });
+    const conversationPath = path.join(baseDir, 'Chat', 'conversations', 'legacy.json');
+    await fs.writeFile(
+      conversationPath,
+      JSON.stringify({
+        displayName: 'Old chat',
+        messages: [{ content: 'hi', role: 'user' }],
+      })
+    );
+
+    const [conversation] = await storage.listConversations(project.id);
+    expect(conversation).toMatchObject({ id: 'legacy', projectId: project.id, title: 'Old chat' });
+
+    const [message] = await storage.listConversationMessages(project.id, 'legacy');
+    expect(message).toMatchObject({ conversationId: 'legacy', content: 'hi', parts: [] });
+    expect(message?.id).toBeString();
+
+    const stored = await readJson<{ version: number }>(conversationPath);
+    expect(stored.version).toBe(1);
+  });
+
+  it('moves frames from the legacy frames directory into their canvas', async () => {
+    const project = await storage.createProject({ name: 'Frames', tags: [] });
+    const canvas = await storage.createCanvas({ projectId: project.id, name: 'Canvas' });
+    const framesDir = path.join(baseDir, 'Frames', 'frames');
+    await fs.mkdir(framesDir);
+    await fs.writeFile(
+      path.join(framesDir, 'f1.json'),
+      JSON.stringify({
+        id: 'f1',
+        canvasId: canvas.id,
+        branchId: 'main',
+        position: { x: '10', y: 20 },
+        dimension: { width: 100, height: 200 },
+        url: 'http://localhost:3000',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+      })
+    );
+
+    const frames = await storage.listFrames(project.id, { canvasId: canvas.id });
+    expect(frames).toHaveLength(1);
+    expect(frames[0]).toMatchObject({ id: 'f1', name: 'Frame', position: { x: 10, y: 20 } });
+    expect(await fs.readdir(framesDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { tmpdir } from 'os';
+import { createSnippet, tokenize } from '../src/local/search';
+import { SqliteLocalStorage } from '../src/local/sqlite/storage';
+import {
+  LocalStorage,
+  type LocalConversationMessage,
+  type LocalSearchQuery,
+  type LocalStorageBackend,
+} from '../src/local-storage';
+
+const message = (
+  id: string,
+  conversationId: string,
+  overrides: Partial<LocalConversationMessage>
+): LocalConversationMessage => ({
+  id,
+  conversationId,
+  content: '',
+  role: 'user',
+  createdAt: new Date(Date.UTC(2025, 0, 1)).toISOString(),
+  context: [],
+  parts: [],
+  checkpoints: [],
+  ...overrides,
+});
+
+async function seedChat(storage: LocalStorageBackend) {
+  const project = await storage.createProject({ name: 'Search', tags: [] });
+  const conversation = await storage.createConversation({
+    projectId: project.id,
+    title: 'Navbar polish',
+  });
+  await storage.replaceConversationMessages(project.id, conversation.id, [
+    message('m1', conversation.id, {
+      content: 'Can you make the HeroSection taller?',
+      parts: [{ type: 'text', text: 'Can you make the HeroSection taller?' }],
+      context: [{ type: 'file', path: 'app/page.tsx', branchId: 'b1' }],
+    }),
+    message('m2', conversation.id, {
+      role: 'assistant',
+      createdAt: new Date(Date.UTC(2025, 0, 3)).toISOString(),
+      parts: [
+        { type: 'text', text: 'Updated the hero layout.' },
+        {
+          type: 'tool-search_replace_edit_file',
+          toolCallId: 'call-1',
+          state: 'output-available',
+          input: { file_path: 'components/hero.tsx', old_string: 'h-64', new_string: 'h-96' },
+          output: 'Edited components/hero.tsx',
+        },
+      ],
+    }),
+  ]);
+  return { project, conversation };
+}
+
+describe('conversation search', () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'onlook-search-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('splits camelCase words into extra tokens', () => {
+    expect(tokenize('HeroSection hero_image')).toEqual([
+      'herosection',
+      'hero',
+      'section',
+      'hero_image',
+      'hero',
+      'image',
+    ]);
+  });
+
+  it('highlights matches inside a window around the first one', () => {
+    const text = `${'lorem '.repeat(20)}the navbar sticks and the NavBar scrolls`;
+    const { snippet, highlights } = createSnippet(text, ['navbar']);
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(highlights.map(({ start, end }) => snippet.slice(start, end))).toEqual([
+      'navbar',
+      'NavBar',
+    ]);
+  });
+
+  it('finds titles, message text and tool calls with snippets', async () => {
+    const storage = new LocalStorage(baseDir);
+    const { project, conversation } = await seedChat(storage);
+
+    const section = await storage.searchConversations({ projectId: project.id, text: 'section' });
+    expect(section.hits).toHaveLength(1);
+    expect(section.hits[0]).toMatchObject({
+      conversationId: conversation.id,
+      conversationTitle: 'Navbar polish',
+      messageId: 'm1',
+      field: 'text',
+    });
+
+    const tool = await storage.searchConversations({ projectId: project.id, text: 'h-96' });
+    expect(tool.hits.map((hit) => [hit.messageId, hit.field])).toEqual([['m2', 'tool']]);
+
+    const title = await storage.searchConversations({ text: 'navb' });
+    expect(title.hits[0]).toMatchObject({
+      messageId: null,
+      field: 'title',
+      snippet: 'Navbar polish',
+    });
+    expect(title.hits[0]?.highlights).toEqual([{ start: 0, end: 4 }]);
+  });
+
+  it('filters by role, branch and date range', async () => {
+    const storage = new LocalStorage(baseDir);
+    const { project } = await seedChat(storage);
+    const search = async (filters: Partial<LocalSearchQuery>) =>
+      (
+        await storage.searchConversations({ projectId: project.id, text: 'hero', ...filters })
+      ).hits.map((hit) => hit.messageId);
+
+    expect((await search({})).sort()).toEqual(['m1', 'm2']);
+    expect(await search({ role: 'assistant' })).toEqual(['m2']);
+    expect(await search({ branchId: 'b1' })).toEqual(['m1']);
+    expect(await search({ from: new Date(Date.UTC(2025, 0, 2)).toISOString() })).toEqual(['m2']);
+    expect(await search({ to: new Date(Date.UTC(2025, 0, 2)).toISOString() })).toEqual(['m1']);
+    expect(await search({ projectId: 'other' })).toEqual([]);
+  });
+
+  for (const kind of ['json', 'sqlite'] as const) {
+    it(`keeps the ${kind} index current as messages change`, async () => {
+      const storage = kind === 'json' ? new LocalStorage(baseDir) : new SqliteLocalStorage(baseDir);
+      const { project, conversation } = await seedChat(storage);
+      const find = async (text: string) =>
+        (await storage.searchConversations({ projectId: project.id, text })).hits.map(
+          (hit) => hit.messageId
+        );
+
+      expect(await find('taller')).toEqual(['m1']);
+
+      await storage.updateConversationMessage(project.id, conversation.id, 'm1', {
+        parts: [{ type: 'text', text: 'Make the footer sticky' }],
+      });
+      expect(await find('taller')).toEqual([]);
+      expect(await find('footer')).toEqual(['m1']);
+
+      await storage.updateConversation(project.id, conversation.id, { title: 'Footer work' });
+      expect(await find('work')).toEqual([null]);
+
+      await storage.deleteConversation(project.id, conversation.id);
+      expect(await find('footer')).toEqual([]);
+
+      if (storage instanceof SqliteLocalStorage) {
+        await storage.close();
+      }
+    });
+  }
+});
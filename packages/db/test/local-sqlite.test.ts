@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { tmpdir } from 'os';
+import { SqliteLocalStorage } from '../src/local/sqlite/storage';
+import { copyLocalProjects } from '../src/local/transfer';
+import { LocalStorage, type LocalConversationMessage } from '../src/local-storage';
+
+const createMessages = (conversationId: string, count: number): LocalConversationMessage[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `m${index}`,
+    conversationId,
+    content: `Message ${index}`,
+    role: index % 2 === 0 ? 'user' : 'assistant',
+    createdAt: new Date(Date.UTC(2025, 0, 1, 0, index)).toISOString(),
+    context: [],
+    parts: [{ type: 'text', text: `Message ${index}` }],
+    checkpoints: [],
+  }));
+
+describe('SqliteLocalStorage', () => {
+  let baseDir: string;
+  let storage: SqliteLocalStorage;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'onlook-sqlite-'));
+    storage = new SqliteLocalStorage(baseDir);
+  });
+
+  afterEach(async () => {
+    await storage.close();
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('stores projects with a default branch in a single database file', async () => {
+    const project = await storage.createProject({ name: '  SQLite Project ', tags: ['a'] });
+    expect(project.name).toBe('SQLite Project');
+    expect(await fs.readdir(baseDir)).toContain('onlook.sqlite');
+
+    const branches = await storage.listBranches(project.id);
+    expect(branches).toHaveLength(1);
+    expect(branches[0]).toMatchObject({ name: 'main', isDefault: true });
+
+    await storage.updateBrand(project.id, { colors: [{ id: 'primary', value: '#000' }] });
+    await storage.updateProject(project.id, { name: 'Renamed' });
+
+    const reopened = new SqliteLocalStorage(baseDir);
+    const fetched = await reopened.getProject(project.id);
+    expect(fetched?.name).toBe('Renamed');
+    expect(fetched?.brand.colors).toHaveLength(1);
+    await reopened.close();
+
+    expect(await storage.deleteProject(project.id)).toBe(true);
+    expect(await storage.listProjects()).toEqual([]);
+    expect(await storage.listBranches(project.id)).toEqual([]);
+  });
+
+  it('keeps frames as rows of their canvas', async () => {
+    const project = await storage.createProject({ name: 'Frames', tags: [] });
+    const canvas = await storage.createCanvas({ projectId: project.id, name: 'Canvas' });
+    const [branch] = await storage.listBranches(project.id);
+
+    const frame = await storage.createFrame({
+      projectId: project.id,
+      canvasId: canvas.id,
+      branchId: branch!.id,
+      name: 'Desktop',
+      position: { x: 0, y: 0 },
+      dimension: { width: 1440, height: 900 },
+      url: 'http://localhost:3000',
+    });
+
+    await storage.updateFrame(project.id, frame.id, { dimension: { width: 800, height: 600 } });
+    const found = await storage.findFrame(frame.id);
+    expect(found?.projectId).toBe(project.id);
+    expect(found?.frame.dimension).toEqual({ width: 800, height: 600 });
+    expect(found?.canvas.frames.map((item) => item.id)).toEqual([frame.id]);
+
+    expect(await storage.listFrames(project.id, { branchId: 'other' })).toEqual([]);
+    expect(await storage.deleteFrame(project.id, frame.id)).toBe(true);
+    expect((await storage.getCanvas(project.id, canvas.id))?.frames).toEqual([]);
+  });
+
+  it('pages through messages without loading the whole conversation', async () => {
+    const project = await storage.createProject({ name: 'Chat', tags: [] });
+    const conversation = await storage.createConversation({ projectId: project.id });
+    await storage.replaceConversationMessages(
+      project.id,
+      conversation.id,
+      createMessages(conversation.id, 10)
+    );
+
+    expect(await storage.countConversationMessages(project.id, conversation.id)).toBe(10);
+
+    const page = await storage.queryConversationMessages(project.id, conversation.id, {
+      limit: 3,
+      offset: 2,
+    });
+    expect(page.map((message) => message.id)).toEqual(['m2', 'm3', 'm4']);
+
+    const assistant = await storage.queryConversationMessages(project.id, conversation.id, {
+      role: 'assistant',
+      limit: 2,
+    });
+    expect(assistant.map((message) => message.id)).toEqual(['m1', 'm3']);
+
+    await storage.updateConversationMessage(project.id, conversation.id, 'm5', {
+      content: 'Edited',
+    });
+    const messages = await storage.listConversationMessages(project.id, conversation.id);
+    expect(messages).toHaveLength(10);
+    expect(messages[5]?.content).toBe('Edited');
+
+    await expect(
+      storage.updateConversationMessage(project.id, conversation.id, 'missing', {})
+    ).rejects.toThrow('Message missing not found');
+
+    expect(await storage.deleteConversation(project.id, conversation.id)).toBe(true);
+    expect(await storage.countConversationMessages(project.id, conversation.id)).toBe(0);
+  });
+
+  it('lists files and assets below a directory', async () => {
+    const project = await storage.createProject({ name: 'Files', tags: [] });
+    await storage.saveFile(project.id, 'app/page.tsx', 'page');
+    await storage.saveFile(project.id, 'app/blog/page.tsx', 'blog');
+    await storage.saveFile(project.id, 'apple.ts', 'apple');
+    await storage.saveAsset(project.id, 'images/logo.png', new Uint8Array([1, 2, 3]));
+
+    expect(await storage.listFiles(project.id, 'app')).toEqual([
+      'app/blog/page.tsx',
+      'app/page.tsx',
+    ]);
+    expect(await storage.readFile(project.id, './app/page.tsx')).toBe('page');
+    expect(await storage.readFile(project.id, 'missing.ts')).toBeNull();
+    expect(await storage.listAssets(project.id)).toEqual(['images/logo.png']);
+  });
+});
+
+describe('local storage transfer', () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(tmpdir(), 'onlook-transfer-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('imports the JSON layout into SQLite and exports it back unchanged', async () => {
+    const json = new LocalStorage(path.join(baseDir, 'json'));
+    const project = await json.createProject({ name: 'Round Trip', tags: ['demo'] });
+    const canvas = await json.createCanvas({ projectId: project.id, name: 'Canvas' });
+    const [branch] = await json.listBranches(project.id);
+    await json.createFrame({
+      projectId: project.id,
+      canvasId: canvas.id,
+      branchId: branch!.id,
+      name: 'Frame',
+      position: { x: 1, y: 2 },
+      dimension: { width: 3, height: 4 },
+      url: 'http://localhost:3000',
+    });
+    const conversation = await json.createConversation({ projectId: project.id, title: 'Chat' });
+    await json.replaceConversationMessages(
+      project.id,
+      conversation.id,
+      createMessages(conversation.id, 4)
+    );
+    await json.saveFile(project.id, path.join('app', 'page.tsx'), 'page');
+    await json.saveAsset(project.id, 'logo.png', new Uint8Array([9, 8, 7]));
+
+    const sqlite = new SqliteLocalStorage(path.join(baseDir, 'json'));
+    const imported = await copyLocalProjects(json, sqlite);
+    expect(imported).toEqual({ projects: 1, conversations: 1, messages: 4 });
+    expect(
+      await sqlite.queryConversationMessages(project.id, conversation.id, { limit: 1 })
+    ).toHaveLength(1);
+
+    const exported = new LocalStorage(path.join(baseDir, 'exported'));
+    await copyLocalProjects(sqlite, exported);
+    await sqlite.close();
+
+    const original = await json.exportProjectSnapshot(project.id);
+    const roundTripped = await exported.exportProjectSnapshot(project.id);
+    expect(roundTripped).toEqual(original!);
+  });
+});
@@ -3,11 +3,6 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import { tmpdir } from 'os';
 import { LocalStorage, type LocalConversationMessage } from '../src/local-storage';
-import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { promises as fs } from 'fs';
-import path from 'path';
-import { tmpdir } from 'os';
-import { LocalStorage } from '../src/local-storage';
 
 const requiredSubdirectories = [
   'files',
@@ -79,6 +74,25 @@ describe('LocalStorage project structure', () => {
       expect(stats.isDirectory()).toBe(true);
     }
   });
+
+  it('stores project commands and supervised processes in meta.json', async () => {
+    const project = await storage.createProject({ name: 'Commands Project', tags: [] });
+    const commands = {
+      install: 'bun install',
+      processes: [
+        {
+          name: 'api',
+          command: 'bun run api',
+          preferredPort: 4000,
+          healthCheck: { type: 'http' as const, path: '/health' },
+        },
+      ],
+    };
+
+    await storage.updateProject(project.id, { commands });
+    const reloaded = await new LocalStorage(baseDir).getProject(project.id);
+    expect(reloaded?.commands).toEqual(commands);
+  });
 });
 
 describe('LocalStorage left panel state persistence', () => {
@@ -84,9 +84,16 @@ export interface UngroupElementsAction extends BaseGroupAction {
     type: 'ungroup-elements';
 }
 
+export interface WriteCodeDiff extends Omit<CodeDiff, 'original' | 'generated'> {
+    /** Null when the file did not exist before the action */
+    original: string | null;
+    /** Null when the action deletes the file */
+    generated: string | null;
+}
+
 export interface WriteCodeAction {
     type: 'write-code';
-    diffs: CodeDiff[];
+    diffs: WriteCodeDiff[];
 }
 
 export interface ImageContentData {
@@ -10,6 +10,8 @@ export const IndexActionLocationSchema = BaseActionLocationSchema.extend({
     type: z.literal('index'),
     index: z.number(),
     originalIndex: z.number(),
+    // Index among the children written in code, where the items of a `.map()` count once
+    templateIndex: z.number().optional(),
 });
 
 export const ActionLocationSchema = z.discriminatedUnion('type', [
@@ -1,4 +1,4 @@
-import type { StyleChange } from '../style';
+import type { PseudoState, StyleChange } from '../style';
 
 export type Change<T> = {
     updated: T;
@@ -13,4 +13,13 @@ export interface ActionTarget {
 
 export interface StyleActionTarget extends ActionTarget {
     change: Change<Record<string, StyleChange>>;
+    /** State the change applies to, written as a Tailwind variant. The default state when unset */
+    state?: PseudoState;
+    /**
+     * Breakpoint variant the change is scoped to, e.g. `md` or `max-sm` below the smallest
+     * breakpoint. Unset for changes to the base styles
+     */
+    breakpoint?: string;
+    /** Runtime classes of the element, to find which branch of a conditional className applies */
+    runtimeClasses?: string[];
 }
@@ -13,6 +13,22 @@ export type ChatMetadata = {
 };
 
 export type ChatProviderMetadata = Record<string, Record<string, JSONValue>>;
-export type ChatDataPart = {};
+
+/** Older turns folded into a summary, stored as a `data-compaction` part of the reply */
+export type ChatCompaction = {
+    summary: string;
+    /** Last message covered by the summary; later messages are still sent in full */
+    throughMessageId: string;
+    summarizedMessageCount: number;
+    /** File and highlight context attached to the summarized messages */
+    pinnedContext: MessageContext[];
+    tokensBefore: number;
+    tokensAfter: number;
+    createdAt: string;
+};
+
+export type ChatDataPart = {
+    compaction: ChatCompaction;
+};
 export type ChatMessagePart = UIMessagePart<ChatDataPart, ChatTools>;
 export type ChatMessage = UIMessage<ChatMetadata, ChatDataPart, ChatTools>;
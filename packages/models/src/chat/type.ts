@@ -3,4 +3,5 @@ export enum ChatType {
     CREATE = 'create',
     EDIT = 'edit',
     FIX = 'fix',
+    PLAN = 'plan',
 }
@@ -1,10 +1,15 @@
 import { type CodeAction } from '../actions/code';
+export * from './symbols';
 
 export interface CodeDiffRequest {
     oid: string;
     attributes: Record<string, any>;
     textContent: string | null;
     overrideClasses: boolean | null;
+    /** Classes taken out of the element's className, such as breakpoint overrides being cleared */
+    removeClasses?: string[];
+    /** Runtime classes of the element, so added classes go into the branches that apply */
+    runtimeClasses?: string[];
     structureChanges: CodeAction[];
 }
 
@@ -0,0 +1,46 @@
+export enum CodeSymbolKind {
+    COMPONENT = 'component',
+    FUNCTION = 'function',
+    CLASS = 'class',
+    VARIABLE = 'variable',
+    TYPE = 'type',
+    INTERFACE = 'interface',
+    ENUM = 'enum',
+}
+
+export interface ComponentProp {
+    name: string;
+    /** Type annotation as written in the source, null when the props are untyped */
+    type: string | null;
+    required: boolean;
+    /** Default value from the destructured parameter, as written in the source */
+    defaultValue: string | null;
+}
+
+export interface CodeSymbol {
+    name: string;
+    kind: CodeSymbolKind;
+    path: string;
+    line: number;
+    /** Names the symbol is exported as, `default` for the default export */
+    exportNames: string[];
+    /** Only for components */
+    props?: ComponentProp[];
+}
+
+export interface CodeImport {
+    source: string;
+    line: number;
+    /** `imported` is `default` for default imports and `*` for namespaces */
+    specifiers: { imported: string; local: string }[];
+    /** `export ... from` statements, where `local` is the name exported by this file */
+    isReexport: boolean;
+}
+
+export interface FileSymbols {
+    path: string;
+    symbols: CodeSymbol[];
+    imports: CodeImport[];
+    /** Lines where each imported or top-level name is used, declarations excluded */
+    references: Record<string, number[]>;
+}
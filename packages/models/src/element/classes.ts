@@ -9,3 +9,23 @@ interface ClassParsingError {
 }
 
 export type ClassParsingResult = ParsedClasses | ClassParsingError;
+
+export enum ClassSegmentType {
+    Static = 'static',
+    Conditional = 'conditional',
+    Variant = 'variant',
+    Dynamic = 'dynamic',
+}
+
+/** Part of a className, as written in code, whose classes apply under the same condition */
+export interface ClassSegment {
+    type: ClassSegmentType;
+    classes: string[];
+    /**
+     * Source of the condition, e.g. `isActive` or `button size=lg` for a variant, or of the
+     * expression of a dynamic segment. Null for static classes.
+     */
+    expression: string | null;
+    /** Whether edits can be written into the segment */
+    editable: boolean;
+}
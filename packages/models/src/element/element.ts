@@ -12,6 +12,8 @@ export interface DomElement extends BaseDomElement {
     tagName: string;
     styles: DomElementStyles | null;
     parent: ParentDomElement | null;
+    /** Classes the element has at runtime, after conditions in its className are evaluated */
+    classes?: string[];
 }
 
 export interface DomElementStyles {
@@ -1,8 +1,16 @@
 import type { LanguageModel } from 'ai';
+import type { ChatType } from '../chat/type';
 
 export enum LLMProvider {
     ANTHROPIC = 'anthropic',
     OPENROUTER = 'openrouter',
+    OPENAI = 'openai',
+    AZURE = 'azure',
+    OLLAMA = 'ollama',
+    VLLM = 'vllm',
+    LM_STUDIO = 'lmstudio',
+    /** Replays recorded responses; the model is the fixture name */
+    MOCK = 'mock',
 }
 
 export enum ANTHROPIC_MODELS {
@@ -22,6 +30,13 @@ export enum OPENROUTER_MODELS {
 interface ModelMapping {
     [LLMProvider.ANTHROPIC]: ANTHROPIC_MODELS;
     [LLMProvider.OPENROUTER]: OPENROUTER_MODELS;
+    // Deployment names and self-hosted models are whatever the endpoint serves
+    [LLMProvider.OPENAI]: string;
+    [LLMProvider.AZURE]: string;
+    [LLMProvider.OLLAMA]: string;
+    [LLMProvider.VLLM]: string;
+    [LLMProvider.LM_STUDIO]: string;
+    [LLMProvider.MOCK]: string;
 }
 
 export type InitialModelPayload = {
@@ -31,11 +46,46 @@ export type InitialModelPayload = {
     };
 }[keyof ModelMapping];
 
+export type ProviderAuth =
+    | { type: 'none' }
+    /** Sent as `Authorization: Bearer <key>`; optional for local servers that ignore it */
+    | { type: 'bearer'; envKey: string; optional?: boolean }
+    | { type: 'api-key-header'; header: string; envKey: string };
+
+export interface ProviderModelInfo {
+    id: string;
+    contextWindow: number;
+    /** Tokens the model generates at most per response */
+    maxOutputTokens: number;
+    supportsTools: boolean;
+}
+
+export interface ProviderDefinition {
+    id: LLMProvider;
+    label: string;
+    /** Used when the environment variable in `baseUrlEnv` is not set */
+    baseUrl?: string;
+    baseUrlEnv?: string;
+    auth: ProviderAuth;
+    models: ProviderModelInfo[];
+    /** Self-hosted providers accept model ids that are not in `models` */
+    allowCustomModels: boolean;
+    /** Applied to models that are not listed in `models` */
+    defaultModelInfo?: Omit<ProviderModelInfo, 'id'>;
+    /** Not offered in model settings */
+    hidden?: boolean;
+}
+
+/** Models to try for each chat type, first to last, when a provider errors */
+export type ChatModelPreferences = Partial<Record<ChatType, InitialModelPayload[]>>;
+
 export type ModelConfig = {
     model: LanguageModel;
     providerOptions?: Record<string, any>;
     headers?: Record<string, string>;
     maxOutputTokens: number;
+    /** Tokens the model accepts per request, used to decide when to compact a conversation */
+    contextWindow: number;
 };
 
 export const MODEL_MAX_TOKENS = {
@@ -47,3 +97,13 @@ export const MODEL_MAX_TOKENS = {
     [ANTHROPIC_MODELS.SONNET_4]: 200000,
     [ANTHROPIC_MODELS.HAIKU]: 200000,
 } as const;
+
+export const MODEL_MAX_OUTPUT_TOKENS = {
+    [OPENROUTER_MODELS.CLAUDE_4_SONNET]: 64000,
+    [OPENROUTER_MODELS.CLAUDE_3_5_HAIKU]: 8192,
+    [OPENROUTER_MODELS.OPEN_AI_GPT_5_NANO]: 128000,
+    [OPENROUTER_MODELS.OPEN_AI_GPT_5_MINI]: 128000,
+    [OPENROUTER_MODELS.OPEN_AI_GPT_5]: 128000,
+    [ANTHROPIC_MODELS.SONNET_4]: 64000,
+    [ANTHROPIC_MODELS.HAIKU]: 8192,
+} as const;
@@ -1,5 +1,32 @@
+export type ProcessRestartPolicy = 'never' | 'on-failure' | 'always';
+
+export type ProcessHealthCheck =
+    | {
+          type: 'http';
+          /** Path requested on the process port, defaults to `/` */
+          path?: string;
+          timeoutMs?: number;
+      }
+    | {
+          type: 'log';
+          /** Regular expression matched against each output line */
+          pattern: string;
+          timeoutMs?: number;
+      };
+
+export interface ProcessCommand {
+    name: string;
+    command: string;
+    /** First port to try; the process receives the port it was given through `PORT` */
+    preferredPort?: number;
+    restart?: ProcessRestartPolicy;
+    healthCheck?: ProcessHealthCheck;
+}
+
 export interface Commands {
     build?: string;
     run?: string;
     install?: string;
+    /** Processes supervised alongside the dev server, such as API servers or workers */
+    processes?: ProcessCommand[];
 }
@@ -9,5 +9,6 @@ export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
         build: '',
         run: '',
         install: '',
+        processes: [],
     },
 };
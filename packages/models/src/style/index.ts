@@ -9,6 +9,22 @@ export enum StyleChangeType {
     Remove = 'remove',
 }
 
+/** A Tailwind screen, named after its variant, that applies from `minWidth` pixels and up */
+export interface Breakpoint {
+    name: string;
+    minWidth: number;
+}
+
+/** States the editor can style and force on an element, named after their Tailwind variant */
+export enum PseudoState {
+    Default = 'default',
+    Hover = 'hover',
+    Focus = 'focus',
+    FocusVisible = 'focus-visible',
+    Active = 'active',
+    Disabled = 'disabled',
+}
+
 export interface TailwindColor {
     name: string;
     originalKey: string;
@@ -1,3 +1,6 @@
+export * from './mcp';
+export * from './permission';
+
 export interface WebSearchResult {
     result: {
         title: string;
@@ -21,3 +24,11 @@ export interface CheckErrorsResult {
     }[];
     count: number;
 }
+
+export interface FrameScreenshotResult {
+    frameId: string;
+    url: string;
+    mimeType: string;
+    /** Base64 image data, null once the screenshot is no longer sent to the model */
+    data: string | null;
+}
@@ -0,0 +1,60 @@
+interface McpServerBase {
+    id: string;
+    /** Used in the namespaced tool names, e.g. `mcp__design_system__get_tokens` */
+    name: string;
+    enabled: boolean;
+}
+
+/** A server started as a local process that speaks MCP over stdin and stdout */
+export interface McpStdioServerConfig extends McpServerBase {
+    transport: 'stdio';
+    command: string;
+    args?: string[];
+    env?: Record<string, string>;
+    cwd?: string;
+}
+
+/** A server already running on this machine, reached with the streamable HTTP transport */
+export interface McpHttpServerConfig extends McpServerBase {
+    transport: 'http';
+    url: string;
+    headers?: Record<string, string>;
+}
+
+export type McpServerConfig = McpStdioServerConfig | McpHttpServerConfig;
+
+export interface McpToolInfo {
+    /** Namespaced name the model calls the tool by */
+    name: string;
+    server: string;
+    /** Name of the tool on its server */
+    serverToolName: string;
+    description: string;
+    /** JSON schema of the tool input */
+    inputSchema: Record<string, unknown>;
+    /** Whether the server declares that the tool does not change anything */
+    readOnly: boolean;
+}
+
+export interface McpResourceInfo {
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+export interface McpPromptInfo {
+    name: string;
+    description?: string;
+    arguments: { name: string; description?: string; required: boolean }[];
+}
+
+export interface McpServerState {
+    id: string;
+    name: string;
+    status: 'connected' | 'error' | 'disabled';
+    error?: string;
+    tools: McpToolInfo[];
+    resources: McpResourceInfo[];
+    prompts: McpPromptInfo[];
+}
@@ -0,0 +1,53 @@
+export type ToolPermissionAction = 'allow' | 'deny' | 'ask';
+
+/**
+ * A rule matches a tool call when every condition it sets matches. Globs use `*` within a
+ * segment and `**` across segments.
+ */
+export interface ToolPermissionRule {
+    id: string;
+    action: ToolPermissionAction;
+    /** Tool name or glob, e.g. `terminal_command` or `bash_*` */
+    tool?: string;
+    /**
+     * Command prefix matched word by word against every command in a pipeline or chain, e.g.
+     * `git status` or `npm run *`. Words may be globs.
+     */
+    command?: string;
+    /** Glob matched against file paths, including redirect targets of commands */
+    path?: string;
+    /** Glob matched against the branch id or name */
+    branch?: string;
+    description?: string;
+}
+
+export interface ToolPermissionPolicy {
+    rules: ToolPermissionRule[];
+}
+
+export interface ToolPermissionDecision {
+    action: ToolPermissionAction;
+    reason: string;
+    /** Rule that decided it, from the project policy or the built-in defaults */
+    ruleId?: string;
+    source: 'project' | 'default';
+}
+
+export interface ToolAuditEntry {
+    id: string;
+    projectId: string;
+    conversationId?: string;
+    toolCallId: string;
+    toolName: string;
+    /** Command, path or other short summary of the input */
+    summary: string;
+    branchId?: string;
+    decision: ToolPermissionAction;
+    reason: string;
+    ruleId?: string;
+    /** Whether the policy decided on its own or the user answered an approval prompt */
+    decidedBy: 'policy' | 'user';
+    /** Whether the tool ran */
+    allowed: boolean;
+    createdAt: string;
+}
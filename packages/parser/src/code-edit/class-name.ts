@@ -0,0 +1,471 @@
+import { ClassSegmentType, type ClassSegment } from '@onlook/models';
+import { customTwMerge } from '@onlook/utility';
+import { generate, traverse, type NodePath, type t as T, types as t } from '../packages';
+import { getOidFromJsxElement } from './helpers';
+
+// Functions that join or merge the classes they are given, such as `cn('p-4', isActive && 'ring')`
+const CLASS_FUNCTIONS = ['cn', 'clsx', 'classnames', 'classNames', 'cx', 'twMerge', 'twJoin'];
+// Functions that define variants, such as `const button = cva('base', { variants: { ... } })`
+const VARIANT_FUNCTIONS = ['cva', 'tv'];
+
+type Scope = NodePath['scope'];
+
+/** Where the classes of an editable segment are written */
+type ClassTarget =
+    | { type: 'string'; node: T.StringLiteral }
+    | { type: 'key'; node: T.ObjectProperty; object: T.ObjectExpression }
+    | {
+          type: 'quasi';
+          node: T.TemplateElement;
+          // Parts of classes joined to the neighbouring expressions, as `text-` in `text-${size}`
+          leading: string;
+          trailing: string;
+          first: boolean;
+          last: boolean;
+      };
+
+interface ClassPart {
+    segment: ClassSegment;
+    target: ClassTarget | null;
+}
+
+function splitClasses(value: string): string[] {
+    return value.split(/\s+/).filter(Boolean);
+}
+
+function getSource(node: T.Node): string {
+    return generate(node).code;
+}
+
+function and(condition: string | null, next: string): string {
+    return condition ? `${condition} && ${next}` : next;
+}
+
+function getKeyName(node: T.ObjectProperty): string | null {
+    if (node.computed) {
+        return null;
+    }
+    if (t.isStringLiteral(node.key)) {
+        return node.key.value;
+    }
+    if (t.isIdentifier(node.key)) {
+        return node.key.name;
+    }
+    return null;
+}
+
+function getQuasiPart(
+    quasi: T.TemplateElement,
+    first: boolean,
+    last: boolean,
+    condition: string | null,
+): ClassPart {
+    let middle = quasi.value.raw;
+    const leading = first ? '' : (middle.match(/^\S+/)?.[0] ?? '');
+    middle = middle.slice(leading.length);
+    const trailing = last ? '' : (middle.match(/\S+$/)?.[0] ?? '');
+    middle = middle.slice(0, middle.length - trailing.length);
+
+    return {
+        segment: {
+            type: condition ? ClassSegmentType.Conditional : ClassSegmentType.Static,
+            classes: splitClasses(middle),
+            expression: condition,
+            editable: true,
+        },
+        target: { type: 'quasi', node: quasi, leading, trailing, first, last },
+    };
+}
+
+function getDynamicPart(node: T.Node, condition: string | null): ClassPart {
+    return {
+        segment: {
+            type: ClassSegmentType.Dynamic,
+            classes: [],
+            expression: and(condition, getSource(node)),
+            editable: false,
+        },
+        target: null,
+    };
+}
+
+function getStaticClasses(node: T.Node | null | undefined): string[] {
+    if (t.isStringLiteral(node)) {
+        return splitClasses(node.value);
+    }
+    if (t.isArrayExpression(node)) {
+        return node.elements.flatMap((element) => getStaticClasses(element));
+    }
+    if (t.isTemplateLiteral(node) && node.expressions.length === 0) {
+        return node.quasis.flatMap((quasi) => splitClasses(quasi.value.raw));
+    }
+    return [];
+}
+
+function getProperty(object: T.ObjectExpression, name: string): T.Node | undefined {
+    const property = object.properties.find(
+        (prop): prop is T.ObjectProperty => t.isObjectProperty(prop) && getKeyName(prop) === name,
+    );
+    return property?.value;
+}
+
+/**
+ * Adds the classes of the variants definition the function was created with, as in
+ * `cva('base', { variants: { size: { lg: 'h-10' } } })`. These are defined away from the
+ * element, and shared with other elements, so they are never edited.
+ */
+function collectVariantParts(name: string, scope: Scope, parts: ClassPart[]): boolean {
+    const declarator = scope.getBinding(name)?.path.node;
+    if (
+        !t.isVariableDeclarator(declarator) ||
+        !t.isCallExpression(declarator.init) ||
+        !t.isIdentifier(declarator.init.callee) ||
+        !VARIANT_FUNCTIONS.includes(declarator.init.callee.name)
+    ) {
+        return false;
+    }
+
+    const [first, second] = declarator.init.arguments;
+    const config = t.isObjectExpression(second)
+        ? second
+        : declarator.init.callee.name === 'tv' && t.isObjectExpression(first)
+          ? first
+          : null;
+    const base = config && config === first ? getProperty(config, 'base') : first;
+    const addVariant = (expression: string, classes: string[]) => {
+        if (classes.length > 0) {
+            parts.push({
+                segment: { type: ClassSegmentType.Variant, classes, expression, editable: false },
+                target: null,
+            });
+        }
+    };
+
+    addVariant(name, getStaticClasses(base));
+    const variants = config ? getProperty(config, 'variants') : undefined;
+    if (t.isObjectExpression(variants)) {
+        for (const variant of variants.properties) {
+            if (!t.isObjectProperty(variant) || !t.isObjectExpression(variant.value)) {
+                continue;
+            }
+            for (const value of variant.value.properties) {
+                if (t.isObjectProperty(value)) {
+                    addVariant(
+                        `${name} ${getKeyName(variant)}=${getKeyName(value)}`,
+                        getStaticClasses(value.value),
+                    );
+                }
+            }
+        }
+    }
+    return true;
+}
+
+function collectParts(
+    node: T.Node,
+    condition: string | null,
+    scope: Scope | null,
+    parts: ClassPart[],
+): void {
+    if (t.isStringLiteral(node)) {
+        parts.push({
+            segment: {
+                type: condition ? ClassSegmentType.Conditional : ClassSegmentType.Static,
+                classes: splitClasses(node.value),
+                expression: condition,
+                editable: true,
+            },
+            target: { type: 'string', node },
+        });
+    } else if (t.isTemplateLiteral(node)) {
+        node.quasis.forEach((quasi, index) => {
+            parts.push(
+                getQuasiPart(quasi, index === 0, index === node.quasis.length - 1, condition),
+            );
+        });
+        node.expressions.forEach((expression) => collectParts(expression, condition, scope, parts));
+    } else if (t.isConditionalExpression(node)) {
+        const test = getSource(node.test);
+        collectParts(node.consequent, and(condition, test), scope, parts);
+        collectParts(node.alternate, and(condition, `!(${test})`), scope, parts);
+    } else if (t.isLogicalExpression(node)) {
+        const left = getSource(node.left);
+        if (node.operator === '&&') {
+            collectParts(node.right, and(condition, left), scope, parts);
+        } else {
+            collectParts(node.left, condition, scope, parts);
+            collectParts(node.right, and(condition, `!(${left})`), scope, parts);
+        }
+    } else if (t.isArrayExpression(node)) {
+        for (const element of node.elements) {
+            if (element) {
+                collectParts(element, condition, scope, parts);
+            }
+        }
+    } else if (t.isObjectExpression(node)) {
+        for (const prop of node.properties) {
+            const key = t.isObjectProperty(prop) ? getKeyName(prop) : null;
+            if (!t.isObjectProperty(prop) || key === null) {
+                parts.push(getDynamicPart(prop, condition));
+                continue;
+            }
+            parts.push({
+                segment: {
+                    type: ClassSegmentType.Conditional,
+                    classes: splitClasses(key),
+                    expression: and(condition, getSource(prop.value)),
+                    editable: true,
+                },
+                target: { type: 'key', node: prop, object: node },
+            });
+        }
+    } else if (
+        t.isCallExpression(node) &&
+        t.isIdentifier(node.callee) &&
+        CLASS_FUNCTIONS.includes(node.callee.name)
+    ) {
+        node.arguments.forEach((argument) => collectParts(argument, condition, scope, parts));
+    } else if (
+        t.isCallExpression(node) &&
+        t.isIdentifier(node.callee) &&
+        scope &&
+        collectVariantParts(node.callee.name, scope, parts)
+    ) {
+        return;
+    } else {
+        parts.push(getDynamicPart(node, condition));
+    }
+}
+
+function getClassNameAttribute(node: T.JSXElement): T.JSXAttribute | undefined {
+    return node.openingElement.attributes.find(
+        (attr): attr is T.JSXAttribute => t.isJSXAttribute(attr) && attr.name.name === 'className',
+    );
+}
+
+function getClassParts(attr: T.JSXAttribute, scope: Scope | null): ClassPart[] {
+    const parts: ClassPart[] = [];
+    if (t.isStringLiteral(attr.value)) {
+        collectParts(attr.value, null, scope, parts);
+    } else if (
+        t.isJSXExpressionContainer(attr.value) &&
+        !t.isJSXEmptyExpression(attr.value.expression)
+    ) {
+        collectParts(attr.value.expression, null, scope, parts);
+    }
+    return parts;
+}
+
+/**
+ * Parses the element's className into the static classes and the classes that apply under
+ * a condition, a variant or that come from an expression it cannot read.
+ */
+export function getClassSegments(path: NodePath<T.JSXElement>): ClassSegment[] {
+    const attr = getClassNameAttribute(path.node);
+    if (!attr) {
+        return [];
+    }
+    return getClassParts(attr, path.scope)
+        .map((part) => part.segment)
+        .filter(
+            (segment) => segment.classes.length > 0 || segment.type === ClassSegmentType.Dynamic,
+        );
+}
+
+function setClasses(part: ClassPart, classes: string[]): void {
+    const target = part.target;
+    if (!target) {
+        return;
+    }
+    part.segment.classes = classes;
+    const value = classes.join(' ');
+
+    if (target.type === 'string') {
+        target.node.value = value;
+    } else if (target.type === 'key') {
+        if (classes.length === 0) {
+            target.object.properties = target.object.properties.filter(
+                (prop) => prop !== target.node,
+            );
+        } else {
+            target.node.key = t.stringLiteral(value);
+            target.node.computed = false;
+            target.node.shorthand = false;
+        }
+    } else {
+        // Keeps the spaces that separate the classes from the neighbouring expressions
+        let raw = [target.leading, value, target.trailing].filter(Boolean).join(' ');
+        if (!target.first && !target.leading) {
+            raw = ` ${raw}`;
+        }
+        if (!target.last && !target.trailing && raw.trim()) {
+            raw = `${raw} `;
+        }
+        target.node.value = { raw, cooked: raw };
+    }
+}
+
+function mergeClasses(part: ClassPart, className: string): void {
+    setClasses(part, splitClasses(customTwMerge(part.segment.classes.join(' '), className)));
+}
+
+function conflictsWith(part: ClassPart, className: string): boolean {
+    // A class conflicts when merging the new one drops it, as `p-2` is with `p-4`
+    return part.segment.classes.some(
+        (existing) => !splitClasses(customTwMerge(existing, className)).includes(existing),
+    );
+}
+
+function isActive(part: ClassPart, runtimeClasses: string[]): boolean {
+    const classes = part.segment.classes;
+    return classes.length > 0 && classes.every((cls) => runtimeClasses.includes(cls));
+}
+
+function isClassNameProp(node: T.Node): boolean {
+    const name = t.isIdentifier(node)
+        ? node.name
+        : t.isMemberExpression(node) && t.isIdentifier(node.property)
+          ? node.property.name
+          : null;
+    return name?.toLowerCase().includes('classname') ?? false;
+}
+
+// Expressions given to a template literal must not print `undefined` or `false` as classes
+function toStringExpression(node: T.Expression): T.Expression {
+    if (t.isLogicalExpression(node) && node.operator === '&&') {
+        return t.conditionalExpression(node.left, node.right, t.stringLiteral(''));
+    }
+    if (t.isIdentifier(node) || t.isMemberExpression(node) || t.isOptionalMemberExpression(node)) {
+        return t.logicalExpression('??', node, t.stringLiteral(''));
+    }
+    return node;
+}
+
+function addStaticClasses(
+    attr: T.JSXAttribute,
+    expression: T.Expression,
+    parts: ClassPart[],
+    className: string,
+): void {
+    const staticParts = parts.filter(
+        (part) => part.segment.type === ClassSegmentType.Static && part.target,
+    );
+    const conflicting = staticParts.find((part) => conflictsWith(part, className));
+
+    if (t.isTemplateLiteral(expression)) {
+        const part =
+            conflicting ??
+            staticParts.find((part) => part.segment.classes.length > 0) ??
+            staticParts[0];
+        if (part) {
+            mergeClasses(part, className);
+        }
+        return;
+    }
+
+    if (
+        t.isCallExpression(expression) &&
+        t.isIdentifier(expression.callee) &&
+        CLASS_FUNCTIONS.includes(expression.callee.name)
+    ) {
+        const argumentParts = staticParts.filter(
+            (part) =>
+                part.target?.type === 'string' && expression.arguments.includes(part.target.node),
+        );
+        const part =
+            (conflicting && argumentParts.includes(conflicting) ? conflicting : null) ??
+            argumentParts[argumentParts.length - 1];
+        if (part) {
+            mergeClasses(part, className);
+            return;
+        }
+        // Goes before a `className` prop passed through, so the prop can still override it
+        const index = expression.arguments.findIndex((argument) => isClassNameProp(argument));
+        expression.arguments.splice(
+            index === -1 ? expression.arguments.length : index,
+            0,
+            t.stringLiteral(className),
+        );
+        return;
+    }
+
+    attr.value = t.jsxExpressionContainer(
+        t.templateLiteral(
+            [
+                t.templateElement({ raw: `${className} `, cooked: `${className} ` }),
+                t.templateElement({ raw: '', cooked: '' }, true),
+            ],
+            [toStringExpression(expression)],
+        ),
+    );
+}
+
+/**
+ * Adds the classes to a className written as a string or an expression. A class that
+ * conflicts with a class of a condition that applies at runtime replaces it in that branch,
+ * the other classes go into the static classes.
+ */
+export function addClassesToExpression(
+    attr: T.JSXAttribute,
+    className: string,
+    runtimeClasses: string[] = [],
+): void {
+    if (!t.isJSXExpressionContainer(attr.value)) {
+        return;
+    }
+    const expression = attr.value.expression;
+    if (t.isJSXEmptyExpression(expression)) {
+        attr.value = t.stringLiteral(className);
+        return;
+    }
+    if (t.isStringLiteral(expression)) {
+        expression.value = customTwMerge(expression.value, className);
+        return;
+    }
+
+    const parts = getClassParts(attr, null);
+    const staticClasses: string[] = [];
+    for (const cls of splitClasses(className)) {
+        const branch = parts.find(
+            (part) =>
+                part.segment.type === ClassSegmentType.Conditional &&
+                part.target &&
+                isActive(part, runtimeClasses) &&
+                conflictsWith(part, cls),
+        );
+        if (branch) {
+            mergeClasses(branch, cls);
+        } else {
+            staticClasses.push(cls);
+        }
+    }
+
+    if (staticClasses.length > 0) {
+        addStaticClasses(attr, expression, parts, staticClasses.join(' '));
+    }
+}
+
+/** Takes the classes out of every segment of the className that can be edited */
+export function removeClassesFromAttribute(attr: T.JSXAttribute, classes: string[]): void {
+    for (const part of getClassParts(attr, null)) {
+        if (part.target && part.segment.classes.some((cls) => classes.includes(cls))) {
+            setClasses(
+                part,
+                part.segment.classes.filter((cls) => !classes.includes(cls)),
+            );
+        }
+    }
+}
+
+export function getElementClassSegments(ast: T.File, oid: string): ClassSegment[] | null {
+    let segments: ClassSegment[] | null = null;
+    traverse(ast, {
+        JSXElement(path) {
+            if (getOidFromJsxElement(path.node.openingElement) === oid) {
+                segments = getClassSegments(path);
+                path.stop();
+            }
+        },
+    });
+    return segments;
+}
@@ -0,0 +1,98 @@
+import { traverse, type NodePath, type t as T, types as t } from '../packages';
+import { getOidFromJsxElement } from './helpers';
+
+// Marks conditions negated to preview their other branch, as in `!(/* onlook-preview */ isOpen)`.
+// The left side of `??` is voided instead, since a negation is never nullish
+const PREVIEW_MARKER = 'onlook-preview';
+
+function isPreviewNegation(node: T.Node): node is T.UnaryExpression {
+    return (
+        t.isUnaryExpression(node) &&
+        (node.operator === '!' || node.operator === 'void') &&
+        !!node.argument.leadingComments?.some((comment) => comment.value.trim() === PREVIEW_MARKER)
+    );
+}
+
+function negate(node: T.Expression, operator: '!' | 'void' = '!'): T.UnaryExpression {
+    t.addComment(node, 'leading', ` ${PREVIEW_MARKER} `);
+    return t.unaryExpression(operator, node);
+}
+
+function restore(node: T.UnaryExpression): T.Expression {
+    const argument = node.argument;
+    argument.leadingComments =
+        argument.leadingComments?.filter((comment) => comment.value.trim() !== PREVIEW_MARKER) ??
+        null;
+    return argument;
+}
+
+function getRenderingCondition(
+    path: NodePath<T.JSXElement>,
+): T.ConditionalExpression | T.LogicalExpression | null {
+    // A fragment can wrap the element, as in `isOpen && <><Menu /></>`
+    const parent = t.isJSXFragment(path.parent) ? path.parentPath?.parent : path.parent;
+    if (t.isConditionalExpression(parent) && parent.test !== path.node) {
+        return parent;
+    }
+    if (t.isLogicalExpression(parent) && parent.left !== path.node) {
+        return parent;
+    }
+    return null;
+}
+
+/**
+ * Negates the condition that renders the element so the other branch renders instead, or
+ * puts back a condition negated this way. Returns false when the element is not rendered
+ * by a condition.
+ */
+export function toggleConditionalBranch(ast: T.File, oid: string): boolean {
+    let toggled = false;
+    traverse(ast, {
+        JSXElement(path) {
+            if (getOidFromJsxElement(path.node.openingElement) !== oid) {
+                return;
+            }
+            const condition = getRenderingCondition(path);
+            if (t.isConditionalExpression(condition)) {
+                condition.test = isPreviewNegation(condition.test)
+                    ? restore(condition.test)
+                    : negate(condition.test);
+                toggled = true;
+            } else if (condition) {
+                condition.left = isPreviewNegation(condition.left)
+                    ? restore(condition.left)
+                    : negate(condition.left, condition.operator === '??' ? 'void' : '!');
+                toggled = true;
+            }
+            path.stop();
+        },
+    });
+    return toggled;
+}
+
+/** Puts back every condition negated to preview its other branch */
+export function restoreConditionalBranches(ast: T.File): boolean {
+    let restored = false;
+    traverse(ast, {
+        UnaryExpression(path) {
+            if (isPreviewNegation(path.node)) {
+                path.replaceWith(restore(path.node));
+                restored = true;
+            }
+        },
+    });
+    return restored;
+}
+
+export function hasPreviewedBranches(ast: T.File): boolean {
+    let found = false;
+    traverse(ast, {
+        UnaryExpression(path) {
+            if (isPreviewNegation(path.node)) {
+                found = true;
+                path.stop();
+            }
+        },
+    });
+    return found;
+}
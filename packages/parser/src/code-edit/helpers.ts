@@ -75,6 +75,32 @@ export const jsxFilter = (
     child: T.JSXElement | T.JSXExpressionContainer | T.JSXFragment | T.JSXSpreadChild | T.JSXText,
 ) => t.isJSXElement(child) || t.isJSXFragment(child);
 
+/**
+ * Children that render elements, including expressions such as `{items.map(...)}` or
+ * `{isOpen && <Menu />}`. Each expression counts once, however many elements it renders.
+ */
+export const templateChildFilter = (
+    child: T.JSXElement | T.JSXExpressionContainer | T.JSXFragment | T.JSXSpreadChild | T.JSXText,
+) => jsxFilter(child) || (t.isJSXExpressionContainer(child) && rendersElements(child.expression));
+
+function rendersElements(node: T.Node): boolean {
+    if (t.isJSXElement(node) || t.isJSXFragment(node)) {
+        return true;
+    }
+    if (t.isConditionalExpression(node)) {
+        return rendersElements(node.consequent) || rendersElements(node.alternate);
+    }
+    if (t.isLogicalExpression(node)) {
+        return rendersElements(node.left) || rendersElements(node.right);
+    }
+    return (
+        t.isCallExpression(node) &&
+        t.isMemberExpression(node.callee) &&
+        t.isIdentifier(node.callee.property) &&
+        node.callee.property.name === 'map'
+    );
+}
+
 export function generateCode(
     ast: T.File | T.JSXElement,
     options: GeneratorOptions,
@@ -1,9 +1,12 @@
+export * from './class-name';
+export * from './conditional';
 export * from './group';
 export * from './image';
 export * from './insert';
 export * from './layout';
 export * from './move';
 export * from './next-config';
+export * from './props';
 export * from './remove';
 export * from './style';
 export * from './text';
@@ -3,7 +3,7 @@ import type { CodeInsert, PasteParams } from '@onlook/models';
 import { assertNever } from '@onlook/utility';
 import { type NodePath, type t as T, types as t } from '../packages';
 import { getAstFromCodeblock } from '../parse';
-import { addKeyToElement, addParamToElement, jsxFilter } from './helpers';
+import { addKeyToElement, addParamToElement, jsxFilter, templateChildFilter } from './helpers';
 
 export function insertElementToNode(path: NodePath<T.JSXElement>, element: CodeInsert): void {
     const newElement = createInsertedElement(element);
@@ -16,7 +16,16 @@ export function insertElementToNode(path: NodePath<T.JSXElement>, element: CodeI
             path.node.children.unshift(newElement);
             break;
         case 'index':
-            insertAtIndex(path, newElement, element.location.index);
+            if (element.location.templateIndex !== undefined) {
+                insertAtIndex(
+                    path,
+                    newElement,
+                    element.location.templateIndex,
+                    templateChildFilter,
+                );
+            } else {
+                insertAtIndex(path, newElement, element.location.index);
+            }
             break;
         default:
             console.error(`Unhandled position: ${element.location}`);
@@ -89,9 +98,10 @@ export function insertAtIndex(
     path: NodePath<T.JSXElement>,
     newElement: T.JSXElement | T.JSXFragment,
     index: number,
+    filter: (child: T.JSXElement['children'][number]) => boolean = jsxFilter,
 ): void {
     if (index !== -1) {
-        const jsxElements = path.node.children.filter(jsxFilter);
+        const jsxElements = path.node.children.filter(filter);
         const targetIndex = Math.min(index, jsxElements.length);
         if (targetIndex >= path.node.children.length) {
             path.node.children.push(newElement);
@@ -1,15 +1,18 @@
 import type { CodeMove } from '@onlook/models/actions';
-import { type NodePath, type t as T } from '../packages';
-import { addKeyToElement, getOidFromJsxElement, jsxFilter } from './helpers';
+import { type NodePath, type t as T, types as t } from '../packages';
+import { addKeyToElement, getOidFromJsxElement, jsxFilter, templateChildFilter } from './helpers';
 
 export function moveElementInNode(path: NodePath<T.JSXElement>, element: CodeMove): void {
     const children = path.node.children;
-    const jsxElements = children.filter(jsxFilter).map((child) => {
+    // With a template index, expressions that render lists or conditions count as children
+    const templateIndex = element.location.templateIndex;
+    const filter = templateIndex !== undefined ? templateChildFilter : jsxFilter;
+    const jsxElements = children.filter(filter).map((child) => {
         return child;
     });
 
-    const elementToMove = jsxElements.find((child) => {
-        if (child.type !== 'JSXElement' || !child.openingElement) {
+    const elementToMove = jsxElements.find((child): child is T.JSXElement => {
+        if (!t.isJSXElement(child) || !child.openingElement) {
             return false;
         }
         const oid = getOidFromJsxElement(child.openingElement);
@@ -23,7 +26,7 @@ export function moveElementInNode(path: NodePath<T.JSXElement>, element: CodeMov
 
     addKeyToElement(elementToMove);
 
-    const targetIndex = Math.min(element.location.index, jsxElements.length);
+    const targetIndex = Math.min(templateIndex ?? element.location.index, jsxElements.length);
     const targetChild = jsxElements[targetIndex];
     if (!targetChild) {
         console.error('Target child not found');
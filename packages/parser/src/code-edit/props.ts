@@ -0,0 +1,74 @@
+import { type NodeProps, type PropsParsingResult, PropsType } from '@onlook/models';
+import { generate, traverse, type t as T, types as t } from '../packages';
+import { getOidFromJsxElement } from './helpers';
+
+// Not passed to the component as props, or edited as styles in the case of className
+const IGNORED_ATTRIBUTES = ['key', 'ref', 'className'];
+
+function getPropValue(value: T.JSXAttribute['value']): Omit<NodeProps, 'key'> {
+    // `<Button disabled />`
+    if (value === null || value === undefined) {
+        return { type: PropsType.Boolean, value: true };
+    }
+    if (t.isStringLiteral(value)) {
+        return { type: PropsType.String, value: value.value };
+    }
+    const expression = t.isJSXExpressionContainer(value) ? value.expression : value;
+    if (t.isStringLiteral(expression)) {
+        return { type: PropsType.String, value: expression.value };
+    }
+    if (t.isTemplateLiteral(expression) && expression.expressions.length === 0) {
+        return { type: PropsType.String, value: expression.quasis[0]?.value.cooked ?? '' };
+    }
+    if (t.isBooleanLiteral(expression)) {
+        return { type: PropsType.Boolean, value: expression.value };
+    }
+    if (t.isNumericLiteral(expression)) {
+        return { type: PropsType.Number, value: expression.value };
+    }
+    if (
+        t.isUnaryExpression(expression) &&
+        expression.operator === '-' &&
+        t.isNumericLiteral(expression.argument)
+    ) {
+        return { type: PropsType.Number, value: -expression.argument.value };
+    }
+    const code = t.isJSXEmptyExpression(expression) ? '' : generate(expression).code;
+    if (t.isObjectExpression(expression)) {
+        return { type: PropsType.Object, value: code };
+    }
+    if (t.isArrayExpression(expression)) {
+        return { type: PropsType.Array, value: code };
+    }
+    return { type: PropsType.Code, value: code };
+}
+
+/**
+ * Props passed to the element in code. Literal values are read as strings, numbers and
+ * booleans, anything else is kept as its source code.
+ */
+export function getElementProps(ast: T.File, oid: string): PropsParsingResult {
+    let result: PropsParsingResult = { type: 'error', reason: `Element not found: ${oid}` };
+    traverse(ast, {
+        JSXElement(path) {
+            const openingElement = path.node.openingElement;
+            if (getOidFromJsxElement(openingElement) !== oid) {
+                return;
+            }
+            const props: NodeProps[] = [];
+            for (const attribute of openingElement.attributes) {
+                if (!t.isJSXAttribute(attribute) || !t.isJSXIdentifier(attribute.name)) {
+                    continue;
+                }
+                const key = attribute.name.name;
+                if (IGNORED_ATTRIBUTES.includes(key) || key.startsWith('data-')) {
+                    continue;
+                }
+                props.push({ key, ...getPropValue(attribute.value) });
+            }
+            result = { type: 'props', props };
+            path.stop();
+        },
+    });
+    return result;
+}
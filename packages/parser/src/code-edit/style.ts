@@ -1,7 +1,12 @@
 import { customTwMerge } from '@onlook/utility';
 import { type t as T, types as t } from '../packages';
+import { addClassesToExpression, removeClassesFromAttribute } from './class-name';
 
-export function addClassToNode(node: T.JSXElement, className: string): void {
+export function addClassToNode(
+    node: T.JSXElement,
+    className: string,
+    runtimeClasses: string[] = [],
+): void {
     const openingElement = node.openingElement;
     const classNameAttr = openingElement.attributes.find(
         (attr) => t.isJSXAttribute(attr) && attr.name.name === 'className',
@@ -10,17 +15,28 @@ export function addClassToNode(node: T.JSXElement, className: string): void {
     if (classNameAttr) {
         if (t.isStringLiteral(classNameAttr.value)) {
             classNameAttr.value.value = customTwMerge(classNameAttr.value.value, className);
-        } else if (
-            t.isJSXExpressionContainer(classNameAttr.value) &&
-            t.isCallExpression(classNameAttr.value.expression)
-        ) {
-            classNameAttr.value.expression.arguments.push(t.stringLiteral(className));
+        } else {
+            addClassesToExpression(classNameAttr, className, runtimeClasses);
         }
     } else {
         insertAttribute(openingElement, 'className', className);
     }
 }
 
+/**
+ * Takes the classes out of the className, from a string or from the parts of an expression
+ * that can be edited. Classes coming from other expressions are left as they are.
+ */
+export function removeClassesFromNode(node: T.JSXElement, classes: string[]): void {
+    const classNameAttr = node.openingElement.attributes.find(
+        (attr) => t.isJSXAttribute(attr) && attr.name.name === 'className',
+    ) as T.JSXAttribute | undefined;
+
+    if (classNameAttr) {
+        removeClassesFromAttribute(classNameAttr, classes);
+    }
+}
+
 export function replaceNodeClasses(node: T.JSXElement, className: string): void {
     const openingElement = node.openingElement;
     const classNameAttr = openingElement.attributes.find(
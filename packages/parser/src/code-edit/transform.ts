@@ -8,7 +8,7 @@ import { insertImageToNode, removeImageFromNode } from './image';
 import { insertElementToNode } from './insert';
 import { moveElementInNode } from './move';
 import { removeElementFromNode } from './remove';
-import { addClassToNode, replaceNodeClasses, updateNodeProp } from './style';
+import { addClassToNode, removeClassesFromNode, replaceNodeClasses, updateNodeProp } from './style';
 import { updateNodeTextContent } from './text';
 
 export function transformAst(ast: T.File, oidToCodeDiff: Map<string, CodeDiffRequest>): void {
@@ -21,7 +21,12 @@ export function transformAst(ast: T.File, oidToCodeDiff: Map<string, CodeDiffReq
             }
             const codeDiffRequest = oidToCodeDiff.get(currentOid);
             if (codeDiffRequest) {
-                const { attributes, textContent, structureChanges } = codeDiffRequest;
+                const { attributes, textContent, structureChanges, removeClasses, runtimeClasses } =
+                    codeDiffRequest;
+
+                if (removeClasses && removeClasses.length > 0) {
+                    removeClassesFromNode(path.node, removeClasses);
+                }
 
                 if (attributes) {
                     Object.entries(attributes).forEach(([key, value]) => {
@@ -29,7 +34,7 @@ export function transformAst(ast: T.File, oidToCodeDiff: Map<string, CodeDiffReq
                             if (codeDiffRequest.overrideClasses) {
                                 replaceNodeClasses(path.node, value as string);
                             } else {
-                                addClassToNode(path.node, value as string);
+                                addClassToNode(path.node, value as string, runtimeClasses);
                             }
                         } else {
                             updateNodeProp(path.node, key, value);
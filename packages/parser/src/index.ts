@@ -3,4 +3,5 @@ export * from './helpers';
 export * from './ids';
 export * from './packages';
 export * from './parse';
+export * from './symbols';
 export * from './template-node';
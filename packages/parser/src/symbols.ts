@@ -0,0 +1,486 @@
+import {
+    CodeSymbolKind,
+    type CodeImport,
+    type CodeSymbol,
+    type ComponentProp,
+    type FileSymbols,
+} from '@onlook/models';
+import { type NodePath, type t as T, types as t, traverse } from './packages';
+import { getAstFromContent } from './parse';
+
+interface PendingComponent {
+    symbol: CodeSymbol;
+    param: T.Node | undefined;
+    propsType: T.TSType | null;
+}
+
+interface TypeMember {
+    type: string | null;
+    required: boolean;
+}
+
+const PROPS_WRAPPER_TYPES = ['Readonly', 'PropsWithChildren', 'React.PropsWithChildren'];
+
+export function getFileSymbols(path: string, content: string): FileSymbols | null {
+    const ast = getAstFromContent(content);
+    if (!ast) {
+        return null;
+    }
+    return getSymbolsFromAst(ast, path, content);
+}
+
+/**
+ * Collects the top-level declarations of a file, what it imports and re-exports, and where the
+ * imported and declared names are used. Props are read for components typed in the same file.
+ */
+export function getSymbolsFromAst(ast: T.File, path: string, content: string): FileSymbols {
+    const symbols = new Map<string, CodeSymbol>();
+    const imports: CodeImport[] = [];
+    const importedNames = new Map<string, { source: string; imported: string }>();
+    const typeDeclarations = new Map<string, T.TSInterfaceDeclaration | T.TSTypeAliasDeclaration>();
+    const pendingComponents: PendingComponent[] = [];
+    const pendingExports: { local: string; exported: string; line: number }[] = [];
+
+    const getSource = (node: T.Node) => content.slice(node.start ?? 0, node.end ?? 0);
+
+    const addSymbol = (
+        name: string,
+        kind: CodeSymbolKind,
+        node: T.Node,
+        exportName: string | null,
+    ) => {
+        const existing = symbols.get(name);
+        if (existing) {
+            if (exportName) {
+                existing.exportNames.push(exportName);
+            }
+            return existing;
+        }
+        const symbol: CodeSymbol = {
+            name,
+            kind,
+            path,
+            line: getLine(node),
+            exportNames: exportName ? [exportName] : [],
+        };
+        symbols.set(name, symbol);
+        return symbol;
+    };
+
+    const addFunction = (
+        name: string,
+        fn: T.Function,
+        node: T.Node,
+        exportName: string | null,
+        propsType: T.TSType | null = null,
+    ) => {
+        if (!isComponentFunction(name, fn)) {
+            addSymbol(name, CodeSymbolKind.FUNCTION, node, exportName);
+            return;
+        }
+        const symbol = addSymbol(name, CodeSymbolKind.COMPONENT, node, exportName);
+        pendingComponents.push({ symbol, param: fn.params[0], propsType });
+    };
+
+    const addDeclaration = (declaration: T.Node, exportName: string | null) => {
+        if (t.isFunctionDeclaration(declaration)) {
+            addFunction(declaration.id?.name ?? 'default', declaration, declaration, exportName);
+        } else if (t.isClassDeclaration(declaration)) {
+            const name = declaration.id?.name ?? 'default';
+            if (!isComponentName(name) || !containsJsx(declaration)) {
+                addSymbol(name, CodeSymbolKind.CLASS, declaration, exportName);
+                return;
+            }
+            const symbol = addSymbol(name, CodeSymbolKind.COMPONENT, declaration, exportName);
+            const propsType = t.isTSTypeParameterInstantiation(declaration.superTypeParameters)
+                ? (declaration.superTypeParameters.params[0] ?? null)
+                : null;
+            pendingComponents.push({ symbol, param: undefined, propsType });
+        } else if (t.isVariableDeclaration(declaration)) {
+            for (const declarator of declaration.declarations) {
+                if (!t.isIdentifier(declarator.id)) {
+                    continue;
+                }
+                const name = declarator.id.name;
+                const wrapped = unwrapFunction(declarator.init);
+                if (!wrapped) {
+                    addSymbol(name, CodeSymbolKind.VARIABLE, declaration, exportName);
+                    continue;
+                }
+                const annotation = t.isTSTypeAnnotation(declarator.id.typeAnnotation)
+                    ? getTypeArgument(declarator.id.typeAnnotation.typeAnnotation, 0)
+                    : null;
+                addFunction(
+                    name,
+                    wrapped.fn,
+                    declaration,
+                    exportName,
+                    wrapped.propsType ?? annotation,
+                );
+            }
+        } else if (t.isTSInterfaceDeclaration(declaration)) {
+            typeDeclarations.set(declaration.id.name, declaration);
+            addSymbol(declaration.id.name, CodeSymbolKind.INTERFACE, declaration, exportName);
+        } else if (t.isTSTypeAliasDeclaration(declaration)) {
+            typeDeclarations.set(declaration.id.name, declaration);
+            addSymbol(declaration.id.name, CodeSymbolKind.TYPE, declaration, exportName);
+        } else if (t.isTSEnumDeclaration(declaration)) {
+            addSymbol(declaration.id.name, CodeSymbolKind.ENUM, declaration, exportName);
+        }
+    };
+
+    for (const statement of ast.program.body) {
+        if (t.isImportDeclaration(statement)) {
+            const specifiers = statement.specifiers.map((specifier) => ({
+                imported: t.isImportSpecifier(specifier)
+                    ? getName(specifier.imported)
+                    : t.isImportDefaultSpecifier(specifier)
+                      ? 'default'
+                      : '*',
+                local: specifier.local.name,
+            }));
+            for (const specifier of specifiers) {
+                importedNames.set(specifier.local, {
+                    source: statement.source.value,
+                    imported: specifier.imported,
+                });
+            }
+            imports.push({
+                source: statement.source.value,
+                line: getLine(statement),
+                specifiers,
+                isReexport: false,
+            });
+        } else if (t.isExportNamedDeclaration(statement)) {
+            if (statement.source) {
+                imports.push({
+                    source: statement.source.value,
+                    line: getLine(statement),
+                    specifiers: statement.specifiers.map((specifier) => ({
+                        imported: t.isExportSpecifier(specifier) ? specifier.local.name : '*',
+                        local: getName(specifier.exported),
+                    })),
+                    isReexport: true,
+                });
+            } else if (statement.declaration) {
+                const declaration = statement.declaration;
+                if (t.isVariableDeclaration(declaration)) {
+                    addDeclaration(declaration, null);
+                    for (const declarator of declaration.declarations) {
+                        if (t.isIdentifier(declarator.id)) {
+                            symbols.get(declarator.id.name)?.exportNames.push(declarator.id.name);
+                        }
+                    }
+                } else {
+                    const name = getDeclarationName(declaration);
+                    addDeclaration(declaration, name);
+                }
+            } else {
+                for (const specifier of statement.specifiers) {
+                    if (t.isExportSpecifier(specifier)) {
+                        pendingExports.push({
+                            local: specifier.local.name,
+                            exported: getName(specifier.exported),
+                            line: getLine(statement),
+                        });
+                    }
+                }
+            }
+        } else if (t.isExportAllDeclaration(statement)) {
+            imports.push({
+                source: statement.source.value,
+                line: getLine(statement),
+                specifiers: [{ imported: '*', local: '*' }],
+                isReexport: true,
+            });
+        } else if (t.isExportDefaultDeclaration(statement)) {
+            const declaration = statement.declaration;
+            if (t.isFunctionDeclaration(declaration) || t.isClassDeclaration(declaration)) {
+                addDeclaration(declaration, 'default');
+                continue;
+            }
+            const wrappedName = getWrappedIdentifier(declaration);
+            if (wrappedName) {
+                pendingExports.push({
+                    local: wrappedName,
+                    exported: 'default',
+                    line: getLine(statement),
+                });
+                continue;
+            }
+            const wrapped = unwrapFunction(declaration);
+            if (wrapped) {
+                addFunction('default', wrapped.fn, statement, 'default', wrapped.propsType);
+            } else {
+                addSymbol('default', CodeSymbolKind.VARIABLE, statement, 'default');
+            }
+        } else {
+            addDeclaration(statement, null);
+        }
+    }
+
+    for (const { local, exported, line } of pendingExports) {
+        const symbol = symbols.get(local);
+        if (symbol) {
+            symbol.exportNames.push(exported);
+            continue;
+        }
+        // Imported names exported again are re-exports of the module they came from
+        const imported = importedNames.get(local);
+        if (imported) {
+            imports.push({
+                source: imported.source,
+                line,
+                specifiers: [{ imported: imported.imported, local: exported }],
+                isReexport: true,
+            });
+        }
+    }
+
+    for (const { symbol, param, propsType } of pendingComponents) {
+        symbol.props = getComponentProps(param, propsType, typeDeclarations, getSource);
+    }
+
+    return {
+        path,
+        symbols: [...symbols.values()],
+        imports,
+        references: getReferences(ast, new Set([...symbols.keys(), ...importedNames.keys()])),
+    };
+}
+
+function getReferences(ast: T.File, names: Set<string>): Record<string, number[]> {
+    const references = new Map<string, Set<number>>();
+    const addReference = (name: string, node: T.Node) => {
+        const line = node.loc?.start.line;
+        if (!line || !names.has(name)) {
+            return;
+        }
+        const lines = references.get(name) ?? new Set<number>();
+        lines.add(line);
+        references.set(name, lines);
+    };
+
+    traverse(ast, {
+        ReferencedIdentifier(path: NodePath<T.Identifier | T.JSXIdentifier>) {
+            const name = path.node.name;
+            const binding = path.scope.getBinding(name);
+            // Skip names shadowed by a local binding
+            if (binding && !binding.scope.path.isProgram()) {
+                return;
+            }
+            if (t.isTSPropertySignature(path.parent) && path.parent.key === path.node) {
+                return;
+            }
+            // Babel counts the names of TypeScript declarations as references
+            if (
+                (t.isTSInterfaceDeclaration(path.parent) ||
+                    t.isTSTypeAliasDeclaration(path.parent) ||
+                    t.isTSEnumDeclaration(path.parent)) &&
+                path.parent.id === path.node
+            ) {
+                return;
+            }
+            addReference(name, path.node);
+        },
+        TSTypeReference(path: NodePath<T.TSTypeReference>) {
+            const typeName = path.node.typeName;
+            if (t.isIdentifier(typeName)) {
+                addReference(typeName.name, typeName);
+            } else if (t.isTSQualifiedName(typeName) && t.isIdentifier(typeName.left)) {
+                addReference(typeName.left.name, typeName.left);
+            }
+        },
+    });
+
+    return Object.fromEntries(
+        [...references.entries()].map(([name, lines]) => [name, [...lines].sort((a, b) => a - b)]),
+    );
+}
+
+function getComponentProps(
+    param: T.Node | undefined,
+    propsType: T.TSType | null,
+    typeDeclarations: Map<string, T.TSInterfaceDeclaration | T.TSTypeAliasDeclaration>,
+    getSource: (node: T.Node) => string,
+): ComponentProp[] {
+    if (t.isAssignmentPattern(param)) {
+        param = param.left;
+    }
+    if (!propsType && (t.isObjectPattern(param) || t.isIdentifier(param))) {
+        propsType = t.isTSTypeAnnotation(param.typeAnnotation)
+            ? param.typeAnnotation.typeAnnotation
+            : null;
+    }
+
+    const defaults = new Map<string, string | null>();
+    if (t.isObjectPattern(param)) {
+        for (const property of param.properties) {
+            if (!t.isObjectProperty(property) || property.computed) {
+                continue;
+            }
+            const name = t.isIdentifier(property.key)
+                ? property.key.name
+                : t.isStringLiteral(property.key)
+                  ? property.key.value
+                  : null;
+            if (name) {
+                defaults.set(
+                    name,
+                    t.isAssignmentPattern(property.value) ? getSource(property.value.right) : null,
+                );
+            }
+        }
+    }
+
+    const members = propsType
+        ? getTypeMembers(propsType, typeDeclarations, getSource, new Set())
+        : new Map<string, TypeMember>();
+    const props: ComponentProp[] = [...members.entries()].map(([name, member]) => {
+        const defaultValue = defaults.get(name) ?? null;
+        return {
+            name,
+            ...member,
+            required: member.required && defaultValue === null,
+            defaultValue,
+        };
+    });
+    for (const [name, defaultValue] of defaults) {
+        if (!members.has(name)) {
+            props.push({ name, type: null, required: false, defaultValue });
+        }
+    }
+    return props;
+}
+
+function getTypeMembers(
+    type: T.TSType,
+    typeDeclarations: Map<string, T.TSInterfaceDeclaration | T.TSTypeAliasDeclaration>,
+    getSource: (node: T.Node) => string,
+    seen: Set<string>,
+): Map<string, TypeMember> {
+    const members = new Map<string, TypeMember>();
+    const addMembers = (signatures: T.TSTypeElement[]) => {
+        for (const signature of signatures) {
+            if (!t.isTSPropertySignature(signature) || signature.computed) {
+                continue;
+            }
+            const name = t.isIdentifier(signature.key)
+                ? signature.key.name
+                : t.isStringLiteral(signature.key)
+                  ? signature.key.value
+                  : null;
+            if (name) {
+                members.set(name, {
+                    type: signature.typeAnnotation
+                        ? getSource(signature.typeAnnotation.typeAnnotation)
+                        : null,
+                    required: !signature.optional,
+                });
+            }
+        }
+    };
+    const addType = (inner: T.TSType) => {
+        for (const [name, member] of getTypeMembers(inner, typeDeclarations, getSource, seen)) {
+            members.set(name, member);
+        }
+    };
+
+    const addDeclared = (name: string) => {
+        const declaration = typeDeclarations.get(name);
+        if (!declaration || seen.has(name)) {
+            return;
+        }
+        seen.add(name);
+        if (t.isTSTypeAliasDeclaration(declaration)) {
+            addType(declaration.typeAnnotation);
+            return;
+        }
+        for (const heritage of declaration.extends ?? []) {
+            addDeclared(getSource(heritage.expression));
+        }
+        addMembers(declaration.body.body);
+    };
+
+    if (t.isTSTypeLiteral(type)) {
+        addMembers(type.members);
+    } else if (t.isTSIntersectionType(type)) {
+        type.types.forEach(addType);
+    } else if (t.isTSParenthesizedType(type)) {
+        addType(type.typeAnnotation);
+    } else if (t.isTSTypeReference(type)) {
+        const name = getSource(type.typeName);
+        if (typeDeclarations.has(name)) {
+            addDeclared(name);
+        } else if (PROPS_WRAPPER_TYPES.includes(name) && type.typeParameters?.params[0]) {
+            addType(type.typeParameters.params[0]);
+        }
+    }
+    return members;
+}
+
+/** Finds the function in `forwardRef(...)`, `memo(...)` and the like, with the props type given to the wrapper */
+function unwrapFunction(
+    node: T.Node | null | undefined,
+): { fn: T.ArrowFunctionExpression | T.FunctionExpression; propsType: T.TSType | null } | null {
+    if (t.isArrowFunctionExpression(node) || t.isFunctionExpression(node)) {
+        return { fn: node, propsType: null };
+    }
+    if (!t.isCallExpression(node)) {
+        return null;
+    }
+    const inner = unwrapFunction(node.arguments[0]);
+    if (!inner) {
+        return null;
+    }
+    const callee = t.isMemberExpression(node.callee) ? node.callee.property : node.callee;
+    const params = node.typeParameters?.params ?? [];
+    // forwardRef<Ref, Props> puts the props last
+    const propsType =
+        t.isIdentifier(callee) && callee.name === 'forwardRef' ? params[1] : params[0];
+    return { fn: inner.fn, propsType: inner.propsType ?? propsType ?? null };
+}
+
+function getWrappedIdentifier(node: T.Node): string | null {
+    if (t.isIdentifier(node)) {
+        return node.name;
+    }
+    if (t.isCallExpression(node) && node.arguments[0]) {
+        return getWrappedIdentifier(node.arguments[0]);
+    }
+    return null;
+}
+
+function getTypeArgument(type: T.TSType, index: number): T.TSType | null {
+    return t.isTSTypeReference(type) ? (type.typeParameters?.params[index] ?? null) : null;
+}
+
+function getDeclarationName(declaration: T.Declaration): string | null {
+    return 'id' in declaration && t.isIdentifier(declaration.id) ? declaration.id.name : null;
+}
+
+function getName(node: T.Identifier | T.StringLiteral): string {
+    return t.isIdentifier(node) ? node.name : node.value;
+}
+
+function getLine(node: T.Node): number {
+    return node.loc?.start.line ?? 0;
+}
+
+function isComponentName(name: string): boolean {
+    return /^[A-Z]/.test(name);
+}
+
+function isComponentFunction(name: string, fn: T.Function): boolean {
+    return (name === 'default' || isComponentName(name)) && containsJsx(fn);
+}
+
+function containsJsx(node: T.Node): boolean {
+    let found = false;
+    t.traverseFast(node, (child) => {
+        if (t.isJSXElement(child) || t.isJSXFragment(child)) {
+            found = true;
+        }
+    });
+    return found;
+}
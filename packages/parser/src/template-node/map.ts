@@ -129,7 +129,8 @@ export function getDynamicTypeInfo(path: NodePath<T.JSXElement>): DynamicType |
     // Check for array map root element
     const isArrayMapRoot =
         t.isArrowFunctionExpression(parent) ||
-        (t.isJSXFragment(parent) && path.parentPath?.parentPath?.isArrowFunctionExpression());
+        (t.isJSXFragment(parent) && path.parentPath?.parentPath?.isArrowFunctionExpression()) ||
+        isReturnedFromMapCallback(path);
 
     const dynamicType = isConditionalRoot
         ? DynamicType.CONDITIONAL
@@ -140,6 +141,15 @@ export function getDynamicTypeInfo(path: NodePath<T.JSXElement>): DynamicType |
     return dynamicType ?? null;
 }
 
+// As in `items.map((item) => { return <li>{item}</li>; })`
+function isReturnedFromMapCallback(path: NodePath<T.JSXElement>): boolean {
+    if (!t.isReturnStatement(path.parent)) {
+        return false;
+    }
+    const callback = path.getFunctionParent();
+    return !!callback && t.isCallExpression(callback.parent) && isNodeElementArray(callback.parent);
+}
+
 export function getCoreElementInfo(path: NodePath<T.JSXElement>): CoreElementType | null {
     const parent = path.parent;
 
@@ -0,0 +1,147 @@
+import { ClassSegmentType, type CodeDiffRequest } from '@onlook/models';
+import { describe, expect, test } from 'bun:test';
+import {
+    generate,
+    getAstFromContent,
+    getElementClassSegments,
+    removeClassesFromNode,
+    transformAst,
+    traverse,
+    type t as T,
+} from 'src';
+
+function addClasses(code: string, className: string, runtimeClasses?: string[]): string {
+    const ast = getAstFromContent(code);
+    if (!ast) {
+        throw new Error('Failed to parse code');
+    }
+    const request: CodeDiffRequest = {
+        oid: 'el',
+        attributes: { className },
+        textContent: null,
+        overrideClasses: null,
+        runtimeClasses,
+        structureChanges: [],
+    };
+    transformAst(ast, new Map([['el', request]]));
+    return generate(ast).code.replace(/"/g, "'");
+}
+
+describe('getElementClassSegments', () => {
+    test('splits template literals, conditionals and cva variants into segments', () => {
+        const code = `import { cva } from 'class-variance-authority';
+
+const button = cva('inline-flex', {
+    variants: {
+        size: { sm: 'h-8', lg: 'h-10 px-6' },
+    },
+});
+
+export function Button({ isActive, size, tone }) {
+    return (
+        <div data-oid="el" className={\`p-2 text-\${tone} \${isActive ? 'bg-blue-500' : 'bg-white'} \${button({ size })}\`} />
+    );
+}
+`;
+        const ast = getAstFromContent(code) as T.File;
+        const segments = getElementClassSegments(ast, 'el');
+
+        expect(segments).toEqual([
+            { type: ClassSegmentType.Static, classes: ['p-2'], expression: null, editable: true },
+            { type: ClassSegmentType.Dynamic, classes: [], expression: 'tone', editable: false },
+            {
+                type: ClassSegmentType.Conditional,
+                classes: ['bg-blue-500'],
+                expression: 'isActive',
+                editable: true,
+            },
+            {
+                type: ClassSegmentType.Conditional,
+                classes: ['bg-white'],
+                expression: '!(isActive)',
+                editable: true,
+            },
+            {
+                type: ClassSegmentType.Variant,
+                classes: ['inline-flex'],
+                expression: 'button',
+                editable: false,
+            },
+            {
+                type: ClassSegmentType.Variant,
+                classes: ['h-8'],
+                expression: 'button size=sm',
+                editable: false,
+            },
+            {
+                type: ClassSegmentType.Variant,
+                classes: ['h-10', 'px-6'],
+                expression: 'button size=lg',
+                editable: false,
+            },
+        ]);
+    });
+
+    test('reads object keys of clsx as conditional classes', () => {
+        const code = `export const Tab = ({ selected }) => <div data-oid="el" className={clsx('px-4', { 'font-bold underline': selected })} />;`;
+        const ast = getAstFromContent(code) as T.File;
+
+        expect(getElementClassSegments(ast, 'el')).toEqual([
+            { type: ClassSegmentType.Static, classes: ['px-4'], expression: null, editable: true },
+            {
+                type: ClassSegmentType.Conditional,
+                classes: ['font-bold', 'underline'],
+                expression: 'selected',
+                editable: true,
+            },
+        ]);
+    });
+});
+
+describe('addClassToNode', () => {
+    test('adds classes to the static part of a template literal', () => {
+        const code = `export const Card = ({ isActive }) => <div data-oid="el" className={\`p-2 \${isActive ? 'bg-blue-500' : 'bg-white'}\`} />;`;
+
+        expect(addClasses(code, 'p-4 rounded')).toContain(
+            "className={`p-4 rounded ${isActive ? 'bg-blue-500' : 'bg-white'}`}",
+        );
+    });
+
+    test('replaces the conflicting class in the branch that applies at runtime', () => {
+        const code = `export const Card = ({ isActive }) => <div data-oid="el" className={\`p-2 \${isActive ? 'bg-blue-500' : 'bg-white'}\`} />;`;
+
+        expect(addClasses(code, 'bg-red-500 m-2', ['p-2', 'bg-white'])).toContain(
+            "className={`p-2 m-2 ${isActive ? 'bg-blue-500' : 'bg-red-500'}`}",
+        );
+    });
+
+    test('merges into the static string of cn before the className prop', () => {
+        const code = `export const Card = ({ isActive, className }) => <div data-oid="el" className={cn('p-2', isActive && 'ring', className)} />;`;
+
+        expect(addClasses(code, 'p-4')).toContain(
+            "className={cn('p-4', isActive && 'ring', className)}",
+        );
+    });
+
+    test('wraps other expressions in a template literal', () => {
+        const code = `export const Card = ({ className }) => <div data-oid="el" className={className} />;`;
+
+        expect(addClasses(code, 'p-4')).toContain("className={`p-4 ${className ?? ''}`}");
+    });
+});
+
+describe('removeClassesFromNode', () => {
+    test('removes classes from branches and object keys', () => {
+        const code = `export const Tab = ({ selected }) => <div data-oid="el" className={clsx(selected ? 'md:p-4 p-2' : 'p-1', { 'md:font-bold': selected })} />;`;
+        const ast = getAstFromContent(code) as T.File;
+        traverse(ast, {
+            JSXElement(path) {
+                removeClassesFromNode(path.node, ['md:p-4', 'md:font-bold']);
+            },
+        });
+
+        expect(generate(ast).code.replace(/"/g, "'")).toContain(
+            "className={clsx(selected ? 'p-2' : 'p-1', {})}",
+        );
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'bun:test';
+import {
+    generate,
+    getAstFromContent,
+    hasPreviewedBranches,
+    restoreConditionalBranches,
+    toggleConditionalBranch,
+    type t as T,
+} from 'src';
+
+const code = `export function Menu({ isOpen, items, title }) {
+    return (
+        <nav>
+            {isOpen ? <ul data-oid="list" /> : <button data-oid="toggle" />}
+            {items.length > 0 && <span data-oid="count">{items.length}</span>}
+            {title ?? <h2 data-oid="placeholder">Untitled</h2>}
+        </nav>
+    );
+}
+`;
+
+function getCode(ast: T.File): string {
+    return generate(ast).code.replace(/\s+/g, ' ');
+}
+
+describe('toggleConditionalBranch', () => {
+    test('negates the condition that renders the element', () => {
+        const ast = getAstFromContent(code) as T.File;
+
+        expect(toggleConditionalBranch(ast, 'toggle')).toBe(true);
+        expect(toggleConditionalBranch(ast, 'count')).toBe(true);
+        expect(hasPreviewedBranches(ast)).toBe(true);
+
+        const result = getCode(ast);
+        expect(result).toMatch(/!\s*\(?\s*\/\* onlook-preview \*\/\s*isOpen\s*\)?\s*\?/);
+        expect(result).toMatch(/!\s*\(\s*\/\* onlook-preview \*\/\s*items\.length > 0\s*\)\s*&&/);
+    });
+
+    test('puts back a negated condition from either branch', () => {
+        const ast = getAstFromContent(code) as T.File;
+        toggleConditionalBranch(ast, 'list');
+        const previewed = getAstFromContent(generate(ast).code) as T.File;
+
+        expect(toggleConditionalBranch(previewed, 'toggle')).toBe(true);
+        expect(hasPreviewedBranches(previewed)).toBe(false);
+        expect(getCode(previewed)).toContain('{isOpen ? <ul');
+    });
+
+    test('voids the left side of a nullish fallback so the fallback renders', () => {
+        const ast = getAstFromContent(code) as T.File;
+
+        expect(toggleConditionalBranch(ast, 'placeholder')).toBe(true);
+        expect(getCode(ast)).toMatch(/void\s*\(?\s*\/\* onlook-preview \*\/\s*title\s*\)?\s*\?\?/);
+
+        const previewed = getAstFromContent(generate(ast).code) as T.File;
+        expect(toggleConditionalBranch(previewed, 'placeholder')).toBe(true);
+        expect(getCode(previewed)).toContain('{title ?? <h2');
+    });
+
+    test('returns false for elements not rendered by a condition', () => {
+        const ast = getAstFromContent(code) as T.File;
+
+        expect(toggleConditionalBranch(ast, 'missing')).toBe(false);
+    });
+});
+
+describe('restoreConditionalBranches', () => {
+    test('puts back every negated condition', () => {
+        const ast = getAstFromContent(code) as T.File;
+        toggleConditionalBranch(ast, 'list');
+        toggleConditionalBranch(ast, 'count');
+        const previewed = getAstFromContent(generate(ast).code) as T.File;
+
+        expect(restoreConditionalBranches(previewed)).toBe(true);
+        expect(hasPreviewedBranches(previewed)).toBe(false);
+        expect(getCode(previewed)).not.toContain('onlook-preview');
+        expect(getCode(previewed)).toContain('{items.length > 0 && <span');
+    });
+});
@@ -0,0 +1,70 @@
+import { PropsType, type CodeDiffRequest } from '@onlook/models';
+import { describe, expect, test } from 'bun:test';
+import { generate, getAstFromContent, getElementProps, transformAst, type t as T } from 'src';
+
+const code = `export function Page({ items }) {
+    return (
+        <Card
+            data-oid="card"
+            className="p-4"
+            title="Pricing"
+            subtitle={'Monthly'}
+            columns={3}
+            offset={-1}
+            featured
+            outlined={false}
+            style={{ color: 'red' }}
+            tags={['a', 'b']}
+            onSelect={() => console.log(items)}
+        />
+    );
+}
+`;
+
+describe('getElementProps', () => {
+    test('reads literal props and keeps expressions as code', () => {
+        const ast = getAstFromContent(code) as T.File;
+        const result = getElementProps(ast, 'card');
+
+        expect(result).toEqual({
+            type: 'props',
+            props: [
+                { key: 'title', type: PropsType.String, value: 'Pricing' },
+                { key: 'subtitle', type: PropsType.String, value: 'Monthly' },
+                { key: 'columns', type: PropsType.Number, value: 3 },
+                { key: 'offset', type: PropsType.Number, value: -1 },
+                { key: 'featured', type: PropsType.Boolean, value: true },
+                { key: 'outlined', type: PropsType.Boolean, value: false },
+                { key: 'style', type: PropsType.Object, value: expect.any(String) },
+                { key: 'tags', type: PropsType.Array, value: "['a', 'b']" },
+                { key: 'onSelect', type: PropsType.Code, value: '() => console.log(items)' },
+            ],
+        });
+        if (result.type === 'props') {
+            expect(result.props[6]?.value.replace(/\s+/g, ' ')).toBe("{ color: 'red' }");
+        }
+    });
+
+    test('returns an error when the element is not found', () => {
+        const ast = getAstFromContent(code) as T.File;
+        expect(getElementProps(ast, 'missing').type).toBe('error');
+    });
+
+    test('writes edited props back to the attributes', () => {
+        const ast = getAstFromContent(code) as T.File;
+        const request: CodeDiffRequest = {
+            oid: 'card',
+            attributes: { title: 'Plans', columns: 4, outlined: true, size: 'lg' },
+            textContent: null,
+            overrideClasses: null,
+            structureChanges: [],
+        };
+        transformAst(ast, new Map([['card', request]]));
+
+        const generated = generate(ast).code;
+        expect(generated).toContain('title="Plans"');
+        expect(generated).toContain('columns={4}');
+        expect(generated).toContain('outlined={true}');
+        expect(generated).toContain('size="lg"');
+    });
+});
@@ -0,0 +1,158 @@
+import { CodeSymbolKind } from '@onlook/models';
+import { describe, expect, test } from 'bun:test';
+import { getFileSymbols } from 'src';
+
+describe('getFileSymbols', () => {
+    test('collects exported declarations by kind', () => {
+        const code = `import { cn } from '@/lib/utils';
+
+export interface CardProps {
+    title: string;
+}
+
+export type Size = 'sm' | 'lg';
+
+export enum Tone {
+    Neutral,
+}
+
+export function formatTitle(title: string) {
+    return cn(title);
+}
+
+const MAX = 3;
+
+export default function Page() {
+    return <div>{MAX}</div>;
+}
+`;
+        const result = getFileSymbols('app/page.tsx', code);
+
+        expect(
+            result?.symbols.map(({ name, kind, line, exportNames }) => ({
+                name,
+                kind,
+                line,
+                exportNames,
+            })),
+        ).toEqual([
+            {
+                name: 'CardProps',
+                kind: CodeSymbolKind.INTERFACE,
+                line: 3,
+                exportNames: ['CardProps'],
+            },
+            { name: 'Size', kind: CodeSymbolKind.TYPE, line: 7, exportNames: ['Size'] },
+            { name: 'Tone', kind: CodeSymbolKind.ENUM, line: 9, exportNames: ['Tone'] },
+            {
+                name: 'formatTitle',
+                kind: CodeSymbolKind.FUNCTION,
+                line: 13,
+                exportNames: ['formatTitle'],
+            },
+            { name: 'MAX', kind: CodeSymbolKind.VARIABLE, line: 17, exportNames: [] },
+            { name: 'Page', kind: CodeSymbolKind.COMPONENT, line: 19, exportNames: ['default'] },
+        ]);
+        expect(result?.imports).toEqual([
+            {
+                source: '@/lib/utils',
+                line: 1,
+                specifiers: [{ imported: 'cn', local: 'cn' }],
+                isReexport: false,
+            },
+        ]);
+        expect(result?.references).toEqual({ cn: [14], MAX: [20] });
+    });
+
+    test('reads component props from types in the same file', () => {
+        const code = `import { forwardRef } from 'react';
+
+interface BaseProps {
+    id?: string;
+}
+
+interface ButtonProps extends BaseProps {
+    variant?: 'primary' | 'ghost';
+    disabled: boolean;
+    label: string;
+}
+
+export function Button({ variant = 'primary', disabled, label }: ButtonProps) {
+    return <button disabled={disabled}>{label}</button>;
+}
+
+export const Input = forwardRef<HTMLInputElement, { value: string }>((props, ref) => (
+    <input ref={ref} value={props.value} />
+));
+
+export const Badge = ({ count }) => <span>{count}</span>;
+`;
+        const symbols = getFileSymbols('components/button.tsx', code)?.symbols ?? [];
+        const getProps = (name: string) => symbols.find((symbol) => symbol.name === name)?.props;
+
+        expect(getProps('Button')).toEqual([
+            { name: 'id', type: 'string', required: false, defaultValue: null },
+            {
+                name: 'variant',
+                type: "'primary' | 'ghost'",
+                required: false,
+                defaultValue: "'primary'",
+            },
+            { name: 'disabled', type: 'boolean', required: true, defaultValue: null },
+            { name: 'label', type: 'string', required: true, defaultValue: null },
+        ]);
+        expect(getProps('Input')).toEqual([
+            { name: 'value', type: 'string', required: true, defaultValue: null },
+        ]);
+        expect(getProps('Badge')).toEqual([
+            { name: 'count', type: null, required: false, defaultValue: null },
+        ]);
+    });
+
+    test('records re-exports and local exports of imported names', () => {
+        const code = `import { Card } from './card';
+
+export { Button as PrimaryButton } from './button';
+export * from './input';
+export { Card };
+`;
+        const result = getFileSymbols('components/index.ts', code);
+
+        expect(result?.symbols).toEqual([]);
+        expect(result?.imports.filter((fileImport) => fileImport.isReexport)).toEqual([
+            {
+                source: './button',
+                line: 3,
+                specifiers: [{ imported: 'Button', local: 'PrimaryButton' }],
+                isReexport: true,
+            },
+            {
+                source: './input',
+                line: 4,
+                specifiers: [{ imported: '*', local: '*' }],
+                isReexport: true,
+            },
+            {
+                source: './card',
+                line: 5,
+                specifiers: [{ imported: 'Card', local: 'Card' }],
+                isReexport: true,
+            },
+        ]);
+    });
+
+    test('ignores names shadowed by local bindings', () => {
+        const code = `import { title } from './data';
+
+export function Heading() {
+    const title = 'Local';
+    return <h1>{title}</h1>;
+}
+
+export const upper = title.toUpperCase();
+`;
+        const result = getFileSymbols('components/heading.tsx', code);
+
+        expect(result?.references.title).toEqual([8]);
+    });
+});
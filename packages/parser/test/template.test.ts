@@ -234,5 +234,39 @@ describe('Template Tests', () => {
 
             expect(arrayElement && getDynamicTypeInfo(arrayElement)).toBe(DynamicType.ARRAY);
         });
+
+        test('should identify array elements returned from a callback body', () => {
+            const code = `
+                function App() {
+                    return (
+                        <ul>
+                            {items.map((item) => {
+                                const label = item.toUpperCase();
+                                return <li data-oid="item">{label}</li>;
+                            })}
+                        </ul>
+                    );
+                }
+            `;
+            const ast = getAstFromContent(code);
+            if (!ast) {
+                throw new Error('Failed to get ast');
+            }
+            let arrayElement: NodePath<t.JSXElement> | undefined;
+
+            traverse(ast, {
+                JSXElement(path) {
+                    if (
+                        path.node.openingElement.attributes.some(
+                            (attr) => t.isJSXAttribute(attr) && attr.name.name === 'data-oid',
+                        )
+                    ) {
+                        arrayElement = path;
+                    }
+                },
+            });
+
+            expect(arrayElement && getDynamicTypeInfo(arrayElement)).toBe(DynamicType.ARRAY);
+        });
     });
 });
@@ -4,7 +4,12 @@ export { PropType };
 
 export interface Prop {
     name: string;
-    type: PropType.StringType | PropType.BooleanType | PropType.EnumType<string[]>;
+    type:
+        | PropType.StringType
+        | PropType.BooleanType
+        | PropType.NumberType
+        | PropType.ColorType
+        | PropType.EnumType<string[]>;
 }
 
 export interface ComponentDescriptor {
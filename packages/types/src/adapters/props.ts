@@ -14,6 +14,10 @@ export interface NumberType extends AbstractType<number> {
     type: 'number';
 }
 
+export interface ColorType extends AbstractType<string> {
+    type: 'color';
+}
+
 export interface EnumType<T extends readonly string[]> extends AbstractType<T[number]> {
     type: 'enum';
     options: T;
@@ -45,6 +49,13 @@ export function number(): NumberType {
     };
 }
 
+export function color(): ColorType {
+    return {
+        type: 'color',
+        default: '',
+    };
+}
+
 function enum_<U extends string, T extends Readonly<[U, ...U[]]>>(options: T): EnumType<T> {
     return {
         type: 'enum',
@@ -0,0 +1,84 @@
+import type { Breakpoint } from '@onlook/models';
+
+/** Tailwind's default screens, used when the project does not configure its own */
+export const DEFAULT_BREAKPOINTS: Breakpoint[] = [
+    { name: 'sm', minWidth: 640 },
+    { name: 'md', minWidth: 768 },
+    { name: 'lg', minWidth: 1024 },
+    { name: 'xl', minWidth: 1280 },
+    { name: '2xl', minWidth: 1536 },
+];
+
+const ROOT_FONT_SIZE = 16;
+
+/** Pixel width of a screen such as `768px` or `48rem`. Null for ranges and other units */
+export function parseBreakpointWidth(value: string): number | null {
+    const match = value.trim().match(/^(\d*\.?\d+)(px|rem|em)?$/);
+    if (!match) {
+        return null;
+    }
+    const width = Number.parseFloat(match[1] ?? '');
+    return match[2] === 'rem' || match[2] === 'em' ? width * ROOT_FONT_SIZE : width;
+}
+
+/** Breakpoints of the screens, from the smallest. Screens that are not a min width are skipped */
+export function getBreakpointsFromScreens(screens: Record<string, string>): Breakpoint[] {
+    return Object.entries(screens)
+        .map(([name, value]) => ({ name, minWidth: parseBreakpointWidth(value) }))
+        .filter((breakpoint): breakpoint is Breakpoint => breakpoint.minWidth !== null)
+        .sort((a, b) => a.minWidth - b.minWidth);
+}
+
+/** The largest breakpoint a frame of the width is in, or null below the smallest one */
+export function getBreakpointForWidth(width: number, breakpoints: Breakpoint[]): Breakpoint | null {
+    return breakpoints.reduce<Breakpoint | null>(
+        (match, breakpoint) =>
+            width >= breakpoint.minWidth && (!match || breakpoint.minWidth > match.minWidth)
+                ? breakpoint
+                : match,
+        null,
+    );
+}
+
+/**
+ * Tailwind variant edits in a frame of the width are written with: the frame's breakpoint, or
+ * `max-<smallest>` below the smallest breakpoint so they stay off larger screens. Null without breakpoints
+ */
+export function getBreakpointVariant(width: number, breakpoints: Breakpoint[]): string | null {
+    const breakpoint = getBreakpointForWidth(width, breakpoints);
+    if (breakpoint) {
+        return breakpoint.name;
+    }
+    const smallest = breakpoints.reduce<Breakpoint | null>(
+        (min, candidate) => (!min || candidate.minWidth < min.minWidth ? candidate : min),
+        null,
+    );
+    return smallest ? `max-${smallest.name}` : null;
+}
+
+export interface BreakpointClasses {
+    breakpoint: Breakpoint;
+    classes: string[];
+}
+
+/**
+ * Responsive classes that apply at the breakpoint, grouped by the breakpoint they are set
+ * at, from the smallest. Classes of larger breakpoints do not apply and are left out.
+ */
+export function getClassesByBreakpoint(
+    classes: string[],
+    breakpoints: Breakpoint[],
+    current: Breakpoint | null,
+): BreakpointClasses[] {
+    if (!current) {
+        return [];
+    }
+    return breakpoints
+        .filter((breakpoint) => breakpoint.minWidth <= current.minWidth)
+        .sort((a, b) => a.minWidth - b.minWidth)
+        .map((breakpoint) => ({
+            breakpoint,
+            classes: classes.filter((cls) => cls.startsWith(`${breakpoint.name}:`)),
+        }))
+        .filter((group) => group.classes.length > 0);
+}
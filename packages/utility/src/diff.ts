@@ -0,0 +1,114 @@
+export interface DiffHunk {
+    /** Index of the first original line the hunk replaces */
+    originalStart: number;
+    originalLines: string[];
+    /** Index of the first line of the hunk in the modified text */
+    modifiedStart: number;
+    modifiedLines: string[];
+}
+
+// Above this many cells the changed region is reported as one hunk instead of diffed line by line
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Splits text into lines that keep their line endings, so joining them restores the text */
+export function splitLines(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Line diff of two texts as a list of independent hunks. Hunks never overlap in the original,
+ * so any subset of them can be applied with `applyHunks`.
+ */
+export function diffLines(original: string, modified: string): DiffHunk[] {
+    const a = splitLines(original);
+    const b = splitLines(modified);
+
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const oldLines = a.slice(prefix, a.length - suffix);
+    const newLines = b.slice(prefix, b.length - suffix);
+    if (oldLines.length === 0 && newLines.length === 0) {
+        return [];
+    }
+    if (
+        oldLines.length === 0 ||
+        newLines.length === 0 ||
+        (oldLines.length + 1) * (newLines.length + 1) > MAX_DIFF_CELLS
+    ) {
+        return [
+            {
+                originalStart: prefix,
+                originalLines: oldLines,
+                modifiedStart: prefix,
+                modifiedLines: newLines,
+            },
+        ];
+    }
+
+    // Longest common subsequence lengths of every pair of suffixes
+    const width = newLines.length + 1;
+    const lcs = new Uint32Array((oldLines.length + 1) * width);
+    for (let i = oldLines.length - 1; i >= 0; i--) {
+        for (let j = newLines.length - 1; j >= 0; j--) {
+            lcs[i * width + j] =
+                oldLines[i] === newLines[j]
+                    ? lcs[(i + 1) * width + j + 1]! + 1
+                    : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+        }
+    }
+
+    const hunks: DiffHunk[] = [];
+    let current: DiffHunk | null = null;
+    let i = 0;
+    let j = 0;
+    while (i < oldLines.length || j < newLines.length) {
+        if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+            current = null;
+            i++;
+            j++;
+            continue;
+        }
+        if (!current) {
+            current = {
+                originalStart: prefix + i,
+                originalLines: [],
+                modifiedStart: prefix + j,
+                modifiedLines: [],
+            };
+            hunks.push(current);
+        }
+        if (
+            j >= newLines.length ||
+            (i < oldLines.length && lcs[(i + 1) * width + j]! >= lcs[i * width + j + 1]!)
+        ) {
+            current.originalLines.push(oldLines[i++]!);
+        } else {
+            current.modifiedLines.push(newLines[j++]!);
+        }
+    }
+    return hunks;
+}
+
+/** Applies hunks from `diffLines(original, ...)` to the original, in any order or subset */
+export function applyHunks(original: string, hunks: DiffHunk[]): string {
+    const lines = splitLines(original);
+    const result: string[] = [];
+    let cursor = 0;
+    for (const hunk of [...hunks].sort((x, y) => x.originalStart - y.originalStart)) {
+        result.push(...lines.slice(cursor, hunk.originalStart), ...hunk.modifiedLines);
+        cursor = hunk.originalStart + hunk.originalLines.length;
+    }
+    result.push(...lines.slice(cursor));
+    return result.join('');
+}
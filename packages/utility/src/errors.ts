@@ -1,11 +1,15 @@
 import stripAnsi from 'strip-ansi';
 
+/** Fix the editor can run on the user's behalf */
+export type ParsedErrorAction = 'install-dependencies';
+
 export interface ParsedError {
     branchId: string;
     branchName: string;
     sourceId: string;
-    type: 'frame' | 'terminal' | 'apply-code';
+    type: 'frame' | 'terminal' | 'apply-code' | 'crash';
     content: string;
+    action?: ParsedErrorAction;
 }
 
 export function compareErrors(a: ParsedError, b: ParsedError): boolean {
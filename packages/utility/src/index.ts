@@ -1,7 +1,9 @@
 export * from './assert';
 export * from './autolayout';
+export * from './breakpoint';
 export * from './clone';
 export * from './color';
+export * from './diff';
 export * from './domain';
 export * from './email';
 export * from './errors';
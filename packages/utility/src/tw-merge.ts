@@ -8,36 +8,45 @@ const BG_PATTERNS = {
     attachment: /^bg-(?:fixed|local|scroll)$/,
 } as const;
 
-const dedupBackgroundClasses = (classes: string[]) => {
-    const categories: Record<keyof typeof BG_PATTERNS, string[]> = {
-        color: [],
-        repeat: [],
-        size: [],
-        position: [],
-        attachment: [],
-    };
+/** Splits `hover:bg-red-500` into `hover:` and `bg-red-500`, ignoring colons in arbitrary values */
+const splitVariants = (cls: string): [string, string] => {
+    let depth = 0;
+    let end = 0;
+    for (let i = 0; i < cls.length; i++) {
+        const char = cls[i];
+        if (char === '[' || char === '(') {
+            depth++;
+        } else if (char === ']' || char === ')') {
+            depth--;
+        } else if (char === ':' && depth === 0) {
+            end = i + 1;
+        }
+    }
+    return [cls.slice(0, end), cls.slice(end)];
+};
 
+// Background classes only conflict with classes under the same variants, e.g. `hover:`
+const dedupBackgroundClasses = (classes: string[]) => {
+    const categories = new Map<string, string[]>();
     const nonBgClasses: string[] = [];
 
     for (const cls of classes) {
-        let categorized = false;
-
-        for (const [category, pattern] of Object.entries(BG_PATTERNS)) {
-            if (pattern.test(cls)) {
-                categories[category as keyof typeof BG_PATTERNS].push(cls);
-                categorized = true;
-                break;
-            }
-        }
+        const [variants, utility] = splitVariants(cls);
+        const category = Object.entries(BG_PATTERNS).find(([, pattern]) =>
+            pattern.test(utility),
+        )?.[0];
 
-        if (!categorized) {
+        if (category) {
+            const key = `${variants}${category}`;
+            categories.set(key, [...(categories.get(key) ?? []), cls]);
+        } else {
             nonBgClasses.push(cls);
         }
     }
 
     const deduplicated = [
         ...nonBgClasses,
-        ...Object.values(categories)
+        ...Array.from(categories.values())
             .map((arr) => arr.pop())
             .filter(Boolean),
     ];
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    DEFAULT_BREAKPOINTS,
+    getBreakpointForWidth,
+    getBreakpointsFromScreens,
+    getBreakpointVariant,
+    getClassesByBreakpoint,
+    parseBreakpointWidth,
+} from '../src/breakpoint';
+
+const md = { name: 'md', minWidth: 768 };
+const lg = { name: 'lg', minWidth: 1024 };
+
+describe('parseBreakpointWidth', () => {
+    it('reads pixel and rem widths', () => {
+        expect(parseBreakpointWidth('768px')).toBe(768);
+        expect(parseBreakpointWidth('48rem')).toBe(768);
+        expect(parseBreakpointWidth(' 640 ')).toBe(640);
+    });
+
+    it('rejects ranges and other units', () => {
+        expect(parseBreakpointWidth('50%')).toBeNull();
+        expect(parseBreakpointWidth('calc(100vw - 10px)')).toBeNull();
+    });
+});
+
+describe('getBreakpointsFromScreens', () => {
+    it('orders screens from the smallest and skips unsupported values', () => {
+        expect(
+            getBreakpointsFromScreens({
+                tablet: '48rem',
+                desktop: '1280px',
+                phone: '480px',
+                tv: '50vw',
+            }),
+        ).toEqual([
+            { name: 'phone', minWidth: 480 },
+            { name: 'tablet', minWidth: 768 },
+            { name: 'desktop', minWidth: 1280 },
+        ]);
+    });
+});
+
+describe('getBreakpointForWidth', () => {
+    it('picks the largest breakpoint the width reaches', () => {
+        expect(getBreakpointForWidth(440, DEFAULT_BREAKPOINTS)).toBeNull();
+        expect(getBreakpointForWidth(768, DEFAULT_BREAKPOINTS)?.name).toBe('md');
+        expect(getBreakpointForWidth(1440, DEFAULT_BREAKPOINTS)?.name).toBe('xl');
+        expect(getBreakpointForWidth(1440, [lg, md])?.name).toBe('lg');
+    });
+});
+
+describe('getBreakpointVariant', () => {
+    it('scopes widths below the smallest breakpoint with a max variant', () => {
+        expect(getBreakpointVariant(440, DEFAULT_BREAKPOINTS)).toBe('max-sm');
+        expect(getBreakpointVariant(440, [lg, md])).toBe('max-md');
+        expect(getBreakpointVariant(768, DEFAULT_BREAKPOINTS)).toBe('md');
+        expect(getBreakpointVariant(440, [])).toBeNull();
+    });
+});
+
+describe('getClassesByBreakpoint', () => {
+    const classes = ['p-2', 'sm:p-4', 'md:p-6', 'md:hover:bg-red-500', 'lg:p-8', 'hover:md:p-1'];
+
+    it('groups the classes that apply at the breakpoint', () => {
+        expect(getClassesByBreakpoint(classes, DEFAULT_BREAKPOINTS, md)).toEqual([
+            { breakpoint: { name: 'sm', minWidth: 640 }, classes: ['sm:p-4'] },
+            { breakpoint: md, classes: ['md:p-6', 'md:hover:bg-red-500'] },
+        ]);
+    });
+
+    it('has no responsive classes below the smallest breakpoint', () => {
+        expect(getClassesByBreakpoint(classes, DEFAULT_BREAKPOINTS, null)).toEqual([]);
+    });
+});
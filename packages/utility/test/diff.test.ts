@@ -0,0 +1,68 @@
+import { describe, expect, test } from 'bun:test';
+import { applyHunks, diffLines, splitLines } from '../src/diff';
+
+const original = ['a', 'b', 'c', 'd', 'e', 'f', ''].join('\n');
+const modified = ['a', 'B', 'c', 'd', 'e', 'f2', 'g', ''].join('\n');
+
+describe('splitLines', () => {
+    test('keeps line endings so the text can be rebuilt', () => {
+        expect(splitLines('a\nb')).toEqual(['a\n', 'b']);
+        expect(splitLines('a\n\n')).toEqual(['a\n', '\n']);
+        expect(splitLines('')).toEqual([]);
+    });
+});
+
+describe('diffLines', () => {
+    test('returns no hunks for equal text', () => {
+        expect(diffLines(original, original)).toEqual([]);
+    });
+
+    test('splits separate changes into separate hunks', () => {
+        const hunks = diffLines(original, modified);
+        expect(hunks).toEqual([
+            { originalStart: 1, originalLines: ['b\n'], modifiedStart: 1, modifiedLines: ['B\n'] },
+            {
+                originalStart: 5,
+                originalLines: ['f\n'],
+                modifiedStart: 5,
+                modifiedLines: ['f2\n', 'g\n'],
+            },
+        ]);
+    });
+
+    test('handles new and emptied files', () => {
+        expect(diffLines('', 'x\ny\n')).toEqual([
+            {
+                originalStart: 0,
+                originalLines: [],
+                modifiedStart: 0,
+                modifiedLines: ['x\n', 'y\n'],
+            },
+        ]);
+        expect(applyHunks('x\n', diffLines('x\n', ''))).toBe('');
+    });
+});
+
+describe('applyHunks', () => {
+    test('applies all hunks to rebuild the modified text', () => {
+        expect(applyHunks(original, diffLines(original, modified))).toBe(modified);
+    });
+
+    test('applies any subset of hunks', () => {
+        const [first, second] = diffLines(original, modified);
+        expect(applyHunks(original, [second!])).toBe(
+            ['a', 'b', 'c', 'd', 'e', 'f2', 'g', ''].join('\n'),
+        );
+        expect(applyHunks(original, [first!])).toBe(['a', 'B', 'c', 'd', 'e', 'f', ''].join('\n'));
+        expect(applyHunks(original, [])).toBe(original);
+    });
+
+    test('handles insertions and deletions', () => {
+        const before = 'one\ntwo\nthree\n';
+        const after = 'zero\none\nthree\nfour\n';
+        const hunks = diffLines(before, after);
+        expect(hunks).toHaveLength(3);
+        expect(applyHunks(before, hunks)).toBe(after);
+        expect(applyHunks(before, [hunks[1]!])).toBe('one\nthree\n');
+    });
+});
@@ -126,4 +126,12 @@ describe('customTwMerge', () => {
         expect(result).toContain('text-white');
         expect(result).not.toContain('bg-red-500');
     });
+
+    it('should only resolve background conflicts between classes with the same variants', () => {
+        const result = customTwMerge(`${gradient} hover:${gradient} hover:${color} bg-cover`);
+        expect(result).toContain(gradient);
+        expect(result).toContain(`hover:${color}`);
+        expect(result).toContain('bg-cover');
+        expect(result).not.toContain(`hover:${gradient}`);
+    });
 });